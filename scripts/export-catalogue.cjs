@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+// Writes the merged catalogue as versioned static artifacts (JSON, CSV, JSON-LD).
+// Usage: node scripts/export-catalogue.cjs [outDir]   (default: dist/data)
+// Writes the current version to <outDir>/v2 and the deprecated v1 shape to <outDir>/v1.
+// The exported shapes are documented in CATALOGUE_EXPORT.md.
+const crypto = require('node:crypto');
+const fs = require('node:fs');
+const path = require('node:path');
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(__dirname, '..');
+const outRoot = path.resolve(projectRoot, process.argv[2] ?? 'dist/data');
+
+const { alternatives } = loadTsModule(path.join(projectRoot, 'src/data/alternatives.ts'));
+const { categories } = loadTsModule(path.join(projectRoot, 'src/data/categories.ts'));
+const {
+  alternativesToCsv,
+  buildAlternativesExport,
+  buildAlternativesJsonLd,
+  buildCategoriesExport,
+  buildUSVendorsExport,
+  catalogueExportSchemaVersion,
+} = loadTsModule(path.join(projectRoot, 'src/utils/catalogueExport.ts'));
+const { alternativeJsonSchema } = loadTsModule(path.join(projectRoot, 'src/utils/catalogueSchema.ts'));
+const {
+  legacyAlternativeJsonSchema,
+  legacyCatalogueExportSchemaVersion,
+  toLegacyAlternativesExport,
+  toLegacyUSVendorsExport,
+} = loadTsModule(path.join(projectRoot, 'src/utils/legacyCatalogueExport.ts'));
+
+function loadCategoryTranslations() {
+  const localesDir = path.join(projectRoot, 'src/i18n/locales');
+  const translations = {};
+  for (const locale of fs.readdirSync(localesDir).sort()) {
+    const dataPath = path.join(localesDir, locale, 'data.json');
+    if (fs.existsSync(dataPath)) {
+      translations[locale] = JSON.parse(fs.readFileSync(dataPath, 'utf8')).categories ?? {};
+    }
+  }
+  return translations;
+}
+
+function hashPayload(payload) {
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex').slice(0, 12);
+}
+
+// No timestamps: identical data must produce identical files so CI only commits real changes.
+function envelope(schemaVersion, items) {
+  return {
+    schemaVersion,
+    catalogueVersion: hashPayload(items),
+    count: items.length,
+    items,
+  };
+}
+
+function writeExport(dirName, { schemaVersion, alternativesExport, categoriesExport, usVendorsExport, schema }) {
+  const outDir = path.join(outRoot, dirName);
+  const writeFile = (name, content) => fs.writeFileSync(path.join(outDir, name), content);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  writeFile('alternatives.json', `${JSON.stringify(envelope(schemaVersion, alternativesExport), null, 2)}\n`);
+  writeFile('categories.json', `${JSON.stringify(envelope(schemaVersion, categoriesExport), null, 2)}\n`);
+  writeFile('us-vendors.json', `${JSON.stringify(envelope(schemaVersion, usVendorsExport), null, 2)}\n`);
+  writeFile('alternatives.csv', alternativesToCsv(alternativesExport));
+  writeFile('alternatives.jsonld', `${JSON.stringify(buildAlternativesJsonLd(alternatives), null, 2)}\n`);
+  writeFile('alternative.schema.json', `${JSON.stringify(schema, null, 2)}\n`);
+  writeFile('index.json', `${JSON.stringify({
+    schemaVersion,
+    catalogueVersion: hashPayload([alternativesExport, categoriesExport, usVendorsExport]),
+    files: [
+      'alternatives.json',
+      'categories.json',
+      'us-vendors.json',
+      'alternatives.csv',
+      'alternatives.jsonld',
+      'alternative.schema.json',
+    ],
+  }, null, 2)}\n`);
+}
+
+const alternativesExport = buildAlternativesExport(alternatives);
+const categoriesExport = buildCategoriesExport(categories, alternatives, loadCategoryTranslations());
+const usVendorsExport = buildUSVendorsExport(alternatives);
+
+writeExport(`v${catalogueExportSchemaVersion}`, {
+  schemaVersion: catalogueExportSchemaVersion,
+  alternativesExport,
+  categoriesExport,
+  usVendorsExport,
+  schema: alternativeJsonSchema,
+});
+// Deprecated; see "Versioning" in CATALOGUE_EXPORT.md. Categories and the CSV columns did not change.
+writeExport(`v${legacyCatalogueExportSchemaVersion}`, {
+  schemaVersion: legacyCatalogueExportSchemaVersion,
+  alternativesExport: toLegacyAlternativesExport(alternativesExport),
+  categoriesExport,
+  usVendorsExport: toLegacyUSVendorsExport(usVendorsExport),
+  schema: legacyAlternativeJsonSchema,
+});
+
+console.log(
+  `Exported ${alternativesExport.length} alternatives, ${categoriesExport.length} categories and `
+  + `${usVendorsExport.length} US vendors to ${path.relative(projectRoot, outRoot)}/v${catalogueExportSchemaVersion} `
+  + `(and the deprecated v${legacyCatalogueExportSchemaVersion}).`,
+);
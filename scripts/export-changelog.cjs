@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+// Diffs the merged catalogue against the previously published changelog snapshot and writes the
+// extended changelog (data/v1/changelog.json) plus per-locale Atom and RSS feeds (feeds/).
+// The previous changelog is read from the dist/ that CI last committed (git HEAD), or from --previous.
+// Usage: node scripts/export-changelog.cjs [outDir] [--previous file] [--date YYYY-MM-DD]   (default outDir: dist)
+const { execFileSync } = require('node:child_process');
+const fs = require('node:fs');
+const path = require('node:path');
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(__dirname, '..');
+const load = (file) => loadTsModule(path.join(projectRoot, file));
+
+const args = process.argv.slice(2);
+function takeOption(name) {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+const previousFile = takeOption('--previous');
+const date = takeOption('--date') ?? new Date().toISOString().slice(0, 10);
+const outDir = path.resolve(projectRoot, args[0] ?? 'dist');
+
+const { alternatives } = load('src/data/alternatives.ts');
+const { trustScoresById } = load('src/data/trustOverrides.ts');
+const { deniedAlternatives } = load('src/data/deniedAlternatives.ts');
+const { getLocalizedDenialSummary, getLocalizedReservationText } = load('src/utils/alternativeText.ts');
+const {
+  buildAtomFeed,
+  buildCatalogueSnapshot,
+  buildRssFeed,
+  changelogPath,
+  getFeedPath,
+  updateCatalogueChangelog,
+} = load('src/utils/changelog.ts');
+
+function readPreviousChangelog() {
+  try {
+    const content = previousFile
+      ? fs.readFileSync(path.resolve(previousFile), 'utf8')
+      : execFileSync('git', ['show', `HEAD:dist${changelogPath}`], { cwd: projectRoot, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function loadTranslator(locale) {
+  const read = (lang) => {
+    const file = path.join(projectRoot, 'src/i18n/locales', lang, 'browse.json');
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+  };
+  const messages = read(locale);
+  const fallback = read('en');
+  const lookup = (source, key) => key.split('.').reduce((node, part) => node?.[part], source);
+
+  return (key, values = {}) => {
+    const template = lookup(messages, key) ?? lookup(fallback, key) ?? key;
+    return template.replace(/\{\{(\w+)\}\}/g, (_, name) => String(values[name] ?? ''));
+  };
+}
+
+const previous = readPreviousChangelog();
+const snapshot = buildCatalogueSnapshot(alternatives, trustScoresById, deniedAlternatives);
+const changelog = updateCatalogueChangelog(previous, snapshot, date);
+const newEntries = changelog.entries.length - (previous?.entries?.length ?? 0);
+
+const alternativesById = new Map(alternatives.map((alternative) => [alternative.id, alternative]));
+const deniedById = new Map(deniedAlternatives.map((denied) => [denied.id, denied]));
+
+function getDetail(change, locale) {
+  if (change.type === 'reservation-added') {
+    const reservation = alternativesById.get(change.subjectId)?.reservations?.find((entry) => entry.id === change.reservationId);
+    return reservation && getLocalizedReservationText(reservation, locale);
+  }
+  if (change.type === 'denial-added') {
+    const denied = deniedById.get(change.subjectId);
+    return denied && getLocalizedDenialSummary(denied, locale);
+  }
+  return undefined;
+}
+
+function writeFile(relativePath, content) {
+  const target = path.join(outDir, relativePath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content);
+}
+
+writeFile(changelogPath, `${JSON.stringify(changelog, null, 2)}\n`);
+
+const locales = fs.readdirSync(path.join(projectRoot, 'src/i18n/locales')).sort();
+for (const locale of locales) {
+  const t = loadTranslator(locale);
+  const options = {
+    lang: locale,
+    title: t('changes.feedTitle'),
+    description: t('changes.subtitle'),
+    changelog,
+    t,
+    getDetail: (change) => getDetail(change, locale),
+  };
+  writeFile(getFeedPath(locale, 'atom'), buildAtomFeed(options));
+  writeFile(getFeedPath(locale, 'rss'), buildRssFeed(options));
+}
+
+console.log(
+  previous
+    ? `Changelog: ${newEntries} new and ${changelog.entries.length} total entries; feeds for ${locales.join(', ')} written to ${path.relative(projectRoot, outDir)}.`
+    : `Changelog: no previous snapshot found, started a new baseline on ${date}; feeds for ${locales.join(', ')} written to ${path.relative(projectRoot, outDir)}.`,
+);
@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+// Renders the Open Graph share images (1200×630 PNG) for every alternative and category, plus a
+// generic image for all other pages, once per site locale. Pages reference them through
+// getOgImagePath() in src/utils/ogImage.ts.
+// Usage: node scripts/export-og-images.mjs [outDir]   (default: dist)
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import i18next from 'i18next';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+
+const require = createRequire(import.meta.url);
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.resolve(projectRoot, process.argv[2] ?? 'dist');
+const load = (file) => loadTsModule(path.join(projectRoot, file));
+
+const { alternatives } = load('src/data/alternatives.ts');
+const { categories } = load('src/data/categories.ts');
+const { getTrustBadgeClass } = load('src/utils/alternativeDisplay.ts');
+const { getOgImagePath, hasCategoryOgImage, ogImageHeight, ogImageWidth } = load('src/utils/ogImage.ts');
+
+// Design tokens from src/index.css.
+const colors = {
+  background: '#0d0d11',
+  card: '#1a1a1f',
+  textPrimary: '#f0f2f5',
+  textSecondary: '#d0d2d5',
+  textMuted: '#9a9ca0',
+  accentGradient: 'linear-gradient(90deg, #6c35de 0%, #ff6b35 100%)',
+};
+const trustColors = {
+  'alt-card-badge-trust-high': '#10b981',
+  'alt-card-badge-trust-medium': '#f59e0b',
+  'alt-card-badge-trust-low': '#ef4444',
+};
+const siteHost = 'european-alternatives.cloud';
+const maxReplacedNames = 4;
+
+function readFont(pkg, file) {
+  return fs.readFileSync(path.join(projectRoot, 'node_modules/@fontsource', pkg, 'files', file));
+}
+
+const fonts = ['latin', 'latin-ext'].flatMap((subset) => [
+  { name: 'Roboto', weight: 400, style: 'normal', data: readFont('roboto', `roboto-${subset}-400-normal.woff`) },
+  { name: 'Oswald', weight: 600, style: 'normal', data: readFont('oswald', `oswald-${subset}-600-normal.woff`) },
+]);
+
+function toDataUri(file) {
+  const type = file.endsWith('.svg') ? 'image/svg+xml' : `image/${path.extname(file).slice(1).replace('jpg', 'jpeg')}`;
+  return `data:${type};base64,${fs.readFileSync(file).toString('base64')}`;
+}
+
+function getLogo(alternative) {
+  const file = alternative.logo && path.join(projectRoot, 'public', alternative.logo);
+  return file && fs.existsSync(file) ? toDataUri(file) : undefined;
+}
+
+function getFlag(country) {
+  const file = path.join(projectRoot, 'node_modules/flag-icons/flags/4x3', `${country}.svg`);
+  return fs.existsSync(file) ? toDataUri(file) : undefined;
+}
+
+// Minimal element factory in the shape satori expects; every container is a flex box.
+function h(type, style, ...children) {
+  const content = children.flat().filter((child) => child != null && child !== false);
+  return {
+    type,
+    props: {
+      style: type === 'div' ? { display: 'flex', ...style } : style,
+      children: content.length === 1 ? content[0] : content,
+    },
+  };
+}
+
+function img(src, width, height, style = {}) {
+  return { type: 'img', props: { src, width, height, style: { objectFit: 'contain', ...style } } };
+}
+
+function listNames(names) {
+  return names.length > maxReplacedNames ? `${names.slice(0, maxReplacedNames).join(', ')}, …` : names.join(', ');
+}
+
+function frame(...children) {
+  return h('div', {
+    width: ogImageWidth,
+    height: ogImageHeight,
+    flexDirection: 'column',
+    padding: '64px 72px 56px',
+    background: colors.background,
+    color: colors.textPrimary,
+    fontFamily: 'Roboto',
+    position: 'relative',
+  },
+  h('div', { position: 'absolute', top: 0, left: 0, width: ogImageWidth, height: 10, backgroundImage: colors.accentGradient }),
+  ...children);
+}
+
+function heading(text, fontSize) {
+  return h('div', {
+    fontFamily: 'Oswald',
+    fontWeight: 600,
+    fontSize,
+    lineHeight: 1.15,
+    textTransform: 'uppercase',
+    letterSpacing: '0.02em',
+  }, text);
+}
+
+function replacesBlock(label, names) {
+  if (names.length === 0) return null;
+  return h('div', { flexDirection: 'column', gap: 8 },
+    h('div', { fontSize: 24, color: colors.textMuted, textTransform: 'uppercase', letterSpacing: '0.05em' }, label),
+    h('div', { fontSize: 38, color: colors.textSecondary }, listNames(names)),
+  );
+}
+
+function footer(left) {
+  return h('div', { justifyContent: 'space-between', alignItems: 'center' },
+    left ?? h('div', {}),
+    h('div', { fontSize: 28, color: colors.textMuted }, siteHost),
+  );
+}
+
+function trustStamp(label, color) {
+  return h('div', {
+    padding: '10px 24px',
+    border: `3px solid ${color}`,
+    borderRadius: 12,
+    color,
+    fontFamily: 'Oswald',
+    fontWeight: 600,
+    fontSize: 38,
+    textTransform: 'uppercase',
+  }, label);
+}
+
+function alternativeCard(alternative, t, lang) {
+  const logo = getLogo(alternative);
+  const flag = getFlag(alternative.country);
+  const countryName = new Intl.DisplayNames([lang], { type: 'region' }).of(alternative.country.toUpperCase()) ?? alternative.country;
+  const isPending = alternative.trustScoreStatus !== 'ready' || alternative.trustScore == null;
+
+  return frame(
+    h('div', { alignItems: 'center', gap: 40 },
+      h('div', { width: 168, height: 168, alignItems: 'center', justifyContent: 'center', background: colors.card, borderRadius: 24 },
+        logo ? img(logo, 120, 120) : flag && img(flag, 120, 90),
+      ),
+      h('div', { flexDirection: 'column', gap: 12, flex: 1 },
+        heading(alternative.name, alternative.name.length > 22 ? 56 : 72),
+        h('div', { alignItems: 'center', gap: 16, fontSize: 30, color: colors.textMuted },
+          flag && img(flag, 48, 36, { borderRadius: 4 }),
+          `${countryName} · ${t(`data:categories.${alternative.category}.name`)}`,
+        ),
+      ),
+    ),
+    h('div', { flex: 1 }),
+    replacesBlock(t('common:replaces'), alternative.replacesUS),
+    h('div', { height: 40 }),
+    footer(isPending
+      ? trustStamp(t('browse:card.trustScorePending'), colors.textMuted)
+      : trustStamp(
+        t('browse:card.trustScoreLabel', { score: alternative.trustScore.toFixed(1) }),
+        trustColors[getTrustBadgeClass(alternative.trustScore)],
+      )),
+  );
+}
+
+function categoryCard(category, count, t) {
+  return frame(
+    h('div', { fontSize: 28, color: colors.textMuted, textTransform: 'uppercase', letterSpacing: '0.05em' }, t('landing:headline')),
+    h('div', { height: 16 }),
+    heading(t(`data:categories.${category.id}.name`), 88),
+    h('div', { fontSize: 34, color: colors.textSecondary, marginTop: 16 }, t(`data:categories.${category.id}.description`)),
+    h('div', { flex: 1 }),
+    replacesBlock(t('landing:replacesLabel'), category.usGiants),
+    h('div', { height: 40 }),
+    footer(h('div', { fontFamily: 'Oswald', fontWeight: 600, fontSize: 38, textTransform: 'uppercase' }, t('landing:alternative', { count }))),
+  );
+}
+
+function defaultCard(t) {
+  return frame(
+    h('div', { flex: 1 }),
+    heading(t('landing:headline'), 104),
+    h('div', { fontSize: 38, color: colors.textSecondary, marginTop: 24, maxWidth: 960 }, t('common:meta.ogDescription')),
+    h('div', { flex: 1 }),
+    footer(h('div', { fontFamily: 'Oswald', fontWeight: 600, fontSize: 38, textTransform: 'uppercase' }, t('landing:alternative', { count: alternatives.length }))),
+  );
+}
+
+async function renderPng(node) {
+  const svg = await satori(node, { width: ogImageWidth, height: ogImageHeight, fonts });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: ogImageWidth } }).render().asPng();
+}
+
+function writeImage(relativePath, png) {
+  const target = path.join(outDir, relativePath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, png);
+}
+
+const localesDir = path.join(projectRoot, 'src/i18n/locales');
+const locales = fs.readdirSync(localesDir).sort();
+const namespaces = ['common', 'landing', 'browse', 'data'];
+const resources = Object.fromEntries(locales.map((locale) => [
+  locale,
+  Object.fromEntries(namespaces.map((ns) => [ns, JSON.parse(fs.readFileSync(path.join(localesDir, locale, `${ns}.json`), 'utf8'))])),
+]));
+
+const i18n = i18next.createInstance();
+await i18n.init({
+  resources,
+  fallbackLng: 'en',
+  ns: namespaces,
+  defaultNS: 'common',
+  interpolation: { escapeValue: false },
+  showSupportNotice: false,
+});
+
+const listedCategories = categories
+  .map((category) => ({ category, count: alternatives.filter((alternative) => alternative.category === category.id).length }))
+  .filter(({ count }) => hasCategoryOgImage(count));
+let written = 0;
+
+for (const lang of locales) {
+  const t = i18n.getFixedT(lang);
+
+  writeImage(getOgImagePath(lang), await renderPng(defaultCard(t)));
+  for (const { category, count } of listedCategories) {
+    writeImage(getOgImagePath(lang, { type: 'category', id: category.id }), await renderPng(categoryCard(category, count, t)));
+  }
+  for (const alternative of alternatives) {
+    writeImage(getOgImagePath(lang, { type: 'alternative', id: alternative.id }), await renderPng(alternativeCard(alternative, t, lang)));
+  }
+  written += 1 + listedCategories.length + alternatives.length;
+}
+
+console.log(`Rendered ${written} share images for ${locales.join(', ')} to ${path.relative(projectRoot, outDir)}.`);
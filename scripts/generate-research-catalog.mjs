@@ -99,8 +99,6 @@ const keywordToTag = [
   ['self-hosted', 'self-hosted'],
   ['self host', 'self-hosted'],
   ['federated', 'federated'],
-  ['open-source', 'open-source'],
-  ['open source', 'open-source'],
   ['machine learning', 'ai'],
   ['artificial intelligence', 'ai'],
   ['analytics', 'analytics'],
@@ -119,14 +117,18 @@ const keywordToTag = [
   ['project', 'project-management'],
 ];
 
-const pricingLikeTags = new Set(['free', 'freemium', 'paid', 'free and paid']);
+// Pricing and openness are derived from `pricing`/`openSourceLevel` at merge time; the catalogue schema rejects them as tags.
+const derivedTags = new Set([
+  'free', 'freemium', 'paid', 'free and paid',
+  'open-source', 'open source', 'opensource', 'partial-open-source', 'partly-open-source', 'proprietary',
+]);
 
 function addTag(tagList, seenNormalized, tag) {
   const trimmed = tag.trim();
   if (!trimmed) return;
 
   const normalized = trimmed.toLowerCase();
-  if (pricingLikeTags.has(normalized) || seenNormalized.has(normalized)) return;
+  if (derivedTags.has(normalized) || seenNormalized.has(normalized)) return;
 
   seenNormalized.add(normalized);
   tagList.push(trimmed);
@@ -137,10 +139,6 @@ function generateTags(entry) {
   const seenNormalized = new Set();
   addTag(tags, seenNormalized, entry.category);
 
-  if (entry.openSourceLevel !== 'none') {
-    addTag(tags, seenNormalized, 'open-source');
-  }
-
   const haystack = `${entry.description} ${entry.name}`.toLowerCase();
   for (const [needle, tag] of keywordToTag) {
     if (haystack.includes(needle)) {
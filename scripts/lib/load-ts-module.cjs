@@ -0,0 +1,110 @@
+const fs = require('node:fs');
+const path = require('node:path');
+const vm = require('node:vm');
+const ts = require('typescript');
+
+const moduleCache = new Map();
+
+function isFile(candidate) {
+  return fs.existsSync(candidate) && fs.statSync(candidate).isFile();
+}
+
+function resolveTsPath(fromDir, specifier) {
+  const directPath = path.resolve(fromDir, specifier);
+  const candidates = [
+    directPath,
+    `${directPath}.ts`,
+    `${directPath}.tsx`,
+    path.join(directPath, 'index.ts'),
+    path.join(directPath, 'index.tsx'),
+  ];
+
+  for (const candidate of candidates) {
+    if (isFile(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw new Error(`Unable to resolve module "${specifier}" from "${fromDir}".`);
+}
+
+function escapeRegExp(value) {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Stand-in for Vite's eager `import.meta.glob(pattern, { eager: true, import: 'default' })`, which
+// src/i18n uses to discover the locale files. Only JSON files and `*` within a path segment are supported.
+function globJson(fromDir, pattern) {
+  if (!pattern.startsWith('./') || !pattern.endsWith('.json')) {
+    throw new Error(`Unsupported import.meta.glob pattern "${pattern}" in "${fromDir}".`);
+  }
+
+  let matches = ['.'];
+  for (const segment of pattern.slice(2).split('/')) {
+    const segmentPattern = new RegExp(`^${segment.split('*').map(escapeRegExp).join('[^/]*')}$`);
+    matches = matches.flatMap((match) => {
+      const dir = path.join(fromDir, match);
+      if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
+      return fs.readdirSync(dir).filter((name) => segmentPattern.test(name)).map((name) => `${match}/${name}`);
+    });
+  }
+
+  return Object.fromEntries(matches
+    .filter((match) => isFile(path.join(fromDir, match)))
+    .sort()
+    .map((match) => [match, JSON.parse(fs.readFileSync(path.join(fromDir, match), 'utf8'))]));
+}
+
+function loadTsModule(filePath) {
+  const absolutePath = path.resolve(filePath);
+  if (moduleCache.has(absolutePath)) {
+    return moduleCache.get(absolutePath).exports;
+  }
+
+  const source = fs.readFileSync(absolutePath, 'utf8').replace(/\bimport\.meta\.glob\b/g, '__importMetaGlob');
+  const transpiled = ts.transpileModule(source, {
+    fileName: absolutePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  }).outputText;
+
+  const module = { exports: {} };
+  moduleCache.set(absolutePath, module);
+
+  const dirname = path.dirname(absolutePath);
+  const localRequire = (specifier) => {
+    if (specifier.startsWith('.')) {
+      const resolved = resolveTsPath(dirname, specifier);
+      if (resolved.endsWith('.json')) {
+        return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+      }
+      return loadTsModule(resolved);
+    }
+    return require(specifier);
+  };
+
+  const context = vm.createContext({
+    module,
+    exports: module.exports,
+    require: localRequire,
+    __dirname: dirname,
+    __filename: absolutePath,
+    __importMetaGlob: (pattern) => globJson(dirname, pattern),
+    console,
+    process,
+    Buffer,
+    setTimeout,
+    clearTimeout,
+    setInterval,
+    clearInterval,
+  });
+
+  new vm.Script(transpiled, { filename: absolutePath }).runInContext(context);
+  return module.exports;
+}
+
+module.exports = { loadTsModule };
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+// Renders every localized page (landing, browse, categories, alternatives, compare, audit and the static
+// tool pages) to static HTML with its real title, description, Open Graph and hreflang tags, so crawlers
+// and link unfurlers do not depend on JavaScript, and writes sitemap.xml. Needs the client build in dist/
+// and the server entry built with `npm run build:ssr` (dist-ssr/), plus the changelog from `npm run export:changelog`.
+// Pages are rendered without a query string: main.tsx renders URLs with one (filtered browse lists, compare
+// selections) from scratch instead of hydrating, and without JavaScript they show the unfiltered page.
+// Only the root (dist/index.html, the unrendered shell) and 404.html boot the app from scratch. The host
+// serves 404.html, a prerendered not-found page, for every other path: the legacy /browse redirect,
+// paths without or with an unsupported language prefix (both redirect to a language), and unknown pages.
+// Usage: node scripts/prerender.mjs [outDir]   (default: dist)
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const projectRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.resolve(projectRoot, process.argv[2] ?? 'dist');
+const serverEntry = path.join(projectRoot, 'dist-ssr/entry-server.js');
+
+const templatePath = path.join(outDir, 'index.html');
+if (!fs.existsSync(templatePath) || !fs.existsSync(serverEntry)) {
+  console.error(`Prerender: run \`vite build\` and \`npm run build:ssr\` first (missing ${!fs.existsSync(templatePath) ? templatePath : serverEntry}).`);
+  process.exit(1);
+}
+
+const template = fs.readFileSync(templatePath, 'utf8');
+const headPattern = /<!-- page-head[\s\S]*?<!-- \/page-head -->/;
+const rootPattern = /<div id="root">[\s\S]*<\/div>(\s*<\/body>)/;
+if (!headPattern.test(template) || !rootPattern.test(template)) {
+  console.error('Prerender: index.html is missing the page-head markers or the #root element.');
+  process.exit(1);
+}
+
+const { changelogPath, getPrerenderUrls, render, renderNotFound, renderSitemap } = await import(pathToFileURL(serverEntry).href);
+
+// `npm run export:changelog` runs before this, so the changes pages ship with their entries.
+const changelogFile = path.join(outDir, changelogPath);
+const changelog = fs.existsSync(changelogFile) ? JSON.parse(fs.readFileSync(changelogFile, 'utf8')) : undefined;
+if (!changelog) {
+  console.warn(`Prerender: ${path.relative(projectRoot, changelogFile)} not found; the changes pages are rendered without entries.`);
+}
+
+function toPage({ html, head, lang }, rootAttributes) {
+  // React emits hoisted tags (image preloads, feed links) ahead of the markup; they belong in <head>.
+  const hoisted = html.match(/^(?:<(?:link|meta)\b[^>]*\/>)*/)[0];
+  return template
+    .replace(/<html lang="[^"]*"/, `<html lang="${lang}"`)
+    .replace(headPattern, () => head)
+    .replace('</head>', () => `${hoisted}\n  </head>`)
+    .replace(rootPattern, (_, bodyEnd) => `<div id="root"${rootAttributes}>${html.slice(hoisted.length)}</div>${bodyEnd}`);
+}
+
+const urls = getPrerenderUrls();
+
+for (const url of urls) {
+  const target = path.join(outDir, url, 'index.html');
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, toPage(await render(url, changelog), ' data-prerendered="true"'));
+}
+
+// GitHub Pages serves 404.html for unknown paths. It is not hydrated: the app renders from scratch at the
+// requested URL, so redirects still run and the not-found page follows the language prefix of the path.
+fs.writeFileSync(path.join(outDir, '404.html'), toPage(await renderNotFound(), ''));
+
+fs.writeFileSync(path.join(outDir, 'sitemap.xml'), renderSitemap());
+
+console.log(`Prerendered ${urls.length} pages, 404.html and sitemap.xml to ${path.relative(projectRoot, outDir)}.`);
@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+// Reports translation coverage per locale: missing and extra i18n keys against English, plus catalogue
+// descriptions, reservation texts and US vendor descriptions that still fall back to English.
+// Exits non-zero when a locale's coverage drops below the committed baseline (src/i18n/coverage-baseline.json).
+// Usage: node scripts/report-translation-coverage.cjs [--locale=fr] [--list] [--update]
+//   --list: also list every untranslated catalogue entry   --update: write the current coverage as the new baseline
+const fs = require('node:fs');
+const path = require('node:path');
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(__dirname, '..');
+const load = (file) => loadTsModule(path.join(projectRoot, file));
+const localesDir = path.join(projectRoot, 'src/i18n/locales');
+const baselineFile = path.join(projectRoot, 'src/i18n/coverage-baseline.json');
+
+const { alternatives } = load('src/data/alternatives.ts');
+const { listUSVendors, resolveUSVendorComparison } = load('src/data/usVendors.ts');
+const {
+  buildTranslationCoverageReport,
+  compareWithCoverageBaseline,
+  getCoverageRatio,
+  toCoverageBaseline,
+  translationCoverageMetrics,
+} = load('src/utils/translationCoverage.ts');
+
+const args = process.argv.slice(2);
+const localeArg = args.find((arg) => arg.startsWith('--locale='));
+const onlyLocale = localeArg?.slice('--locale='.length);
+const list = args.includes('--list');
+const update = args.includes('--update');
+
+const metricLabels = {
+  messages: 'i18n keys',
+  descriptions: 'descriptions',
+  reservations: 'reservations',
+  usVendors: 'US vendors',
+};
+
+function readLocales() {
+  const locales = {};
+  for (const locale of fs.readdirSync(localesDir)) {
+    const dir = path.join(localesDir, locale);
+    if (!fs.statSync(dir).isDirectory()) continue;
+    locales[locale] = {};
+    for (const file of fs.readdirSync(dir).filter((name) => name.endsWith('.json'))) {
+      locales[locale][path.basename(file, '.json')] = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+    }
+  }
+  return locales;
+}
+
+function formatCoverage(coverage) {
+  return `${coverage.translated}/${coverage.total} (${(getCoverageRatio(coverage) * 100).toFixed(1)}%)`;
+}
+
+function printList(title, items) {
+  if (items.length === 0) return;
+  console.log(`  ${title} (${items.length}):`);
+  for (const item of items) {
+    console.log(`    ${item}`);
+  }
+}
+
+const vendors = listUSVendors().map((vendor) => resolveUSVendorComparison(vendor.name));
+const reports = buildTranslationCoverageReport(readLocales(), alternatives, vendors);
+
+if (onlyLocale && !reports.some((report) => report.locale === onlyLocale)) {
+  console.error(`Unknown --locale value: ${onlyLocale} (known: ${reports.map((report) => report.locale).join(', ')})`);
+  process.exit(1);
+}
+
+const shown = reports.filter((report) => !onlyLocale || report.locale === onlyLocale);
+
+const rows = shown.map((report) => [
+  report.locale,
+  ...translationCoverageMetrics.map((metric) => formatCoverage(report.coverage[metric])),
+]);
+const header = ['locale', ...translationCoverageMetrics.map((metric) => metricLabels[metric])];
+const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map((row) => row[column].length)));
+const formatRow = (row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+console.log(formatRow(header));
+for (const row of rows) {
+  console.log(formatRow(row));
+}
+
+for (const report of shown) {
+  const details = [
+    ['missing i18n keys', report.coverage.messages.missing],
+    ['extra i18n keys', report.extraKeys],
+    ...(list
+      ? [
+          ['alternatives without a translated description', report.coverage.descriptions.missing],
+          ['reservations without translated text', report.coverage.reservations.missing],
+          ['US vendors without a translated description', report.coverage.usVendors.missing],
+        ]
+      : []),
+  ];
+  if (details.every(([, items]) => items.length === 0)) continue;
+
+  console.log(`\n${report.locale}:`);
+  for (const [title, items] of details) {
+    printList(title, items);
+  }
+}
+
+if (update) {
+  fs.writeFileSync(baselineFile, `${JSON.stringify(toCoverageBaseline(reports), null, 2)}\n`);
+  console.log(`\nWrote the coverage of ${reports.length} locales to ${path.relative(projectRoot, baselineFile)}.`);
+  process.exit(0);
+}
+
+if (!fs.existsSync(baselineFile)) {
+  console.log(`\nNo baseline at ${path.relative(projectRoot, baselineFile)} yet; run with --update to record one.`);
+  process.exit(0);
+}
+
+const baseline = JSON.parse(fs.readFileSync(baselineFile, 'utf8'));
+const { drops, improvements } = compareWithCoverageBaseline(reports, baseline);
+const describeChange = ({ locale, metric, baseline: previous, current }) => (
+  `${locale} ${metricLabels[metric]}: ${formatCoverage(current)}, baseline ${formatCoverage(previous)}`
+);
+
+if (improvements.length > 0) {
+  console.log('\nCoverage improved; run with --update to raise the baseline:');
+  for (const change of improvements) {
+    console.log(`- ${describeChange(change)}`);
+  }
+}
+
+if (drops.length > 0) {
+  console.error(`\nTranslation coverage dropped below the baseline in ${drops.length} place(s):`);
+  for (const change of drops) {
+    console.error(`- ${describeChange(change)}`);
+  }
+  process.exit(1);
+}
+
+console.log('\nTranslation coverage is at or above the baseline.');
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+// Lists curated trust score overrides next to the DECISION_MATRIX formula result.
+// Usage: node scripts/report-trust-drift.cjs [--threshold=1.5] [--strict]
+const path = require('node:path');
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(__dirname, '..');
+const { alternatives } = loadTsModule(path.join(projectRoot, 'src/data/alternatives.ts'));
+const { buildTrustDriftReport, defaultTrustDriftThreshold } = loadTsModule(
+  path.join(projectRoot, 'src/utils/trustDrift.ts'),
+);
+
+const args = process.argv.slice(2);
+const thresholdArg = args.find((arg) => arg.startsWith('--threshold='));
+const threshold = thresholdArg ? Number(thresholdArg.slice('--threshold='.length)) : defaultTrustDriftThreshold;
+const strict = args.includes('--strict');
+
+if (!Number.isFinite(threshold) || threshold < 0) {
+  console.error(`Invalid --threshold value: ${thresholdArg}`);
+  process.exit(1);
+}
+
+function formatDelta(delta) {
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+function formatExplanation(explainedBy) {
+  return explainedBy.map(({ component, points }) => `${component} (${points})`).join(', ') || '-';
+}
+
+const report = buildTrustDriftReport(alternatives, threshold);
+const flagged = report.filter((entry) => entry.flagged);
+
+const rows = report.map((entry) => [
+  entry.flagged ? '!' : ' ',
+  entry.id,
+  entry.override.toFixed(1),
+  entry.computed.toFixed(1),
+  formatDelta(entry.delta),
+  formatExplanation(entry.explainedBy),
+]);
+const header = [' ', 'id', 'override', 'computed', 'delta', 'explained by'];
+const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map((row) => row[column].length)));
+const formatRow = (row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+console.log(formatRow(header));
+for (const row of rows) {
+  console.log(formatRow(row));
+}
+
+console.log(
+  `\n${report.length} curated overrides, ${flagged.length} with |delta| > ${threshold}.`,
+);
+
+if (strict && flagged.length > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,371 @@
+#!/usr/bin/env node
+// Validates every catalogue source against the public JSON Schema (src/utils/catalogueSchema.ts)
+// plus cross-entry rules the schema cannot express (unique ids, override targets).
+// Reports all violations with file and entry context; exits non-zero if there are any.
+// Usage: node scripts/validate-catalogue.cjs [--strict]   (--strict: pending gateway assessments are errors too)
+const path = require('node:path');
+const Ajv2020 = require('ajv/dist/2020').default;
+const addFormats = require('ajv-formats').default;
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
+
+const projectRoot = path.resolve(__dirname, '..');
+const load = (file) => loadTsModule(path.join(projectRoot, file));
+
+const { alternativeJsonSchema } = load('src/utils/catalogueSchema.ts');
+const { manualAlternatives } = load('src/data/manualAlternatives.ts');
+const { researchAlternatives } = load('src/data/researchAlternatives.ts');
+const { reservationsById, trustScoresById } = load('src/data/trustOverrides.ts');
+const { gatewayAssessmentsById, pendingGatewayAssessmentIds, pendingGatewayAssessmentLimit } = load('src/data/gatewayAssessments.ts');
+const { deniedAlternatives } = load('src/data/deniedAlternatives.ts');
+const { dataPortabilityById } = load('src/data/dataPortability.ts');
+const { trustScoreHistory } = load('src/data/trustScoreHistory.ts');
+const { listUSVendors, resolveUSVendorComparison } = load('src/data/usVendors.ts');
+const { alternatives, derivedTagKeys } = load('src/data/alternatives.ts');
+const { getEffectiveTrustScore, getJurisdictionTier } = load('src/utils/trustScore.ts');
+const { calculatePersonalScore, defaultPriorityWeights } = load('src/utils/priorities.ts');
+const { getSearchTerms } = load('src/utils/search.ts');
+const { getForeignMajorityOwner } = load('src/utils/ownership.ts');
+const { buildHostingReservation } = load('src/utils/hosting.ts');
+const { GATEWAY_CRITERIA, RESERVATION_SEVERITIES } = load('src/types/index.ts');
+
+const strict = process.argv.includes('--strict');
+
+const ajv = new Ajv2020({ allErrors: true, verbose: true, strict: false });
+addFormats(ajv);
+ajv.addSchema(alternativeJsonSchema);
+const validatorFor = (def) => ajv.getSchema(`${alternativeJsonSchema.$id}#/$defs/${def}`);
+
+const violations = [];
+const warnings = [];
+
+function report(file, entry, message) {
+  violations.push(`${file} › ${entry}: ${message}`);
+}
+
+function warn(file, entry, message) {
+  warnings.push(`${file} › ${entry}: ${message}`);
+}
+
+function formatError(error) {
+  const location = error.instancePath || '/';
+  const allowed = error.params.allowedValues ? ` (${error.params.allowedValues.join(', ')})` : '';
+  const extra = error.params.unevaluatedProperty ?? error.params.additionalProperty;
+  if (extra) return `${location} has unknown property "${extra}"`;
+  return `${location} ${error.message}${allowed}, got ${JSON.stringify(error.data)}`;
+}
+
+function validateEntries(file, entries, def, labelFor) {
+  const validate = validatorFor(def);
+  entries.forEach((entry, index) => {
+    if (!validate(entry)) {
+      for (const error of validate.errors) {
+        report(file, labelFor(entry, index), formatError(error));
+      }
+    }
+  });
+}
+
+function checkUniqueIds(file, entries, labelFor) {
+  const seen = new Map();
+  entries.forEach((entry, index) => {
+    if (seen.has(entry.id)) {
+      report(file, labelFor(entry, index), `duplicate id "${entry.id}" (first used at #${seen.get(entry.id)})`);
+    } else {
+      seen.set(entry.id, index);
+    }
+  });
+}
+
+const alternativeLabel = (entry, index) => `#${index} ${entry.id ?? '(no id)'}`;
+const derivedTags = new Set(derivedTagKeys);
+
+// Pricing and openness tags are added during the merge, so listing them in a source entry is drift.
+function checkSourceTags(file, entry, index) {
+  for (const tag of entry.tags ?? []) {
+    if (derivedTags.has(tag.trim().toLowerCase().replace(/[\s_]+/g, '-'))) {
+      report(file, alternativeLabel(entry, index), `tag "${tag}" duplicates pricing/openSourceLevel and is derived at merge time`);
+    }
+  }
+}
+
+const sources = [
+  ['src/data/manualAlternatives.ts', manualAlternatives],
+  ['src/data/researchAlternatives.ts', researchAlternatives],
+];
+
+for (const [file, entries] of sources) {
+  validateEntries(file, entries, 'alternative', alternativeLabel);
+  checkUniqueIds(file, entries, alternativeLabel);
+  entries.forEach((entry, index) => {
+    checkSourceTags(file, entry, index);
+    checkUniqueIds(file, entry.reservations ?? [], (reservation) => `${alternativeLabel(entry, index)} reservation ${reservation.id}`);
+  });
+}
+
+// The Ownership Structure Clause requires a documented `major` reservation for foreign majority owners.
+// mergeCatalogue fills the gap with a generic one, but the source entry must carry the curated evidence.
+function checkOwnership(file, entry, index) {
+  const label = alternativeLabel(entry, index);
+  const reservations = entry.reservations ?? reservationsById[entry.id] ?? [];
+  const reservationIds = new Set(reservations.map((reservation) => reservation.id));
+
+  (entry.ownership ?? []).forEach((link, linkIndex) => {
+    if (link.reservationId && !reservationIds.has(link.reservationId)) {
+      report(file, label, `/ownership/${linkIndex}/reservationId references unknown reservation "${link.reservationId}"`);
+    }
+  });
+
+  const owner = getForeignMajorityOwner(entry);
+  if (!owner) return;
+
+  const documented = reservations.find((reservation) => reservation.id === owner.reservationId);
+  if (!documented) {
+    report(file, label, `majority-owned by ${owner.entity} (${owner.jurisdiction}) but no reservation documents it; add a major reservation and reference it via reservationId`);
+  } else if (documented.severity !== 'major') {
+    report(file, label, `ownership reservation "${documented.id}" must be major, got ${documented.severity}`);
+  }
+
+  const gatewayAssessments = entry.gatewayAssessments ?? gatewayAssessmentsById[entry.id] ?? [];
+  if (owner.entanglement === 'data-routing' && !gatewayAssessments.some((assessment) => assessment.criterion === 'G1')) {
+    report(file, label, `user data is routed through ${owner.entity}; G1 must be re-evaluated and documented in src/data/gatewayAssessments.ts`);
+  }
+}
+
+// Status fields drive penalty decay, so a closed reservation needs a resolution date that follows the incident.
+function checkReservationStatus(file, reservations, label) {
+  reservations.forEach((reservation, index) => {
+    const closed = reservation.status != null && reservation.status !== 'ongoing';
+    if (!closed) {
+      if (reservation.resolvedAt || reservation.resolution) {
+        report(file, label(reservation, index), 'resolvedAt and resolution require status "resolved" or "remediated"');
+      }
+      return;
+    }
+    if (!reservation.resolvedAt) {
+      report(file, label(reservation, index), `status "${reservation.status}" requires resolvedAt`);
+    } else if (reservation.date && reservation.resolvedAt < reservation.date) {
+      report(file, label(reservation, index), `resolvedAt ${reservation.resolvedAt} precedes date ${reservation.date}`);
+    }
+  });
+}
+
+// A curated reservation linked from `hosting` replaces the derived one, so it must be at least as severe.
+function checkHosting(file, entry, index) {
+  const { hosting } = entry;
+  if (!hosting?.reservationId) return;
+
+  const label = alternativeLabel(entry, index);
+  const reservations = entry.reservations ?? reservationsById[entry.id] ?? [];
+  const linked = reservations.find((reservation) => reservation.id === hosting.reservationId);
+  if (!linked) {
+    report(file, label, `/hosting/reservationId references unknown reservation "${hosting.reservationId}"`);
+    return;
+  }
+
+  const mandated = buildHostingReservation(entry, []);
+  if (mandated && RESERVATION_SEVERITIES.indexOf(linked.severity) < RESERVATION_SEVERITIES.indexOf(mandated.severity)) {
+    report(file, label, `hosting reservation "${linked.id}" must be at least ${mandated.severity}, got ${linked.severity}`);
+  }
+}
+
+for (const [file, entries] of sources) {
+  entries.forEach((entry, index) => {
+    checkOwnership(file, entry, index);
+    checkHosting(file, entry, index);
+    checkReservationStatus(file, entry.reservations ?? [], (reservation) => `${alternativeLabel(entry, index)} reservation ${reservation.id}`);
+  });
+}
+
+// mergeCatalogue keeps the manual entry on collisions, which would silently hide the research entry.
+const manualIds = new Set(manualAlternatives.map((entry) => entry.id));
+researchAlternatives.forEach((entry, index) => {
+  if (manualIds.has(entry.id)) {
+    report('src/data/researchAlternatives.ts', alternativeLabel(entry, index), 'id is shadowed by an entry in src/data/manualAlternatives.ts');
+  }
+});
+
+const knownIds = new Set([...manualIds, ...researchAlternatives.map((entry) => entry.id)]);
+const overridesFile = 'src/data/trustOverrides.ts';
+const validateScore = validatorFor('alternativeFields/properties/trustScore');
+
+for (const [id, score] of Object.entries(trustScoresById)) {
+  if (!knownIds.has(id)) warn(overridesFile, `trustScoresById.${id}`, 'no catalogue entry has this id');
+  if (!validateScore(score)) report(overridesFile, `trustScoresById.${id}`, `score must be between 1 and 10, got ${score}`);
+}
+
+for (const [id, reservations] of Object.entries(reservationsById)) {
+  const label = (reservation, index) => `reservationsById.${id}[${index}] ${reservation.id ?? '(no id)'}`;
+  if (!knownIds.has(id)) warn(overridesFile, `reservationsById.${id}`, 'no catalogue entry has this id');
+  validateEntries(overridesFile, reservations, 'reservation', label);
+  checkUniqueIds(overridesFile, reservations, label);
+  checkReservationStatus(overridesFile, reservations, label);
+}
+
+const gatewayFile = 'src/data/gatewayAssessments.ts';
+
+for (const [id, assessments] of Object.entries(gatewayAssessmentsById)) {
+  if (!knownIds.has(id)) warn(gatewayFile, id, 'no catalogue entry has this id');
+  validateEntries(gatewayFile, assessments, 'gatewayAssessment', (assessment, index) => `${id}[${index}] ${assessment.criterion}`);
+}
+
+const portabilityFile = 'src/data/dataPortability.ts';
+const validatePortability = validatorFor('dataPortability');
+
+for (const [id, portability] of Object.entries(dataPortabilityById)) {
+  if (!knownIds.has(id)) warn(portabilityFile, id, 'no catalogue entry has this id');
+  if (!validatePortability(portability)) {
+    for (const error of validatePortability.errors) report(portabilityFile, id, formatError(error));
+  }
+  const source = [...manualAlternatives, ...researchAlternatives].find((entry) => entry.id === id);
+  const reservations = source?.reservations ?? reservationsById[id] ?? [];
+  if (portability.reservationId && !reservations.some((reservation) => reservation.id === portability.reservationId)) {
+    report(portabilityFile, id, `reservationId references unknown reservation "${portability.reservationId}"`);
+  }
+}
+
+// The history is an append-only log: dated in order, each change explained, and ending at the published score.
+const historyFile = 'src/data/trustScoreHistory.ts';
+const latestHistoryScores = new Map();
+
+validateEntries(historyFile, trustScoreHistory, 'trustScoreChange', (change, index) => `[${index}] ${change.alternativeId}`);
+trustScoreHistory.forEach((change, index) => {
+  const label = `[${index}] ${change.alternativeId}`;
+  const previous = trustScoreHistory[index - 1];
+  if (previous && change.date < previous.date) {
+    report(historyFile, label, `date ${change.date} precedes the previous entry (${previous.date}); append new entries at the end`);
+  }
+  if (!knownIds.has(change.alternativeId)) warn(historyFile, label, 'no catalogue entry has this id');
+  if (latestHistoryScores.has(change.alternativeId)) {
+    const previousScore = latestHistoryScores.get(change.alternativeId);
+    if (!change.reason) report(historyFile, label, `score change from ${previousScore} to ${change.score} needs a reason`);
+    if (change.score === previousScore) report(historyFile, label, `score ${change.score} is unchanged from the previous entry`);
+  }
+  latestHistoryScores.set(change.alternativeId, change.score);
+});
+
+for (const [id, score] of Object.entries(trustScoresById)) {
+  if (!knownIds.has(id)) continue;
+  const recorded = latestHistoryScores.get(id);
+  if (recorded == null) {
+    report(historyFile, id, `published score ${score} has no history entry; record it in ${historyFile}`);
+  } else if (recorded !== score) {
+    report(historyFile, id, `published score is ${score} but the latest history entry records ${recorded}; append an entry with the reason for the change`);
+  }
+}
+
+// Personal scores start from the published score, so the default priority profile must rank every entry,
+// curated or formula-scored, exactly by the score its card shows.
+for (const alternative of alternatives) {
+  const personal = calculatePersonalScore(alternative, defaultPriorityWeights);
+  const effective = getEffectiveTrustScore(alternative);
+  if (personal != null && personal !== effective) {
+    report('src/utils/priorities.ts', alternative.id, `default priority profile scores ${personal}, but the trust score is ${effective}`);
+  }
+}
+
+// Every listed alternative must document a pass for all eight criteria. G6 only applies to Tier 2,
+// so Tier 1 entries may record it as not applicable.
+const unassessed = [];
+for (const alternative of alternatives) {
+  const assessments = alternative.gatewayAssessments ?? [];
+  if (assessments.length === 0) {
+    unassessed.push(alternative.id);
+    continue;
+  }
+
+  const tier = getJurisdictionTier(alternative.country);
+  for (const criterion of GATEWAY_CRITERIA) {
+    const matches = assessments.filter((assessment) => assessment.criterion === criterion);
+    if (matches.length !== 1) {
+      report(gatewayFile, alternative.id, `${criterion} must be assessed exactly once, found ${matches.length}`);
+      continue;
+    }
+
+    const { status } = matches[0];
+    const allowed = criterion === 'G6' && tier === 1 ? ['pass', 'not-applicable'] : ['pass'];
+    if (!allowed.includes(status)) {
+      report(gatewayFile, alternative.id, `${criterion} is "${status}" but listed entries must have ${allowed.join(' or ')}`);
+    }
+  }
+}
+
+// Only alternatives listed before assessments were recorded may still lack one, and the pending list
+// must not keep ids that have been assessed or removed since.
+const pendingIds = new Set(pendingGatewayAssessmentIds);
+const listedIds = new Set(alternatives.map((alternative) => alternative.id));
+
+for (const id of unassessed) {
+  if (!pendingIds.has(id)) {
+    report(gatewayFile, id, 'missing gateway assessment (G1–G8); new alternatives must document one');
+  } else if (strict) {
+    report(gatewayFile, id, 'missing gateway assessment (G1–G8)');
+  }
+}
+for (const id of pendingIds) {
+  if (!listedIds.has(id)) {
+    report(gatewayFile, `pendingGatewayAssessmentIds ${id}`, 'no listed alternative has this id; remove it');
+  } else if (!unassessed.includes(id)) {
+    report(gatewayFile, `pendingGatewayAssessmentIds ${id}`, 'the assessment is documented now; remove the id');
+  }
+}
+if (pendingIds.size > pendingGatewayAssessmentLimit) {
+  report(gatewayFile, 'pendingGatewayAssessmentIds', `${pendingIds.size} ids exceed the limit of ${pendingGatewayAssessmentLimit}; the list only shrinks, so document the assessment instead of adding an id`);
+} else if (pendingIds.size < pendingGatewayAssessmentLimit) {
+  report(gatewayFile, 'pendingGatewayAssessmentLimit', `${pendingIds.size} ids are pending; lower the limit from ${pendingGatewayAssessmentLimit} to ${pendingIds.size}`);
+}
+
+// A product cannot be listed and denied at once; a re-listing must remove the denial entry.
+const deniedFile = 'src/data/deniedAlternatives.ts';
+const deniedLabel = (entry, index) => `#${index} ${entry.id ?? '(no id)'}`;
+const compactKey = (value) => getSearchTerms(value).join('');
+const listedNameKeys = new Map(alternatives.map((alternative) => [compactKey(alternative.name), alternative.id]));
+
+validateEntries(deniedFile, deniedAlternatives, 'deniedAlternative', deniedLabel);
+checkUniqueIds(deniedFile, deniedAlternatives, deniedLabel);
+deniedAlternatives.forEach((entry, index) => {
+  if (knownIds.has(entry.id)) {
+    report(deniedFile, deniedLabel(entry, index), 'id is also a listed catalogue entry');
+  }
+  for (const name of [entry.name, ...(entry.aliases ?? [])]) {
+    const listedId = listedNameKeys.get(compactKey(name));
+    if (listedId) report(deniedFile, deniedLabel(entry, index), `"${name}" matches the listed alternative "${listedId}"`);
+  }
+});
+
+const vendors = listUSVendors().map((vendor) => resolveUSVendorComparison(vendor.name));
+const vendorLabel = (vendor) => vendor.id;
+validateEntries('src/data/usVendors.ts', vendors, 'usVendorComparison', vendorLabel);
+checkUniqueIds('src/data/usVendors.ts', vendors, vendorLabel);
+vendors.forEach((vendor) => {
+  checkUniqueIds('src/data/usVendors.ts', vendor.reservations ?? [], (reservation) => `${vendor.id} reservation ${reservation.id}`);
+});
+
+// The merged result is what the site renders and exports. Checked only once the sources pass,
+// so every source violation is not reported a second time.
+if (violations.length === 0) {
+  validateEntries('src/data/alternatives.ts (merged)', alternatives, 'alternative', alternativeLabel);
+}
+
+// Warnings (orphaned overrides kept for entries that may be re-added) never fail the run.
+for (const warning of warnings) {
+  console.warn(`warning: ${warning}`);
+}
+
+if (violations.length > 0) {
+  console.error(`Catalogue validation failed with ${violations.length} violation(s):`);
+  for (const violation of violations) {
+    console.error(`- ${violation}`);
+  }
+  process.exit(1);
+}
+
+console.log(
+  `Validated ${manualAlternatives.length + researchAlternatives.length} source entries, `
+  + `${Object.keys(reservationsById).length} reservation overrides, ${vendors.length} US vendors `
+  + `and ${deniedAlternatives.length} denied entries.`,
+);
+if (pendingIds.size > 0) {
+  console.log(
+    `Gateway assessments pending for ${pendingIds.size} of ${alternatives.length} alternatives (listed on /en/audit; --strict fails on them).`,
+  );
+}
@@ -1,77 +1,6 @@
 #!/usr/bin/env node
-const fs = require('node:fs');
 const path = require('node:path');
-const vm = require('node:vm');
-const ts = require('typescript');
-
-const moduleCache = new Map();
-
-function resolveTsPath(fromDir, specifier) {
-  const directPath = path.resolve(fromDir, specifier);
-  const candidates = [
-    directPath,
-    `${directPath}.ts`,
-    `${directPath}.tsx`,
-    path.join(directPath, 'index.ts'),
-    path.join(directPath, 'index.tsx'),
-  ];
-
-  for (const candidate of candidates) {
-    if (fs.existsSync(candidate)) {
-      return candidate;
-    }
-  }
-
-  throw new Error(`Unable to resolve module "${specifier}" from "${fromDir}".`);
-}
-
-function loadTsModule(filePath) {
-  const absolutePath = path.resolve(filePath);
-  if (moduleCache.has(absolutePath)) {
-    return moduleCache.get(absolutePath).exports;
-  }
-
-  const source = fs.readFileSync(absolutePath, 'utf8');
-  const transpiled = ts.transpileModule(source, {
-    fileName: absolutePath,
-    compilerOptions: {
-      module: ts.ModuleKind.CommonJS,
-      target: ts.ScriptTarget.ES2020,
-      esModuleInterop: true,
-      jsx: ts.JsxEmit.ReactJSX,
-    },
-  }).outputText;
-
-  const module = { exports: {} };
-  moduleCache.set(absolutePath, module);
-
-  const dirname = path.dirname(absolutePath);
-  const localRequire = (specifier) => {
-    if (specifier.startsWith('.')) {
-      const resolved = resolveTsPath(dirname, specifier);
-      return loadTsModule(resolved);
-    }
-    return require(specifier);
-  };
-
-  const context = vm.createContext({
-    module,
-    exports: module.exports,
-    require: localRequire,
-    __dirname: dirname,
-    __filename: absolutePath,
-    console,
-    process,
-    Buffer,
-    setTimeout,
-    clearTimeout,
-    setInterval,
-    clearInterval,
-  });
-
-  new vm.Script(transpiled, { filename: absolutePath }).runInContext(context);
-  return module.exports;
-}
+const { loadTsModule } = require('./lib/load-ts-module.cjs');
 
 function validateUSVendorComparisons(alternatives) {
   const failures = [];
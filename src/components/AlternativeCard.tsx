@@ -1,71 +1,55 @@
 import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
 import { categories } from '../data';
-import { getLocalizedAlternativeDescription } from '../utils/alternativeText';
-import type { Alternative, OpenSourceLevel, USVendorComparison, ViewMode } from '../types';
+import HighlightedText from './HighlightedText';
+import ReservationList from './ReservationList';
+import TrustScoreBreakdown from './TrustScoreBreakdown';
+import GatewayAssessmentList from './GatewayAssessmentList';
+import {
+  getLocalizedAlternativeDescription,
+  getLocalizedUSVendorDescription,
+  getTextLanguage,
+} from '../utils/alternativeText';
+import {
+  getDisplayedUSVendorComparisons,
+  getOpenSourceBadgeConfig,
+  getOpenSourceLevel,
+  getTrustBadgeClass,
+  getVisibleTags,
+} from '../utils/alternativeDisplay';
+import type { Alternative, ViewMode } from '../types';
 
 interface AlternativeCardProps {
   alternative: Alternative;
   viewMode: ViewMode;
+  highlightTerms?: string[];
+  isCompared?: boolean;
+  compareDisabled?: boolean;
+  onToggleCompare?: (id: string) => void;
+  // Score under the visitor's priority profile; shown next to the official score when set.
+  personalScore?: number;
 }
 
-function getTrustBadgeClass(score: number): string {
-  if (score < 5) return 'alt-card-badge-trust-low';
-  if (score <= 7) return 'alt-card-badge-trust-medium';
-  return 'alt-card-badge-trust-high';
-}
-
-const opennessTagKeys = new Set([
-  'open-source',
-  'open-source-software',
-  'opensource',
-  'partial-open-source',
-  'partly-open-source',
-  'proprietary',
-]);
-
-function normalizeTagKey(tag: string): string {
-  return tag.trim().toLowerCase().replace(/[\s_]+/g, '-');
-}
-
-function getOpenSourceLevel(alternative: Pick<Alternative, 'isOpenSource' | 'openSourceLevel'>): OpenSourceLevel {
-  if (alternative.openSourceLevel === 'full' || alternative.openSourceLevel === 'partial' || alternative.openSourceLevel === 'none') {
-    return alternative.openSourceLevel;
-  }
-
-  return alternative.isOpenSource ? 'full' : 'none';
-}
-
-function getOpenSourceBadgeConfig(openSourceLevel: OpenSourceLevel): { className: string; labelKey: string } {
-  switch (openSourceLevel) {
-    case 'full':
-      return {
-        className: 'alt-card-badge-openness-full',
-        labelKey: 'common:openSourceFull',
-      };
-    case 'partial':
-      return {
-        className: 'alt-card-badge-openness-partial',
-        labelKey: 'common:openSourcePartial',
-      };
-    case 'none':
-    default:
-      return {
-        className: 'alt-card-badge-openness-none',
-        labelKey: 'common:proprietary',
-      };
-  }
-}
-
-export default function AlternativeCard({ alternative, viewMode }: AlternativeCardProps) {
+export default function AlternativeCard({
+  alternative,
+  viewMode,
+  highlightTerms,
+  isCompared = false,
+  compareDisabled = false,
+  onToggleCompare,
+  personalScore,
+}: AlternativeCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [usVendorDetailsExpanded, setUsVendorDetailsExpanded] = useState(false);
   const [logoError, setLogoError] = useState(false);
+  const { lang } = useParams<{ lang: string }>();
   const { t, i18n } = useTranslation(['browse', 'common', 'data']);
 
   const category = categories.find((entry) => entry.id === alternative.category);
   const translatedDescription = getLocalizedAlternativeDescription(alternative, i18n.language);
+  const descriptionLanguage = getTextLanguage(alternative.localizedDescriptions, i18n.language);
   const description = (() => {
     if (viewMode !== 'grid' || translatedDescription.length <= 120) return translatedDescription;
     const truncated = translatedDescription.slice(0, 120);
@@ -79,17 +63,10 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
     ? getTrustBadgeClass(alternative.trustScore)
     : '';
   const hasReservations = (alternative.reservations?.length ?? 0) > 0;
-  const fallbackUSVendorComparisons: USVendorComparison[] = alternative.replacesUS.map((name) => ({
-      id: `us-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`,
-      name,
-      trustScoreStatus: 'pending' as const,
-    }));
-  const usVendorComparisons = alternative.usVendorComparisons?.length
-    ? alternative.usVendorComparisons
-    : fallbackUSVendorComparisons;
+  const usVendorComparisons = getDisplayedUSVendorComparisons(alternative);
   const openSourceLevel = getOpenSourceLevel(alternative);
   const openSourceBadge = getOpenSourceBadgeConfig(openSourceLevel);
-  const visibleTags = alternative.tags.filter((tag) => !opennessTagKeys.has(normalizeTagKey(tag)));
+  const visibleTags = getVisibleTags(alternative);
 
   return (
     <motion.div
@@ -115,7 +92,11 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
         </div>
         <div className="alt-card-title-section">
           <div className="alt-card-title-row">
-            <h3 className="alt-card-name">{alternative.name}</h3>
+            <h3 className="alt-card-name">
+              <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                <HighlightedText text={alternative.name} terms={highlightTerms} />
+              </Link>
+            </h3>
             {isTrustScorePending ? (
               <span className="alt-card-trust-stamp alt-card-trust-stamp-pending">
                 {t('browse:card.trustScorePending')}
@@ -127,6 +108,14 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
                 </span>
               )
             )}
+            {personalScore != null && (
+              <span
+                className="alt-card-trust-stamp alt-card-trust-stamp-personal"
+                title={t('browse:priorities.personalScoreHint')}
+              >
+                {t('browse:card.personalScoreLabel', { score: personalScore.toFixed(1) })}
+              </span>
+            )}
           </div>
           {category && (
             <span className="alt-card-category">
@@ -137,7 +126,9 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
         </div>
       </div>
 
-      <p className="alt-card-description">{description}</p>
+      <p className="alt-card-description" lang={descriptionLanguage}>
+        <HighlightedText text={description} terms={highlightTerms} />
+      </p>
 
       <div className="alt-card-replaces">
         <div className="alt-card-replaces-header">
@@ -168,7 +159,9 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
           {usVendorComparisons.map((vendor) => (
             <div key={vendor.id} className="alt-card-us-vendor-item">
               <div className="alt-card-us-vendor-summary">
-                <span className="alt-card-us-vendor-name">{vendor.name}</span>
+                <span className="alt-card-us-vendor-name">
+                  <HighlightedText text={vendor.name} terms={highlightTerms} />
+                </span>
                 {vendor.trustScoreStatus === 'ready' && vendor.trustScore != null ? (
                   <span className={`alt-card-badge ${getTrustBadgeClass(vendor.trustScore)}`}>
                     {t('browse:card.trustScoreLabel', { score: vendor.trustScore.toFixed(1) })}
@@ -181,33 +174,13 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
               </div>
               {usVendorDetailsExpanded && (
                 <div className="alt-card-us-vendor-content">
-                  {((i18n.language.startsWith('de') && vendor.descriptionDe) || vendor.description) && (
+                  {getLocalizedUSVendorDescription(vendor, i18n.language) && (
                     <p className="alt-card-us-vendor-description">
-                      {i18n.language.startsWith('de') && vendor.descriptionDe ? vendor.descriptionDe : vendor.description}
+                      {getLocalizedUSVendorDescription(vendor, i18n.language)}
                     </p>
                   )}
-                  {(vendor.reservations?.length ?? 0) > 0 && (
-                    <ul className="alt-card-us-vendor-reservations">
-                      {vendor.reservations?.map((reservation) => (
-                        <li key={reservation.id} className="alt-card-us-vendor-reservation-item">
-                          <p className="alt-card-us-vendor-reservation-text">
-                            {i18n.language.startsWith('de') && reservation.textDe
-                              ? reservation.textDe
-                              : reservation.text}
-                          </p>
-                          {reservation.sourceUrl && (
-                            <a
-                              href={reservation.sourceUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="alt-detail-source-link"
-                            >
-                              {t('browse:card.reservationSource')}
-                            </a>
-                          )}
-                        </li>
-                      ))}
-                    </ul>
+                  {vendor.reservations && vendor.reservations.length > 0 && (
+                    <ReservationList reservations={vendor.reservations} variant="us-vendor" />
                   )}
                 </div>
               )}
@@ -224,10 +197,30 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
           {t(openSourceBadge.labelKey)}
         </span>
         {visibleTags.slice(0, 2).map((tag) => (
-          <span key={tag} className="alt-card-badge alt-card-badge-tag">{tag}</span>
+          <span key={tag} className="alt-card-badge alt-card-badge-tag">
+            <HighlightedText text={tag} terms={highlightTerms} />
+          </span>
         ))}
       </div>
 
+      {onToggleCompare && (
+        <label className={`alt-card-compare${compareDisabled && !isCompared ? ' disabled' : ''}`}>
+          <input
+            type="checkbox"
+            className="filter-checkbox"
+            checked={isCompared}
+            disabled={compareDisabled && !isCompared}
+            onChange={() => onToggleCompare(alternative.id)}
+          />
+          <span className="filter-checkbox-custom">
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+            </svg>
+          </span>
+          <span className="filter-label-text">{t('browse:compare.addToCompare')}</span>
+        </label>
+      )}
+
       <button
         className="alt-card-expand"
         onClick={() => setExpanded(!expanded)}
@@ -258,7 +251,9 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
             <div className="alt-card-details-content">
               <div className="alt-detail-section">
                 <h4 className="alt-detail-title">{t('browse:card.about')}</h4>
-                <p className="alt-detail-text">{translatedDescription}</p>
+                <p className="alt-detail-text" lang={descriptionLanguage}>
+                  <HighlightedText text={translatedDescription} terms={highlightTerms} />
+                </p>
               </div>
 
               {(alternative.foundedYear != null || alternative.headquartersCity || alternative.license) && (
@@ -275,7 +270,7 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
                       <div className="alt-detail-meta-item">
                         <span className="alt-detail-meta-label">{t('browse:card.headquarters')}</span>
                         <span className="alt-detail-meta-value">
-                          {alternative.headquartersCity}
+                          <HighlightedText text={alternative.headquartersCity} terms={highlightTerms} />
                           <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>
                         </span>
                       </div>
@@ -295,36 +290,36 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
                   <h4 className="alt-detail-title">{t('browse:card.tags')}</h4>
                   <div className="alt-detail-tags">
                     {visibleTags.map((tag) => (
-                      <span key={tag} className="alt-detail-tag">{tag}</span>
+                      <span key={tag} className="alt-detail-tag">
+                        <HighlightedText text={tag} terms={highlightTerms} />
+                      </span>
                     ))}
                   </div>
                 </div>
               )}
 
+              {alternative.gatewayAssessments && alternative.gatewayAssessments.length > 0 && (
+                <div className="alt-detail-section">
+                  <h4 className="alt-detail-title">{t('browse:gateway.title')}</h4>
+                  <GatewayAssessmentList assessments={alternative.gatewayAssessments} />
+                </div>
+              )}
+
+              {alternative.trustScoreBreakdown && (
+                <div className="alt-detail-section">
+                  <h4 className="alt-detail-title">{t('browse:trustBreakdown.title')}</h4>
+                  <TrustScoreBreakdown
+                    breakdown={alternative.trustScoreBreakdown}
+                    computedScore={alternative.computedTrustScore}
+                    publishedScore={isTrustScorePending ? undefined : alternative.trustScore}
+                  />
+                </div>
+              )}
+
               {hasReservations && (
                 <div className="alt-detail-section">
                   <h4 className="alt-detail-title">{t('browse:card.reservations')}</h4>
-                  <ul className="alt-detail-reservations">
-                    {alternative.reservations?.map((reservation) => (
-                      <li key={reservation.id} className="alt-detail-reservation-item">
-                        <p className="alt-detail-text">
-                          {i18n.language.startsWith('de') && reservation.textDe
-                            ? reservation.textDe
-                            : reservation.text}
-                        </p>
-                        {reservation.sourceUrl && (
-                          <a
-                            href={reservation.sourceUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="alt-detail-source-link"
-                          >
-                            {t('browse:card.reservationSource')}
-                          </a>
-                        )}
-                      </li>
-                    ))}
-                  </ul>
+                  <ReservationList reservations={alternative.reservations ?? []} />
                 </div>
               )}
 
@@ -341,6 +336,16 @@ export default function AlternativeCard({ alternative, viewMode }: AlternativeCa
                   </svg>
                   {t('browse:card.website')}
                 </a>
+                <Link
+                  to={`/${lang}/alternative/${alternative.id}`}
+                  className="alt-card-link alt-card-link-secondary"
+                  aria-label={t('browse:card.viewDetailsLabel', { name: alternative.name })}
+                >
+                  <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                    <path d="M11 7h2v2h-2zm0 4h2v6h-2zm1-9C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8z"/>
+                  </svg>
+                  {t('browse:card.viewDetails')}
+                </Link>
                 {alternative.sourceCodeUrl && (
                   <a
                     href={alternative.sourceCodeUrl}
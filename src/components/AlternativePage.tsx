@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives, categories } from '../data';
+import ReservationList from './ReservationList';
+import ReservationTimeline from './ReservationTimeline';
+import TrustScoreBreakdown from './TrustScoreBreakdown';
+import TrustScoreHistory from './TrustScoreHistory';
+import UntranslatedNotice from './UntranslatedNotice';
+import GatewayAssessmentList from './GatewayAssessmentList';
+import { usePageMeta } from '../hooks/usePageMeta';
+import {
+  getLocalizedAlternativeDescription,
+  getLocalizedUSVendorDescription,
+  getTextLanguage,
+  hasUntranslatedContent,
+} from '../utils/alternativeText';
+import {
+  getDisplayedUSVendorComparisons,
+  getOpenSourceBadgeConfig,
+  getOpenSourceLevel,
+  getTrustBadgeClass,
+  getVisibleTags,
+} from '../utils/alternativeDisplay';
+import { dataFormatLabels } from '../utils/portability';
+import { getTrustScoreHistory } from '../utils/trustHistory';
+import { getOgImagePath } from '../utils/ogImage';
+import { buildAlternativeJsonLd, serializeJsonLd } from '../utils/structuredData';
+
+export default function AlternativePage() {
+  const { lang, id } = useParams<{ lang: string; id: string }>();
+  const { t, i18n } = useTranslation(['browse', 'common', 'data']);
+  const [logoError, setLogoError] = useState(false);
+
+  const alternative = alternatives.find((entry) => entry.id === id);
+  const description = alternative ? getLocalizedAlternativeDescription(alternative, i18n.language) : '';
+
+  usePageMeta(
+    alternative
+      ? {
+          title: t('browse:detail.metaTitle', { name: alternative.name }),
+          description,
+          image: getOgImagePath(lang ?? 'en', { type: 'alternative', id: alternative.id }),
+        }
+      : null,
+  );
+
+  if (!alternative) {
+    return (
+      <div className="alt-page">
+        <div className="empty-catalogue">
+          <h2>{t('browse:detail.notFoundTitle')}</h2>
+          <p>{t('browse:detail.notFoundDescription')}</p>
+          <Link to={`/${lang}/browse`} className="alt-card-link alt-card-link-primary">
+            {t('browse:detail.backToBrowse')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const category = categories.find((entry) => entry.id === alternative.category);
+  const openSourceBadge = getOpenSourceBadgeConfig(getOpenSourceLevel(alternative));
+  const usVendorComparisons = getDisplayedUSVendorComparisons(alternative);
+  const visibleTags = getVisibleTags(alternative);
+  const reservations = alternative.reservations ?? [];
+  const { hosting, dataPortability } = alternative;
+  const regionNames = new Intl.DisplayNames([i18n.language], { type: 'region' });
+  const isTrustScorePending = alternative.trustScoreStatus !== 'ready' || alternative.trustScore == null;
+  const trustScoreHistory = getTrustScoreHistory(alternative.id);
+
+  return (
+    <div className="alt-page">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(buildAlternativeJsonLd(
+            alternative,
+            lang ?? 'en',
+            description,
+            category && t(`data:categories.${category.id}.name`),
+          )),
+        }}
+      />
+      <Link to={`/${lang}/browse`} className="alt-page-back">
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z"/>
+        </svg>
+        {t('browse:detail.backToBrowse')}
+      </Link>
+
+      <motion.header
+        className="alt-page-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <div className="alt-card-logo-wrap">
+          {alternative.logo && !logoError ? (
+            <img
+              src={alternative.logo}
+              alt={t('common:logoSuffix', { name: alternative.name })}
+              className="alt-card-logo"
+              onError={() => setLogoError(true)}
+            />
+          ) : (
+            <span className={`fi fi-${alternative.country} alt-card-logo-fallback`}></span>
+          )}
+          <span className={`fi fi-${alternative.country} alt-card-flag-badge`}></span>
+        </div>
+        <div className="alt-page-title-section">
+          <h1 className="alt-page-title">{alternative.name}</h1>
+          {category && (
+            <Link to={`/${lang}/category/${category.id}`} className="alt-card-category alt-card-category-link">
+              <span className="alt-card-category-emoji">{category.emoji}</span>
+              {t(`data:categories.${category.id}.name`)}
+            </Link>
+          )}
+        </div>
+        {isTrustScorePending ? (
+          <span className="alt-card-trust-stamp alt-card-trust-stamp-pending">
+            {t('browse:card.trustScorePending')}
+          </span>
+        ) : (
+          <span
+            className={`alt-card-trust-stamp ${getTrustBadgeClass(alternative.trustScore ?? 0).replace('alt-card-badge', 'alt-card-trust-stamp')}`}
+          >
+            {t('browse:card.trustScoreLabel', { score: alternative.trustScore?.toFixed(1) })}
+          </span>
+        )}
+      </motion.header>
+
+      {hasUntranslatedContent(alternative, i18n.language) && <UntranslatedNotice scope="entry" />}
+
+      <motion.div
+        className="alt-page-content"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, delay: 0.2 }}
+      >
+        <section className="alt-page-section">
+          <h2 className="alt-page-section-title">{t('browse:card.about')}</h2>
+          <p className="alt-page-description" lang={getTextLanguage(alternative.localizedDescriptions, i18n.language)}>
+            {description}
+          </p>
+          <div className="alt-card-badges">
+            <span className={`alt-card-badge alt-card-badge-pricing ${alternative.pricing}`}>
+              {t(`common:pricing.${alternative.pricing}`)}
+            </span>
+            <span className={`alt-card-badge alt-card-badge-openness ${openSourceBadge.className}`}>
+              {t(openSourceBadge.labelKey)}
+            </span>
+            {alternative.selfHostable && (
+              <span className="alt-card-badge alt-card-badge-tag">{t('browse:detail.selfHostable')}</span>
+            )}
+          </div>
+        </section>
+
+        <section className="alt-page-section">
+          <h2 className="alt-page-section-title">{t('browse:card.details')}</h2>
+          <div className="alt-detail-meta">
+            <div className="alt-detail-meta-item">
+              <span className="alt-detail-meta-label">{t('browse:detail.country')}</span>
+              <span className="alt-detail-meta-value">
+                {t(`data:countries.${alternative.country}`, { defaultValue: alternative.country.toUpperCase() })}
+                <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>
+              </span>
+            </div>
+            {alternative.headquartersCity && (
+              <div className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t('browse:card.headquarters')}</span>
+                <span className="alt-detail-meta-value">{alternative.headquartersCity}</span>
+              </div>
+            )}
+            {alternative.foundedYear != null && (
+              <div className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t('browse:card.founded')}</span>
+                <span className="alt-detail-meta-value">{alternative.foundedYear}</span>
+              </div>
+            )}
+            {alternative.license && (
+              <div className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t('browse:card.license')}</span>
+                <span className="alt-detail-meta-value">{alternative.license}</span>
+              </div>
+            )}
+            {hosting && (
+              <div className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t('browse:detail.hosting')}</span>
+                <span className="alt-detail-meta-value">
+                  {hosting.providers
+                    .map((provider) => `${provider.name} (${regionNames.of(provider.jurisdiction.toUpperCase())})`)
+                    .join(', ')}
+                </span>
+              </div>
+            )}
+            {hosting && hosting.dataCenterCountries.length > 0 && (
+              <div className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t('browse:detail.dataCenters')}</span>
+                <span className="alt-detail-meta-value">
+                  {hosting.dataCenterCountries.map((code) => regionNames.of(code.toUpperCase())).join(', ')}
+                </span>
+              </div>
+            )}
+            {dataPortability && (['import', 'export'] as const).map((direction) => (
+              <div key={direction} className="alt-detail-meta-item">
+                <span className="alt-detail-meta-label">{t(`browse:detail.${direction}Formats`)}</span>
+                <span className="alt-detail-meta-value">
+                  {dataPortability[direction].length > 0
+                    ? dataPortability[direction].map((format) => dataFormatLabels[format]).join(', ')
+                    : t('browse:detail.noFormats')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {alternative.gatewayAssessments && alternative.gatewayAssessments.length > 0 && (
+          <section className="alt-page-section">
+            <h2 className="alt-page-section-title">{t('browse:gateway.title')}</h2>
+            <GatewayAssessmentList assessments={alternative.gatewayAssessments} />
+          </section>
+        )}
+
+        {alternative.trustScoreBreakdown && (
+          <section className="alt-page-section">
+            <h2 className="alt-page-section-title">{t('browse:trustBreakdown.title')}</h2>
+            <TrustScoreBreakdown
+              breakdown={alternative.trustScoreBreakdown}
+              computedScore={alternative.computedTrustScore}
+              publishedScore={isTrustScorePending ? undefined : alternative.trustScore}
+              reservations={reservations}
+            />
+          </section>
+        )}
+
+        {!isTrustScorePending && trustScoreHistory.length > 0 && (
+          <section className="alt-page-section">
+            <h2 className="alt-page-section-title">{t('browse:scoreHistory.title')}</h2>
+            <TrustScoreHistory history={trustScoreHistory} />
+          </section>
+        )}
+
+        <section className="alt-page-section">
+          <h2 className="alt-page-section-title">{t('browse:card.reservations')}</h2>
+          {reservations.length > 0 ? (
+            <ReservationList reservations={reservations} />
+          ) : (
+            <p className="alt-detail-text">{t('browse:detail.noReservations')}</p>
+          )}
+        </section>
+
+        {reservations.some((reservation) => reservation.date || reservation.resolvedAt) && (
+          <section className="alt-page-section">
+            <h2 className="alt-page-section-title">{t('browse:timeline.title')}</h2>
+            <ReservationTimeline reservations={reservations} />
+          </section>
+        )}
+
+        <section className="alt-page-section">
+          <h2 className="alt-page-section-title">{t('browse:card.usVendorComparison')}</h2>
+          <div className="alt-card-us-vendor-list">
+            {usVendorComparisons.map((vendor) => (
+              <div key={vendor.id} className="alt-card-us-vendor-item">
+                <div className="alt-card-us-vendor-summary">
+                  <span className="alt-card-us-vendor-name">{vendor.name}</span>
+                  {vendor.trustScoreStatus === 'ready' && vendor.trustScore != null ? (
+                    <span className={`alt-card-badge ${getTrustBadgeClass(vendor.trustScore)}`}>
+                      {t('browse:card.trustScoreLabel', { score: vendor.trustScore.toFixed(1) })}
+                    </span>
+                  ) : (
+                    <span className="alt-card-badge alt-card-badge-trust-pending">
+                      {t('browse:card.trustScorePending')}
+                    </span>
+                  )}
+                </div>
+                <div className="alt-card-us-vendor-content">
+                  {getLocalizedUSVendorDescription(vendor, i18n.language) && (
+                    <p className="alt-card-us-vendor-description">
+                      {getLocalizedUSVendorDescription(vendor, i18n.language)}
+                    </p>
+                  )}
+                  {vendor.reservations && vendor.reservations.length > 0 && (
+                    <ReservationList reservations={vendor.reservations} variant="us-vendor" />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {visibleTags.length > 0 && (
+          <section className="alt-page-section">
+            <h2 className="alt-page-section-title">{t('browse:card.tags')}</h2>
+            <div className="alt-detail-tags">
+              {visibleTags.map((tag) => (
+                <span key={tag} className="alt-detail-tag">{tag}</span>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <div className="alt-card-actions">
+          <a
+            href={alternative.website}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="alt-card-link alt-card-link-primary"
+            aria-label={t('browse:card.visitWebsite', { name: alternative.name })}
+          >
+            {t('browse:card.website')}
+          </a>
+          {alternative.sourceCodeUrl && (
+            <a
+              href={alternative.sourceCodeUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="alt-card-link alt-card-link-secondary"
+              aria-label={t('browse:card.sourceCode', { name: alternative.name })}
+            >
+              {t('browse:card.sourceCodeLabel')}
+            </a>
+          )}
+          {alternative.actionLinks?.map((link) => (
+            <a
+              key={`${alternative.id}-${link.url}`}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="alt-card-link alt-card-link-secondary"
+              aria-label={t('browse:card.visitWebsite', { name: link.label })}
+            >
+              {link.label}
+            </a>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
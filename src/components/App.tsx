@@ -1,54 +1,74 @@
-import { Routes, Route, Navigate, Outlet, useParams, useSearchParams } from 'react-router-dom';
-import { useEffect } from 'react';
+import { Routes, Route, Navigate, Outlet, useLocation, useParams, useSearchParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import Layout from './Layout';
 import LandingPage from './LandingPage';
 import BrowsePage from './BrowsePage';
-import { supportedLanguages, defaultLanguage, localeMap, detectBrowserLanguage, type SupportedLanguage } from '../i18n';
+import AlternativePage from './AlternativePage';
+import ComparePage from './ComparePage';
+import AuditPage from './AuditPage';
+import MigrationPage from './MigrationPage';
+import StackAuditPage from './StackAuditPage';
+import ChangesPage from './ChangesPage';
+import CategoryPage from './CategoryPage';
+import DeniedPage from './DeniedPage';
+import TrustChangesPage from './TrustChangesPage';
+import NotFoundPage from './NotFoundPage';
+import { PageMetaContext } from '../hooks/usePageMeta';
+import { defaultLanguage, detectBrowserLanguage, isSupportedLanguage } from '../i18n';
+import { getPageHead } from '../utils/pageHead';
+import type { PageMeta } from '../types';
 
 function LocaleLayout() {
   const { lang } = useParams<{ lang: string }>();
+  const { pathname } = useLocation();
   const { i18n } = useTranslation();
+  const [pageMeta, setPageMeta] = useState<PageMeta | null>(null);
 
   useEffect(() => {
-    if (lang && supportedLanguages.includes(lang as SupportedLanguage)) {
+    if (isSupportedLanguage(lang)) {
       const apply = (translate: (key: string) => string) => {
-        document.documentElement.lang = lang;
-        document.title = translate('meta.title');
+        const head = getPageHead(lang, pathname, pageMeta, translate, window.location.origin);
+
+        document.documentElement.lang = head.lang;
+        document.title = head.title;
 
         const metaDesc = document.querySelector('meta[name="description"]');
-        if (metaDesc) metaDesc.setAttribute('content', translate('meta.description'));
+        if (metaDesc) metaDesc.setAttribute('content', head.description);
 
         const ogTitle = document.querySelector('meta[property="og:title"]');
-        if (ogTitle) ogTitle.setAttribute('content', translate('meta.title'));
+        if (ogTitle) ogTitle.setAttribute('content', head.title);
 
         const ogDesc = document.querySelector('meta[property="og:description"]');
-        if (ogDesc) ogDesc.setAttribute('content', translate('meta.ogDescription'));
+        if (ogDesc) ogDesc.setAttribute('content', head.ogDescription);
 
         const ogLocale = document.querySelector('meta[property="og:locale"]');
-        if (ogLocale) ogLocale.setAttribute('content', localeMap[lang as SupportedLanguage]);
+        if (ogLocale) ogLocale.setAttribute('content', head.ogLocale);
+
+        const ogUrl = document.querySelector('meta[property="og:url"]');
+        if (ogUrl) ogUrl.setAttribute('content', head.canonicalUrl);
+
+        const ogImage = document.querySelector('meta[property="og:image"]');
+        if (ogImage) ogImage.setAttribute('content', head.ogImage);
 
         const twTitle = document.querySelector('meta[name="twitter:title"]');
-        if (twTitle) twTitle.setAttribute('content', translate('meta.title'));
+        if (twTitle) twTitle.setAttribute('content', head.title);
 
         const twDesc = document.querySelector('meta[name="twitter:description"]');
-        if (twDesc) twDesc.setAttribute('content', translate('meta.ogDescription'));
+        if (twDesc) twDesc.setAttribute('content', head.ogDescription);
+
+        const twImage = document.querySelector('meta[name="twitter:image"]');
+        if (twImage) twImage.setAttribute('content', head.ogImage);
 
         // Manage hreflang alternate links
         document.querySelectorAll('link[hreflang]').forEach((el) => el.remove());
-        const pathWithoutLang = window.location.pathname.replace(new RegExp(`^/${lang}`), '');
-        for (const sl of supportedLanguages) {
+        for (const alternate of head.alternates) {
           const link = document.createElement('link');
           link.rel = 'alternate';
-          link.hreflang = sl;
-          link.href = `${window.location.origin}/${sl}${pathWithoutLang}`;
+          link.hreflang = alternate.hreflang;
+          link.href = alternate.href;
           document.head.appendChild(link);
         }
-        const xDefault = document.createElement('link');
-        xDefault.rel = 'alternate';
-        xDefault.hreflang = 'x-default';
-        xDefault.href = `${window.location.origin}/${defaultLanguage}${pathWithoutLang}`;
-        document.head.appendChild(xDefault);
 
         // Manage canonical URL
         let canonical = document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null;
@@ -57,7 +77,7 @@ function LocaleLayout() {
           canonical.rel = 'canonical';
           document.head.appendChild(canonical);
         }
-        canonical.href = `${window.location.origin}/${lang}${pathWithoutLang}`;
+        canonical.href = head.canonicalUrl;
       };
 
       if (i18n.language !== lang) {
@@ -66,16 +86,18 @@ function LocaleLayout() {
         apply(i18n.t.bind(i18n));
       }
     }
-  }, [lang, i18n]);
+  }, [lang, i18n, pathname, pageMeta]);
 
-  if (!lang || !supportedLanguages.includes(lang as SupportedLanguage)) {
+  if (!isSupportedLanguage(lang)) {
     return <Navigate to={`/${defaultLanguage}`} replace />;
   }
 
   return (
-    <Layout>
-      <Outlet />
-    </Layout>
+    <PageMetaContext.Provider value={setPageMeta}>
+      <Layout>
+        <Outlet />
+      </Layout>
+    </PageMetaContext.Provider>
   );
 }
 
@@ -106,6 +128,16 @@ export default function App() {
       <Route path="/:lang" element={<LocaleLayout />}>
         <Route index element={<LandingPage />} />
         <Route path="browse" element={<BrowsePage />} />
+        <Route path="alternative/:id" element={<AlternativePage />} />
+        <Route path="category/:id" element={<CategoryPage />} />
+        <Route path="compare" element={<ComparePage />} />
+        <Route path="migrate" element={<MigrationPage />} />
+        <Route path="stack-audit" element={<StackAuditPage />} />
+        <Route path="denied" element={<DeniedPage />} />
+        <Route path="trust-changes" element={<TrustChangesPage />} />
+        <Route path="changes" element={<ChangesPage />} />
+        <Route path="audit" element={<AuditPage />} />
+        <Route path="*" element={<NotFoundPage />} />
       </Route>
       <Route path="/" element={<LanguageRedirect />} />
       <Route path="/browse" element={<BrowseRedirect />} />
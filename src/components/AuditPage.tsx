@@ -0,0 +1,156 @@
+import { useCallback, useMemo } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives } from '../data';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { buildTrustDriftReport, defaultTrustDriftThreshold } from '../utils/trustDrift';
+
+// Maintainer-facing drift report; intentionally not linked from the navigation.
+export default function AuditPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation('browse');
+
+  const thresholdParam = Number(searchParams.get('threshold'));
+  const threshold = searchParams.has('threshold') && Number.isFinite(thresholdParam) && thresholdParam >= 0
+    ? thresholdParam
+    : defaultTrustDriftThreshold;
+  const flaggedOnly = searchParams.get('flagged') === 'true';
+
+  const report = useMemo(() => buildTrustDriftReport(alternatives, threshold), [threshold]);
+  const flaggedCount = report.filter((entry) => entry.flagged).length;
+  const visibleEntries = flaggedOnly ? report.filter((entry) => entry.flagged) : report;
+  const pendingGatewayAssessments = alternatives
+    .filter((alternative) => (alternative.gatewayAssessments ?? []).length === 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  usePageMeta({ title: t('audit.metaTitle'), description: t('audit.subtitle') });
+
+  const handleThresholdChange = useCallback((value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === '' || Number(value) === defaultTrustDriftThreshold) {
+      next.delete('threshold');
+    } else {
+      next.set('threshold', value);
+    }
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const handleFlaggedOnlyChange = useCallback((checked: boolean) => {
+    const next = new URLSearchParams(searchParams);
+    if (checked) {
+      next.set('flagged', 'true');
+    } else {
+      next.delete('flagged');
+    }
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  return (
+    <div className="audit-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('audit.title')}</h1>
+        <p className="browse-subtitle">{t('audit.subtitle')}</p>
+      </motion.div>
+
+      <div className="audit-controls">
+        <label className="audit-threshold">
+          {t('audit.threshold')}
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            className="audit-threshold-input"
+            value={threshold}
+            onChange={(event) => handleThresholdChange(event.target.value)}
+          />
+        </label>
+        <label className="audit-flagged-toggle">
+          <input
+            type="checkbox"
+            className="filter-checkbox"
+            checked={flaggedOnly}
+            onChange={(event) => handleFlaggedOnlyChange(event.target.checked)}
+          />
+          <span className="filter-checkbox-custom">
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+            </svg>
+          </span>
+          <span className="filter-label-text">{t('audit.flaggedOnly')}</span>
+        </label>
+        <span className="audit-summary">
+          {t('audit.summary', { total: report.length, flagged: flaggedCount, threshold })}
+        </span>
+      </div>
+
+      <div className="compare-table-wrap">
+        <table className="compare-table audit-table">
+          <thead>
+            <tr>
+              <th scope="col" className="compare-row-label">{t('audit.alternative')}</th>
+              <th scope="col" className="compare-row-label">{t('audit.override')}</th>
+              <th scope="col" className="compare-row-label">{t('audit.computed')}</th>
+              <th scope="col" className="compare-row-label">{t('audit.delta')}</th>
+              <th scope="col" className="compare-row-label">{t('audit.explainedBy')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleEntries.map((entry) => (
+              <tr key={entry.id} className={entry.flagged ? 'audit-row-flagged' : undefined}>
+                <td>
+                  <Link to={`/${lang}/alternative/${entry.id}`} className="alt-card-name-link">
+                    {entry.name}
+                  </Link>
+                  {entry.flagged && <span className="audit-flag">{t('audit.flagged')}</span>}
+                </td>
+                <td className="audit-number">{entry.override.toFixed(1)}</td>
+                <td className="audit-number">{entry.computed.toFixed(1)}</td>
+                <td className={`audit-number ${entry.delta > 0 ? 'audit-delta-positive' : entry.delta < 0 ? 'audit-delta-negative' : ''}`}>
+                  {entry.delta > 0 ? '+' : ''}{entry.delta.toFixed(1)}
+                </td>
+                <td>
+                  {entry.explainedBy.length > 0 ? (
+                    <ul className="compare-list">
+                      {entry.explainedBy.map(({ component, points }) => (
+                        <li key={component}>
+                          {t(`trustBreakdown.${component}`)} ({points})
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="compare-subvalue">{t('audit.consistent')}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pendingGatewayAssessments.length > 0 && (
+        <section className="audit-section">
+          <h2 className="audit-section-title">{t('audit.gatewayPendingTitle')}</h2>
+          <p className="audit-summary">
+            {t('audit.gatewayPendingSummary', { count: pendingGatewayAssessments.length, total: alternatives.length })}
+          </p>
+          <ul className="audit-pending-list">
+            {pendingGatewayAssessments.map((alternative) => (
+              <li key={alternative.id}>
+                <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                  {alternative.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
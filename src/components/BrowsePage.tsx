@@ -1,17 +1,61 @@
-import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useMemo, useCallback, useRef, useEffect } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
 import { alternatives, categories } from '../data';
 import AlternativeCard from './AlternativeCard';
+import CompareBar from './CompareBar';
 import Filters from './Filters';
-import { getLocalizedAlternativeDescription } from '../utils/alternativeText';
+import PrioritiesPanel from './PrioritiesPanel';
+import UntranslatedNotice from './UntranslatedNotice';
+import { getLocalizedDenialSummary, isMissingTranslation } from '../utils/alternativeText';
+import { findDeniedAlternatives } from '../utils/denied';
+import { isHostedInEurope } from '../utils/hosting';
+import { supportsDataFormats } from '../utils/portability';
+import {
+  calculatePersonalScore,
+  defaultPriorityWeights,
+  isDefaultPriorityProfile,
+  loadStoredPriorityWeights,
+  parsePriorityWeights,
+  prioritiesParam,
+  serializePriorityWeights,
+  storePriorityWeights,
+} from '../utils/priorities';
+import type { PriorityWeights } from '../utils/priorities';
 import { getEffectiveTrustScore } from '../utils/trustScore';
-import type { CategoryId, CountryCode, SelectedFilters, SortBy, ViewMode } from '../types';
+import { maxComparedAlternatives, parseComparedIds } from '../utils/compare';
+import { buildSearchIndex, getSearchTerms, hasSearchTerms, rankSearchResults } from '../utils/search';
+import { DATA_FORMATS } from '../types';
+import type { CategoryId, CountryCode, DataFormat, SelectedFilters, SortBy, ViewMode } from '../types';
 
 const validCategoryIds = new Set<string>(categories.map((category) => category.id));
+const validCountryCodes = new Set<string>(alternatives.map((alternative) => alternative.country));
+const validPricingKeys = new Set<string>(['free', 'freemium', 'paid']);
+const validDataFormats = new Set<string>(DATA_FORMATS);
+const validSortKeys = new Set<string>(['relevance', 'trustScore', 'personalScore', 'name', 'country', 'category']);
+const validViewModes = new Set<string>(['grid', 'list']);
+
+const defaultViewMode: ViewMode = 'grid';
+
+const searchIndex = buildSearchIndex(alternatives);
+
+// Results are ranked by relevance while a query is active, otherwise by the personal score when a priority profile is set.
+function getDefaultSortBy(query: string, hasPriorityProfile: boolean): SortBy {
+  if (hasSearchTerms(query)) return 'relevance';
+  return hasPriorityProfile ? 'personalScore' : 'trustScore';
+}
+
+function setPrioritiesParam(params: URLSearchParams, weights: PriorityWeights) {
+  if (isDefaultPriorityProfile(weights)) {
+    params.delete(prioritiesParam);
+  } else {
+    params.set(prioritiesParam, serializePriorityWeights(weights));
+  }
+}
 
 export default function BrowsePage() {
+  const { lang } = useParams<{ lang: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
   const { t, i18n } = useTranslation('browse');
 
@@ -25,17 +69,73 @@ export default function BrowsePage() {
     () => searchParams.getAll('category').filter((category) => validCategoryIds.has(category)) as CategoryId[],
     [searchParams],
   );
+  const countryFilters = useMemo(
+    () => searchParams.getAll('country').filter((country) => validCountryCodes.has(country)) as CountryCode[],
+    [searchParams],
+  );
+  const pricingFilters = useMemo(
+    () => searchParams.getAll('pricing').filter((pricing) => validPricingKeys.has(pricing)),
+    [searchParams],
+  );
+  const openSourceOnly = searchParams.get('openSource') === 'true';
+  const europeanHostingOnly = searchParams.get('europeanHosting') === 'true';
+  const importFormats = useMemo(
+    () => searchParams.getAll('import').filter((format) => validDataFormats.has(format)) as DataFormat[],
+    [searchParams],
+  );
+  const exportFormats = useMemo(
+    () => searchParams.getAll('export').filter((format) => validDataFormats.has(format)) as DataFormat[],
+    [searchParams],
+  );
+  const prioritiesValue = searchParams.get(prioritiesParam);
+  const priorityWeights = useMemo(
+    () => parsePriorityWeights(prioritiesValue) ?? defaultPriorityWeights,
+    [prioritiesValue],
+  );
+  const hasPriorityProfile = !isDefaultPriorityProfile(priorityWeights);
+  const searchTerms = useMemo(() => getSearchTerms(searchTerm), [searchTerm]);
+  const deniedMatches = useMemo(() => findDeniedAlternatives(searchTerm), [searchTerm]);
+  const defaultSortBy = getDefaultSortBy(searchTerm, hasPriorityProfile);
+  const sortParam = searchParams.get('sort') ?? '';
+  const sortBy: SortBy = validSortKeys.has(sortParam)
+    && (sortParam !== 'relevance' || searchTerms.length > 0)
+    && (sortParam !== 'personalScore' || hasPriorityProfile)
+    ? (sortParam as SortBy)
+    : defaultSortBy;
+  const viewParam = searchParams.get('view') ?? '';
+  const viewMode: ViewMode = validViewModes.has(viewParam) ? (viewParam as ViewMode) : defaultViewMode;
+
+  const comparedIds = useMemo(() => parseComparedIds(searchParams.getAll('compare')), [searchParams]);
+  const comparedAlternatives = useMemo(
+    () => alternatives.filter((alternative) => comparedIds.includes(alternative.id)),
+    [comparedIds],
+  );
 
   const latestParamsRef = useRef(new URLSearchParams(searchParams));
   useEffect(() => {
     latestParamsRef.current = new URLSearchParams(searchParams);
   }, [searchParams]);
 
-  const [countryFilters, setCountryFilters] = useState<CountryCode[]>([]);
-  const [pricingFilters, setPricingFilters] = useState<string[]>([]);
-  const [openSourceOnly, setOpenSourceOnly] = useState(false);
-  const [sortBy, setSortBy] = useState<SortBy>('trustScore');
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const updateParams = useCallback((update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(latestParamsRef.current);
+    update(params);
+    latestParamsRef.current = params;
+    setSearchParamsRef.current(params, { replace: true });
+  }, []);
+
+  // A shared link carries its own profile; otherwise restore the one saved in this browser.
+  useEffect(() => {
+    if (latestParamsRef.current.has(prioritiesParam)) return;
+    const stored = loadStoredPriorityWeights();
+    if (stored && !isDefaultPriorityProfile(stored)) {
+      updateParams((params) => setPrioritiesParam(params, stored));
+    }
+  }, [updateParams]);
+
+  const personalScores = useMemo(() => {
+    if (!hasPriorityProfile) return undefined;
+    return new Map(alternatives.map((alternative) => [alternative.id, calculatePersonalScore(alternative, priorityWeights)]));
+  }, [hasPriorityProfile, priorityWeights]);
 
   const selectedFilters: SelectedFilters = useMemo(
     () => ({
@@ -43,76 +143,126 @@ export default function BrowsePage() {
       country: countryFilters,
       pricing: pricingFilters,
       openSourceOnly,
+      europeanHostingOnly,
+      importFormats,
+      exportFormats,
     }),
-    [categoryFilters, countryFilters, pricingFilters, openSourceOnly],
+    [categoryFilters, countryFilters, pricingFilters, openSourceOnly, europeanHostingOnly, importFormats, exportFormats],
   );
 
   const handleSearchChange = useCallback((term: string) => {
-    const params = new URLSearchParams(latestParamsRef.current);
-    if (term) {
-      params.set('q', term);
-    } else {
-      params.delete('q');
-    }
-    latestParamsRef.current = params;
-    setSearchParamsRef.current(params, { replace: true });
-  }, []);
+    updateParams((params) => {
+      if (term) {
+        params.set('q', term);
+      } else {
+        params.delete('q');
+      }
+    });
+  }, [updateParams]);
 
   const handleFilterChange = useCallback((filterType: keyof SelectedFilters, values: string[] | boolean) => {
-    switch (filterType) {
-      case 'category': {
-        const params = new URLSearchParams(latestParamsRef.current);
-        params.delete('category');
-        for (const category of values as string[]) {
-          params.append('category', category);
+    updateParams((params) => {
+      switch (filterType) {
+        case 'category':
+        case 'country':
+        case 'pricing':
+          params.delete(filterType);
+          for (const value of values as string[]) {
+            params.append(filterType, value);
+          }
+          break;
+        case 'openSourceOnly':
+          if (values) {
+            params.set('openSource', 'true');
+          } else {
+            params.delete('openSource');
+          }
+          break;
+        case 'importFormats':
+        case 'exportFormats': {
+          const param = filterType === 'importFormats' ? 'import' : 'export';
+          params.delete(param);
+          for (const value of values as string[]) {
+            params.append(param, value);
+          }
+          break;
         }
-        latestParamsRef.current = params;
-        setSearchParamsRef.current(params, { replace: true });
-        break;
+        case 'europeanHostingOnly':
+          if (values) {
+            params.set('europeanHosting', 'true');
+          } else {
+            params.delete('europeanHosting');
+          }
+          break;
       }
-      case 'country':
-        setCountryFilters(values as CountryCode[]);
-        break;
-      case 'pricing':
-        setPricingFilters(values as string[]);
-        break;
-      case 'openSourceOnly':
-        setOpenSourceOnly(values as boolean);
-        break;
-    }
-  }, []);
+    });
+  }, [updateParams]);
+
+  const handleSortChange = useCallback((sort: SortBy) => {
+    updateParams((params) => {
+      const hasProfile = !isDefaultPriorityProfile(parsePriorityWeights(params.get(prioritiesParam)) ?? defaultPriorityWeights);
+      if (sort === getDefaultSortBy(params.get('q') ?? '', hasProfile)) {
+        params.delete('sort');
+      } else {
+        params.set('sort', sort);
+      }
+    });
+  }, [updateParams]);
+
+  const handleViewModeChange = useCallback((mode: ViewMode) => {
+    updateParams((params) => {
+      if (mode === defaultViewMode) {
+        params.delete('view');
+      } else {
+        params.set('view', mode);
+      }
+    });
+  }, [updateParams]);
+
+  const handlePrioritiesChange = useCallback((weights: PriorityWeights) => {
+    storePriorityWeights(weights);
+    updateParams((params) => {
+      setPrioritiesParam(params, weights);
+      // The default sort follows the profile, so an explicit personal sort must not outlive it.
+      if (isDefaultPriorityProfile(weights) && params.get('sort') === 'personalScore') params.delete('sort');
+    });
+  }, [updateParams]);
+
+  const handlePrioritiesReset = useCallback(() => {
+    handlePrioritiesChange(defaultPriorityWeights);
+  }, [handlePrioritiesChange]);
+
+  const handleToggleCompare = useCallback((id: string) => {
+    updateParams((params) => {
+      const current = parseComparedIds(params.getAll('compare'));
+      const next = current.includes(id)
+        ? current.filter((comparedId) => comparedId !== id)
+        : [...current, id].slice(0, maxComparedAlternatives);
+      params.delete('compare');
+      for (const comparedId of next) {
+        params.append('compare', comparedId);
+      }
+    });
+  }, [updateParams]);
+
+  const handleClearCompare = useCallback(() => {
+    updateParams((params) => params.delete('compare'));
+  }, [updateParams]);
 
   const handleClearAll = useCallback(() => {
-    const params = new URLSearchParams();
-    const currentQ = latestParamsRef.current.get('q');
-    if (currentQ) {
-      params.set('q', currentQ);
-    }
-    latestParamsRef.current = params;
-    setSearchParamsRef.current(params, { replace: true });
-    setCountryFilters([]);
-    setPricingFilters([]);
-    setOpenSourceOnly(false);
-  }, []);
+    updateParams((params) => {
+      for (const key of ['category', 'country', 'pricing', 'openSource', 'europeanHosting', 'import', 'export']) {
+        params.delete(key);
+      }
+    });
+  }, [updateParams]);
 
   const filteredAlternatives = useMemo(() => {
     let result = [...alternatives];
 
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      result = result.filter((alternative) => {
-        const localizedDescription = getLocalizedAlternativeDescription(alternative, i18n.language).toLowerCase();
-        const baseDescription = alternative.description.toLowerCase();
-
-        return (
-          alternative.name.toLowerCase().includes(term) ||
-          baseDescription.includes(term) ||
-          localizedDescription.includes(term) ||
-          alternative.replacesUS.some((replace) => replace.toLowerCase().includes(term)) ||
-          (alternative.usVendorComparisons ?? []).some((vendor) => vendor.name.toLowerCase().includes(term)) ||
-          alternative.tags.some((tag) => tag.toLowerCase().includes(term))
-        );
-      });
+    const searchScores = rankSearchResults(searchIndex, searchTerm);
+    if (searchTerms.length > 0) {
+      result = result.filter((alternative) => searchScores.has(alternative.id));
     }
 
     if (selectedFilters.category.length > 0) {
@@ -131,13 +281,40 @@ export default function BrowsePage() {
       result = result.filter((alternative) => alternative.isOpenSource);
     }
 
+    if (selectedFilters.europeanHostingOnly) {
+      result = result.filter(isHostedInEurope);
+    }
+
+    // Unlike the other groups, format filters are combined with AND: "imports ICS and vCard".
+    if (selectedFilters.importFormats.length > 0) {
+      result = result.filter((alternative) => supportsDataFormats(alternative, 'import', selectedFilters.importFormats));
+    }
+
+    if (selectedFilters.exportFormats.length > 0) {
+      result = result.filter((alternative) => supportsDataFormats(alternative, 'export', selectedFilters.exportFormats));
+    }
+
     result.sort((a, b) => {
       switch (sortBy) {
+        case 'relevance': {
+          const relevanceDelta = (searchScores.get(b.id) ?? 0) - (searchScores.get(a.id) ?? 0);
+          if (relevanceDelta !== 0) return relevanceDelta;
+          const trustDelta = getEffectiveTrustScore(b) - getEffectiveTrustScore(a);
+          if (trustDelta !== 0) return trustDelta;
+          return a.name.localeCompare(b.name);
+        }
         case 'trustScore': {
           const trustDelta = getEffectiveTrustScore(b) - getEffectiveTrustScore(a);
           if (trustDelta !== 0) return trustDelta;
           return a.name.localeCompare(b.name);
         }
+        case 'personalScore': {
+          const personalDelta = (personalScores?.get(b.id) ?? 0) - (personalScores?.get(a.id) ?? 0);
+          if (personalDelta !== 0) return personalDelta;
+          const trustDelta = getEffectiveTrustScore(b) - getEffectiveTrustScore(a);
+          if (trustDelta !== 0) return trustDelta;
+          return a.name.localeCompare(b.name);
+        }
         case 'name':
           return a.name.localeCompare(b.name);
         case 'country':
@@ -150,7 +327,7 @@ export default function BrowsePage() {
     });
 
     return result;
-  }, [searchTerm, selectedFilters, sortBy, i18n.language]);
+  }, [searchTerm, searchTerms, selectedFilters, sortBy, personalScores]);
 
   return (
     <div className="browse-page">
@@ -170,6 +347,9 @@ export default function BrowsePage() {
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.6, delay: 0.2 }}
       >
+        {alternatives.some((alternative) => isMissingTranslation(alternative.localizedDescriptions, i18n.language)) && (
+          <UntranslatedNotice scope="catalogue" />
+        )}
         <Filters
           searchTerm={searchTerm}
           onSearchChange={handleSearchChange}
@@ -177,13 +357,36 @@ export default function BrowsePage() {
           onFilterChange={handleFilterChange}
           onClearAll={handleClearAll}
           sortBy={sortBy}
-          onSortChange={setSortBy}
+          onSortChange={handleSortChange}
           viewMode={viewMode}
-          onViewModeChange={setViewMode}
+          onViewModeChange={handleViewModeChange}
           totalCount={alternatives.length}
           filteredCount={filteredAlternatives.length}
+          hasPriorityProfile={hasPriorityProfile}
+        />
+
+        <PrioritiesPanel
+          weights={priorityWeights}
+          onChange={handlePrioritiesChange}
+          onReset={handlePrioritiesReset}
         />
 
+        {deniedMatches.length > 0 && (
+          <div className="denied-notice" role="status">
+            {deniedMatches.map((denied) => (
+              <div key={denied.id} className="denied-notice-item">
+                <p className="denied-notice-title">
+                  {t(`denied.notice.${denied.outcome}`, { name: denied.name })}
+                </p>
+                <p className="denied-notice-text">{getLocalizedDenialSummary(denied, i18n.language)}</p>
+                <Link to={`/${lang}/denied#${denied.id}`} className="denied-notice-link">
+                  {t('denied.notice.readMore')}
+                </Link>
+              </div>
+            ))}
+          </div>
+        )}
+
         {filteredAlternatives.length > 0 ? (
           <div className={`alt-grid${viewMode === 'list' ? ' list-view' : ''}`}>
             {filteredAlternatives.map((alternative, index) => (
@@ -193,7 +396,15 @@ export default function BrowsePage() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.4, delay: Math.min(0.1 + index * 0.05, 1) }}
               >
-                <AlternativeCard alternative={alternative} viewMode={viewMode} />
+                <AlternativeCard
+                  alternative={alternative}
+                  viewMode={viewMode}
+                  highlightTerms={searchTerms}
+                  isCompared={comparedIds.includes(alternative.id)}
+                  compareDisabled={comparedIds.length >= maxComparedAlternatives}
+                  onToggleCompare={handleToggleCompare}
+                  personalScore={personalScores?.get(alternative.id)}
+                />
               </motion.div>
             ))}
           </div>
@@ -226,6 +437,14 @@ export default function BrowsePage() {
           </motion.div>
         )}
       </motion.div>
+
+      {comparedAlternatives.length > 0 && (
+        <CompareBar
+          selected={comparedAlternatives}
+          onRemove={handleToggleCompare}
+          onClear={handleClearCompare}
+        />
+      )}
     </div>
   );
 }
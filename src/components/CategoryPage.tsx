@@ -0,0 +1,213 @@
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { getTrustBadgeClass } from '../utils/alternativeDisplay';
+import { getCategoryOverview, listsUSVendor } from '../utils/categoryOverview';
+import { dataFormatLabels } from '../utils/portability';
+import { getCategoryOgImagePath } from '../utils/ogImage';
+
+const guideSteps = ['inventory', 'export', 'choose', 'parallel', 'switch'] as const;
+
+export default function CategoryPage() {
+  const { lang, id = '' } = useParams<{ lang: string; id: string }>();
+  const { t } = useTranslation(['browse', 'data']);
+
+  const overview = getCategoryOverview(id);
+  const categoryName = overview ? t(`data:categories.${overview.category.id}.name`) : '';
+
+  usePageMeta(
+    overview
+      ? {
+          title: t('browse:category.metaTitle', { name: categoryName }),
+          description: t('browse:category.metaDescription', {
+            name: categoryName,
+            count: overview.stats.alternativeCount,
+            giants: overview.category.usGiants.join(', '),
+          }),
+          image: getCategoryOgImagePath(lang ?? 'en', overview.category.id, overview.stats.alternativeCount),
+        }
+      : null,
+  );
+
+  if (!overview) {
+    return (
+      <div className="category-page">
+        <div className="empty-catalogue">
+          <h2>{t('browse:category.notFoundTitle')}</h2>
+          <p>{t('browse:category.notFoundDescription')}</p>
+          <Link to={`/${lang}/browse`} className="alt-card-link alt-card-link-primary">
+            {t('browse:detail.backToBrowse')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { category, alternatives, giants, stats, importFormats } = overview;
+  const browseHref = `/${lang}/browse?category=${category.id}`;
+  const migrateParams = new URLSearchParams(giants.map((giant) => ['use', giant.name]));
+  const bestPicks = giants.flatMap((giant) => {
+    const best = alternatives.find((alternative) => alternative.id === giant.alternativeIds[0]);
+    return best ? [{ giant, best }] : [];
+  });
+
+  return (
+    <div className="category-page">
+      <Link to={`/${lang}/browse`} className="alt-page-back">
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z"/>
+        </svg>
+        {t('browse:detail.backToBrowse')}
+      </Link>
+
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">
+          <span className="category-page-emoji" aria-hidden="true">{category.emoji}</span>
+          {categoryName}
+        </h1>
+        <p className="browse-subtitle">{t(`data:categories.${category.id}.description`)}</p>
+      </motion.div>
+
+      <div className="landing-stats">
+        <div className="landing-stats-item">
+          <span className="landing-stats-number">{stats.alternativeCount}</span>
+          <span className="landing-stats-label">{t('browse:category.stats.alternatives', { count: stats.alternativeCount })}</span>
+        </div>
+        <div className="landing-stats-divider" />
+        <div className="landing-stats-item">
+          <span className="landing-stats-number">{stats.averageTrustScore?.toFixed(1) ?? '–'}</span>
+          <span className="landing-stats-label">
+            {t('browse:category.stats.averageTrustScore', { count: stats.vettedCount })}
+          </span>
+        </div>
+        <div className="landing-stats-divider" />
+        <div className="landing-stats-item">
+          <span className="landing-stats-number">{stats.openSourceCount}</span>
+          <span className="landing-stats-label">{t('browse:category.stats.openSource')}</span>
+        </div>
+        <div className="landing-stats-divider" />
+        <div className="landing-stats-item">
+          <span className="landing-stats-number">{stats.selfHostableCount}</span>
+          <span className="landing-stats-label">{t('browse:category.stats.selfHostable')}</span>
+        </div>
+        <div className="landing-stats-divider" />
+        <div className="landing-stats-item">
+          <span className="landing-stats-number">{stats.countryCount}</span>
+          <span className="landing-stats-label">{t('browse:category.stats.countries', { count: stats.countryCount })}</span>
+        </div>
+      </div>
+
+      {giants.length > 0 && alternatives.length > 0 && (
+        <section className="alt-page-section">
+          <h2 className="alt-page-section-title">{t('browse:category.matrix.title')}</h2>
+          <p className="alt-detail-text">{t('browse:category.matrix.description')}</p>
+          <div className="compare-table-wrap">
+            <table className="compare-table category-matrix">
+              <thead>
+                <tr>
+                  <td />
+                  {giants.map((giant) => (
+                    <th key={giant.name} scope="col" className="category-matrix-giant">
+                      {giant.name}
+                      <span className="compare-subvalue">
+                        {t('browse:category.matrix.coverage', { count: giant.alternativeIds.length })}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {alternatives.map((alternative) => (
+                  <tr key={alternative.id}>
+                    <th scope="row">
+                      <div className="category-matrix-alternative">
+                        <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>
+                        <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                          {alternative.name}
+                        </Link>
+                        {alternative.trustScoreStatus === 'ready' && alternative.trustScore != null ? (
+                          <span className={`alt-card-badge ${getTrustBadgeClass(alternative.trustScore)}`}>
+                            {t('browse:card.trustScoreLabel', { score: alternative.trustScore.toFixed(1) })}
+                          </span>
+                        ) : (
+                          <span className="alt-card-badge alt-card-badge-trust-pending">
+                            {t('browse:card.trustScorePending')}
+                          </span>
+                        )}
+                      </div>
+                    </th>
+                    {giants.map((giant) => (
+                      <td key={giant.name} className="category-matrix-cell">
+                        {listsUSVendor(alternative, giant.vendor.id) ? (
+                          <span className="category-matrix-covered" title={t('browse:category.matrix.covers', { name: alternative.name, giant: giant.name })}>
+                            <span aria-hidden="true">✓</span>
+                            <span className="sr-only">{t('browse:compare.yes')}</span>
+                          </span>
+                        ) : (
+                          <span className="category-matrix-missing">
+                            <span aria-hidden="true">–</span>
+                            <span className="sr-only">{t('browse:compare.no')}</span>
+                          </span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <section className="alt-page-section">
+        <h2 className="alt-page-section-title">{t('browse:category.guide.title')}</h2>
+        <ol className="category-guide-steps">
+          {guideSteps.map((step) => (
+            <li key={step} className="alt-detail-text">
+              {t(`browse:category.guide.steps.${step}`, { name: categoryName })}
+              {step === 'export' && importFormats.length > 0 && (
+                <span className="category-guide-formats">
+                  {' '}
+                  {t('browse:category.guide.importFormats', {
+                    formats: importFormats.map((format) => dataFormatLabels[format]).join(', '),
+                  })}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {bestPicks.length > 0 && (
+          <>
+            <h3 className="category-guide-subtitle">{t('browse:category.guide.bestPicks')}</h3>
+            <ul className="category-guide-picks">
+              {bestPicks.map(({ giant, best }) => (
+                <li key={giant.name} className="alt-detail-text">
+                  {t('browse:category.guide.replace', { giant: giant.name })}{' '}
+                  <Link to={`/${lang}/alternative/${best.id}`} className="alt-card-name-link">{best.name}</Link>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="category-guide-actions">
+          {giants.length > 0 && (
+            <Link to={`/${lang}/migrate?${migrateParams.toString()}`} className="alt-card-link alt-card-link-primary">
+              {t('browse:category.guide.migrate')}
+            </Link>
+          )}
+          <Link to={browseHref} className="alt-card-link">
+            {t('browse:category.browseAll', { name: categoryName })}
+          </Link>
+        </div>
+      </section>
+    </div>
+  );
+}
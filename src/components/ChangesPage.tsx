@@ -0,0 +1,121 @@
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives, deniedAlternatives } from '../data';
+import { embeddedChangelogId, useCatalogueChangelog } from '../hooks/useCatalogueChangelog';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { getLocalizedDenialSummary, getLocalizedReservationText } from '../utils/alternativeText';
+import {
+  describeCatalogueChange,
+  getCatalogueChangeId,
+  getCatalogueChangePath,
+  getFeedPath,
+} from '../utils/changelog';
+import type { CatalogueChange } from '../types';
+
+const alternativesById = new Map(alternatives.map((alternative) => [alternative.id, alternative]));
+const deniedById = new Map(deniedAlternatives.map((denied) => [denied.id, denied]));
+
+function groupByDate(entries: CatalogueChange[]): [string, CatalogueChange[]][] {
+  const groups = new Map<string, CatalogueChange[]>();
+  for (const entry of entries) {
+    groups.set(entry.date, [...(groups.get(entry.date) ?? []), entry]);
+  }
+  return Array.from(groups);
+}
+
+export default function ChangesPage() {
+  const { lang = 'en' } = useParams<{ lang: string }>();
+  const { t, i18n } = useTranslation('browse');
+  const state = useCatalogueChangelog();
+  // Changelog dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'long', timeZone: 'UTC' });
+
+  usePageMeta({ title: t('changes.metaTitle'), description: t('changes.subtitle') });
+
+  const getDetail = (change: CatalogueChange): string | undefined => {
+    if (change.type === 'reservation-added') {
+      const reservation = alternativesById.get(change.subjectId)?.reservations
+        ?.find((entry) => entry.id === change.reservationId);
+      return reservation && getLocalizedReservationText(reservation, i18n.language);
+    }
+    if (change.type === 'denial-added') {
+      const denied = deniedById.get(change.subjectId);
+      return denied && getLocalizedDenialSummary(denied, i18n.language);
+    }
+    return undefined;
+  };
+
+  return (
+    <div className="changes-page">
+      <link rel="alternate" type="application/atom+xml" title={t('changes.feedTitle')} href={getFeedPath(lang, 'atom')} />
+      <link rel="alternate" type="application/rss+xml" title={t('changes.feedTitle')} href={getFeedPath(lang, 'rss')} />
+
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('changes.title')}</h1>
+        <p className="browse-subtitle">{t('changes.subtitle')}</p>
+      </motion.div>
+
+      <p className="changes-feeds">
+        {t('changes.subscribe')}{' '}
+        <a href={getFeedPath(lang, 'atom')} className="alt-detail-source-link">{t('changes.atom')}</a>
+        {' · '}
+        <a href={getFeedPath(lang, 'rss')} className="alt-detail-source-link">{t('changes.rss')}</a>
+      </p>
+
+      {state.status === 'loading' && <p className="alt-detail-text">{t('changes.loading')}</p>}
+      {state.status === 'unavailable' && <p className="alt-detail-text">{t('changes.unavailable')}</p>}
+      {state.status === 'ready' && (
+        <script
+          type="application/json"
+          id={embeddedChangelogId}
+          dangerouslySetInnerHTML={{ __html: JSON.stringify(state.changelog).replace(/</g, '\\u003c') }}
+        />
+      )}
+      {state.status === 'ready' && (
+        state.changelog.entries.length === 0 ? (
+          <p className="alt-detail-text">
+            {t('changes.empty', { date: dateFormat.format(new Date(state.changelog.startedAt)) })}
+          </p>
+        ) : (
+          <>
+            {groupByDate(state.changelog.entries).map(([date, entries]) => (
+              <section key={date} className="changes-group">
+                <h2 className="changes-date">
+                  <time dateTime={date}>{dateFormat.format(new Date(date))}</time>
+                </h2>
+                <ul className="changes-list">
+                  {entries.map((change) => {
+                    const changePath = getCatalogueChangePath(change, lang);
+                    const description = describeCatalogueChange(change, (key, values) => t(key, values));
+                    const detail = getDetail(change);
+
+                    return (
+                      <li key={getCatalogueChangeId(change)} id={getCatalogueChangeId(change)} className="changes-item">
+                        <span className={`alt-card-badge changes-type changes-type-${change.type}`}>
+                          {t(`changes.type.${change.type}`)}
+                        </span>
+                        <p className="changes-item-title">
+                          {changePath ? <Link to={changePath} className="alt-card-name-link">{description}</Link> : description}
+                        </p>
+                        {detail && <p className="alt-detail-text">{detail}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+            <p className="trust-breakdown-note">
+              {t('changes.since', { date: dateFormat.format(new Date(state.changelog.startedAt)) })}
+            </p>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { maxComparedAlternatives } from '../utils/compare';
+import type { Alternative } from '../types';
+
+interface CompareBarProps {
+  selected: Alternative[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+export default function CompareBar({ selected, onRemove, onClear }: CompareBarProps) {
+  const { lang } = useParams<{ lang: string }>();
+  const { t } = useTranslation('browse');
+  const compareHref = `/${lang}/compare?ids=${selected.map((alternative) => alternative.id).join(',')}`;
+
+  return (
+    <motion.div
+      className="compare-bar"
+      role="region"
+      aria-label={t('compare.barLabel')}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <span className="compare-bar-count">
+        {t('compare.selectedCount', { count: selected.length, max: maxComparedAlternatives })}
+      </span>
+      <ul className="compare-bar-list">
+        {selected.map((alternative) => (
+          <li key={alternative.id} className="compare-bar-item">
+            <span>{alternative.name}</span>
+            <button
+              type="button"
+              className="compare-bar-remove"
+              onClick={() => onRemove(alternative.id)}
+              aria-label={t('compare.remove', { name: alternative.name })}
+            >
+              <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="compare-bar-actions">
+        <button type="button" className="compare-bar-clear" onClick={onClear}>
+          {t('compare.clear')}
+        </button>
+        {selected.length >= 2 ? (
+          <Link to={compareHref} className="alt-card-link alt-card-link-primary">
+            {t('compare.open')}
+          </Link>
+        ) : (
+          <span className="compare-bar-hint">{t('compare.selectMore')}</span>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useCallback, useMemo, type ReactNode } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives } from '../data';
+import ReservationList from './ReservationList';
+import TrustScoreBreakdown from './TrustScoreBreakdown';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { parseComparedIds } from '../utils/compare';
+import {
+  getDisplayedUSVendorComparisons,
+  getOpenSourceBadgeConfig,
+  getOpenSourceLevel,
+  getTrustBadgeClass,
+} from '../utils/alternativeDisplay';
+import { getJurisdictionTier } from '../utils/trustScore';
+import type { Alternative, ReservationSeverity } from '../types';
+
+const severityOrder: ReservationSeverity[] = ['major', 'moderate', 'minor'];
+
+interface CompareRow {
+  key: string;
+  label: string;
+  render: (alternative: Alternative) => ReactNode;
+}
+
+export default function ComparePage() {
+  const { lang } = useParams<{ lang: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation(['browse', 'common', 'data']);
+
+  const comparedIds = useMemo(() => parseComparedIds(searchParams.getAll('ids')), [searchParams]);
+  const compared = useMemo(
+    () => comparedIds
+      .map((id) => alternatives.find((alternative) => alternative.id === id))
+      .filter((alternative): alternative is Alternative => alternative != null),
+    [comparedIds],
+  );
+
+  usePageMeta(
+    compared.length > 0
+      ? {
+          title: t('browse:compare.metaTitle', { names: compared.map((alternative) => alternative.name).join(' vs. ') }),
+          description: t('browse:compare.subtitle'),
+        }
+      : null,
+  );
+
+  const handleRemove = useCallback((id: string) => {
+    const remaining = comparedIds.filter((comparedId) => comparedId !== id);
+    setSearchParams(remaining.length > 0 ? { ids: remaining.join(',') } : {}, { replace: true });
+  }, [comparedIds, setSearchParams]);
+
+  const browseHref = `/${lang}/browse${compared.length > 0
+    ? `?${compared.map((alternative) => `compare=${encodeURIComponent(alternative.id)}`).join('&')}`
+    : ''}`;
+
+  const rows: CompareRow[] = [
+    {
+      key: 'jurisdiction',
+      label: t('browse:compare.jurisdiction'),
+      render: (alternative) => (
+        <>
+          <span className="compare-value">
+            <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>{' '}
+            {t(`data:countries.${alternative.country}`, { defaultValue: alternative.country.toUpperCase() })}
+          </span>
+          <span className="compare-subvalue">
+            {t(`browse:compare.tier${getJurisdictionTier(alternative.country)}`)}
+          </span>
+        </>
+      ),
+    },
+    {
+      key: 'openness',
+      label: t('browse:trustBreakdown.openness'),
+      render: (alternative) => {
+        const badge = getOpenSourceBadgeConfig(getOpenSourceLevel(alternative));
+        return <span className={`alt-card-badge alt-card-badge-openness ${badge.className}`}>{t(badge.labelKey)}</span>;
+      },
+    },
+    {
+      key: 'pricing',
+      label: t('browse:filters.pricingTitle'),
+      render: (alternative) => (
+        <span className={`alt-card-badge alt-card-badge-pricing ${alternative.pricing}`}>
+          {t(`common:pricing.${alternative.pricing}`)}
+        </span>
+      ),
+    },
+    {
+      key: 'selfHostable',
+      label: t('browse:detail.selfHostable'),
+      render: (alternative) => (
+        <span className="compare-value">{alternative.selfHostable ? t('browse:compare.yes') : t('browse:compare.no')}</span>
+      ),
+    },
+    {
+      key: 'license',
+      label: t('browse:card.license'),
+      render: (alternative) => (
+        <span className="compare-value">{alternative.license ?? t('browse:compare.notSpecified')}</span>
+      ),
+    },
+    {
+      key: 'trustScore',
+      label: t('browse:trustBreakdown.title'),
+      render: (alternative) => (
+        <>
+          {alternative.trustScoreStatus === 'ready' && alternative.trustScore != null ? (
+            <span className={`alt-card-badge ${getTrustBadgeClass(alternative.trustScore)}`}>
+              {t('browse:card.trustScoreLabel', { score: alternative.trustScore.toFixed(1) })}
+            </span>
+          ) : (
+            <span className="alt-card-badge alt-card-badge-trust-pending">{t('browse:card.trustScorePending')}</span>
+          )}
+          {alternative.trustScoreBreakdown && (
+            <TrustScoreBreakdown
+              breakdown={alternative.trustScoreBreakdown}
+              computedScore={alternative.computedTrustScore}
+              publishedScore={alternative.trustScoreStatus === 'ready' ? alternative.trustScore : undefined}
+            />
+          )}
+        </>
+      ),
+    },
+    {
+      key: 'reservations',
+      label: t('browse:card.reservations'),
+      render: (alternative) => {
+        const reservations = alternative.reservations ?? [];
+        if (reservations.length === 0) {
+          return <span className="compare-value">{t('browse:compare.noReservations')}</span>;
+        }
+        return severityOrder.map((severity) => {
+          const matching = reservations.filter((reservation) => reservation.severity === severity);
+          if (matching.length === 0) return null;
+          return (
+            <div key={severity} className="compare-severity-group">
+              <span className={`compare-severity compare-severity-${severity}`}>
+                {t(`browse:severity.${severity}`)} ({matching.length})
+              </span>
+              <ReservationList reservations={matching} />
+            </div>
+          );
+        });
+      },
+    },
+    {
+      key: 'replacesUS',
+      label: t('browse:compare.replacesUS'),
+      render: (alternative) => (
+        <ul className="compare-list">
+          {getDisplayedUSVendorComparisons(alternative).map((vendor) => (
+            <li key={vendor.id}>{vendor.name}</li>
+          ))}
+        </ul>
+      ),
+    },
+  ];
+
+  return (
+    <div className="compare-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('browse:compare.title')}</h1>
+        <p className="browse-subtitle">{t('browse:compare.subtitle')}</p>
+      </motion.div>
+
+      <Link to={browseHref} className="alt-page-back">
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z"/>
+        </svg>
+        {t('browse:compare.backToSelection')}
+      </Link>
+
+      {compared.length === 0 ? (
+        <div className="empty-catalogue">
+          <h2>{t('browse:compare.emptyTitle')}</h2>
+          <p>{t('browse:compare.emptyDescription')}</p>
+        </div>
+      ) : (
+        <div className="compare-table-wrap">
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <td />
+                {compared.map((alternative) => (
+                  <th key={alternative.id} scope="col" className="compare-column-header">
+                    <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                      {alternative.name}
+                    </Link>
+                    <button
+                      type="button"
+                      className="compare-bar-remove"
+                      onClick={() => handleRemove(alternative.id)}
+                      aria-label={t('browse:compare.remove', { name: alternative.name })}
+                    >
+                      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                      </svg>
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <th scope="row" className="compare-row-label">{row.label}</th>
+                  {compared.map((alternative) => (
+                    <td key={alternative.id} className="compare-cell">{row.render(alternative)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { deniedAlternatives } from '../data';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { decisionMatrixUrl } from '../utils/alternativeDisplay';
+import { getLocalizedDenialReason } from '../utils/alternativeText';
+
+const sortedDenials = [...deniedAlternatives].sort((a, b) => b.decidedAt.localeCompare(a.decidedAt));
+
+export default function DeniedPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const { hash } = useLocation();
+  const { t, i18n } = useTranslation(['browse', 'data']);
+  // Decision dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' });
+
+  usePageMeta({ title: t('browse:denied.metaTitle'), description: t('browse:denied.subtitle') });
+
+  // Browse notices link to /denied#<id>; client-side navigation does not scroll to the fragment by itself.
+  useEffect(() => {
+    if (!hash) return;
+    document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView({ block: 'start' });
+  }, [hash]);
+
+  const countryLabel = (code: string) => (
+    <span className="denied-country">
+      <span className={`fi fi-${code} alt-detail-meta-flag`}></span>
+      {t(`data:countries.${code}`, { defaultValue: code.toUpperCase() })}
+    </span>
+  );
+
+  return (
+    <div className="denied-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('browse:denied.title')}</h1>
+        <p className="browse-subtitle">{t('browse:denied.subtitle')}</p>
+      </motion.div>
+
+      <ul className="denied-list">
+        {sortedDenials.map((denied) => (
+          <li key={denied.id} id={denied.id} className="denied-entry">
+            <div className="denied-entry-header">
+              <h2 className="denied-entry-name">{denied.name}</h2>
+              <span className={`alt-card-badge denied-outcome denied-outcome-${denied.outcome}`}>
+                {t(`browse:denied.outcome.${denied.outcome}`)}
+              </span>
+              <time className="denied-date" dateTime={denied.decidedAt}>
+                {dateFormat.format(new Date(denied.decidedAt))}
+              </time>
+            </div>
+
+            <dl className="denied-facts">
+              <div className="denied-fact">
+                <dt>{t('browse:denied.category')}</dt>
+                <dd>
+                  <Link to={`/${lang}/browse?category=${denied.category}`} className="alt-card-name-link">
+                    {t(`data:categories.${denied.category}.name`)}
+                  </Link>
+                </dd>
+              </div>
+              {denied.claimedCountry && (
+                <div className="denied-fact">
+                  <dt>{t('browse:denied.claimedCountry')}</dt>
+                  <dd>{countryLabel(denied.claimedCountry)}</dd>
+                </div>
+              )}
+              <div className="denied-fact">
+                <dt>{t('browse:denied.actualCountry')}</dt>
+                <dd>{countryLabel(denied.actualCountry)}</dd>
+              </div>
+              <div className="denied-fact">
+                <dt>{t('browse:denied.failedCriteria')}</dt>
+                <dd className="denied-criteria">
+                  {denied.failedCriteria.map((criterion) => (
+                    <span key={criterion} className="denied-criterion">
+                      <span className="gateway-code">{criterion}</span>
+                      {t(`browse:gateway.criteria.${criterion}`)}
+                    </span>
+                  ))}
+                </dd>
+              </div>
+            </dl>
+
+            <p className="alt-detail-text">{getLocalizedDenialReason(denied, i18n.language)}</p>
+
+            {(denied.sources.length > 0 || denied.reviewUrl) && (
+              <ul className="denied-sources">
+                {denied.sources.map((source) => (
+                  <li key={source.url}>
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="alt-detail-source-link">
+                      {source.label}
+                    </a>
+                  </li>
+                ))}
+                {denied.reviewUrl && (
+                  <li>
+                    <a href={denied.reviewUrl} target="_blank" rel="noopener noreferrer" className="alt-detail-source-link">
+                      {t('browse:denied.review')}
+                    </a>
+                  </li>
+                )}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <a
+        href={`${decisionMatrixUrl}#gateway-criteria-passfail`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="alt-detail-source-link"
+      >
+        {t('browse:gateway.methodology')}
+      </a>
+    </div>
+  );
+}
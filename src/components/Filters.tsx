@@ -2,10 +2,19 @@ import { useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
 import { alternatives, categories } from '../data';
+import { DATA_FORMATS } from '../types';
 import type { SelectedFilters, SortBy, ViewMode } from '../types';
+import { dataFormatLabels } from '../utils/portability';
+import { hasSearchTerms } from '../utils/search';
 
 const pricingKeys = ['free', 'freemium', 'paid'] as const;
 
+// Only formats that at least one alternative documents, in DATA_FORMATS order.
+const formatOptions = {
+  importFormats: DATA_FORMATS.filter((format) => alternatives.some((alternative) => alternative.dataPortability?.import.includes(format))),
+  exportFormats: DATA_FORMATS.filter((format) => alternatives.some((alternative) => alternative.dataPortability?.export.includes(format))),
+};
+
 interface FiltersProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
@@ -18,6 +27,7 @@ interface FiltersProps {
   onViewModeChange: (mode: ViewMode) => void;
   totalCount: number;
   filteredCount: number;
+  hasPriorityProfile?: boolean;
 }
 
 export default function Filters({
@@ -32,6 +42,7 @@ export default function Filters({
   onViewModeChange,
   totalCount,
   filteredCount,
+  hasPriorityProfile = false,
 }: FiltersProps) {
   const [showFilters, setShowFilters] = useState(false);
   const { t } = useTranslation(['browse', 'common', 'data']);
@@ -45,9 +56,12 @@ export default function Filters({
     selectedFilters.category.length > 0 ||
     selectedFilters.country.length > 0 ||
     selectedFilters.pricing.length > 0 ||
-    selectedFilters.openSourceOnly;
+    selectedFilters.openSourceOnly ||
+    selectedFilters.europeanHostingOnly ||
+    selectedFilters.importFormats.length > 0 ||
+    selectedFilters.exportFormats.length > 0;
 
-  const toggleFilter = (type: 'category' | 'country' | 'pricing', value: string) => {
+  const toggleFilter = (type: 'category' | 'country' | 'pricing' | 'importFormats' | 'exportFormats', value: string) => {
     const current = selectedFilters[type] as string[];
     const updated = current.includes(value)
       ? current.filter((currentValue) => currentValue !== value)
@@ -93,7 +107,9 @@ export default function Filters({
               onChange={(event) => onSortChange(event.target.value as SortBy)}
               aria-label={t('browse:filters.sortBy')}
             >
+              {hasSearchTerms(searchTerm) && <option value="relevance">{t('browse:filters.sortRelevance')}</option>}
               <option value="trustScore">{t('browse:filters.sortTrustScore')}</option>
+              {hasPriorityProfile && <option value="personalScore">{t('browse:filters.sortPersonalScore')}</option>}
               <option value="name">{t('browse:filters.sortName')}</option>
               <option value="country">{t('browse:filters.sortCountry')}</option>
               <option value="category">{t('browse:filters.sortCategory')}</option>
@@ -240,7 +256,44 @@ export default function Filters({
                   </span>
                   <span className="filter-label-text">{t('browse:filters.openSourceOnly')}</span>
                 </label>
+
+                <label className="filter-label" title={t('browse:filters.europeanHostingHint')}>
+                  <input
+                    type="checkbox"
+                    className="filter-checkbox"
+                    checked={selectedFilters.europeanHostingOnly}
+                    onChange={() => onFilterChange('europeanHostingOnly', !selectedFilters.europeanHostingOnly)}
+                  />
+                  <span className="filter-checkbox-custom">
+                    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                      <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+                    </svg>
+                  </span>
+                  <span className="filter-label-text">{t('browse:filters.europeanHostingOnly')}</span>
+                </label>
               </div>
+
+              {(['importFormats', 'exportFormats'] as const).map((direction) => (
+                <div key={direction} className="filters-group">
+                  <h4 className="filters-group-title">{t(`browse:filters.${direction}Title`)}</h4>
+                  {formatOptions[direction].map((format) => (
+                    <label key={format} className="filter-label">
+                      <input
+                        type="checkbox"
+                        className="filter-checkbox"
+                        checked={selectedFilters[direction].includes(format)}
+                        onChange={() => toggleFilter(direction, format)}
+                      />
+                      <span className="filter-checkbox-custom">
+                        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                          <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+                        </svg>
+                      </span>
+                      <span className="filter-label-text">{dataFormatLabels[format]}</span>
+                    </label>
+                  ))}
+                </div>
+              ))}
             </div>
           </motion.div>
         )}
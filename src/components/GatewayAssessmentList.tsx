@@ -0,0 +1,60 @@
+import { useTranslation } from 'react-i18next';
+import { decisionMatrixUrl } from '../utils/alternativeDisplay';
+import { getLocalizedGatewayRationale, getTextLanguage } from '../utils/alternativeText';
+import type { GatewayAssessment } from '../types';
+
+interface GatewayAssessmentListProps {
+  assessments: GatewayAssessment[];
+}
+
+export default function GatewayAssessmentList({ assessments }: GatewayAssessmentListProps) {
+  const { t, i18n } = useTranslation('browse');
+  // Assessment dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' });
+
+  return (
+    <div className="gateway-assessment">
+      <p className="alt-detail-text">{t('gateway.intro')}</p>
+      <ul className="gateway-list">
+        {assessments.map((assessment) => (
+          <li key={assessment.criterion} className={`gateway-item gateway-item-${assessment.status}`}>
+            <div className="gateway-item-header">
+              <span className="gateway-code">{assessment.criterion}</span>
+              <span className="gateway-name">{t(`gateway.criteria.${assessment.criterion}`)}</span>
+              <span className="gateway-status">{t(`gateway.status.${assessment.status}`)}</span>
+            </div>
+            <p className="alt-detail-text" lang={getTextLanguage(assessment.localizedRationales, i18n.language)}>
+              {getLocalizedGatewayRationale(assessment, i18n.language)}
+            </p>
+            <div className="gateway-meta">
+              {assessment.sourceUrls.map((url, index) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="alt-detail-source-link"
+                >
+                  {assessment.sourceUrls.length > 1
+                    ? t('gateway.sourceNumbered', { index: index + 1 })
+                    : t('card.reservationSource')}
+                </a>
+              ))}
+              <time className="gateway-date" dateTime={assessment.assessedAt}>
+                {t('gateway.assessedAt', { date: dateFormat.format(new Date(assessment.assessedAt)) })}
+              </time>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <a
+        href={`${decisionMatrixUrl}#gateway-criteria-passfail`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="alt-detail-source-link"
+      >
+        {t('gateway.methodology')}
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { getHighlightRanges } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+export default function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  const ranges = getHighlightRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="search-highlight">{text.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -90,7 +90,7 @@ export default function LandingPage() {
                 return (
                   <Link
                     key={cat.id}
-                    to={`/${lang}/browse?category=${cat.id}`}
+                    to={`/${lang}/category/${cat.id}`}
                     className="landing-category-card"
                   >
                     <span className="landing-category-emoji" aria-hidden="true">
@@ -1,10 +1,12 @@
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
-import { supportedLanguages, languageEndonyms, type SupportedLanguage } from '../i18n';
+import { useTranslation } from 'react-i18next';
+import { supportedLanguages, getLanguageEndonym } from '../i18n';
 
 export default function LanguageSwitcher() {
   const { lang } = useParams<{ lang: string }>();
   const location = useLocation();
   const navigate = useNavigate();
+  const { t } = useTranslation('common');
 
   const switchLanguage = (newLang: string) => {
     if (newLang === lang) return;
@@ -14,17 +16,20 @@ export default function LanguageSwitcher() {
 
   return (
     <div className="language-switcher">
-      {supportedLanguages.map((l) => (
-        <button
-          key={l}
-          className={`lang-button${l === lang ? ' active' : ''}`}
-          onClick={() => switchLanguage(l)}
-          aria-label={languageEndonyms[l as SupportedLanguage]}
-          aria-current={l === lang ? 'true' : undefined}
-        >
-          {l.toUpperCase()}
-        </button>
-      ))}
+      <select
+        value={lang}
+        onChange={(event) => switchLanguage(event.target.value)}
+        aria-label={t('language')}
+      >
+        {supportedLanguages.map((l) => (
+          <option key={l} value={l} lang={l}>
+            {getLanguageEndonym(l)}
+          </option>
+        ))}
+      </select>
+      <svg className="language-switcher-icon" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+        <path d="M7 10l5 5 5-5z"/>
+      </svg>
     </div>
   );
 }
@@ -43,6 +43,7 @@ export default function Layout({ children }: LayoutProps) {
         </MotionLink>
         <nav className="header-nav">
           <Link to={`/${lang}/browse`} className="nav-link">{t('nav.browse')}</Link>
+          <Link to={`/${lang}/migrate`} className="nav-link">{t('nav.migrate')}</Link>
           <LanguageSwitcher />
         </nav>
       </header>
@@ -55,6 +56,15 @@ export default function Layout({ children }: LayoutProps) {
         <div className="footer-content">
           <span className="footer-text">{t('footer.createdBy')}</span>
           <div className="footer-links">
+            <Link to={`/${lang}/denied`} className="footer-link">
+              {t('footer.denied')}
+            </Link>
+            <Link to={`/${lang}/trust-changes`} className="footer-link">
+              {t('footer.trustChanges')}
+            </Link>
+            <Link to={`/${lang}/changes`} className="footer-link">
+              {t('footer.changes')}
+            </Link>
             <a
               href="https://www.patreon.com/themorpheus"
               target="_blank"
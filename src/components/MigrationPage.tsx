@@ -0,0 +1,187 @@
+import { useCallback, useMemo, useState, type FormEvent } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives, categories } from '../data';
+import { listUSVendors, resolveUSVendorComparison } from '../data/usVendors';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { findMigrationTargets } from '../utils/migration';
+import { getTrustBadgeClass } from '../utils/alternativeDisplay';
+
+const listedVendorCounts = new Map<string, number>();
+for (const alternative of alternatives) {
+  for (const vendor of alternative.usVendorComparisons ?? []) {
+    listedVendorCounts.set(vendor.id, (listedVendorCounts.get(vendor.id) ?? 0) + 1);
+  }
+}
+
+// Only vendors with at least one listed alternative are offered as suggestions.
+const suggestedVendors = listUSVendors()
+  .filter((vendor) => listedVendorCounts.has(vendor.id))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const popularVendors = [...suggestedVendors]
+  .sort((a, b) => (listedVendorCounts.get(b.id) ?? 0) - (listedVendorCounts.get(a.id) ?? 0))
+  .slice(0, 8);
+
+export default function MigrationPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation(['browse', 'data']);
+  const [input, setInput] = useState('');
+
+  const targets = useMemo(() => findMigrationTargets(searchParams.getAll('use')), [searchParams]);
+  const selectedVendorIds = new Set(targets.map((target) => target.vendor.id));
+
+  usePageMeta({ title: t('browse:migrate.metaTitle'), description: t('browse:migrate.subtitle') });
+
+  const addProduct = useCallback((product: string) => {
+    const trimmed = product.trim();
+    if (!trimmed) return;
+    const next = new URLSearchParams(searchParams);
+    next.append('use', trimmed);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const removeVendor = useCallback((vendorId: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('use');
+    for (const value of searchParams.getAll('use')) {
+      if (resolveUSVendorComparison(value).id !== vendorId) next.append('use', value);
+    }
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const handleSubmit = useCallback((event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    addProduct(input);
+    setInput('');
+  }, [addProduct, input]);
+
+  return (
+    <div className="migrate-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('browse:migrate.title')}</h1>
+        <p className="browse-subtitle">{t('browse:migrate.subtitle')}</p>
+      </motion.div>
+
+      <form className="migrate-form" onSubmit={handleSubmit}>
+        <label htmlFor="migrate-input" className="sr-only">{t('browse:migrate.inputLabel')}</label>
+        <input
+          id="migrate-input"
+          type="text"
+          className="migrate-input"
+          list="migrate-vendor-suggestions"
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder={t('browse:migrate.placeholder')}
+          autoComplete="off"
+        />
+        <datalist id="migrate-vendor-suggestions">
+          {suggestedVendors.map((vendor) => (
+            <option key={vendor.id} value={vendor.name} />
+          ))}
+        </datalist>
+        <button type="submit" className="alt-card-link alt-card-link-primary" disabled={!input.trim()}>
+          {t('browse:migrate.add')}
+        </button>
+      </form>
+
+      <div className="migrate-popular">
+        <span className="compare-bar-hint">{t('browse:migrate.popular')}</span>
+        {popularVendors.filter((vendor) => !selectedVendorIds.has(vendor.id)).map((vendor) => (
+          <button
+            key={vendor.id}
+            type="button"
+            className="migrate-popular-item"
+            onClick={() => addProduct(vendor.name)}
+          >
+            {vendor.name}
+          </button>
+        ))}
+      </div>
+
+      <p className="compare-bar-hint">
+        {t('browse:migrate.stackAuditHint')}{' '}
+        <Link to={`/${lang}/stack-audit`} className="alt-card-name-link">{t('browse:migrate.stackAuditLink')}</Link>
+      </p>
+
+      {targets.length === 0 ? (
+        <div className="empty-catalogue">
+          <h2>{t('browse:migrate.emptyTitle')}</h2>
+          <p>{t('browse:migrate.emptyDescription')}</p>
+        </div>
+      ) : (
+        targets.map((target) => (
+          <section key={target.vendor.id} className="migrate-target">
+            <header className="migrate-target-header">
+              <h2 className="migrate-target-title">
+                {t('browse:migrate.alternativesTo', { name: target.vendorName })}
+              </h2>
+              {target.vendor.trustScoreStatus === 'ready' && target.vendor.trustScore != null && (
+                <span className={`alt-card-badge ${getTrustBadgeClass(target.vendor.trustScore)}`}>
+                  {t('browse:card.trustScoreLabel', { score: target.vendor.trustScore.toFixed(1) })}
+                </span>
+              )}
+              <button
+                type="button"
+                className="compare-bar-remove"
+                onClick={() => removeVendor(target.vendor.id)}
+                aria-label={t('browse:migrate.remove', { name: target.vendorName })}
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                </svg>
+              </button>
+            </header>
+
+            {target.groups.length === 0 ? (
+              <p className="alt-detail-text">
+                {t('browse:migrate.noMatches', { name: target.vendorName })}{' '}
+                <Link to={`/${lang}/browse?q=${encodeURIComponent(target.input)}`} className="alt-card-name-link">
+                  {t('browse:migrate.searchInstead')}
+                </Link>
+              </p>
+            ) : (
+              target.groups.map((group) => {
+                const category = categories.find((entry) => entry.id === group.categoryId);
+                return (
+                  <div key={group.categoryId} className="migrate-group">
+                    <h3 className="migrate-group-title">
+                      {category && <span className="alt-card-category-emoji">{category.emoji}</span>}
+                      {t(`data:categories.${group.categoryId}.name`)}
+                    </h3>
+                    <ol className="migrate-list">
+                      {group.alternatives.map((alternative) => (
+                        <li key={alternative.id} className="migrate-item">
+                          <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>
+                          <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                            {alternative.name}
+                          </Link>
+                          {alternative.trustScoreStatus === 'ready' && alternative.trustScore != null ? (
+                            <span className={`alt-card-badge ${getTrustBadgeClass(alternative.trustScore)}`}>
+                              {t('browse:card.trustScoreLabel', { score: alternative.trustScore.toFixed(1) })}
+                            </span>
+                          ) : (
+                            <span className="alt-card-badge alt-card-badge-trust-pending">
+                              {t('browse:card.trustScorePending')}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                );
+              })
+            )}
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
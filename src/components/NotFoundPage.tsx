@@ -0,0 +1,23 @@
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { usePageMeta } from '../hooks/usePageMeta';
+
+// Unknown paths below a language prefix; also prerendered as 404.html (see scripts/prerender.mjs).
+export default function NotFoundPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const { t } = useTranslation(['browse']);
+
+  usePageMeta({ title: t('browse:notFound.title'), description: t('browse:notFound.description') });
+
+  return (
+    <div className="alt-page">
+      <div className="empty-catalogue">
+        <h2>{t('browse:notFound.title')}</h2>
+        <p>{t('browse:notFound.description')}</p>
+        <Link to={`/${lang}`} className="alt-card-link alt-card-link-primary">
+          {t('browse:notFound.backToHome')}
+        </Link>
+      </div>
+    </div>
+  );
+}
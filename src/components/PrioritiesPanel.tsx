@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  PRIORITY_COMPONENTS,
+  isDefaultPriorityProfile,
+  maxPriorityWeight,
+  priorityWeightStep,
+} from '../utils/priorities';
+import type { PriorityComponent, PriorityWeights } from '../utils/priorities';
+
+interface PrioritiesPanelProps {
+  weights: PriorityWeights;
+  onChange: (weights: PriorityWeights) => void;
+  onReset: () => void;
+}
+
+export default function PrioritiesPanel({ weights, onChange, onReset }: PrioritiesPanelProps) {
+  const { t } = useTranslation('browse');
+  const [expanded, setExpanded] = useState(false);
+  const isCustom = !isDefaultPriorityProfile(weights);
+
+  const handleWeightChange = (component: PriorityComponent, value: string) => {
+    onChange({ ...weights, [component]: Number(value) });
+  };
+
+  return (
+    <div className="priorities-panel">
+      <div className="priorities-header">
+        <button
+          type="button"
+          className="priorities-toggle"
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+          aria-controls="priorities-section"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M3 17v2h6v-2H3zM3 5v2h10V5H3zm10 16v-2h8v-2h-8v-2h-2v6h2zM7 9v2H3v2h4v2h2V9H7zm14 4v-2H11v2h10zm-6-4h2V7h4V5h-4V3h-2v6z"/>
+          </svg>
+          {t('priorities.title')}
+          {isCustom && <span className="filter-badge" />}
+        </button>
+        {isCustom && (
+          <span className="priorities-active">{t('priorities.active')}</span>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            id="priorities-section"
+            className="priorities-section"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.3, ease: 'easeInOut' }}
+          >
+            <p className="priorities-description">{t('priorities.description')}</p>
+            <div className="priorities-sliders">
+              {PRIORITY_COMPONENTS.map((component) => (
+                <label key={component} className="priorities-slider">
+                  <span className="priorities-slider-label">
+                    {t(`trustBreakdown.${component}`)}
+                    <span className="priorities-slider-value">
+                      {t('priorities.weight', { weight: weights[component] })}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={maxPriorityWeight}
+                    step={priorityWeightStep}
+                    value={weights[component]}
+                    onChange={(event) => handleWeightChange(component, event.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="priorities-footer">
+              <p className="priorities-note">{t('priorities.shareNote')}</p>
+              {isCustom && (
+                <button type="button" className="filters-clear" onClick={onReset}>
+                  {t('priorities.reset')}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useTranslation } from 'react-i18next';
+import { getLocalizedReservationText, getTextLanguage } from '../utils/alternativeText';
+import type { Reservation } from '../types';
+
+interface ReservationListProps {
+  reservations: Reservation[];
+  variant?: 'alternative' | 'us-vendor';
+}
+
+export default function ReservationList({ reservations, variant = 'alternative' }: ReservationListProps) {
+  const { t, i18n } = useTranslation('browse');
+  const isUSVendor = variant === 'us-vendor';
+
+  return (
+    <ul className={isUSVendor ? 'alt-card-us-vendor-reservations' : 'alt-detail-reservations'}>
+      {reservations.map((reservation) => (
+        <li
+          key={reservation.id}
+          className={isUSVendor ? 'alt-card-us-vendor-reservation-item' : 'alt-detail-reservation-item'}
+        >
+          <p
+            className={isUSVendor ? 'alt-card-us-vendor-reservation-text' : 'alt-detail-text'}
+            lang={getTextLanguage(reservation.localizedTexts, i18n.language)}
+          >
+            {getLocalizedReservationText(reservation, i18n.language)}
+          </p>
+          {reservation.sourceUrl && (
+            <a
+              href={reservation.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="alt-detail-source-link"
+            >
+              {t('card.reservationSource')}
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,75 @@
+import { useTranslation } from 'react-i18next';
+import { getLocalizedReservationResolution, getLocalizedReservationText, getTextLanguage } from '../utils/alternativeText';
+import type { Reservation } from '../types';
+
+interface ReservationTimelineProps {
+  reservations: Reservation[];
+}
+
+/** Dated reservations, oldest first. Undated caveats stay in the reservation list only. */
+export default function ReservationTimeline({ reservations }: ReservationTimelineProps) {
+  const { t, i18n } = useTranslation('browse');
+  // Reservation dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' });
+
+  const events = reservations
+    .flatMap((reservation) => {
+      const date = reservation.date ?? reservation.resolvedAt;
+      return date ? [{ reservation, date }] : [];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (events.length === 0) return null;
+
+  return (
+    <>
+      <ol className="reservation-timeline">
+        {events.map(({ reservation, date }) => {
+          const status = reservation.status ?? 'ongoing';
+          const resolution = getLocalizedReservationResolution(reservation, i18n.language);
+
+          return (
+            <li key={reservation.id} className={`reservation-timeline-item reservation-timeline-item-${status}`}>
+              <div className="reservation-timeline-header">
+                <time className="reservation-timeline-date" dateTime={date}>
+                  {dateFormat.format(new Date(date))}
+                </time>
+                <span className={`reservation-timeline-severity reservation-timeline-severity-${reservation.severity}`}>
+                  {t(`severity.${reservation.severity}`)}
+                </span>
+                <span className={`alt-card-badge reservation-timeline-status reservation-timeline-status-${status}`}>
+                  {t(`timeline.status.${status}`)}
+                </span>
+              </div>
+              <p className="alt-detail-text" lang={getTextLanguage(reservation.localizedTexts, i18n.language)}>
+                {getLocalizedReservationText(reservation, i18n.language)}
+              </p>
+              {(resolution || reservation.resolvedAt) && (
+                <p className="reservation-timeline-resolution">
+                  {reservation.resolvedAt && (
+                    <time dateTime={reservation.resolvedAt}>
+                      {t('timeline.closedOn', { date: dateFormat.format(new Date(reservation.resolvedAt)) })}
+                    </time>
+                  )}
+                  {reservation.resolvedAt && resolution && ' · '}
+                  {resolution}
+                </p>
+              )}
+              {reservation.sourceUrl && (
+                <a
+                  href={reservation.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="alt-detail-source-link"
+                >
+                  {t('card.reservationSource')}
+                </a>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <p className="trust-breakdown-note">{t('timeline.decayNote')}</p>
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+import { useCallback, useMemo, useState, type ChangeEvent } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import ReservationList from './ReservationList';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { getTrustBadgeClass } from '../utils/alternativeDisplay';
+import { buildStackAudit, stackAuditToCsv, stackAuditToMarkdown, type StackAuditEntry } from '../utils/stackAudit';
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The inventory stays in component state only: it is never written to the URL or sent anywhere.
+export default function StackAuditPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const { t, i18n } = useTranslation(['browse', 'data']);
+  const [inventory, setInventory] = useState('');
+
+  const entries = useMemo(() => buildStackAudit(inventory), [inventory]);
+  const usVendorCount = entries.filter((entry) => entry.status === 'us-vendor').length;
+  const europeanCount = entries.filter((entry) => entry.status === 'european').length;
+  const unknownCount = entries.length - usVendorCount - europeanCount;
+
+  usePageMeta({ title: t('browse:stackAudit.metaTitle'), description: t('browse:stackAudit.subtitle') });
+
+  const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(setInventory);
+    event.target.value = '';
+  }, []);
+
+  const handleExportMarkdown = useCallback(() => {
+    const translate = (key: string, options?: Record<string, unknown>) => t(`browse:${key}`, options);
+    downloadFile('stack-audit.md', stackAuditToMarkdown(entries, translate, i18n.language), 'text/markdown;charset=utf-8');
+  }, [entries, i18n.language, t]);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile('stack-audit.csv', stackAuditToCsv(entries), 'text/csv;charset=utf-8');
+  }, [entries]);
+
+  const renderStatus = (entry: StackAuditEntry) => {
+    switch (entry.status) {
+      case 'us-vendor':
+        return (
+          <>
+            <span className="compare-value">{entry.vendorName}</span>
+            {entry.vendor?.trustScore != null && (
+              <span className={`alt-card-badge ${getTrustBadgeClass(entry.vendor.trustScore)}`}>
+                {t('browse:card.trustScoreLabel', { score: entry.vendor.trustScore.toFixed(1) })}
+              </span>
+            )}
+          </>
+        );
+      case 'european':
+        return (
+          <span className="stack-audit-status stack-audit-status-european">
+            {t('browse:stackAudit.statusEuropean')}
+            {entry.alternative && (
+              <>
+                {' · '}
+                <Link to={`/${lang}/alternative/${entry.alternative.id}`} className="alt-card-name-link">
+                  {entry.alternative.name}
+                </Link>
+              </>
+            )}
+          </span>
+        );
+      default:
+        return <span className="stack-audit-status">{t('browse:stackAudit.statusUnknown')}</span>;
+    }
+  };
+
+  return (
+    <div className="stack-audit-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('browse:stackAudit.title')}</h1>
+        <p className="browse-subtitle">{t('browse:stackAudit.subtitle')}</p>
+      </motion.div>
+
+      <div className="stack-audit-input">
+        <label htmlFor="stack-audit-inventory" className="alt-page-section-title">
+          {t('browse:stackAudit.inputLabel')}
+        </label>
+        <textarea
+          id="stack-audit-inventory"
+          className="stack-audit-textarea"
+          rows={8}
+          value={inventory}
+          onChange={(event) => setInventory(event.target.value)}
+          placeholder={t('browse:stackAudit.placeholder')}
+          spellCheck={false}
+        />
+        <div className="stack-audit-toolbar">
+          <label className="alt-card-link alt-card-link-secondary stack-audit-file">
+            {t('browse:stackAudit.loadFile')}
+            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" className="sr-only" onChange={handleFileChange} />
+          </label>
+          <span className="compare-bar-hint">{t('browse:stackAudit.privacyNote')}</span>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="stack-audit-toolbar">
+            <span className="audit-summary">
+              {t('browse:stackAudit.summary', {
+                total: entries.length,
+                usVendors: usVendorCount,
+                european: europeanCount,
+                unknown: unknownCount,
+              })}
+            </span>
+            <button type="button" className="alt-card-link alt-card-link-secondary" onClick={handleExportMarkdown}>
+              {t('browse:stackAudit.exportMarkdown')}
+            </button>
+            <button type="button" className="alt-card-link alt-card-link-secondary" onClick={handleExportCsv}>
+              {t('browse:stackAudit.exportCsv')}
+            </button>
+          </div>
+
+          <div className="compare-table-wrap">
+            <table className="compare-table">
+              <thead>
+                <tr>
+                  <th scope="col" className="compare-row-label">{t('browse:stackAudit.input')}</th>
+                  <th scope="col" className="compare-row-label">{t('browse:stackAudit.status')}</th>
+                  <th scope="col" className="compare-row-label">{t('browse:stackAudit.reservations')}</th>
+                  <th scope="col" className="compare-row-label">{t('browse:stackAudit.replacements')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.input}>
+                    <td className="compare-value">{entry.input}</td>
+                    <td className="compare-cell">{renderStatus(entry)}</td>
+                    <td className="compare-cell">
+                      {entry.vendor?.reservations && entry.vendor.reservations.length > 0 ? (
+                        <ReservationList reservations={entry.vendor.reservations} variant="us-vendor" />
+                      ) : (
+                        <span className="compare-subvalue">–</span>
+                      )}
+                    </td>
+                    <td className="compare-cell">
+                      {entry.replacements.length > 0 ? (
+                        <ol className="compare-list">
+                          {entry.replacements.map((alternative) => (
+                            <li key={alternative.id}>
+                              <span className={`fi fi-${alternative.country} alt-detail-meta-flag`}></span>{' '}
+                              <Link to={`/${lang}/alternative/${alternative.id}`} className="alt-card-name-link">
+                                {alternative.name}
+                              </Link>
+                              {alternative.trustScoreStatus === 'ready' && alternative.trustScore != null && (
+                                <span className="compare-subvalue">
+                                  {' '}{t('browse:card.trustScoreLabel', { score: alternative.trustScore.toFixed(1) })}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <span className="compare-subvalue">–</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { alternatives } from '../data';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { getLocalizedTrustChangeReason } from '../utils/alternativeText';
+import { formatScoreDelta, getRecentTrustChanges, trustScoreHistoryStart } from '../utils/trustHistory';
+
+const maxListedChanges = 50;
+
+const recentChanges = getRecentTrustChanges(maxListedChanges);
+const alternativeNames = new Map(alternatives.map((alternative) => [alternative.id, alternative.name]));
+
+export default function TrustChangesPage() {
+  const { lang } = useParams<{ lang: string }>();
+  const { t, i18n } = useTranslation('browse');
+  // History dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' });
+
+  usePageMeta({ title: t('trustChanges.metaTitle'), description: t('trustChanges.subtitle') });
+
+  return (
+    <div className="trust-changes-page">
+      <motion.div
+        className="browse-header"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="browse-title">{t('trustChanges.title')}</h1>
+        <p className="browse-subtitle">{t('trustChanges.subtitle')}</p>
+      </motion.div>
+
+      {recentChanges.length > 0 ? (
+        <ol className="trust-changes-list">
+          {recentChanges.map((entry) => {
+            const { change } = entry;
+            const delta = formatScoreDelta(entry);
+
+            return (
+              <li key={`${change.alternativeId}-${change.date}-${change.score}`} className="trust-changes-item">
+                <div className="trust-history-header">
+                  <time className="trust-history-date" dateTime={change.date}>
+                    {dateFormat.format(new Date(change.date))}
+                  </time>
+                  <Link to={`/${lang}/alternative/${change.alternativeId}`} className="alt-card-name-link">
+                    {alternativeNames.get(change.alternativeId) ?? change.alternativeId}
+                  </Link>
+                  <span className="trust-history-score">
+                    {t('trustChanges.scoreChange', {
+                      from: entry.previousScore?.toFixed(1),
+                      to: change.score.toFixed(1),
+                    })}
+                  </span>
+                  {delta && (
+                    <span className={`trust-history-delta trust-history-delta-${delta.direction}`}>{delta.label}</span>
+                  )}
+                </div>
+                <p className="alt-detail-text">{getLocalizedTrustChangeReason(change, i18n.language)}</p>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="alt-detail-text">
+          {t('trustChanges.empty', {
+            date: trustScoreHistoryStart ? dateFormat.format(new Date(trustScoreHistoryStart)) : '',
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useTranslation } from 'react-i18next';
+import { decisionMatrixUrl } from '../utils/alternativeDisplay';
+import { getLocalizedReservationText } from '../utils/alternativeText';
+import { trustScoreComponentMaximums } from '../utils/trustScore';
+import type { Reservation, TrustScoreBreakdown as TrustScoreBreakdownData } from '../types';
+
+interface TrustScoreBreakdownProps {
+  breakdown: TrustScoreBreakdownData;
+  computedScore?: number;
+  publishedScore?: number;
+  // When given, the effective penalty of each reservation is listed under the penalty row.
+  reservations?: Reservation[];
+}
+
+const positiveComponents = ['jurisdiction', 'openness', 'privacySignals', 'sovereigntyBonus'] as const;
+
+const decisionMatrixAnchors: Record<(typeof positiveComponents)[number] | 'reservationPenalty' | 'usCapApplied', string> = {
+  jurisdiction: 'jurisdiction-0-4-points',
+  openness: 'open-source-level-0-3-points',
+  privacySignals: 'privacy-signals-0-2-points',
+  sovereigntyBonus: 'sovereignty-bonus-0-2-points',
+  reservationPenalty: 'reservation-penalties-deducted-from-score',
+  usCapApplied: 'us-hard-cap',
+};
+
+const maximumTotal = positiveComponents.reduce((sum, component) => sum + trustScoreComponentMaximums[component], 0);
+
+function toPercent(value: number, maximum: number): string {
+  return `${Math.min(100, Math.max(0, (value / maximum) * 100))}%`;
+}
+
+export default function TrustScoreBreakdown({
+  breakdown,
+  computedScore,
+  publishedScore,
+  reservations,
+}: TrustScoreBreakdownProps) {
+  const { t, i18n } = useTranslation('browse');
+  const reservationPenalties = breakdown.reservationPenalties.flatMap((entry) => {
+    const reservation = reservations?.find((candidate) => candidate.id === entry.reservationId);
+    return reservation ? [{ ...entry, reservation }] : [];
+  });
+  const hasOverride = computedScore != null && publishedScore != null && Math.abs(publishedScore - computedScore) >= 0.05;
+
+  const renderDocLink = (component: keyof typeof decisionMatrixAnchors) => (
+    <a
+      href={`${decisionMatrixUrl}#${decisionMatrixAnchors[component]}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="trust-breakdown-doc-link"
+      aria-label={t('trustBreakdown.methodology', { component: t(`trustBreakdown.${component}`) })}
+    >
+      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+        <path d="M11 18h2v-2h-2v2zm1-16C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm0-14c-2.21 0-4 1.79-4 4h2c0-1.1.9-2 2-2s2 .9 2 2c0 2-3 1.75-3 5h2c0-2.25 3-2.5 3-5 0-2.21-1.79-4-4-4z"/>
+      </svg>
+    </a>
+  );
+
+  return (
+    <div className="trust-breakdown">
+      <div
+        className="trust-breakdown-stack"
+        role="img"
+        aria-label={t('trustBreakdown.stackLabel', {
+          earned: positiveComponents.reduce((sum, component) => sum + breakdown[component], 0),
+          maximum: maximumTotal,
+          penalty: breakdown.reservationPenalty,
+        })}
+      >
+        {positiveComponents.map((component) => (
+          <span
+            key={component}
+            className={`trust-breakdown-segment trust-breakdown-segment-${component}`}
+            style={{ width: toPercent(breakdown[component], maximumTotal) }}
+          />
+        ))}
+      </div>
+
+      <dl className="trust-breakdown-list">
+        {positiveComponents.map((component) => (
+          <div key={component} className="trust-breakdown-row">
+            <dt className="trust-breakdown-label">
+              <span className={`trust-breakdown-swatch trust-breakdown-segment-${component}`} aria-hidden="true" />
+              {t(`trustBreakdown.${component}`)}
+              {renderDocLink(component)}
+            </dt>
+            <dd className="trust-breakdown-value">
+              <span className="trust-breakdown-bar" aria-hidden="true">
+                <span
+                  className={`trust-breakdown-bar-fill trust-breakdown-segment-${component}`}
+                  style={{ width: toPercent(breakdown[component], trustScoreComponentMaximums[component]) }}
+                />
+              </span>
+              <span className="trust-breakdown-points">
+                {breakdown[component]} / {trustScoreComponentMaximums[component]}
+              </span>
+            </dd>
+          </div>
+        ))}
+        <div className="trust-breakdown-row">
+          <dt className="trust-breakdown-label">
+            {t('trustBreakdown.reservationPenalty')}
+            {renderDocLink('reservationPenalty')}
+          </dt>
+          <dd className="trust-breakdown-value">
+            <span className="trust-breakdown-bar" aria-hidden="true">
+              <span
+                className="trust-breakdown-bar-fill trust-breakdown-bar-fill-penalty"
+                style={{ width: toPercent(breakdown.reservationPenalty, maximumTotal) }}
+              />
+            </span>
+            <span className="trust-breakdown-points trust-breakdown-points-penalty">
+              {breakdown.reservationPenalty > 0 ? `-${breakdown.reservationPenalty}` : '0'}
+            </span>
+          </dd>
+        </div>
+        {reservationPenalties.length > 0 && (
+          <div className="trust-breakdown-row trust-breakdown-row-reservations">
+            <dt className="trust-breakdown-sublabel">{t('trustBreakdown.perReservation')}</dt>
+            <dd>
+              <ul className="trust-breakdown-reservations">
+                {reservationPenalties.map((entry) => (
+                  <li key={entry.reservationId} className="trust-breakdown-reservation">
+                    <span className="trust-breakdown-reservation-text">
+                      {getLocalizedReservationText(entry.reservation, i18n.language)}
+                    </span>
+                    <span className="trust-breakdown-points trust-breakdown-points-penalty">
+                      {t('trustBreakdown.penaltyOfMax', { penalty: entry.penalty, max: entry.maxPenalty })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </dd>
+          </div>
+        )}
+        {breakdown.usCapApplied && (
+          <div className="trust-breakdown-row">
+            <dt className="trust-breakdown-label">
+              {t('trustBreakdown.usCapApplied')}
+              {renderDocLink('usCapApplied')}
+            </dt>
+            <dd className="trust-breakdown-value">
+              <span className="trust-breakdown-points trust-breakdown-points-penalty">≤ 4</span>
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {computedScore != null && (
+        <p className="trust-breakdown-note">
+          {hasOverride
+            ? t('trustBreakdown.overrideNote', {
+                published: publishedScore?.toFixed(1),
+                computed: computedScore.toFixed(1),
+              })
+            : t('trustBreakdown.formulaResult', { score: computedScore.toFixed(1) })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useTranslation } from 'react-i18next';
+import TrustScoreSparkline from './TrustScoreSparkline';
+import { getLocalizedTrustChangeReason } from '../utils/alternativeText';
+import { formatScoreDelta } from '../utils/trustHistory';
+import type { TrustScoreHistoryEntry } from '../utils/trustHistory';
+
+interface TrustScoreHistoryProps {
+  history: TrustScoreHistoryEntry[];
+}
+
+export default function TrustScoreHistory({ history }: TrustScoreHistoryProps) {
+  const { t, i18n } = useTranslation('browse');
+  // History dates are calendar dates, so format them in UTC to avoid shifting a day.
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, { dateStyle: 'medium', timeZone: 'UTC' });
+  const scores = history.map((entry) => entry.change.score);
+
+  return (
+    <div className="trust-history">
+      <TrustScoreSparkline
+        scores={scores}
+        label={t('scoreHistory.sparklineLabel', { scores: scores.map((score) => score.toFixed(1)).join(', ') })}
+      />
+      <ol className="trust-history-list">
+        {[...history].reverse().map((entry) => {
+          const delta = formatScoreDelta(entry);
+          const reason = getLocalizedTrustChangeReason(entry.change, i18n.language);
+
+          return (
+            <li key={`${entry.change.date}-${entry.change.score}`} className="trust-history-item">
+              <div className="trust-history-header">
+                <time className="trust-history-date" dateTime={entry.change.date}>
+                  {dateFormat.format(new Date(entry.change.date))}
+                </time>
+                <span className="trust-history-score">{entry.change.score.toFixed(1)}</span>
+                {delta && (
+                  <span className={`trust-history-delta trust-history-delta-${delta.direction}`}>{delta.label}</span>
+                )}
+              </div>
+              <p className="alt-detail-text">{reason ?? t('scoreHistory.initial')}</p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
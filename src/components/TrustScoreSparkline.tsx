@@ -0,0 +1,36 @@
+interface TrustScoreSparklineProps {
+  scores: number[];
+  label: string;
+}
+
+const width = 120;
+const height = 32;
+const padding = 3;
+
+export default function TrustScoreSparkline({ scores, label }: TrustScoreSparklineProps) {
+  if (scores.length < 2) return null;
+
+  // Scale to the recorded range (at least one point wide) so small corrections stay visible.
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const range = Math.max(1, max - min);
+  const floor = (min + max) / 2 - range / 2;
+
+  const points = scores.map((score, index) => {
+    const x = padding + (index / (scores.length - 1)) * (width - 2 * padding);
+    const y = height - padding - ((score - floor) / range) * (height - 2 * padding);
+    return [Math.round(x * 10) / 10, Math.round(y * 10) / 10] as const;
+  });
+  const [lastX, lastY] = points[points.length - 1];
+
+  return (
+    <svg className="trust-sparkline" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label}>
+      <polyline
+        className="trust-sparkline-line"
+        points={points.map(([x, y]) => `${x},${y}`).join(' ')}
+        fill="none"
+      />
+      <circle className="trust-sparkline-point" cx={lastX} cy={lastY} r={2.5} />
+    </svg>
+  );
+}
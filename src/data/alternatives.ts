@@ -2,7 +2,13 @@ import type { Alternative, OpenSourceLevel } from '../types';
 import { manualAlternatives } from './manualAlternatives';
 import { researchAlternatives } from './researchAlternatives';
 import { reservationsById, trustScoresById } from './trustOverrides';
+import { gatewayAssessmentsById } from './gatewayAssessments';
+import { dataPortabilityById } from './dataPortability';
+import { catalogueDate } from './catalogueDate';
 import { calculateTrustScore } from '../utils/trustScore';
+import { buildOwnershipReservations } from '../utils/ownership';
+import { buildHostingReservation } from '../utils/hosting';
+import { buildPortabilityReservation } from '../utils/portability';
 import { buildUSVendorComparisons } from './usVendors';
 
 const pricingLikeTagKeys = new Set(['free', 'freemium', 'paid', 'free-and-paid']);
@@ -14,6 +20,9 @@ const opennessTagKeys = new Set([
   'partly-open-source',
   'proprietary',
 ]);
+// Derived from `pricing` and `openSourceLevel` during the merge, so source entries must not list them as tags.
+export const derivedTagKeys = [...pricingLikeTagKeys, ...opennessTagKeys];
+
 const openSourceTagByLevel: Record<OpenSourceLevel, string> = {
   full: 'open-source',
   partial: 'partly-open-source',
@@ -70,7 +79,7 @@ function normalizeReplacesUS(names: string[], category: Alternative['category'])
   });
 }
 
-function mergeCatalogue(): Alternative[] {
+function mergeCatalogue(asOf: Date): Alternative[] {
   const deduped = new Map<string, Alternative>();
 
   for (const alternative of [...manualAlternatives, ...researchAlternatives]) {
@@ -85,7 +94,18 @@ function mergeCatalogue(): Alternative[] {
     const isOpenSource = openSourceLevel !== 'none';
     const tags = [openSourceTagByLevel[openSourceLevel], ...sanitizeTags(alternative.tags)];
     const replacesUS = normalizeReplacesUS(alternative.replacesUS, alternative.category);
-    const reservations = alternative.reservations ?? reservationsById[alternative.id] ?? [];
+    const curatedReservations = alternative.reservations ?? reservationsById[alternative.id] ?? [];
+    const dataPortability = alternative.dataPortability ?? dataPortabilityById[alternative.id];
+    // Foreign majority ownership, US cloud hosting and missing exports always carry the reservations DECISION_MATRIX.md mandates.
+    const hostingReservation = buildHostingReservation(alternative, curatedReservations);
+    const portabilityReservation = buildPortabilityReservation({ dataPortability }, curatedReservations);
+    const reservations = [
+      ...curatedReservations,
+      ...buildOwnershipReservations(alternative, curatedReservations),
+      ...(hostingReservation ? [hostingReservation] : []),
+      ...(portabilityReservation ? [portabilityReservation] : []),
+    ];
+    const gatewayAssessments = alternative.gatewayAssessments ?? gatewayAssessmentsById[alternative.id];
     const computedTrustScore = calculateTrustScore({
       country: alternative.country,
       isOpenSource,
@@ -93,7 +113,7 @@ function mergeCatalogue(): Alternative[] {
       tags,
       selfHostable: alternative.selfHostable,
       reservations,
-    });
+    }, asOf);
     const trustScore = trustScoresById[alternative.id];
     const trustScoreStatus = trustScore != null ? 'ready' as const : 'pending' as const;
 
@@ -105,14 +125,17 @@ function mergeCatalogue(): Alternative[] {
       replacesUS,
       logo: alternative.logo ?? `/logos/${alternative.id}.svg`,
       reservations,
+      gatewayAssessments,
+      dataPortability,
       trustScore,
       usVendorComparisons: buildUSVendorComparisons(replacesUS),
       trustScoreStatus,
-      trustScoreBreakdown: trustScoreStatus === 'pending' ? computedTrustScore.breakdown : undefined,
+      computedTrustScore: computedTrustScore.score,
+      trustScoreBreakdown: computedTrustScore.breakdown,
     };
   });
 
   return merged.sort((a, b) => a.name.localeCompare(b.name));
 }
 
-export const alternatives: Alternative[] = mergeCatalogue();
+export const alternatives: Alternative[] = mergeCatalogue(new Date(catalogueDate));
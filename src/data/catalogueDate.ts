@@ -0,0 +1,4 @@
+// Date the formula scores are calculated for. Reservation decay is measured against it instead of the
+// clock, so a score only changes with the data: the prerendered pages, the hydrating client and the
+// build scripts all agree. Move it forward when reviewing the catalogue.
+export const catalogueDate = '2026-10-18';
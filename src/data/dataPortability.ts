@@ -0,0 +1,55 @@
+import type { DataPortability } from '../types';
+
+// Documented import/export formats per alternative (DECISION_MATRIX.md "Data Portability").
+// Entries without data are neither flagged nor matched by the browse format filters.
+export const dataPortabilityById: Record<string, DataPortability> = {
+  nextcloud: {
+    storesUserData: true,
+    import: ['ics', 'vcard', 'webdav', 'caldav', 'carddav'],
+    export: ['ics', 'vcard', 'webdav', 'caldav', 'carddav'],
+    sourceUrl: 'https://docs.nextcloud.com/server/latest/user_manual/en/groupware/calendar.html',
+  },
+  'proton-mail': {
+    storesUserData: true,
+    import: ['eml', 'mbox', 'ics', 'vcard', 'csv'],
+    export: ['eml', 'ics', 'vcard'],
+  },
+  tuta: {
+    storesUserData: true,
+    import: ['ics', 'vcard', 'eml', 'mbox'],
+    export: ['ics', 'vcard', 'eml'],
+    sourceUrl: 'https://tuta.com/faq',
+  },
+  'mailbox-org': {
+    storesUserData: true,
+    import: ['ics', 'vcard', 'imap', 'caldav', 'carddav'],
+    export: ['ics', 'vcard', 'imap', 'caldav', 'carddav'],
+  },
+  posteo: {
+    storesUserData: true,
+    import: ['ics', 'vcard', 'imap', 'caldav', 'carddav'],
+    export: ['ics', 'vcard', 'imap', 'caldav', 'carddav'],
+  },
+  mastodon: {
+    storesUserData: true,
+    import: ['csv'],
+    export: ['csv', 'json'],
+    sourceUrl: 'https://docs.joinmastodon.org/user/moving/',
+  },
+  bitwarden: {
+    storesUserData: true,
+    import: ['csv', 'json'],
+    export: ['csv', 'json'],
+    sourceUrl: 'https://bitwarden.com/help/export-your-data/',
+  },
+  keepassxc: {
+    storesUserData: false,
+    import: ['csv', 'kdbx'],
+    export: ['csv', 'kdbx'],
+  },
+  libreoffice: {
+    storesUserData: false,
+    import: ['odf', 'ooxml', 'csv'],
+    export: ['odf', 'ooxml', 'csv', 'pdf'],
+  },
+};
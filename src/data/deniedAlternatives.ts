@@ -0,0 +1,94 @@
+import type { DeniedAlternative } from '../types';
+
+// Structured counterpart of DENIED_ALTERNATIVES.md, which keeps the long-form write-ups.
+export const deniedAlternatives: DeniedAlternative[] = [
+  {
+    id: 'cryptostorm',
+    name: 'Cryptostorm',
+    aliases: ['cryptostorm.is', 'Baneki Privacy Computing'],
+    category: 'vpn',
+    outcome: 'denied',
+    decidedAt: '2026-02-16',
+    claimedCountry: 'is',
+    actualCountry: 'ca',
+    failedCriteria: ['G1', 'G8'],
+    summary: 'Claims Icelandic roots but is run by Baneki Privacy Computing Inc. in Vancouver, Canada, and its founder\'s criminal record raises unresolved trust concerns.',
+    localizedSummaries: { de: 'Beruft sich auf isländische Wurzeln, wird aber von der Baneki Privacy Computing Inc. in Vancouver, Kanada, betrieben; die Vorstrafe des Gründers wirft ungeklärte Vertrauensfragen auf.' },
+    reason: 'Despite the Icelandic .is domain, the registered corporate entity is Baneki Privacy Computing Inc. in Vancouver, Canada, a Five Eyes jurisdiction. Founder Douglas Spink was convicted of cocaine smuggling in 2005 and released early after cooperating with investigators, which fuels honeypot suspicions, and the current operators are pseudo-anonymous. privacytools.io removed the service over these concerns and Privacy Guides does not recommend it.',
+    localizedReasons: { de: 'Trotz der isländischen .is-Domain ist die eingetragene Gesellschaft die Baneki Privacy Computing Inc. in Vancouver, Kanada, einem Five-Eyes-Staat. Gründer Douglas Spink wurde 2005 wegen Kokainschmuggels verurteilt und nach Kooperation mit den Ermittlern vorzeitig entlassen, was Honeypot-Verdächtigungen nährt; die heutigen Betreiber treten pseudonym auf. privacytools.io hat den Dienst deshalb entfernt, und Privacy Guides empfiehlt ihn nicht.' },
+    sources: [
+      { label: 'privacytools.io removal — GitHub issue #1098', url: 'https://github.com/privacytools/privacytools.io/issues/1098' },
+      { label: 'Privacy Guides discussion on Cryptostorm', url: 'https://discuss.privacyguides.net/t/why-is-vpn-providers-like-cryptostorm-or-ovpn-not-recommended/13061' },
+      { label: 'ProPrivacy — CryptoStorm VPN Review', url: 'https://proprivacy.com/vpn/review/cryptostorm' },
+      { label: 'Cloudwards — Cryptostorm Review', url: 'https://www.cloudwards.net/cryptostorm-review/' },
+      { label: 'CoolTechZone — Cryptostorm VPN Review', url: 'https://cooltechzone.com/cryptostorm' },
+      { label: 'TechRadar — CryptoStorm VPN Review', url: 'https://www.techradar.com/reviews/cryptostorm' },
+      { label: 'PrivacySharks — CryptoStorm VPN Review', url: 'https://www.privacysharks.com/vpn-reviews/cryptostorm-vpn/' },
+    ],
+    reviewUrl: 'https://github.com/TheMorpheus407/european-alternatives/pull/91',
+  },
+  {
+    id: 'onlyoffice',
+    name: 'ONLYOFFICE',
+    aliases: ['Only Office', 'ONLYOFFICE Docs', 'ONLYOFFICE DocSpace', 'Ascensio System', 'R7-Office'],
+    category: 'office-suite',
+    outcome: 'denied',
+    decidedAt: '2026-02-18',
+    claimedCountry: 'lv',
+    actualCountry: 'ru',
+    failedCriteria: ['G1', 'G7'],
+    summary: 'Developed by Russian-owned NKT (now R7-Office) behind a Latvian subsidiary; revenue from commercial licences falls under EU sanctions against Russia.',
+    localizedSummaries: { de: 'Entwickelt vom russischen Unternehmen NKT (heute R7-Office) hinter einer lettischen Tochterfirma; Umsätze aus kommerziellen Lizenzen fallen unter die EU-Sanktionen gegen Russland.' },
+    reason: 'Ascensio System SIA in Riga was a wholly owned subsidiary of New Communication Technologies (NKT) in Nizhny Novgorod, and the Latvian beneficial ownership register lists Russian citizen Lev Bannov as ultimate beneficial owner. TU Berlin, the University of Mainz and Leibniz University Hannover dropped commercial licences because revenue flows to Russian owners under EU Regulation 833/2014. NKT sells the same codebase as R7-Office to Russian government agencies, and VK acquired a 25% stake in R7-Office in 2025.',
+    localizedReasons: { de: 'Die Ascensio System SIA in Riga war eine hundertprozentige Tochter der New Communication Technologies (NKT) in Nischni Nowgorod; das lettische Register der wirtschaftlich Berechtigten nennt den russischen Staatsbürger Lev Bannov als letztlich Begünstigten. Die TU Berlin, die Universität Mainz und die Leibniz Universität Hannover haben kommerzielle Lizenzen aufgegeben, weil Umsätze gemäß EU-Verordnung 833/2014 an russische Eigentümer fließen. NKT verkauft denselben Code als R7-Office an russische Behörden, und VK hat 2025 25 % an R7-Office übernommen.' },
+    sources: [
+      { label: 'TU Berlin — switches to Collabora Online due to sanctions', url: 'https://www.tu.berlin/en/campusmanagement/news-details/umstellung-tubcloud-auf-collabora-online' },
+      { label: 'University of Mainz — switches to open-source ONLYOFFICE version', url: 'https://www.en-zdv.uni-mainz.de/2023/05/30/software-onlyoffice-will-be-switched-to-the-open-source-version/' },
+      { label: 'Leibniz University Hannover — discontinues ONLYOFFICE', url: 'https://www.luis.uni-hannover.de/en/news/details/news/neues-online-office-paket-an-der-luh' },
+      { label: 'DMS Solutions — cuts off relations with ONLYOFFICE', url: 'https://dms-solutions.co/news/dms-solutions-cuts-off-business-relations-with-onlyoffice-due-to-onlyoffice-close-ties-with-russia/' },
+      { label: 'soft Xpansion — terminates cooperation with Ascensio System SIA', url: 'https://softxpansion.global/resources/prypynyaye-spivpratsyu-z-ascensio-system-sia' },
+      { label: 'FOSS Force — Lyon adopts OnlyOffice: From Russia With Love', url: 'https://fossforce.com/2025/07/lyon-france-adopts-onlyoffice-from-russia-with-love/' },
+      { label: 'VK acquires 25% of R7-Office — Interfax', url: 'https://interfax.com/newsroom/top-stories/110513/' },
+      { label: 'Privacy Guides discussion — claims against ONLYOFFICE', url: 'https://discuss.privacyguides.net/t/serious-claims-made-against-onlyoffice/11644' },
+      { label: 'P7-Office / NKT company profile — TAdviser', url: 'https://tadviser.com/index.php/Company:P7-Office_(formerly_New_Communication_Technologies,_NKT)' },
+      { label: 'Ascensio System SIA — Latvian company register (Lursoft)', url: 'https://company.lursoft.lv/en/ascensio-system/40103265308' },
+      { label: 'BLOMSTEIN — EU sanctions on IT and software compliance', url: 'https://www.blomstein.com/en/news/sanctions-101' },
+    ],
+  },
+  {
+    id: 'startpage',
+    name: 'Startpage',
+    aliases: ['startpage.com', 'Start Page', 'Surfboard Holding'],
+    category: 'search-engine',
+    outcome: 'removed',
+    decidedAt: '2026-02-19',
+    claimedCountry: 'nl',
+    actualCountry: 'us',
+    failedCriteria: ['G1'],
+    summary: 'Majority-owned by US ad-tech company System1, whose CEO is Startpage\'s legally responsible party; its Vanish AI feature routes prompts to US LLM providers.',
+    localizedSummaries: { de: 'Mehrheitlich im Besitz des US-Werbetechnikunternehmens System1, dessen CEO als rechtlich Verantwortlicher für Startpage genannt wird; die KI-Funktion Vanish leitet Eingaben an US-LLM-Anbieter weiter.' },
+    reason: 'Startpage is registered in the Netherlands as Surfboard Holding B.V. but has been majority-owned by System1, a publicly traded US ad-tech company, since 2019. All three pass-through indicators of the Ownership Structure Clause are present: System1\'s CEO is named as legally responsible for Startpage, the Vanish AI feature routes prompts through US-based LLM providers, and monetisation is intertwined with System1\'s advertising business. A legal entity that cannot independently resist compulsion from its US parent is not a genuine European headquarters.',
+    localizedReasons: { de: 'Startpage ist in den Niederlanden als Surfboard Holding B.V. eingetragen, gehört aber seit 2019 mehrheitlich System1, einem börsennotierten US-Werbetechnikunternehmen. Alle drei Durchleitungs-Indikatoren der Eigentümerklausel liegen vor: Der CEO von System1 wird als rechtlich Verantwortlicher für Startpage genannt, die KI-Funktion Vanish leitet Eingaben über US-LLM-Anbieter, und die Monetarisierung ist mit dem Werbegeschäft von System1 verflochten. Eine Gesellschaft, die sich dem Zugriff ihrer US-Mutter nicht eigenständig widersetzen kann, ist kein echter europäischer Hauptsitz.' },
+    sources: [
+      { label: 'Startpage — "Relisted on PrivacyTools" (ownership disclosure)', url: 'https://www.startpage.com/privacy-please/startpage-articles/startpage-relisted-on-privacytools' },
+      { label: 'Startpage — Privacy Policy (Google AdSense disclosure)', url: 'https://www.startpage.com/en/privacy-policy/' },
+      { label: 'Startpage — Vanish Terms (LLM provider disclosure)', url: 'https://www.startpage.com/en/vanish-terms/' },
+      { label: 'Startpage — Support Privacy Policy (Zendesk disclosure)', url: 'https://www.startpage.com/en/support-privacy-policy/' },
+    ],
+  },
+  {
+    id: 'hubitat-elevation',
+    name: 'Hubitat Elevation',
+    aliases: ['Hubitat'],
+    category: 'smart-home',
+    outcome: 'removed',
+    decidedAt: '2026-02-18',
+    actualCountry: 'us',
+    failedCriteria: ['G6'],
+    summary: 'US-based and closed-source; non-European entries must be fully open source.',
+    localizedSummaries: { de: 'Aus den USA und proprietär; nicht-europäische Einträge müssen vollständig quelloffen sein.' },
+    reason: 'Hubitat Elevation is a proprietary smart home hub from a US company. Under the two-tier system, non-European entries must publish client and server code under an OSI-approved license, which Hubitat does not. Home Assistant and openHAB are listed, fully open-source local-first hubs.',
+    localizedReasons: { de: 'Hubitat Elevation ist ein proprietärer Smart-Home-Hub eines US-Unternehmens. Im Zwei-Stufen-System müssen nicht-europäische Einträge Client- und Server-Code unter einer OSI-anerkannten Lizenz veröffentlichen, was Hubitat nicht tut. Home Assistant und openHAB sind gelistete, vollständig quelloffene Local-First-Hubs.' },
+    sources: [],
+  },
+];
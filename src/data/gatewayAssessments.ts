@@ -0,0 +1,298 @@
+import type { GatewayAssessment } from '../types';
+
+// Documented outcome of the DECISION_MATRIX.md gateway criteria (G1–G8) per alternative.
+// `npm run validate:catalogue` fails for any listed alternative without an assessment unless it is
+// in pendingGatewayAssessmentIds below.
+export const gatewayAssessmentsById: Record<string, GatewayAssessment[]> = {
+  nextcloud: [
+    {
+      criterion: 'G1',
+      status: 'pass',
+      rationale: 'Developed and operated by Nextcloud GmbH, an independent company headquartered in Stuttgart, Germany.',
+      localizedRationales: { de: 'Entwickelt und betrieben von der Nextcloud GmbH, einem unabhängigen Unternehmen mit Sitz in Stuttgart.' },
+      sourceUrls: ['https://nextcloud.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G2',
+      status: 'pass',
+      rationale: 'The server and client repositories receive regular releases and security fixes.',
+      localizedRationales: { de: 'Server- und Client-Repositories erhalten regelmäßig Releases und Sicherheitsupdates.' },
+      sourceUrls: ['https://github.com/nextcloud'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G3',
+      status: 'pass',
+      rationale: 'Provides file sync, sharing and collaboration comparable to Google Drive, Dropbox, OneDrive and iCloud.',
+      localizedRationales: { de: 'Bietet Dateisynchronisation, Freigaben und Zusammenarbeit vergleichbar mit Google Drive, Dropbox, OneDrive und iCloud.' },
+      sourceUrls: ['https://nextcloud.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G4',
+      status: 'pass',
+      rationale: 'Independent AGPL-licensed server software that runs on infrastructure chosen by the operator; third-party AI providers are optional and off by default.',
+      localizedRationales: { de: 'Eigenständige AGPL-lizenzierte Serversoftware, die auf vom Betreiber gewählter Infrastruktur läuft; KI-Drittanbieter sind optional und standardmäßig deaktiviert.' },
+      sourceUrls: [
+        'https://github.com/nextcloud',
+        'https://docs.nextcloud.com/server/31/admin_manual/ai/ai_as_a_service.html',
+      ],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G5',
+      status: 'pass',
+      rationale: 'Generally available for self-hosting and through hosting partners.',
+      localizedRationales: { de: 'Allgemein verfügbar zum Selbsthosten und über Hosting-Partner.' },
+      sourceUrls: ['https://nextcloud.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G6',
+      status: 'not-applicable',
+      rationale: 'Tier 1 (Germany): the open-source requirement only applies to non-European entries.',
+      localizedRationales: { de: 'Tier 1 (Deutschland): Die Open-Source-Pflicht gilt nur für nicht-europäische Einträge.' },
+      sourceUrls: [],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G7',
+      status: 'pass',
+      rationale: 'German company with no known ownership or revenue ties to sanctioned jurisdictions.',
+      localizedRationales: { de: 'Deutsches Unternehmen ohne bekannte Eigentums- oder Umsatzverbindungen zu sanktionierten Staaten.' },
+      sourceUrls: ['https://nextcloud.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G8',
+      status: 'pass',
+      rationale: 'No disqualifying conduct by founders or owners; the 2025 lookup-server incident is documented as a reservation instead.',
+      localizedRationales: { de: 'Kein disqualifizierendes Verhalten der Gründer oder Eigentümer; der Lookup-Server-Vorfall von 2025 ist stattdessen als Vorbehalt dokumentiert.' },
+      sourceUrls: ['https://github.com/nextcloud/server/issues/51335'],
+      assessedAt: '2026-10-18',
+    },
+  ],
+  mastodon: [
+    {
+      criterion: 'G1',
+      status: 'pass',
+      rationale: 'Developed by Mastodon gGmbH, a non-profit company founded in Germany and based in Berlin.',
+      localizedRationales: { de: 'Entwickelt von der Mastodon gGmbH, einem in Deutschland gegründeten gemeinnützigen Unternehmen mit Sitz in Berlin.' },
+      sourceUrls: ['https://joinmastodon.org'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G2',
+      status: 'pass',
+      rationale: 'The main repository ships regular feature and security releases.',
+      localizedRationales: { de: 'Das Haupt-Repository veröffentlicht regelmäßig Feature- und Sicherheitsreleases.' },
+      sourceUrls: ['https://github.com/mastodon/mastodon'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G3',
+      status: 'pass',
+      rationale: 'Microblogging and social networking comparable to X/Twitter and Facebook.',
+      localizedRationales: { de: 'Microblogging und soziales Netzwerk vergleichbar mit X/Twitter und Facebook.' },
+      sourceUrls: ['https://joinmastodon.org'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G4',
+      status: 'pass',
+      rationale: 'Independent AGPL-licensed server software federating over the open ActivityPub protocol.',
+      localizedRationales: { de: 'Eigenständige AGPL-lizenzierte Serversoftware, die über das offene ActivityPub-Protokoll föderiert.' },
+      sourceUrls: ['https://github.com/mastodon/mastodon', 'https://docs.joinmastodon.org/user/network/'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G5',
+      status: 'pass',
+      rationale: 'Publicly available on many open instances and for self-hosting.',
+      localizedRationales: { de: 'Öffentlich verfügbar auf vielen offenen Instanzen und zum Selbsthosten.' },
+      sourceUrls: ['https://joinmastodon.org'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G6',
+      status: 'not-applicable',
+      rationale: 'Tier 1 (Germany): the open-source requirement only applies to non-European entries.',
+      localizedRationales: { de: 'Tier 1 (Deutschland): Die Open-Source-Pflicht gilt nur für nicht-europäische Einträge.' },
+      sourceUrls: [],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G7',
+      status: 'pass',
+      rationale: 'Non-profit funded by donations and sponsorships, with no known ties to sanctioned jurisdictions.',
+      localizedRationales: { de: 'Gemeinnützig und über Spenden und Sponsoring finanziert, ohne bekannte Verbindungen zu sanktionierten Staaten.' },
+      sourceUrls: ['https://joinmastodon.org'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G8',
+      status: 'pass',
+      rationale: 'No disqualifying conduct by founders or maintainers; the 2023 mastodon.social misconfiguration is documented as a reservation.',
+      localizedRationales: { de: 'Kein disqualifizierendes Verhalten der Gründer oder Maintainer; die Fehlkonfiguration von mastodon.social 2023 ist als Vorbehalt dokumentiert.' },
+      sourceUrls: ['https://status.mastodon.social/incidents/8k4kq6nh3r18'],
+      assessedAt: '2026-10-18',
+    },
+  ],
+  'proton-mail': [
+    {
+      criterion: 'G1',
+      status: 'pass',
+      rationale: 'Operated by Proton AG, headquartered in Geneva, Switzerland.',
+      localizedRationales: { de: 'Betrieben von der Proton AG mit Sitz in Genf, Schweiz.' },
+      sourceUrls: ['https://proton.me/mail', 'https://proton.me/legal/terms'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G2',
+      status: 'pass',
+      rationale: 'Clients are actively developed in public repositories.',
+      localizedRationales: { de: 'Die Clients werden aktiv in öffentlichen Repositories weiterentwickelt.' },
+      sourceUrls: ['https://github.com/ProtonMail'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G3',
+      status: 'pass',
+      rationale: 'Hosted email comparable to Gmail, Outlook.com and Yahoo Mail.',
+      localizedRationales: { de: 'Gehosteter E-Mail-Dienst vergleichbar mit Gmail, Outlook.com und Yahoo Mail.' },
+      sourceUrls: ['https://proton.me/mail'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G4',
+      status: 'pass',
+      rationale: 'Proton runs its own mail service and encryption stack rather than reselling a US platform.',
+      localizedRationales: { de: 'Proton betreibt einen eigenen Maildienst und Verschlüsselungs-Stack, statt eine US-Plattform weiterzuverkaufen.' },
+      sourceUrls: ['https://proton.me/community/open-source'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G5',
+      status: 'pass',
+      rationale: 'Generally available with free and paid plans.',
+      localizedRationales: { de: 'Allgemein verfügbar mit kostenlosen und kostenpflichtigen Tarifen.' },
+      sourceUrls: ['https://proton.me/mail'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G6',
+      status: 'not-applicable',
+      rationale: 'Tier 1 (Switzerland): the open-source requirement only applies to non-European entries.',
+      localizedRationales: { de: 'Tier 1 (Schweiz): Die Open-Source-Pflicht gilt nur für nicht-europäische Einträge.' },
+      sourceUrls: [],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G7',
+      status: 'pass',
+      rationale: 'Swiss company with no known ownership or revenue ties to sanctioned jurisdictions.',
+      localizedRationales: { de: 'Schweizer Unternehmen ohne bekannte Eigentums- oder Umsatzverbindungen zu sanktionierten Staaten.' },
+      sourceUrls: ['https://proton.me/legal/terms'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G8',
+      status: 'pass',
+      rationale: 'No disqualifying conduct by founders or owners; the 2021 court-ordered IP logging is documented as a reservation.',
+      localizedRationales: { de: 'Kein disqualifizierendes Verhalten der Gründer oder Eigentümer; die gerichtlich angeordnete IP-Protokollierung von 2021 ist als Vorbehalt dokumentiert.' },
+      sourceUrls: ['https://proton.me/blog/climate-activist-arrest'],
+      assessedAt: '2026-10-18',
+    },
+  ],
+  tuta: [
+    {
+      criterion: 'G1',
+      status: 'pass',
+      rationale: 'Developed and operated by Tutao GmbH, headquartered in Hannover, Germany.',
+      localizedRationales: { de: 'Entwickelt und betrieben von der Tutao GmbH mit Sitz in Hannover.' },
+      sourceUrls: ['https://tuta.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G2',
+      status: 'pass',
+      rationale: 'The client repository receives frequent releases.',
+      localizedRationales: { de: 'Das Client-Repository erhält regelmäßig neue Releases.' },
+      sourceUrls: ['https://github.com/tutao/tutanota'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G3',
+      status: 'pass',
+      rationale: 'Encrypted email, calendar and contacts comparable to Gmail, Outlook and Yahoo Mail.',
+      localizedRationales: { de: 'Verschlüsselte E-Mail, Kalender und Kontakte vergleichbar mit Gmail, Outlook und Yahoo Mail.' },
+      sourceUrls: ['https://tuta.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G4',
+      status: 'pass',
+      rationale: 'Tuta runs its own backend and open-source clients; it does not resell a US mail platform.',
+      localizedRationales: { de: 'Tuta betreibt ein eigenes Backend mit quelloffenen Clients und verkauft keine US-Mailplattform weiter.' },
+      sourceUrls: ['https://github.com/orgs/tutao/repositories'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G5',
+      status: 'pass',
+      rationale: 'Generally available with free and paid plans.',
+      localizedRationales: { de: 'Allgemein verfügbar mit kostenlosen und kostenpflichtigen Tarifen.' },
+      sourceUrls: ['https://tuta.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G6',
+      status: 'not-applicable',
+      rationale: 'Tier 1 (Germany): the open-source requirement only applies to non-European entries.',
+      localizedRationales: { de: 'Tier 1 (Deutschland): Die Open-Source-Pflicht gilt nur für nicht-europäische Einträge.' },
+      sourceUrls: [],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G7',
+      status: 'pass',
+      rationale: 'German company with no known ownership or revenue ties to sanctioned jurisdictions.',
+      localizedRationales: { de: 'Deutsches Unternehmen ohne bekannte Eigentums- oder Umsatzverbindungen zu sanktionierten Staaten.' },
+      sourceUrls: ['https://tuta.com'],
+      assessedAt: '2026-10-18',
+    },
+    {
+      criterion: 'G8',
+      status: 'pass',
+      rationale: 'No disqualifying conduct by founders or owners; lawful-interception obligations under German law are documented as a reservation.',
+      localizedRationales: { de: 'Kein disqualifizierendes Verhalten der Gründer oder Eigentümer; Überwachungspflichten nach deutschem Recht sind als Vorbehalt dokumentiert.' },
+      sourceUrls: ['https://tuta.com/blog/transparency-report'],
+      assessedAt: '2026-10-18',
+    },
+  ],
+};
+
+// Alternatives listed before gateway assessments were recorded. The list only shrinks: remove an id in
+// the same change that adds its assessment and lower pendingGatewayAssessmentLimit with it. New
+// alternatives must come with an assessment. The backlog is listed on the /:lang/audit page.
+export const pendingGatewayAssessmentIds: string[] = [
+  '2fas', 'adyen', 'aegis-authenticator', 'airvpn', 'bitwarden', 'black-com', 'black-forest-labs',
+  'briar', 'codeberg', 'collabora-online', 'contabo', 'cromite', 'cryptpad', 'deepl', 'diaspora',
+  'disroot', 'ecosia', 'element', 'em-client', 'euria', 'filen', 'friendica', 'grapheneos',
+  'haiilo', 'helium', 'herewego', 'hetzner', 'heylogin', 'home-assistant', 'homey', 'hostinger',
+  'hugging-face', 'immich', 'infomaniak', 'internxt', 'ionos', 'ivpn', 'jitsi', 'jottacloud',
+  'kdrive', 'keepassxc', 'lemmy', 'libreoffice', 'linux-kernel', 'lumo', 'magic-earth',
+  'mailbox-org', 'mailfence', 'mailu', 'mangopay', 'matomo', 'mistral', 'mollie', 'monnett',
+  'mullvad-browser', 'mullvad-vpn', 'multisafepay', 'netcup', 'nextcloud-docs', 'nordvpn',
+  'ollama', 'olvid', 'opendesk', 'openhab', 'openproject', 'openstreetmap', 'opentalk',
+  'organic-maps', 'osmand', 'ovhcloud', 'papra', 'passbolt', 'payrexx', 'pcloud', 'peertube',
+  'pirsch', 'pixelfed', 'plausible', 'posteo', 'prestashop', 'privacyidea-authenticator',
+  'proton-drive', 'proton-pass', 'proton-vpn', 'qwant', 'raspberry-pi-self-hosting',
+  'safing-portmaster', 'saleor', 'scaleway', 'session', 'shopware', 'simple-analytics', 'simplex',
+  'stability-ai', 'startmail', 'stratum', 'taiga', 'threema', 'thunderbird', 'tresorit',
+  'vaultwarden', 'vikunja', 'vivaldi', 'wero', 'zeitkapsl',
+];
+
+// Validation fails when the pending list holds more ids than this, and asks to lower it once it holds fewer.
+export const pendingGatewayAssessmentLimit = 105;
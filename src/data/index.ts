@@ -1,2 +1,4 @@
 export { alternatives } from './alternatives';
 export { categories } from './categories';
+export { deniedAlternatives } from './deniedAlternatives';
+export { trustScoreHistory } from './trustScoreHistory';
@@ -154,6 +154,11 @@ export const manualAlternatives: Alternative[] = [
     tags: ['hosting', 'cloud', 'iaas', 'vps', 'dedicated-servers', 'gdpr', 'api', 'data-sovereignty'],
     foundedYear: 1997,
     headquartersCity: 'Gunzenhausen',
+    hosting: {
+      providers: [{ name: 'Hetzner', jurisdiction: 'de' }],
+      dataCenterCountries: ['de', 'fi', 'us', 'sg'],
+      encryption: 'none',
+    },
   },
   {
     id: 'openstreetmap',
@@ -173,7 +178,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/openstreetmap',
     pricing: 'free',
     selfHostable: true,
-    tags: ['open-data', 'open-source', 'community-driven', 'navigation', 'privacy', 'self-hosting'],
+    tags: ['open-data', 'community-driven', 'navigation', 'privacy', 'self-hosting'],
     foundedYear: 2004,
     headquartersCity: 'London',
     license: 'ODbL 1.0',
@@ -196,7 +201,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/nextcloud/richdocuments',
     pricing: 'free',
     selfHostable: true,
-    tags: ['office-suite', 'documents', 'collaboration', 'open-source', 'self-hosted', 'gdpr', 'webdav'],
+    tags: ['office-suite', 'documents', 'collaboration', 'self-hosted', 'gdpr', 'webdav'],
     foundedYear: 2016,
     headquartersCity: 'Stuttgart',
     license: 'AGPL-3.0 (Nextcloud apps); MPL-2.0 (Collabora Online upstream)',
@@ -222,6 +227,13 @@ export const manualAlternatives: Alternative[] = [
     tags: ['messaging', 'e2ee', 'privacy', 'encryption', 'phone-numberless', 'identity-verification', 'gdpr'],
     headquartersCity: 'Paris',
     license: 'AGPL-3.0 (clients and server core); paid enterprise modules are not fully included in the public server repo',
+    hosting: {
+      providers: [{ name: 'Amazon Web Services', jurisdiction: 'us' }],
+      dataCenterCountries: [],
+      encryption: 'end-to-end',
+      sourceUrl: 'https://olvid.io/terms/en/',
+      reservationId: 'aws-hosting-jurisdiction-dependency',
+    },
   },
   {
     id: 'thunderbird',
@@ -240,7 +252,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/thunderbird',
     pricing: 'free',
-    tags: ['mail-client', 'open-source', 'local-first', 'local', 'imap', 'pop3', 'smtp', 'privacy', 'outlook'],
+    tags: ['mail-client', 'local-first', 'local', 'imap', 'pop3', 'smtp', 'privacy', 'outlook'],
     foundedYear: 2003,
     headquartersCity: 'MZLA / Mozilla (US)',
     license: 'MPL-2.0',
@@ -268,14 +280,14 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'ai-uses-microsoft-azure',
         text: 'Built-in AI features route data through Microsoft Azure OpenAI, including device identification for license verification. Users concerned about data sovereignty should disable or avoid the AI assistant.',
-        textDe: 'Integrierte KI-Funktionen leiten Daten über Microsoft Azure OpenAI, einschliesslich Geräteidentifikation zur Lizenzüberprüfung. Datenschutzbewusste Nutzer sollten den KI-Assistenten deaktivieren oder meiden.',
+        localizedTexts: { de: 'Integrierte KI-Funktionen leiten Daten über Microsoft Azure OpenAI, einschliesslich Geräteidentifikation zur Lizenzüberprüfung. Datenschutzbewusste Nutzer sollten den KI-Assistenten deaktivieren oder meiden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.emclient.com/privacy-policy',
       },
       {
         id: 'postbox-acquisition-discontinuation',
         text: 'eM Client acquired Postbox Inc. in October 2024 and immediately discontinued the Postbox email client, drawing criticism from its user base.',
-        textDe: 'eM Client übernahm Postbox Inc. im Oktober 2024 und stellte den Postbox-E-Mail-Client umgehend ein, was Kritik der Postbox-Nutzer hervorrief.',
+        localizedTexts: { de: 'eM Client übernahm Postbox Inc. im Oktober 2024 und stellte den Postbox-E-Mail-Client umgehend ein, was Kritik der Postbox-Nutzer hervorrief.' },
         severity: 'minor',
         date: '2024-10-23',
         sourceUrl: 'https://support.postbox-inc.com/hc/en-us/articles/26987964800023-eM-Client-Acquisition-FAQ',
@@ -299,7 +311,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/privacyidea/pi-authenticator',
     pricing: 'free',
-    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'push-authentication', 'open-source', 'android', 'ios'],
+    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'push-authentication', 'android', 'ios'],
     foundedYear: 2014,
     headquartersCity: 'Kassel',
     license: 'Apache-2.0',
@@ -321,7 +333,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/beemdevelopment/Aegis',
     pricing: 'free',
-    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'open-source', 'android', 'encrypted-vault', 'f-droid'],
+    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'android', 'encrypted-vault', 'f-droid'],
     foundedYear: 2019,
     license: 'GPL-3.0',
   },
@@ -343,14 +355,14 @@ export const manualAlternatives: Alternative[] = [
     openSourceAuditUrl: 'https://github.com/twofas/2fas-server',
     sourceCodeUrl: 'https://github.com/twofas',
     pricing: 'free',
-    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'open-source', 'android', 'ios', 'browser-extension'],
+    tags: ['2fa', 'authenticator', 'otp', 'totp', 'hotp', 'android', 'ios', 'browser-extension'],
     headquartersCity: 'Gliwice',
     license: 'GPL-3.0 (code); graphics separately licensed',
     reservations: [
       {
         id: 'us-legal-entity',
         text: 'Operated by dual entities: 2FAS Sp. z o.o. (Poland) and 2FAS Inc. (Henderson, Nevada, USA). The US entity appears as the App Store publisher.',
-        textDe: 'Betrieb durch zwei Gesellschaften: 2FAS Sp. z o.o. (Polen) und 2FAS Inc. (Henderson, Nevada, USA). Die US-Gesellschaft tritt als App-Store-Herausgeber auf.',
+        localizedTexts: { de: 'Betrieb durch zwei Gesellschaften: 2FAS Sp. z o.o. (Polen) und 2FAS Inc. (Henderson, Nevada, USA). Die US-Gesellschaft tritt als App-Store-Herausgeber auf.' },
         severity: 'major',
         sourceUrl: 'https://2fas.com/privacy-policy/',
       },
@@ -394,7 +406,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/raspberrypi',
     pricing: 'paid',
     selfHostable: true,
-    tags: ['hosting', 'self-hosting', 'home-lab', 'arm', 'open-source'],
+    tags: ['hosting', 'self-hosting', 'home-lab', 'arm'],
     license: 'Mixed open-source software with proprietary firmware/components',
   },
   {
@@ -509,7 +521,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/home-assistant/core',
     pricing: 'freemium',
     selfHostable: true,
-    tags: ['smart-home', 'home-automation', 'open-source', 'local-first', 'local', 'self-hosting'],
+    tags: ['smart-home', 'home-automation', 'local-first', 'local', 'self-hosting'],
     license: 'Apache-2.0',
   },
   {
@@ -569,7 +581,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/openhab/openhab-core',
     pricing: 'free',
     selfHostable: true,
-    tags: ['smart-home', 'home-automation', 'open-source', 'self-hosted', 'local-control', 'local'],
+    tags: ['smart-home', 'home-automation', 'self-hosted', 'local-control', 'local'],
     license: 'EPL-2.0',
   },
   {
@@ -596,7 +608,7 @@ export const manualAlternatives: Alternative[] = [
     ],
     pricing: 'free',
     selfHostable: true,
-    tags: ['desktop-os', 'operating-system', 'kernel', 'open-source', 'self-hosting', 'lts', 'security'],
+    tags: ['desktop-os', 'operating-system', 'kernel', 'self-hosting', 'lts', 'security'],
     foundedYear: 1991,
     headquartersCity: 'Global upstream community',
     license: 'GPL-2.0-only',
@@ -639,7 +651,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://gitlab.opencode.de/bmi/opendesk',
     pricing: 'freemium',
     selfHostable: true,
-    tags: ['office-suite', 'collaboration', 'digital-sovereignty', 'open-source', 'self-hosted', 'gdpr', 'public-administration'],
+    tags: ['office-suite', 'collaboration', 'digital-sovereignty', 'self-hosted', 'gdpr', 'public-administration'],
     foundedYear: 2023,
     headquartersCity: 'Bochum',
     license: 'Apache-2.0 (openDesk integration); component licenses vary (AGPL, MPL, etc.)',
@@ -647,7 +659,7 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'public-administration-focus',
         text: 'openDesk is primarily designed for public administration. The SaaS offering requires stating an organization (minimum 500 users), though a free community edition is available for self-hosting and "private person" can be selected as organization type.',
-        textDe: 'openDesk ist primär für die öffentliche Verwaltung konzipiert. Das SaaS-Angebot erfordert die Angabe einer Organisation (mindestens 500 Nutzer), wobei eine kostenlose Community-Edition zum Self-Hosting verfügbar ist und "Privatperson" als Organisationstyp gewählt werden kann.',
+        localizedTexts: { de: 'openDesk ist primär für die öffentliche Verwaltung konzipiert. Das SaaS-Angebot erfordert die Angabe einer Organisation (mindestens 500 Nutzer), wobei eine kostenlose Community-Edition zum Self-Hosting verfügbar ist und "Privatperson" als Organisationstyp gewählt werden kann.' },
         severity: 'minor',
         sourceUrl: 'https://www.opendesk.eu/en',
       },
@@ -694,7 +706,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/jitsi/jitsi-meet',
     pricing: 'free',
     selfHostable: true,
-    tags: ['meeting-software', 'videoconferencing', 'webrtc', 'open-source', 'self-hosting', 'e2ee', 'encryption'],
+    tags: ['meeting-software', 'videoconferencing', 'webrtc', 'self-hosting', 'e2ee', 'encryption'],
     headquartersCity: 'Strasbourg',
     license: 'Apache-2.0',
   },
@@ -746,7 +758,7 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'maintainer-employed-by-bitwarden',
         text: 'One of the active maintainers is employed by Bitwarden, Inc., a US-based company. Vaultwarden remains an independent open-source project, but the employment relationship could theoretically influence development direction.',
-        textDe: 'Einer der aktiven Maintainer ist bei Bitwarden, Inc., einem US-amerikanischen Unternehmen, angestellt. Vaultwarden bleibt ein unabhängiges Open-Source-Projekt, jedoch könnte das Beschäftigungsverhältnis theoretisch die Entwicklungsrichtung beeinflussen.',
+        localizedTexts: { de: 'Einer der aktiven Maintainer ist bei Bitwarden, Inc., einem US-amerikanischen Unternehmen, angestellt. Vaultwarden bleibt ein unabhängiges Open-Source-Projekt, jedoch könnte das Beschäftigungsverhältnis theoretisch die Entwicklungsrichtung beeinflussen.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/dani-garcia/vaultwarden#readme',
       },
@@ -792,7 +804,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/immich-app/immich',
     pricing: 'free',
     selfHostable: true,
-    tags: ['media-management', 'photo-management', 'video-management', 'open-source', 'self-hosting', 'ai-powered'],
+    tags: ['media-management', 'photo-management', 'video-management', 'self-hosting', 'ai-powered'],
     headquartersCity: 'Austin',
     license: 'AGPL-3.0',
   },
@@ -813,7 +825,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/stratumauth/app',
     pricing: 'free',
-    tags: ['2fa', 'authenticator', 'open-source', 'local-app', 'local', 'wearos'],
+    tags: ['2fa', 'authenticator', 'local-app', 'local', 'wearos'],
     headquartersCity: 'Brest',
     license: 'GPL-3.0',
   },
@@ -901,21 +913,21 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'proprietary-no-audit',
         text: 'Fully proprietary and closed-source with no published independent security audit. Encryption claims (AES-GCM-256, RSA-OAEP-4096) cannot be independently verified.',
-        textDe: 'Vollständig proprietär und Closed-Source ohne veröffentlichtes unabhängiges Sicherheitsaudit. Verschlüsselungsangaben (AES-GCM-256, RSA-OAEP-4096) können nicht unabhängig verifiziert werden.',
+        localizedTexts: { de: 'Vollständig proprietär und Closed-Source ohne veröffentlichtes unabhängiges Sicherheitsaudit. Verschlüsselungsangaben (AES-GCM-256, RSA-OAEP-4096) können nicht unabhängig verifiziert werden.' },
         severity: 'major' as const,
         sourceUrl: 'https://discuss.privacyguides.net/t/encrypted-mail-black-com/21327',
       },
       {
         id: 'no-pgp-support',
         text: 'Does not support PGP/GPG, limiting interoperability with other encrypted email ecosystems.',
-        textDe: 'Keine PGP/GPG-Unterstützung, was die Interoperabilität mit anderen verschlüsselten E-Mail-Systemen einschränkt.',
+        localizedTexts: { de: 'Keine PGP/GPG-Unterstützung, was die Interoperabilität mit anderen verschlüsselten E-Mail-Systemen einschränkt.' },
         severity: 'moderate' as const,
         sourceUrl: 'https://discuss.privacyguides.net/t/encrypted-mail-black-com/21327',
       },
       {
         id: 'founder-sec-cftc-regulatory-history',
         text: 'Founder Patrick Brunner was subject to SEC and CFTC civil enforcement actions in 2018 for operating an unregistered crypto trading platform (1Broker). This was a regulatory compliance case (not fraud): no anti-fraud charges were filed, no criminal conviction occurred, and all customer funds were returned. Total civil settlement was approximately $990,000.',
-        textDe: 'Gründer Patrick Brunner war 2018 Gegenstand ziviler SEC- und CFTC-Durchsetzungsmassnahmen wegen Betrieb einer nicht registrierten Krypto-Handelsplattform (1Broker). Es handelte sich um einen Regulierungsverstoss (kein Betrug): keine Betrugsanklage, keine strafrechtliche Verurteilung, alle Kundengelder wurden zurückgegeben. Zivilrechtliche Gesamtvereinbarung ca. 990.000 USD.',
+        localizedTexts: { de: 'Gründer Patrick Brunner war 2018 Gegenstand ziviler SEC- und CFTC-Durchsetzungsmassnahmen wegen Betrieb einer nicht registrierten Krypto-Handelsplattform (1Broker). Es handelte sich um einen Regulierungsverstoss (kein Betrug): keine Betrugsanklage, keine strafrechtliche Verurteilung, alle Kundengelder wurden zurückgegeben. Zivilrechtliche Gesamtvereinbarung ca. 990.000 USD.' },
         severity: 'moderate' as const,
         sourceUrl: 'https://www.sec.gov/newsroom/press-releases/2018-218',
       },
@@ -939,7 +951,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://github.com/papra-hq/papra',
     pricing: 'free',
     selfHostable: true,
-    tags: ['docker', 'self-hosted', 'document-archiving', 'open-source', 'privacy'],
+    tags: ['docker', 'self-hosted', 'document-archiving', 'privacy'],
     headquartersCity: 'Lyon',
     license: 'AGPL-3.0',
   },
@@ -963,11 +975,22 @@ export const manualAlternatives: Alternative[] = [
     tags: ['hosting', 'cloud', 'vps', 'dedicated-servers', 'gdpr', 'object-storage'],
     foundedYear: 2003,
     headquartersCity: 'Munich',
+    ownership: [
+      {
+        entity: 'KKR',
+        jurisdiction: 'us',
+        stake: 'majority',
+        entanglement: 'passive-financial',
+        since: '2022-06-08',
+        sourceUrl: 'https://media.kkr.com/rss-feed/news-release?news_id=6e034e18-6db9-4f06-b777-6ebda65de47d&type=1',
+        reservationId: 'kkr-majority-ownership',
+      },
+    ],
     reservations: [
       {
         id: 'kkr-majority-ownership',
         text: 'Contabo has been majority-owned by KKR, a US-based private equity firm, since 2022. While the company remains operationally German (GmbH, Munich HQ), ultimate financial control rests with a US entity.',
-        textDe: 'Contabo befindet sich seit 2022 mehrheitlich im Besitz von KKR, einer US-amerikanischen Private-Equity-Gesellschaft. Obwohl das Unternehmen operativ deutsch bleibt (GmbH, Hauptsitz München), liegt die finanzielle Kontrolle bei einem US-Unternehmen.',
+        localizedTexts: { de: 'Contabo befindet sich seit 2022 mehrheitlich im Besitz von KKR, einer US-amerikanischen Private-Equity-Gesellschaft. Obwohl das Unternehmen operativ deutsch bleibt (GmbH, Hauptsitz München), liegt die finanzielle Kontrolle bei einem US-Unternehmen.' },
         severity: 'major',
         date: '2022-06-08',
         sourceUrl: 'https://media.kkr.com/rss-feed/news-release?news_id=6e034e18-6db9-4f06-b777-6ebda65de47d&type=1',
@@ -992,7 +1015,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceAuditUrl: 'https://internxt.com/open-source',
     sourceCodeUrl: 'https://github.com/internxt',
     pricing: 'freemium',
-    tags: ['cloud-storage', 'encryption', 'privacy', 'gdpr', 'zero-knowledge', 'e2ee', 'post-quantum', 'open-source'],
+    tags: ['cloud-storage', 'encryption', 'privacy', 'gdpr', 'zero-knowledge', 'e2ee', 'post-quantum'],
     foundedYear: 2020,
     headquartersCity: 'Valencia',
     license: 'AGPL-3.0 (clients & server); MIT (SDK, desktop app)',
@@ -1000,14 +1023,14 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'webdav-cli-removal-2025',
         text: 'In February 2025 Internxt removed CLI, WebDAV, and Rclone access from legacy Premium Lifetime plan subscribers, requiring an upgrade to the Ultimate plan. After community backlash the features were partially restored, but native Rclone remains gated behind the highest tier.',
-        textDe: 'Im Februar 2025 entfernte Internxt CLI-, WebDAV- und Rclone-Zugang für Legacy-Premium-Lifetime-Abonnenten und verlangte ein Upgrade auf den Ultimate-Plan. Nach Community-Protest wurden die Funktionen teilweise wiederhergestellt, nativer Rclone-Zugang bleibt aber hinter der höchsten Stufe.',
+        localizedTexts: { de: 'Im Februar 2025 entfernte Internxt CLI-, WebDAV- und Rclone-Zugang für Legacy-Premium-Lifetime-Abonnenten und verlangte ein Upgrade auf den Ultimate-Plan. Nach Community-Protest wurden die Funktionen teilweise wiederhergestellt, nativer Rclone-Zugang bleibt aber hinter der höchsten Stufe.' },
         severity: 'moderate',
         date: '2025-02-01',
       },
       {
         id: 'low-transfer-speeds',
         text: 'Independent benchmarks (Cloudwards, EXPERTE) consistently rank Internxt near the bottom for upload and download speeds among cloud storage providers.',
-        textDe: 'Unabhängige Benchmarks (Cloudwards, EXPERTE) stufen Internxt bei Upload- und Download-Geschwindigkeiten durchgehend im unteren Bereich unter Cloud-Speicher-Anbietern ein.',
+        localizedTexts: { de: 'Unabhängige Benchmarks (Cloudwards, EXPERTE) stufen Internxt bei Upload- und Download-Geschwindigkeiten durchgehend im unteren Bereich unter Cloud-Speicher-Anbietern ein.' },
         severity: 'moderate',
       },
     ],
@@ -1031,17 +1054,22 @@ export const manualAlternatives: Alternative[] = [
     tags: ['cloud-storage', 'backup', 'privacy', 'gdpr', 'renewable-energy', 'sustainability', 'unlimited-storage', 'norwegian-hosted'],
     foundedYear: 2008,
     headquartersCity: 'Oslo',
+    hosting: {
+      providers: [{ name: 'Jottacloud', jurisdiction: 'no' }],
+      dataCenterCountries: ['no'],
+      encryption: 'provider-managed-keys',
+    },
     reservations: [
       {
         id: 'no-e2e-encryption',
         text: 'Jottacloud manages all encryption keys server-side (AES-256 at rest, TLS in transit) and does not support end-to-end or zero-knowledge encryption. The provider can technically access stored files.',
-        textDe: 'Jottacloud verwaltet alle Verschlüsselungsschlüssel serverseitig (AES-256 im Ruhezustand, TLS bei der Übertragung) und unterstützt keine Ende-zu-Ende- oder Zero-Knowledge-Verschlüsselung. Der Anbieter kann technisch auf gespeicherte Dateien zugreifen.',
+        localizedTexts: { de: 'Jottacloud verwaltet alle Verschlüsselungsschlüssel serverseitig (AES-256 im Ruhezustand, TLS bei der Übertragung) und unterstützt keine Ende-zu-Ende- oder Zero-Knowledge-Verschlüsselung. Der Anbieter kann technisch auf gespeicherte Dateien zugreifen.' },
         severity: 'major',
       },
       {
         id: 'telenor-joint-venture-2025',
         text: 'Since April 2025 Jottacloud is co-owned 50/50 by Hawk Infinity Software and Telenor Amp (investment arm of Norwegian state-majority telco Telenor). Founding CEO Roland Rabben remains in charge.',
-        textDe: 'Seit April 2025 gehört Jottacloud je zur Hälfte Hawk Infinity Software und Telenor Amp (Investmentarm des staatlich mehrheitlich norwegischen Telekommunikationsunternehmens Telenor). Gründer-CEO Roland Rabben bleibt in der Führung.',
+        localizedTexts: { de: 'Seit April 2025 gehört Jottacloud je zur Hälfte Hawk Infinity Software und Telenor Amp (Investmentarm des staatlich mehrheitlich norwegischen Telekommunikationsunternehmens Telenor). Gründer-CEO Roland Rabben bleibt in der Führung.' },
         severity: 'moderate',
         date: '2025-04-30',
         sourceUrl: 'https://www.globenewswire.com/news-release/2025/03/19/3045533/0/en/Jottacloud-and-Telenor-Software-Lab-Merge-to-Build-a-Strong-Norwegian-Challenger-in-Cloud-Storage.html',
@@ -1049,7 +1077,7 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'unlimited-throttling',
         text: 'The "unlimited" Personal plan significantly throttles upload speeds after 5 TB of stored data, with further slowdowns as usage grows.',
-        textDe: 'Der "unbegrenzte" Personal-Plan drosselt die Upload-Geschwindigkeit nach 5 TB gespeicherter Daten erheblich, mit weiterer Verlangsamung bei steigender Nutzung.',
+        localizedTexts: { de: 'Der "unbegrenzte" Personal-Plan drosselt die Upload-Geschwindigkeit nach 5 TB gespeicherter Daten erheblich, mit weiterer Verlangsamung bei steigender Nutzung.' },
         severity: 'minor',
       },
     ],
@@ -1070,7 +1098,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/GrapheneOS',
     pricing: 'free',
-    tags: ['operating-system', 'mobile', 'android', 'security', 'privacy', 'open-source'],
+    tags: ['operating-system', 'mobile', 'android', 'security', 'privacy'],
     foundedYear: 2014,
     headquartersCity: 'Toronto',
     license: 'MIT, Apache-2.0',
@@ -1098,13 +1126,13 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'closed-source-no-audit',
         text: 'heylogin is fully closed-source despite the founders\' strong open-source backgrounds (OpenKeychain, K-9 Mail). No independent third-party security audit has been publicly disclosed. Security claims rely on the published whitepaper and ISO 27001 certification.',
-        textDe: 'heylogin ist vollständig Closed Source, trotz der starken Open-Source-Hintergründe der Gründer (OpenKeychain, K-9 Mail). Es wurde kein unabhängiges Sicherheitsaudit öffentlich bekanntgegeben. Sicherheitsaussagen stützen sich auf das veröffentlichte Whitepaper und die ISO-27001-Zertifizierung.',
+        localizedTexts: { de: 'heylogin ist vollständig Closed Source, trotz der starken Open-Source-Hintergründe der Gründer (OpenKeychain, K-9 Mail). Es wurde kein unabhängiges Sicherheitsaudit öffentlich bekanntgegeben. Sicherheitsaussagen stützen sich auf das veröffentlichte Whitepaper und die ISO-27001-Zertifizierung.' },
         severity: 'moderate',
       },
       {
         id: 'smartphone-dependency',
         text: 'Requires a paired smartphone to function. If the phone is lost or damaged, recovery options are limited.',
-        textDe: 'Erfordert ein gekoppeltes Smartphone zur Nutzung. Bei Verlust oder Beschädigung des Telefons sind die Wiederherstellungsoptionen eingeschränkt.',
+        localizedTexts: { de: 'Erfordert ein gekoppeltes Smartphone zur Nutzung. Bei Verlust oder Beschädigung des Telefons sind die Wiederherstellungsoptionen eingeschränkt.' },
         severity: 'minor',
       },
     ],
@@ -1128,6 +1156,11 @@ export const manualAlternatives: Alternative[] = [
     tags: ['hosting', 'cloud', 'vps', 'dedicated-servers', 'gdpr', 'iso-27001', 'green-energy'],
     foundedYear: 2002,
     headquartersCity: 'Karlsruhe',
+    hosting: {
+      providers: [{ name: 'netcup', jurisdiction: 'de' }],
+      dataCenterCountries: ['de', 'at'],
+      encryption: 'none',
+    },
   },
   {
     id: 'safing-portmaster',
@@ -1146,7 +1179,7 @@ export const manualAlternatives: Alternative[] = [
     openSourceLevel: 'full',
     sourceCodeUrl: 'https://github.com/safing/portmaster',
     pricing: 'freemium',
-    tags: ['firewall', 'network-monitor', 'privacy', 'open-source', 'dns', 'tracker-blocking'],
+    tags: ['firewall', 'network-monitor', 'privacy', 'dns', 'tracker-blocking'],
     foundedYear: 2017,
     headquartersCity: 'Brunn am Gebirge',
     license: 'GPL-3.0',
@@ -1154,7 +1187,7 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'ivpn-acquisition-2024',
         text: 'Safing was acquired by IVPN (Gibraltar-registered VPN provider) in December 2024. The original founders stepped back to advisory roles. Products remain open source and the Austrian company registration is unchanged, but operational control has shifted to IVPN.',
-        textDe: 'Safing wurde im Dezember 2024 von IVPN (in Gibraltar registrierter VPN-Anbieter) übernommen. Die ursprünglichen Gründer wechselten in beratende Rollen. Die Produkte bleiben quelloffen und die österreichische Firmenregistrierung besteht fort, doch die operative Kontrolle liegt nun bei IVPN.',
+        localizedTexts: { de: 'Safing wurde im Dezember 2024 von IVPN (in Gibraltar registrierter VPN-Anbieter) übernommen. Die ursprünglichen Gründer wechselten in beratende Rollen. Die Produkte bleiben quelloffen und die österreichische Firmenregistrierung besteht fort, doch die operative Kontrolle liegt nun bei IVPN.' },
         severity: 'moderate',
         date: '2024-12-03',
         sourceUrl: 'https://safing.io/blog/2024/12/03/a-new-chapter-begins/',
@@ -1206,7 +1239,7 @@ export const manualAlternatives: Alternative[] = [
       {
         id: 'australian-origin-2024-relocation',
         text: 'Session was originally developed in Australia by the Oxen Privacy Tech Foundation. It relocated to Switzerland (Zug) in November 2024 after police pressure. The development team may still be largely Australian-based.',
-        textDe: 'Session wurde ursprünglich in Australien von der Oxen Privacy Tech Foundation entwickelt. Nach Druck durch Strafverfolgungsbehörden wurde das Projekt im November 2024 in die Schweiz (Zug) verlegt. Das Entwicklungsteam könnte weiterhin grösstenteils in Australien ansässig sein.',
+        localizedTexts: { de: 'Session wurde ursprünglich in Australien von der Oxen Privacy Tech Foundation entwickelt. Nach Druck durch Strafverfolgungsbehörden wurde das Projekt im November 2024 in die Schweiz (Zug) verlegt. Das Entwicklungsteam könnte weiterhin grösstenteils in Australien ansässig sein.' },
         severity: 'minor',
         date: '2024-11-01',
         sourceUrl: 'https://getsession.org/blog/introducing-the-session-technology-foundation',
@@ -1254,7 +1287,7 @@ export const manualAlternatives: Alternative[] = [
     sourceCodeUrl: 'https://gitlab.opencode.de/opentalk',
     pricing: 'freemium',
     selfHostable: true,
-    tags: ['meeting-software', 'videoconferencing', 'webrtc', 'open-source', 'self-hosting', 'saas', 'streaming', 'privacy', 'data-sovereignty', 'gdpr', 'enterprise'],
+    tags: ['meeting-software', 'videoconferencing', 'webrtc', 'self-hosting', 'saas', 'streaming', 'privacy', 'data-sovereignty', 'gdpr', 'enterprise'],
     foundedYear: 2021,
     headquartersCity: 'Berlin',
     license: 'EUPL-1.2',
@@ -24,8 +24,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/AirVPN/repositories",
     "tags": [
       "vpn",
-      "paid",
-      "open-source",
       "privacy",
       "encryption",
       "expressvpn"
@@ -56,8 +54,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "password-manager",
-      "freemium",
-      "open-source",
       "encryption",
       "hosting",
       "lastpass",
@@ -90,8 +86,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/black-forest-labs/flux",
     "tags": [
       "ai-ml",
-      "freemium",
-      "open-source",
       "openai-dall-e",
       "google-imagen"
     ],
@@ -120,8 +114,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "office-suite",
-      "freemium",
-      "open-source",
       "cloud",
       "browser",
       "google-workspace",
@@ -152,8 +144,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "office-suite",
-      "freemium",
-      "open-source",
       "encryption",
       "zero-knowledge",
       "browser",
@@ -184,7 +174,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "ai-ml",
-      "freemium",
       "google-translate",
       "aws-translate"
     ],
@@ -211,8 +200,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "social-media",
-      "free",
-      "open-source",
       "privacy",
       "facebook"
     ],
@@ -241,9 +228,7 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "email",
-      "free",
       "privacy",
-      "open-source",
       "gmail",
       "outlook"
     ],
@@ -251,38 +236,6 @@ export const researchAlternatives: Alternative[] = [
     "headquartersCity": "Amsterdam",
     "license": "uses FOSS"
   },
-  {
-    "id": "element",
-    "name": "Element",
-    "category": "messaging",
-    "country": "gb",
-    "replacesUS": [
-      "Slack",
-      "Discord",
-      "WhatsApp"
-    ],
-    "pricing": "freemium",
-    "selfHostable": true,
-    "website": "https://element.io",
-    "description": "Flagship client for the decentralized Matrix protocol, enabling federated real-time messaging, voice, and video across organizations. Element clients are licensed under Apache 2.0, while the main Matrix homeserver (Synapse) is AGPLv3 to enforce reciprocal contributions for hosted forks.",
-    "localizedDescriptions": {
-      "de": "Vorzeige-Client für das dezentrale Matrix-Protokoll, der föderiertes Echtzeit-Messaging, Sprach- und Videoanrufe über Organisationsgrenzen hinweg ermöglicht. Element wird von Regierungen und der NATO genutzt und erlaubt Self-Hosting oder verwaltete Server bei voller Datenhoheit."
-    },
-    "isOpenSource": true,
-    "openSourceLevel": "full",
-    "tags": [
-      "messaging",
-      "freemium",
-      "open-source",
-      "federated",
-      "slack",
-      "discord"
-    ],
-    "foundedYear": 2017,
-    "headquartersCity": "London",
-    "sourceCodeUrl": "https://github.com/element-hq",
-    "license": "Apache-2.0 (Element clients); AGPL-3.0 (Matrix Synapse server)"
-  },
   {
     "id": "filen",
     "name": "Filen",
@@ -305,8 +258,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/FilenCloudDienste/repositories",
     "tags": [
       "cloud-storage",
-      "freemium",
-      "open-source",
       "privacy",
       "encryption",
       "zero-knowledge",
@@ -338,8 +289,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "social-media",
-      "free",
-      "open-source",
       "federated",
       "facebook",
       "linkedin"
@@ -349,35 +298,6 @@ export const researchAlternatives: Alternative[] = [
     "sourceCodeUrl": "https://github.com/friendica/friendica",
     "license": "AGPL-3.0"
   },
-  {
-    "id": "hetzner",
-    "name": "Hetzner",
-    "category": "hosting",
-    "country": "de",
-    "replacesUS": [
-      "AWS",
-      "Google Cloud",
-      "Azure",
-      "Cloudflare"
-    ],
-    "pricing": "paid",
-    "website": "https://www.hetzner.com",
-    "description": "German cloud and dedicated hosting provider renowned for unbeatable price-to-performance ratios, transparent billing with no hidden fees, and ISO 27001-certified data centers in Germany, Finland, and the US.",
-    "localizedDescriptions": {
-      "de": "Deutscher Cloud- und Hosting-Anbieter, bekannt für sein unschlagbares Preis-Leistungs-Verhältnis, transparente Abrechnung ohne versteckte Kosten und ISO-27001-zertifizierte Rechenzentren in Deutschland, Finnland und den USA."
-    },
-    "isOpenSource": false,
-    "openSourceLevel": "none",
-    "tags": [
-      "hosting",
-      "paid",
-      "cloud",
-      "aws",
-      "google-cloud"
-    ],
-    "foundedYear": 1997,
-    "headquartersCity": "Gunzenhausen"
-  },
   {
     "id": "hostinger",
     "name": "Hostinger",
@@ -399,7 +319,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "hosting",
-      "paid",
       "gdpr",
       "cloud",
       "email",
@@ -430,8 +349,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/huggingface/repositories",
     "tags": [
       "ai-ml",
-      "freemium",
-      "open-source",
       "openai",
       "google-ai"
     ],
@@ -460,7 +377,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "hosting",
-      "paid",
       "gdpr",
       "cloud",
       "email",
@@ -492,8 +408,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/Infomaniak/repositories",
     "tags": [
       "cloud-storage",
-      "freemium",
-      "open-source",
       "gdpr",
       "cloud",
       "office-suite",
@@ -526,7 +440,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "hosting",
-      "paid",
       "gdpr",
       "cloud",
       "aws",
@@ -555,8 +468,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://www.ivpn.net/blog/ivpn-applications-are-now-open-source/",
     "tags": [
       "vpn",
-      "paid",
-      "open-source",
       "privacy",
       "payments",
       "expressvpn"
@@ -587,8 +498,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "password-manager",
-      "free",
-      "open-source",
       "privacy",
       "encryption",
       "cloud",
@@ -620,8 +529,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "social-media",
-      "free",
-      "open-source",
       "federated",
       "reddit",
       "facebook-groups"
@@ -651,8 +558,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "office-suite",
-      "free",
-      "open-source",
       "microsoft-office",
       "google-workspace"
     ],
@@ -681,7 +586,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "maps",
-      "freemium",
       "privacy",
       "google-maps",
       "apple-maps"
@@ -709,9 +613,7 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "email",
-      "paid",
       "privacy",
-      "open-source",
       "cloud",
       "gmail",
       "outlook"
@@ -739,7 +641,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "email",
-      "freemium",
       "privacy",
       "encryption",
       "office-suite",
@@ -769,8 +670,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "social-media",
-      "free",
-      "open-source",
       "federated",
       "activitypub",
       "x-twitter",
@@ -803,8 +702,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://matomo.org/faq/general/faq_22573/",
     "tags": [
       "analytics",
-      "freemium",
-      "open-source",
       "cloud",
       "maps",
       "hosting",
@@ -868,8 +765,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "browser",
-      "free",
-      "open-source",
       "privacy",
       "vpn",
       "project-management",
@@ -900,8 +795,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/mullvad/repositories",
     "tags": [
       "vpn",
-      "paid",
-      "open-source",
       "privacy",
       "email",
       "expressvpn"
@@ -933,8 +826,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "cloud-storage",
-      "free",
-      "open-source",
       "self-hosted",
       "cloud",
       "office-suite",
@@ -965,11 +856,9 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/NordSecurity/nordvpn-linux",
     "tags": [
       "vpn",
-      "paid",
       "privacy",
       "no-logs",
       "wireguard",
-      "partial-open-source",
       "expressvpn"
     ],
     "foundedYear": 2012,
@@ -998,8 +887,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "ai-ml",
-      "freemium",
-      "open-source",
       "cloud",
       "openai-api",
       "google-ai"
@@ -1032,8 +919,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://www.openproject.org/docs/enterprise-guide/enterprise-on-premises-guide/enterprise-on-premises-faq/",
     "tags": [
       "project-management",
-      "freemium",
-      "open-source",
       "jira",
       "asana"
     ],
@@ -1061,8 +946,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "maps",
-      "free",
-      "open-source",
       "privacy",
       "google-maps",
       "apple-maps"
@@ -1092,8 +975,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "maps",
-      "freemium",
-      "open-source",
       "google-maps",
       "apple-maps"
     ],
@@ -1122,7 +1003,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "hosting",
-      "paid",
       "cloud",
       "aws",
       "google-cloud"
@@ -1152,8 +1032,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://www.passbolt.com/pricing/pro",
     "tags": [
       "password-manager",
-      "freemium",
-      "open-source",
       "encryption",
       "self-hosted",
       "cloud",
@@ -1186,7 +1064,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "cloud-storage",
-      "freemium",
       "encryption",
       "zero-knowledge",
       "cloud",
@@ -1217,8 +1094,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "video-hosting",
-      "free",
-      "open-source",
       "hosting",
       "youtube",
       "vimeo"
@@ -1248,8 +1123,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/pirsch-analytics/repositories",
     "tags": [
       "analytics",
-      "paid",
-      "open-source",
       "privacy",
       "gdpr",
       "google-analytics",
@@ -1280,8 +1153,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "social-media",
-      "free",
-      "open-source",
       "federated",
       "instagram",
       "facebook"
@@ -1313,8 +1184,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://plausible.io/blog/open-source-licenses",
     "tags": [
       "analytics",
-      "paid",
-      "open-source",
       "privacy",
       "self-hosted",
       "gdpr",
@@ -1347,7 +1216,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "email",
-      "paid",
       "encryption",
       "gmail",
       "outlook"
@@ -1376,8 +1244,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "ecommerce",
-      "freemium",
-      "open-source",
       "self-hosted",
       "shopify",
       "amazon"
@@ -1409,8 +1275,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://github.com/orgs/ProtonDriveApps/repositories",
     "tags": [
       "cloud-storage",
-      "freemium",
-      "open-source",
       "privacy",
       "encryption",
       "cloud",
@@ -1443,8 +1307,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://proton.me/community/open-source",
     "tags": [
       "email",
-      "freemium",
-      "open-source",
       "privacy",
       "encryption",
       "gmail",
@@ -1476,8 +1338,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://proton.me/community/open-source",
     "tags": [
       "password-manager",
-      "freemium",
-      "open-source",
       "privacy",
       "encryption",
       "vpn",
@@ -1508,8 +1368,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://proton.me/community/open-source",
     "tags": [
       "vpn",
-      "freemium",
-      "open-source",
       "privacy",
       "expressvpn"
     ],
@@ -1539,8 +1397,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://docs.saleor.io/overview/why-saleor/open-source",
     "tags": [
       "ecommerce",
-      "freemium",
-      "open-source",
       "shopify"
     ],
     "foundedYear": 2020,
@@ -1569,7 +1425,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "hosting",
-      "freemium",
       "cloud",
       "aws",
       "google-cloud",
@@ -1599,8 +1454,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://www.shopware.com/en/pricing/",
     "tags": [
       "ecommerce",
-      "freemium",
-      "open-source",
       "hosting",
       "shopify",
       "amazon"
@@ -1629,7 +1482,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "analytics",
-      "paid",
       "privacy",
       "gdpr",
       "google-analytics",
@@ -1660,8 +1512,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://stability.ai/license",
     "tags": [
       "ai-ml",
-      "freemium",
-      "open-source",
       "cloud",
       "openai-dall-e",
       "google-imagen"
@@ -1691,7 +1541,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "none",
     "tags": [
       "email",
-      "paid",
       "privacy",
       "encryption",
       "gmail",
@@ -1721,8 +1570,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "project-management",
-      "freemium",
-      "open-source",
       "jira",
       "asana"
     ],
@@ -1751,8 +1598,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://threema.ch/en/open-source",
     "tags": [
       "messaging",
-      "paid",
-      "open-source",
       "encryption",
       "email",
       "whatsapp",
@@ -1784,8 +1629,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceLevel": "full",
     "tags": [
       "project-management",
-      "free",
-      "open-source",
       "privacy",
       "trello",
       "asana"
@@ -1815,7 +1658,6 @@ export const researchAlternatives: Alternative[] = [
     "openSourceAuditUrl": "https://vivaldi.com/source/",
     "tags": [
       "browser",
-      "free",
       "email",
       "google-chrome",
       "safari"
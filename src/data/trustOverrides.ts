@@ -65,7 +65,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ddos-availability-incident-2025',
       text: 'Adyen reported a multi-wave DDoS attack on April 21-22, 2025 that degraded payment processing and related EU services.',
-      textDe: 'Adyen meldete am 21.-22. April 2025 einen mehrwelligen DDoS-Angriff, der die Zahlungsabwicklung und weitere EU-Dienste beeinträchtigte.',
+      localizedTexts: { de: 'Adyen meldete am 21.-22. April 2025 einen mehrwelligen DDoS-Angriff, der die Zahlungsabwicklung und weitere EU-Dienste beeinträchtigte.' },
       severity: 'major',
       date: '2025-04-21',
       sourceUrl: 'https://www.adyen.com/knowledge-hub/mitigating-a-ddos-april-2025',
@@ -73,42 +73,42 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'dropin-analytics-enabled-by-default',
       text: 'Drop-in and Components analytics collection is enabled by default and Adyen states the collected usage data is stored for two years.',
-      textDe: 'Die Analytics-Erhebung in Drop-in und Components ist standardmässig aktiviert und laut Adyen werden die erfassten Nutzungsdaten zwei Jahre gespeichert.',
+      localizedTexts: { de: 'Die Analytics-Erhebung in Drop-in und Components ist standardmässig aktiviert und laut Adyen werden die erfassten Nutzungsdaten zwei Jahre gespeichert.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.adyen.com/online-payments/analytics-and-data-tracking/',
     },
     {
       id: 'risk-data-collection-default-on',
       text: 'Web checkout risk data collection is enabled by default, and Adyen recommends collecting shopper activity outside the checkout page for fraud detection.',
-      textDe: 'Die Risk-Datenerhebung im Web-Checkout ist standardmässig aktiv, und Adyen empfiehlt zusätzlich die Erfassung von Shopper-Aktivität ausserhalb der Checkout-Seite zur Betrugserkennung.',
+      localizedTexts: { de: 'Die Risk-Datenerhebung im Web-Checkout ist standardmässig aktiv, und Adyen empfiehlt zusätzlich die Erfassung von Shopper-Aktivität ausserhalb der Checkout-Seite zur Betrugserkennung.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.adyen.com/risk-management/fraud-data-collection',
     },
     {
       id: 'platform-wide-ml-data-usage',
       text: 'Adyen Protect documentation states machine-learning models use platform-wide/global transaction data for fraud decisioning.',
-      textDe: 'Die Protect-Dokumentation von Adyen nennt, dass Machine-Learning-Modelle plattformweite bzw. globale Transaktionsdaten für Fraud-Entscheidungen nutzen.',
+      localizedTexts: { de: 'Die Protect-Dokumentation von Adyen nennt, dass Machine-Learning-Modelle plattformweite bzw. globale Transaktionsdaten für Fraud-Entscheidungen nutzen.' },
       severity: 'moderate',
       sourceUrl: 'https://help.adyen.com/en_US/knowledge/risk/protect/how-does-protect-work',
     },
     {
       id: 'no-public-bug-bounty-program',
       text: 'Adyen runs a responsible disclosure process but states that it currently does not offer a public bug bounty program.',
-      textDe: 'Adyen betreibt Responsible Disclosure, gibt jedoch an, derzeit kein öffentliches Bug-Bounty-Programm anzubieten.',
+      localizedTexts: { de: 'Adyen betreibt Responsible Disclosure, gibt jedoch an, derzeit kein öffentliches Bug-Bounty-Programm anzubieten.' },
       severity: 'moderate',
       sourceUrl: 'https://help.adyen.com/en_US/knowledge/security/product-security/how-do-i-disclose-a-security-issue',
     },
     {
       id: 'mpl-reserve-and-withholding-exposure',
       text: 'Terms allow Adyen to set and adjust MPL reserve levels and withhold funds from settlement based on risk exposure and operational liabilities.',
-      textDe: 'Die AGB erlauben Adyen, MPL-Reserve-Level festzulegen bzw. anzupassen und Mittel aus Settlements anhand von Risiko- und Haftungsexposition zurückzuhalten.',
+      localizedTexts: { de: 'Die AGB erlauben Adyen, MPL-Reserve-Level festzulegen bzw. anzupassen und Mittel aus Settlements anhand von Risiko- und Haftungsexposition zurückzuhalten.' },
       severity: 'moderate',
       sourceUrl: 'https://www.adyen.com/en_GB/legal/adyen-terms-and-conditions',
     },
     {
       id: 'contract-change-and-termination-friction',
       text: 'Terms permit unilateral updates with 30 days notice and generally require two months notice for convenience termination, which can limit rapid contract exit.',
-      textDe: 'Die AGB erlauben einseitige Änderungen mit 30 Tagen Vorankündigung und verlangen für ordentliche Kündigung grundsätzlich zwei Monate Frist, was einen schnellen Vertragsausstieg erschweren kann.',
+      localizedTexts: { de: 'Die AGB erlauben einseitige Änderungen mit 30 Tagen Vorankündigung und verlangen für ordentliche Kündigung grundsätzlich zwei Monate Frist, was einen schnellen Vertragsausstieg erschweren kann.' },
       severity: 'moderate',
       sourceUrl: 'https://www.adyen.com/en_GB/legal/adyen-terms-and-conditions',
     },
@@ -117,56 +117,56 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'flux-dev-non-commercial-restriction',
       text: 'FLUX.1 [dev] weights are non-commercial; commercial production use requires separate licensing.',
-      textDe: 'FLUX.1-[dev]-Gewichte sind nicht kommerziell nutzbar; für die kommerzielle Produktivnutzung ist eine separate Lizenz nötig.',
+      localizedTexts: { de: 'FLUX.1-[dev]-Gewichte sind nicht kommerziell nutzbar; für die kommerzielle Produktivnutzung ist eine separate Lizenz nötig.' },
       severity: 'major',
       sourceUrl: 'https://huggingface.co/black-forest-labs/FLUX.1-dev/blob/main/LICENSE.md',
     },
     {
       id: 'api-input-output-training-license',
       text: 'FLUX API terms grant a perpetual, irrevocable, sublicensable license to use customer input and output, including model training and improvement.',
-      textDe: 'Die FLUX-API-Bedingungen geben eine dauerhafte, unwiderrufliche und unterlizenzierbare Lizenz auf Kunden-Input und -Output, einschliesslich Modelltraining und -verbesserung.',
+      localizedTexts: { de: 'Die FLUX-API-Bedingungen geben eine dauerhafte, unwiderrufliche und unterlizenzierbare Lizenz auf Kunden-Input und -Output, einschliesslich Modelltraining und -verbesserung.' },
       severity: 'major',
       sourceUrl: 'https://bfl.ai/legal/flux-api-service-terms',
     },
     {
       id: 'privacy-policy-training-and-cross-border-transfer',
       text: 'The privacy policy states that prompts, image files, and outputs may be used to train/improve services and may be transferred outside the collection country.',
-      textDe: 'Die Datenschutzerklärung sagt, dass Prompts, Bilddateien und Outputs zur Verbesserung bzw. zum Training genutzt und ausserhalb des Erhebungslandes verarbeitet werden können.',
+      localizedTexts: { de: 'Die Datenschutzerklärung sagt, dass Prompts, Bilddateien und Outputs zur Verbesserung bzw. zum Training genutzt und ausserhalb des Erhebungslandes verarbeitet werden können.' },
       severity: 'major',
       sourceUrl: 'https://bfl.ai/legal/privacy-policy',
     },
     {
       id: 'output-competition-restriction',
       text: 'Terms restrict using generated output to train, distill, or fine-tune competing AI models.',
-      textDe: 'Die Bedingungen untersagen, generierten Output zum Trainieren, Distillieren oder Fine-Tuning konkurrierender KI-Modelle zu nutzen.',
+      localizedTexts: { de: 'Die Bedingungen untersagen, generierten Output zum Trainieren, Distillieren oder Fine-Tuning konkurrierender KI-Modelle zu nutzen.' },
       severity: 'moderate',
       sourceUrl: 'https://bfl.ai/legal/terms-of-service',
     },
     {
       id: 'unilateral-api-modification-and-blocking',
       text: 'API terms allow unilateral model/specification changes and permit temporary or permanent blocking for perceived rate-limit circumvention.',
-      textDe: 'Die API-Bedingungen erlauben einseitige Änderungen an Modellen/Spezifikationen und temporäre oder dauerhafte Sperren bei vermuteter Rate-Limit-Umgehung.',
+      localizedTexts: { de: 'Die API-Bedingungen erlauben einseitige Änderungen an Modellen/Spezifikationen und temporäre oder dauerhafte Sperren bei vermuteter Rate-Limit-Umgehung.' },
       severity: 'moderate',
       sourceUrl: 'https://bfl.ai/legal/flux-api-service-terms',
     },
     {
       id: 'arbitration-and-class-waiver',
       text: 'Website terms require arbitration and include class-action waiver language (with a limited opt-out window).',
-      textDe: 'Die Website-Bedingungen enthalten eine Schiedsklausel und einen Verzicht auf Sammelklagen (mit begrenztem Opt-out-Fenster).',
+      localizedTexts: { de: 'Die Website-Bedingungen enthalten eine Schiedsklausel und einen Verzicht auf Sammelklagen (mit begrenztem Opt-out-Fenster).' },
       severity: 'moderate',
       sourceUrl: 'https://bfl.ai/legal/terms-of-service',
     },
     {
       id: 'security-disclosure-maturity-gap',
       text: 'The main FLUX GitHub repository currently shows no SECURITY.md policy and no published security advisories.',
-      textDe: 'Das zentrale FLUX-GitHub-Repository zeigt derzeit keine SECURITY.md-Policy und keine veröffentlichten Security-Advisories.',
+      localizedTexts: { de: 'Das zentrale FLUX-GitHub-Repository zeigt derzeit keine SECURITY.md-Policy und keine veröffentlichten Security-Advisories.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/black-forest-labs/flux/security',
     },
     {
       id: 'finetuning-api-deprecated-no-migration-path',
       text: 'Release notes announced finetuning API deprecation with no migration path, creating integration and continuity risk.',
-      textDe: 'Die Release Notes kündigten die Abschaltung der Finetuning-API ohne Migrationspfad an, was Integrations- und Kontinuitätsrisiken erzeugt.',
+      localizedTexts: { de: 'Die Release Notes kündigten die Abschaltung der Finetuning-API ohne Migrationspfad an, was Integrations- und Kontinuitätsrisiken erzeugt.' },
       severity: 'moderate',
       date: '2025-10-31',
       sourceUrl: 'https://docs.bfl.ai/release-notes',
@@ -174,7 +174,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'recent-operational-incidents-2025-2026',
       text: 'Status history shows multiple incidents in late 2025 and January 2026 despite current operational status.',
-      textDe: 'Die Status-Historie zeigt mehrere Vorfälle Ende 2025 und im Januar 2026 trotz aktuell grüner Betriebsanzeige.',
+      localizedTexts: { de: 'Die Status-Historie zeigt mehrere Vorfälle Ende 2025 und im Januar 2026 trotz aktuell grüner Betriebsanzeige.' },
       severity: 'minor',
       date: '2026-01-12',
       sourceUrl: 'https://status.bfl.ml/history',
@@ -184,7 +184,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'pricing-shift-2026',
       text: 'Premium and Families plans were repriced in January 2026, increasing renewal costs for many subscribers.',
-      textDe: 'Premium- und Familienpläne wurden im Januar 2026 neu bepreist, was die Verlängerungskosten für viele Abonnenten erhöht hat.',
+      localizedTexts: { de: 'Premium- und Familienpläne wurden im Januar 2026 neu bepreist, was die Verlängerungskosten für viele Abonnenten erhöht hat.' },
       severity: 'moderate',
       date: '2026-01-20',
       sourceUrl: 'https://community.bitwarden.com/t/bitwarden-launches-enhanced-premium-plan/93006',
@@ -192,7 +192,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'sdk-license-incident-2024',
       text: 'Desktop licensing controversy in October 2024; clients were later adjusted after community pushback.',
-      textDe: 'Lizenzkontroverse beim Desktop-Client im Oktober 2024; später wurden die Clients nach Community-Kritik angepasst.',
+      localizedTexts: { de: 'Lizenzkontroverse beim Desktop-Client im Oktober 2024; später wurden die Clients nach Community-Kritik angepasst.' },
       severity: 'minor',
       date: '2024-10-01',
       sourceUrl: 'https://github.com/bitwarden/clients/issues/11611',
@@ -202,42 +202,42 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'free-tier-training-usage',
       text: 'DeepL documents that free-tier text may be used for model improvement, while Pro/API and Enterprise paths provide stronger no-training commitments.',
-      textDe: 'DeepL dokumentiert, dass Texte aus dem Free-Tier zur Modellverbesserung genutzt werden können, während Pro/API- und Enterprise-Pfade stärkere No-Training-Zusagen bieten.',
+      localizedTexts: { de: 'DeepL dokumentiert, dass Texte aus dem Free-Tier zur Modellverbesserung genutzt werden können, während Pro/API- und Enterprise-Pfade stärkere No-Training-Zusagen bieten.' },
       severity: 'moderate',
       sourceUrl: 'https://www.deepl.com/en/pro-data-security/',
     },
     {
       id: 'assurance-artifacts-gated-on-request',
       text: 'Key assurance artifacts, including newer SOC 2 and recertification details, are listed in the trust center but are primarily available on request.',
-      textDe: 'Wichtige Assurance-Artefakte, einschliesslich neuerer SOC-2- und Rezertifizierungsdetails, sind im Trust Center gelistet, aber primär nur auf Anfrage verfügbar.',
+      localizedTexts: { de: 'Wichtige Assurance-Artefakte, einschliesslich neuerer SOC-2- und Rezertifizierungsdetails, sind im Trust Center gelistet, aber primär nur auf Anfrage verfügbar.' },
       severity: 'moderate',
       sourceUrl: 'https://trust.deepl.com/',
     },
     {
       id: 'public-disclosure-channel-no-reward-program',
       text: 'DeepL publishes a responsible-disclosure channel via security.txt, but no public reward-based bug-bounty program is documented there.',
-      textDe: 'DeepL veröffentlicht einen Responsible-Disclosure-Kanal über security.txt, dort ist jedoch kein öffentliches, prämienbasiertes Bug-Bounty-Programm dokumentiert.',
+      localizedTexts: { de: 'DeepL veröffentlicht einen Responsible-Disclosure-Kanal über security.txt, dort ist jedoch kein öffentliches, prämienbasiertes Bug-Bounty-Programm dokumentiert.' },
       severity: 'minor',
       sourceUrl: 'https://www.deepl.com/.well-known/security.txt',
     },
     {
       id: 'wordpress-plugin-cve-ecosystem-risk',
       text: 'Public CVE records for third-party WordPress plugins integrating the DeepL API show API-key and request-security risks outside DeepL core service boundaries.',
-      textDe: 'Öffentliche CVE-Einträge zu Drittanbieter-WordPress-Plugins mit DeepL-API-Integration zeigen API-Key- und Request-Sicherheitsrisiken ausserhalb des DeepL-Core-Services.',
+      localizedTexts: { de: 'Öffentliche CVE-Einträge zu Drittanbieter-WordPress-Plugins mit DeepL-API-Integration zeigen API-Key- und Request-Sicherheitsrisiken ausserhalb des DeepL-Core-Services.' },
       severity: 'moderate',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2023-46620',
     },
     {
       id: 'wordpress-plugin-csrf-history',
       text: 'A separate CVE in the same plugin ecosystem highlights CSRF-class integration risk, so plugin lifecycle and hardening remain customer responsibilities.',
-      textDe: 'Ein weiterer CVE im selben Plugin-Ökosystem zeigt CSRF-Klassenrisiken, daher bleiben Plugin-Lifecycle und Härtung in Kundenverantwortung.',
+      localizedTexts: { de: 'Ein weiterer CVE im selben Plugin-Ökosystem zeigt CSRF-Klassenrisiken, daher bleiben Plugin-Lifecycle und Härtung in Kundenverantwortung.' },
       severity: 'moderate',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2022-3691',
     },
     {
       id: 'seat-and-addon-pricing-complexity',
       text: 'DeepL Pro terms define single-user licensing and add-on constructs, which can create pricing and packaging complexity as teams scale.',
-      textDe: 'Die DeepL-Pro-AGB definieren Single-User-Lizenzierung und Add-on-Strukturen, was mit wachsender Teamnutzung Preis- und Packaging-Komplexität erzeugen kann.',
+      localizedTexts: { de: 'Die DeepL-Pro-AGB definieren Single-User-Lizenzierung und Add-on-Strukturen, was mit wachsender Teamnutzung Preis- und Packaging-Komplexität erzeugen kann.' },
       severity: 'moderate',
       sourceUrl: 'https://www.deepl.com/en/pro-license',
     },
@@ -246,28 +246,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'instance-client-code-trust-assumption',
       text: 'CryptPad security depends on trusting the chosen instance to serve the same client code published upstream.',
-      textDe: 'Die Sicherheit von CryptPad hängt davon ab, der gewählten Instanz zu vertrauen, dass sie denselben Client-Code wie upstream ausliefert.',
+      localizedTexts: { de: 'Die Sicherheit von CryptPad hängt davon ab, der gewählten Instanz zu vertrauen, dass sie denselben Client-Code wie upstream ausliefert.' },
       severity: 'major',
       sourceUrl: 'https://docs.cryptpad.org/en/user_guide/security.html#trust-assumptions',
     },
     {
       id: 'metadata-not-fully-hidden',
       text: 'The selected CryptPad instance can still see connection metadata such as IP address and user agent.',
-      textDe: 'Die gewählte CryptPad-Instanz kann weiterhin Verbindungs-Metadaten wie IP-Adresse und User-Agent sehen.',
+      localizedTexts: { de: 'Die gewählte CryptPad-Instanz kann weiterhin Verbindungs-Metadaten wie IP-Adresse und User-Agent sehen.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.cryptpad.org/en/user_guide/security.html#trust-assumptions',
     },
     {
       id: 'shared-link-interception-risk',
       text: 'If a document link is shared over insecure channels, interception can expose access unless additional access controls are used.',
-      textDe: 'Wenn ein Dokument-Link über unsichere Kanäle geteilt wird, kann eine Abfangung den Zugriff ermöglichen, sofern keine zusätzlichen Zugriffskontrollen gesetzt sind.',
+      localizedTexts: { de: 'Wenn ein Dokument-Link über unsichere Kanäle geteilt wird, kann eine Abfangung den Zugriff ermöglichen, sofern keine zusätzlichen Zugriffskontrollen gesetzt sind.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.cryptpad.org/en/user_guide/security.html#passwords-for-documents-and-folders',
     },
     {
       id: 'high-severity-2fa-bypass-2025',
       text: 'A published 2025 advisory disclosed a high-severity 2FA bypass affecting versions up to 2024.12.0 before patching.',
-      textDe: 'Ein veröffentlichter Advisory von 2025 beschrieb einen High-Severity-2FA-Bypass für Versionen bis 2024.12.0, bevor ein Patch verfügbar war.',
+      localizedTexts: { de: 'Ein veröffentlichter Advisory von 2025 beschrieb einen High-Severity-2FA-Bypass für Versionen bis 2024.12.0, bevor ein Patch verfügbar war.' },
       severity: 'major',
       date: '2025-06-18',
       sourceUrl: 'https://github.com/cryptpad/cryptpad/security/advisories/GHSA-xq5x-wgcm-3p33',
@@ -277,28 +277,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'search-partner-data-sharing',
       text: 'Search requests are processed with external search partners, including transfer of search terms and IP address before Ecosia-side anonymization.',
-      textDe: 'Suchanfragen werden mit externen Suchpartnern verarbeitet, einschließlich Übermittlung von Suchbegriffen und IP-Adresse vor der Ecosia-seitigen Anonymisierung.',
+      localizedTexts: { de: 'Suchanfragen werden mit externen Suchpartnern verarbeitet, einschließlich Übermittlung von Suchbegriffen und IP-Adresse vor der Ecosia-seitigen Anonymisierung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.ecosia.org/privacy',
     },
     {
       id: 'ai-search-us-llm-dependency',
       text: 'AI Search routes prompts and metadata to OpenAI infrastructure, introducing US-provider dependency for this feature.',
-      textDe: 'AI Search leitet Prompts und Metadaten an OpenAI-Infrastruktur weiter und schafft damit für diese Funktion eine Abhängigkeit von einem US-Anbieter.',
+      localizedTexts: { de: 'AI Search leitet Prompts und Metadaten an OpenAI-Infrastruktur weiter und schafft damit für diese Funktion eine Abhängigkeit von einem US-Anbieter.' },
       severity: 'moderate',
       sourceUrl: 'https://support.ecosia.org/article/1006-ai-search',
     },
     {
       id: 'ai-overviews-cookie-opt-out',
       text: 'AI Overviews can be disabled, but the preference is stored in a cookie and may reset when cookies are cleared.',
-      textDe: 'AI Overviews lassen sich deaktivieren, die Einstellung wird jedoch per Cookie gespeichert und kann beim Löschen von Cookies zurückgesetzt werden.',
+      localizedTexts: { de: 'AI Overviews lassen sich deaktivieren, die Einstellung wird jedoch per Cookie gespeichert und kann beim Löschen von Cookies zurückgesetzt werden.' },
       severity: 'minor',
       sourceUrl: 'https://support.ecosia.org/article/2045-ai-overviews',
     },
     {
       id: 'upstream-search-provider-outage-risk',
       text: 'Historical outages at upstream search providers have temporarily impacted Ecosia availability.',
-      textDe: 'Historische Ausfälle bei vorgelagerten Suchanbietern haben die Verfügbarkeit von Ecosia zeitweise beeinträchtigt.',
+      localizedTexts: { de: 'Historische Ausfälle bei vorgelagerten Suchanbietern haben die Verfügbarkeit von Ecosia zeitweise beeinträchtigt.' },
       severity: 'minor',
       date: '2024-05-23',
       sourceUrl: 'https://techcrunch.com/2024/05/23/bing-is-down-bringing-duckduckgo-and-ecosia-down-too/',
@@ -308,7 +308,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'matrix-org-september-outage-2025',
       text: 'The public matrix.org homeserver suffered a major outage on September 2, 2025, showing that default public hosting is not suitable for mission-critical workloads.',
-      textDe: 'Der öffentliche matrix.org-Homeserver hatte am 2. September 2025 einen grösseren Ausfall; für mission-kritische Nutzung ist Default-Public-Hosting daher riskant.',
+      localizedTexts: { de: 'Der öffentliche matrix.org-Homeserver hatte am 2. September 2025 einen grösseren Ausfall; für mission-kritische Nutzung ist Default-Public-Hosting daher riskant.' },
       severity: 'major',
       date: '2025-09-02',
       sourceUrl: 'https://matrix.org/blog/2025/10/post-mortem/',
@@ -316,7 +316,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'matrix-org-postgres-corruption-2025',
       text: 'Matrix.org reported PostgreSQL corruption in 2025, and the recovery effort highlighted operational risk for very large deployments.',
-      textDe: 'Matrix.org meldete 2025 eine PostgreSQL-Korruption; der Wiederherstellungsaufwand zeigte operative Risiken für sehr grosse Deployments.',
+      localizedTexts: { de: 'Matrix.org meldete 2025 eine PostgreSQL-Korruption; der Wiederherstellungsaufwand zeigte operative Risiken für sehr grosse Deployments.' },
       severity: 'moderate',
       date: '2025-07-23',
       sourceUrl: 'https://matrix.org/blog/2025/07/postgres-corruption-postmortem/',
@@ -324,28 +324,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'matrix-org-unencrypted-content-scanning',
       text: 'matrix.org terms describe proactive moderation that includes scanning and filtering unencrypted media/content.',
-      textDe: 'Die matrix.org-Nutzungsbedingungen beschreiben proaktive Moderation inklusive Scanning und Filterung unverschlüsselter Medien/Inhalte.',
+      localizedTexts: { de: 'Die matrix.org-Nutzungsbedingungen beschreiben proaktive Moderation inklusive Scanning und Filterung unverschlüsselter Medien/Inhalte.' },
       severity: 'moderate',
       sourceUrl: 'https://matrix.org/legal/terms-and-conditions',
     },
     {
       id: 'matrix-org-log-retention-and-us-infra',
       text: 'matrix.org privacy documentation lists AWS and Cloudflare dependencies and states that some logs may be retained for up to 180 days.',
-      textDe: 'Die matrix.org-Privacy-Dokumentation nennt Abhängigkeiten von AWS und Cloudflare und gibt an, dass manche Logs bis zu 180 Tage aufbewahrt werden können.',
+      localizedTexts: { de: 'Die matrix.org-Privacy-Dokumentation nennt Abhängigkeiten von AWS und Cloudflare und gibt an, dass manche Logs bis zu 180 Tage aufbewahrt werden können.' },
       severity: 'moderate',
       sourceUrl: 'https://matrix.org/legal/privacy-notice',
     },
     {
       id: 'matrix-org-no-public-bug-bounty',
       text: 'The Matrix.org Foundation disclosure policy states that it does not ordinarily provide bug bounties.',
-      textDe: 'Die Disclosure-Policy der Matrix.org Foundation sagt, dass normalerweise keine Bug-Bounties angeboten werden.',
+      localizedTexts: { de: 'Die Disclosure-Policy der Matrix.org Foundation sagt, dass normalerweise keine Bug-Bounties angeboten werden.' },
       severity: 'moderate',
       sourceUrl: 'https://matrix.org/security-disclosure-policy/',
     },
     {
       id: 'synapse-dual-license-commercial-support-path',
       text: 'Synapse is dual-licensed (AGPL or commercial), and enterprise-grade support with SLAs is tied to paid subscriptions.',
-      textDe: 'Synapse ist dual lizenziert (AGPL oder kommerziell), und Enterprise-Support mit SLAs ist an bezahlte Subscriptions gebunden.',
+      localizedTexts: { de: 'Synapse ist dual lizenziert (AGPL oder kommerziell), und Enterprise-Support mit SLAs ist an bezahlte Subscriptions gebunden.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/element-hq/synapse',
     },
@@ -354,21 +354,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-public-vendor-security-attestation',
       text: 'Filen public materials describe security controls and ISO27001-certified colocation facilities, but no vendor-level independent SOC2/ISO attestation package is publicly posted.',
-      textDe: 'Öffentliche Filen-Materialien beschreiben Security-Kontrollen und ISO27001-zertifizierte Colocation-Rechenzentren, zeigen aber kein vendor-spezifisches, unabhängiges SOC2/ISO-Attestpaket.',
+      localizedTexts: { de: 'Öffentliche Filen-Materialien beschreiben Security-Kontrollen und ISO27001-zertifizierte Colocation-Rechenzentren, zeigen aber kein vendor-spezifisches, unabhängiges SOC2/ISO-Attestpaket.' },
       severity: 'major',
       sourceUrl: 'https://filen.io/about',
     },
     {
       id: 'third-country-processor-metadata-exposure',
       text: 'The privacy policy lists payment and infrastructure processors (for example PayPal, Stripe, Coinbase, Sentry, Cloudflare) with third-country processing exposure for account and metadata flows.',
-      textDe: 'Die Privacy Policy nennt Zahlungs- und Infrastruktur-Processor (z. B. PayPal, Stripe, Coinbase, Sentry, Cloudflare) mit Drittland-Exposition für Account- und Metadatenflüsse.',
+      localizedTexts: { de: 'Die Privacy Policy nennt Zahlungs- und Infrastruktur-Processor (z. B. PayPal, Stripe, Coinbase, Sentry, Cloudflare) mit Drittland-Exposition für Account- und Metadatenflüsse.' },
       severity: 'major',
       sourceUrl: 'https://filen.io/privacy',
     },
     {
       id: 'storage-cluster-degraded-incident-dec-2025',
       text: 'A status incident from December 12-18, 2025 reported storage-cluster degradation with uploads and downloads paused and staged restoration updates.',
-      textDe: 'Ein Statusvorfall vom 12.-18. Dezember 2025 meldete ein degradiertes Storage-Cluster mit pausierten Uploads/Downloads und schrittweiser Wiederherstellung.',
+      localizedTexts: { de: 'Ein Statusvorfall vom 12.-18. Dezember 2025 meldete ein degradiertes Storage-Cluster mit pausierten Uploads/Downloads und schrittweiser Wiederherstellung.' },
       severity: 'major',
       date: '2025-12-12',
       sourceUrl: 'https://status.filen.io/incident/785485',
@@ -376,7 +376,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'repeated-traffic-incidents-2026',
       text: 'Status history documents additional upload and download failure incidents during January and February 2026 traffic spikes.',
-      textDe: 'Die Status-Historie dokumentiert weitere Upload-/Download-Fehlerereignisse während Traffic-Spitzen im Januar und Februar 2026.',
+      localizedTexts: { de: 'Die Status-Historie dokumentiert weitere Upload-/Download-Fehlerereignisse während Traffic-Spitzen im Januar und Februar 2026.' },
       severity: 'moderate',
       date: '2026-01-27',
       sourceUrl: 'https://status.filen.io/incidents',
@@ -384,21 +384,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'terms-price-change-and-unilateral-update-rights',
       text: 'Terms allow unilateral terms updates and price changes, and recurring billing continues until cancellation.',
-      textDe: 'Die AGB erlauben einseitige Änderungen der Nutzungsbedingungen sowie Preisanpassungen; wiederkehrende Abrechnung läuft bis zur Kündigung weiter.',
+      localizedTexts: { de: 'Die AGB erlauben einseitige Änderungen der Nutzungsbedingungen sowie Preisanpassungen; wiederkehrende Abrechnung läuft bis zur Kündigung weiter.' },
       severity: 'moderate',
       sourceUrl: 'https://filen.io/terms',
     },
     {
       id: 'inactivity-or-payment-delinquency-data-deletion',
       text: 'Terms define inactivity and missed-payment deletion windows for free/lifetime and paid plans, requiring user backup discipline.',
-      textDe: 'Die AGB definieren Löschfenster bei Inaktivität und Zahlungsverzug für Free/Lifetime- und Paid-Pläne, wodurch strikte Backup-Disziplin nötig ist.',
+      localizedTexts: { de: 'Die AGB definieren Löschfenster bei Inaktivität und Zahlungsverzug für Free/Lifetime- und Paid-Pläne, wodurch strikte Backup-Disziplin nötig ist.' },
       severity: 'moderate',
       sourceUrl: 'https://filen.io/terms',
     },
     {
       id: 'master-key-and-self-backup-responsibility',
       text: 'Privacy policy states users must keep their own backups and may permanently lose file access after password loss without exported recovery/master keys.',
-      textDe: 'Laut Privacy Policy müssen Nutzer eigene Backups vorhalten und können ohne exportierte Recovery-/Master-Keys nach Passwortverlust dauerhaft den Zugriff verlieren.',
+      localizedTexts: { de: 'Laut Privacy Policy müssen Nutzer eigene Backups vorhalten und können ohne exportierte Recovery-/Master-Keys nach Passwortverlust dauerhaft den Zugriff verlieren.' },
       severity: 'moderate',
       sourceUrl: 'https://filen.io/privacy',
     },
@@ -407,7 +407,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'irrecoverable-snapshot-loss-2022',
       text: 'In 2022, Hetzner confirmed an incident where some customer cloud snapshots were irrecoverably lost after storage failures.',
-      textDe: '2022 bestätigte Hetzner einen Vorfall, bei dem einige Cloud-Snapshots von Kunden nach Storage-Fehlern irreversibel verloren gingen.',
+      localizedTexts: { de: '2022 bestätigte Hetzner einen Vorfall, bei dem einige Cloud-Snapshots von Kunden nach Storage-Fehlern irreversibel verloren gingen.' },
       severity: 'major',
       date: '2022-06-02',
       sourceUrl: 'https://www.bleepingcomputer.com/news/technology/hetzner-loses-customer-cloud-snapshots-after-storage-system-failures/',
@@ -415,7 +415,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'cloud-api-incident-2025',
       text: 'Hetzner reported a cloud control-plane incident in November 2025 that disrupted API functionality and required backend remediation.',
-      textDe: 'Hetzner meldete im November 2025 einen Vorfall in der Cloud-Control-Plane, der die API-Funktionalität beeinträchtigte und Backend-Massnahmen erforderte.',
+      localizedTexts: { de: 'Hetzner meldete im November 2025 einen Vorfall in der Cloud-Control-Plane, der die API-Funktionalität beeinträchtigte und Backend-Massnahmen erforderte.' },
       severity: 'moderate',
       date: '2025-11-11',
       sourceUrl: 'https://status.hetzner.com/incident/372f87ce-7695-4f17-b008-cd3357844f15',
@@ -423,21 +423,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'strict-abuse-lock-and-termination-rights',
       text: 'Terms and DSA moderation rules allow account or IP locks and immediate termination in abuse or legal-violation scenarios.',
-      textDe: 'AGB und DSA-Moderationsregeln erlauben Account- oder IP-Sperren sowie fristlose Kündigungen bei Abuse- oder Rechtsverstössen.',
+      localizedTexts: { de: 'AGB und DSA-Moderationsregeln erlauben Account- oder IP-Sperren sowie fristlose Kündigungen bei Abuse- oder Rechtsverstössen.' },
       severity: 'moderate',
       sourceUrl: 'https://www.hetzner.com/legal/terms-and-conditions/',
     },
     {
       id: 'customer-backup-duty-outside-provider',
       text: 'Hetzner terms assign regular backup responsibility to customers, including storing backups outside provider-hosted servers.',
-      textDe: 'Die Hetzner-AGB legen die Verantwortung für regelmässige Backups beim Kunden fest, einschliesslich Ablage ausserhalb der vom Anbieter bereitgestellten Server.',
+      localizedTexts: { de: 'Die Hetzner-AGB legen die Verantwortung für regelmässige Backups beim Kunden fest, einschliesslich Ablage ausserhalb der vom Anbieter bereitgestellten Server.' },
       severity: 'moderate',
       sourceUrl: 'https://www.hetzner.com/legal/terms-and-conditions/',
     },
     {
       id: 'ask-ai-us-processing-chain',
       text: 'The website Ask AI feature may process prompts with Kapa.ai/OpenAI in the US and requires full-cookie consent for chatbot use.',
-      textDe: 'Die Website-Funktion Ask AI kann Prompts über Kapa.ai/OpenAI in den USA verarbeiten und erfordert für die Chatbot-Nutzung die Zustimmung zu allen Cookies.',
+      localizedTexts: { de: 'Die Website-Funktion Ask AI kann Prompts über Kapa.ai/OpenAI in den USA verarbeiten und erfordert für die Chatbot-Nutzung die Zustimmung zu allen Cookies.' },
       severity: 'moderate',
       sourceUrl: 'https://www.hetzner.com/legal/privacy-policy/',
     },
@@ -446,35 +446,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ai-terms-ml-training-rights',
       text: 'Hostinger terms state that AI service input and output may be used to develop and train machine-learning models.',
-      textDe: 'Die Hostinger-AGB geben an, dass Eingaben und Ausgaben aus KI-Diensten zur Entwicklung und zum Training von Machine-Learning-Modellen genutzt werden können.',
+      localizedTexts: { de: 'Die Hostinger-AGB geben an, dass Eingaben und Ausgaben aus KI-Diensten zur Entwicklung und zum Training von Machine-Learning-Modellen genutzt werden können.' },
       severity: 'major',
       sourceUrl: 'https://www.hostinger.com/legal/universal-terms-of-service-agreement',
     },
     {
       id: 'website-builder-backups-not-downloadable',
       text: 'Hostinger Website Builder backups are platform-bound and cannot be downloaded directly, increasing lock-in risk.',
-      textDe: 'Backups des Hostinger Website Builders sind plattformgebunden und nicht direkt herunterladbar, was das Lock-in-Risiko erhöht.',
+      localizedTexts: { de: 'Backups des Hostinger Website Builders sind plattformgebunden und nicht direkt herunterladbar, was das Lock-in-Risiko erhöht.' },
       severity: 'major',
       sourceUrl: 'https://support.hostinger.com/en/articles/5981435-how-to-download-backups-at-hostinger',
     },
     {
       id: 'website-builder-migration-limitations',
       text: 'Migration from Hostinger Website Builder to WordPress or another CMS has functional limits and requires manual rework.',
-      textDe: 'Die Migration vom Hostinger Website Builder zu WordPress oder einem anderen CMS hat funktionale Einschränkungen und erfordert manuelle Nacharbeit.',
+      localizedTexts: { de: 'Die Migration vom Hostinger Website Builder zu WordPress oder einem anderen CMS hat funktionale Einschränkungen und erfordert manuelle Nacharbeit.' },
       severity: 'moderate',
       sourceUrl: 'https://support.hostinger.com/en/articles/6639802-how-to-switch-from-hostinger-website-builder-to-wordpress-or-another-content-management-system',
     },
     {
       id: 'auto-renew-default-until-disabled',
       text: 'Subscriptions are set to auto-renew by default until canceled in account settings.',
-      textDe: 'Abonnements sind standardmässig auf automatische Verlängerung gesetzt, bis sie in den Kontoeinstellungen deaktiviert werden.',
+      localizedTexts: { de: 'Abonnements sind standardmässig auf automatische Verlängerung gesetzt, bis sie in den Kontoeinstellungen deaktiviert werden.' },
       severity: 'moderate',
       sourceUrl: 'https://www.hostinger.com/legal/universal-terms-of-service-agreement',
     },
     {
       id: 'historical-security-incident-2019',
       text: 'Hostinger disclosed a major 2019 security incident that exposed customer account data before security controls were strengthened.',
-      textDe: 'Hostinger meldete 2019 einen grösseren Sicherheitsvorfall mit offengelegten Kundendaten, bevor Sicherheitskontrollen verschärft wurden.',
+      localizedTexts: { de: 'Hostinger meldete 2019 einen grösseren Sicherheitsvorfall mit offengelegten Kundendaten, bevor Sicherheitskontrollen verschärft wurden.' },
       severity: 'moderate',
       date: '2019-08-23',
       sourceUrl: 'https://www.hostinger.com/blog/security-incident-what-you-need-to-know',
@@ -482,7 +482,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'shared-hosting-phishing-abuse-exposure',
       text: 'Independent phishing-hosting reports have repeatedly listed Hostinger ASN infrastructure with elevated attack exposure.',
-      textDe: 'Unabhängige Reports zu Phishing-Hosting führen die Hostinger-ASN-Infrastruktur wiederholt mit erhöhter Angriffsexposition auf.',
+      localizedTexts: { de: 'Unabhängige Reports zu Phishing-Hosting führen die Hostinger-ASN-Infrastruktur wiederholt mit erhöhter Angriffsexposition auf.' },
       severity: 'moderate',
       date: '2024-05-01',
       sourceUrl: 'https://www.cybercrimeinfocenter.org/phishing-activity-in-hosting-networks-may-july-2023',
@@ -490,7 +490,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ai-subprocessor-third-party-model-dependency',
       text: 'Hostinger DPA lists third-party AI-related subprocessors, introducing external model-provider dependency for AI features.',
-      textDe: 'Die Hostinger-DPA listet KI-bezogene Dritt-Unterauftragsverarbeiter, wodurch für KI-Funktionen eine externe Modellanbieter-Abhängigkeit entsteht.',
+      localizedTexts: { de: 'Die Hostinger-DPA listet KI-bezogene Dritt-Unterauftragsverarbeiter, wodurch für KI-Funktionen eine externe Modellanbieter-Abhängigkeit entsteht.' },
       severity: 'moderate',
       sourceUrl: 'https://www.hostinger.com/legal/dpa',
     },
@@ -499,7 +499,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'swiss-surveillance-law-volatility-2025',
       text: 'Infomaniak\'s public positioning in the Swiss surveillance-law debate introduced trust uncertainty for high-risk anonymity use cases, even after later clarification against broad warrantless monitoring.',
-      textDe: 'Infomaniaks öffentliche Positionierung in der Schweizer Überwachungsdebatte erzeugte Unsicherheit für Hochrisiko-Anonymitätsnutzung, trotz späterer Klarstellung gegen breite anlasslose Überwachung.',
+      localizedTexts: { de: 'Infomaniaks öffentliche Positionierung in der Schweizer Überwachungsdebatte erzeugte Unsicherheit für Hochrisiko-Anonymitätsnutzung, trotz späterer Klarstellung gegen breite anlasslose Überwachung.' },
       severity: 'major',
       date: '2025-05-09',
       sourceUrl: 'https://www.heise.de/en/news/Switzerland-plans-to-ban-anonymity-and-data-retention-by-decree-10377287.html',
@@ -507,7 +507,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'attempted-admin-system-attack-2025',
       text: 'Infomaniak disclosed a September 2025 attack attempt targeting an administrative system; no confirmed mass exfiltration was reported, but the event shows continued control-plane attack pressure.',
-      textDe: 'Infomaniak meldete im September 2025 einen Angriffsversuch auf ein Administrationssystem; ein bestätigter massenhafter Datenabfluss wurde nicht gemeldet, der Vorfall zeigt aber anhaltenden Angriffsdruck auf die Control Plane.',
+      localizedTexts: { de: 'Infomaniak meldete im September 2025 einen Angriffsversuch auf ein Administrationssystem; ein bestätigter massenhafter Datenabfluss wurde nicht gemeldet, der Vorfall zeigt aber anhaltenden Angriffsdruck auf die Control Plane.' },
       severity: 'moderate',
       date: '2025-09-22',
       sourceUrl: 'https://www.netzwoche.ch/news/2025-09-22/hacker-angriff-auf-infomaniak',
@@ -515,21 +515,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'price-change-at-renewal-right',
       text: 'Infomaniak terms state prices can be changed and applied at renewal, reducing long-term cost predictability for multi-year planning.',
-      textDe: 'Die Infomaniak-AGB sehen Preisanpassungen mit Wirkung zur Verlängerung vor und reduzieren damit die langfristige Kostenplanbarkeit für mehrjährige Planung.',
+      localizedTexts: { de: 'Die Infomaniak-AGB sehen Preisanpassungen mit Wirkung zur Verlängerung vor und reduzieren damit die langfristige Kostenplanbarkeit für mehrjährige Planung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.infomaniak.com/en/legal/general-terms-and-conditions',
     },
     {
       id: 'ksuite-upgrade-only-no-downgrade',
       text: 'Infomaniak documents that existing kSuite offers can be upgraded but not downgraded, increasing lock-in pressure once teams scale up.',
-      textDe: 'Infomaniak dokumentiert, dass bestehende kSuite-Angebote hochgestuft, aber nicht heruntergestuft werden können, was nach dem Hochskalieren den Lock-in-Druck erhöht.',
+      localizedTexts: { de: 'Infomaniak dokumentiert, dass bestehende kSuite-Angebote hochgestuft, aber nicht heruntergestuft werden können, was nach dem Hochskalieren den Lock-in-Druck erhöht.' },
       severity: 'moderate',
       sourceUrl: 'https://www.infomaniak.com/en/support/faq/2197/modify-an-existing-ksuite-offer',
     },
     {
       id: 'ksuite-bundle-separation-limits',
       text: 'Infomaniak documents that bundled products cannot always be separated after conversion to kSuite, which can limit granular offboarding paths.',
-      textDe: 'Infomaniak dokumentiert, dass gebündelte Produkte nach der Umstellung auf kSuite nicht immer getrennt werden können, was granulare Offboarding-Pfade einschränkt.',
+      localizedTexts: { de: 'Infomaniak dokumentiert, dass gebündelte Produkte nach der Umstellung auf kSuite nicht immer getrennt werden können, was granulare Offboarding-Pfade einschränkt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.infomaniak.com/en/support/faq/2494/convert-existing-products-to-ksuite-or-separate-them',
     },
@@ -538,36 +538,40 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'critical-auth-bypass-supervisor-installations-2023',
       text: 'A critical 2023 advisory described an authentication-bypass path for Supervisor-based installations before patched releases were shipped.',
-      textDe: 'Ein kritisches Advisory aus 2023 beschrieb einen Authentifizierungs-Bypass für Supervisor-basierte Installationen, bevor gepatchte Releases bereitstanden.',
+      localizedTexts: { de: 'Ein kritisches Advisory aus 2023 beschrieb einen Authentifizierungs-Bypass für Supervisor-basierte Installationen, bevor gepatchte Releases bereitstanden.' },
       severity: 'major',
       date: '2023-03-08',
       sourceUrl: 'https://github.com/home-assistant/core/security/advisories/GHSA-2j8f-h4mr-qr25',
+      status: 'resolved',
+      resolvedAt: '2023-03-08',
+      resolution: 'Patched Supervisor and Core releases were available when the advisory was published.',
+      localizedResolutions: { de: 'Gepatchte Supervisor- und Core-Releases standen bei Veröffentlichung des Advisories bereit.' },
     },
     {
       id: 'cloud-voice-uses-microsoft-azure-services',
       text: 'Nabu Casa documents that cloud voice features rely on Microsoft Azure Cognitive Services, adding a US third-party processing path.',
-      textDe: 'Nabu Casa dokumentiert, dass Cloud-Voice-Funktionen Microsoft Azure Cognitive Services nutzen und damit einen US-Drittverarbeitungsweg hinzufügen.',
+      localizedTexts: { de: 'Nabu Casa dokumentiert, dass Cloud-Voice-Funktionen Microsoft Azure Cognitive Services nutzen und damit einen US-Drittverarbeitungsweg hinzufügen.' },
       severity: 'moderate',
       sourceUrl: 'https://www.nabucasa.com/privacy/',
     },
     {
       id: 'cloud-stack-depends-on-third-party-infrastructure',
       text: 'Nabu Casa status disclosures show cloud-service dependencies on AWS, Cloudflare, and DigitalOcean infrastructure for key components.',
-      textDe: 'Status-Offenlegungen von Nabu Casa zeigen für zentrale Komponenten Cloud-Abhängigkeiten von AWS-, Cloudflare- und DigitalOcean-Infrastruktur.',
+      localizedTexts: { de: 'Status-Offenlegungen von Nabu Casa zeigen für zentrale Komponenten Cloud-Abhängigkeiten von AWS-, Cloudflare- und DigitalOcean-Infrastruktur.' },
       severity: 'moderate',
       sourceUrl: 'https://status.nabucasa.com/',
     },
     {
       id: 'cloud-server-side-components-not-fully-open',
       text: 'Nabu Casa states that while most Home Assistant Cloud code is open source, some server-side parts such as payment processing are closed.',
-      textDe: 'Nabu Casa gibt an, dass zwar der grösste Teil von Home Assistant Cloud Open Source ist, bestimmte serverseitige Teile wie Zahlungsabwicklung jedoch geschlossen bleiben.',
+      localizedTexts: { de: 'Nabu Casa gibt an, dass zwar der grösste Teil von Home Assistant Cloud Open Source ist, bestimmte serverseitige Teile wie Zahlungsabwicklung jedoch geschlossen bleiben.' },
       severity: 'moderate',
       sourceUrl: 'https://support.nabucasa.com/hc/en-us/articles/26177541625245-Is-Home-Assistant-Cloud-open-source',
     },
     {
       id: 'no-public-bug-bounty-program',
       text: 'Home Assistant publishes a security disclosure policy but explicitly states it cannot provide monetary bug bounties.',
-      textDe: 'Home Assistant veröffentlicht eine Security-Disclosure-Policy, gibt aber explizit an, keine finanziellen Bug-Bounties anbieten zu können.',
+      localizedTexts: { de: 'Home Assistant veröffentlicht eine Security-Disclosure-Policy, gibt aber explizit an, keine finanziellen Bug-Bounties anbieten zu können.' },
       severity: 'minor',
       sourceUrl: 'https://www.home-assistant.io/security/',
     },
@@ -576,7 +580,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'spaces-secrets-incident-2024',
       text: 'In 2024, Hugging Face disclosed unauthorized access affecting Spaces secrets, revoked exposed tokens, and advised users to rotate credentials.',
-      textDe: '2024 legte Hugging Face einen unautorisierten Zugriff auf Spaces-Secrets offen, widerrief exponierte Tokens und empfahl betroffenen Nutzern die Rotation von Zugangsdaten.',
+      localizedTexts: { de: '2024 legte Hugging Face einen unautorisierten Zugriff auf Spaces-Secrets offen, widerrief exponierte Tokens und empfahl betroffenen Nutzern die Rotation von Zugangsdaten.' },
       severity: 'major',
       date: '2024-05-31',
       sourceUrl: 'https://huggingface.co/blog/space-secrets-disclosure',
@@ -584,56 +588,56 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'pickle-scanning-not-foolproof',
       text: 'Hugging Face documents that Hub pickle scanning is not 100% foolproof and safe/unsafe import lists are maintained on a best-effort basis.',
-      textDe: 'Hugging Face dokumentiert, dass das Pickle-Scanning im Hub nicht 100 Prozent narrensicher ist und Safe/Unsafe-Importlisten nur nach Best-Effort gepflegt werden.',
+      localizedTexts: { de: 'Hugging Face dokumentiert, dass das Pickle-Scanning im Hub nicht 100 Prozent narrensicher ist und Safe/Unsafe-Importlisten nur nach Best-Effort gepflegt werden.' },
       severity: 'major',
       sourceUrl: 'https://huggingface.co/docs/hub/en/security-pickle',
     },
     {
       id: 'malicious-models-reported-on-public-hub',
       text: 'Independent threat research reported malicious ML models on Hugging Face, showing that public model hubs remain an active supply-chain target.',
-      textDe: 'Unabhängige Threat-Research meldete maliziöse ML-Modelle auf Hugging Face und zeigt, dass öffentliche Modell-Hubs ein aktives Supply-Chain-Ziel bleiben.',
+      localizedTexts: { de: 'Unabhängige Threat-Research meldete maliziöse ML-Modelle auf Hugging Face und zeigt, dass öffentliche Modell-Hubs ein aktives Supply-Chain-Ziel bleiben.' },
       severity: 'moderate',
       sourceUrl: 'https://www.reversinglabs.com/blog/rl-identifies-malware-ml-model-hosted-on-hugging-face',
     },
     {
       id: 'non-team-repos-us-storage-default',
       text: 'Storage Regions documentation states that non-Team and non-Enterprise repositories are always stored in the US.',
-      textDe: 'Die Storage-Regions-Dokumentation nennt, dass Repositories für Nutzer ohne Team- oder Enterprise-Plan standardmässig immer in den USA gespeichert werden.',
+      localizedTexts: { de: 'Die Storage-Regions-Dokumentation nennt, dass Repositories für Nutzer ohne Team- oder Enterprise-Plan standardmässig immer in den USA gespeichert werden.' },
       severity: 'major',
       sourceUrl: 'https://huggingface.co/docs/hub/en/storage-regions',
     },
     {
       id: 'us-subprocessor-and-transfer-exposure',
       text: 'Privacy documentation states company servers are located in the US and lists multiple US-based subprocessors (including AWS, Stripe, Slack, and GitHub).',
-      textDe: 'Die Privacy-Dokumentation nennt US-Serverstandorte und mehrere US-basierte Subprozessoren (unter anderem AWS, Stripe, Slack und GitHub).',
+      localizedTexts: { de: 'Die Privacy-Dokumentation nennt US-Serverstandorte und mehrere US-basierte Subprozessoren (unter anderem AWS, Stripe, Slack und GitHub).' },
       severity: 'moderate',
       sourceUrl: 'https://huggingface.co/privacy',
     },
     {
       id: 'terms-allow-aggregated-usage-learning',
       text: 'Terms of Service allow Hugging Face to aggregate, anonymize, or otherwise learn from service-usage data to improve services.',
-      textDe: 'Die Terms of Service erlauben Hugging Face, Nutzungsdaten zu aggregieren, zu anonymisieren oder anderweitig daraus zu lernen, um Dienste zu verbessern.',
+      localizedTexts: { de: 'Die Terms of Service erlauben Hugging Face, Nutzungsdaten zu aggregieren, zu anonymisieren oder anderweitig daraus zu lernen, um Dienste zu verbessern.' },
       severity: 'moderate',
       sourceUrl: 'https://huggingface.co/terms-of-service',
     },
     {
       id: 'external-inference-provider-security-boundary',
       text: 'Inference Providers documentation states external providers are responsible for their own security measures, creating third-party assurance variance.',
-      textDe: 'Die Inference-Providers-Dokumentation sagt, dass externe Anbieter für eigene Sicherheitsmassnahmen verantwortlich sind, was zu variierender Third-Party-Assurance führt.',
+      localizedTexts: { de: 'Die Inference-Providers-Dokumentation sagt, dass externe Anbieter für eigene Sicherheitsmassnahmen verantwortlich sind, was zu variierender Third-Party-Assurance führt.' },
       severity: 'moderate',
       sourceUrl: 'https://huggingface.co/docs/inference-providers/security',
     },
     {
       id: 'billing-threshold-multi-charge-pattern',
       text: 'Billing docs describe threshold-based interim charges before end-of-month invoicing, which can surprise users without spend monitoring.',
-      textDe: 'Die Billing-Dokumentation beschreibt schwellenbasierte Zwischenabbuchungen vor der Monatsrechnung, was Nutzer ohne Ausgaben-Monitoring überraschen kann.',
+      localizedTexts: { de: 'Die Billing-Dokumentation beschreibt schwellenbasierte Zwischenabbuchungen vor der Monatsrechnung, was Nutzer ohne Ausgaben-Monitoring überraschen kann.' },
       severity: 'minor',
       sourceUrl: 'https://huggingface.co/docs/hub/en/billing#billing-thresholds--invoicing',
     },
     {
       id: 'case-by-case-content-enforcement-lag-risk',
       text: 'Content moderation is processed case-by-case after reports, which can create enforcement-lag risk on a high-volume public hub.',
-      textDe: 'Content-Moderation erfolgt fallweise nach Meldungen, was auf einem hochvolumigen öffentlichen Hub zu Durchsetzungsverzögerungen führen kann.',
+      localizedTexts: { de: 'Content-Moderation erfolgt fallweise nach Meldungen, was auf einem hochvolumigen öffentlichen Hub zu Durchsetzungsverzögerungen führen kann.' },
       severity: 'moderate',
       sourceUrl: 'https://huggingface.co/content-policy',
     },
@@ -642,21 +646,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-default-zero-knowledge-encryption',
       text: 'kDrive documents transport and server-side encryption, but does not provide default end-to-end zero-knowledge encryption for regular file storage.',
-      textDe: 'kDrive dokumentiert Transport- und serverseitige Verschlüsselung, bietet für reguläre Dateispeicherung aber keine standardmässige Ende-zu-Ende- bzw. Zero-Knowledge-Verschlüsselung.',
+      localizedTexts: { de: 'kDrive dokumentiert Transport- und serverseitige Verschlüsselung, bietet für reguläre Dateispeicherung aber keine standardmässige Ende-zu-Ende- bzw. Zero-Knowledge-Verschlüsselung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.infomaniak.com/en/support/faq/2462/understanding-kdrive-data-security',
     },
     {
       id: 'definitive-deletion-after-nonpayment',
       text: 'kDrive special terms state that suspended accounts can be definitively deleted after 14 days of non-payment, with no recovery possible.',
-      textDe: 'Die kDrive-Sonderbedingungen nennen eine endgültige Löschung nach 14 Tagen Nichtzahlung; eine Wiederherstellung ist dann nicht mehr möglich.',
+      localizedTexts: { de: 'Die kDrive-Sonderbedingungen nennen eine endgültige Löschung nach 14 Tagen Nichtzahlung; eine Wiederherstellung ist dann nicht mehr möglich.' },
       severity: 'major',
       sourceUrl: 'https://welcome.infomaniak.com/api/web-components/1/cgu/latest?id=63&locale=en_GB',
     },
     {
       id: 'desktop-sync-disk-exhaustion-issue-2026',
       text: 'An open 2026 desktop issue documents severe SQLite WAL growth that can exhaust disk space during sync error loops on Windows.',
-      textDe: 'Ein offenes Desktop-Issue aus 2026 dokumentiert starkes SQLite-WAL-Wachstum, das unter Windows bei Sync-Fehlerschleifen den Speicherplatz erschöpfen kann.',
+      localizedTexts: { de: 'Ein offenes Desktop-Issue aus 2026 dokumentiert starkes SQLite-WAL-Wachstum, das unter Windows bei Sync-Fehlerschleifen den Speicherplatz erschöpfen kann.' },
       severity: 'major',
       date: '2026-02-05',
       sourceUrl: 'https://github.com/Infomaniak/desktop-kDrive/issues/1476',
@@ -664,7 +668,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'mobile-app-telemetry-trackers',
       text: 'Independent mobile analysis reports Matomo and Sentry trackers in the Android app build.',
-      textDe: 'Unabhängige Mobile-Analysen berichten Matomo- und Sentry-Tracker im Android-App-Build.',
+      localizedTexts: { de: 'Unabhängige Mobile-Analysen berichten Matomo- und Sentry-Tracker im Android-App-Build.' },
       severity: 'moderate',
       sourceUrl: 'https://reports.exodus-privacy.eu.org/en/reports/com.infomaniak.drive/latest/',
     },
@@ -673,7 +677,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'browser-extension-cve-2025-65203',
       text: 'CVE-2025-65203 documented a credential-exfiltration path in KeePassXC-Browser up to 1.9.9.2 for sandboxed/CSP contexts, requiring fast extension patching.',
-      textDe: 'CVE-2025-65203 dokumentierte einen Pfad zur Zugangsdaten-Exfiltration in KeePassXC-Browser bis 1.9.9.2 in sandboxed/CSP-Kontexten, was schnelles Patchen der Erweiterung erfordert.',
+      localizedTexts: { de: 'CVE-2025-65203 dokumentierte einen Pfad zur Zugangsdaten-Exfiltration in KeePassXC-Browser bis 1.9.9.2 in sandboxed/CSP-Kontexten, was schnelles Patchen der Erweiterung erfordert.' },
       severity: 'moderate',
       date: '2025-12-17',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-65203',
@@ -681,7 +685,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'local-memory-extraction-disputed-cves-2024',
       text: 'Disputed 2024 CVEs describe that attackers with local victim privileges may recover secrets from process memory dumps, so endpoint hardening remains mandatory.',
-      textDe: 'Disputed-CVEs aus 2024 beschreiben, dass Angreifer mit lokalen Rechten des Opfers Geheimnisse aus Prozessspeicher-Dumps gewinnen können; Endpoint-Härtung bleibt daher zwingend.',
+      localizedTexts: { de: 'Disputed-CVEs aus 2024 beschreiben, dass Angreifer mit lokalen Rechten des Opfers Geheimnisse aus Prozessspeicher-Dumps gewinnen können; Endpoint-Härtung bleibt daher zwingend.' },
       severity: 'moderate',
       date: '2024-05-20',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-33900',
@@ -689,7 +693,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'downstream-packaging-feature-divergence',
       text: 'Downstream packaging changes in Debian removed networking and IPC features from the default package at one point, which can unexpectedly disable browser-integration security workflows.',
-      textDe: 'Downstream-Paketierungsänderungen in Debian entfernten zeitweise Networking- und IPC-Funktionen aus dem Standardpaket, wodurch sicherheitsrelevante Browser-Integrations-Workflows unerwartet ausfallen können.',
+      localizedTexts: { de: 'Downstream-Paketierungsänderungen in Debian entfernten zeitweise Networking- und IPC-Funktionen aus dem Standardpaket, wodurch sicherheitsrelevante Browser-Integrations-Workflows unerwartet ausfallen können.' },
       severity: 'minor',
       date: '2024-05-10',
       sourceUrl: 'https://github.com/keepassxreboot/keepassxc/issues/10725',
@@ -697,7 +701,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'trojanized-download-impersonation-risk',
       text: 'Threat research documented trojanized KeePass installers distributed via malvertising and typo-squatted domains, reinforcing strict official-download and signature-verification hygiene.',
-      textDe: 'Threat-Research dokumentierte trojanisierte KeePass-Installer über Malvertising und Typosquatting-Domains; deshalb sind ausschliesslich offizielle Downloadkanäle und Signaturprüfung wichtig.',
+      localizedTexts: { de: 'Threat-Research dokumentierte trojanisierte KeePass-Installer über Malvertising und Typosquatting-Domains; deshalb sind ausschliesslich offizielle Downloadkanäle und Signaturprüfung wichtig.' },
       severity: 'moderate',
       date: '2025-05-08',
       sourceUrl: 'https://labs.withsecure.com/publications/keepass-trojanised-in-advanced-malware-campaign',
@@ -707,14 +711,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'contractual-price-adjustment-clauses',
       text: 'IONOS terms allow recurring price adjustments with notice and cancellation rights, which can still increase long-term renewal risk for customers.',
-      textDe: 'Die IONOS-AGB erlauben wiederkehrende Preisanpassungen mit Vorankündigung und Kündigungsrecht, was für Kunden dennoch ein langfristiges Verlängerungsrisiko schafft.',
+      localizedTexts: { de: 'Die IONOS-AGB erlauben wiederkehrende Preisanpassungen mit Vorankündigung und Kündigungsrecht, was für Kunden dennoch ein langfristiges Verlängerungsrisiko schafft.' },
       severity: 'moderate',
       sourceUrl: 'https://www.ionos.de/terms-gtc/terms/',
     },
     {
       id: 'plesk-license-price-shift-2025',
       text: 'Reported 2025 VPS/Plesk license price jumps were perceived by customers as abrupt, increasing contractual trust and lock-in concerns.',
-      textDe: 'Berichtete VPS/Plesk-Lizenzpreissprünge im Jahr 2025 wurden von Kunden als abrupt wahrgenommen und erhöhten Bedenken zu Vertragstrust und Lock-in.',
+      localizedTexts: { de: 'Berichtete VPS/Plesk-Lizenzpreissprünge im Jahr 2025 wurden von Kunden als abrupt wahrgenommen und erhöhten Bedenken zu Vertragstrust und Lock-in.' },
       severity: 'major',
       date: '2025-03-25',
       sourceUrl: 'https://www.theregister.com/2025/03/25/ionos_plesk_pricing/',
@@ -722,7 +726,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'privacy-policy-ai-training-and-transfer',
       text: 'IONOS privacy disclosures describe AI-related data processing and possible international data transfers, requiring stricter contractual controls for sensitive workloads.',
-      textDe: 'Die IONOS-Datenschutzhinweise beschreiben KI-bezogene Datenverarbeitung und mögliche internationale Datentransfers, was für sensible Workloads strengere Vertragskontrollen erfordert.',
+      localizedTexts: { de: 'Die IONOS-Datenschutzhinweise beschreiben KI-bezogene Datenverarbeitung und mögliche internationale Datentransfers, was für sensible Workloads strengere Vertragskontrollen erfordert.' },
       severity: 'moderate',
       date: '2025-09-15',
       sourceUrl: 'https://www.ionos.de/datenschutzerklaerung',
@@ -730,14 +734,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-public-bug-bounty',
       text: 'IONOS Cloud publishes a vulnerability reporting process, but currently runs no official public bug bounty program.',
-      textDe: 'IONOS Cloud veröffentlicht einen Meldeprozess für Schwachstellen, betreibt derzeit jedoch kein offizielles öffentliches Bug-Bounty-Programm.',
+      localizedTexts: { de: 'IONOS Cloud veröffentlicht einen Meldeprozess für Schwachstellen, betreibt derzeit jedoch kein offizielles öffentliches Bug-Bounty-Programm.' },
       severity: 'minor',
       sourceUrl: 'https://docs.ionos.com/cloud/security-safeguards/report-security-event/vulnerabilities',
     },
     {
       id: 'export-before-cancellation-required',
       text: 'IONOS Data Act guidance warns that once a regular cancellation is finalized, data is no longer available for export.',
-      textDe: 'Die IONOS-Data-Act-Hinweise warnen, dass Daten nach Abschluss einer regulären Kündigung nicht mehr für den Export verfügbar sind.',
+      localizedTexts: { de: 'Die IONOS-Data-Act-Hinweise warnen, dass Daten nach Abschluss einer regulären Kündigung nicht mehr für den Export verfügbar sind.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.ionos.com/cloud/data-export/eu-data-act',
     },
@@ -746,28 +750,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'open-source-scope-dispute',
       text: 'Independent openness assessments dispute Lumo\'s "open source" framing because key server-side routing and system-prompt logic are not publicly documented.',
-      textDe: 'Unabhängige Open-Source-Bewertungen sehen Lumos "Open Source"-Framing kritisch, weil zentrale serverseitige Routing- und System-Prompt-Logik nicht öffentlich dokumentiert ist.',
+      localizedTexts: { de: 'Unabhängige Open-Source-Bewertungen sehen Lumos "Open Source"-Framing kritisch, weil zentrale serverseitige Routing- und System-Prompt-Logik nicht öffentlich dokumentiert ist.' },
       severity: 'major',
       sourceUrl: 'https://osai-index.eu/market/proton-lumo/',
     },
     {
       id: 'swiss-jurisdiction-vs-eu-messaging',
       text: 'Lumo is marketed under "European jurisdiction", but compliance reviews should model Switzerland (non-EU/EEA) as a distinct legal regime.',
-      textDe: 'Lumo wird mit "European jurisdiction" beworben, aber Compliance-Prüfungen sollten die Schweiz (nicht EU/EWR) als eigenes Rechtsregime bewerten.',
+      localizedTexts: { de: 'Lumo wird mit "European jurisdiction" beworben, aber Compliance-Prüfungen sollten die Schweiz (nicht EU/EWR) als eigenes Rechtsregime bewerten.' },
       severity: 'moderate',
       sourceUrl: 'https://proton.me/support/lumo-privacy',
     },
     {
       id: 'third-party-llm-supply-chain',
       text: 'Lumo relies on multiple third-party foundation models, so risk reviews should account for model supply-chain and transparency limits beyond client code access.',
-      textDe: 'Lumo nutzt mehrere Foundation-Modelle von Drittanbietern; Risiko-Reviews sollten daher Supply-Chain- und Transparenzgrenzen über den Client-Code hinaus berücksichtigen.',
+      localizedTexts: { de: 'Lumo nutzt mehrere Foundation-Modelle von Drittanbietern; Risiko-Reviews sollten daher Supply-Chain- und Transparenzgrenzen über den Client-Code hinaus berücksichtigen.' },
       severity: 'moderate',
       sourceUrl: 'https://proton.me/support/lumo-privacy',
     },
     {
       id: 'multi-service-major-incidents-2025',
       text: 'Proton\'s public incident feed shows multiple major service incidents in 2025, including broad technical difficulties, which is relevant for mission-critical planning.',
-      textDe: 'Der öffentliche Proton-Incident-Feed zeigt 2025 mehrere grössere Vorfälle, darunter breit wirkende technische Störungen; das ist für mission-kritische Planung relevant.',
+      localizedTexts: { de: 'Der öffentliche Proton-Incident-Feed zeigt 2025 mehrere grössere Vorfälle, darunter breit wirkende technische Störungen; das ist für mission-kritische Planung relevant.' },
       severity: 'moderate',
       date: '2025-01-30',
       sourceUrl: 'https://status.proton.me/api/v2/incidents.json',
@@ -775,7 +779,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'status-page-delay-note',
       text: 'Proton\'s status page states updates are not real-time, so incident communication can be delayed during active disruptions.',
-      textDe: 'Die Proton-Statusseite weist darauf hin, dass Updates nicht in Echtzeit erfolgen; während Störungen können Statusmeldungen verzögert sein.',
+      localizedTexts: { de: 'Die Proton-Statusseite weist darauf hin, dass Updates nicht in Echtzeit erfolgen; während Störungen können Statusmeldungen verzögert sein.' },
       severity: 'minor',
       sourceUrl: 'https://status.proton.me',
     },
@@ -784,21 +788,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'dmarc-inbound-not-fully-enforced',
       text: 'mailbox.org support stated in the public forum that inbound DMARC is used for spam scoring but not enforced at 100%, leaving residual spoofing risk.',
-      textDe: 'Der mailbox.org-Support schrieb im öffentlichen Forum, dass eingehendes DMARC für Spam-Scoring genutzt, aber nicht zu 100 % strikt erzwungen wird; dadurch bleibt ein Rest-Risiko für Spoofing bestehen.',
+      localizedTexts: { de: 'Der mailbox.org-Support schrieb im öffentlichen Forum, dass eingehendes DMARC für Spam-Scoring genutzt, aber nicht zu 100 % strikt erzwungen wird; dadurch bleibt ein Rest-Risiko für Spoofing bestehen.' },
       severity: 'major',
       sourceUrl: 'https://userforum-en.mailbox.org/topic/anti-spoofing-for-custom-domains-spf-dkim-dmarc',
     },
     {
       id: 'mailbox-guard-auto-logout-gap-2026',
       text: 'Support acknowledged a security issue where mailbox Guard could stay available after webclient logout under specific settings until a fix was prepared.',
-      textDe: 'Der Support bestätigte ein Security-Problem, bei dem mailbox Guard unter bestimmten Einstellungen nach dem Webclient-Logout weiter verfügbar bleiben konnte, bis ein Fix vorbereitet wurde.',
+      localizedTexts: { de: 'Der Support bestätigte ein Security-Problem, bei dem mailbox Guard unter bestimmten Einstellungen nach dem Webclient-Logout weiter verfügbar bleiben konnte, bis ein Fix vorbereitet wurde.' },
       severity: 'moderate',
       sourceUrl: 'https://userforum-en.mailbox.org/topic/4401-automatic-logout-mailbox-guard',
     },
     {
       id: 'business-admin-2fa-coverage-needs-verification',
       text: 'Business users raised concerns in late 2025 that administrator login lacked full 2FA coverage, so enterprise rollouts should verify admin-auth controls explicitly.',
-      textDe: 'Business-Nutzer äusserten Ende 2025 Bedenken, dass Admin-Logins nicht vollständig durch 2FA abgedeckt seien; Enterprise-Rollouts sollten Admin-Authentifizierung deshalb explizit verifizieren.',
+      localizedTexts: { de: 'Business-Nutzer äusserten Ende 2025 Bedenken, dass Admin-Logins nicht vollständig durch 2FA abgedeckt seien; Enterprise-Rollouts sollten Admin-Authentifizierung deshalb explizit verifizieren.' },
       severity: 'moderate',
       date: '2025-12-08',
       sourceUrl: 'https://userforum-en.mailbox.org/topic/lets-talk-about-2fa-on-this-website-again',
@@ -806,14 +810,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'prepaid-expiry-can-delete-account-data',
       text: 'The cancellation policy states prepaid accounts can be deleted 30 days after credit expiry and data can be removed after an additional 30-day period.',
-      textDe: 'Die Kündigungsrichtlinie nennt, dass Prepaid-Konten 30 Tage nach Guthabenablauf gelöscht werden können und Daten nach weiteren 30 Tagen entfernt werden können.',
+      localizedTexts: { de: 'Die Kündigungsrichtlinie nennt, dass Prepaid-Konten 30 Tage nach Guthabenablauf gelöscht werden können und Daten nach weiteren 30 Tagen entfernt werden können.' },
       severity: 'moderate',
       sourceUrl: 'https://mailbox.org/en/t-cs-cancellation-policy/',
     },
     {
       id: 'major-datacenter-power-outage-2022',
       text: 'mailbox.org documented a major datacenter power outage on April 20, 2022 that caused broad service downtime, although it reported no data loss.',
-      textDe: 'mailbox.org dokumentierte am 20. April 2022 einen grösseren Stromausfall im Rechenzentrum mit breiten Service-Ausfällen, obwohl laut Anbieter kein Datenverlust auftrat.',
+      localizedTexts: { de: 'mailbox.org dokumentierte am 20. April 2022 einen grösseren Stromausfall im Rechenzentrum mit breiten Service-Ausfällen, obwohl laut Anbieter kein Datenverlust auftrat.' },
       severity: 'moderate',
       date: '2022-04-20',
       sourceUrl: 'https://mailbox.org/en/news/power-outage-data-centre-led-downtime-mailboxorg/',
@@ -821,7 +825,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'opencloud-owncloud-legal-dispute-signal-2025',
       text: 'heise reported that Kiteworks\' CEO announced legal action against Heinlein Group leadership in the OpenCloud/ownCloud conflict, a group-level governance risk signal.',
-      textDe: 'heise berichtete, dass der Kiteworks-CEO im OpenCloud/ownCloud-Konflikt rechtliche Schritte gegen die Heinlein-Group-Führung ankundigte; das ist ein gruppenbezogenes Governance-Risikosignal.',
+      localizedTexts: { de: 'heise berichtete, dass der Kiteworks-CEO im OpenCloud/ownCloud-Konflikt rechtliche Schritte gegen die Heinlein-Group-Führung ankundigte; das ist ein gruppenbezogenes Governance-Risikosignal.' },
       severity: 'minor',
       date: '2025-02-03',
       sourceUrl: 'https://www.heise.de/en/news/Ex-ownCloud-devs-seek-new-start-at-OpenCloud-Owncloud-owner-wants-to-sue-10254438.html',
@@ -831,49 +835,49 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'core-service-not-open-source',
       text: 'Mailfence states that the service is not open source, which limits independent full-stack auditability of the production service.',
-      textDe: 'Mailfence gibt an, dass der Dienst nicht Open Source ist; dadurch ist die unabhängige Full-Stack-Auditierbarkeit des Produktivdienstes eingeschränkt.',
+      localizedTexts: { de: 'Mailfence gibt an, dass der Dienst nicht Open Source ist; dadurch ist die unabhängige Full-Stack-Auditierbarkeit des Produktivdienstes eingeschränkt.' },
       severity: 'moderate',
       sourceUrl: 'https://kb.mailfence.com/kb/is-mailfence-open-source/',
     },
     {
       id: 'web-client-high-level-mitm-out-of-scope',
       text: 'The Mailfence threat model states that high-level man-in-the-middle scenarios and malicious JavaScript delivery are out of scope for protection.',
-      textDe: 'Das Mailfence-Threat-Model nennt High-Level-Man-in-the-Middle-Szenarien und die Auslieferung bösartigen JavaScripts als nicht abgedeckt.',
+      localizedTexts: { de: 'Das Mailfence-Threat-Model nennt High-Level-Man-in-the-Middle-Szenarien und die Auslieferung bösartigen JavaScripts als nicht abgedeckt.' },
       severity: 'major',
       sourceUrl: 'https://mailfence.com/en/threat-model.jsp',
     },
     {
       id: 'mail-metadata-processing-is-inherent',
       text: 'Mailfence privacy documentation lists email metadata processing (for example sender/recipient addresses, subject lines, timestamps, and message IDs) as part of normal service operation.',
-      textDe: 'Die Mailfence-Datenschutzerklärung nennt die Verarbeitung von E-Mail-Metadaten (z. B. Absender-/Empfänger-Adressen, Betreffzeilen, Zeitstempel und Message-IDs) als Teil des regulären Dienstbetriebs.',
+      localizedTexts: { de: 'Die Mailfence-Datenschutzerklärung nennt die Verarbeitung von E-Mail-Metadaten (z. B. Absender-/Empfänger-Adressen, Betreffzeilen, Zeitstempel und Message-IDs) als Teil des regulären Dienstbetriebs.' },
       severity: 'moderate',
       sourceUrl: 'https://mailfence.com/en/privacy.jsp',
     },
     {
       id: 'free-account-inactivity-deletion',
       text: 'Terms specify that free accounts can be suspended after prolonged inactivity and later deleted, creating data-loss risk without backup hygiene.',
-      textDe: 'Die Nutzungsbedingungen nennen, dass kostenlose Konten bei längerer Inaktivität gesperrt und später gelöscht werden können; ohne Backup-Disziplin entsteht Datenverlustrisiko.',
+      localizedTexts: { de: 'Die Nutzungsbedingungen nennen, dass kostenlose Konten bei längerer Inaktivität gesperrt und später gelöscht werden können; ohne Backup-Disziplin entsteht Datenverlustrisiko.' },
       severity: 'major',
       sourceUrl: 'https://mailfence.com/en/terms.jsp',
     },
     {
       id: 'service-change-and-liability-limit-clauses',
       text: 'Terms include broad service-modification and liability-limitation clauses, which can reduce contractual predictability for business-critical use.',
-      textDe: 'Die Nutzungsbedingungen enthalten weitreichende Klauseln zu Dienständerungen und Haftungsbegrenzung, was die vertragliche Planbarkeit für kritische Nutzung verringern kann.',
+      localizedTexts: { de: 'Die Nutzungsbedingungen enthalten weitreichende Klauseln zu Dienständerungen und Haftungsbegrenzung, was die vertragliche Planbarkeit für kritische Nutzung verringern kann.' },
       severity: 'moderate',
       sourceUrl: 'https://mailfence.com/en/terms.jsp',
     },
     {
       id: 'nicol-ai-processing-and-training-clarity-gap',
       text: 'Mailfence links to the Nicol.ai assistant, but data-processing and model-training guarantees for that assistant were not clearly verifiable in the reviewed primary pages.',
-      textDe: 'Mailfence verlinkt den Nicol.ai-Assistant, jedoch waren Datenverarbeitung und Modell-Training-Garantien für diesen Assistant in den geprüften Primärquellen nicht klar verifizierbar.',
+      localizedTexts: { de: 'Mailfence verlinkt den Nicol.ai-Assistant, jedoch waren Datenverarbeitung und Modell-Training-Garantien für diesen Assistant in den geprüften Primärquellen nicht klar verifizierbar.' },
       severity: 'moderate',
       sourceUrl: 'https://chat.mailfence.com/',
     },
     {
       id: 'ddos-related-service-degradation-history',
       text: 'Public status history documents DDoS-related service degradation events, which are resilience-relevant even without a confirmed data breach.',
-      textDe: 'Die öffentliche Status-Historie dokumentiert DDoS-bedingte Service-Degradierungen; das ist für die Resilienz relevant, auch ohne bestätigten Datenabfluss.',
+      localizedTexts: { de: 'Die öffentliche Status-Historie dokumentiert DDoS-bedingte Service-Degradierungen; das ist für die Resilienz relevant, auch ohne bestätigten Datenabfluss.' },
       severity: 'moderate',
       date: '2025-04-10',
       sourceUrl: 'https://www.mfstatus.com/history',
@@ -881,7 +885,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'us-patent-litigation-2025',
       text: 'A US patent lawsuit filed in January 2025 against ContactOffice/Mailfence represents a potential legal-cost and management-distraction risk.',
-      textDe: 'Eine im Januar 2025 eingereichte US-Patentklage gegen ContactOffice/Mailfence stellt ein potenzielles Risiko für Rechtskosten und Management-Ablenkung dar.',
+      localizedTexts: { de: 'Eine im Januar 2025 eingereichte US-Patentklage gegen ContactOffice/Mailfence stellt ein potenzielles Risiko für Rechtskosten und Management-Ablenkung dar.' },
       severity: 'moderate',
       date: '2025-01-03',
       sourceUrl: 'https://dockets.justia.com/docket/texas/txedce/2:2025cv00003/230173',
@@ -891,42 +895,42 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'proprietary-core-no-public-code-audit',
       text: 'Magic Earth\'s core app is proprietary; /e/OS documentation confirms the source code is not publicly available for independent full-code review.',
-      textDe: 'Der Kern von Magic Earth ist proprietär; die /e/OS-Dokumentation bestätigt, dass der Quellcode nicht öffentlich verfügbar ist und damit keine unabhängige Full-Code-Prüfung möglich ist.',
+      localizedTexts: { de: 'Der Kern von Magic Earth ist proprietär; die /e/OS-Dokumentation bestätigt, dass der Quellcode nicht öffentlich verfügbar ist und damit keine unabhängige Full-Code-Prüfung möglich ist.' },
       severity: 'major',
       sourceUrl: 'https://doc.e.foundation/maps',
     },
     {
       id: 'play-store-data-safety-location-id-sharing',
       text: 'Google Play Data safety disclosures indicate that Location and Device or other IDs may be shared with third parties.',
-      textDe: 'Die Google-Play-Datensicherheitsangaben weisen darauf hin, dass Standortdaten sowie Geräte- oder sonstige IDs mit Dritten geteilt werden können.',
+      localizedTexts: { de: 'Die Google-Play-Datensicherheitsangaben weisen darauf hin, dass Standortdaten sowie Geräte- oder sonstige IDs mit Dritten geteilt werden können.' },
       severity: 'major',
       sourceUrl: 'https://play.google.com/store/apps/details?id=com.generalmagic.magicearth',
     },
     {
       id: 'play-store-data-cant-be-deleted-flag',
       text: 'Google Play Data safety currently flags that app data cannot be deleted via in-app controls, creating deletion-rights ambiguity.',
-      textDe: 'Google Play markiert aktuell, dass App-Daten nicht über In-App-Kontrollen gelöscht werden können, was Unklarheit bei Löschrechten erzeugt.',
+      localizedTexts: { de: 'Google Play markiert aktuell, dass App-Daten nicht über In-App-Kontrollen gelöscht werden können, was Unklarheit bei Löschrechten erzeugt.' },
       severity: 'major',
       sourceUrl: 'https://play.google.com/store/apps/details?id=com.generalmagic.magicearth',
     },
     {
       id: 'freemium-feature-gating-and-subscription-pressure',
       text: 'Magic Earth\'s public pricing and terms position core navigation as free while key capabilities are gated behind Premium subscriptions, increasing long-term spend and lock-in pressure.',
-      textDe: 'Die öffentlichen Pricing- und Terms-Texte von Magic Earth zeigen kostenlose Basisnavigation, während zentrale Funktionen hinter Premium-Abos liegen; das erhöht langfristigen Kosten- und Lock-in-Druck.',
+      localizedTexts: { de: 'Die öffentlichen Pricing- und Terms-Texte von Magic Earth zeigen kostenlose Basisnavigation, während zentrale Funktionen hinter Premium-Abos liegen; das erhöht langfristigen Kosten- und Lock-in-Druck.' },
       severity: 'moderate',
       sourceUrl: 'https://www.magicearth.com/pricing',
     },
     {
       id: 'subscription-auto-renew-cancellation-friction',
       text: 'Terms document auto-renewing subscriptions managed through third-party app stores, which can add cancellation and billing-friction risk.',
-      textDe: 'Die Terms dokumentieren automatisch verlängernde Abos, die über Drittanbieter-App-Stores verwaltet werden; das kann Kündigungs- und Billing-Reibung erzeugen.',
+      localizedTexts: { de: 'Die Terms dokumentieren automatisch verlängernde Abos, die über Drittanbieter-App-Stores verwaltet werden; das kann Kündigungs- und Billing-Reibung erzeugen.' },
       severity: 'moderate',
       sourceUrl: 'https://www.magicearth.com/terms-and-conditions',
     },
     {
       id: 'play-store-rating-volatility-2026',
       text: 'As of February 2026, the Google Play listing showed very low user ratings, signaling active trust and product-satisfaction volatility.',
-      textDe: 'Stand Februar 2026 zeigte der Google-Play-Eintrag sehr niedrige Nutzerbewertungen, was auf aktive Vertrauens- und Produktzufriedenheits-Volatilität hinweist.',
+      localizedTexts: { de: 'Stand Februar 2026 zeigte der Google-Play-Eintrag sehr niedrige Nutzerbewertungen, was auf aktive Vertrauens- und Produktzufriedenheits-Volatilität hinweist.' },
       severity: 'moderate',
       date: '2026-02-12',
       sourceUrl: 'https://play.google.com/store/apps/details?id=com.generalmagic.magicearth',
@@ -936,7 +940,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'kev-listed-kernel-vulnerability-2024',
       text: 'CISA added CVE-2024-1086 to the Known Exploited Vulnerabilities catalog, showing real-world exploitation pressure and urgent patching requirements.',
-      textDe: 'CISA führte CVE-2024-1086 im Katalog bekannter aktiv ausgenutzter Schwachstellen, was realen Ausnutzungsdruck und dringende Patch-Anforderungen zeigt.',
+      localizedTexts: { de: 'CISA führte CVE-2024-1086 im Katalog bekannter aktiv ausgenutzter Schwachstellen, was realen Ausnutzungsdruck und dringende Patch-Anforderungen zeigt.' },
       severity: 'major',
       date: '2024-05-30',
       sourceUrl: 'https://www.cisa.gov/sites/default/files/feeds/known_exploited_vulnerabilities.json',
@@ -944,21 +948,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'kernelorg-compromise-history-2011',
       text: 'kernel.org documents that release-signing material from before September 2011 was revoked after a systems compromise, underlining historical supply-chain exposure.',
-      textDe: 'kernel.org dokumentiert, dass Release-Signaturmaterial vor September 2011 nach einer Systemkompromittierung widerrufen wurde und damit historische Supply-Chain-Risiken sichtbar macht.',
+      localizedTexts: { de: 'kernel.org dokumentiert, dass Release-Signaturmaterial vor September 2011 nach einer Systemkompromittierung widerrufen wurde und damit historische Supply-Chain-Risiken sichtbar macht.' },
       severity: 'moderate',
       sourceUrl: 'https://www.kernel.org/signature.html',
     },
     {
       id: 'downstream-patch-latency-risk',
       text: 'Upstream ships quickly, but practical risk remains tied to downstream distribution patch cadence and local rollout/reboot discipline.',
-      textDe: 'Upstream liefert schnell, aber das praktische Risiko bleibt an Downstream-Patch-Cadence sowie lokale Rollout- und Reboot-Disziplin gekoppelt.',
+      localizedTexts: { de: 'Upstream liefert schnell, aber das praktische Risiko bleibt an Downstream-Patch-Cadence sowie lokale Rollout- und Reboot-Disziplin gekoppelt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.kernel.org/releases.html',
     },
     {
       id: 'maintainer-coverage-variance',
       text: 'The MAINTAINERS process explicitly includes "Odd Fixes" and "Orphan" states, so maintenance depth can vary by subsystem.',
-      textDe: 'Der MAINTAINERS-Prozess enthält explizit die Zustände "Odd Fixes" und "Orphan", wodurch die Wartungstiefe je Subsystem variieren kann.',
+      localizedTexts: { de: 'Der MAINTAINERS-Prozess enthält explizit die Zustände "Odd Fixes" und "Orphan", wodurch die Wartungstiefe je Subsystem variieren kann.' },
       severity: 'minor',
       sourceUrl: 'https://www.kernel.org/doc/html/latest/process/maintainers.html',
     },
@@ -967,21 +971,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'federation-instance-data-jurisdiction-variance',
       text: 'Data control depends on the selected instance operator, and federated delivery can replicate posts and metadata across other servers.',
-      textDe: 'Die Datenkontrolle hängt vom gewählten Instanzbetreiber ab, und durch Föderation können Beiträge und Metadaten auf weitere Server repliziert werden.',
+      localizedTexts: { de: 'Die Datenkontrolle hängt vom gewählten Instanzbetreiber ab, und durch Föderation können Beiträge und Metadaten auf weitere Server repliziert werden.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.joinmastodon.org/user/network/',
     },
     {
       id: 'dm-not-end-to-end-encrypted',
       text: 'Private mentions are not end-to-end encrypted and can be accessed by admins of involved servers.',
-      textDe: 'Private Erwähnungen sind nicht Ende-zu-Ende-verschlüsselt und können von Admins beteiligter Server eingesehen werden.',
+      localizedTexts: { de: 'Private Erwähnungen sind nicht Ende-zu-Ende-verschlüsselt und können von Admins beteiligter Server eingesehen werden.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.joinmastodon.org/user/posting/#private',
     },
     {
       id: 'mastodon-social-export-incident-2023',
       text: 'In March 2023, mastodon.social reported a misconfiguration that could expose user export archives, including non-public content.',
-      textDe: 'Im März 2023 meldete mastodon.social eine Fehlkonfiguration, durch die Nutzer-Exportarchive inklusive nicht-öffentlicher Inhalte abrufbar sein konnten.',
+      localizedTexts: { de: 'Im März 2023 meldete mastodon.social eine Fehlkonfiguration, durch die Nutzer-Exportarchive inklusive nicht-öffentlicher Inhalte abrufbar sein konnten.' },
       severity: 'major',
       date: '2023-03-16',
       sourceUrl: 'https://status.mastodon.social/incidents/8k4kq6nh3r18',
@@ -989,7 +993,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'terms-license-arbitration-controversy-2025',
       text: 'A 2025 terms template update triggered criticism around broad content-license and arbitration language.',
-      textDe: 'Ein Terms-Template-Update aus 2025 löste Kritik an weitreichenden Content-Lizenz- und Arbitration-Klauseln aus.',
+      localizedTexts: { de: 'Ein Terms-Template-Update aus 2025 löste Kritik an weitreichenden Content-Lizenz- und Arbitration-Klauseln aus.' },
       severity: 'moderate',
       date: '2025-06-17',
       sourceUrl: 'https://github.com/mastodon/mastodon/issues/35086',
@@ -997,7 +1001,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'mastodon-no-bug-bounty-program',
       text: 'Mastodon documents responsible disclosure but states it does not offer a bug bounty program.',
-      textDe: 'Mastodon dokumentiert Responsible Disclosure, bietet laut eigener Doku aber kein Bug-Bounty-Programm an.',
+      localizedTexts: { de: 'Mastodon dokumentiert Responsible Disclosure, bietet laut eigener Doku aber kein Bug-Bounty-Programm an.' },
       severity: 'minor',
       sourceUrl: 'https://docs.joinmastodon.org/dev/disclosure/',
     },
@@ -1006,22 +1010,26 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'p2p-ip-exposure-when-enabled',
       text: 'When P2P is enabled, viewer IP addresses are exposed in the tracker and can be correlated by capable observers.',
-      textDe: 'Wenn P2P aktiviert ist, werden IP-Adressen von Zuschauern im Tracker sichtbar und können von technisch versierten Beobachtern korreliert werden.',
+      localizedTexts: { de: 'Wenn P2P aktiviert ist, werden IP-Adressen von Zuschauern im Tracker sichtbar und können von technisch versierten Beobachtern korreliert werden.' },
       severity: 'major',
       sourceUrl: 'https://docs.joinpeertube.org/admin/privacy-guide#peertube-p2p--privacy',
     },
     {
       id: 'activitypub-inbox-cve-wave-2025',
       text: 'PeerTube <= 7.1.0 had multiple 2025 security flaws in federation paths (including blind SSRF and DoS) fixed in v7.1.1.',
-      textDe: 'PeerTube <= 7.1.0 hatte 2025 mehrere Sicherheitslücken in Föderationspfaden (inklusive blindem SSRF und DoS), die in v7.1.1 behoben wurden.',
+      localizedTexts: { de: 'PeerTube <= 7.1.0 hatte 2025 mehrere Sicherheitslücken in Föderationspfaden (inklusive blindem SSRF und DoS), die in v7.1.1 behoben wurden.' },
       severity: 'major',
       date: '2025-04-15',
       sourceUrl: 'https://github.com/Chocobozzz/PeerTube/releases/tag/v7.1.1',
+      status: 'resolved',
+      resolvedAt: '2025-04-15',
+      resolution: 'Fixed in PeerTube v7.1.1.',
+      localizedResolutions: { de: 'In PeerTube v7.1.1 behoben.' },
     },
     {
       id: 'small-core-team-bus-factor',
       text: 'Framasoft states PeerTube is improving thanks to only two developers, creating maintainership concentration risk.',
-      textDe: 'Framasoft beschreibt, dass PeerTube dank nur zwei Entwicklern vorankommt, was ein Maintainer-Konzentrationsrisiko erzeugt.',
+      localizedTexts: { de: 'Framasoft beschreibt, dass PeerTube dank nur zwei Entwicklern vorankommt, was ein Maintainer-Konzentrationsrisiko erzeugt.' },
       severity: 'moderate',
       date: '2025-04-10',
       sourceUrl: 'https://framablog.org/2025/04/10/2025-peertube-roadmap/',
@@ -1029,14 +1037,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'instance-operator-privacy-variance',
       text: 'Privacy and compliance outcomes are instance-dependent because admins control federation, P2P and redundancy settings.',
-      textDe: 'Privacy- und Compliance-Ergebnisse sind instanzabhängig, weil Admins Föderation-, P2P- und Redundanz-Einstellungen steuern.',
+      localizedTexts: { de: 'Privacy- und Compliance-Ergebnisse sind instanzabhängig, weil Admins Föderation-, P2P- und Redundanz-Einstellungen steuern.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.joinpeertube.org/admin/privacy-guide',
     },
     {
       id: 'account-import-not-full-migration',
       text: 'Account import/export improves portability, but PeerTube documents this as an import tool, not a full migration workflow.',
-      textDe: 'Account-Import/Export verbessert die Portabilität, aber PeerTube dokumentiert dies als Import-Tool und nicht als vollständigen Migrations-Workflow.',
+      localizedTexts: { de: 'Account-Import/Export verbessert die Portabilität, aber PeerTube dokumentiert dies als Import-Tool und nicht als vollständigen Migrations-Workflow.' },
       severity: 'minor',
       sourceUrl: 'https://docs.joinpeertube.org/use/setup-account',
     },
@@ -1045,14 +1053,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'federation-replication-privacy-boundary',
       text: 'Federated delivery can copy followers-only and direct-message metadata across remote servers, and the official privacy policy warns that other servers may fail to enforce access controls.',
-      textDe: 'Föderierte Auslieferung kann Follower-only- und Direktnachrichten-Metadaten auf entfernte Server kopieren, und die offizielle Privacy Policy warnt davor, dass andere Server Zugriffsbeschränkungen nicht zuverlässig durchsetzen.',
+      localizedTexts: { de: 'Föderierte Auslieferung kann Follower-only- und Direktnachrichten-Metadaten auf entfernte Server kopieren, und die offizielle Privacy Policy warnt davor, dass andere Server Zugriffsbeschränkungen nicht zuverlässig durchsetzen.' },
       severity: 'moderate',
       sourceUrl: 'https://pixelfed.social/site/privacy',
     },
     {
       id: 'private-post-exposure-cve-2025-30741',
       text: 'CVE-2025-30741 disclosed that versions before 0.12.5 could let unauthorized users follow private accounts and view private posts across the Fediverse.',
-      textDe: 'CVE-2025-30741 beschrieb, dass Versionen vor 0.12.5 unautorisierten Nutzern das Folgen privater Accounts und das Einsehen privater Beiträge im Fediverse ermöglichen konnten.',
+      localizedTexts: { de: 'CVE-2025-30741 beschrieb, dass Versionen vor 0.12.5 unautorisierten Nutzern das Folgen privater Accounts und das Einsehen privater Beiträge im Fediverse ermöglichen konnten.' },
       severity: 'major',
       date: '2025-03-25',
       sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2025-30741',
@@ -1060,7 +1068,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'critical-authorization-bypass-cve-2024-25108',
       text: 'CVE-2024-25108 (GHSA-gccq-h3xj-jgvf) documented a critical authorization flaw that could expose administrative and moderator functionality before patching.',
-      textDe: 'CVE-2024-25108 (GHSA-gccq-h3xj-jgvf) dokumentierte eine kritische Autorisierungs-Schwachstelle, durch die vor dem Patch administrative und Moderator-Funktionen exponiert sein konnten.',
+      localizedTexts: { de: 'CVE-2024-25108 (GHSA-gccq-h3xj-jgvf) dokumentierte eine kritische Autorisierungs-Schwachstelle, durch die vor dem Patch administrative und Moderator-Funktionen exponiert sein konnten.' },
       severity: 'major',
       date: '2024-02-12',
       sourceUrl: 'https://github.com/pixelfed/pixelfed/security/advisories/GHSA-gccq-h3xj-jgvf',
@@ -1068,21 +1076,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'privacy-policy-staleness-2018',
       text: 'The flagship instance privacy policy still states it was last updated on June 12, 2018, creating policy-freshness risk versus current federation and feature behavior.',
-      textDe: 'Die Privacy Policy der Flagship-Instanz nennt weiterhin den 12. Juni 2018 als letzte Aktualisierung, was ein Aktualitätsrisiko gegenüber heutigem Föderations- und Feature-Verhalten erzeugt.',
+      localizedTexts: { de: 'Die Privacy Policy der Flagship-Instanz nennt weiterhin den 12. Juni 2018 als letzte Aktualisierung, was ein Aktualitätsrisiko gegenüber heutigem Föderations- und Feature-Verhalten erzeugt.' },
       severity: 'moderate',
       sourceUrl: 'https://pixelfed.social/site/privacy',
     },
     {
       id: 'terms-unilateral-change-and-canada-jurisdiction',
       text: 'pixelfed.social terms allow unilateral changes without notice and assign governing law to Canada, which can be a contractual risk for EU organizations.',
-      textDe: 'Die Terms von pixelfed.social erlauben einseitige Änderungen ohne Vorankündigung und legen kanadisches Recht als anwendbares Recht fest, was für EU-Organisationen ein Vertragsrisiko sein kann.',
+      localizedTexts: { de: 'Die Terms von pixelfed.social erlauben einseitige Änderungen ohne Vorankündigung und legen kanadisches Recht als anwendbares Recht fest, was für EU-Organisationen ein Vertragsrisiko sein kann.' },
       severity: 'moderate',
       sourceUrl: 'https://pixelfed.social/site/terms',
     },
     {
       id: 'email-only-security-reporting-channel',
       text: 'Security reporting is documented as an email-only channel and does not publish SLA or bounty commitments, limiting enterprise-style assurance transparency.',
-      textDe: 'Security-Reporting ist als reiner E-Mail-Kanal dokumentiert und veröffentlicht keine SLA- oder Bounty-Zusagen, was die Transparenz für Enterprise-Assurance begrenzt.',
+      localizedTexts: { de: 'Security-Reporting ist als reiner E-Mail-Kanal dokumentiert und veröffentlicht keine SLA- oder Bounty-Zusagen, was die Transparenz für Enterprise-Assurance begrenzt.' },
       severity: 'minor',
       sourceUrl: 'https://raw.githubusercontent.com/pixelfed/pixelfed/dev/SECURITY.md',
     },
@@ -1091,49 +1099,49 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-vendor-level-soc2-iso-attestation',
       text: 'Plausible publishes detailed security practices and references infrastructure certifications, but no public vendor-level SOC 2 or ISO 27001 attestation is presented.',
-      textDe: 'Plausible veröffentlicht detaillierte Security-Practices und verweist auf Infrastruktur-Zertifizierungen, präsentiert jedoch keine öffentlich verifizierbare SOC-2- oder ISO-27001-Attestierung auf Anbieter-Ebene.',
+      localizedTexts: { de: 'Plausible veröffentlicht detaillierte Security-Practices und verweist auf Infrastruktur-Zertifizierungen, präsentiert jedoch keine öffentlich verifizierbare SOC-2- oder ISO-27001-Attestierung auf Anbieter-Ebene.' },
       severity: 'major',
       sourceUrl: 'https://plausible.io/security',
     },
     {
       id: 'no-public-bug-bounty-program',
       text: 'Plausible documents responsible disclosure but explicitly states that no public bug bounty program is in place.',
-      textDe: 'Plausible dokumentiert Responsible Disclosure, nennt jedoch explizit, dass kein öffentliches Bug-Bounty-Programm besteht.',
+      localizedTexts: { de: 'Plausible dokumentiert Responsible Disclosure, nennt jedoch explizit, dass kein öffentliches Bug-Bounty-Programm besteht.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/plausible/analytics/blob/master/SECURITY.md',
     },
     {
       id: 'security-updates-only-latest-major-minor',
       text: 'Security fixes are only provided for the latest major.minor line with no backports, increasing patch-pressure for self-hosted deployments.',
-      textDe: 'Security-Fixes werden nur für die neueste Major.Minor-Linie bereitgestellt und nicht zurückportiert, was den Patch-Druck für Self-Hosting-Deployments erhöht.',
+      localizedTexts: { de: 'Security-Fixes werden nur für die neueste Major.Minor-Linie bereitgestellt und nicht zurückportiert, was den Patch-Druck für Self-Hosting-Deployments erhöht.' },
       severity: 'major',
       sourceUrl: 'https://github.com/plausible/analytics/blob/master/SECURITY.md',
     },
     {
       id: 'subprocessor-documentation-mismatch',
       text: 'Public documentation is not fully synchronized: Privacy policy lists UpCloud for database/export storage while DPA text frames Bunny and Hetzner as the only cloud subcontractors touching site data.',
-      textDe: 'Die öffentliche Dokumentation ist nicht vollständig synchronisiert: Die Privacy Policy nennt UpCloud für Datenbank/Export-Storage, während der DPA-Text Bunny und Hetzner als einzige Cloud-Subcontractors mit Zugriff auf Site-Daten darstellt.',
+      localizedTexts: { de: 'Die öffentliche Dokumentation ist nicht vollständig synchronisiert: Die Privacy Policy nennt UpCloud für Datenbank/Export-Storage, während der DPA-Text Bunny und Hetzner als einzige Cloud-Subcontractors mit Zugriff auf Site-Daten darstellt.' },
       severity: 'moderate',
       sourceUrl: 'https://plausible.io/privacy',
     },
     {
       id: 'wordpress-plugin-cve-2023-40553',
       text: 'The official Plausible WordPress plugin had a published reflected-XSS issue (CVE-2023-40553), so integration patch hygiene remains important.',
-      textDe: 'Das offizielle Plausible-WordPress-Plugin hatte eine veröffentlichte Reflected-XSS-Schwachstelle (CVE-2023-40553), weshalb Patch-Hygiene bei Integrationen wichtig bleibt.',
+      localizedTexts: { de: 'Das offizielle Plausible-WordPress-Plugin hatte eine veröffentlichte Reflected-XSS-Schwachstelle (CVE-2023-40553), weshalb Patch-Hygiene bei Integrationen wichtig bleibt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2023-40553',
     },
     {
       id: 'pageview-overage-upgrade-friction',
       text: 'Terms describe a forced plan-upgrade decision after consecutive overage months, which can create spend predictability and contract-exit friction.',
-      textDe: 'Die Terms beschreiben nach aufeinanderfolgenden Overage-Monaten eine verpflichtende Upgrade-Entscheidung, was Budget-Planbarkeit und Vertragsausstieg erschweren kann.',
+      localizedTexts: { de: 'Die Terms beschreiben nach aufeinanderfolgenden Overage-Monaten eine verpflichtende Upgrade-Entscheidung, was Budget-Planbarkeit und Vertragsausstieg erschweren kann.' },
       severity: 'moderate',
       sourceUrl: 'https://plausible.io/terms',
     },
     {
       id: 'recent-api-healthcheck-incidents',
       text: 'The public status history documents recent API healthcheck incidents, including one attributed to infrastructure-provider error.',
-      textDe: 'Die öffentliche Status-Historie dokumentiert jüngere API-Healthcheck-Incidents, darunter einen Vorfall mit Verweis auf einen Infrastruktur-Provider-Fehler.',
+      localizedTexts: { de: 'Die öffentliche Status-Historie dokumentiert jüngere API-Healthcheck-Incidents, darunter einen Vorfall mit Verweis auf einen Infrastruktur-Provider-Fehler.' },
       severity: 'minor',
       sourceUrl: 'https://status.plausible.io/',
     },
@@ -1142,35 +1150,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ai-model-training-purpose-in-privacy-statement',
       text: 'Mollie privacy terms explicitly list developing and training automated systems, including AI models, as a processing purpose.',
-      textDe: 'Die Mollie-Privacy-Texte nennen die Entwicklung und das Training automatisierter Systeme inklusive KI-Modelle explizit als Verarbeitungszweck.',
+      localizedTexts: { de: 'Die Mollie-Privacy-Texte nennen die Entwicklung und das Training automatisierter Systeme inklusive KI-Modelle explizit als Verarbeitungszweck.' },
       severity: 'major',
       sourceUrl: 'https://www.mollie.com/legal/privacy',
     },
     {
       id: 'woocommerce-plugin-cve-exposure',
       text: 'The widely used Mollie WooCommerce integration has published CVEs (including CVE-2024-6448), so merchant patch hygiene materially affects deployment risk.',
-      textDe: 'Die weit verbreitete Mollie-WooCommerce-Integration hat veröffentlichte CVEs (u. a. CVE-2024-6448); die Patch-Disziplin von Händlern beeinflusst das Einsatzrisiko daher wesentlich.',
+      localizedTexts: { de: 'Die weit verbreitete Mollie-WooCommerce-Integration hat veröffentlichte CVEs (u. a. CVE-2024-6448); die Patch-Disziplin von Händlern beeinflusst das Einsatzrisiko daher wesentlich.' },
       severity: 'major',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-6448',
     },
     {
       id: 'two-month-termination-and-chargeback-reserve',
       text: 'The user agreement includes a two-month termination notice and allows maintaining balances after termination to cover chargeback risk.',
-      textDe: 'Der Nutzungsvertrag enthält eine zweimonatige Kündigungsfrist und erlaubt auch nach Vertragsende die Vorhaltung von Guthaben zur Abdeckung von Chargeback-Risiken.',
+      localizedTexts: { de: 'Der Nutzungsvertrag enthält eine zweimonatige Kündigungsfrist und erlaubt auch nach Vertragsende die Vorhaltung von Guthaben zur Abdeckung von Chargeback-Risiken.' },
       severity: 'major',
       sourceUrl: 'https://www.mollie.com/legal/user-agreement',
     },
     {
       id: 'offboarding-fee-deduction-clause',
       text: 'Mollie terms allow charging and deducting an Offboarding Fee in cases of fraudulent or abusive conduct.',
-      textDe: 'Die Mollie-Bedingungen erlauben in Fällen von fraud/abusive conduct die Berechnung und Verrechnung einer Offboarding Fee.',
+      localizedTexts: { de: 'Die Mollie-Bedingungen erlauben in Fällen von fraud/abusive conduct die Berechnung und Verrechnung einer Offboarding Fee.' },
       severity: 'moderate',
       sourceUrl: 'https://www.mollie.com/legal/user-agreement',
     },
     {
       id: 'status-history-shows-major-incidents',
       text: 'Public status history includes recent major incidents, which is relevant for mission-critical payout and checkout planning.',
-      textDe: 'Die öffentliche Status-Historie enthält jüngere Major-Incidents und ist damit für mission-kritische Auszahlungs- und Checkout-Planung relevant.',
+      localizedTexts: { de: 'Die öffentliche Status-Historie enthält jüngere Major-Incidents und ist damit für mission-kritische Auszahlungs- und Checkout-Planung relevant.' },
       severity: 'moderate',
       sourceUrl: 'https://status.mollie.com/',
     },
@@ -1179,21 +1187,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'consumer-training-default-optout',
       text: 'Consumer usage can be used for model training unless users opt out; Team/Enterprise and paid API tiers are excluded.',
-      textDe: 'Consumer-Nutzung kann für Modelltraining verwendet werden, sofern Nutzer nicht aktiv per Opt-out widersprechen; Team/Enterprise und bezahlte API-Tarife sind davon ausgenommen.',
+      localizedTexts: { de: 'Consumer-Nutzung kann für Modelltraining verwendet werden, sofern Nutzer nicht aktiv per Opt-out widersprechen; Team/Enterprise und bezahlte API-Tarife sind davon ausgenommen.' },
       severity: 'moderate',
       sourceUrl: 'https://legal.mistral.ai/terms/privacy-policy',
     },
     {
       id: 'non-eu-processing-in-exceptional-cases',
       text: 'Mistral states it prioritizes EU providers but may use non-EU providers in exceptional cases, creating residual cross-border transfer risk.',
-      textDe: 'Mistral gibt an, EU-Anbieter zu priorisieren, kann in Ausnahmefällen jedoch auch Nicht-EU-Anbieter nutzen, wodurch ein verbleibendes grenzüberschreitendes Transfer-Risiko besteht.',
+      localizedTexts: { de: 'Mistral gibt an, EU-Anbieter zu priorisieren, kann in Ausnahmefällen jedoch auch Nicht-EU-Anbieter nutzen, wodurch ein verbleibendes grenzüberschreitendes Transfer-Risiko besteht.' },
       severity: 'major',
       sourceUrl: 'https://legal.mistral.ai/terms/privacy-policy',
     },
     {
       id: 'microsoft-investment-2024',
       text: 'Microsoft invested in Mistral in 2024, raising dependency concerns for some users.',
-      textDe: 'Microsoft investierte 2024 in Mistral, was bei einigen Nutzern Abhängigkeitsbedenken auslöste.',
+      localizedTexts: { de: 'Microsoft investierte 2024 in Mistral, was bei einigen Nutzern Abhängigkeitsbedenken auslöste.' },
       severity: 'moderate',
       date: '2024-02-26',
       sourceUrl: 'https://www.reuters.com/world/europe/french-ai-startup-mistral-signs-distribution-deal-with-microsoft-2024-02-26/',
@@ -1201,14 +1209,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'mixed-license-and-proprietary-flagships',
       text: 'Mistral publishes some models under permissive licenses, but other models or tiers remain restricted or proprietary.',
-      textDe: 'Mistral veröffentlicht einige Modelle unter permissiven Lizenzen, während andere Modelle oder Tiers eingeschränkt oder proprietär bleiben.',
+      localizedTexts: { de: 'Mistral veröffentlicht einige Modelle unter permissiven Lizenzen, während andere Modelle oder Tiers eingeschränkt oder proprietär bleiben.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.mistral.ai/getting-started/models/',
     },
     {
       id: 'multimodal-safety-red-team-2025',
       text: 'A 2025 external red-team report flagged elevated harmful-output risk for some Mistral multimodal model variants.',
-      textDe: 'Ein externer Red-Team-Report aus 2025 meldete erhöhte Risiken für schädliche Ausgaben bei einigen multimodalen Mistral-Modellvarianten.',
+      localizedTexts: { de: 'Ein externer Red-Team-Report aus 2025 meldete erhöhte Risiken für schädliche Ausgaben bei einigen multimodalen Mistral-Modellvarianten.' },
       severity: 'major',
       date: '2025-11-13',
       sourceUrl: 'https://www.enkryptai.com/resources/mistral-multimodal-safety-report',
@@ -1216,14 +1224,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'repeated-service-incidents-2026',
       text: 'Public uptime tracking shows repeated incidents, including major disruptions in early 2026.',
-      textDe: 'Öffentliches Uptime-Tracking zeigt wiederholte Störungen, darunter Major-Disruptions Anfang 2026.',
+      localizedTexts: { de: 'Öffentliches Uptime-Tracking zeigt wiederholte Störungen, darunter Major-Disruptions Anfang 2026.' },
       severity: 'moderate',
       sourceUrl: 'https://statusgator.com/services/mistral-ai',
     },
     {
       id: 'g42-uae-partnership-2025',
       text: 'Mistral entered a strategic partnership with UAE-based G42 in 2025 to co-develop AI platforms and infrastructure across Europe, the Middle East, and the Global South, raising concerns about non-European influence on a key EU AI company.',
-      textDe: 'Mistral ging 2025 eine strategische Partnerschaft mit dem in den VAE ansässigen G42 ein, um gemeinsam KI-Plattformen und Infrastruktur in Europa, dem Nahen Osten und dem Globalen Süden zu entwickeln, was Bedenken hinsichtlich nicht-europäischen Einflusses auf ein wichtiges EU-KI-Unternehmen aufwirft.',
+      localizedTexts: { de: 'Mistral ging 2025 eine strategische Partnerschaft mit dem in den VAE ansässigen G42 ein, um gemeinsam KI-Plattformen und Infrastruktur in Europa, dem Nahen Osten und dem Globalen Süden zu entwickeln, was Bedenken hinsichtlich nicht-europäischen Einflusses auf ein wichtiges EU-KI-Unternehmen aufwirft.' },
       severity: 'major',
       date: '2025-06-02',
       sourceUrl: 'https://www.intelligenttechchannels.com/2025/06/02/uae-based-g42-and-french-mistral-ai-partner-to-build-next-generation-ai-platforms-and-infrastructure/',
@@ -1233,21 +1241,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'swedish-jurisdiction-coercive-measures',
       text: 'Mullvad is subject to Swedish law, where court-authorized coercive measures can still apply even with a no-logs architecture.',
-      textDe: 'Mullvad unterliegt schwedischem Recht, unter dem auch bei einer No-Logs-Architektur gerichtlich angeordnete Zwangsmassnahmen möglich bleiben.',
+      localizedTexts: { de: 'Mullvad unterliegt schwedischem Recht, unter dem auch bei einer No-Logs-Architektur gerichtlich angeordnete Zwangsmassnahmen möglich bleiben.' },
       severity: 'moderate',
       sourceUrl: 'https://mullvad.net/en/help/swedish-legislation',
     },
     {
       id: 'payment-provider-metadata-processing',
       text: 'Card and PayPal payments rely on external processors that keep their own transaction records outside Mullvad control.',
-      textDe: 'Karten- und PayPal-Zahlungen laufen über externe Zahlungsanbieter, die eigene Transaktionsdaten ausserhalb der Mullvad-Kontrolle speichern.',
+      localizedTexts: { de: 'Karten- und PayPal-Zahlungen laufen über externe Zahlungsanbieter, die eigene Transaktionsdaten ausserhalb der Mullvad-Kontrolle speichern.' },
       severity: 'moderate',
       sourceUrl: 'https://mullvad.net/en/help/no-logging-data-policy/',
     },
     {
       id: 'port-forwarding-removed-2023',
       text: 'Port forwarding was discontinued in 2023, which can break self-hosting and inbound-connection workflows.',
-      textDe: 'Port-Forwarding wurde 2023 eingestellt, was Self-Hosting- und Inbound-Connection-Workflows beeinträchtigen kann.',
+      localizedTexts: { de: 'Port-Forwarding wurde 2023 eingestellt, was Self-Hosting- und Inbound-Connection-Workflows beeinträchtigen kann.' },
       severity: 'moderate',
       date: '2023-05-29',
       sourceUrl: 'https://mullvad.net/en/blog/removing-the-support-for-forwarded-ports',
@@ -1255,7 +1263,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'openvpn-removed-2026',
       text: 'OpenVPN support was retired by January 15, 2026, reducing compatibility for legacy and restrictive-network setups.',
-      textDe: 'Die OpenVPN-Unterstützung wurde bis zum 15. Januar 2026 eingestellt, was die Kompatibilität für Legacy- und restriktive Netzwerk-Setups reduziert.',
+      localizedTexts: { de: 'Die OpenVPN-Unterstützung wurde bis zum 15. Januar 2026 eingestellt, was die Kompatibilität für Legacy- und restriktive Netzwerk-Setups reduziert.' },
       severity: 'moderate',
       date: '2026-01-15',
       sourceUrl: 'https://mullvad.net/en/blog/removing-openvpn-from-the-mullvad-vpn-app',
@@ -1265,14 +1273,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'e2ee-folder-scope',
       text: 'End-to-end encryption is folder-scoped and opt-in; default server-side encryption remains admin-accessible.',
-      textDe: 'Ende-zu-Ende-Verschlüsselung ist ordnerbasiert und optional; die Standard-Serververschlüsselung bleibt für Admins zugänglich.',
+      localizedTexts: { de: 'Ende-zu-Ende-Verschlüsselung ist ordnerbasiert und optional; die Standard-Serververschlüsselung bleibt für Admins zugänglich.' },
       severity: 'moderate',
       sourceUrl: 'https://nextcloud.com/endtoend/',
     },
     {
       id: 'lookup-server-privacy-incident-2025',
       text: 'In March 2025, a lookup-server logic issue triggered unnecessary federated identity callback traffic; fixes shipped quickly, but it remained a material privacy-trust incident.',
-      textDe: 'Im März 2025 führte ein Logikfehler im Lookup-Server zu unnötigem Callback-Traffic für federierte Identitäten; der Fix kam schnell, blieb aber ein relevanter Privacy-Trust-Vorfall.',
+      localizedTexts: { de: 'Im März 2025 führte ein Logikfehler im Lookup-Server zu unnötigem Callback-Traffic für federierte Identitäten; der Fix kam schnell, blieb aber ein relevanter Privacy-Trust-Vorfall.' },
       severity: 'major',
       date: '2025-03-07',
       sourceUrl: 'https://github.com/nextcloud/server/issues/51335',
@@ -1280,14 +1288,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'federation-ssrf-threat-model',
       text: 'Federation and external storage are not designed to fully prevent SSRF by default, so network segmentation and strict outbound controls are recommended.',
-      textDe: 'Föderation und externer Storage sind nicht darauf ausgelegt, SSRF standardmässig vollständig zu verhindern; Netzwerksegmentierung und strikte Outbound-Regeln sind daher empfohlen.',
+      localizedTexts: { de: 'Föderation und externer Storage sind nicht darauf ausgelegt, SSRF standardmässig vollständig zu verhindern; Netzwerksegmentierung und strikte Outbound-Regeln sind daher empfohlen.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.nextcloud.com/server/31/admin_manual/installation/harden_server.html#ensure-that-your-nextcloud-instance-is-installed-in-a-dmz',
     },
     {
       id: 'assistant-external-ai-provider-risk',
       text: 'AI features are optional, but enabling AI-as-a-Service providers can route prompts to third-party APIs (for example OpenAI or Replicate).',
-      textDe: 'KI-Funktionen sind optional, aber bei aktivierten AI-as-a-Service-Anbietern können Prompts an Drittanbieter-APIs weitergeleitet werden (zum Beispiel OpenAI oder Replicate).',
+      localizedTexts: { de: 'KI-Funktionen sind optional, aber bei aktivierten AI-as-a-Service-Anbietern können Prompts an Drittanbieter-APIs weitergeleitet werden (zum Beispiel OpenAI oder Replicate).' },
       severity: 'moderate',
       sourceUrl: 'https://docs.nextcloud.com/server/31/admin_manual/ai/ai_as_a_service.html',
     },
@@ -1296,7 +1304,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'docs-lookup-server-privacy-incident-2025',
       text: 'In March 2025, a lookup-server logic issue triggered unnecessary federated identity callback traffic; patches were shipped, but it remained a material privacy-trust incident.',
-      textDe: 'Im März 2025 führte ein Lookup-Server-Logikfehler zu unnötigem Callback-Traffic für federierte Identitäten; Patches wurden ausgerollt, der Vorfall blieb aber ein relevanter Privacy-Trust-Fall.',
+      localizedTexts: { de: 'Im März 2025 führte ein Lookup-Server-Logikfehler zu unnötigem Callback-Traffic für federierte Identitäten; Patches wurden ausgerollt, der Vorfall blieb aber ein relevanter Privacy-Trust-Fall.' },
       severity: 'major',
       date: '2025-03-07',
       sourceUrl: 'https://github.com/nextcloud/server/issues/51335',
@@ -1304,28 +1312,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'docs-federation-ssrf-threat-model',
       text: 'Federation and external-storage paths are not designed to fully prevent SSRF by default, so DMZ placement and strict outbound controls are required.',
-      textDe: 'Für Federation- und External-Storage-Pfade ist SSRF nicht standardmässig vollständig verhindert; DMZ-Platzierung und strikte Outbound-Regeln sind daher erforderlich.',
+      localizedTexts: { de: 'Für Federation- und External-Storage-Pfade ist SSRF nicht standardmässig vollständig verhindert; DMZ-Platzierung und strikte Outbound-Regeln sind daher erforderlich.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.nextcloud.com/server/31/admin_manual/installation/harden_server.html#ensure-that-your-nextcloud-instance-is-installed-in-a-dmz',
     },
     {
       id: 'docs-optional-external-ai-routing',
       text: 'AI features are optional, but enabling AI-as-a-Service providers can route prompts to third-party APIs outside the core self-hosted boundary.',
-      textDe: 'KI-Funktionen sind optional, aber aktivierte AI-as-a-Service-Anbieter können Prompts an Drittanbieter-APIs ausserhalb der eigentlichen Self-Hosting-Grenze weiterleiten.',
+      localizedTexts: { de: 'KI-Funktionen sind optional, aber aktivierte AI-as-a-Service-Anbieter können Prompts an Drittanbieter-APIs ausserhalb der eigentlichen Self-Hosting-Grenze weiterleiten.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.nextcloud.com/server/31/admin_manual/ai/ai_as_a_service.html',
     },
     {
       id: 'docs-collabora-dependency-ops-risk',
       text: 'Nextcloud Docs depends on separate Office integration components (Collabora path), adding extra services and patch surfaces that increase operational complexity.',
-      textDe: 'Nextcloud Docs hängt von separaten Office-Integrationskomponenten (Collabora-Pfad) ab, was zusätzliche Dienste und Patch-Flächen mit mehr Betriebsaufwand erzeugt.',
+      localizedTexts: { de: 'Nextcloud Docs hängt von separaten Office-Integrationskomponenten (Collabora-Pfad) ab, was zusätzliche Dienste und Patch-Flächen mit mehr Betriebsaufwand erzeugt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/nextcloud/richdocuments',
     },
     {
       id: 'docs-third-party-app-audit-limit',
       text: 'Nextcloud documents that third-party apps can increase risk and cannot all be fully audited by the vendor, so app-governance on each instance matters.',
-      textDe: 'Nextcloud dokumentiert, dass Third-Party-Apps Risiken erhöhen können und nicht alle vollständig durch den Anbieter auditiert werden; Instanz-seitige App-Governance bleibt entscheidend.',
+      localizedTexts: { de: 'Nextcloud dokumentiert, dass Third-Party-Apps Risiken erhöhen können und nicht alle vollständig durch den Anbieter auditiert werden; Instanz-seitige App-Governance bleibt entscheidend.' },
       severity: 'moderate',
       sourceUrl: 'https://nextcloud.com/privacy/',
     },
@@ -1334,7 +1342,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'subscription-auto-renew-lawsuit-2025',
       text: 'A 2025 class-action complaint alleges deceptive auto-renewal and cancellation flows for Nord subscriptions; allegations remain contested while litigation is ongoing.',
-      textDe: 'Eine Sammelklage von 2025 wirft Nord täuschende Auto-Renew- und Kündigungsabläufe für Abos vor; die Vorwürfe sind umstritten und das Verfahren läuft.',
+      localizedTexts: { de: 'Eine Sammelklage von 2025 wirft Nord täuschende Auto-Renew- und Kündigungsabläufe für Abos vor; die Vorwürfe sind umstritten und das Verfahren läuft.' },
       severity: 'major',
       date: '2025-06-20',
       sourceUrl: 'https://www.classaction.org/media/sasgen-v-nordvpn-sa-et-al-complaint.pdf',
@@ -1342,7 +1350,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'asa-misleading-radio-claim-ruling-2023',
       text: 'In January 2023, the UK ASA upheld a complaint that NordVPN radio malware-protection claims were misleading and insufficiently substantiated.',
-      textDe: 'Im Januar 2023 bestätigte die britische ASA eine Beschwerde, dass NordVPN-Radioaussagen zum Malware-Schutz irreführend und unzureichend belegt waren.',
+      localizedTexts: { de: 'Im Januar 2023 bestätigte die britische ASA eine Beschwerde, dass NordVPN-Radioaussagen zum Malware-Schutz irreführend und unzureichend belegt waren.' },
       severity: 'moderate',
       date: '2023-01-11',
       sourceUrl: 'https://www.asa.org.uk/rulings/nordvpn-sa-a22-1168156-nordvpn-sa.html',
@@ -1350,7 +1358,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'asa-public-wifi-claim-ruling-2019',
       text: 'UK ad-watchdog reporting in 2019 describes NordVPN claims about inherently insecure public Wi-Fi as misleading in ad context.',
-      textDe: 'Berichte zur britischen Werbeaufsicht aus 2019 bewerten NordVPN-Werbeaussagen zu pauschal unsicherem Public Wi-Fi im Werbekontext als irreführend.',
+      localizedTexts: { de: 'Berichte zur britischen Werbeaufsicht aus 2019 bewerten NordVPN-Werbeaussagen zu pauschal unsicherem Public Wi-Fi im Werbekontext als irreführend.' },
       severity: 'moderate',
       date: '2019-05-01',
       sourceUrl: 'https://www.theregister.com/2019/05/01/nordvpn_tv_ad_rapped_advertising_standards_authority/',
@@ -1358,15 +1366,19 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'delayed-breach-disclosure-2018',
       text: 'A 2018 server incident was disclosed late in 2019, damaging trust despite later remediation.',
-      textDe: 'Beim Servervorfall 2018 erfolgten Erkennung und Offenlegung verzögert, was Vertrauen kostete.',
+      localizedTexts: { de: 'Beim Servervorfall 2018 erfolgten Erkennung und Offenlegung verzögert, was Vertrauen kostete.' },
       severity: 'major',
       date: '2018-03-01',
       sourceUrl: 'https://www.bbc.com/news/technology-50150981',
+      status: 'remediated',
+      resolvedAt: '2019-10-21',
+      resolution: 'NordVPN ended its contract with the affected data-center provider and announced infrastructure audits alongside the disclosure.',
+      localizedResolutions: { de: 'NordVPN beendete den Vertrag mit dem betroffenen Rechenzentrumsbetreiber und kündigte mit der Offenlegung Infrastruktur-Audits an.' },
     },
     {
       id: 'linux-client-open-source-only-partial-transparency',
       text: 'NordVPN publishes the Linux client under GPL-3.0, but backend and server infrastructure are not publicly auditable as open source.',
-      textDe: 'NordVPN veröffentlicht den Linux-Client unter GPL-3.0, aber Backend und Server-Infrastruktur sind nicht als Open Source öffentlich prüfbar.',
+      localizedTexts: { de: 'NordVPN veröffentlicht den Linux-Client unter GPL-3.0, aber Backend und Server-Infrastruktur sind nicht als Open Source öffentlich prüfbar.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/NordSecurity/nordvpn-linux',
     },
@@ -1375,49 +1387,49 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'dns-rebinding-cve-2024-28224',
       text: 'CVE-2024-28224 documented a DNS rebinding weakness that could expose the local API to remote-origin abuse when deployments are not properly restricted.',
-      textDe: 'CVE-2024-28224 dokumentierte eine DNS-Rebinding-Schwachstelle, durch die die lokale API bei unzureichend eingeschränkten Deployments aus Remote-Kontexten missbraucht werden konnte.',
+      localizedTexts: { de: 'CVE-2024-28224 dokumentierte eine DNS-Rebinding-Schwachstelle, durch die die lokale API bei unzureichend eingeschränkten Deployments aus Remote-Kontexten missbraucht werden konnte.' },
       severity: 'major',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-28224',
     },
     {
       id: 'probllama-rce-cve-2024-37032',
       text: 'CVE-2024-37032 (Probllama) reported remote code execution risk in vulnerable versions before patching.',
-      textDe: 'CVE-2024-37032 (Probllama) beschrieb ein Remote-Code-Execution-Risiko in verwundbaren Versionen vor dem Patch.',
+      localizedTexts: { de: 'CVE-2024-37032 (Probllama) beschrieb ein Remote-Code-Execution-Risiko in verwundbaren Versionen vor dem Patch.' },
       severity: 'major',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-37032',
     },
     {
       id: 'auth-bypass-cve-2025-63389',
       text: 'CVE-2025-63389 described an authentication bypass condition allowing unauthorized access in affected builds.',
-      textDe: 'CVE-2025-63389 beschrieb eine Authentifizierungs-Bypass-Bedingung, die in betroffenen Builds unautorisierten Zugriff erlaubte.',
+      localizedTexts: { de: 'CVE-2025-63389 beschrieb eine Authentifizierungs-Bypass-Bedingung, die in betroffenen Builds unautorisierten Zugriff erlaubte.' },
       severity: 'major',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-63389',
     },
     {
       id: 'gguf-parser-dos-cve-2025-66960',
       text: 'CVE-2025-66960 documented a GGUF metadata parsing flaw that can trigger denial-of-service conditions.',
-      textDe: 'CVE-2025-66960 dokumentierte einen Fehler im GGUF-Metadaten-Parsing, der Denial-of-Service-Zustände auslösen kann.',
+      localizedTexts: { de: 'CVE-2025-66960 dokumentierte einen Fehler im GGUF-Metadaten-Parsing, der Denial-of-Service-Zustände auslösen kann.' },
       severity: 'moderate',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-66960',
     },
     {
       id: 'no-published-github-security-advisories',
       text: 'The public GitHub Security Advisories section currently lists no published advisories, reducing centralized fixed-version traceability for auditors.',
-      textDe: 'Der öffentliche Bereich für GitHub Security Advisories listet derzeit keine veröffentlichten Advisories, was die zentrale Nachvollziehbarkeit gefixter Versionen für Audits reduziert.',
+      localizedTexts: { de: 'Der öffentliche Bereich für GitHub Security Advisories listet derzeit keine veröffentlichten Advisories, was die zentrale Nachvollziehbarkeit gefixter Versionen für Audits reduziert.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/ollama/ollama/security',
     },
     {
       id: 'internet-exposed-instance-risk',
       text: 'Internet-wide scans have repeatedly found exposed Ollama servers, indicating meaningful operational risk when local deployments are not hardened.',
-      textDe: 'Internetweite Scans haben wiederholt exponierte Ollama-Server gefunden und zeigen ein relevantes Betriebsrisiko bei ungenügend gehärteten lokalen Deployments.',
+      localizedTexts: { de: 'Internetweite Scans haben wiederholt exponierte Ollama-Server gefunden und zeigen ein relevantes Betriebsrisiko bei ungenügend gehärteten lokalen Deployments.' },
       severity: 'moderate',
       sourceUrl: 'https://censys.com/blog/open-ollama-servers',
     },
     {
       id: 'optional-cloud-account-dependency',
       text: 'Cloud models require account-based remote usage, adding service-side dependency compared with fully offline local-only operation.',
-      textDe: 'Cloud-Modelle erfordern kontobasierte Remote-Nutzung und fügen damit gegenüber rein offline lokalem Betrieb eine Dienstabhängigkeit hinzu.',
+      localizedTexts: { de: 'Cloud-Modelle erfordern kontobasierte Remote-Nutzung und fügen damit gegenüber rein offline lokalem Betrieb eine Dienstabhängigkeit hinzu.' },
       severity: 'moderate',
       sourceUrl: 'https://docs.ollama.com/cloud',
     },
@@ -1426,14 +1438,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'legacy-certification-coverage-2021',
       text: 'Olvid highlights ANSSI CSPN certifications, but the referenced evaluations are tied to older 2020/2021 mobile app versions rather than current production releases.',
-      textDe: 'Olvid verweist auf ANSSI-CSPN-Zertifizierungen, die in den verlinkten Nachweisen jedoch auf ältere mobile App-Versionen von 2020/2021 bezogen sind und nicht auf aktuelle Produktiv-Releases.',
+      localizedTexts: { de: 'Olvid verweist auf ANSSI-CSPN-Zertifizierungen, die in den verlinkten Nachweisen jedoch auf ältere mobile App-Versionen von 2020/2021 bezogen sind und nicht auf aktuelle Produktiv-Releases.' },
       severity: 'moderate',
       sourceUrl: 'https://www.olvid.io/technology/en',
     },
     {
       id: 'independent-side-channel-finding-2025',
       text: 'An ETH Zurich security seminar abstract reports a timing side-channel in Olvid with a proof-of-concept for long-term key reconstruction, raising high-assurance risk until a publicly verifiable fix timeline is available.',
-      textDe: 'Ein ETH-Zürich-Sicherheitsseminar beschreibt einen Timing-Side-Channel in Olvid mit Proof-of-Concept zur Rekonstruktion langfristiger Schlüssel, was für High-Assurance-Szenarien ein erhöhtes Risiko signalisiert, solange keine öffentlich verifizierbare Fix-Timeline vorliegt.',
+      localizedTexts: { de: 'Ein ETH-Zürich-Sicherheitsseminar beschreibt einen Timing-Side-Channel in Olvid mit Proof-of-Concept zur Rekonstruktion langfristiger Schlüssel, was für High-Assurance-Szenarien ein erhöhtes Risiko signalisiert, solange keine öffentlich verifizierbare Fix-Timeline vorliegt.' },
       severity: 'major',
       date: '2025-10-16',
       sourceUrl: 'https://zisc.ethz.ch/event/olvid-the-good-the-bad-and-the-ugly/',
@@ -1441,21 +1453,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'aws-hosting-jurisdiction-dependency',
       text: 'Olvid terms document AWS-hosted servers, so infrastructure and metadata pathways remain dependent on a US cloud provider even with end-to-end encrypted content.',
-      textDe: 'Die Olvid-AGB dokumentieren AWS-gehostete Server; damit bleiben Infrastruktur- und Metadatenpfade trotz Ende-zu-Ende-verschlüsselter Inhalte von einem US-Cloud-Anbieter abhängig.',
+      localizedTexts: { de: 'Die Olvid-AGB dokumentieren AWS-gehostete Server; damit bleiben Infrastruktur- und Metadatenpfade trotz Ende-zu-Ende-verschlüsselter Inhalte von einem US-Cloud-Anbieter abhängig.' },
       severity: 'moderate',
       sourceUrl: 'https://olvid.io/terms/en/',
     },
     {
       id: 'server-repo-strips-paid-components',
       text: 'The public Olvid AWS server repository states that paid-specific components are stripped from source publication, reducing full-stack reproducibility.',
-      textDe: 'Das öffentliche Olvid-AWS-Server-Repository weist darauf hin, dass bezahlte Komponenten aus der Quellcode-Veröffentlichung entfernt werden, was die Full-Stack-Reproduzierbarkeit einschränkt.',
+      localizedTexts: { de: 'Das öffentliche Olvid-AWS-Server-Repository weist darauf hin, dass bezahlte Komponenten aus der Quellcode-Veröffentlichung entfernt werden, was die Full-Stack-Reproduzierbarkeit einschränkt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/olvid-io/olvid-aws-server',
     },
     {
       id: 'direct-subscription-email-cancellation',
       text: 'Direct Olvid subscriptions require cancellation by email with one month notice, adding contractual friction versus one-click in-app cancellation flows.',
-      textDe: 'Direkte Olvid-Abonnements erfordern eine Kündigung per E-Mail mit einmonatiger Frist und erzeugen damit mehr vertragliche Reibung als One-Click-In-App-Kündigungen.',
+      localizedTexts: { de: 'Direkte Olvid-Abonnements erfordern eine Kündigung per E-Mail mit einmonatiger Frist und erzeugen damit mehr vertragliche Reibung als One-Click-In-App-Kündigungen.' },
       severity: 'minor',
       sourceUrl: 'https://olvid.io/terms/en/',
     },
@@ -1464,7 +1476,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'privacy-policy-last-updated-2021',
       text: 'Organic Maps privacy policy still states "effective as of 2021-04-24", which weakens policy-freshness assurance for current logging, retention, and processor-audit expectations.',
-      textDe: 'Die Organic-Maps-Privacy-Policy nennt weiterhin "effective as of 2021-04-24", was die Aktualitäts-Absicherung für heutige Logging-, Retention- und Processor-Audit-Erwartungen schwächt.',
+      localizedTexts: { de: 'Die Organic-Maps-Privacy-Policy nennt weiterhin "effective as of 2021-04-24", was die Aktualitäts-Absicherung für heutige Logging-, Retention- und Processor-Audit-Erwartungen schwächt.' },
       severity: 'moderate',
       date: '2021-04-24',
       sourceUrl: 'https://organicmaps.app/privacy/',
@@ -1472,21 +1484,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'fdroid-tetherednet-map-download-service',
       text: 'F-Droid metadata flags Organic Maps with the TetheredNet anti-feature because map downloads depend on cdn*.organicmaps.app.',
-      textDe: 'Die F-Droid-Metadaten markieren Organic Maps mit dem TetheredNet-Anti-Feature, weil Karten-Downloads von cdn*.organicmaps.app abhängen.',
+      localizedTexts: { de: 'Die F-Droid-Metadaten markieren Organic Maps mit dem TetheredNet-Anti-Feature, weil Karten-Downloads von cdn*.organicmaps.app abhängen.' },
       severity: 'moderate',
       sourceUrl: 'https://gitlab.com/fdroid/fdroiddata/-/raw/master/metadata/app.organicmaps.yml',
     },
     {
       id: 'no-security-policy-detected-on-github',
       text: 'The repository security page reports "No security policy detected", reducing formal disclosure-process clarity for security reporters.',
-      textDe: 'Die Security-Seite des Repositories meldet "No security policy detected", was die formale Klarheit des Disclosure-Prozesses für Security-Reporter reduziert.',
+      localizedTexts: { de: 'Die Security-Seite des Repositories meldet "No security policy detected", was die formale Klarheit des Disclosure-Prozesses für Security-Reporter reduziert.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/organicmaps/organicmaps/security/policy',
     },
     {
       id: 'kayak-affiliate-links-added-2025',
       text: 'The January 2025 release introduced optional Kayak hotel links (OFF by default in F-Droid), adding a monetization/partner-link surface to a privacy-branded app.',
-      textDe: 'Das Release vom Januar 2025 führte optionale Kayak-Hotel-Links ein (in F-Droid standardmässig AUS) und schuf damit eine Monetarisierungs-/Partner-Link-Fläche in einer Privacy-gebrandeten App.',
+      localizedTexts: { de: 'Das Release vom Januar 2025 führte optionale Kayak-Hotel-Links ein (in F-Droid standardmässig AUS) und schuf damit eine Monetarisierungs-/Partner-Link-Fläche in einer Privacy-gebrandeten App.' },
       severity: 'moderate',
       date: '2025-01-26',
       sourceUrl: 'https://organicmaps.app/news/2025-01-26/january-2025-01-26-release/',
@@ -1494,7 +1506,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'governance-conflict-and-community-fork-2025',
       text: 'A public contributor open letter documented governance/control conflict and preparation of a community fork (later CoMaps), signaling project-continuity risk.',
-      textDe: 'Ein öffentlicher Contributor-Open-Letter dokumentierte Governance-/Kontrollkonflikte und die Vorbereitung eines Community-Forks (später CoMaps), was ein Projekt-Kontinuitätsrisiko signalisiert.',
+      localizedTexts: { de: 'Ein öffentlicher Contributor-Open-Letter dokumentierte Governance-/Kontrollkonflikte und die Vorbereitung eines Community-Forks (später CoMaps), was ein Projekt-Kontinuitätsrisiko signalisiert.' },
       severity: 'major',
       date: '2025-04-16',
       sourceUrl: 'https://openletter.earth/open-letter-to-organic-maps-shareholders-a0bf770c',
@@ -1502,7 +1514,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'github-block-and-forgejo-migration-2025',
       text: 'Open-letter updates state the Organic Maps GitHub organization was temporarily archived during access-control conflict and that development moved to a self-hosted Forgejo instance, creating workflow continuity risk.',
-      textDe: 'Open-Letter-Updates geben an, dass die Organic-Maps-GitHub-Organisation während eines Access-Control-Konflikts temporär archiviert wurde und die Entwicklung auf eine selbstgehostete Forgejo-Instanz wechselte, was Workflow-Kontinuitätsrisiken erzeugt.',
+      localizedTexts: { de: 'Open-Letter-Updates geben an, dass die Organic-Maps-GitHub-Organisation während eines Access-Control-Konflikts temporär archiviert wurde und die Entwicklung auf eine selbstgehostete Forgejo-Instanz wechselte, was Workflow-Kontinuitätsrisiken erzeugt.' },
       severity: 'moderate',
       date: '2025-04-25',
       sourceUrl: 'https://openletter.earth/open-letter-to-organic-maps-shareholders-a0bf770c',
@@ -1510,7 +1522,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'binary-map-data-separate-license-constraints',
       text: 'DATA_LICENSE states that binary map data (.mwm/.bin) is licensed separately from source code and includes explicit attribution and anti-white-label conditions.',
-      textDe: 'Die DATA_LICENSE nennt, dass binäre Kartendaten (.mwm/.bin) getrennt vom Quellcode lizenziert sind und explizite Attributions- sowie Anti-White-Label-Bedingungen enthalten.',
+      localizedTexts: { de: 'Die DATA_LICENSE nennt, dass binäre Kartendaten (.mwm/.bin) getrennt vom Quellcode lizenziert sind und explizite Attributions- sowie Anti-White-Label-Bedingungen enthalten.' },
       severity: 'moderate',
       sourceUrl: 'https://raw.githubusercontent.com/organicmaps/organicmaps/master/DATA_LICENSE.txt',
     },
@@ -1519,7 +1531,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'critical-xxe-cve-2020-10993',
       text: 'CVE-2020-10993 documented a critical XXE weakness in OsmAnd through 2.0.0, indicating material historical security debt.',
-      textDe: 'CVE-2020-10993 dokumentierte eine kritische XXE-Schwachstelle in OsmAnd bis Version 2.0.0 und zeigt relevante historische Security-Schulden.',
+      localizedTexts: { de: 'CVE-2020-10993 dokumentierte eine kritische XXE-Schwachstelle in OsmAnd bis Version 2.0.0 und zeigt relevante historische Security-Schulden.' },
       severity: 'moderate',
       date: '2020-03-26',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2020-10993',
@@ -1527,42 +1539,42 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'osmand-no-security-policy-detected-on-github',
       text: 'The repository security page reports "No security policy detected", reducing disclosure-process clarity for security reporters.',
-      textDe: 'Die Security-Seite des Repositories meldet "No security policy detected", was die Klarheit des Disclosure-Prozesses für Security-Reporter reduziert.',
+      localizedTexts: { de: 'Die Security-Seite des Repositories meldet "No security policy detected", was die Klarheit des Disclosure-Prozesses für Security-Reporter reduziert.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/osmandapp/OsmAnd/security/policy',
     },
     {
       id: 'osmand-no-published-security-advisories',
       text: 'The public GitHub advisories page currently shows no published security advisories, limiting centralized fixed-version traceability.',
-      textDe: 'Die öffentliche GitHub-Advisories-Seite zeigt derzeit keine veröffentlichten Security Advisories, was die zentrale Nachvollziehbarkeit gefixter Versionen einschränkt.',
+      localizedTexts: { de: 'Die öffentliche GitHub-Advisories-Seite zeigt derzeit keine veröffentlichten Security Advisories, was die zentrale Nachvollziehbarkeit gefixter Versionen einschränkt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/osmandapp/OsmAnd/security/advisories',
     },
     {
       id: 'uuid-sent-with-map-download-requests',
       text: 'Terms describe that map-download requests include UUID plus metadata (including IP, days-since-install and start counts), creating telemetry sensitivity unless users disable data collection.',
-      textDe: 'Die Nutzungsbedingungen beschreiben, dass Karten-Download-Requests UUID plus Metadaten enthalten (inklusive IP, Tage seit Installation und Startanzahl), was ohne Deaktivierung der Datensammlung eine Telemetrie-Sensitivität erzeugt.',
+      localizedTexts: { de: 'Die Nutzungsbedingungen beschreiben, dass Karten-Download-Requests UUID plus Metadaten enthalten (inklusive IP, Tage seit Installation und Startanzahl), was ohne Deaktivierung der Datensammlung eine Telemetrie-Sensitivität erzeugt.' },
       severity: 'major',
       sourceUrl: 'https://osmand.net/help-online/terms-of-use/',
     },
     {
       id: 'privacy-policy-third-party-sharing-ambiguity',
       text: 'The privacy policy states collected data is "never shared with a third party" but elsewhere allows sharing certain non-personalized data with partners/service providers, creating policy-consistency ambiguity.',
-      textDe: 'Die Datenschutzerklärung sagt einerseits, erhobene Daten würden "never shared with a third party", erlaubt andererseits aber die Weitergabe bestimmter nicht-personalisierter Daten an Partner/Service-Provider, was eine Policy-Konsistenz-Unklarheit erzeugt.',
+      localizedTexts: { de: 'Die Datenschutzerklärung sagt einerseits, erhobene Daten würden "never shared with a third party", erlaubt andererseits aber die Weitergabe bestimmter nicht-personalisierter Daten an Partner/Service-Provider, was eine Policy-Konsistenz-Unklarheit erzeugt.' },
       severity: 'moderate',
       sourceUrl: 'https://osmand.net/help-online/privacy-policy/',
     },
     {
       id: 'fdroid-antifeatures-tracking-nonfree-assets-net',
       text: 'F-Droid flags OsmAnd with NonFreeAssets, NonFreeNet, and Tracking anti-features, including unique installation ID transmission with map-download requests.',
-      textDe: 'F-Droid markiert OsmAnd mit den Anti-Features NonFreeAssets, NonFreeNet und Tracking, inklusive Übertragung einer eindeutigen Installations-ID bei Karten-Downloads.',
+      localizedTexts: { de: 'F-Droid markiert OsmAnd mit den Anti-Features NonFreeAssets, NonFreeNet und Tracking, inklusive Übertragung einer eindeutigen Installations-ID bei Karten-Downloads.' },
       severity: 'moderate',
       sourceUrl: 'https://f-droid.org/packages/net.osmand.plus/',
     },
     {
       id: 'cloud-sync-reliability-regressions-2026',
       text: 'Multiple late-2025 and 2026 public issues report OsmAnd Cloud sync anomalies (restore/delete side effects and sync inconsistency), indicating operational risk for cloud-backed workflows.',
-      textDe: 'Mehrere öffentliche Issues aus Ende 2025 und 2026 melden OsmAnd-Cloud-Sync-Anomalien (Restore/Delete-Nebeneffekte und Sync-Inkonsistenzen) und zeigen ein Betriebsrisiko für cloudbasierte Workflows.',
+      localizedTexts: { de: 'Mehrere öffentliche Issues aus Ende 2025 und 2026 melden OsmAnd-Cloud-Sync-Anomalien (Restore/Delete-Nebeneffekte und Sync-Inkonsistenzen) und zeigen ein Betriebsrisiko für cloudbasierte Workflows.' },
       severity: 'moderate',
       date: '2026-01-04',
       sourceUrl: 'https://github.com/osmandapp/OsmAnd/issues/24228',
@@ -1570,7 +1582,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'paid-services-non-refundable-as-is-no-support-obligation',
       text: 'Terms state paid additional services are non-refundable and provided "AS IS", and they disclaim any obligation to provide support, updates, or bug-fix assistance.',
-      textDe: 'Die Nutzungsbedingungen legen fest, dass zusätzliche Bezahlservices nicht erstattbar sind und "AS IS" bereitgestellt werden; zudem besteht keine Verpflichtung zu Support, Updates oder Bugfix-Unterstützung.',
+      localizedTexts: { de: 'Die Nutzungsbedingungen legen fest, dass zusätzliche Bezahlservices nicht erstattbar sind und "AS IS" bereitgestellt werden; zudem besteht keine Verpflichtung zu Support, Updates oder Bugfix-Unterstützung.' },
       severity: 'moderate',
       sourceUrl: 'https://osmand.net/help-online/terms-of-use/',
     },
@@ -1579,35 +1591,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'osm-terms-as-is-no-security-or-uptime-warranty',
       text: 'OSMF Terms of Use provide services on an "as is/as available" basis and explicitly disclaim warranties for security and uninterrupted availability.',
-      textDe: 'Die OSMF-Nutzungsbedingungen stellen Dienste auf "as is/as available"-Basis bereit und schliessen Garantien für Sicherheit sowie unterbrechungsfreie Verfügbarkeit explizit aus.',
+      localizedTexts: { de: 'Die OSMF-Nutzungsbedingungen stellen Dienste auf "as is/as available"-Basis bereit und schliessen Garantien für Sicherheit sowie unterbrechungsfreie Verfügbarkeit explizit aus.' },
       severity: 'major',
       sourceUrl: 'https://osmfoundation.org/wiki/Terms_of_Use',
     },
     {
       id: 'community-tile-service-capacity-and-blocking-risk',
       text: 'The community tile service is donation-funded with limited capacity, and policy allows blocking heavy or non-compliant use without notice.',
-      textDe: 'Der Community-Tile-Dienst ist spendenfinanziert und kapazitätsbegrenzt; bei intensiver oder nicht konformer Nutzung kann laut Policy ohne Vorankündigung gesperrt werden.',
+      localizedTexts: { de: 'Der Community-Tile-Dienst ist spendenfinanziert und kapazitätsbegrenzt; bei intensiver oder nicht konformer Nutzung kann laut Policy ohne Vorankündigung gesperrt werden.' },
       severity: 'major',
       sourceUrl: 'https://operations.osmfoundation.org/policies/tiles/',
     },
     {
       id: 'public-nominatim-not-for-heavy-production-geocoding',
       text: 'Public Nominatim policy sets strict usage limits (for example max 1 request/second) and warns that access can be withdrawn without notice.',
-      textDe: 'Die öffentliche Nominatim-Policy setzt strenge Limits (zum Beispiel maximal 1 Anfrage pro Sekunde) und weist darauf hin, dass der Zugriff ohne Vorankündigung entzogen werden kann.',
+      localizedTexts: { de: 'Die öffentliche Nominatim-Policy setzt strenge Limits (zum Beispiel maximal 1 Anfrage pro Sekunde) und weist darauf hin, dass der Zugriff ohne Vorankündigung entzogen werden kann.' },
       severity: 'moderate',
       sourceUrl: 'https://operations.osmfoundation.org/policies/nominatim/',
     },
     {
       id: 'global-cdn-cross-border-processing',
       text: 'OSMF states personal data is stored in the UK and Netherlands with EU backups, while tile delivery depends on a global CDN/cache network.',
-      textDe: 'Die OSMF gibt an, personenbezogene Daten in Grossbritannien und den Niederlanden mit EU-Backups zu speichern, während die Tile-Auslieferung von einem globalen CDN-/Cache-Netzwerk abhängt.',
+      localizedTexts: { de: 'Die OSMF gibt an, personenbezogene Daten in Grossbritannien und den Niederlanden mit EU-Backups zu speichern, während die Tile-Auslieferung von einem globalen CDN-/Cache-Netzwerk abhängt.' },
       severity: 'moderate',
       sourceUrl: 'https://osmfoundation.org/wiki/Privacy_Policy',
     },
     {
       id: 'funding-volatility-highlighted-2025',
       text: 'The 2025 Treasurer report describes a "big loss" and donation volatility, highlighting sustainability risk for volunteer-run infrastructure.',
-      textDe: 'Der Treasurer-Report 2025 beschreibt einen "big loss" und schwankende Spenden, was ein Nachhaltigkeitsrisiko für freiwillig getragene Infrastruktur signalisiert.',
+      localizedTexts: { de: 'Der Treasurer-Report 2025 beschreibt einen "big loss" und schwankende Spenden, was ein Nachhaltigkeitsrisiko für freiwillig getragene Infrastruktur signalisiert.' },
       severity: 'moderate',
       date: '2025-09-13',
       sourceUrl: 'https://osmfoundation.org/wiki/Annual_General_Meetings/2025/Treasurer%27s_report',
@@ -1615,7 +1627,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'network-outage-december-2024',
       text: 'OSMF published a post-mortem for a December 15, 2024 network outage affecting openstreetmap.org, showing that public endpoints can experience notable disruptions.',
-      textDe: 'Die OSMF veröffentlichte ein Post-Mortem zu einem Netzwerkausfall am 15. Dezember 2024 bei openstreetmap.org; öffentliche Endpunkte können daher spürbare Störungen erleben.',
+      localizedTexts: { de: 'Die OSMF veröffentlichte ein Post-Mortem zu einem Netzwerkausfall am 15. Dezember 2024 bei openstreetmap.org; öffentliche Endpunkte können daher spürbare Störungen erleben.' },
       severity: 'moderate',
       date: '2024-12-15',
       sourceUrl: 'https://operations.osmfoundation.org/2025/02/15/post-mortem.html',
@@ -1623,7 +1635,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-public-bug-bounty-program',
       text: 'The openstreetmap-website security policy welcomes vulnerability reports but states that no bug bounty program is offered.',
-      textDe: 'Die Security-Policy von openstreetmap-website begrüsst Schwachstellenmeldungen, gibt aber an, dass kein Bug-Bounty-Programm angeboten wird.',
+      localizedTexts: { de: 'Die Security-Policy von openstreetmap-website begrüsst Schwachstellenmeldungen, gibt aber an, dass kein Bug-Bounty-Programm angeboten wird.' },
       severity: 'minor',
       sourceUrl: 'https://github.com/openstreetmap/openstreetmap-website/security/policy',
     },
@@ -1632,7 +1644,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'strasbourg-fire-data-loss-and-compensation',
       text: 'The 2021 Strasbourg datacenter fire caused major service disruption and customer data loss; later court rulings ordered compensation in backup-loss cases.',
-      textDe: 'Der Brand im Strassburger Rechenzentrum 2021 führte zu erheblichen Ausfällen und Datenverlusten; spätere Gerichtsurteile verpflichteten zu Entschädigungen bei Backup-Verlustfällen.',
+      localizedTexts: { de: 'Der Brand im Strassburger Rechenzentrum 2021 führte zu erheblichen Ausfällen und Datenverlusten; spätere Gerichtsurteile verpflichteten zu Entschädigungen bei Backup-Verlustfällen.' },
       severity: 'major',
       date: '2021-03-10',
       sourceUrl: 'https://www.datacenterdynamics.com/en/news/ovhcloud-ordered-to-pay-250k-to-two-customers-who-lost-data-in-strasbourg-data-center-fire/',
@@ -1640,7 +1652,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'global-backbone-outage-2024',
       text: 'A global OVHcloud backbone incident on October 30, 2024 caused a brief but significant service disruption and highlighted routing fragility.',
-      textDe: 'Ein globaler OVHcloud-Backbone-Vorfall am 30. Oktober 2024 verursachte eine kurze, aber signifikante Störung und zeigte Routing-Anfälligkeit.',
+      localizedTexts: { de: 'Ein globaler OVHcloud-Backbone-Vorfall am 30. Oktober 2024 verursachte eine kurze, aber signifikante Störung und zeigte Routing-Anfälligkeit.' },
       severity: 'moderate',
       date: '2024-10-30',
       sourceUrl: 'https://blog.cloudflare.com/cloudflare-perspective-of-the-october-30-2024-ovhcloud-outage/',
@@ -1648,7 +1660,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'cispe-register-renewal-visibility-gap',
       text: 'The CISPE public register lists multiple OVH services with a due date of 2025-02-01, creating renewal-status uncertainty without a visible newer entry.',
-      textDe: 'Das öffentliche CISPE-Register listet mehrere OVH-Dienste mit Fälligkeitsdatum 2025-02-01, was ohne klaren neueren Eintrag Unsicherheit zum Verlängerungsstatus erzeugt.',
+      localizedTexts: { de: 'Das öffentliche CISPE-Register listet mehrere OVH-Dienste mit Fälligkeitsdatum 2025-02-01, was ohne klaren neueren Eintrag Unsicherheit zum Verlängerungsstatus erzeugt.' },
       severity: 'moderate',
       date: '2025-02-01',
       sourceUrl: 'https://www.codeofconduct.cloud/public-register/',
@@ -1656,21 +1668,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'immediate-termination-can-block-data-retrieval',
       text: 'OVHcloud terms allow immediate termination (for example on law-enforcement request), and in such cases data retrieval may be denied.',
-      textDe: 'Die OVHcloud-AGB erlauben eine sofortige Kündigung (zum Beispiel bei behördlicher Anfrage); in solchen Fällen kann die Datenabholung verweigert werden.',
+      localizedTexts: { de: 'Die OVHcloud-AGB erlauben eine sofortige Kündigung (zum Beispiel bei behördlicher Anfrage); in solchen Fällen kann die Datenabholung verweigert werden.' },
       severity: 'moderate',
       sourceUrl: 'https://us.ovhcloud.com/legal/terms-of-service/',
     },
     {
       id: 'post-termination-retrieval-window-and-purge',
       text: 'Post-termination access for data retrieval is limited and customer data is documented as purged within 15 days after termination or non-renewal.',
-      textDe: 'Der Zugriff zur Datenabholung nach Vertragsende ist zeitlich begrenzt, und Kundendaten werden laut Dokumentation innerhalb von 15 Tagen nach Kündigung oder Nichtverlängerung gelöscht.',
+      localizedTexts: { de: 'Der Zugriff zur Datenabholung nach Vertragsende ist zeitlich begrenzt, und Kundendaten werden laut Dokumentation innerhalb von 15 Tagen nach Kündigung oder Nichtverlängerung gelöscht.' },
       severity: 'moderate',
       sourceUrl: 'https://us.ovhcloud.com/sites/default/files/external_files/ovhcloud-us-soc3-report-2025.pdf',
     },
     {
       id: 'usage-data-aggregation-third-party-sharing',
       text: 'OVHcloud terms state that usage data may be aggregated or anonymized for statistics and shared with third parties.',
-      textDe: 'Die OVHcloud-AGB nennen, dass Nutzungsdaten für Statistikzwecke aggregiert oder anonymisiert und mit Dritten geteilt werden können.',
+      localizedTexts: { de: 'Die OVHcloud-AGB nennen, dass Nutzungsdaten für Statistikzwecke aggregiert oder anonymisiert und mit Dritten geteilt werden können.' },
       severity: 'minor',
       sourceUrl: 'https://us.ovhcloud.com/legal/terms-of-service/',
     },
@@ -1679,14 +1691,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'client-side-encryption-not-default',
       text: 'pCloud states that client-side pCloud Encryption is optional; standard accounts rely on transport and server-side encryption unless users buy and enable the extra crypto layer.',
-      textDe: 'pCloud gibt an, dass die client-seitige pCloud Encryption optional ist; Standardkonten nutzen ohne den zusätzlichen Crypto-Tarif Transport- und serverseitige Verschlüsselung.',
+      localizedTexts: { de: 'pCloud gibt an, dass die client-seitige pCloud Encryption optional ist; Standardkonten nutzen ohne den zusätzlichen Crypto-Tarif Transport- und serverseitige Verschlüsselung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.pcloud.com/help/general-help-center/how-are-my-files-secured-if-im-not-subscribed-to-pcloud-encryption',
     },
     {
       id: 'ccs-2024-malicious-server-crypto-findings',
       text: 'CCS 2024 cryptography research reported severe malicious-server weaknesses for pCloud, including key substitution/overwriting paths, unauthenticated chunking, metadata tampering, and file injection classes.',
-      textDe: 'Kryptographie-Forschung zur CCS 2024 meldete für pCloud schwere Malicious-Server-Schwächen, darunter Key-Substitution/Overwriting, unauthenticated chunking, Metadata-Tampering und File-Injection-Klassen.',
+      localizedTexts: { de: 'Kryptographie-Forschung zur CCS 2024 meldete für pCloud schwere Malicious-Server-Schwächen, darunter Key-Substitution/Overwriting, unauthenticated chunking, Metadata-Tampering und File-Injection-Klassen.' },
       severity: 'major',
       date: '2024-11-14',
       sourceUrl: 'https://eprint.iacr.org/2024/1616',
@@ -1694,7 +1706,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'coordinated-disclosure-nonresponse-2024',
       text: 'The researchers behind the pCloud protocol analysis state that pCloud had not responded to multiple coordinated-disclosure contact attempts as of October 10, 2024.',
-      textDe: 'Die Forschenden hinter der pCloud-Protokollanalyse geben an, dass pCloud bis zum 10. Oktober 2024 auf mehrere Coordinated-Disclosure-Kontaktversuche nicht reagiert hatte.',
+      localizedTexts: { de: 'Die Forschenden hinter der pCloud-Protokollanalyse geben an, dass pCloud bis zum 10. Oktober 2024 auf mehrere Coordinated-Disclosure-Kontaktversuche nicht reagiert hatte.' },
       severity: 'major',
       date: '2024-10-10',
       sourceUrl: 'https://brokencloudstorage.info/',
@@ -1702,21 +1714,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'data-residency-can-be-us',
       text: 'pCloud documents EU and US data-region options, meaning sovereignty and cross-border exposure depend on region selection and account setup choices.',
-      textDe: 'pCloud dokumentiert EU- und US-Datenregionen; Souveränität und grenzüberschreitende Exposition hängen damit von Regionenwahl und Account-Setup ab.',
+      localizedTexts: { de: 'pCloud dokumentiert EU- und US-Datenregionen; Souveränität und grenzüberschreitende Exposition hängen damit von Regionenwahl und Account-Setup ab.' },
       severity: 'moderate',
       sourceUrl: 'https://pcdn-www.pcloud.com/help/general-help-center/what-data-regions-are-available-to-store-my-data',
     },
     {
       id: 'auto-renew-and-termination-refund-friction',
       text: 'Terms describe automatic renewal for paid plans and broad discretionary termination powers, including clauses where terminated accounts may not receive fee refunds.',
-      textDe: 'Die AGB beschreiben automatische Verlängerung für Paid-Pläne und weitreichende Kündigungsrechte nach Ermessen, inklusive Klauseln ohne Gebührenrückerstattung bei gekündigten Accounts.',
+      localizedTexts: { de: 'Die AGB beschreiben automatische Verlängerung für Paid-Pläne und weitreichende Kündigungsrechte nach Ermessen, inklusive Klauseln ohne Gebührenrückerstattung bei gekündigten Accounts.' },
       severity: 'moderate',
       sourceUrl: 'https://www.pcloud.com/terms_and_conditions',
     },
     {
       id: 'mixed-user-sentiment-support-account-issues',
       text: 'Trustpilot reviews show highly mixed sentiment with repeated complaints around support response quality, account access friction, and billing disputes (community signal).',
-      textDe: 'Trustpilot-Bewertungen zeigen stark gemischtes Sentiment mit wiederholten Beschwerden zu Supportqualität, Account-Zugriffsproblemen und Billing-Streitfällen (Community-Signal).',
+      localizedTexts: { de: 'Trustpilot-Bewertungen zeigen stark gemischtes Sentiment mit wiederholten Beschwerden zu Supportqualität, Account-Zugriffsproblemen und Billing-Streitfällen (Community-Signal).' },
       severity: 'minor',
       date: '2026-02-12',
       sourceUrl: 'https://www.trustpilot.com/review/pcloud.com',
@@ -1726,7 +1738,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'active-exploit-chain-cve-2022-36408',
       text: 'In July 2022, PrestaShop warned about an actively exploited SQL-injection chain that enabled code execution and checkout skimming on vulnerable stores.',
-      textDe: 'Im Juli 2022 warnte PrestaShop vor einer aktiv ausgenutzten SQL-Injection-Kette, die auf verwundbaren Shops Code-Ausführung und Checkout-Skimming ermöglichte.',
+      localizedTexts: { de: 'Im Juli 2022 warnte PrestaShop vor einer aktiv ausgenutzten SQL-Injection-Kette, die auf verwundbaren Shops Code-Ausführung und Checkout-Skimming ermöglichte.' },
       severity: 'major',
       date: '2022-07-22',
       sourceUrl: 'https://build.prestashop-project.org/news/2022/major-security-vulnerability-on-prestashop-websites/',
@@ -1734,35 +1746,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'module-supply-chain-critical-cve-volume',
       text: 'The Friends-Of-Presta advisory feed documents recurring high and critical vulnerabilities in third-party modules, reinforcing structural module supply-chain risk.',
-      textDe: 'Der Advisory-Feed von Friends-Of-Presta dokumentiert wiederkehrende High- und Critical-Schwachstellen in Drittanbieter-Modulen und bestätigt damit ein strukturelles Modul-Supply-Chain-Risiko.',
+      localizedTexts: { de: 'Der Advisory-Feed von Friends-Of-Presta dokumentiert wiederkehrende High- und Critical-Schwachstellen in Drittanbieter-Modulen und bestätigt damit ein strukturelles Modul-Supply-Chain-Risiko.' },
       severity: 'major',
       sourceUrl: 'https://security.friendsofpresta.org/',
     },
     {
       id: 'no-native-iso27001-soc2-assurance',
       text: 'PrestaShop states that compliance with standards such as ISO 27001 is not provided natively and remains the responsibility of each shop owner.',
-      textDe: 'PrestaShop erklärt, dass Compliance mit Standards wie ISO 27001 nicht nativ bereitgestellt wird und in der Verantwortung jedes Shop-Betreibers liegt.',
+      localizedTexts: { de: 'PrestaShop erklärt, dass Compliance mit Standards wie ISO 27001 nicht nativ bereitgestellt wird und in der Verantwortung jedes Shop-Betreibers liegt.' },
       severity: 'moderate',
       sourceUrl: 'https://help-center.prestashop.com/hc/en-us/articles/20622190212498-PrestaShop-certifications',
     },
     {
       id: 'cloudsync-automatic-activation-and-data-sharing',
       text: 'Account/Services terms describe CloudSync data collection/sharing for analytics and reserve a right to activate CloudSync automatically when modules are updated or continued.',
-      textDe: 'Die Account-/Service-AGB beschreiben CloudSync-Datenerhebung/-Weitergabe für Analytics und behalten sich eine automatische CloudSync-Aktivierung bei Modul-Updates bzw. Weiternutzung vor.',
+      localizedTexts: { de: 'Die Account-/Service-AGB beschreiben CloudSync-Datenerhebung/-Weitergabe für Analytics und behalten sich eine automatische CloudSync-Aktivierung bei Modul-Updates bzw. Weiternutzung vor.' },
       severity: 'major',
       sourceUrl: 'https://prestashop.com/prestashop-account-terms-conditions/',
     },
     {
       id: 'bug-bounty-currently-paused',
       text: 'The project bug bounty page states that the security bounty program is currently paused.',
-      textDe: 'Die Bug-Bounty-Seite des Projekts nennt, dass das Sicherheits-Bounty-Programm derzeit pausiert ist.',
+      localizedTexts: { de: 'Die Bug-Bounty-Seite des Projekts nennt, dass das Sicherheits-Bounty-Programm derzeit pausiert ist.' },
       severity: 'moderate',
       sourceUrl: 'https://www.prestashop-project.org/security/bug-bounty/',
     },
     {
       id: 'ownership-transition-to-cyber-folks-pending-close',
       text: 'Fortidia announced a preliminary agreement to sell PrestaShop to a cyber_Folks-controlled company in Poland; this keeps ownership inside the EU, but transition execution risk remains until closing.',
-      textDe: 'Fortidia kündigte eine Vorabvereinbarung zum Verkauf von PrestaShop an eine von cyber_Folks kontrollierte Gesellschaft in Polen an; damit bleibt die Eigentümerschaft innerhalb der EU, bis zum Closing bleibt jedoch ein Transitionsrisiko.',
+      localizedTexts: { de: 'Fortidia kündigte eine Vorabvereinbarung zum Verkauf von PrestaShop an eine von cyber_Folks kontrollierte Gesellschaft in Polen an; damit bleibt die Eigentümerschaft innerhalb der EU, bis zum Closing bleibt jedoch ein Transitionsrisiko.' },
       severity: 'minor',
       date: '2025-12-11',
       sourceUrl: 'https://www.fortidia.com/fortidia-announces-the-sale-of-prestashop-to-cyber_folks-to-accelerate-growth-in-the-core-logistics-business',
@@ -1770,14 +1782,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'subscription-renewal-no-refund-clause',
       text: 'Account/Services terms state that started subscription periods are due and cannot be reimbursed.',
-      textDe: 'Die Account-/Service-AGB legen fest, dass begonnene Abonnementzeiträume fällig sind und nicht erstattet werden können.',
+      localizedTexts: { de: 'Die Account-/Service-AGB legen fest, dass begonnene Abonnementzeiträume fällig sind und nicht erstattet werden können.' },
       severity: 'moderate',
       sourceUrl: 'https://prestashop.com/prestashop-account-terms-conditions/',
     },
     {
       id: 'distribution-api-url-tracking-default',
       text: 'The project data-transparency page states Distribution API telemetry can include shop URL and version, and disabling URL tracking requires explicit configuration.',
-      textDe: 'Die Data-Transparency-Seite des Projekts nennt, dass Distribution-API-Telemetrie Shop-URL und Version enthalten kann; das Deaktivieren des URL-Trackings erfordert explizite Konfiguration.',
+      localizedTexts: { de: 'Die Data-Transparency-Seite des Projekts nennt, dass Distribution-API-Telemetrie Shop-URL und Version enthalten kann; das Deaktivieren des URL-Trackings erfordert explizite Konfiguration.' },
       severity: 'moderate',
       sourceUrl: 'https://www.prestashop-project.org/data-transparency/',
     },
@@ -1786,7 +1798,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'backend-not-fully-open-source',
       text: 'Client applications are open source, but backend server code remains largely proprietary.',
-      textDe: 'Client-Anwendungen sind quelloffen, der Backend-Servercode bleibt jedoch weitgehend proprietär.',
+      localizedTexts: { de: 'Client-Anwendungen sind quelloffen, der Backend-Servercode bleibt jedoch weitgehend proprietär.' },
       severity: 'minor',
       sourceUrl: 'https://proton.me/blog/open-source',
     },
@@ -1795,7 +1807,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ip-logging-court-order-2021',
       text: 'In 2021, Proton logged IP metadata for a user after a Swiss court order.',
-      textDe: '2021 protokollierte Proton IP-Metadaten eines Nutzers nach einer Schweizer Gerichtsanordnung.',
+      localizedTexts: { de: '2021 protokollierte Proton IP-Metadaten eines Nutzers nach einer Schweizer Gerichtsanordnung.' },
       severity: 'moderate',
       date: '2021-09-01',
       sourceUrl: 'https://proton.me/blog/climate-activist-arrest',
@@ -1803,21 +1815,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'account-restriction-abuse-controls',
       text: 'Proton documents that abuse controls can temporarily restrict or disable account access while a review is in progress.',
-      textDe: 'Proton dokumentiert, dass Abuse-Kontrollen den Konto-Zugriff während einer Prüfung vorübergehend einschränken oder deaktivieren können.',
+      localizedTexts: { de: 'Proton dokumentiert, dass Abuse-Kontrollen den Konto-Zugriff während einer Prüfung vorübergehend einschränken oder deaktivieren können.' },
       severity: 'moderate',
       sourceUrl: 'https://proton.me/support/account-disabled',
     },
     {
       id: 'ios-repo-not-externally-buildable',
       text: 'The public Proton Mail iOS repository states that the app cannot currently be built directly from GitHub because part of the SDK distribution remains internal.',
-      textDe: 'Das öffentliche Proton-Mail-iOS-Repository gibt an, dass die App derzeit nicht direkt aus GitHub gebaut werden kann, weil ein Teil der SDK-Distribution intern bleibt.',
+      localizedTexts: { de: 'Das öffentliche Proton-Mail-iOS-Repository gibt an, dass die App derzeit nicht direkt aus GitHub gebaut werden kann, weil ein Teil der SDK-Distribution intern bleibt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/ProtonMail/ios-mail/blob/main/README.md',
     },
     {
       id: 'auto-renewal-then-current-pricing',
       text: 'Terms allow automatic renewal at the then-current price, so renewal cost changes require active monitoring.',
-      textDe: 'Die AGB erlauben automatische Verlängerung zum dann gültigen Preis; Preisveränderungen bei Verlängerung müssen daher aktiv überwacht werden.',
+      localizedTexts: { de: 'Die AGB erlauben automatische Verlängerung zum dann gültigen Preis; Preisveränderungen bei Verlängerung müssen daher aktiv überwacht werden.' },
       severity: 'minor',
       sourceUrl: 'https://proton.me/legal/terms',
     },
@@ -1826,7 +1838,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'backend-not-fully-open-source',
       text: 'Client applications are open source, but backend server code remains largely proprietary.',
-      textDe: 'Client-Anwendungen sind quelloffen, der Backend-Servercode bleibt jedoch weitgehend proprietär.',
+      localizedTexts: { de: 'Client-Anwendungen sind quelloffen, der Backend-Servercode bleibt jedoch weitgehend proprietär.' },
       severity: 'minor',
       sourceUrl: 'https://proton.me/blog/open-source',
     },
@@ -1835,7 +1847,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'wireguard-service-privilege-escalation-cve-2022-50917',
       text: 'NVD lists CVE-2022-50917 (published on January 13, 2026) as a high-severity local privilege-escalation issue in Proton VPN Windows 1.26.0 caused by an unquoted service path in WireGuard service setup.',
-      textDe: 'NVD führt CVE-2022-50917 (veröffentlicht am 13. Januar 2026) als High-Severity-Lokal-Privilege-Escalation in Proton VPN Windows 1.26.0 durch einen unquoted service path im WireGuard-Service-Setup.',
+      localizedTexts: { de: 'NVD führt CVE-2022-50917 (veröffentlicht am 13. Januar 2026) als High-Severity-Lokal-Privilege-Escalation in Proton VPN Windows 1.26.0 durch einen unquoted service path im WireGuard-Service-Setup.' },
       severity: 'major',
       date: '2026-01-13',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2022-50917',
@@ -1843,7 +1855,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'windows-installer-path-cve-2024-37391',
       text: 'NVD lists CVE-2024-37391 as a high-severity installer/path-handling weakness in Proton VPN Windows before 3.2.12, showing ongoing hardening requirements for privileged client components.',
-      textDe: 'NVD führt CVE-2024-37391 als High-Severity-Installer-/Path-Handling-Schwachstelle in Proton VPN Windows vor 3.2.12, was fortlaufende Hardening-Anforderungen für privilegierte Client-Komponenten zeigt.',
+      localizedTexts: { de: 'NVD führt CVE-2024-37391 als High-Severity-Installer-/Path-Handling-Schwachstelle in Proton VPN Windows vor 3.2.12, was fortlaufende Hardening-Anforderungen für privilegierte Client-Komponenten zeigt.' },
       severity: 'moderate',
       date: '2024-07-22',
       sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-37391',
@@ -1851,14 +1863,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'vpn-auto-renew-then-current-pricing',
       text: 'Terms allow automatic renewal at the then-current price, so discounted entry pricing can convert to higher renewal pricing unless users actively manage subscription settings.',
-      textDe: 'Die AGB erlauben automatische Verlängerung zum dann gültigen Preis; rabattierte Einstiegspreise können ohne aktive Vertragskontrolle in höhere Renewal-Preise übergehen.',
+      localizedTexts: { de: 'Die AGB erlauben automatische Verlängerung zum dann gültigen Preis; rabattierte Einstiegspreise können ohne aktive Vertragskontrolle in höhere Renewal-Preise übergehen.' },
       severity: 'moderate',
       sourceUrl: 'https://proton.me/legal/terms',
     },
     {
       id: 'legacy-openvpn-config-deactivation-2026',
       text: 'Proton announced that OpenVPN configurations generated before September 2023 are being deactivated in 2026, requiring manual config rotation for some legacy setups.',
-      textDe: 'Proton kündigte an, dass vor September 2023 erzeugte OpenVPN-Konfigurationen 2026 deaktiviert werden; für einige Legacy-Setups ist damit eine manuelle Config-Rotation nötig.',
+      localizedTexts: { de: 'Proton kündigte an, dass vor September 2023 erzeugte OpenVPN-Konfigurationen 2026 deaktiviert werden; für einige Legacy-Setups ist damit eine manuelle Config-Rotation nötig.' },
       severity: 'moderate',
       date: '2026-01-14',
       sourceUrl: 'https://protonvpn.com/blog/old-ovpn-configs',
@@ -1866,7 +1878,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'vpn-login-disruption-incident-2025',
       text: 'A January 2025 incident affected logins and VPN connections, confirming that service disruptions can impact availability.',
-      textDe: 'Ein Vorfall im Januar 2025 beeinträchtigte Logins und VPN-Verbindungen und bestätigte, dass Störungen die Verfügbarkeit beeinflussen können.',
+      localizedTexts: { de: 'Ein Vorfall im Januar 2025 beeinträchtigte Logins und VPN-Verbindungen und bestätigte, dass Störungen die Verfügbarkeit beeinflussen können.' },
       severity: 'minor',
       date: '2025-01-09',
       sourceUrl: 'https://www.heise.de/en/news/Apparent-technical-fault-at-mail-and-VPN-provider-Proton-10234682.html',
@@ -1876,21 +1888,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-end-to-end-encryption-by-default',
       text: 'Posteo does not provide end-to-end encryption by default in standard mailbox use; users must configure OpenPGP or S/MIME workflows for true E2EE.',
-      textDe: 'Posteo bietet bei normaler Mailbox-Nutzung keine Ende-zu-Ende-Verschlüsselung standardmässig; für echte E2EE müssen Nutzer OpenPGP- oder S/MIME-Workflows selbst konfigurieren.',
+      localizedTexts: { de: 'Posteo bietet bei normaler Mailbox-Nutzung keine Ende-zu-Ende-Verschlüsselung standardmässig; für echte E2EE müssen Nutzer OpenPGP- oder S/MIME-Workflows selbst konfigurieren.' },
       severity: 'major',
       sourceUrl: 'https://www.techradar.com/reviews/posteo',
     },
     {
       id: 'custom-domain-not-supported',
       text: 'Posteo does not support custom domains, which can increase identity lock-in when migrating away from @posteo addresses.',
-      textDe: 'Posteo unterstützt keine eigenen Domains, was bei einem Wechsel von @posteo-Adressen den Identitäts-Lock-in erhöhen kann.',
+      localizedTexts: { de: 'Posteo unterstützt keine eigenen Domains, was bei einem Wechsel von @posteo-Adressen den Identitäts-Lock-in erhöhen kann.' },
       severity: 'moderate',
       sourceUrl: 'https://www.techradar.com/reviews/posteo',
     },
     {
       id: 'ddos-attack-series-may-2022',
       text: 'Posteo reported repeated DDoS attacks in May 2022 that degraded service availability for users.',
-      textDe: 'Posteo meldete im Mai 2022 wiederholte DDoS-Angriffe, die die Dienstverfügbarkeit für Nutzer beeinträchtigten.',
+      localizedTexts: { de: 'Posteo meldete im Mai 2022 wiederholte DDoS-Angriffe, die die Dienstverfügbarkeit für Nutzer beeinträchtigten.' },
       severity: 'moderate',
       date: '2022-05-17',
       sourceUrl: 'https://www.golem.de/news/posteo-maildienst-kaempft-mit-ddos-attacken-2205-165354.html',
@@ -1898,7 +1910,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'lawful-ip-logging-on-court-order',
       text: 'German court decisions can compel mailbox providers like Posteo to log and hand over IP data for targeted accounts under valid legal orders.',
-      textDe: 'Deutsche Gerichtsentscheidungen können Anbieter wie Posteo bei gültigen Anordnungen zum Mitschreiben und Herausgeben von IP-Daten für Zielkonten verpflichten.',
+      localizedTexts: { de: 'Deutsche Gerichtsentscheidungen können Anbieter wie Posteo bei gültigen Anordnungen zum Mitschreiben und Herausgeben von IP-Daten für Zielkonten verpflichten.' },
       severity: 'moderate',
       date: '2019-01-16',
       sourceUrl: 'https://www.golem.de/news/ip-stripping-e-mail-anbieter-muss-auf-verlangen-ip-adressen-mitloggen-1901-139043.html',
@@ -1906,7 +1918,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'high-rate-of-invalid-authority-requests',
       text: 'Posteo transparency reporting shows a high share of formally invalid authority requests, highlighting persistent legal-process pressure around mailbox data.',
-      textDe: 'Die Transparenzberichte von Posteo zeigen einen hohen Anteil formal fehlerhafter Behördenanfragen und damit anhaltenden Rechtsprozess-Druck rund um Mailbox-Daten.',
+      localizedTexts: { de: 'Die Transparenzberichte von Posteo zeigen einen hohen Anteil formal fehlerhafter Behördenanfragen und damit anhaltenden Rechtsprozess-Druck rund um Mailbox-Daten.' },
       severity: 'minor',
       date: '2025-04-14',
       sourceUrl: 'https://www.golem.de/news/transparenzbericht-posteo-weist-61-prozent-der-behoerdenanfragen-zurueck-2504-195561.html',
@@ -1916,14 +1928,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'microsoft-data-path-for-search-and-ads',
       text: 'Qwant states that search queries, device/browser data, and IP-related data are shared with Microsoft for search and ad delivery, including cases where full IP addresses are transferred.',
-      textDe: 'Qwant gibt an, dass Suchanfragen, Geräte-/Browser-Daten und IP-bezogene Daten für Such- und Werbeauslieferung an Microsoft übermittelt werden, inklusive Fällen mit Übertragung der vollen IP-Adresse.',
+      localizedTexts: { de: 'Qwant gibt an, dass Suchanfragen, Geräte-/Browser-Daten und IP-bezogene Daten für Such- und Werbeauslieferung an Microsoft übermittelt werden, inklusive Fällen mit Übertragung der vollen IP-Adresse.' },
       severity: 'major',
       sourceUrl: 'https://about.qwant.com/en/legal/confidentialite/',
     },
     {
       id: 'cnil-legal-basis-finding-2023',
       text: 'CNIL reported that Qwant processed personal data without a valid legal basis in a Microsoft-related flow and clarified that pseudonymized data is still personal data.',
-      textDe: 'Die CNIL berichtete, dass Qwant in einem Microsoft-bezogenen Datenfluss personenbezogene Daten ohne gültige Rechtsgrundlage verarbeitet hat, und stellte klar, dass pseudonymisierte Daten weiterhin personenbezogene Daten sind.',
+      localizedTexts: { de: 'Die CNIL berichtete, dass Qwant in einem Microsoft-bezogenen Datenfluss personenbezogene Daten ohne gültige Rechtsgrundlage verarbeitet hat, und stellte klar, dass pseudonymisierte Daten weiterhin personenbezogene Daten sind.' },
       severity: 'major',
       date: '2023-06-15',
       sourceUrl: 'https://www.cnil.fr/en/search-engine-qwant-sanctioned-processing-personal-data-without-legal-basis',
@@ -1931,7 +1943,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'bing-upstream-outage-coupling-2024',
       text: 'Bing API outages can cascade to Bing-dependent search providers, which is an operational dependency risk for Qwant.',
-      textDe: 'Ausfälle der Bing-API können auf Bing-abhängige Suchanbieter durchschlagen; das ist ein operatives Abhängigkeitsrisiko für Qwant.',
+      localizedTexts: { de: 'Ausfälle der Bing-API können auf Bing-abhängige Suchanbieter durchschlagen; das ist ein operatives Abhängigkeitsrisiko für Qwant.' },
       severity: 'moderate',
       date: '2024-05-23',
       sourceUrl: 'https://techcrunch.com/2024/05/23/bing-is-down-bringing-duckduckgo-and-ecosia-down-too/',
@@ -1939,7 +1951,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'qwantmaps-repository-archived-2024',
       text: 'The public Qwant Maps repository was archived in June 2024 and is now read-only.',
-      textDe: 'Das öffentliche Qwant-Maps-Repository wurde im Juni 2024 archiviert und ist nun read-only.',
+      localizedTexts: { de: 'Das öffentliche Qwant-Maps-Repository wurde im Juni 2024 archiviert und ist nun read-only.' },
       severity: 'moderate',
       date: '2024-06-03',
       sourceUrl: 'https://github.com/Qwant/qwantmaps',
@@ -1947,7 +1959,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'qwantresearch-organization-archived-2025',
       text: 'The QwantResearch GitHub organization is marked archived and no longer maintained.',
-      textDe: 'Die GitHub-Organisation QwantResearch ist als archiviert markiert und wird nicht mehr gepflegt.',
+      localizedTexts: { de: 'Die GitHub-Organisation QwantResearch ist als archiviert markiert und wird nicht mehr gepflegt.' },
       severity: 'moderate',
       date: '2025-11-19',
       sourceUrl: 'https://github.com/QwantResearch',
@@ -1957,28 +1969,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'connect-turn-relay-us-transit-risk',
       text: 'Raspberry Pi Connect can relay encrypted sessions through TURN servers in California when peer-to-peer fails, so remote access traffic may traverse US infrastructure.',
-      textDe: 'Raspberry Pi Connect kann Sitzungen bei fehlendem Peer-to-Peer über TURN-Server in Kalifornien relayen; Remote-Zugriff kann damit über US-Infrastruktur laufen.',
+      localizedTexts: { de: 'Raspberry Pi Connect kann Sitzungen bei fehlendem Peer-to-Peer über TURN-Server in Kalifornien relayen; Remote-Zugriff kann damit über US-Infrastruktur laufen.' },
       severity: 'moderate',
       sourceUrl: 'https://www.raspberrypi.com/documentation/services/connect.html',
     },
     {
       id: 'imager-telemetry-default-enabled',
       text: 'Raspberry Pi Imager telemetry is enabled by default and sends OS-selection plus host metadata unless users opt out.',
-      textDe: 'Die Telemetrie in Raspberry Pi Imager ist standardmässig aktiviert und sendet OS-Auswahl plus Host-Metadaten, sofern Nutzende nicht explizit opt-out wählen.',
+      localizedTexts: { de: 'Die Telemetrie in Raspberry Pi Imager ist standardmässig aktiviert und sendet OS-Auswahl plus Host-Metadaten, sofern Nutzende nicht explizit opt-out wählen.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/raspberrypi/rpi-imager#telemetry',
     },
     {
       id: 'no-public-bug-bounty-program',
       text: 'Raspberry Pi security disclosure policy states there is no public bug bounty program.',
-      textDe: 'Die Security-Disclosure-Policy von Raspberry Pi nennt explizit, dass kein öffentliches Bug-Bounty-Programm angeboten wird.',
+      localizedTexts: { de: 'Die Security-Disclosure-Policy von Raspberry Pi nennt explizit, dass kein öffentliches Bug-Bounty-Programm angeboten wird.' },
       severity: 'minor',
       sourceUrl: 'https://www.raspberrypi.com/contact/security/',
     },
     {
       id: 'kernel-cve-backport-lag-reports-2024',
       text: 'Community-tracked reports flagged lag between Debian security tracking and Raspberry Pi kernel backports for CVE-2024-1086 in 2024.',
-      textDe: 'Community-getrackte Meldungen zeigten 2024 einen Lag zwischen Debian-Security-Tracking und Raspberry-Pi-Kernel-Backports für CVE-2024-1086.',
+      localizedTexts: { de: 'Community-getrackte Meldungen zeigten 2024 einen Lag zwischen Debian-Security-Tracking und Raspberry-Pi-Kernel-Backports für CVE-2024-1086.' },
       severity: 'moderate',
       date: '2024-06-02',
       sourceUrl: 'https://github.com/raspberrypi/linux/issues/6200',
@@ -1986,14 +1998,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'proprietary-boot-firmware-components',
       text: 'Official firmware distribution includes pre-compiled bootloader/GPU binaries under Broadcom licensing, limiting full-stack source auditability.',
-      textDe: 'Die offizielle Firmware-Distribution enthält vorkompilierte Bootloader-/GPU-Binaries unter Broadcom-Lizenz, was die Vollstack-Auditierbarkeit begrenzt.',
+      localizedTexts: { de: 'Die offizielle Firmware-Distribution enthält vorkompilierte Bootloader-/GPU-Binaries unter Broadcom-Lizenz, was die Vollstack-Auditierbarkeit begrenzt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/raspberrypi/firmware',
     },
     {
       id: 'microsoft-repo-change-trust-event-2021',
       text: 'A 2021 Raspberry Pi OS package commit added Microsoft VS Code apt repository entries on upgrade, a supply-path change that triggered long-running trust debate.',
-      textDe: 'Ein Raspberry-Pi-OS-Package-Commit von 2021 fügte bei Upgrades Microsoft-VS-Code-APT-Repositories hinzu; diese Supply-Path-Änderung löste eine anhaltende Trust-Debatte aus.',
+      localizedTexts: { de: 'Ein Raspberry-Pi-OS-Package-Commit von 2021 fügte bei Upgrades Microsoft-VS-Code-APT-Repositories hinzu; diese Supply-Path-Änderung löste eine anhaltende Trust-Debatte aus.' },
       severity: 'minor',
       date: '2021-01-25',
       sourceUrl: 'https://github.com/RPi-Distro/raspberrypi-sys-mods/commit/655cad5aee6457b94fc2336b1ff3c1104ccb4351',
@@ -2003,7 +2015,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'pricing-adjustment-volatility',
       text: 'Scaleway announced notable pricing increases for parts of its portfolio, creating planning risk for long-term workloads.',
-      textDe: 'Scaleway hat für Teile seines Portfolios deutliche Preiserhöhungen angekündigt, was Planungsrisiken für langfristige Workloads erzeugt.',
+      localizedTexts: { de: 'Scaleway hat für Teile seines Portfolios deutliche Preiserhöhungen angekündigt, was Planungsrisiken für langfristige Workloads erzeugt.' },
       severity: 'moderate',
       date: '2022-10-31',
       sourceUrl: 'https://www.scaleway.com/en/news/changes-to-scaleways-pricing/',
@@ -2011,14 +2023,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'support-quality-complaints-trustpilot',
       text: 'Public review aggregation shows persistent complaints about support responsiveness and incident handling quality.',
-      textDe: 'Öffentliche Review-Aggregation zeigt anhaltende Beschwerden zu Support-Reaktionszeit und Incident-Handling-Qualität.',
+      localizedTexts: { de: 'Öffentliche Review-Aggregation zeigt anhaltende Beschwerden zu Support-Reaktionszeit und Incident-Handling-Qualität.' },
       severity: 'moderate',
       sourceUrl: 'https://www.trustpilot.com/review/scaleway.com',
     },
     {
       id: 'recurring-platform-incidents-statuspage',
       text: 'Scaleway status history documents recurring service incidents across product lines, including major-impact events.',
-      textDe: 'Die Scaleway-Statushistorie dokumentiert wiederkehrende Service-Incidents über mehrere Produktlinien, inklusive Major-Impact-Ereignissen.',
+      localizedTexts: { de: 'Die Scaleway-Statushistorie dokumentiert wiederkehrende Service-Incidents über mehrere Produktlinien, inklusive Major-Impact-Ereignissen.' },
       severity: 'moderate',
       date: '2025-11-24',
       sourceUrl: 'https://status.scaleway.com/',
@@ -2026,7 +2038,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'stolen-ssd-transport-incident-2021',
       text: 'A transported Scaleway SSD was reported stolen and later recovered, highlighting physical media-control risk during transit.',
-      textDe: 'Eine transportierte Scaleway-SSD wurde als gestohlen gemeldet und später wiedergefunden, was Risiken bei physischer Datenträgerkontrolle während des Transports zeigt.',
+      localizedTexts: { de: 'Eine transportierte Scaleway-SSD wurde als gestohlen gemeldet und später wiedergefunden, was Risiken bei physischer Datenträgerkontrolle während des Transports zeigt.' },
       severity: 'major',
       date: '2021-07-27',
       sourceUrl: 'https://www.theregister.com/2021/07/27/stolen_scaleway_ssd_recovered/',
@@ -2034,14 +2046,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'object-storage-malware-abuse-2025',
       text: 'Threat research documented fake reCAPTCHA malware-delivery pages hosted on Scaleway Object Storage before takedown action.',
-      textDe: 'Threat-Research dokumentierte Fake-reCAPTCHA-Malware-Delivery-Seiten auf Scaleway Object Storage vor anschliessender Entfernung.',
+      localizedTexts: { de: 'Threat-Research dokumentierte Fake-reCAPTCHA-Malware-Delivery-Seiten auf Scaleway Object Storage vor anschliessender Entfernung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.catonetworks.com/blog/cato-ctrl-suspected-russian-threat-actors/',
     },
     {
       id: 'resource-deletion-after-unpaid-invoice-window',
       text: 'Billing FAQ states that after suspension for unpaid invoices, resources can be deleted if payment is not made within an additional ten days.',
-      textDe: 'Die Billing-FAQ nennt, dass Ressourcen nach einer Sperrung wegen unbezahlter Rechnungen gelöscht werden können, wenn innerhalb weiterer zehn Tage keine Zahlung erfolgt.',
+      localizedTexts: { de: 'Die Billing-FAQ nennt, dass Ressourcen nach einer Sperrung wegen unbezahlter Rechnungen gelöscht werden können, wenn innerhalb weiterer zehn Tage keine Zahlung erfolgt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.scaleway.com/en/docs/billing/faq/',
     },
@@ -2050,7 +2062,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'contributor-license-agreement',
       text: 'Contributors sign a CLA granting shopware AG broad rights over contributed code.',
-      textDe: 'Beitragende unterzeichnen eine CLA, die shopware AG weitreichende Rechte am beigetragenen Code einräumt.',
+      localizedTexts: { de: 'Beitragende unterzeichnen eine CLA, die shopware AG weitreichende Rechte am beigetragenen Code einräumt.' },
       severity: 'minor',
       sourceUrl: 'https://developer.shopware.com/docs/resources/references/cla.html',
     },
@@ -2059,21 +2071,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-public-soc2-iso-attestation',
       text: 'Simple Analytics publishes privacy and compliance material, but no public vendor-level SOC 2 or ISO 27001 attestation is provided.',
-      textDe: 'Simple Analytics veröffentlicht Privacy- und Compliance-Dokumentation, stellt aber keine öffentlich verifizierbare SOC-2- oder ISO-27001-Attestierung auf Anbieter-Ebene bereit.',
+      localizedTexts: { de: 'Simple Analytics veröffentlicht Privacy- und Compliance-Dokumentation, stellt aber keine öffentlich verifizierbare SOC-2- oder ISO-27001-Attestierung auf Anbieter-Ebene bereit.' },
       severity: 'major',
       sourceUrl: 'https://docs.simpleanalytics.com/compliance',
     },
     {
       id: 'ai-openai-assistant-api-dependency',
       text: 'Simple Analytics AI is built on OpenAI Assistant API workflows, introducing a US model-provider dependency for AI usage.',
-      textDe: 'Simple Analytics AI basiert auf OpenAI-Assistant-API-Workflows und führt für die KI-Nutzung eine Abhängigkeit von einem US-Modellanbieter ein.',
+      localizedTexts: { de: 'Simple Analytics AI basiert auf OpenAI-Assistant-API-Workflows und führt für die KI-Nutzung eine Abhängigkeit von einem US-Modellanbieter ein.' },
       severity: 'major',
       sourceUrl: 'https://www.simpleanalytics.com/blog/simple-analytics-ai',
     },
     {
       id: 'privacy-policy-2021-freshness-gap',
       text: 'The public privacy policy page is still dated January 21, 2021, creating policy-freshness risk as newer features are added.',
-      textDe: 'Die öffentliche Privacy-Policy-Seite ist weiterhin auf den 21. Januar 2021 datiert, was bei neueren Features ein Aktualitätsrisiko erzeugt.',
+      localizedTexts: { de: 'Die öffentliche Privacy-Policy-Seite ist weiterhin auf den 21. Januar 2021 datiert, was bei neueren Features ein Aktualitätsrisiko erzeugt.' },
       severity: 'moderate',
       date: '2021-01-21',
       sourceUrl: 'https://dashboard.simpleanalytics.com/privacy-policy',
@@ -2081,14 +2093,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'ad-blocker-bypass-feature',
       text: 'Paid plans include an ad-blocker bypass capability, which can conflict with privacy-by-choice expectations from visitors.',
-      textDe: 'Bezahlte Pläne enthalten eine Ad-Blocker-Bypass-Funktion, was mit Privacy-by-Choice-Erwartungen von Besuchern kollidieren kann.',
+      localizedTexts: { de: 'Bezahlte Pläne enthalten eine Ad-Blocker-Bypass-Funktion, was mit Privacy-by-Choice-Erwartungen von Besuchern kollidieren kann.' },
       severity: 'moderate',
       sourceUrl: 'https://www.simpleanalytics.com/pricing',
     },
     {
       id: 'recent-ingestion-and-provider-incidents-2025',
       text: 'Public status history documents 2025 ingestion outages and hosting-provider-triggered rate-limiting incidents.',
-      textDe: 'Die öffentliche Status-Historie dokumentiert 2025 Ingestion-Ausfälle sowie hosting-provider-ausgelöste Rate-Limiting-Vorfälle.',
+      localizedTexts: { de: 'Die öffentliche Status-Historie dokumentiert 2025 Ingestion-Ausfälle sowie hosting-provider-ausgelöste Rate-Limiting-Vorfälle.' },
       severity: 'moderate',
       date: '2025-10-04',
       sourceUrl: 'https://status.simpleanalytics.com',
@@ -2096,7 +2108,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'terms-unilateral-changes-and-fee-adjustments',
       text: 'Terms allow unilateral condition updates and fee adjustments during term (with termination rights), which still adds contract-planning volatility.',
-      textDe: 'Die Terms erlauben einseitige Bedingungsanpassungen und Gebührenänderungen während der Laufzeit (mit Kündigungsrecht), was dennoch Vertrags- und Planungsvolatilität erzeugt.',
+      localizedTexts: { de: 'Die Terms erlauben einseitige Bedingungsanpassungen und Gebührenänderungen während der Laufzeit (mit Kündigungsrecht), was dennoch Vertrags- und Planungsvolatilität erzeugt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.simpleanalytics.com/terms-of-service',
     },
@@ -2105,21 +2117,21 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'active-copyright-litigation',
       text: 'Major copyright and training-data lawsuits are still unresolved.',
-      textDe: 'Aktive Urheberrechtsklagen sind in mehreren Jurisdiktionen noch nicht abgeschlossen.',
+      localizedTexts: { de: 'Aktive Urheberrechtsklagen sind in mehreren Jurisdiktionen noch nicht abgeschlossen.' },
       severity: 'major',
       sourceUrl: 'https://apnews.com/article/stability-ai-lawsuit-midjourney-deviantart-artists-6217bcd9f7f6f095ac3c7bcd9deabfce',
     },
     {
       id: 'community-license-not-osi',
       text: 'Community license terms include usage restrictions, so model licensing is not fully open-source equivalent.',
-      textDe: 'Die Community-Lizenz enthält Nutzungseinschränkungen und ist damit nicht vollständig mit Open-Source-Lizenzen gleichzusetzen.',
+      localizedTexts: { de: 'Die Community-Lizenz enthält Nutzungseinschränkungen und ist damit nicht vollständig mit Open-Source-Lizenzen gleichzusetzen.' },
       severity: 'moderate',
       sourceUrl: 'https://stability.ai/community-license-agreement',
     },
     {
       id: 'governance-instability-history',
       text: 'Leadership turbulence, including the CEO transition in March 2024, increased governance risk.',
-      textDe: 'Historische Turbulenzen bei Führung und Governance haben das Vertrauen belastet.',
+      localizedTexts: { de: 'Historische Turbulenzen bei Führung und Governance haben das Vertrauen belastet.' },
       severity: 'moderate',
       date: '2024-03-22',
       sourceUrl: 'https://www.reuters.com/world/uk/ai-start-up-stability-ai-ceo-mostaque-steps-down-information-reports-2024-03-22/',
@@ -2129,28 +2141,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'closed-source-no-public-third-party-audit-report',
       text: 'StartMail describes independent auditing in its whitepaper, but no public third-party audit report is published for independent review.',
-      textDe: 'Im Whitepaper beschreibt StartMail unabhängige Audits, veröffentlicht jedoch keinen öffentlich einsehbaren Third-Party-Auditbericht zur externen Prüfung.',
+      localizedTexts: { de: 'Im Whitepaper beschreibt StartMail unabhängige Audits, veröffentlicht jedoch keinen öffentlich einsehbaren Third-Party-Auditbericht zur externen Prüfung.' },
       severity: 'moderate',
       sourceUrl: 'https://www.startmail.com/whitepaper',
     },
     {
       id: 'session-access-not-zero-knowledge',
       text: 'The privacy policy states that while logged in, regular emails are available unencrypted in-session; this is not strict zero-knowledge access.',
-      textDe: 'Die Datenschutzerklärung nennt, dass reguläre E-Mails während der Anmeldung in der Sitzung unverschlüsselt verfügbar sind; das ist kein striktes Zero-Knowledge-Modell.',
+      localizedTexts: { de: 'Die Datenschutzerklärung nennt, dass reguläre E-Mails während der Anmeldung in der Sitzung unverschlüsselt verfügbar sind; das ist kein striktes Zero-Knowledge-Modell.' },
       severity: 'major',
       sourceUrl: 'https://www.startmail.com/privacy',
     },
     {
       id: 'us-third-party-processing-for-payments-and-abuse',
       text: 'Payment and anti-abuse workflows rely on third parties such as Stripe, PayPal, Chargebee, and hCaptcha, creating extra cross-border processor exposure.',
-      textDe: 'Zahlungs- und Abuse-Schutz-Prozesse laufen über Drittanbieter wie Stripe, PayPal, Chargebee und hCaptcha, was zusätzliche grenzüberschreitende Prozessor-Exposition schafft.',
+      localizedTexts: { de: 'Zahlungs- und Abuse-Schutz-Prozesse laufen über Drittanbieter wie Stripe, PayPal, Chargebee und hCaptcha, was zusätzliche grenzüberschreitende Prozessor-Exposition schafft.' },
       severity: 'moderate',
       sourceUrl: 'https://www.startmail.com/privacy',
     },
     {
       id: 'legacy-legal-documents-last-updated-2020',
       text: 'Core legal documents remain dated 2020, which weakens policy freshness and contractual clarity for 2026 users.',
-      textDe: 'Zentrale Rechtsdokumente tragen weiterhin den Stand 2020, was für Nutzer im Jahr 2026 die Policy-Aktualität und vertragliche Klarheit schwächt.',
+      localizedTexts: { de: 'Zentrale Rechtsdokumente tragen weiterhin den Stand 2020, was für Nutzer im Jahr 2026 die Policy-Aktualität und vertragliche Klarheit schwächt.' },
       severity: 'moderate',
       date: '2020-09-28',
       sourceUrl: 'https://www.startmail.com/terms-of-service',
@@ -2158,14 +2170,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'trial-requires-payment-method',
       text: 'StartMail pricing FAQ states that trial sign-up requires payment details (credit card or PayPal) to reduce abuse.',
-      textDe: 'Die StartMail-Preis-FAQ nennt, dass für die Trial-Anmeldung Zahlungsdaten (Kreditkarte oder PayPal) zur Missbrauchsprävention erforderlich sind.',
+      localizedTexts: { de: 'Die StartMail-Preis-FAQ nennt, dass für die Trial-Anmeldung Zahlungsdaten (Kreditkarte oder PayPal) zur Missbrauchsprävention erforderlich sind.' },
       severity: 'moderate',
       sourceUrl: 'https://www.startmail.com/pricing',
     },
     {
       id: 'no-refund-after-cancellation',
       text: 'Terms of service specify no repayment or refund of subscription fees when users cancel before period end.',
-      textDe: 'Die AGB legen fest, dass bei Kündigung vor Periodenende keine Rückzahlung von Abogebühren erfolgt.',
+      localizedTexts: { de: 'Die AGB legen fest, dass bei Kündigung vor Periodenende keine Rückzahlung von Abogebühren erfolgt.' },
       severity: 'moderate',
       sourceUrl: 'https://www.startmail.com/terms-of-service',
     },
@@ -2174,28 +2186,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'telemetry-enabled-by-default',
       text: 'Thunderbird telemetry is enabled by default and requires manual opt-out for stricter privacy baselines.',
-      textDe: 'Thunderbird-Telemetrie ist standardmässig aktiv und erfordert für strengere Privacy-Baselines ein manuelles Opt-out.',
+      localizedTexts: { de: 'Thunderbird-Telemetrie ist standardmässig aktiv und erfordert für strengere Privacy-Baselines ein manuelles Opt-out.' },
       severity: 'moderate',
       sourceUrl: 'https://support.mozilla.org/en-US/kb/thunderbird-telemetry',
     },
     {
       id: 'thunderbird-pro-early-stage-assurance',
       text: 'Thunderbird Pro services remain early-stage, with improving but still limited assurance artifacts versus mature hosted providers.',
-      textDe: 'Thunderbird-Pro-Dienste sind weiterhin frühphasig; Assurance-Artefakte verbessern sich, bleiben aber im Vergleich zu reifen Hosting-Anbietern begrenzt.',
+      localizedTexts: { de: 'Thunderbird-Pro-Dienste sind weiterhin frühphasig; Assurance-Artefakte verbessern sich, bleiben aber im Vergleich zu reifen Hosting-Anbietern begrenzt.' },
       severity: 'moderate',
       sourceUrl: 'https://blog.thunderbird.net/2025/11/thunderbird-pro-november-2025-update/',
     },
     {
       id: 'fake-download-impersonation-risk',
       text: 'Threat reports documented fake Firefox/Thunderbird update pages used to distribute malware, so trusted download channels remain critical.',
-      textDe: 'Threat-Reports dokumentierten gefälschte Firefox/Thunderbird-Update-Seiten zur Malware-Verteilung; vertrauenswürdige Download-Kanäle bleiben deshalb kritisch.',
+      localizedTexts: { de: 'Threat-Reports dokumentierten gefälschte Firefox/Thunderbird-Update-Seiten zur Malware-Verteilung; vertrauenswürdige Download-Kanäle bleiben deshalb kritisch.' },
       severity: 'moderate',
       sourceUrl: 'https://www.bleepingcomputer.com/news/security/fake-browser-updates-push-rats-ransomware-via-bitbucket/',
     },
     {
       id: 'mozilla-restructuring-capacity-risk',
       text: 'Mozilla-wide restructuring and layoffs in 2024 introduced ecosystem-level delivery and support-capacity risk.',
-      textDe: 'Mozilla-weite Restrukturierungen und Entlassungen im Jahr 2024 führten zu einem Ökosystem-Risiko bei Liefer- und Supportkapazität.',
+      localizedTexts: { de: 'Mozilla-weite Restrukturierungen und Entlassungen im Jahr 2024 führten zu einem Ökosystem-Risiko bei Liefer- und Supportkapazität.' },
       severity: 'minor',
       sourceUrl: 'https://techcrunch.com/2024/11/05/mozilla-foundation-lays-off-30-staff-drops-advocacy-division/',
     },
@@ -2204,35 +2216,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'self-compiled-client-restrictions',
       text: 'Threema is open source, but self-compiled apps are license-constrained and cannot create new IDs without purchased-app/license validation.',
-      textDe: 'Threema ist Open Source, aber selbst kompilierte Apps sind lizenzgebunden und können ohne Kauf-App/Lizenzprüfung keine neuen IDs erstellen.',
+      localizedTexts: { de: 'Threema ist Open Source, aber selbst kompilierte Apps sind lizenzgebunden und können ohne Kauf-App/Lizenzprüfung keine neuen IDs erstellen.' },
       severity: 'moderate',
       sourceUrl: 'https://threema.com/en/why-threema/open-source',
     },
     {
       id: 'one-commit-per-release-transparency-limit',
       text: 'The Android source repository is intentionally updated with one commit per public non-beta release, limiting day-to-day development transparency.',
-      textDe: 'Das Android-Source-Repository wird bewusst nur mit einem Commit pro öffentlichem Non-Beta-Release aktualisiert, was die laufende Entwicklungs-Transparenz begrenzt.',
+      localizedTexts: { de: 'Das Android-Source-Repository wird bewusst nur mit einem Commit pro öffentlichem Non-Beta-Release aktualisiert, was die laufende Entwicklungs-Transparenz begrenzt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/threema-ch/threema-android',
     },
     {
       id: 'threema-web-maintenance-mode',
       text: 'Threema Web is in maintenance mode with no major new features or non-critical bug fixes while Desktop 2.0 is prioritized.',
-      textDe: 'Threema Web befindet sich im Maintenance-Modus; während Desktop 2.0 priorisiert wird, sind keine grösseren neuen Features oder nicht-kritischen Bugfixes vorgesehen.',
+      localizedTexts: { de: 'Threema Web befindet sich im Maintenance-Modus; während Desktop 2.0 priorisiert wird, sind keine grösseren neuen Features oder nicht-kritischen Bugfixes vorgesehen.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/threema-ch/threema-web',
     },
     {
       id: 'chat-export-not-importable',
       text: 'Chat export is available as encrypted ZIP, but exported chats cannot be imported back into Threema.',
-      textDe: 'Der Chat-Export ist als verschlüsselte ZIP verfügbar, aber exportierte Chats können nicht wieder in Threema importiert werden.',
+      localizedTexts: { de: 'Der Chat-Export ist als verschlüsselte ZIP verfügbar, aber exportierte Chats können nicht wieder in Threema importiert werden.' },
       severity: 'moderate',
       sourceUrl: 'https://threema.com/en/faq/chatexport',
     },
     {
       id: 'protocol-attack-series-2023',
       text: 'A USENIX Security 2023 cryptographic analysis reported multiple attacks against the legacy protocol stack before mitigations were introduced.',
-      textDe: 'Eine kryptografische Analyse auf der USENIX Security 2023 meldete mehrere Angriffe gegen den Legacy-Protokoll-Stack, bevor Gegenmassnahmen eingeführt wurden.',
+      localizedTexts: { de: 'Eine kryptografische Analyse auf der USENIX Security 2023 meldete mehrere Angriffe gegen den Legacy-Protokoll-Stack, bevor Gegenmassnahmen eingeführt wurden.' },
       severity: 'major',
       date: '2023-08-09',
       sourceUrl: 'https://www.usenix.org/conference/usenixsecurity23/presentation/paterson',
@@ -2240,14 +2252,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'third-party-push-service-dependency',
       text: 'Push delivery can depend on third-party mobile ecosystems (FCM/APNS/HMS), adding external infrastructure dependency.',
-      textDe: 'Die Push-Zustellung kann von Drittanbieter-Mobilökosystemen (FCM/APNS/HMS) abhängen und erzeugt damit externe Infrastrukturabhängigkeit.',
+      localizedTexts: { de: 'Die Push-Zustellung kann von Drittanbieter-Mobilökosystemen (FCM/APNS/HMS) abhängen und erzeugt damit externe Infrastrukturabhängigkeit.' },
       severity: 'minor',
       sourceUrl: 'https://threema.com/en/faq/privacy-push',
     },
     {
       id: 'private-equity-ownership-turnover-2026',
       text: 'Ownership moved from Afinum to Comitis in early 2026 after the earlier 2020 majority-stake transaction, increasing governance-change uncertainty.',
-      textDe: 'Die Eigentümerschaft wechselte Anfang 2026 von Afinum zu Comitis nach der früheren Mehrheitsbeteiligung 2020, was die Unsicherheit über Governance-Änderungen erhöht.',
+      localizedTexts: { de: 'Die Eigentümerschaft wechselte Anfang 2026 von Afinum zu Comitis nach der früheren Mehrheitsbeteiligung 2020, was die Unsicherheit über Governance-Änderungen erhöht.' },
       severity: 'moderate',
       date: '2026-01-12',
       sourceUrl: 'https://threema.com/en/faq/ownership',
@@ -2257,7 +2269,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'trojanized-installer-campaigns-2022',
       text: 'Security research documented OnionPoison campaigns distributing trojanized Tor Browser installers via third-party links, including high-traffic YouTube channels.',
-      textDe: 'Security-Research dokumentierte OnionPoison-Kampagnen mit trojanisierten Tor-Browser-Installern über Drittanbieter-Links, einschliesslich reichweitenstarker YouTube-Kanäle.',
+      localizedTexts: { de: 'Security-Research dokumentierte OnionPoison-Kampagnen mit trojanisierten Tor-Browser-Installern über Drittanbieter-Links, einschliesslich reichweitenstarker YouTube-Kanäle.' },
       severity: 'major',
       date: '2022-10-04',
       sourceUrl: 'https://securelist.com/onionpoison-infected-tor-browser-installer-youtube/107627/',
@@ -2265,14 +2277,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'download-signature-verification-required',
       text: 'Tor Project guidance requires signature verification for downloaded packages; skipping verification materially increases fake-installer and supply-chain risk.',
-      textDe: 'Die Tor-Project-Dokumentation verlangt die Signaturprüfung heruntergeladener Pakete; ohne Verifikation steigt das Risiko für Fake-Installer und Supply-Chain-Angriffe deutlich.',
+      localizedTexts: { de: 'Die Tor-Project-Dokumentation verlangt die Signaturprüfung heruntergeladener Pakete; ohne Verifikation steigt das Risiko für Fake-Installer und Supply-Chain-Angriffe deutlich.' },
       severity: 'moderate',
       sourceUrl: 'https://support.torproject.org/tbb/how-to-verify-signature/',
     },
     {
       id: 'firefox-esr-zero-day-inheritance-window',
       text: 'Tor Browser inherits Firefox ESR security exposure windows; CVE-2024-9680 required an emergency Tor release on the same day as upstream fixes.',
-      textDe: 'Tor Browser übernimmt Sicherheits-Expositionsfenster von Firefox ESR; CVE-2024-9680 erforderte ein Emergency-Release am selben Tag wie der Upstream-Fix.',
+      localizedTexts: { de: 'Tor Browser übernimmt Sicherheits-Expositionsfenster von Firefox ESR; CVE-2024-9680 erforderte ein Emergency-Release am selben Tag wie der Upstream-Fix.' },
       severity: 'moderate',
       date: '2024-10-09',
       sourceUrl: 'https://blog.torproject.org/new-release-tor-browser-1357/',
@@ -2280,7 +2292,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'tor-network-dos-performance-degradation',
       text: 'The Tor Project documented prolonged denial-of-service pressure on the Tor network that degraded page loading and onion-service reliability.',
-      textDe: 'Das Tor Project dokumentierte länger anhaltende Denial-of-Service-Belastung im Tor-Netzwerk, die Seitenladezeiten und Onion-Service-Zuverlässigkeit beeinträchtigte.',
+      localizedTexts: { de: 'Das Tor Project dokumentierte länger anhaltende Denial-of-Service-Belastung im Tor-Netzwerk, die Seitenladezeiten und Onion-Service-Zuverlässigkeit beeinträchtigte.' },
       severity: 'moderate',
       date: '2023-02-07',
       sourceUrl: 'https://blog.torproject.org/tor-network-ddos-attack/',
@@ -2290,49 +2302,49 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-public-soc2-listed',
       text: 'The Microsoft 365 App Certification listing for Tresorit indicates ISO 27001 is present, but SOC 1/2/3 attestations are listed as unavailable.',
-      textDe: 'Das Microsoft-365-App-Certification-Profil für Tresorit führt ISO 27001 als vorhanden, während SOC-1/2/3-Attestierungen als nicht verfügbar gelistet sind.',
+      localizedTexts: { de: 'Das Microsoft-365-App-Certification-Profil für Tresorit führt ISO 27001 als vorhanden, während SOC-1/2/3-Attestierungen als nicht verfügbar gelistet sind.' },
       severity: 'moderate',
       sourceUrl: 'https://appsource.microsoft.com/en-us/product/office/wa200005095',
     },
     {
       id: 'default-data-residency-not-switzerland',
       text: 'Tresorit support documentation states that default customer data storage is in Ireland and relies on Microsoft Azure infrastructure.',
-      textDe: 'Die Tresorit-Dokumentation nennt Irland als Standard-Speicherort für Kundendaten und verweist auf Microsoft-Azure-Infrastruktur.',
+      localizedTexts: { de: 'Die Tresorit-Dokumentation nennt Irland als Standard-Speicherort für Kundendaten und verweist auf Microsoft-Azure-Infrastruktur.' },
       severity: 'moderate',
       sourceUrl: 'https://support.tresorit.com/hc/en-us/articles/360010198579-Data-storage',
     },
     {
       id: 'subprocessor-cross-border-transfer-scope',
       text: 'Terms of Use permit processing by sub-processors in the EEA, the United States, and other countries, with service data transfers across regions.',
-      textDe: 'Die Nutzungsbedingungen erlauben Verarbeitung durch Subprozessoren im EWR, in den USA und in weiteren Ländern, inklusive regionsübergreifender Service-Data-Transfers.',
+      localizedTexts: { de: 'Die Nutzungsbedingungen erlauben Verarbeitung durch Subprozessoren im EWR, in den USA und in weiteren Ländern, inklusive regionsübergreifender Service-Data-Transfers.' },
       severity: 'major',
       sourceUrl: 'https://tresorit.com/legal/terms-of-use',
     },
     {
       id: 'metadata-visibility-in-malicious-server-model',
       text: 'Published cryptography research on malicious-server cloud models reports that certain metadata and structure signals can still be inferable in E2EE storage systems.',
-      textDe: 'Veröffentlichte Kryptographie-Forschung zu Malicious-Server-Cloud-Modellen beschreibt, dass bestimmte Metadaten- und Struktur-Signale selbst bei E2EE-Speicherdiensten ableitbar bleiben können.',
+      localizedTexts: { de: 'Veröffentlichte Kryptographie-Forschung zu Malicious-Server-Cloud-Modellen beschreibt, dass bestimmte Metadaten- und Struktur-Signale selbst bei E2EE-Speicherdiensten ableitbar bleiben können.' },
       severity: 'moderate',
       sourceUrl: 'https://eprint.iacr.org/2024/1616',
     },
     {
       id: 'sales-call-recording-and-bot-processing',
       text: 'Privacy policy disclosures include recording/transcription of sales calls and bot-assisted processing for coaching and demo scenarios.',
-      textDe: 'Die Datenschutzerklärung nennt Aufzeichnung und Transkription von Sales-Calls sowie botgestützte Verarbeitung für Coaching- und Demo-Szenarien.',
+      localizedTexts: { de: 'Die Datenschutzerklärung nennt Aufzeichnung und Transkription von Sales-Calls sowie botgestützte Verarbeitung für Coaching- und Demo-Szenarien.' },
       severity: 'moderate',
       sourceUrl: 'https://tresorit.com/legal/privacy-policy',
     },
     {
       id: 'auto-renewal-trial-conversion-and-paid-export-window',
       text: 'Terms include automatic renewals, trial-to-paid conversion mechanics, and post-termination export windows that may require additional payment.',
-      textDe: 'Die AGB enthalten automatische Verlängerung, Trial-zu-Paid-Umwandlung sowie Export-Fenster nach Vertragsende, die zusätzliche Zahlungen erfordern können.',
+      localizedTexts: { de: 'Die AGB enthalten automatische Verlängerung, Trial-zu-Paid-Umwandlung sowie Export-Fenster nach Vertragsende, die zusätzliche Zahlungen erfordern können.' },
       severity: 'moderate',
       sourceUrl: 'https://tresorit.com/legal/terms-of-use',
     },
     {
       id: 'low-trustpilot-rating-2026',
       text: 'Trustpilot lists Tresorit at 2.5/5 based on 49 reviews (snapshot: 2026-02-11), which is a meaningful user-sentiment risk signal for support and day-to-day experience.',
-      textDe: 'Trustpilot führt Tresorit mit 2,5/5 bei 49 Bewertungen (Snapshot: 11.02.2026), was ein relevantes Nutzer-Sentiment-Risikosignal für Support und Alltagsnutzung darstellt.',
+      localizedTexts: { de: 'Trustpilot führt Tresorit mit 2,5/5 bei 49 Bewertungen (Snapshot: 11.02.2026), was ein relevantes Nutzer-Sentiment-Risikosignal für Support und Alltagsnutzung darstellt.' },
       severity: 'moderate',
       date: '2026-02-11',
       sourceUrl: 'https://www.trustpilot.com/review/tresorit.com',
@@ -2342,14 +2354,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-standard-mail-protocols',
       text: 'Tuta does not offer IMAP and relies on its own clients instead of standard mailbox protocol access.',
-      textDe: 'Tuta bietet kein IMAP an und setzt statt standardisiertem Mailbox-Zugriff auf eigene Clients.',
+      localizedTexts: { de: 'Tuta bietet kein IMAP an und setzt statt standardisiertem Mailbox-Zugriff auf eigene Clients.' },
       severity: 'moderate',
       sourceUrl: 'https://tuta.com/support#what-email-protocols-does-tuta-support',
     },
     {
       id: 'targeted-legal-interception-risk',
       text: 'Tuta confirms it can be legally required to enable targeted interception under German court orders.',
-      textDe: 'Tuta bestätigt, dass bei deutschen Gerichtsanordnungen eine gezielte Überwachung rechtlich erzwungen werden kann.',
+      localizedTexts: { de: 'Tuta bestätigt, dass bei deutschen Gerichtsanordnungen eine gezielte Überwachung rechtlich erzwungen werden kann.' },
       severity: 'moderate',
       date: '2021-04-28',
       sourceUrl: 'https://tuta.com/blog/transparency-report',
@@ -2357,7 +2369,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'clients-open-source-backend-closed',
       text: 'Tuta publishes its client code as open source, while server-side code is not included in that public scope.',
-      textDe: 'Tuta veröffentlicht den Client-Code als Open Source, während serverseitiger Code nicht Teil dieses öffentlichen Umfangs ist.',
+      localizedTexts: { de: 'Tuta veröffentlicht den Client-Code als Open Source, während serverseitiger Code nicht Teil dieses öffentlichen Umfangs ist.' },
       severity: 'moderate',
       sourceUrl: 'https://tuta.com/open-source',
     },
@@ -2366,14 +2378,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'unofficial-nonreproducible-contributor-binaries',
       text: 'The project explicitly states that contributor binaries are not official and generally not reproducible, so binary authenticity cannot be guaranteed.',
-      textDe: 'Das Projekt weist explizit darauf hin, dass Contributor-Binaries nicht offiziell und in der Regel nicht reproduzierbar sind, weshalb die Authentizität der Binaries nicht garantiert werden kann.',
+      localizedTexts: { de: 'Das Projekt weist explizit darauf hin, dass Contributor-Binaries nicht offiziell und in der Regel nicht reproduzierbar sind, weshalb die Authentizität der Binaries nicht garantiert werden kann.' },
       severity: 'major',
       sourceUrl: 'https://ungoogled-software.github.io/ungoogled-chromium-binaries/',
     },
     {
       id: 'stale-binary-tracks-on-some-platforms',
       text: 'The binaries matrix shows major version skew between platforms (for example Debian/Ubuntu 100.x and FreeBSD 111.x while latest tracks are 144/145), which creates patch-lag exposure.',
-      textDe: 'Die Binaries-Matrix zeigt starke Versionsunterschiede zwischen Plattformen (z. B. Debian/Ubuntu 100.x und FreeBSD 111.x während aktuelle Stränge 144/145 sind), was Patch-Lag-Risiken erzeugt.',
+      localizedTexts: { de: 'Die Binaries-Matrix zeigt starke Versionsunterschiede zwischen Plattformen (z. B. Debian/Ubuntu 100.x und FreeBSD 111.x während aktuelle Stränge 144/145 sind), was Patch-Lag-Risiken erzeugt.' },
       severity: 'major',
       date: '2026-02-12',
       sourceUrl: 'https://ungoogled-software.github.io/ungoogled-chromium-binaries/',
@@ -2381,35 +2393,35 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'no-published-security-policy-or-advisories',
       text: 'The GitHub Security page currently shows no security policy and no published project advisories.',
-      textDe: 'Die GitHub-Security-Seite zeigt derzeit weder eine Security Policy noch veröffentlichte Projekt-Advisories.',
+      localizedTexts: { de: 'Die GitHub-Security-Seite zeigt derzeit weder eine Security Policy noch veröffentlichte Projekt-Advisories.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/ungoogled-software/ungoogled-chromium/security',
     },
     {
       id: 'safe-browsing-disabled-by-design',
       text: 'Project documentation confirms Safe Browsing is disabled because it communicates with Google servers.',
-      textDe: 'Die Projektdokumentation bestätigt, dass Safe Browsing deaktiviert ist, weil es mit Google-Servern kommuniziert.',
+      localizedTexts: { de: 'Die Projektdokumentation bestätigt, dass Safe Browsing deaktiviert ist, weil es mit Google-Servern kommuniziert.' },
       severity: 'moderate',
       sourceUrl: 'https://ungoogled-software.github.io/ungoogled-chromium-wiki/faq#why-is-safe-browsing-disabled',
     },
     {
       id: 'no-built-in-extension-auto-updates',
       text: 'The FAQ states there is currently no built-in functionality for extension auto-updates.',
-      textDe: 'Die FAQ sagt, dass es derzeit keine eingebaute Funktion für automatische Extension-Updates gibt.',
+      localizedTexts: { de: 'Die FAQ sagt, dass es derzeit keine eingebaute Funktion für automatische Extension-Updates gibt.' },
       severity: 'moderate',
       sourceUrl: 'https://ungoogled-software.github.io/ungoogled-chromium-wiki/faq#will-extensions-auto-update',
     },
     {
       id: 'no-built-in-browser-auto-update',
       text: 'Maintainer discussion indicates ungoogled-chromium has no built-in browser auto-update functionality.',
-      textDe: 'Eine Maintainer-Diskussion zeigt, dass ungoogled-chromium keine eingebaute Browser-Auto-Update-Funktion besitzt.',
+      localizedTexts: { de: 'Eine Maintainer-Diskussion zeigt, dass ungoogled-chromium keine eingebaute Browser-Auto-Update-Funktion besitzt.' },
       severity: 'moderate',
       sourceUrl: 'https://github.com/ungoogled-software/ungoogled-chromium/discussions/2740',
     },
     {
       id: 'crlset-revocation-gap-discussed',
       text: 'An open issue discusses that CRLSet-based certificate revocation checks are excluded, with users raising MITM-risk concerns.',
-      textDe: 'Ein offenes Issue diskutiert, dass CRLSet-basierte Zertifikatswiderrufsprüfungen ausgeschlossen sind und Nutzende MITM-Risiken ansprechen.',
+      localizedTexts: { de: 'Ein offenes Issue diskutiert, dass CRLSet-basierte Zertifikatswiderrufsprüfungen ausgeschlossen sind und Nutzende MITM-Risiken ansprechen.' },
       severity: 'minor',
       date: '2024-02-16',
       sourceUrl: 'https://github.com/ungoogled-software/ungoogled-chromium/issues/2719',
@@ -2419,42 +2431,42 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'safe-browsing-disabled-by-default',
       text: 'LibreWolf disables Google Safe Browsing by default; the project notes this can be a useful extra security layer and suggests enabling it if needed.',
-      textDe: 'LibreWolf deaktiviert Google Safe Browsing standardmässig; das Projekt weist darauf hin, dass dies eine zusätzliche Sicherheitsschicht sein kann und bei Bedarf aktiviert werden sollte.',
+      localizedTexts: { de: 'LibreWolf deaktiviert Google Safe Browsing standardmässig; das Projekt weist darauf hin, dass dies eine zusätzliche Sicherheitsschicht sein kann und bei Bedarf aktiviert werden sollte.' },
       severity: 'moderate',
       sourceUrl: 'https://librewolf.net/docs/faq/#why-do-you-disable-google-safe-browsing',
     },
     {
       id: 'no-built-in-browser-auto-update',
       text: 'LibreWolf documentation states that the browser has no built-in auto-update mechanism, so patch timing depends on package channels or external updater tooling.',
-      textDe: 'Die LibreWolf-Dokumentation sagt, dass der Browser keinen eingebauten Auto-Update-Mechanismus hat; das Patch-Timing hängt daher von Paketquellen oder externer Updater-Software ab.',
+      localizedTexts: { de: 'Die LibreWolf-Dokumentation sagt, dass der Browser keinen eingebauten Auto-Update-Mechanismus hat; das Patch-Timing hängt daher von Paketquellen oder externer Updater-Software ab.' },
       severity: 'moderate',
       sourceUrl: 'https://librewolf.net/docs/faq/#how-often-do-you-update-librewolf',
     },
     {
       id: 'windows-installer-cve-2025-11940',
       text: 'CVE-2025-11940 documents an uncontrolled search path issue in the LibreWolf Windows installer, confirming project-specific attack surface beyond upstream Firefox.',
-      textDe: 'CVE-2025-11940 dokumentiert ein "uncontrolled search path"-Problem im LibreWolf-Windows-Installer und bestätigt damit eine projektspezifische Angriffsfläche jenseits von Upstream-Firefox.',
+      localizedTexts: { de: 'CVE-2025-11940 dokumentiert ein "uncontrolled search path"-Problem im LibreWolf-Windows-Installer und bestätigt damit eine projektspezifische Angriffsfläche jenseits von Upstream-Firefox.' },
       severity: 'major',
       sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2025-11940',
     },
     {
       id: 'unofficial-aur-package-malware-incident-2025',
       text: 'Arch Linux removed malicious AUR browser packages in 2025, including a LibreWolf-themed package, showing that unofficial distribution channels can carry severe supply-chain risk.',
-      textDe: 'Arch Linux entfernte 2025 maliziöse AUR-Browserpakete, inklusive eines LibreWolf-bezogenen Pakets; das zeigt, dass inoffizielle Distributionskanäle erhebliche Supply-Chain-Risiken tragen können.',
+      localizedTexts: { de: 'Arch Linux entfernte 2025 maliziöse AUR-Browserpakete, inklusive eines LibreWolf-bezogenen Pakets; das zeigt, dass inoffizielle Distributionskanäle erhebliche Supply-Chain-Risiken tragen können.' },
       severity: 'major',
       sourceUrl: 'https://lists.archlinux.org/archives/list/aur-general@lists.archlinux.org/thread/7EZTJXLIAQLARQNTMEW2HBWZYE626IFJ/',
     },
     {
       id: 'volunteer-maintainer-continuity-risk',
       text: 'The project FAQ states LibreWolf does not accept donations and remains volunteer-driven, which can limit long-term resourcing and formal accountability.',
-      textDe: 'Die Projekt-FAQ sagt, dass LibreWolf keine Spenden annimmt und freiwilligengetrieben bleibt; das kann langfristige Ressourcenplanung und formale Verantwortlichkeit begrenzen.',
+      localizedTexts: { de: 'Die Projekt-FAQ sagt, dass LibreWolf keine Spenden annimmt und freiwilligengetrieben bleibt; das kann langfristige Ressourcenplanung und formale Verantwortlichkeit begrenzen.' },
       severity: 'moderate',
       sourceUrl: 'https://librewolf.net/docs/faq/#why-dont-you-accept-donations',
     },
     {
       id: 'privacy-policy-third-party-data-path-caveat',
       text: 'LibreWolf states it does not collect user data, but also notes it cannot always guarantee that no data flows to Mozilla or other third parties.',
-      textDe: 'LibreWolf erklärt, keine Nutzerdaten zu sammeln, weist aber zugleich darauf hin, dass Datenflüsse zu Mozilla oder anderen Dritten nicht immer vollständig ausgeschlossen werden können.',
+      localizedTexts: { de: 'LibreWolf erklärt, keine Nutzerdaten zu sammeln, weist aber zugleich darauf hin, dass Datenflüsse zu Mozilla oder anderen Dritten nicht immer vollständig ausgeschlossen werden können.' },
       severity: 'moderate',
       sourceUrl: 'https://librewolf.net/privacy-policy/',
     },
@@ -2463,7 +2475,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'recent-xss-cve-2026-25935',
       text: 'CVE-2026-25935 documents a high-severity XSS issue in task-glance rendering; remediation requires upgrading to 1.1.0 or newer.',
-      textDe: 'CVE-2026-25935 dokumentiert eine High-Severity-XSS-Lücke im Task-Glance-Rendering; die Behebung erfordert ein Upgrade auf 1.1.0 oder neuer.',
+      localizedTexts: { de: 'CVE-2026-25935 dokumentiert eine High-Severity-XSS-Lücke im Task-Glance-Rendering; die Behebung erfordert ein Upgrade auf 1.1.0 oder neuer.' },
       severity: 'major',
       date: '2026-02-11',
       sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2026-25935',
@@ -2471,28 +2483,28 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'hoster-iso-not-vendor-attestation',
       text: 'The security page cites Hetzner hosting controls and ISO/IEC 27001 for the infrastructure provider, but does not publish vendor-level SOC 2 or ISO attestations for Vikunja itself.',
-      textDe: 'Die Security-Seite verweist auf Hetzner-Hosting-Kontrollen und ISO/IEC 27001 des Infrastrukturanbieters, veröffentlicht aber keine vendor-level SOC-2- oder ISO-Attestierungen für Vikunja selbst.',
+      localizedTexts: { de: 'Die Security-Seite verweist auf Hetzner-Hosting-Kontrollen und ISO/IEC 27001 des Infrastrukturanbieters, veröffentlicht aber keine vendor-level SOC-2- oder ISO-Attestierungen für Vikunja selbst.' },
       severity: 'moderate',
       sourceUrl: 'https://vikunja.io/security/',
     },
     {
       id: 'sole-proprietor-operations-concentration',
       text: 'The imprint names Konrad Langenberg Software as the responsible entity for vikunja.io and vikunja.cloud, indicating an operationally concentrated sole-proprietor structure.',
-      textDe: 'Das Impressum nennt Konrad Langenberg Software als verantwortliche Stelle für vikunja.io und vikunja.cloud und zeigt damit eine operativ konzentrierte Einzelunternehmensstruktur.',
+      localizedTexts: { de: 'Das Impressum nennt Konrad Langenberg Software als verantwortliche Stelle für vikunja.io und vikunja.cloud und zeigt damit eine operativ konzentrierte Einzelunternehmensstruktur.' },
       severity: 'moderate',
       sourceUrl: 'https://vikunja.io/imprint/',
     },
     {
       id: 'export-restore-migration-friction-community',
       text: 'Community support threads report recurring confusion and migration friction between user-facing export and full CLI dump/restore workflows.',
-      textDe: 'Community-Support-Threads zeigen wiederkehrende Verwirrung und Migrations-Reibung zwischen nutzerseitigem Export und vollständigen CLI-Dump/Restore-Workflows.',
+      localizedTexts: { de: 'Community-Support-Threads zeigen wiederkehrende Verwirrung und Migrations-Reibung zwischen nutzerseitigem Export und vollständigen CLI-Dump/Restore-Workflows.' },
       severity: 'moderate',
       sourceUrl: 'https://community.vikunja.io/t/unable-to-restore-after-dump-and-export-also-not-working/2263/5',
     },
     {
       id: 'dump-command-path-permission-edgecases',
       text: 'Self-hosted operators report dump command path/permission edge cases in containerized setups, which can complicate backup operations.',
-      textDe: 'Self-Hosted-Betreiber berichten über Dump-Command-Edgecases bei Pfaden und Berechtigungen in Container-Setups, was Backup-Prozesse erschweren kann.',
+      localizedTexts: { de: 'Self-Hosted-Betreiber berichten über Dump-Command-Edgecases bei Pfaden und Berechtigungen in Container-Setups, was Backup-Prozesse erschweren kann.' },
       severity: 'minor',
       sourceUrl: 'https://community.vikunja.io/t/dump-command-generating-permission-denied/3495',
     },
@@ -2501,14 +2513,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'daily-unique-id-telemetry-ping',
       text: 'Browser policy documents a mandatory 24-hour telemetry ping tied to a unique installation ID and device metadata.',
-      textDe: 'Die Browser-Policy dokumentiert einen verpflichtenden 24-Stunden-Telemetrie-Ping mit eindeutiger Installations-ID und Geräte-Metadaten.',
+      localizedTexts: { de: 'Die Browser-Policy dokumentiert einen verpflichtenden 24-Stunden-Telemetrie-Ping mit eindeutiger Installations-ID und Geräte-Metadaten.' },
       severity: 'moderate',
       sourceUrl: 'https://vivaldi.com/privacy/browser/',
     },
     {
       id: 'snapshot-history-unencrypted-incident-2023',
       text: 'In November 2023, Snapshot builds uploaded full browsing history without intended E2EE until Vivaldi disabled and fixed the feature.',
-      textDe: 'Im November 2023 luden Snapshot-Builds den kompletten Browserverlauf ohne vorgesehene Ende-zu-Ende-Verschlüsselung hoch, bis Vivaldi die Funktion deaktivierte und korrigierte.',
+      localizedTexts: { de: 'Im November 2023 luden Snapshot-Builds den kompletten Browserverlauf ohne vorgesehene Ende-zu-Ende-Verschlüsselung hoch, bis Vivaldi die Funktion deaktivierte und korrigierte.' },
       severity: 'major',
       date: '2023-11-15',
       sourceUrl: 'https://vivaldi.com/blog/desktop/sync-privacy-incident-affecting-our-snapshot-test-users/',
@@ -2516,7 +2528,7 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'sync-outage-capacity-incident-2024',
       text: 'Sync was unavailable for multiple days in December 2024 while backend database capacity and rebalancing work was underway.',
-      textDe: 'Sync war im Dezember 2024 mehrere Tage nicht verfügbar, während Backend-Datenbankkapazität ausgebaut und Last neu verteilt wurde.',
+      localizedTexts: { de: 'Sync war im Dezember 2024 mehrere Tage nicht verfügbar, während Backend-Datenbankkapazität ausgebaut und Last neu verteilt wurde.' },
       severity: 'moderate',
       date: '2024-12-06',
       sourceUrl: 'https://www.pcworld.com/article/2552078/vivaldis-sync-outage-stretches-into-a-fifth-day.html',
@@ -2524,14 +2536,14 @@ export const reservationsById: Record<string, Reservation[]> = {
     {
       id: 'partial-proprietary-ui-limits-auditability',
       text: 'Vivaldi is not distributed under one unified open-source license; the UI layer remains closed-source, limiting continuous external audit.',
-      textDe: 'Vivaldi wird nicht unter einer einheitlichen Open-Source-Lizenz verteilt; die UI-Schicht bleibt proprietär und begrenzt damit kontinuierliche externe Audits.',
+      localizedTexts: { de: 'Vivaldi wird nicht unter einer einheitlichen Open-Source-Lizenz verteilt; die UI-Schicht bleibt proprietär und begrenzt damit kontinuierliche externe Audits.' },
       severity: 'moderate',
       sourceUrl: 'https://help.vivaldi.com/desktop/privacy/is-vivaldi-open-source/',
     },
     {
       id: 'search-suggestions-and-safe-browsing-third-party-flows',
       text: 'Search suggestions send typed queries to the selected engine, and Google Safe Browsing is integrated by default on desktop and Android.',
-      textDe: 'Suchvorschläge senden eingegebene Suchbegriffe an die ausgewählte Suchmaschine, und Google Safe Browsing ist auf Desktop und Android standardmässig integriert.',
+      localizedTexts: { de: 'Suchvorschläge senden eingegebene Suchbegriffe an die ausgewählte Suchmaschine, und Google Safe Browsing ist auf Desktop und Android standardmässig integriert.' },
       severity: 'moderate',
       sourceUrl: 'https://vivaldi.com/privacy/browser/',
     },
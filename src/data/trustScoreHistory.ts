@@ -0,0 +1,62 @@
+import type { TrustScoreChange } from '../types';
+
+// Append-only log of published trust scores (trustScoresById in trustOverrides.ts), oldest first.
+// Every score change adds an entry with its date and reason; `npm run validate:catalogue` checks
+// that the latest entry of each alternative matches the published score.
+export const trustScoreHistory: TrustScoreChange[] = [
+  // Scores published when the history was started; earlier changes were not recorded.
+  { alternativeId: 'adyen', date: '2026-10-18', score: 8.6 },
+  { alternativeId: 'black-forest-labs', date: '2026-10-18', score: 6.8 },
+  { alternativeId: 'bitwarden', date: '2026-10-18', score: 8.9 },
+  { alternativeId: 'cryptpad', date: '2026-10-18', score: 9.8 },
+  { alternativeId: 'deepl', date: '2026-10-18', score: 7.5 },
+  { alternativeId: 'ecosia', date: '2026-10-18', score: 8.5 },
+  { alternativeId: 'euria', date: '2026-10-18', score: 8.9 },
+  { alternativeId: 'hetzner', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'element', date: '2026-10-18', score: 9.4 },
+  { alternativeId: 'filen', date: '2026-10-18', score: 7.3 },
+  { alternativeId: 'hostinger', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'hugging-face', date: '2026-10-18', score: 6.8 },
+  { alternativeId: 'infomaniak', date: '2026-10-18', score: 8.5 },
+  { alternativeId: 'home-assistant', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'ionos', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'lumo', date: '2026-10-18', score: 7.8 },
+  { alternativeId: 'mailbox-org', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'mailfence', date: '2026-10-18', score: 8.6 },
+  { alternativeId: 'magic-earth', date: '2026-10-18', score: 7.0 },
+  { alternativeId: 'linux-kernel', date: '2026-10-18', score: 10.0 },
+  { alternativeId: 'mastodon', date: '2026-10-18', score: 9.5 },
+  { alternativeId: 'mistral', date: '2026-10-18', score: 6.8 },
+  { alternativeId: 'mollie', date: '2026-10-18', score: 7.1 },
+  { alternativeId: 'mullvad-vpn', date: '2026-10-18', score: 8.9 },
+  { alternativeId: 'ollama', date: '2026-10-18', score: 9.4 },
+  { alternativeId: 'nextcloud', date: '2026-10-18', score: 9.8 },
+  { alternativeId: 'nextcloud-docs', date: '2026-10-18', score: 9.3 },
+  { alternativeId: 'nordvpn', date: '2026-10-18', score: 8.8 },
+  { alternativeId: 'olvid', date: '2026-10-18', score: 8.9 },
+  { alternativeId: 'organic-maps', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'osmand', date: '2026-10-18', score: 7.4 },
+  { alternativeId: 'openstreetmap', date: '2026-10-18', score: 9.8 },
+  { alternativeId: 'ovhcloud', date: '2026-10-18', score: 8.1 },
+  { alternativeId: 'pcloud', date: '2026-10-18', score: 6.5 },
+  { alternativeId: 'peertube', date: '2026-10-18', score: 9.7 },
+  { alternativeId: 'pixelfed', date: '2026-10-18', score: 9.6 },
+  { alternativeId: 'plausible', date: '2026-10-18', score: 7.2 },
+  { alternativeId: 'prestashop', date: '2026-10-18', score: 8.4 },
+  { alternativeId: 'posteo', date: '2026-10-18', score: 8.8 },
+  { alternativeId: 'proton-mail', date: '2026-10-18', score: 9.0 },
+  { alternativeId: 'proton-vpn', date: '2026-10-18', score: 8.5 },
+  { alternativeId: 'qwant', date: '2026-10-18', score: 7.5 },
+  { alternativeId: 'raspberry-pi-self-hosting', date: '2026-10-18', score: 9.2 },
+  { alternativeId: 'scaleway', date: '2026-10-18', score: 7.6 },
+  { alternativeId: 'simple-analytics', date: '2026-10-18', score: 7.2 },
+  { alternativeId: 'startmail', date: '2026-10-18', score: 8.5 },
+  { alternativeId: 'thunderbird', date: '2026-10-18', score: 9.6 },
+  { alternativeId: 'tresorit', date: '2026-10-18', score: 8.4 },
+  { alternativeId: 'tuta', date: '2026-10-18', score: 9.2 },
+  { alternativeId: 'threema', date: '2026-10-18', score: 8.9 },
+  { alternativeId: 'kdrive', date: '2026-10-18', score: 8.7 },
+  { alternativeId: 'keepassxc', date: '2026-10-18', score: 9.4 },
+  { alternativeId: 'vikunja', date: '2026-10-18', score: 8.8 },
+  { alternativeId: 'vivaldi', date: '2026-10-18', score: 8.1 },
+];
@@ -1,4 +1,4 @@
-import type { Reservation, USVendorComparison } from '../types';
+import type { LocalizedText, Reservation, USVendorComparison } from '../types';
 
 interface USVendorRecord {
   id: string;
@@ -9,7 +9,7 @@ interface USVendorRecord {
 interface USVendorTrustProfile {
   trustScore: number;
   description: string;
-  descriptionDe: string;
+  localizedDescriptions: LocalizedText;
   reservations: Reservation[];
 }
 
@@ -405,20 +405,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.7,
     description:
         'US-operated email service with strong technical hardening, but trust is reduced by Alphabet\'s ad-driven incentives, major privacy enforcement actions, and antitrust rulings.',
-    descriptionDe:
-        'US-E-Mail-Dienst mit starker technischer Absicherung, dessen Vertrauen aber durch Alphabets werbegetriebene Anreize, schwere Privacy-Verfahren und Antitrust-Urteile reduziert wird.',
+    localizedDescriptions: {
+      de: 'US-E-Mail-Dienst mit starker technischer Absicherung, dessen Vertrauen aber durch Alphabets werbegetriebene Anreize, schwere Privacy-Verfahren und Antitrust-Urteile reduziert wird.',
+    },
     reservations: [
       {
         id: 'ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with privacy-first expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Großteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Großteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -426,7 +427,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'adverse-antitrust-rulings-2024-2025',
         text: 'US antitrust cases found Google violated competition law in search and open-web ad-tech markets.',
-        textDe: 'US-Antitrust-Verfahren stellten fest, dass Google im Such- und Open-Web-Ad-Tech-Markt gegen Wettbewerbsrecht verstoßen hat.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten fest, dass Google im Such- und Open-Web-Ad-Tech-Markt gegen Wettbewerbsrecht verstoßen hat.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -434,7 +435,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-bundled-pricing-2025',
         text: 'Workspace business plans were repriced while Gemini AI features were bundled into base offerings, reducing opt-out flexibility on cost.',
-        textDe: 'Workspace-Business-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden, was die Kosten-Opt-out-Flexibilität reduziert.',
+        localizedTexts: { de: 'Workspace-Business-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden, was die Kosten-Opt-out-Flexibilität reduziert.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -445,27 +446,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.6,
     description:
         'US-operated cloud storage service with strong security/compliance controls and export tooling, but trust is materially reduced by US legal-process exposure, Alphabet\'s ad-driven incentives, major privacy enforcement, and lock-in/reliability risks in Drive-adjacent workflows.',
-    descriptionDe:
-        'US-Cloudspeicherdienst mit starken Security-/Compliance-Kontrollen und Export-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreize, schwere Privacy-Durchsetzung sowie Lock-in- und Reliability-Risiken in Drive-nahen Workflows.',
+    localizedDescriptions: {
+      de: 'US-Cloudspeicherdienst mit starken Security-/Compliance-Kontrollen und Export-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreize, schwere Privacy-Durchsetzung sowie Lock-in- und Reliability-Risiken in Drive-nahen Workflows.',
+    },
     reservations: [
       {
         id: 'drive-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so EU data-location controls alone do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'drive-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations for cloud storage.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Cloudspeicher kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Cloudspeicher kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'drive-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -473,7 +475,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'drive-cnil-cookie-advertising-fine-2025',
         text: 'France\'s CNIL fined Google EUR 325M in September 2025 over ad insertion between Gmail emails and cookie-consent violations during account creation flows.',
-        textDe: 'Die französische CNIL verhängte im September 2025 eine Strafe von 325 Mio. EUR gegen Google wegen Werbeeinblendungen zwischen Gmail-E-Mails und Cookie-Consent-Verstössen bei der Account-Erstellung.',
+        localizedTexts: { de: 'Die französische CNIL verhängte im September 2025 eine Strafe von 325 Mio. EUR gegen Google wegen Werbeeinblendungen zwischen Gmail-E-Mails und Cookie-Consent-Verstössen bei der Account-Erstellung.' },
         severity: 'major',
         date: '2025-09-03',
         sourceUrl: 'https://www.cnil.fr/en/cookies-and-advertisements-inserted-between-emails-google-fined-325-million-euros-cnil',
@@ -481,7 +483,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'drive-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk for the broader Drive ecosystem.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken im weiteren Drive-Ökosystem.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken im weiteren Drive-Ökosystem.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -489,21 +491,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'drive-desktop-unsynced-file-loss-84x',
         text: 'Google documented a Drive for desktop v84.x issue where unsynced local files could be lost and published a recovery workflow, indicating real endpoint-sync resilience risk.',
-        textDe: 'Google dokumentierte ein Drive-for-desktop-v84.x-Problem, bei dem unsynchronisierte lokale Dateien verloren gehen konnten, und veröffentlichte einen Recovery-Workflow; das zeigt ein reales Endpoint-Sync-Resilienzrisiko.',
+        localizedTexts: { de: 'Google dokumentierte ein Drive-for-desktop-v84.x-Problem, bei dem unsynchronisierte lokale Dateien verloren gehen konnten, und veröffentlichte einen Recovery-Workflow; das zeigt ein reales Endpoint-Sync-Resilienzrisiko.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/drive/answer/16631477?hl=en',
       },
       {
         id: 'drive-export-format-conversion-friction',
         text: 'Data export exists, but migration from native Google file types often relies on format conversion, which can introduce fidelity and workflow friction.',
-        textDe: 'Datenexport ist verfügbar, aber die Migration aus nativen Google-Dateitypen basiert oft auf Formatkonvertierung, was zu Fidelity- und Workflow-Reibung führen kann.',
+        localizedTexts: { de: 'Datenexport ist verfügbar, aber die Migration aus nativen Google-Dateitypen basiert oft auf Formatkonvertierung, was zu Fidelity- und Workflow-Reibung führen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/docs/answer/49114',
       },
       {
         id: 'drive-workspace-ai-bundled-pricing-2025',
         text: 'Workspace plans were repriced while Gemini AI capabilities were bundled into base offerings, reducing cost opt-out flexibility for organizations using Drive inside Workspace.',
-        textDe: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen, die Drive in Workspace nutzen.',
+        localizedTexts: { de: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen, die Drive in Workspace nutzen.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -511,14 +513,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'drive-account-termination-data-loss-risk',
         text: 'Google Drive Additional Terms state that account or access suspension/termination can limit service use and data access, so backup discipline remains necessary.',
-        textDe: 'Die zusätzlichen Google-Drive-Bedingungen nennen, dass Account- oder Zugriffssperren die Dienstnutzung und den Datenzugriff einschränken können; regelmässige Backups bleiben daher notwendig.',
+        localizedTexts: { de: 'Die zusätzlichen Google-Drive-Bedingungen nennen, dass Account- oder Zugriffssperren die Dienstnutzung und den Datenzugriff einschränken können; regelmässige Backups bleiben daher notwendig.' },
         severity: 'moderate',
         sourceUrl: 'https://www.google.com/drive/terms-of-service/',
       },
       {
         id: 'drive-two-year-overquota-inactivity-deletion-policy',
         text: 'Google\'s account-storage policy states that if a consumer account remains over quota (or inactive in services) for two years, content in Gmail, Drive, and Photos may be deleted.',
-        textDe: 'Googles Account-Storage-Policy nennt, dass bei zwei Jahren Überquota (oder Inaktivität in Diensten) Inhalte in Gmail, Drive und Photos gelöscht werden können.',
+        localizedTexts: { de: 'Googles Account-Storage-Policy nennt, dass bei zwei Jahren Überquota (oder Inaktivität in Diensten) Inhalte in Gmail, Drive und Photos gelöscht werden können.' },
         severity: 'moderate',
         date: '2020-11-11',
         sourceUrl: 'https://blog.google/products-and-platforms/products/workspace/storage-policy-update/',
@@ -529,27 +531,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.8,
     description:
         'US-operated document platform with strong enterprise security controls, but trust is materially reduced by US legal-process exposure, Alphabet\'s ad-driven corporate incentives, and major privacy/antitrust enforcement history.',
-    descriptionDe:
-        'US-Dokumentenplattform mit starken Enterprise-Sicherheitskontrollen, deren Vertrauen jedoch durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Unternehmensanreize und schwere Privacy-/Antitrust-Verfahren deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Dokumentenplattform mit starken Enterprise-Sicherheitskontrollen, deren Vertrauen jedoch durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Unternehmensanreize und schwere Privacy-/Antitrust-Verfahren deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'docs-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal process frameworks, so EU data-region settings do not fully remove jurisdictional disclosure risk on their own.',
-        textDe: 'Als US-Anbieter kann Google auf Basis von US-Rechtsrahmen zur Datenausgabe verpflichtet werden; EU-Datenregionen beseitigen dieses Jurisdiktionsrisiko allein nicht vollständig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google auf Basis von US-Rechtsrahmen zur Datenausgabe verpflichtet werden; EU-Datenregionen beseitigen dieses Jurisdiktionsrisiko allein nicht vollständig.' },
         severity: 'major',
         sourceUrl: 'https://www.govinfo.gov/content/pkg/PLAW-115publ141/pdf/PLAW-115publ141.pdf',
       },
       {
         id: 'docs-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'docs-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -557,7 +560,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'docs-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk for the broader product ecosystem.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken im gesamten Produktökosystem.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken im gesamten Produktökosystem.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -565,7 +568,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'docs-gemini-bundled-pricing-2025',
         text: 'Workspace plans were repriced while Gemini AI capabilities were bundled into base offerings, reducing cost opt-out flexibility for organizations that do not want AI features.',
-        textDe: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen ohne AI-Bedarf.',
+        localizedTexts: { de: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen ohne AI-Bedarf.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -573,21 +576,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'docs-export-format-conversion-friction',
         text: 'Local exports rely on conversion to external file formats, which can introduce document-fidelity friction during migration from complex native Docs workflows.',
-        textDe: 'Lokale Exporte beruhen auf der Konvertierung in externe Dateiformate, was bei komplexen nativen Docs-Workflows zu Migrations- und Formatfidelitätsverlust führen kann.',
+        localizedTexts: { de: 'Lokale Exporte beruhen auf der Konvertierung in externe Dateiformate, was bei komplexen nativen Docs-Workflows zu Migrations- und Formatfidelitätsverlust führen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/docs/answer/49114',
       },
       {
         id: 'docs-drive-desktop-unsynced-file-loss-84x',
         text: 'Google documented a specific Drive for desktop v84.x issue where unsynced local files could be lost and later introduced a recovery workflow, indicating real resilience risk in adjacent Docs sync workflows.',
-        textDe: 'Google dokumentierte ein konkretes Drive-for-desktop-v84.x-Problem, bei dem unsynchronisierte lokale Dateien verloren gehen konnten, und führte später einen Recovery-Workflow ein; das zeigt ein reales Resilienzrisiko in angrenzenden Docs-Sync-Workflows.',
+        localizedTexts: { de: 'Google dokumentierte ein konkretes Drive-for-desktop-v84.x-Problem, bei dem unsynchronisierte lokale Dateien verloren gehen konnten, und führte später einen Recovery-Workflow ein; das zeigt ein reales Resilienzrisiko in angrenzenden Docs-Sync-Workflows.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/drive/answer/16631477?hl=en',
       },
       {
         id: 'docs-ai-principles-guardrail-shift-2025',
         text: 'In February 2025, Google updated public AI principles and removed explicit pledge language about avoiding AI for weapons or surveillance, increasing governance-drift concern for AI-enabled product surfaces.',
-        textDe: 'Im Februar 2025 aktualisierte Google die öffentlichen KI-Prinzipien und entfernte explizite Zusagen, KI für Waffen oder Überwachung zu vermeiden; das erhöht Governance-Drift-Bedenken für KI-aktivierte Produktflächen.',
+        localizedTexts: { de: 'Im Februar 2025 aktualisierte Google die öffentlichen KI-Prinzipien und entfernte explizite Zusagen, KI für Waffen oder Überwachung zu vermeiden; das erhöht Governance-Drift-Bedenken für KI-aktivierte Produktflächen.' },
         severity: 'moderate',
         date: '2025-02-04',
         sourceUrl: 'https://techcrunch.com/2025/02/04/google-removes-pledge-to-not-use-ai-for-weapons-from-website/',
@@ -598,27 +601,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.5,
     description:
         'US-operated productivity suite with strong security/compliance controls and mature enterprise governance tooling, but trust is materially reduced by US legal-process exposure, Alphabet\'s ad-driven incentive structure, and major privacy/antitrust enforcement history.',
-    descriptionDe:
-        'US-Produktivitätssuite mit starken Security-/Compliance-Kontrollen und reifem Enterprise-Governance-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreizstruktur sowie schwere Privacy-/Antitrust-Verfahren.',
+    localizedDescriptions: {
+      de: 'US-Produktivitätssuite mit starken Security-/Compliance-Kontrollen und reifem Enterprise-Governance-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreizstruktur sowie schwere Privacy-/Antitrust-Verfahren.',
+    },
     reservations: [
       {
         id: 'workspace-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so EU data-location controls alone do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'workspace-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'workspace-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -626,7 +630,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'workspace-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk across Workspace dependencies.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken über Workspace-Abhängigkeiten hinweg.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken über Workspace-Abhängigkeiten hinweg.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -634,14 +638,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'workspace-data-regions-covered-data-scope',
         text: 'Workspace Data Regions apply only to specified covered data and eligible editions, so some data classes may still be processed outside the selected region.',
-        textDe: 'Workspace Data Regions gelten nur für spezifizierte abgedeckte Daten und berechtigte Editionen; einige Datenklassen können daher weiterhin außerhalb der gewählten Region verarbeitet werden.',
+        localizedTexts: { de: 'Workspace Data Regions gelten nur für spezifizierte abgedeckte Daten und berechtigte Editionen; einige Datenklassen können daher weiterhin außerhalb der gewählten Region verarbeitet werden.' },
         severity: 'moderate',
         sourceUrl: 'https://workspace.google.com/terms/service-terms/',
       },
       {
         id: 'workspace-drift-oauth-integration-incident-2025',
         text: 'Google documented that compromised OAuth tokens in the Drift integration campaign enabled mailbox access for a very small number of affected Workspace accounts.',
-        textDe: 'Google dokumentierte, dass kompromittierte OAuth-Tokens in der Drift-Integrationskampagne den Mailbox-Zugriff auf eine sehr kleine Zahl betroffener Workspace-Accounts ermöglichten.',
+        localizedTexts: { de: 'Google dokumentierte, dass kompromittierte OAuth-Tokens in der Drift-Integrationskampagne den Mailbox-Zugriff auf eine sehr kleine Zahl betroffener Workspace-Accounts ermöglichten.' },
         severity: 'moderate',
         date: '2025-08-09',
         sourceUrl: 'https://cloud.google.com/blog/topics/threat-intelligence/data-theft-salesforce-instances-via-salesloft-drift',
@@ -649,7 +653,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'workspace-ai-bundled-pricing-2025',
         text: 'Workspace plans were repriced while Gemini AI capabilities were bundled into base offerings, reducing cost opt-out flexibility for organizations without AI requirements.',
-        textDe: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen ohne AI-Bedarf.',
+        localizedTexts: { de: 'Workspace-Pläne wurden neu bepreist, während Gemini-AI-Funktionen in Basispakete gebündelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilität für Organisationen ohne AI-Bedarf.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -657,42 +661,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'workspace-annual-term-remaining-balance',
         text: 'Google cancellation guidance for annual or fixed-term subscriptions states the remaining contract balance can still be charged at cancellation, increasing exit-cost risk.',
-        textDe: 'Die Google-Kündigungsdokumentation für jährliche oder feste Laufzeitabos nennt, dass bei Kündigung der verbleibende Vertragswert weiter berechnet werden kann; das erhöht Exit-Kostenrisiken.',
+        localizedTexts: { de: 'Die Google-Kündigungsdokumentation für jährliche oder feste Laufzeitabos nennt, dass bei Kündigung der verbleibende Vertragswert weiter berechnet werden kann; das erhöht Exit-Kostenrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://docs.cloud.google.com/identity/docs/how-to/cancel-cloud-identity',
       },
       {
         id: 'workspace-domain-verification-verifying-party-control-risk',
         text: 'Google Workspace service terms state that a domain "Verifying Party" can assume control of matching accounts and associated data after domain verification, creating governance risk if domain transitions are not tightly controlled.',
-        textDe: 'Die Google-Workspace-Servicebedingungen nennen, dass eine verifizierende Partei nach Domain-Verifikation Kontrolle ueber zugehoerige Konten und Daten uebernehmen kann; ohne strikte Domain-Governance entsteht dadurch ein relevantes Risiko.',
+        localizedTexts: { de: 'Die Google-Workspace-Servicebedingungen nennen, dass eine verifizierende Partei nach Domain-Verifikation Kontrolle ueber zugehoerige Konten und Daten uebernehmen kann; ohne strikte Domain-Governance entsteht dadurch ein relevantes Risiko.' },
         severity: 'moderate',
         sourceUrl: 'https://workspace.google.com/intl/en/terms/service-terms/',
       },
       {
         id: 'workspace-export-timeline-friction',
         text: 'Google\'s admin export flow is available no earlier than 48 hours, typically takes 72 hours, and can take up to 14 days, which adds operational friction and delay to offboarding or emergency migration.',
-        textDe: 'Der Admin-Export ist laut Google fruehestens nach 48 Stunden verfuegbar, dauert typischerweise 72 Stunden und kann bis zu 14 Tage dauern; das erhoeht operative Reibung bei Offboarding oder Notfallmigrationen.',
+        localizedTexts: { de: 'Der Admin-Export ist laut Google fruehestens nach 48 Stunden verfuegbar, dauert typischerweise 72 Stunden und kann bis zu 14 Tage dauern; das erhoeht operative Reibung bei Offboarding oder Notfallmigrationen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/a/answer/14339894?hl=en',
       },
       {
         id: 'workspace-cse-edition-gating',
         text: 'Client-side encryption is limited to specific higher-tier editions, so strongest sovereignty controls are not uniformly available across all Workspace plans.',
-        textDe: 'Client-Side-Encryption ist auf bestimmte hoehere Editionen begrenzt; die staerksten Souveraenitaetskontrollen stehen daher nicht in allen Workspace-Plaenen einheitlich zur Verfuegung.',
+        localizedTexts: { de: 'Client-Side-Encryption ist auf bestimmte hoehere Editionen begrenzt; die staerksten Souveraenitaetskontrollen stehen daher nicht in allen Workspace-Plaenen einheitlich zur Verfuegung.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/a/answer/10741897?hl=en',
       },
       {
         id: 'workspace-pricing-volatility-2023-2025',
         text: 'Google has implemented repeated Workspace pricing changes across plan generations, increasing long-term budgeting uncertainty for customers.',
-        textDe: 'Google hat ueber mehrere Plan-Generationen wiederholt Workspace-Preisaenderungen umgesetzt; das erhoeht die langfristige Budgetunsicherheit fuer Kunden.',
+        localizedTexts: { de: 'Google hat ueber mehrere Plan-Generationen wiederholt Workspace-Preisaenderungen umgesetzt; das erhoeht die langfristige Budgetunsicherheit fuer Kunden.' },
         severity: 'moderate',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/pricing-updates-and-more-flexible-payment-options-google-workspace',
       },
       {
         id: 'workspace-workspace-gemini-incident-2025',
         text: 'Google\'s public status incident reports include recent Workspace-impacting failures (including high error rates for Workspace Gemini dependencies), underscoring non-trivial availability risk despite hyperscale operations.',
-        textDe: 'Googles oeffentliche Status-Incident-Reports zeigen juengere Workspace-relevante Stoerungen (inklusive hoher Fehlerraten bei Workspace-Gemini-Abhaengigkeiten) und unterstreichen ein nicht-triviales Verfuegbarkeitsrisiko trotz Hyperscale-Betrieb.',
+        localizedTexts: { de: 'Googles oeffentliche Status-Incident-Reports zeigen juengere Workspace-relevante Stoerungen (inklusive hoher Fehlerraten bei Workspace-Gemini-Abhaengigkeiten) und unterstreichen ein nicht-triviales Verfuegbarkeitsrisiko trotz Hyperscale-Betrieb.' },
         severity: 'moderate',
         date: '2025-09-29',
         sourceUrl: 'https://www.google.com/appsstatus/dashboard/incidents/6GdahVtGTryxTdh56iLP',
@@ -700,7 +704,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'workspace-education-dpia-risk-signal',
         text: 'European education-sector DPIA programs reported material Workspace privacy risks that required negotiated mitigations, indicating non-trivial compliance effort in sensitive deployments.',
-        textDe: 'Europaeische Bildungs-DPIA-Programme berichteten substanzielle Workspace-Privacy-Risiken, die nachverhandelte Massnahmen erforderten; das zeigt signifikanten Compliance-Aufwand in sensitiven Einsaetzen.',
+        localizedTexts: { de: 'Europaeische Bildungs-DPIA-Programme berichteten substanzielle Workspace-Privacy-Risiken, die nachverhandelte Massnahmen erforderten; das zeigt signifikanten Compliance-Aufwand in sensitiven Einsaetzen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.surf.nl/en/news/privacy-risks-with-google-workspace-have-been-resolved',
       },
@@ -710,27 +714,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.5,
     description:
         'US-operated meeting platform with strong encryption/compliance controls and mature admin tooling, but trust is materially reduced by US legal-process exposure, Alphabet\'s ad-driven incentives, and major privacy/antitrust enforcement history.',
-    descriptionDe:
-        'US-Meeting-Plattform mit starken Verschluesselungs-/Compliance-Kontrollen und reifem Admin-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreizstruktur sowie schwere Privacy-/Antitrust-Verfahren.',
+    localizedDescriptions: {
+      de: 'US-Meeting-Plattform mit starken Verschluesselungs-/Compliance-Kontrollen und reifem Admin-Tooling; das Vertrauen sinkt jedoch deutlich durch US-Rechtszugriffsrisiken, Alphabets werbegetriebene Anreizstruktur sowie schwere Privacy-/Antitrust-Verfahren.',
+    },
     reservations: [
       {
         id: 'meet-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so EU data-location controls alone do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'meet-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations for workplace communications.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Arbeitsplatzkommunikation kollidieren koennen.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Arbeitsplatzkommunikation kollidieren koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'meet-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich ueber 1,375 Mrd. USD zu, basierend auf Privacy-Vorwuerfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich ueber 1,375 Mrd. USD zu, basierend auf Privacy-Vorwuerfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -738,7 +743,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk across Google Meet dependencies.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstaerken damit Governance- und Marktkonzentrationsrisiken ueber Google-Meet-Abhaengigkeiten hinweg.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstaerken damit Governance- und Marktkonzentrationsrisiken ueber Google-Meet-Abhaengigkeiten hinweg.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -746,7 +751,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-california-location-privacy-settlement-2023',
         text: 'California announced a $93M settlement in 2023 over allegations that Google deceived users about location-data collection and use for profiling/advertising without informed consent.',
-        textDe: 'Kalifornien gab 2023 einen Vergleich ueber 93 Mio. USD bekannt wegen Vorwuerfen, Google habe Nutzer bei Erhebung und Nutzung von Standortdaten fuer Profiling/Werbung ohne informierte Einwilligung getaeuscht.',
+        localizedTexts: { de: 'Kalifornien gab 2023 einen Vergleich ueber 93 Mio. USD bekannt wegen Vorwuerfen, Google habe Nutzer bei Erhebung und Nutzung von Standortdaten fuer Profiling/Werbung ohne informierte Einwilligung getaeuscht.' },
         severity: 'major',
         date: '2023-09-14',
         sourceUrl: 'https://oag.ca.gov/news/press-releases/attorney-general-bonta-announces-93-million-settlement-regarding-google%E2%80%99s',
@@ -754,7 +759,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-incognito-privacy-settlement-2024',
         text: 'Google settled US Incognito privacy litigation in 2024, including deletion commitments for large volumes of private-browsing records and clearer disclosures.',
-        textDe: 'Google einigte sich 2024 in den USA auf einen Vergleich zur Incognito-Privacy-Klage, einschliesslich Loeschzusagen fuer grosse Mengen privater Browsing-Daten und klarerer Hinweise.',
+        localizedTexts: { de: 'Google einigte sich 2024 in den USA auf einen Vergleich zur Incognito-Privacy-Klage, einschliesslich Loeschzusagen fuer grosse Mengen privater Browsing-Daten und klarerer Hinweise.' },
         severity: 'major',
         date: '2024-04-01',
         sourceUrl: 'https://apnews.com/article/203cc5063f1a1d4013de1900d9376814',
@@ -762,7 +767,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-multistate-location-tracking-settlement-2022',
         text: 'A coalition of 40 US attorneys general announced a $391.5M settlement in 2022 over allegations Google misled users about location-tracking controls.',
-        textDe: 'Ein Zusammenschluss aus 40 US-Justizministerien kuendigte 2022 einen Vergleich ueber 391,5 Mio. USD an, basierend auf Vorwuerfen, Google habe Nutzer bei Location-Tracking-Kontrollen in die Irre gefuehrt.',
+        localizedTexts: { de: 'Ein Zusammenschluss aus 40 US-Justizministerien kuendigte 2022 einen Vergleich ueber 391,5 Mio. USD an, basierend auf Vorwuerfen, Google habe Nutzer bei Location-Tracking-Kontrollen in die Irre gefuehrt.' },
         severity: 'major',
         date: '2022-11-14',
         sourceUrl: 'https://www.doj.state.or.us/media-home/news-media-releases/largest-ag-consumer-privacy-settlement-in-u-s-history/',
@@ -770,14 +775,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-edpb-edps-cloud-act-conflict-analysis',
         text: 'A joint EDPB/EDPS response highlights legal tension between US CLOUD Act access powers and EU data-protection requirements, reinforcing unresolved sovereignty risk for EU-regulated deployments.',
-        textDe: 'Eine gemeinsame Stellungnahme von EDPB und EDPS betont die rechtliche Spannung zwischen US-CLOUD-Act-Zugriffsrechten und EU-Datenschutzanforderungen und verstaerkt damit ungeloste Souveraenitaetsrisiken fuer EU-regulierte Einsaetze.',
+        localizedTexts: { de: 'Eine gemeinsame Stellungnahme von EDPB und EDPS betont die rechtliche Spannung zwischen US-CLOUD-Act-Zugriffsrechten und EU-Datenschutzanforderungen und verstaerkt damit ungeloste Souveraenitaetsrisiken fuer EU-regulierte Einsaetze.' },
         severity: 'major',
         sourceUrl: 'https://www.edpb.europa.eu/our-work-tools/our-documents/letters/edpb-edps-joint-response-libe-committee-impact-us-cloud-act_en',
       },
       {
         id: 'meet-outage-cache-change-2025-09-08',
         text: 'Google\'s incident report documents a September 8, 2025 Meet outage tied to cache-service overload and a remediation configuration rollback, indicating real availability and change-control risk.',
-        textDe: 'Googles Incident-Report dokumentiert einen Meet-Ausfall vom 8. September 2025 durch Cache-Service-Ueberlastung und Rollback einer Remediation-Konfiguration; das zeigt reale Verfuegbarkeits- und Change-Control-Risiken.',
+        localizedTexts: { de: 'Googles Incident-Report dokumentiert einen Meet-Ausfall vom 8. September 2025 durch Cache-Service-Ueberlastung und Rollback einer Remediation-Konfiguration; das zeigt reale Verfuegbarkeits- und Change-Control-Risiken.' },
         severity: 'moderate',
         date: '2025-09-08',
         sourceUrl: 'https://www.google.com/appsstatus/dashboard/incidents/muX1XjAhRG1krLmwbQsW',
@@ -785,14 +790,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-provider-jurisdiction-llc-ireland-split',
         text: 'Google\'s information-requests policy differentiates between Google LLC and Google Ireland provider flows and legal-process handling, increasing cross-jurisdiction disclosure complexity for sovereignty-sensitive Meet deployments.',
-        textDe: 'Googles Richtlinie zu Behoerdenanfragen unterscheidet zwischen Provider-Workflows von Google LLC und Google Ireland sowie der rechtlichen Bearbeitung; das erhoeht die grenzueberschreitende Komplexitaet bei Herausgaben fuer souveraenitaetssensible Meet-Deployments.',
+        localizedTexts: { de: 'Googles Richtlinie zu Behoerdenanfragen unterscheidet zwischen Provider-Workflows von Google LLC und Google Ireland sowie der rechtlichen Bearbeitung; das erhoeht die grenzueberschreitende Komplexitaet bei Herausgaben fuer souveraenitaetssensible Meet-Deployments.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/terms/information-requests?hl=en',
       },
       {
         id: 'meet-smart-features-consent-lawsuit-2025',
         text: 'A proposed class action filed in November 2025 alleges Gemini smart features were enabled for Gmail/Chat/Meet users without informed consent; claims remain unresolved.',
-        textDe: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features fuer Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwuerfe sind nicht abschliessend entschieden.',
+        localizedTexts: { de: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features fuer Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwuerfe sind nicht abschliessend entschieden.' },
         severity: 'moderate',
         date: '2025-11-11',
         sourceUrl: 'https://dockets.justia.com/docket/california/candce/5%3A2025cv09704/459505',
@@ -800,21 +805,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-data-regions-covered-data-scope',
         text: 'Workspace Data Regions apply only to specified covered data and eligible editions, so some Google Meet-related data classes may still be processed outside the selected region.',
-        textDe: 'Workspace Data Regions gelten nur fuer spezifizierte abgedeckte Daten und berechtigte Editionen; einige Google-Meet-bezogene Datenklassen koennen daher weiterhin ausserhalb der gewaehlten Region verarbeitet werden.',
+        localizedTexts: { de: 'Workspace Data Regions gelten nur fuer spezifizierte abgedeckte Daten und berechtigte Editionen; einige Google-Meet-bezogene Datenklassen koennen daher weiterhin ausserhalb der gewaehlten Region verarbeitet werden.' },
         severity: 'moderate',
         sourceUrl: 'https://workspace.google.com/terms/service-terms/',
       },
       {
         id: 'meet-cse-edition-gating',
         text: 'Client-side encryption controls are limited to specific higher-tier editions, so strongest sovereignty controls are not uniformly available across all Google Meet usage contexts.',
-        textDe: 'Client-Side-Encryption-Kontrollen sind auf bestimmte hoehere Editionen begrenzt; die staerksten Souveraenitaetskontrollen stehen daher nicht in allen Google-Meet-Nutzungskontexten einheitlich zur Verfuegung.',
+        localizedTexts: { de: 'Client-Side-Encryption-Kontrollen sind auf bestimmte hoehere Editionen begrenzt; die staerksten Souveraenitaetskontrollen stehen daher nicht in allen Google-Meet-Nutzungskontexten einheitlich zur Verfuegung.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/a/answer/10741897?hl=en',
       },
       {
         id: 'meet-ai-bundled-pricing-2025',
         text: 'Workspace plans were repriced while Gemini AI capabilities were bundled into base offerings, reducing cost opt-out flexibility for organizations that only need core meeting features.',
-        textDe: 'Workspace-Plaene wurden neu bepreist, waehrend Gemini-AI-Funktionen in Basispakete gebuendelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilitaet fuer Organisationen, die nur Kern-Meeting-Funktionen benoetigen.',
+        localizedTexts: { de: 'Workspace-Plaene wurden neu bepreist, waehrend Gemini-AI-Funktionen in Basispakete gebuendelt wurden; dadurch sinkt die Kosten-Opt-out-Flexibilitaet fuer Organisationen, die nur Kern-Meeting-Funktionen benoetigen.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -822,28 +827,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meet-pricing-volatility-2023-2025',
         text: 'Google has implemented repeated Workspace pricing changes across plan generations, increasing long-term budgeting uncertainty for organizations relying on Meet.',
-        textDe: 'Google hat ueber mehrere Workspace-Plan-Generationen wiederholt Preisaenderungen umgesetzt; das erhoeht die langfristige Budgetunsicherheit fuer Organisationen mit Meet-Abhaengigkeit.',
+        localizedTexts: { de: 'Google hat ueber mehrere Workspace-Plan-Generationen wiederholt Preisaenderungen umgesetzt; das erhoeht die langfristige Budgetunsicherheit fuer Organisationen mit Meet-Abhaengigkeit.' },
         severity: 'moderate',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/pricing-updates-and-more-flexible-payment-options-google-workspace',
       },
       {
         id: 'meet-annual-term-remaining-balance',
         text: 'Google cancellation guidance for annual or fixed-term subscriptions states the remaining contract balance can still be charged at cancellation, increasing exit-cost risk.',
-        textDe: 'Die Google-Kuendigungsdokumentation fuer jaehrliche oder feste Laufzeitabos nennt, dass bei Kuendigung der verbleibende Vertragswert weiter berechnet werden kann; das erhoeht Exit-Kostenrisiken.',
+        localizedTexts: { de: 'Die Google-Kuendigungsdokumentation fuer jaehrliche oder feste Laufzeitabos nennt, dass bei Kuendigung der verbleibende Vertragswert weiter berechnet werden kann; das erhoeht Exit-Kostenrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://docs.cloud.google.com/identity/docs/how-to/cancel-cloud-identity',
       },
       {
         id: 'meet-compliance-artifacts-access-gated',
         text: 'Detailed SOC/compliance evidence is distributed through Google\'s Compliance Reports Manager workflow rather than broadly public publication, reducing immediate public verifiability.',
-        textDe: 'Detaillierte SOC-/Compliance-Nachweise werden ueber Googles Compliance-Reports-Manager-Workflow statt breit oeffentlicher Publikation bereitgestellt; das reduziert die unmittelbare oeffentliche Nachpruefbarkeit.',
+        localizedTexts: { de: 'Detaillierte SOC-/Compliance-Nachweise werden ueber Googles Compliance-Reports-Manager-Workflow statt breit oeffentlicher Publikation bereitgestellt; das reduziert die unmittelbare oeffentliche Nachpruefbarkeit.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/security/compliance/compliance-reports-manager/',
       },
       {
         id: 'meet-chromium-governance-concentration-2025',
         text: 'Google reported contributing about 94% of Chromium commits in 2024, signaling concentrated single-vendor stewardship in core browser/WebRTC dependencies used for Meet access.',
-        textDe: 'Google gab an, 2024 etwa 94 Prozent der Chromium-Commits beigetragen zu haben; das signalisiert konzentrierte Single-Vendor-Stewardship in zentralen Browser-/WebRTC-Abhaengigkeiten fuer Meet-Zugriffe.',
+        localizedTexts: { de: 'Google gab an, 2024 etwa 94 Prozent der Chromium-Commits beigetragen zu haben; das signalisiert konzentrierte Single-Vendor-Stewardship in zentralen Browser-/WebRTC-Abhaengigkeiten fuer Meet-Zugriffe.' },
         severity: 'moderate',
         date: '2025-01-09',
         sourceUrl: 'https://blog.chromium.org/2025/01/announcing-supporters-of-chromium-based.html',
@@ -854,27 +859,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.5,
     description:
         'US-operated hyperscale cloud platform with strong certifications, access-control tooling, and mature security engineering, but trust remains materially reduced by US legal-process exposure, Alphabet-wide governance/legal risk, and non-trivial sovereignty and lock-in concerns for EU-sensitive workloads.',
-    descriptionDe:
-        'US-Hyperscaler-Cloudplattform mit starker Zertifizierungsbasis, ausgereiften Zugriffskontrollen und robuster Security-Engineering-Praxis; das Vertrauen bleibt jedoch durch US-Rechtszugriffsrisiken, Alphabet-weite Governance-/Rechtsrisiken sowie relevante Souveränitäts- und Lock-in-Bedenken für EU-sensitive Workloads deutlich reduziert.',
+    localizedDescriptions: {
+      de: 'US-Hyperscaler-Cloudplattform mit starker Zertifizierungsbasis, ausgereiften Zugriffskontrollen und robuster Security-Engineering-Praxis; das Vertrauen bleibt jedoch durch US-Rechtszugriffsrisiken, Alphabet-weite Governance-/Rechtsrisiken sowie relevante Souveränitäts- und Lock-in-Bedenken für EU-sensitive Workloads deutlich reduziert.',
+    },
     reservations: [
       {
         id: 'gcp-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so EU data-location controls alone do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollständig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'gcp-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives and governance pressures that can conflict with strict privacy-first expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize und Governance-Druck, die mit strikten Privacy-First-Erwartungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung; das schafft strukturelle Anreize und Governance-Druck, die mit strikten Privacy-First-Erwartungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'gcp-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -882,7 +888,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk for Google Cloud customers with broad ecosystem dependency.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken für Google-Cloud-Kunden mit breiter Ökosystem-Abhängigkeit.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit Governance- und Marktkonzentrationsrisiken für Google-Cloud-Kunden mit breiter Ökosystem-Abhängigkeit.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -890,7 +896,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-project-nimbus-governance-controversy-2024',
         text: 'Project Nimbus protests and employee dismissals in 2024 highlighted ongoing governance and human-rights controversy around government cloud contracts.',
-        textDe: 'Proteste und Entlassungen rund um Project Nimbus im Jahr 2024 machten fortbestehende Governance- und Human-Rights-Kontroversen bei staatlichen Cloudverträgen sichtbar.',
+        localizedTexts: { de: 'Proteste und Entlassungen rund um Project Nimbus im Jahr 2024 machten fortbestehende Governance- und Human-Rights-Kontroversen bei staatlichen Cloudverträgen sichtbar.' },
         severity: 'major',
         date: '2024-04-18',
         sourceUrl: 'https://apnews.com/article/8c0ff2d46e19b90bdc49ffe6ec4ae274',
@@ -898,7 +904,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-ai-principles-guardrail-shift-2025',
         text: 'Google updated public AI-principles wording in February 2025 and removed prior explicit no-weapons/no-surveillance language, increasing governance-drift concern for AI-enabled cloud workloads.',
-        textDe: 'Google passte im Februar 2025 die öffentlichen KI-Prinzipien an und entfernte frühere explizite No-Weapons-/No-Surveillance-Formulierungen; das erhöht Governance-Drift-Bedenken für KI-aktivierte Cloud-Workloads.',
+        localizedTexts: { de: 'Google passte im Februar 2025 die öffentlichen KI-Prinzipien an und entfernte frühere explizite No-Weapons-/No-Surveillance-Formulierungen; das erhöht Governance-Drift-Bedenken für KI-aktivierte Cloud-Workloads.' },
         severity: 'moderate',
         date: '2025-02-04',
         sourceUrl: 'https://techcrunch.com/2025/02/04/google-removes-pledge-to-not-use-ai-for-weapons-from-website/',
@@ -906,14 +912,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-edpb-edps-cloud-act-conflict-analysis',
         text: 'A joint EDPB/EDPS response highlights legal tension between US CLOUD Act access powers and EU data-protection requirements, reinforcing unresolved sovereignty risk for EU-regulated workloads.',
-        textDe: 'Eine gemeinsame Stellungnahme von EDPB und EDPS betont die rechtliche Spannung zwischen US-CLOUD-Act-Zugriffsrechten und EU-Datenschutzanforderungen und verstärkt damit ungelöste Souveränitätsrisiken für EU-regulierte Workloads.',
+        localizedTexts: { de: 'Eine gemeinsame Stellungnahme von EDPB und EDPS betont die rechtliche Spannung zwischen US-CLOUD-Act-Zugriffsrechten und EU-Datenschutzanforderungen und verstärkt damit ungelöste Souveränitätsrisiken für EU-regulierte Workloads.' },
         severity: 'major',
         sourceUrl: 'https://www.edpb.europa.eu/our-work-tools/our-documents/letters/edpb-edps-joint-response-libe-committee-impact-us-cloud-act_en',
       },
       {
         id: 'gcp-global-control-plane-incident-2025-06-12',
         text: 'Google Cloud reported a global multi-service incident on June 12, 2025, demonstrating that centralized control-plane changes can create broad blast-radius availability impact.',
-        textDe: 'Google Cloud meldete am 12. Juni 2025 einen globalen Multi-Service-Incident und zeigte damit, dass zentralisierte Control-Plane-Änderungen grosse Blast-Radius-Verfügbarkeitsauswirkungen haben können.',
+        localizedTexts: { de: 'Google Cloud meldete am 12. Juni 2025 einen globalen Multi-Service-Incident und zeigte damit, dass zentralisierte Control-Plane-Änderungen grosse Blast-Radius-Verfügbarkeitsauswirkungen haben können.' },
         severity: 'moderate',
         date: '2025-06-12',
         sourceUrl: 'https://status.cloud.google.com/incidents/ow5i3PPK96RduMcb1SsW',
@@ -921,7 +927,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-outage-third-party-cascade-impact-2025',
         text: 'Independent reporting on the June 2025 disruption documented spillover impact on major downstream services, underscoring ecosystem dependency risk beyond direct GCP tenants.',
-        textDe: 'Unabhängige Berichterstattung zur Störung im Juni 2025 dokumentierte Folgeschäden bei grossen Downstream-Diensten und unterstreicht damit Ökosystem-Abhängigkeitsrisiken über direkte GCP-Tenants hinaus.',
+        localizedTexts: { de: 'Unabhängige Berichterstattung zur Störung im Juni 2025 dokumentierte Folgeschäden bei grossen Downstream-Diensten und unterstreicht damit Ökosystem-Abhängigkeitsrisiken über direkte GCP-Tenants hinaus.' },
         severity: 'moderate',
         date: '2025-06-12',
         sourceUrl: 'https://apnews.com/article/18ad53dca0385a83ca5a4e219bcb3a9d',
@@ -929,42 +935,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-speech-data-logging-opt-in-retention-risk',
         text: 'Speech-to-Text data-logging terms can materially expand retention and usage scope when enabled, creating a contractual foot-gun risk for teams that opt in without strict governance.',
-        textDe: 'Die Data-Logging-Bedingungen von Speech-to-Text können bei Aktivierung Aufbewahrungs- und Nutzungsscope deutlich ausweiten und erzeugen ein vertragliches Foot-Gun-Risiko bei unstrikter Governance.',
+        localizedTexts: { de: 'Die Data-Logging-Bedingungen von Speech-to-Text können bei Aktivierung Aufbewahrungs- und Nutzungsscope deutlich ausweiten und erzeugen ein vertragliches Foot-Gun-Risiko bei unstrikter Governance.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/speech-to-text/docs/data-logging',
       },
       {
         id: 'gcp-service-terms-ai-training-exception-paths',
         text: 'Google Cloud service terms include no-training commitments by default, but service-specific contractual addenda can alter data-use boundaries, so controls depend on exact product and contract selection.',
-        textDe: 'Die Google-Cloud-Service-AGB enthalten standardmässig No-Training-Zusagen, doch servicespezifische Vertragszusätze können Datennutzungsgrenzen verändern; die Kontrolle hängt daher von exakter Produkt- und Vertragswahl ab.',
+        localizedTexts: { de: 'Die Google-Cloud-Service-AGB enthalten standardmässig No-Training-Zusagen, doch servicespezifische Vertragszusätze können Datennutzungsgrenzen verändern; die Kontrolle hängt daher von exakter Produkt- und Vertragswahl ab.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/terms/service-terms',
       },
       {
         id: 'gcp-cloud-switching-friction-cma-review',
         text: 'UK market investigation materials identify egress fees, committed-spend mechanics, and technical switching barriers as competition concerns across hyperscaler cloud markets.',
-        textDe: 'Unterlagen der britischen Marktuntersuchung benennen Egress-Fees, Committed-Spend-Mechaniken und technische Wechselbarrieren als Wettbewerbsprobleme in Hyperscaler-Cloudmärkten.',
+        localizedTexts: { de: 'Unterlagen der britischen Marktuntersuchung benennen Egress-Fees, Committed-Spend-Mechaniken und technische Wechselbarrieren als Wettbewerbsprobleme in Hyperscaler-Cloudmärkten.' },
         severity: 'moderate',
         sourceUrl: 'https://www.gov.uk/cma-cases/cloud-services-market-investigation',
       },
       {
         id: 'gcp-compliance-artifacts-access-gated',
         text: 'Many detailed assurance artifacts are distributed through the Compliance Reports Manager workflow rather than openly published, reducing immediate public verifiability.',
-        textDe: 'Viele detaillierte Assurance-Artefakte werden über den Compliance-Reports-Manager-Workflow statt offen veröffentlicht bereitgestellt, was die unmittelbare öffentliche Nachprüfbarkeit reduziert.',
+        localizedTexts: { de: 'Viele detaillierte Assurance-Artefakte werden über den Compliance-Reports-Manager-Workflow statt offen veröffentlicht bereitgestellt, was die unmittelbare öffentliche Nachprüfbarkeit reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/security/compliance/compliance-reports-manager/',
       },
       {
         id: 'gcp-fedramp-package-confidentiality-limits',
         text: 'FedRAMP package access is controlled and includes confidentiality constraints, which limits open independent scrutiny of control-evidence details.',
-        textDe: 'Der Zugriff auf FedRAMP-Pakete ist kontrolliert und mit Vertraulichkeitsauflagen verbunden, was die offene unabhängige Prüfung von Control-Evidence-Details einschränkt.',
+        localizedTexts: { de: 'Der Zugriff auf FedRAMP-Pakete ist kontrolliert und mit Vertraulichkeitsauflagen verbunden, was die offene unabhängige Prüfung von Control-Evidence-Details einschränkt.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/security/compliance/fedramp',
       },
       {
         id: 'gcp-cloud-storage-ops-pricing-shock-2022',
         text: 'Google announced Cloud Storage operations price changes that significantly increased some operation costs, reinforcing long-term cost-predictability risk.',
-        textDe: 'Google kündigte Preisänderungen bei Cloud-Storage-Operationen an, die einzelne Operations-Kosten deutlich erhöhten und langfristige Risiken für die Kostenplanbarkeit verstärken.',
+        localizedTexts: { de: 'Google kündigte Preisänderungen bei Cloud-Storage-Operationen an, die einzelne Operations-Kosten deutlich erhöhten und langfristige Risiken für die Kostenplanbarkeit verstärken.' },
         severity: 'moderate',
         date: '2022-10-01',
         sourceUrl: 'https://cloud.google.com/storage/pricing-announce',
@@ -972,7 +978,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gcp-exit-fee-program-conditional-scope-2024',
         text: 'Google announced migration-focused fee reductions in 2024, but eligibility/process conditions still require active commercial and legal review before relying on zero-exit-cost assumptions.',
-        textDe: 'Google kündigte 2024 migrationsbezogene Gebührenerleichterungen an, jedoch erfordern Zulässigkeits- und Prozessbedingungen weiterhin aktive Commercial- und Legal-Prüfung, bevor Null-Exit-Kosten angenommen werden.',
+        localizedTexts: { de: 'Google kündigte 2024 migrationsbezogene Gebührenerleichterungen an, jedoch erfordern Zulässigkeits- und Prozessbedingungen weiterhin aktive Commercial- und Legal-Prüfung, bevor Null-Exit-Kosten angenommen werden.' },
         severity: 'moderate',
         date: '2024-01-11',
         sourceUrl: 'https://cloud.google.com/blog/products/infrastructure-modernization/eliminating-data-transfer-fees-when-migrating-off-google-cloud',
@@ -983,20 +989,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.3,
     description:
         'US-operated browser with elite patch velocity and exploit response, but trust is materially reduced by ad-driven incentives, privacy litigation over Incognito expectations, and antitrust pressure tied to default-distribution power.',
-    descriptionDe:
-        'US-Browser mit sehr starker Patch-Geschwindigkeit und Exploit-Reaktion, dessen Vertrauen jedoch durch werbegetriebene Anreize, Privacy-Klagen rund um Incognito-Erwartungen und Antitrust-Druck bei Default-Verteilung deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Browser mit sehr starker Patch-Geschwindigkeit und Exploit-Reaktion, dessen Vertrauen jedoch durch werbegetriebene Anreize, Privacy-Klagen rund um Incognito-Erwartungen und Antitrust-Druck bei Default-Verteilung deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'chrome-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first browser expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Browser kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Browser kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'chrome-incognito-privacy-settlement-2024',
         text: 'Google settled US Incognito privacy litigation, including deletion commitments for large volumes of private-browsing records and clearer disclosures.',
-        textDe: 'Google einigte sich in den USA auf einen Vergleich zur Incognito-Privacy-Klage, einschliesslich Löschzusagen für grosse Mengen privater Browsing-Daten und klarerer Hinweise.',
+        localizedTexts: { de: 'Google einigte sich in den USA auf einen Vergleich zur Incognito-Privacy-Klage, einschliesslich Löschzusagen für grosse Mengen privater Browsing-Daten und klarerer Hinweise.' },
         severity: 'major',
         date: '2024-04-01',
         sourceUrl: 'https://apnews.com/article/203cc5063f1a1d4013de1900d9376814',
@@ -1004,7 +1011,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-sync-disabled-collection-lawsuit-2024',
         text: 'A US appeals court revived claims that Chrome collected data even with Sync disabled, highlighting ongoing disclosure and consent-risk disputes.',
-        textDe: 'Ein US-Berufungsgericht liess Klagepunkte wieder zu, wonach Chrome auch bei deaktivierter Sync-Funktion Daten gesammelt habe, was fortlaufende Risiken bei Transparenz und Einwilligung zeigt.',
+        localizedTexts: { de: 'Ein US-Berufungsgericht liess Klagepunkte wieder zu, wonach Chrome auch bei deaktivierter Sync-Funktion Daten gesammelt habe, was fortlaufende Risiken bei Transparenz und Einwilligung zeigt.' },
         severity: 'moderate',
         date: '2024-08-20',
         sourceUrl: 'https://cdn.ca9.uscourts.gov/datastore/opinions/2024/08/20/22-16993.pdf',
@@ -1012,7 +1019,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-antitrust-monopoly-finding',
         text: 'US antitrust rulings found illegal search-monopoly maintenance, and remedy debates directly include default-distribution channels where Chrome is strategically central.',
-        textDe: 'US-Antitrust-Urteile stellten eine illegale Aufrechterhaltung eines Suchmonopols fest; Remedy-Debatten beziehen direkt Default-Vertriebskanäle ein, in denen Chrome strategisch zentral ist.',
+        localizedTexts: { de: 'US-Antitrust-Urteile stellten eine illegale Aufrechterhaltung eines Suchmonopols fest; Remedy-Debatten beziehen direkt Default-Vertriebskanäle ein, in denen Chrome strategisch zentral ist.' },
         severity: 'major',
         date: '2024-08-05',
         sourceUrl: 'https://apnews.com/article/846916fda0943c5fa359385044a02c8b',
@@ -1020,14 +1027,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-ai-training-policy-scope',
         text: 'Google privacy terms state that some interactions with AI systems may be used to train and improve models, adding governance risk for sensitive Chrome-adjacent workflows.',
-        textDe: 'Googles Datenschutzbedingungen nennen, dass manche Interaktionen mit KI-Systemen zum Training und zur Verbesserung von Modellen genutzt werden können, was Governance-Risiken für sensible, Chrome-nahe Workflows erhöht.',
+        localizedTexts: { de: 'Googles Datenschutzbedingungen nennen, dass manche Interaktionen mit KI-Systemen zum Training und zur Verbesserung von Modellen genutzt werden können, was Governance-Risiken für sensible, Chrome-nahe Workflows erhöht.' },
         severity: 'major',
         sourceUrl: 'https://policies.google.com/privacy',
       },
       {
         id: 'chrome-manifest-v2-phaseout-2025',
         text: 'Manifest V2 was fully disabled in Chrome by July 2025, forcing extension migration and reducing capabilities used by some privacy-focused blockers.',
-        textDe: 'Manifest V2 wurde in Chrome bis Juli 2025 vollständig deaktiviert, was Extension-Migration erzwang und Fähigkeiten einiger privacy-orientierter Blocker reduzierte.',
+        localizedTexts: { de: 'Manifest V2 wurde in Chrome bis Juli 2025 vollständig deaktiviert, was Extension-Migration erzwang und Fähigkeiten einiger privacy-orientierter Blocker reduzierte.' },
         severity: 'moderate',
         date: '2025-07-24',
         sourceUrl: 'https://developer.chrome.com/docs/extensions/develop/migrate/mv2-deprecation-timeline',
@@ -1035,7 +1042,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chromium-governance-concentration-2024',
         text: 'Google reported contributing about 94% of Chromium commits in 2024, signaling strong single-vendor governance concentration.',
-        textDe: 'Google gab an, 2024 etwa 94 Prozent der Chromium-Commits beigetragen zu haben, was eine starke Governance-Konzentration bei einem Anbieter signalisiert.',
+        localizedTexts: { de: 'Google gab an, 2024 etwa 94 Prozent der Chromium-Commits beigetragen zu haben, was eine starke Governance-Konzentration bei einem Anbieter signalisiert.' },
         severity: 'moderate',
         date: '2025-01-09',
         sourceUrl: 'https://blog.chromium.org/2025/01/announcing-supporters-of-chromium-based.html',
@@ -1043,7 +1050,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-extension-supply-chain-incident-2024',
         text: 'A documented 2024 campaign distributed malicious Chrome extension updates after publisher compromise, highlighting extension supply-chain risk beyond core browser code.',
-        textDe: 'Eine dokumentierte Kampagne aus 2024 verteilte bösartige Chrome-Extension-Updates nach einem Publisher-Kompromiss und unterstreicht damit Supply-Chain-Risiken jenseits des Browser-Kerncodes.',
+        localizedTexts: { de: 'Eine dokumentierte Kampagne aus 2024 verteilte bösartige Chrome-Extension-Updates nach einem Publisher-Kompromiss und unterstreicht damit Supply-Chain-Risiken jenseits des Browser-Kerncodes.' },
         severity: 'moderate',
         date: '2024-12-27',
         sourceUrl: 'https://techcrunch.com/2024/12/27/cyberhaven-says-it-was-hacked-to-publish-a-malicious-update-to-its-chrome-extension/',
@@ -1051,7 +1058,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-in-the-wild-exploit-tempo-2025',
         text: 'Chrome stable-channel advisories continue to include vulnerabilities with known in-the-wild exploitation, requiring consistently fast patching by users and IT teams.',
-        textDe: 'Chrome-Stable-Channel-Advisories enthalten weiterhin Schwachstellen mit bekannter Ausnutzung in freier Wildbahn, was eine durchgehend schnelle Patch-Umsetzung durch Nutzer und IT-Teams erfordert.',
+        localizedTexts: { de: 'Chrome-Stable-Channel-Advisories enthalten weiterhin Schwachstellen mit bekannter Ausnutzung in freier Wildbahn, was eine durchgehend schnelle Patch-Umsetzung durch Nutzer und IT-Teams erfordert.' },
         severity: 'moderate',
         date: '2025-05-14',
         sourceUrl: 'https://chromereleases.googleblog.com/2025/05/stable-channel-update-for-desktop_14.html',
@@ -1059,7 +1066,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'chrome-safe-browsing-not-fully-local',
         text: 'Google\'s real-time Safe Browsing design adds privacy mitigations, but it still relies on network interaction and remote checks rather than fully local-only protection.',
-        textDe: 'Googles Real-Time-Safe-Browsing-Design fügt Privacy-Mitigierungen hinzu, basiert aber weiterhin auf Netzwerkinteraktion und Remote-Prüfungen statt ausschliesslich lokaler Schutzlogik.',
+        localizedTexts: { de: 'Googles Real-Time-Safe-Browsing-Design fügt Privacy-Mitigierungen hinzu, basiert aber weiterhin auf Netzwerkinteraktion und Remote-Prüfungen statt ausschliesslich lokaler Schutzlogik.' },
         severity: 'minor',
         date: '2024-03-14',
         sourceUrl: 'https://blog.google/products-and-platforms/products/chrome/google-chrome-safe-browsing-real-time/',
@@ -1070,27 +1077,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.4,
     description:
         'US-operated smart-home ecosystem with solid security maintenance, but trust is materially reduced by ad-tech parent incentives, default Home History AI-training pathways, and recurring privacy/lifecycle controversies.',
-    descriptionDe:
-        'US-Smart-Home-Ökosystem mit solider Security-Wartung, dessen Vertrauen aber durch ad-tech-getriebene Konzernanreize, AI-Training über Home-History-Defaults und wiederkehrende Privacy-/Lifecycle-Kontroversen klar sinkt.',
+    localizedDescriptions: {
+      de: 'US-Smart-Home-Ökosystem mit solider Security-Wartung, dessen Vertrauen aber durch ad-tech-getriebene Konzernanreize, AI-Training über Home-History-Defaults und wiederkehrende Privacy-/Lifecycle-Kontroversen klar sinkt.',
+    },
     reservations: [
       {
         id: 'home-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with privacy-first expectations in always-on home environments.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil des Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit Privacy-First-Erwartungen in Always-on-Home-Umgebungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil des Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit Privacy-First-Erwartungen in Always-on-Home-Umgebungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'home-default-ai-training-and-retention',
         text: 'Gemini for Home activity is saved in Home History for 18 months by default and, when Home History is on, is used to improve services including training generative AI models.',
-        textDe: 'Gemini-for-Home-Aktivität wird standardmässig 18 Monate in der Home History gespeichert und bei aktivierter Home History auch zur Verbesserung von Diensten inklusive Training generativer KI-Modelle genutzt.',
+        localizedTexts: { de: 'Gemini-for-Home-Aktivität wird standardmässig 18 Monate in der Home History gespeichert und bei aktivierter Home History auch zur Verbesserung von Diensten inklusive Training generativer KI-Modelle genutzt.' },
         severity: 'major',
         sourceUrl: 'https://support.google.com/googlenest/answer/16613583?hl=en',
       },
       {
         id: 'home-voice-assistant-privacy-settlement-2026',
         text: 'Google agreed to a $68M class-action settlement over allegations that voice-assistant devices recorded private conversations without proper consent.',
-        textDe: 'Google stimmte einem Vergleich über 68 Mio. USD in einer Sammelklage zu, die unerlaubte Aufzeichnungen privater Gespräche durch Voice-Assistant-Geräte beanstandete.',
+        localizedTexts: { de: 'Google stimmte einem Vergleich über 68 Mio. USD in einer Sammelklage zu, die unerlaubte Aufzeichnungen privater Gespräche durch Voice-Assistant-Geräte beanstandete.' },
         severity: 'major',
         date: '2026-01-26',
         sourceUrl: 'https://www.cbsnews.com/news/google-voice-assistant-lawsuit-settlement-68-million/',
@@ -1098,21 +1106,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-global-processing-and-audio-review',
         text: 'Google privacy terms state that data may be processed outside a user\'s country and that service providers may analyze samples of saved user audio to improve recognition technologies.',
-        textDe: 'Googles Datenschutzhinweise nennen grenzüberschreitende Datenverarbeitung und den Einsatz von Dienstleistern, die gespeicherte Audio-Samples zur Verbesserung von Erkennungstechnologien analysieren können.',
+        localizedTexts: { de: 'Googles Datenschutzhinweise nennen grenzüberschreitende Datenverarbeitung und den Einsatz von Dienstleistern, die gespeicherte Audio-Samples zur Verbesserung von Erkennungstechnologien analysieren können.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/privacy',
       },
       {
         id: 'home-subscription-lapse-video-history-loss',
         text: 'Google Home Premium documentation states that if a subscription lapses, users lose access to video history and face library features.',
-        textDe: 'Die Google-Home-Premium-Dokumentation nennt beim Ablauf des Abonnements den Verlust des Zugriffs auf Videoverlauf und Face-Library-Funktionen.',
+        localizedTexts: { de: 'Die Google-Home-Premium-Dokumentation nennt beim Ablauf des Abonnements den Verlust des Zugriffs auf Videoverlauf und Face-Library-Funktionen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/googlenest/answer/16581647?hl=en',
       },
       {
         id: 'home-nest-aware-price-increase-2025',
         text: 'Google increased Nest Aware pricing in August 2025 (base plan from $8 to $10; Plus from $15 to $20), reducing subscription cost predictability.',
-        textDe: 'Google hat die Nest-Aware-Preise im August 2025 erhöht (Basistarif von 8 auf 10 USD; Plus von 15 auf 20 USD), was die Kostenplanbarkeit für Abonnements reduziert.',
+        localizedTexts: { de: 'Google hat die Nest-Aware-Preise im August 2025 erhöht (Basistarif von 8 auf 10 USD; Plus von 15 auf 20 USD), was die Kostenplanbarkeit für Abonnements reduziert.' },
         severity: 'moderate',
         date: '2025-08-15',
         sourceUrl: 'https://www.theverge.com/news/708538/google-nest-aware-plus-price-increase-subscription',
@@ -1120,7 +1128,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-assistant-feature-removals-2024',
         text: 'Google announced removal of underutilized Assistant features as part of quality/reliability reprioritization, reinforcing feature-churn risk during the Assistant-to-Gemini transition.',
-        textDe: 'Google kündigte die Entfernung untergenutzter Assistant-Funktionen im Zuge einer Qualitäts-/Reliability-Neuausrichtung an, was das Feature-Churn-Risiko im Assistant-zu-Gemini-Übergang verstärkt.',
+        localizedTexts: { de: 'Google kündigte die Entfernung untergenutzter Assistant-Funktionen im Zuge einer Qualitäts-/Reliability-Neuausrichtung an, was das Feature-Churn-Risiko im Assistant-zu-Gemini-Übergang verstärkt.' },
         severity: 'moderate',
         date: '2024-01-11',
         sourceUrl: 'https://blog.google/products-and-platforms/products/assistant/google-assistant-update-january-2024/',
@@ -1128,7 +1136,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-reliability-degradation-acknowledged-2025',
         text: 'Google Home leadership publicly acknowledged reliability degradation reports in 2025 and apologized while promising long-term fixes, indicating a material service-quality issue.',
-        textDe: 'Die Google-Home-Leitung hat 2025 öffentlich Zuverlässigkeitsprobleme bestätigt und sich entschuldigt, während langfristige Fixes angekündigt wurden; das weist auf ein relevantes Service-Qualitätsproblem hin.',
+        localizedTexts: { de: 'Die Google-Home-Leitung hat 2025 öffentlich Zuverlässigkeitsprobleme bestätigt und sich entschuldigt, während langfristige Fixes angekündigt wurden; das weist auf ein relevantes Service-Qualitätsproblem hin.' },
         severity: 'moderate',
         date: '2025-07-23',
         sourceUrl: 'https://x.com/AnishKattukaran/status/1948164062384406814?s=19&t=yUTsPiecyXO8dteiiq5bXw',
@@ -1136,7 +1144,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-nest-secure-support-ended-2024',
         text: 'Google ended Nest Secure cloud support in 2024, and the product no longer works in the Nest app or online, highlighting hard end-of-life risk in the ecosystem.',
-        textDe: 'Google hat 2024 den Cloud-Support für Nest Secure beendet; das Produkt funktioniert nicht mehr in der Nest-App oder online, was ein hartes End-of-Life-Risiko im Ökosystem zeigt.',
+        localizedTexts: { de: 'Google hat 2024 den Cloud-Support für Nest Secure beendet; das Produkt funktioniert nicht mehr in der Nest-App oder online, was ein hartes End-of-Life-Risiko im Ökosystem zeigt.' },
         severity: 'major',
         date: '2024-04-08',
         sourceUrl: 'https://support.google.com/googlehome/answer/9231739?hl=en',
@@ -1144,7 +1152,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-device-eol-thermostat-cutoff-2025',
         text: 'Google ended app/cloud support for Nest Learning Thermostat 1st and 2nd gen on October 25, 2025, highlighting lifecycle churn risk for connected-home hardware.',
-        textDe: 'Google beendete am 25. Oktober 2025 die App-/Cloud-Unterstützung für Nest Learning Thermostat der 1. und 2. Generation, was Lifecycle-Churn-Risiken bei Connected-Home-Hardware unterstreicht.',
+        localizedTexts: { de: 'Google beendete am 25. Oktober 2025 die App-/Cloud-Unterstützung für Nest Learning Thermostat der 1. und 2. Generation, was Lifecycle-Churn-Risiken bei Connected-Home-Hardware unterstreicht.' },
         severity: 'moderate',
         date: '2025-10-25',
         sourceUrl: 'https://support.google.com/googlenest/answer/16233096',
@@ -1152,7 +1160,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'home-residual-backend-data-recovery-2026',
         text: 'Reporting on a 2026 criminal case described Nest footage recovered from residual backend data despite assumptions that video was unavailable, raising retention and access-path concerns.',
-        textDe: 'Berichte zu einem Kriminalfall 2026 beschrieben aus Restdaten in Backend-Systemen wiederhergestelltes Nest-Material trotz Annahmen, dass keine Videos verfügbar seien; das erhöht Bedenken zu Retention und Zugriffswegen.',
+        localizedTexts: { de: 'Berichte zu einem Kriminalfall 2026 beschrieben aus Restdaten in Backend-Systemen wiederhergestelltes Nest-Material trotz Annahmen, dass keine Videos verfügbar seien; das erhöht Bedenken zu Retention und Zugriffswegen.' },
         severity: 'moderate',
         date: '2026-02-11',
         sourceUrl: 'https://fortune.com/2026/02/11/privacy-concerns-nancy-guthrie-google-nest-camera-footage-kidnapping/',
@@ -1163,34 +1171,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.1,
     description:
         'US-operated AI assistant with strong certification and patch cadence, but trust is reduced by ad-driven parent incentives, free-tier data-usage defaults, and ongoing privacy/copyright litigation exposure.',
-    descriptionDe:
-        'US-AI-Assistent mit starker Zertifizierungs- und Patch-Basis, dessen Vertrauen jedoch durch ad-tech-getriebene Konzernanreize, datenintensive Consumer-Defaults und laufende Privacy-/Copyright-Litigation sinkt.',
+    localizedDescriptions: {
+      de: 'US-AI-Assistent mit starker Zertifizierungs- und Patch-Basis, dessen Vertrauen jedoch durch ad-tech-getriebene Konzernanreize, datenintensive Consumer-Defaults und laufende Privacy-/Copyright-Litigation sinkt.',
+    },
     reservations: [
       {
         id: 'gemini-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with privacy-first expectations for consumer AI assistants.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen an Consumer-AI-Assistenten kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen an Consumer-AI-Assistenten kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'gemini-free-tier-training-and-human-review',
         text: 'Gemini Apps privacy terms state that free-tier interactions can be reviewed by humans and used to improve Google products and machine-learning technologies.',
-        textDe: 'Die Gemini-Apps-Privacy-Texte nennen, dass Interaktionen im Free-Tier durch Menschen geprüft und zur Verbesserung von Google-Produkten sowie Machine-Learning-Technologien genutzt werden können.',
+        localizedTexts: { de: 'Die Gemini-Apps-Privacy-Texte nennen, dass Interaktionen im Free-Tier durch Menschen geprüft und zur Verbesserung von Google-Produkten sowie Machine-Learning-Technologien genutzt werden können.' },
         severity: 'major',
         sourceUrl: 'https://support.google.com/gemini/answer/13594961?hl=en',
       },
       {
         id: 'gemini-activity-retention-default-18-months',
         text: 'Gemini Apps activity is saved for up to 18 months by default before auto-delete settings are adjusted, increasing retention exposure for sensitive prompts.',
-        textDe: 'Gemini-Apps-Aktivität wird standardmässig bis zu 18 Monate gespeichert, sofern Auto-Delete-Einstellungen nicht angepasst werden; das erhöht Retention-Exposition für sensible Prompts.',
+        localizedTexts: { de: 'Gemini-Apps-Aktivität wird standardmässig bis zu 18 Monate gespeichert, sofern Auto-Delete-Einstellungen nicht angepasst werden; das erhöht Retention-Exposition für sensible Prompts.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/gemini/answer/13594961?hl=en',
       },
       {
         id: 'gemini-workspace-bundled-pricing-2025',
         text: 'Google repriced Workspace plans while bundling Gemini AI capabilities into core business tiers, reducing opt-out flexibility for organizations that do not want AI features.',
-        textDe: 'Google bepreiste Workspace-Pläne neu und bündelte Gemini-AI-Funktionen in Kern-Tarife, wodurch die Opt-out-Flexibilität für Organisationen ohne AI-Bedarf sinkt.',
+        localizedTexts: { de: 'Google bepreiste Workspace-Pläne neu und bündelte Gemini-AI-Funktionen in Kern-Tarife, wodurch die Opt-out-Flexibilität für Organisationen ohne AI-Bedarf sinkt.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -1198,7 +1207,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-prompt-injection-risk-2025',
         text: 'Google published dedicated prompt-injection mitigations for Gemini, reflecting persistent real-world attack pressure on tool-using agent workflows.',
-        textDe: 'Google veröffentlichte dedizierte Prompt-Injection-Mitigierungen für Gemini; das zeigt anhaltenden realen Angriffsdruck auf Tool-gestützte Agent-Workflows.',
+        localizedTexts: { de: 'Google veröffentlichte dedizierte Prompt-Injection-Mitigierungen für Gemini; das zeigt anhaltenden realen Angriffsdruck auf Tool-gestützte Agent-Workflows.' },
         severity: 'moderate',
         date: '2025-06-13',
         sourceUrl: 'https://security.googleblog.com/2025/06/mitigating-prompt-injection-attacks.html',
@@ -1206,7 +1215,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-vertex-api-cve-2024-12236',
         text: 'CVE-2024-12236 disclosed potential data exfiltration in certain Vertex AI Gemini API contexts before Google-issued remediation.',
-        textDe: 'CVE-2024-12236 beschrieb potenzielle Datenexfiltration in bestimmten Vertex-AI-Gemini-API-Kontexten vor bereitgestellter Google-Remediation.',
+        localizedTexts: { de: 'CVE-2024-12236 beschrieb potenzielle Datenexfiltration in bestimmten Vertex-AI-Gemini-API-Kontexten vor bereitgestellter Google-Remediation.' },
         severity: 'moderate',
         date: '2024-12-10',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-12236',
@@ -1214,7 +1223,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-gmail-smart-features-lawsuit-2025',
         text: 'A proposed class action filed in November 2025 alleges Gemini smart features were enabled for Gmail/Chat/Meet users without informed consent; claims remain unresolved.',
-        textDe: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features für Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwürfe sind nicht abschliessend entschieden.',
+        localizedTexts: { de: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features für Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwürfe sind nicht abschliessend entschieden.' },
         severity: 'moderate',
         date: '2025-11-11',
         sourceUrl: 'https://dockets.justia.com/docket/california/candce/5%3A2025cv09704/459505',
@@ -1222,7 +1231,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-copyright-litigation-books-2023',
         text: 'In re Google Generative AI Copyright Litigation includes allegations that Gemini training used copyrighted books without authorization; the case remains active.',
-        textDe: 'Die In-re-Google-Generative-AI-Copyright-Litigation enthält Vorwürfe, dass für Gemini-Training urheberrechtlich geschützte Bücher ohne Autorisierung genutzt wurden; das Verfahren ist weiterhin anhängig.',
+        localizedTexts: { de: 'Die In-re-Google-Generative-AI-Copyright-Litigation enthält Vorwürfe, dass für Gemini-Training urheberrechtlich geschützte Bücher ohne Autorisierung genutzt wurden; das Verfahren ist weiterhin anhängig.' },
         severity: 'moderate',
         date: '2023-07-11',
         sourceUrl: 'https://cand.uscourts.gov/cases-e-filing/cases/523-cv-03440-ekl/re-google-generative-ai-copyright-litigation/',
@@ -1230,7 +1239,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-global-outage-2025-09-29',
         text: 'Google Workspace incident reporting documented a global Gemini outage of about 49 minutes in September 2025, highlighting residual availability risk.',
-        textDe: 'Das Google-Workspace-Incident-Reporting dokumentierte im September 2025 einen globalen Gemini-Ausfall von rund 49 Minuten und unterstreicht verbleibende Verfügbarkeitsrisiken.',
+        localizedTexts: { de: 'Das Google-Workspace-Incident-Reporting dokumentierte im September 2025 einen globalen Gemini-Ausfall von rund 49 Minuten und unterstreicht verbleibende Verfügbarkeitsrisiken.' },
         severity: 'moderate',
         date: '2025-09-29',
         sourceUrl: 'https://www.google.com/appsstatus/dashboard/incidents/6GdahVtGTryxTdh56iLP',
@@ -1238,7 +1247,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'gemini-ai-contractor-layoffs-2025',
         text: 'Reporting in 2025 described large contractor layoffs across Google AI data-operations teams, signaling support-operations churn risk.',
-        textDe: 'Berichte aus 2025 beschrieben grosse Contractor-Entlassungen in Googles AI-Datenoperations-Teams und signalisieren Risiken durch operative Fluktuation.',
+        localizedTexts: { de: 'Berichte aus 2025 beschrieben grosse Contractor-Entlassungen in Googles AI-Datenoperations-Teams und signalisieren Risiken durch operative Fluktuation.' },
         severity: 'minor',
         date: '2025-09-15',
         sourceUrl: 'https://www.wired.com/story/hundreds-of-google-ai-workers-were-fired-amid-fight-over-working-conditions/',
@@ -1249,41 +1258,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.1,
     description:
         'US-operated proprietary Gemini image model with strong enterprise-grade security operations, but trust remains low due to ad-tech parent incentives, consumer/unpaid data-use defaults, and unresolved litigation around privacy and training data.',
-    descriptionDe:
-        'US-proprietäres Gemini-Bildmodell mit starker Enterprise-Security-Basis, dessen Vertrauen jedoch durch ad-tech-getriebene Konzernanreize, datenintensive Consumer-/Unpaid-Defaults und ungelöste Privacy-/Trainingsdaten-Litigation niedrig bleibt.',
+    localizedDescriptions: {
+      de: 'US-proprietäres Gemini-Bildmodell mit starker Enterprise-Security-Basis, dessen Vertrauen jedoch durch ad-tech-getriebene Konzernanreize, datenintensive Consumer-/Unpaid-Defaults und ungelöste Privacy-/Trainingsdaten-Litigation niedrig bleibt.',
+    },
     reservations: [
       {
         id: 'nano-banana-pro-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with privacy-first expectations for generative AI products.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen an generative KI-Produkte kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit Privacy-First-Erwartungen an generative KI-Produkte kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'nano-banana-pro-consumer-training-and-human-review',
         text: 'Gemini consumer privacy terms state interactions can be reviewed by humans and used to improve Google products and machine-learning technologies.',
-        textDe: 'Die Gemini-Consumer-Privacy-Bedingungen nennen, dass Interaktionen durch Menschen geprüft und zur Verbesserung von Google-Produkten sowie Machine-Learning-Technologien genutzt werden können.',
+        localizedTexts: { de: 'Die Gemini-Consumer-Privacy-Bedingungen nennen, dass Interaktionen durch Menschen geprüft und zur Verbesserung von Google-Produkten sowie Machine-Learning-Technologien genutzt werden können.' },
         severity: 'major',
         sourceUrl: 'https://support.google.com/gemini/answer/13594961',
       },
       {
         id: 'nano-banana-pro-unpaid-api-data-use-for-improvement',
         text: 'Gemini API terms describe broader data-use rights for unpaid usage paths, including service and ML improvement purposes.',
-        textDe: 'Die Gemini-API-Bedingungen beschreiben für unbezahlte Nutzungspfade weitergehende Datenverwendungsrechte, einschliesslich Service- und ML-Verbesserung.',
+        localizedTexts: { de: 'Die Gemini-API-Bedingungen beschreiben für unbezahlte Nutzungspfade weitergehende Datenverwendungsrechte, einschliesslich Service- und ML-Verbesserung.' },
         severity: 'major',
         sourceUrl: 'https://ai.google.dev/gemini-api/terms',
       },
       {
         id: 'nano-banana-pro-activity-retention-default',
         text: 'Gemini activity can be retained by default if users do not proactively tighten activity and auto-delete controls.',
-        textDe: 'Gemini-Aktivität kann standardmässig aufbewahrt werden, wenn Nutzer Activity- und Auto-Delete-Kontrollen nicht aktiv verschärfen.',
+        localizedTexts: { de: 'Gemini-Aktivität kann standardmässig aufbewahrt werden, wenn Nutzer Activity- und Auto-Delete-Kontrollen nicht aktiv verschärfen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/gemini/answer/13594961',
       },
       {
         id: 'nano-banana-pro-prompt-injection-risk-2025',
         text: 'Google published dedicated prompt-injection mitigations for Gemini in 2025, signaling ongoing real-world attack pressure on tool-using AI workflows.',
-        textDe: 'Google veröffentlichte 2025 dedizierte Prompt-Injection-Mitigierungen für Gemini; das signalisiert anhaltenden realen Angriffsdruck auf Tool-gestützte KI-Workflows.',
+        localizedTexts: { de: 'Google veröffentlichte 2025 dedizierte Prompt-Injection-Mitigierungen für Gemini; das signalisiert anhaltenden realen Angriffsdruck auf Tool-gestützte KI-Workflows.' },
         severity: 'moderate',
         date: '2025-06-13',
         sourceUrl: 'https://security.googleblog.com/2025/06/mitigating-prompt-injection-attacks.html',
@@ -1291,7 +1301,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-vertex-cve-2024-12236',
         text: 'CVE-2024-12236 documented potential data-exfiltration conditions in certain Vertex AI Gemini API contexts before remediation.',
-        textDe: 'CVE-2024-12236 dokumentierte potenzielle Datenexfiltrationsbedingungen in bestimmten Vertex-AI-Gemini-API-Kontexten vor der Behebung.',
+        localizedTexts: { de: 'CVE-2024-12236 dokumentierte potenzielle Datenexfiltrationsbedingungen in bestimmten Vertex-AI-Gemini-API-Kontexten vor der Behebung.' },
         severity: 'moderate',
         date: '2024-12-10',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-12236',
@@ -1299,7 +1309,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-privacy-lawsuit-smart-features-2025',
         text: 'A proposed class action filed in November 2025 alleges Gemini smart features were enabled for Gmail/Chat/Meet users without informed consent; claims remain unresolved.',
-        textDe: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features für Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwürfe sind nicht abschliessend entschieden.',
+        localizedTexts: { de: 'Eine im November 2025 eingereichte Sammelklage behauptet, dass Gemini-Smart-Features für Gmail-/Chat-/Meet-Nutzer ohne informierte Einwilligung aktiviert wurden; die Vorwürfe sind nicht abschliessend entschieden.' },
         severity: 'moderate',
         date: '2025-11-11',
         sourceUrl: 'https://dockets.justia.com/docket/california/candce/5%3A2025cv09704/459505',
@@ -1307,7 +1317,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-copyright-litigation-ongoing',
         text: 'In re Google Generative AI Copyright Litigation remains active with allegations tied to unauthorized training on copyrighted works.',
-        textDe: 'Die In-re-Google-Generative-AI-Copyright-Litigation ist weiterhin anhängig und enthält Vorwürfe zur nicht autorisierten Nutzung urheberrechtlich geschützter Werke für Training.',
+        localizedTexts: { de: 'Die In-re-Google-Generative-AI-Copyright-Litigation ist weiterhin anhängig und enthält Vorwürfe zur nicht autorisierten Nutzung urheberrechtlich geschützter Werke für Training.' },
         severity: 'moderate',
         date: '2023-07-11',
         sourceUrl: 'https://cand.uscourts.gov/cases-e-filing/cases/523-cv-03440-ekl/re-google-generative-ai-copyright-litigation/',
@@ -1315,7 +1325,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-global-gemini-outage-2025-09-29',
         text: 'Google Workspace incident reporting documented a global Gemini outage in September 2025, highlighting residual availability risk.',
-        textDe: 'Das Google-Workspace-Incident-Reporting dokumentierte im September 2025 einen globalen Gemini-Ausfall und unterstreicht verbleibende Verfügbarkeitsrisiken.',
+        localizedTexts: { de: 'Das Google-Workspace-Incident-Reporting dokumentierte im September 2025 einen globalen Gemini-Ausfall und unterstreicht verbleibende Verfügbarkeitsrisiken.' },
         severity: 'moderate',
         date: '2025-09-29',
         sourceUrl: 'https://www.google.com/appsstatus/dashboard/incidents/6GdahVtGTryxTdh56iLP',
@@ -1323,7 +1333,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-workspace-bundled-ai-pricing-2025',
         text: 'Google repriced Workspace plans while bundling Gemini AI capabilities into core tiers, reducing opt-out flexibility for organizations that do not want bundled AI.',
-        textDe: 'Google bepreiste Workspace-Pläne neu und bündelte Gemini-AI-Funktionen in Kern-Tarife, wodurch die Opt-out-Flexibilität für Organisationen ohne gebündelte KI sinkt.',
+        localizedTexts: { de: 'Google bepreiste Workspace-Pläne neu und bündelte Gemini-AI-Funktionen in Kern-Tarife, wodurch die Opt-out-Flexibilität für Organisationen ohne gebündelte KI sinkt.' },
         severity: 'moderate',
         date: '2025-01-15',
         sourceUrl: 'https://workspace.google.com/blog/product-announcements/empowering-businesses-with-AI',
@@ -1331,7 +1341,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-geminijack-zero-click-enterprise-attack-2025',
         text: 'Noma Labs documented a Gemini Enterprise/Vertex indirect prompt-injection path ("GeminiJack") that could trigger zero-click data exfiltration via connected Workspace sources before mitigations.',
-        textDe: 'Noma Labs dokumentierte mit "GeminiJack" einen indirekten Prompt-Injection-Pfad in Gemini Enterprise/Vertex, der vor Mitigations eine Zero-Click-Datenexfiltration über verbundene Workspace-Quellen auslösen konnte.',
+        localizedTexts: { de: 'Noma Labs dokumentierte mit "GeminiJack" einen indirekten Prompt-Injection-Pfad in Gemini Enterprise/Vertex, der vor Mitigations eine Zero-Click-Datenexfiltration über verbundene Workspace-Quellen auslösen konnte.' },
         severity: 'major',
         date: '2025-07-31',
         sourceUrl: 'https://noma.security/noma-labs/geminijack/',
@@ -1339,7 +1349,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-promptware-preprint-assistant-risk-2025',
         text: 'A 2025 preprint demonstrated practical promptware attacks against Gemini-powered assistants across email, calendar, and document interaction paths, including high-critical-risk scenarios before mitigation rollout.',
-        textDe: 'Ein Preprint von 2025 zeigte praxistaugliche Promptware-Angriffe auf Gemini-gestützte Assistenten über E-Mail-, Kalender- und Dokumentpfade, inklusive hochkritischer Szenarien vor dem Rollout von Mitigations.',
+        localizedTexts: { de: 'Ein Preprint von 2025 zeigte praxistaugliche Promptware-Angriffe auf Gemini-gestützte Assistenten über E-Mail-, Kalender- und Dokumentpfade, inklusive hochkritischer Szenarien vor dem Rollout von Mitigations.' },
         severity: 'moderate',
         date: '2025-08-16',
         sourceUrl: 'https://arxiv.org/abs/2508.12175',
@@ -1347,21 +1357,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-zero-data-retention-requires-hardening',
         text: 'Google\'s Vertex AI zero-data-retention guidance requires explicit hardening steps (for example disabling caching), and some abuse-monitoring/grounding flows retain data unless specific conditions are met.',
-        textDe: 'Googles Vertex-AI-Guide zu Zero Data Retention erfordert explizite Härtungsschritte (z. B. Deaktivieren von Caching), und einige Abuse-Monitoring-/Grounding-Flows speichern Daten weiter, sofern Bedingungen nicht erfüllt sind.',
+        localizedTexts: { de: 'Googles Vertex-AI-Guide zu Zero Data Retention erfordert explizite Härtungsschritte (z. B. Deaktivieren von Caching), und einige Abuse-Monitoring-/Grounding-Flows speichern Daten weiter, sofern Bedingungen nicht erfüllt sind.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/vertex-ai/generative-ai/docs/vertex-ai-zero-data-retention',
       },
       {
         id: 'nano-banana-pro-reviewed-feedback-retention-up-to-3-years',
         text: 'Gemini help documentation states reviewed feedback data (including associated conversations) may be retained for up to three years after disconnection from the account.',
-        textDe: 'Die Gemini-Hilfedokumentation nennt, dass geprüfte Feedback-Daten (einschliesslich zugehöriger Gespräche) nach Entkopplung vom Konto bis zu drei Jahre aufbewahrt werden können.',
+        localizedTexts: { de: 'Die Gemini-Hilfedokumentation nennt, dass geprüfte Feedback-Daten (einschliesslich zugehöriger Gespräche) nach Entkopplung vom Konto bis zu drei Jahre aufbewahrt werden können.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/gemini/answer/13275746',
       },
       {
         id: 'nano-banana-pro-image-stack-deprecation-churn-2025',
         text: 'Vertex AI deprecation notices show frequent image-stack and SDK lifecycle changes (including Imagen version retirements), increasing migration and change-management burden.',
-        textDe: 'Vertex-AI-Deprecation-Notices zeigen häufige Lifecycle-Änderungen im Image-Stack und SDK (inklusive Imagen-Retirements), was Migrations- und Change-Management-Aufwand erhöht.',
+        localizedTexts: { de: 'Vertex-AI-Deprecation-Notices zeigen häufige Lifecycle-Änderungen im Image-Stack und SDK (inklusive Imagen-Retirements), was Migrations- und Change-Management-Aufwand erhöht.' },
         severity: 'moderate',
         date: '2025-06-24',
         sourceUrl: 'https://cloud.google.com/vertex-ai/generative-ai/docs/deprecations',
@@ -1369,7 +1379,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'nano-banana-pro-free-tier-throttling-2025',
         text: 'Reporting in late 2025 documented stricter free-tier limits for Nano Banana Pro and stated that limits may change without notice, reducing planning reliability for non-paid usage.',
-        textDe: 'Berichte Ende 2025 dokumentierten strengere Free-Tier-Limits für Nano Banana Pro und den Hinweis, dass Limits ohne Vorankündigung geändert werden können, was die Planbarkeit für unbezahlte Nutzung senkt.',
+        localizedTexts: { de: 'Berichte Ende 2025 dokumentierten strengere Free-Tier-Limits für Nano Banana Pro und den Hinweis, dass Limits ohne Vorankündigung geändert werden können, was die Planbarkeit für unbezahlte Nutzung senkt.' },
         severity: 'moderate',
         date: '2025-11-26',
         sourceUrl: 'https://www.theverge.com/news/831760/openai-google-rate-limit-sora-nano-banana-pro',
@@ -1380,13 +1390,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.6,
     description:
         'US-operated smart-home ecosystem with strong cryptographic design and mature security operations, but trust is reduced by demonstrated spyware-chain targeting, ecosystem lock-in through architecture migration, and Siri/iCloud contractual privacy constraints.',
-    descriptionDe:
-        'US-Smart-Home-Ökosystem mit starker kryptografischer Architektur und reifen Security-Prozessen; das Vertrauen sinkt jedoch durch dokumentierte Spyware-Chain-Targeting-Fälle, Lock-in durch Architektur-Migration sowie Siri-/iCloud-Vertrags- und Privacy-Risiken.',
+    localizedDescriptions: {
+      de: 'US-Smart-Home-Ökosystem mit starker kryptografischer Architektur und reifen Security-Prozessen; das Vertrauen sinkt jedoch durch dokumentierte Spyware-Chain-Targeting-Fälle, Lock-in durch Architektur-Migration sowie Siri-/iCloud-Vertrags- und Privacy-Risiken.',
+    },
     reservations: [
       {
         id: 'homekit-spyware-chain-pwnyourhome-2023',
         text: 'Citizen Lab documented NSO-linked exploit chains where a first-stage interaction targeted HomeKit before follow-on iMessage exploitation, showing HomeKit as a viable high-end attack surface.',
-        textDe: 'Citizen Lab dokumentierte NSO-verknüpfte Exploit-Ketten, bei denen eine erste Stufe HomeKit angriff, bevor eine nachgelagerte iMessage-Exploitation folgte; das zeigt HomeKit als reales High-End-Angriffsziel.',
+        localizedTexts: { de: 'Citizen Lab dokumentierte NSO-verknüpfte Exploit-Ketten, bei denen eine erste Stufe HomeKit angriff, bevor eine nachgelagerte iMessage-Exploitation folgte; das zeigt HomeKit als reales High-End-Angriffsziel.' },
         severity: 'major',
         date: '2023-04-18',
         sourceUrl: 'https://citizenlab.ca/2023/04/nso-groups-pegasus-spyware-returns-in-2022/',
@@ -1394,14 +1405,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'homekit-amnesty-serbia-targeting-2024',
         text: 'Amnesty International reported 2024 forensic traces of Pegasus targeting in Serbia that included Apple HomeKit interaction artifacts, reinforcing targeted-surveillance risk.',
-        textDe: 'Amnesty International berichtete 2024 über forensische Spuren von Pegasus-Targeting in Serbien, darunter Artefakte mit Apple-HomeKit-Interaktionen, was das Risiko gezielter Überwachung unterstreicht.',
+        localizedTexts: { de: 'Amnesty International berichtete 2024 über forensische Spuren von Pegasus-Targeting in Serbien, darunter Artefakte mit Apple-HomeKit-Interaktionen, was das Risiko gezielter Überwachung unterstreicht.' },
         severity: 'major',
         sourceUrl: 'https://www.amnesty.org/en/documents/EUR70/8813/2024/en/',
       },
       {
         id: 'homekit-amnesty-india-targeting-2023',
         text: 'Amnesty Security Lab reported Pegasus-linked targeting in India where an initial stage interacted with Apple HomeKit service before iMessage payload delivery.',
-        textDe: 'Amnesty Security Lab berichtete über Pegasus-verknüpfte Targeting-Fälle in Indien, bei denen eine erste Stufe mit dem Apple-HomeKit-Dienst interagierte, bevor iMessage-Payloads zugestellt wurden.',
+        localizedTexts: { de: 'Amnesty Security Lab berichtete über Pegasus-verknüpfte Targeting-Fälle in Indien, bei denen eine erste Stufe mit dem Apple-HomeKit-Dienst interagierte, bevor iMessage-Payloads zugestellt wurden.' },
         severity: 'major',
         date: '2023-12-28',
         sourceUrl: 'https://www.amnesty.org/en/latest/news/2023/12/india-damning-new-forensic-investigation-reveals-repeated-use-of-pegasus-spyware-to-target-high-profile-journalists/',
@@ -1409,7 +1420,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'homekit-siri-privacy-settlement-2025',
         text: 'Apple agreed to a $95M settlement over allegations that Siri-enabled devices captured private conversations without intended user activation.',
-        textDe: 'Apple stimmte einem Vergleich über 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-fähige Geräte private Gespräche ohne beabsichtigte Nutzeraktivierung erfassten.',
+        localizedTexts: { de: 'Apple stimmte einem Vergleich über 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-fähige Geräte private Gespräche ohne beabsichtigte Nutzeraktivierung erfassten.' },
         severity: 'major',
         date: '2025-01-03',
         sourceUrl: 'https://www.cbsnews.com/news/siri-civil-lawsuit-settlement-apple-iphone-eavesdropping/',
@@ -1417,7 +1428,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'homekit-legacy-architecture-support-ended-2026',
         text: 'Apple ended support for the previous Home architecture on February 10, 2026, forcing lagging setups to migrate and increasing hardware/platform lock-in pressure.',
-        textDe: 'Apple beendete am 10. Februar 2026 den Support für die frühere Home-Architektur, was verzögerte Setups zur Migration zwingt und den Hardware-/Plattform-Lock-in erhöht.',
+        localizedTexts: { de: 'Apple beendete am 10. Februar 2026 den Support für die frühere Home-Architektur, was verzögerte Setups zur Migration zwingt und den Hardware-/Plattform-Lock-in erhöht.' },
         severity: 'moderate',
         date: '2026-02-10',
         sourceUrl: 'https://support.apple.com/en-us/102287',
@@ -1425,35 +1436,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'homekit-icloud-terms-legal-disclosure-rights',
         text: 'iCloud terms state Apple may access, use, preserve, and disclose account information and content when legally required or for specified fraud/security reasons.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder für definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder für definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'homekit-icloud-unilateral-service-change-rights',
         text: 'iCloud terms allow Apple to modify services and terms, while also disclaiming uninterrupted availability, creating contractual continuity risk for cloud-dependent Home features.',
-        textDe: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit aus, was vertragliche Kontinuitätsrisiken für cloudabhängige Home-Funktionen erzeugt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit aus, was vertragliche Kontinuitätsrisiken für cloudabhängige Home-Funktionen erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'homekit-secure-video-subscription-tier-gating',
         text: 'HomeKit Secure Video camera capacity is tied to iCloud+ subscription tiers, adding lock-in and feature-availability dependence on paid plan level.',
-        textDe: 'Die Kamera-Kapazität von HomeKit Secure Video ist an iCloud+-Abostufen gebunden, was Lock-in und Funktionsverfügbarkeit an den bezahlten Tarif koppelt.',
+        localizedTexts: { de: 'Die Kamera-Kapazität von HomeKit Secure Video ist an iCloud+-Abostufen gebunden, was Lock-in und Funktionsverfügbarkeit an den bezahlten Tarif koppelt.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/guide/icloud/set-up-homekit-secure-video-mm7c90d21583/icloud',
       },
       {
         id: 'homekit-mfi-protocol-access-restriction',
         text: 'Apple positions HomeKit accessory development through the MFi program, limiting full protocol/certification access to enrolled licensees and reducing independent transparency.',
-        textDe: 'Apple verankert die Entwicklung von HomeKit-Zubehör im MFi-Programm; voller Protokoll-/Zertifizierungszugang ist auf eingeschriebene Lizenznehmer begrenzt und reduziert unabhängige Transparenz.',
+        localizedTexts: { de: 'Apple verankert die Entwicklung von HomeKit-Zubehör im MFi-Programm; voller Protokoll-/Zertifizierungszugang ist auf eingeschriebene Lizenznehmer begrenzt und reduziert unabhängige Transparenz.' },
         severity: 'moderate',
         sourceUrl: 'https://developer.apple.com/homekit/',
       },
       {
         id: 'homekit-cve-2022-22588-dos',
         text: 'CVE-2022-22588 documented a HomeKit denial-of-service condition triggered by processing a maliciously crafted accessory name before Apple patched affected platforms.',
-        textDe: 'CVE-2022-22588 dokumentierte einen HomeKit-Denial-of-Service-Zustand durch die Verarbeitung eines bösartig konstruierten Accessory-Namens, bevor Apple betroffene Plattformen patchte.',
+        localizedTexts: { de: 'CVE-2022-22588 dokumentierte einen HomeKit-Denial-of-Service-Zustand durch die Verarbeitung eines bösartig konstruierten Accessory-Namens, bevor Apple betroffene Plattformen patchte.' },
         severity: 'moderate',
         date: '2022-01-12',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2022-22588',
@@ -1461,7 +1472,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'homekit-doj-ecosystem-lock-in-antitrust-2024',
         text: 'The U.S. Department of Justice filed antitrust litigation alleging Apple maintains smartphone-market power through ecosystem restrictions, reinforcing lock-in concerns relevant to Apple Home adoption.',
-        textDe: 'Das US-Justizministerium reichte ein Antitrust-Verfahren ein und wirft Apple vor, Marktmacht im Smartphone-Markt über Ökosystem-Beschränkungen aufrechtzuerhalten; das verstärkt Lock-in-Bedenken bei Apple-Home-Einführungen.',
+        localizedTexts: { de: 'Das US-Justizministerium reichte ein Antitrust-Verfahren ein und wirft Apple vor, Marktmacht im Smartphone-Markt über Ökosystem-Beschränkungen aufrechtzuerhalten; das verstärkt Lock-in-Bedenken bei Apple-Home-Einführungen.' },
         severity: 'moderate',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/opa/pr/justice-department-sues-apple-monopolizing-smartphone-markets',
@@ -1472,62 +1483,63 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.3,
     description:
         'US-operated mapping service with strong privacy-by-design mechanisms and mature platform security operations, but trust is reduced by cross-product AI training from Maps survey imagery, broad content-licensing terms, and interoperability limits.',
-    descriptionDe:
-        'US-Kartendienst mit starken Privacy-by-Design-Mechanismen und reifen Plattform-Sicherheitsprozessen, dessen Vertrauen jedoch durch produktübergreifendes KI-Training mit Maps-Survey-Daten, weitreichende Content-Lizenzklauseln und Interoperabilitätsgrenzen sinkt.',
+    localizedDescriptions: {
+      de: 'US-Kartendienst mit starken Privacy-by-Design-Mechanismen und reifen Plattform-Sicherheitsprozessen, dessen Vertrauen jedoch durch produktübergreifendes KI-Training mit Maps-Survey-Daten, weitreichende Content-Lizenzklauseln und Interoperabilitätsgrenzen sinkt.',
+    },
     reservations: [
       {
         id: 'apple-maps-cross-product-model-training-2025',
         text: 'Apple states that blurred imagery from Maps surveys conducted from March 2025 is used to develop and improve other Apple products and to train models beyond Maps-only functionality.',
-        textDe: 'Apple gibt an, dass verblurrte Bilddaten aus Maps-Surveys ab März 2025 auch zur Entwicklung anderer Apple-Produkte und zum Training von Modellen jenseits reiner Maps-Funktionen genutzt werden.',
+        localizedTexts: { de: 'Apple gibt an, dass verblurrte Bilddaten aus Maps-Surveys ab März 2025 auch zur Entwicklung anderer Apple-Produkte und zum Training von Modellen jenseits reiner Maps-Funktionen genutzt werden.' },
         severity: 'major',
         sourceUrl: 'https://maps.apple.com/imagecollection',
       },
       {
         id: 'apple-maps-iso-scope-gap',
         text: 'Apple documents ISO/IEC 27001 and 27018 coverage for selected internet services, but Apple Maps is not listed in the published in-scope services.',
-        textDe: 'Apple dokumentiert ISO/IEC-27001- und 27018-Abdeckung für ausgewählte Internetdienste, jedoch ist Apple Maps nicht in der veröffentlichten In-Scope-Liste enthalten.',
+        localizedTexts: { de: 'Apple dokumentiert ISO/IEC-27001- und 27018-Abdeckung für ausgewählte Internetdienste, jedoch ist Apple Maps nicht in der veröffentlichten In-Scope-Liste enthalten.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/en-afri/guide/certifications/apc34d2c0468b/web',
       },
       {
         id: 'apple-maps-china-amap-processing-context',
         text: 'Apple confirms that Apple Maps in China uses mapping services from Amap Software Co., Ltd., creating a distinct regional processing and jurisdiction context.',
-        textDe: 'Apple bestätigt, dass Apple Maps in China Kartendienste von Amap Software Co., Ltd. nutzt, was einen eigenen regionalen Verarbeitungs- und Jurisdiktionskontext schafft.',
+        localizedTexts: { de: 'Apple bestätigt, dass Apple Maps in China Kartendienste von Amap Software Co., Ltd. nutzt, was einen eigenen regionalen Verarbeitungs- und Jurisdiktionskontext schafft.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/privacy/data/en/apple-maps/',
       },
       {
         id: 'apple-maps-thresholded-partner-data-sharing',
         text: 'Apple says movement data, POI data, and aggregated analytics can be shared with partners once minimum thresholds are met.',
-        textDe: 'Apple gibt an, dass Bewegungsdaten, POI-Daten und aggregierte Analysedaten bei Erreichen bestimmter Mindestschwellen mit Partnern geteilt werden können.',
+        localizedTexts: { de: 'Apple gibt an, dass Bewegungsdaten, POI-Daten und aggregierte Analysedaten bei Erreichen bestimmter Mindestschwellen mit Partnern geteilt werden können.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/privacy/data/en/apple-maps/',
       },
       {
         id: 'apple-maps-user-content-license-breadth',
         text: 'Apple Maps Terms grant Apple a broad, irrevocable, perpetual, sublicensable license for user-submitted content across Apple services and related marketing uses.',
-        textDe: 'Die Apple-Maps-Nutzungsbedingungen gewähren Apple eine breite, unwiderrufliche, unbefristete und unterlizenzierbare Lizenz für nutzergenerierte Inhalte über Apple-Dienste hinweg, einschließlich Marketingnutzung.',
+        localizedTexts: { de: 'Die Apple-Maps-Nutzungsbedingungen gewähren Apple eine breite, unwiderrufliche, unbefristete und unterlizenzierbare Lizenz für nutzergenerierte Inhalte über Apple-Dienste hinweg, einschließlich Marketingnutzung.' },
         severity: 'major',
         sourceUrl: 'https://www.apple.com/legal/internet-services/maps/terms-en.html',
       },
       {
         id: 'apple-maps-business-connect-license-and-warranty-disclaimer',
         text: 'Maps Connect terms allow broad reuse/sharing of business-submitted content and provide services on an "as is" basis without warranty guarantees.',
-        textDe: 'Die Maps-Connect-Bedingungen erlauben eine weitreichende Weiterverwendung und Weitergabe von Geschäftsinhalten und stellen die Dienste ohne Gewähr auf "as is"-Basis bereit.',
+        localizedTexts: { de: 'Die Maps-Connect-Bedingungen erlauben eine weitreichende Weiterverwendung und Weitergabe von Geschäftsinhalten und stellen die Dienste ohne Gewähr auf "as is"-Basis bereit.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/mapsconnect/business/terms-en.html',
       },
       {
         id: 'apple-maps-image-collection-us-transfer-retention',
         text: 'Apple\'s Image Collection privacy documentation states survey data can be transferred internationally (including to the U.S.) and that unblurred imagery may be retained for up to 12 months before publication.',
-        textDe: 'Apples Image-Collection-Datenschutzhinweise nennen internationale Datenübermittlungen (einschließlich in die USA) und dass unverblurte Bilddaten vor Veröffentlichung bis zu 12 Monate gespeichert werden können.',
+        localizedTexts: { de: 'Apples Image-Collection-Datenschutzhinweise nennen internationale Datenübermittlungen (einschließlich in die USA) und dass unverblurte Bilddaten vor Veröffentlichung bis zu 12 Monate gespeichert werden können.' },
         severity: 'major',
         sourceUrl: 'https://maps.apple.com/docs/AppleMapsImageCollection_Privacy_by_Design.pdf',
       },
       {
         id: 'apple-maps-location-privacy-cve-2023-23537',
         text: 'Apple security advisories documented CVE-2023-23537, where an app could read sensitive location information before log-redaction fixes were shipped.',
-        textDe: 'Apple-Sicherheitsmeldungen dokumentieren CVE-2023-23537, bei dem eine App sensible Standortinformationen lesen konnte, bevor Log-Redaction-Fixes ausgeliefert wurden.',
+        localizedTexts: { de: 'Apple-Sicherheitsmeldungen dokumentieren CVE-2023-23537, bei dem eine App sensible Standortinformationen lesen konnte, bevor Log-Redaction-Fixes ausgeliefert wurden.' },
         severity: 'moderate',
         date: '2023-02-13',
         sourceUrl: 'https://support.apple.com/en-vn/102810',
@@ -1535,14 +1547,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'apple-maps-mapkit-usage-billing-scaling-opacity',
         text: 'Apple\'s MapKit JS usage and billing terms define free daily quotas but require a separate quota-increase process for higher usage, reducing price predictability at scale.',
-        textDe: 'Apples MapKit-JS-Nutzungs- und Billing-Bedingungen definieren kostenlose Tageskontingente, verlangen für höheren Verbrauch jedoch einen separaten Quota-Erhöhungsprozess, was die Preisplanbarkeit bei Skalierung reduziert.',
+        localizedTexts: { de: 'Apples MapKit-JS-Nutzungs- und Billing-Bedingungen definieren kostenlose Tageskontingente, verlangen für höheren Verbrauch jedoch einen separaten Quota-Erhöhungsprozess, was die Preisplanbarkeit bei Skalierung reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://developer.apple.com/maps/mapkitjs/usage-and-billing/',
       },
       {
         id: 'apple-maps-cross-platform-regulatory-pressure',
         text: 'Germany\'s Bundeskartellamt designated Apple as having paramount cross-market significance, signaling sustained regulatory pressure that can affect platform-integrated services like Maps.',
-        textDe: 'Das Bundeskartellamt stufte Apple als Unternehmen mit überragender marktübergreifender Bedeutung ein, was auf anhaltenden Regulierungsdruck hinweist, der plattformintegrierte Dienste wie Maps betreffen kann.',
+        localizedTexts: { de: 'Das Bundeskartellamt stufte Apple als Unternehmen mit überragender marktübergreifender Bedeutung ein, was auf anhaltenden Regulierungsdruck hinweist, der plattformintegrierte Dienste wie Maps betreffen kann.' },
         severity: 'moderate',
         date: '2023-04-05',
         sourceUrl: 'https://www.bundeskartellamt.de/SharedDocs/Meldung/EN/Pressemitteilungen/2023/05_04_2023_Apple_19a.html',
@@ -1550,14 +1562,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'apple-maps-no-google-import-path',
         text: 'Apple Support Community guidance states there is currently no built-in system to import saved data from Google Maps into Apple Maps.',
-        textDe: 'Hinweise in der Apple Support Community besagen, dass es derzeit kein integriertes System gibt, um gespeicherte Daten aus Google Maps in Apple Maps zu importieren.',
+        localizedTexts: { de: 'Hinweise in der Apple Support Community besagen, dass es derzeit kein integriertes System gibt, um gespeicherte Daten aus Google Maps in Apple Maps zu importieren.' },
         severity: 'moderate',
         sourceUrl: 'https://discussions.apple.com/thread/254637909',
       },
       {
         id: 'apple-maps-service-outage-october-2022',
         text: 'Apple Maps experienced a documented outage affecting display, search, routing, and traffic in October 2022 before service recovery.',
-        textDe: 'Apple Maps hatte im Oktober 2022 einen dokumentierten Ausfall mit Störungen bei Anzeige, Suche, Routing und Verkehrsdaten, bevor der Dienst wiederhergestellt wurde.',
+        localizedTexts: { de: 'Apple Maps hatte im Oktober 2022 einen dokumentierten Ausfall mit Störungen bei Anzeige, Suche, Routing und Verkehrsdaten, bevor der Dienst wiederhergestellt wurde.' },
         severity: 'minor',
         date: '2022-10-13',
         sourceUrl: 'https://www.macrumors.com/2022/10/13/apple-maps-outage-october-2022/',
@@ -1568,20 +1580,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.4,
     description:
         'US-operated consumer cloud with strong security engineering, optional end-to-end encryption expansion via Advanced Data Protection, and public legal transparency reporting, but trust is reduced by non-E2EE defaults for core data classes, broad disclosure rights in iCloud terms, UK government-pressure encryption rollback, and ongoing lock-in litigation around storage.',
-    descriptionDe:
-        'US-Consumer-Cloud mit starker Security-Engineering-Basis, optional erweiterbarer Ende-zu-Ende-Verschlüsselung via Advanced Data Protection und öffentlichem Transparenz-Reporting; das Vertrauen sinkt jedoch durch nicht standardmässige E2EE bei zentralen Datenklassen, breite Offenlegungsrechte in den iCloud-Bedingungen, den UK-bedingten ADP-Rückzug und laufende Lock-in-Litigation rund um Cloud-Speicher.',
+    localizedDescriptions: {
+      de: 'US-Consumer-Cloud mit starker Security-Engineering-Basis, optional erweiterbarer Ende-zu-Ende-Verschlüsselung via Advanced Data Protection und öffentlichem Transparenz-Reporting; das Vertrauen sinkt jedoch durch nicht standardmässige E2EE bei zentralen Datenklassen, breite Offenlegungsrechte in den iCloud-Bedingungen, den UK-bedingten ADP-Rückzug und laufende Lock-in-Litigation rund um Cloud-Speicher.',
+    },
     reservations: [
       {
         id: 'icloud-non-e2ee-default-core-data-classes',
         text: 'Apple documents that iCloud Mail, Contacts, and Calendar are not end-to-end encrypted, even when Advanced Data Protection is enabled.',
-        textDe: 'Apple dokumentiert, dass iCloud Mail, Kontakte und Kalender auch mit aktivierter Advanced Data Protection nicht Ende-zu-Ende verschlüsselt sind.',
+        localizedTexts: { de: 'Apple dokumentiert, dass iCloud Mail, Kontakte und Kalender auch mit aktivierter Advanced Data Protection nicht Ende-zu-Ende verschlüsselt sind.' },
         severity: 'major',
         sourceUrl: 'https://support.apple.com/en-us/102651',
       },
       {
         id: 'icloud-uk-adp-withdrawal-2025',
         text: 'Apple removed Advanced Data Protection for new UK users in February 2025 after government pressure, showing that jurisdiction can directly reduce available encryption protections.',
-        textDe: 'Apple entfernte im Februar 2025 Advanced Data Protection für neue UK-Nutzer nach staatlichem Druck; das zeigt, dass Jurisdiktion verfügbare Verschlüsselungsschutzstufen direkt reduzieren kann.',
+        localizedTexts: { de: 'Apple entfernte im Februar 2025 Advanced Data Protection für neue UK-Nutzer nach staatlichem Druck; das zeigt, dass Jurisdiktion verfügbare Verschlüsselungsschutzstufen direkt reduzieren kann.' },
         severity: 'major',
         date: '2025-02-21',
         sourceUrl: 'https://www.theguardian.com/technology/2025/feb/21/apple-removes-advanced-data-protection-tool-uk-government',
@@ -1589,49 +1602,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'icloud-terms-legal-disclosure-and-access',
         text: 'iCloud terms state Apple may access, use, preserve, and disclose account information and content when legally required or for fraud/security enforcement.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder zur Fraud-/Security-Durchsetzung abrufen, nutzen, aufbewahren und offenlegen darf.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder zur Fraud-/Security-Durchsetzung abrufen, nutzen, aufbewahren und offenlegen darf.' },
         severity: 'major',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-terms-shared-content-license-breadth',
         text: 'iCloud terms grant Apple a broad worldwide license for content users make available publicly or share, which creates contractual scope risk for sensitive collaboration workflows.',
-        textDe: 'Die iCloud-Bedingungen gewähren Apple für öffentlich bereitgestellte oder geteilte Inhalte eine breite weltweite Lizenz, was für sensible Kollaborations-Workflows vertragliche Scope-Risiken erzeugt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen gewähren Apple für öffentlich bereitgestellte oder geteilte Inhalte eine breite weltweite Lizenz, was für sensible Kollaborations-Workflows vertragliche Scope-Risiken erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-terms-content-screening-removal-rights',
         text: 'iCloud terms allow Apple to screen, remove, or disable access to content/accounts for policy, legal, or safety reasons, reducing user-side control certainty.',
-        textDe: 'Die iCloud-Bedingungen erlauben Apple, Inhalte oder Accounts aus Policy-, Rechts- oder Sicherheitsgründen zu prüfen, zu entfernen oder zu sperren, was die Nutzerkontrollsicherheit reduziert.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen erlauben Apple, Inhalte oder Accounts aus Policy-, Rechts- oder Sicherheitsgründen zu prüfen, zu entfernen oder zu sperren, was die Nutzerkontrollsicherheit reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-third-party-datacenter-processing-scope',
         text: 'iCloud terms state that content may be stored on Apple or third-party provider servers, adding external infrastructure dependency to the trust model.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden können, was dem Vertrauensmodell zusätzliche Infrastrukturabhängigkeit hinzufügt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden können, was dem Vertrauensmodell zusätzliche Infrastrukturabhängigkeit hinzufügt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-terms-unilateral-changes-and-availability-disclaimer',
         text: 'iCloud terms allow Apple to modify services and agreement terms and explicitly disclaim uninterrupted availability, creating continuity risk for cloud-dependent workflows.',
-        textDe: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Vertragsbedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit explizit aus, was Kontinuitätsrisiken für cloudabhängige Workflows erzeugt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Vertragsbedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit explizit aus, was Kontinuitätsrisiken für cloudabhängige Workflows erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-phi-prohibited-by-terms',
         text: 'iCloud terms prohibit use for protected health information by covered entities and business associates, limiting suitability for HIPAA-regulated workloads.',
-        textDe: 'Die iCloud-Bedingungen untersagen die Nutzung für geschützte Gesundheitsdaten durch Covered Entities und Business Associates, was die Eignung für HIPAA-regulierte Workloads begrenzt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen untersagen die Nutzung für geschützte Gesundheitsdaten durch Covered Entities und Business Associates, was die Eignung für HIPAA-regulierte Workloads begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'icloud-us-antitrust-lockin-case-2025',
         text: 'In June 2025, a U.S. federal court denied Apple\'s request to dismiss a consumer antitrust case over iCloud storage lock-in, keeping monopoly and overcharge allegations active.',
-        textDe: 'Im Juni 2025 lehnte ein US-Bundesgericht Apples Antrag auf Klageabweisung in einer Verbraucher-Antitrustklage zu iCloud-Lock-in ab; damit bleiben Monopol- und Overcharge-Vorwürfe anhängig.',
+        localizedTexts: { de: 'Im Juni 2025 lehnte ein US-Bundesgericht Apples Antrag auf Klageabweisung in einer Verbraucher-Antitrustklage zu iCloud-Lock-in ab; damit bleiben Monopol- und Overcharge-Vorwürfe anhängig.' },
         severity: 'moderate',
         date: '2025-06-17',
         sourceUrl: 'https://techcrunch.com/2025/06/17/us-court-denies-apples-request-to-dismiss-antitrust-case-concerning-icloud/',
@@ -1639,14 +1652,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'icloud-which-cat-collective-action',
         text: 'The UK Competition Appeal Tribunal docket lists Which?\'s collective action alleging anti-competitive iCloud storage pricing and lock-in behavior.',
-        textDe: 'Das Docket des UK Competition Appeal Tribunal führt die Sammelklage von Which? mit Vorwürfen zu wettbewerbswidriger iCloud-Speicherbepreisung und Lock-in-Verhalten.',
+        localizedTexts: { de: 'Das Docket des UK Competition Appeal Tribunal führt die Sammelklage von Which? mit Vorwürfen zu wettbewerbswidriger iCloud-Speicherbepreisung und Lock-in-Verhalten.' },
         severity: 'moderate',
         sourceUrl: 'https://www.catribunal.org.uk/cases/16897724-consumers-association-which',
       },
       {
         id: 'icloud-pricing-volatility-uk-2023',
         text: 'Reporting documented roughly 25% iCloud+ price increases in the UK and multiple regions in 2023, highlighting subscription-price predictability risk.',
-        textDe: 'Berichte dokumentierten 2023 iCloud+-Preiserhöhungen von rund 25 Prozent im UK und mehreren Regionen, was Risiken für die Planbarkeit von Abo-Preisen aufzeigt.',
+        localizedTexts: { de: 'Berichte dokumentierten 2023 iCloud+-Preiserhöhungen von rund 25 Prozent im UK und mehreren Regionen, was Risiken für die Planbarkeit von Abo-Preisen aufzeigt.' },
         severity: 'moderate',
         date: '2023-06-27',
         sourceUrl: 'https://www.macrumors.com/2023/06/27/apple-hikes-icloud-subscription-prices/',
@@ -1654,7 +1667,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'icloud-private-relay-extended-outage-2024',
         text: 'Apple system-status reporting showed a multi-day iCloud Private Relay disruption in July 2024, indicating non-trivial reliability risk for privacy-dependent connectivity.',
-        textDe: 'Die Apple-Systemstatus-Berichterstattung zeigte im Juli 2024 eine mehrtägige Störung von iCloud Private Relay und weist damit auf relevante Zuverlässigkeitsrisiken für privacy-abhängige Konnektivität hin.',
+        localizedTexts: { de: 'Die Apple-Systemstatus-Berichterstattung zeigte im Juli 2024 eine mehrtägige Störung von iCloud Private Relay und weist damit auf relevante Zuverlässigkeitsrisiken für privacy-abhängige Konnektivität hin.' },
         severity: 'minor',
         date: '2024-07-25',
         sourceUrl: 'https://www.macrumors.com/2024/07/29/apple-fixes-icloud-private-relay/',
@@ -1662,14 +1675,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'icloud-account-compromise-recovery-risk-surface',
         text: 'Apple publishes dedicated account-compromise recovery guidance, underscoring persistent account-takeover and phishing risk as a practical threat channel around iCloud accounts.',
-        textDe: 'Apple veröffentlicht dedizierte Recovery-Anleitungen für kompromittierte Accounts und unterstreicht damit ein fortbestehendes praktisches Risiko durch Account-Übernahmen und Phishing rund um iCloud-Konten.',
+        localizedTexts: { de: 'Apple veröffentlicht dedizierte Recovery-Anleitungen für kompromittierte Accounts und unterstreicht damit ein fortbestehendes praktisches Risiko durch Account-Übernahmen und Phishing rund um iCloud-Konten.' },
         severity: 'minor',
         sourceUrl: 'https://support.apple.com/en-us/102560',
       },
       {
         id: 'icloud-dsa-report-shows-legal-information-order-channel',
         text: 'Apple\'s EU DSA iCloud transparency reporting documents ongoing legal information-order handling, confirming a persistent state-request surface.',
-        textDe: 'Die EU-DSA-Transparenzberichte von Apple für iCloud dokumentieren fortlaufende Bearbeitung rechtlicher Informationsanordnungen und bestätigen damit eine dauerhafte staatliche Anfrageoberfläche.',
+        localizedTexts: { de: 'Die EU-DSA-Transparenzberichte von Apple für iCloud dokumentieren fortlaufende Bearbeitung rechtlicher Informationsanordnungen und bestätigen damit eine dauerhafte staatliche Anfrageoberfläche.' },
         severity: 'minor',
         sourceUrl: 'https://www.apple.com/legal/dsa/transparency/eu/icloud/2502/',
       },
@@ -1679,27 +1692,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.1,
     description:
         'US-operated desktop OS with strong security assurance artifacts and mature patch operations, but trust is reduced by recurring in-the-wild exploit pressure, jurisdictional iCloud sovereignty constraints, and ongoing privacy/competition enforcement exposure.',
-    descriptionDe:
-        'US-Desktop-Betriebssystem mit starken Security-Assurance-Artefakten und reifer Patch-Operationalisierung, dessen Vertrauen jedoch durch wiederkehrenden In-the-Wild-Exploitation-Druck, jurisdiktionale iCloud-Souveränitätsgrenzen und laufende Privacy-/Wettbewerbsdurchsetzung sinkt.',
+    localizedDescriptions: {
+      de: 'US-Desktop-Betriebssystem mit starken Security-Assurance-Artefakten und reifer Patch-Operationalisierung, dessen Vertrauen jedoch durch wiederkehrenden In-the-Wild-Exploitation-Druck, jurisdiktionale iCloud-Souveränitätsgrenzen und laufende Privacy-/Wettbewerbsdurchsetzung sinkt.',
+    },
     reservations: [
       {
         id: 'macos-kev-active-exploitation-pressure',
         text: 'CISA\'s Known Exploited Vulnerabilities catalog includes macOS-related entries, indicating persistent active-exploitation pressure and tight patch-SLA requirements.',
-        textDe: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthält macOS-bezogene Einträge und zeigt damit anhaltenden Active-Exploitation-Druck sowie enge Patch-SLA-Anforderungen.',
+        localizedTexts: { de: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthält macOS-bezogene Einträge und zeigt damit anhaltenden Active-Exploitation-Druck sowie enge Patch-SLA-Anforderungen.' },
         severity: 'major',
         sourceUrl: 'https://www.cisa.gov/known-exploited-vulnerabilities-catalog',
       },
       {
         id: 'macos-cve-2026-20700-tracked-vulnerability',
         text: 'CVE-2026-20700 is publicly tracked as a macOS security vulnerability in the 2026 cycle, reinforcing rapid-update requirements for exposed systems.',
-        textDe: 'CVE-2026-20700 ist im 2026er-Zyklus öffentlich als macOS-Sicherheitslücke erfasst und unterstreicht schnelle Update-Anforderungen für exponierte Systeme.',
+        localizedTexts: { de: 'CVE-2026-20700 ist im 2026er-Zyklus öffentlich als macOS-Sicherheitslücke erfasst und unterstreicht schnelle Update-Anforderungen für exponierte Systeme.' },
         severity: 'moderate',
         sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2026-20700',
       },
       {
         id: 'macos-siri-privacy-settlement-2025',
         text: 'Apple agreed to a $95M settlement over allegations that Siri-enabled devices captured private conversations without intended user activation.',
-        textDe: 'Apple stimmte einem Vergleich über 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-fähige Geräte private Gespräche ohne beabsichtigte Nutzeraktivierung erfassten.',
+        localizedTexts: { de: 'Apple stimmte einem Vergleich über 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-fähige Geräte private Gespräche ohne beabsichtigte Nutzeraktivierung erfassten.' },
         severity: 'major',
         date: '2025-01-03',
         sourceUrl: 'https://www.cbsnews.com/news/siri-civil-lawsuit-settlement-apple-iphone-eavesdropping/',
@@ -1707,14 +1721,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-siri-dictation-transcript-retention-and-review',
         text: 'Apple\'s Siri privacy documentation states transcripts can be retained for up to two years and a reviewed subset may be kept longer, creating residual governance risk for voice interactions.',
-        textDe: 'Apples Siri-Privacy-Dokumentation beschreibt, dass Transkripte bis zu zwei Jahre gespeichert werden können und ein überprüfter Teil länger aufbewahrt werden kann, was ein verbleibendes Governance-Risiko für Sprachinteraktionen erzeugt.',
+        localizedTexts: { de: 'Apples Siri-Privacy-Dokumentation beschreibt, dass Transkripte bis zu zwei Jahre gespeichert werden können und ein überprüfter Teil länger aufbewahrt werden kann, was ein verbleibendes Governance-Risiko für Sprachinteraktionen erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/privacy/data/en/ask-siri-dictation/',
       },
       {
         id: 'macos-web-app-store-sourcemap-exposure-2025',
         text: 'Reporting in November 2025 described accidental publication of Apple web App Store front-end source artifacts via sourcemaps, signaling operational security process risk.',
-        textDe: 'Berichte im November 2025 beschrieben die versehentliche Veröffentlichung von Frontend-Source-Artefakten des Web-App-Stores über Sourcemaps und zeigen damit ein operatives Security-Process-Risiko.',
+        localizedTexts: { de: 'Berichte im November 2025 beschrieben die versehentliche Veröffentlichung von Frontend-Source-Artefakten des Web-App-Stores über Sourcemaps und zeigen damit ein operatives Security-Process-Risiko.' },
         severity: 'moderate',
         date: '2025-11-04',
         sourceUrl: 'https://9to5mac.com/2025/11/04/web-app-store-front-end-source-code-github/',
@@ -1722,7 +1736,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-web-app-store-dmca-takedown-2025',
         text: 'GitHub\'s public DMCA repository records Apple takedown requests tied to leaked web App Store source materials, confirming real-world code-exposure handling in 2025.',
-        textDe: 'Das öffentliche DMCA-Repository von GitHub dokumentiert Apple-Takedown-Requests zu geleakten Web-App-Store-Source-Materialien und bestätigt damit ein reales Code-Exposure-Handling im Jahr 2025.',
+        localizedTexts: { de: 'Das öffentliche DMCA-Repository von GitHub dokumentiert Apple-Takedown-Requests zu geleakten Web-App-Store-Source-Materialien und bestätigt damit ein reales Code-Exposure-Handling im Jahr 2025.' },
         severity: 'moderate',
         date: '2025-11-05',
         sourceUrl: 'https://github.com/github/dmca/blob/master/2025/11/2025-11-05-apple.md',
@@ -1730,21 +1744,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-icloud-mainland-china-operator-model',
         text: 'Apple states that iCloud in mainland China is operated by GCBD (AIPO Cloud), creating a region-specific operating and jurisdiction model for cloud data.',
-        textDe: 'Apple gibt an, dass iCloud in Festlandchina von GCBD (AIPO Cloud) betrieben wird, wodurch ein regionalspezifisches Betriebs- und Jurisdiktionsmodell für Cloud-Daten entsteht.',
+        localizedTexts: { de: 'Apple gibt an, dass iCloud in Festlandchina von GCBD (AIPO Cloud) betrieben wird, wodurch ein regionalspezifisches Betriebs- und Jurisdiktionsmodell für Cloud-Daten entsteht.' },
         severity: 'major',
         sourceUrl: 'https://support.apple.com/en-us/111754',
       },
       {
         id: 'macos-icloud-gcbd-local-terms-jurisdiction',
         text: 'Apple links mainland-China iCloud usage to separate GCBD terms and conditions, meaning service and data handling follow a distinct local legal framework.',
-        textDe: 'Apple knüpft die iCloud-Nutzung in Festlandchina an separate GCBD-Bedingungen, sodass Service- und Datenverarbeitung einem eigenständigen lokalen Rechtsrahmen folgen.',
+        localizedTexts: { de: 'Apple knüpft die iCloud-Nutzung in Festlandchina an separate GCBD-Bedingungen, sodass Service- und Datenverarbeitung einem eigenständigen lokalen Rechtsrahmen folgen.' },
         severity: 'major',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/en/gcbd-terms.html',
       },
       {
         id: 'macos-uk-adp-withdrawal-2025',
         text: 'Apple removed Advanced Data Protection for new UK users in February 2025 after government pressure, showing that jurisdiction can directly reduce available cloud-encryption protections.',
-        textDe: 'Apple entfernte im Februar 2025 nach staatlichem Druck Advanced Data Protection für neue UK-Nutzende und zeigte damit, dass Jurisdiktion verfügbare Cloud-Verschlüsselungsschutzstufen direkt reduzieren kann.',
+        localizedTexts: { de: 'Apple entfernte im Februar 2025 nach staatlichem Druck Advanced Data Protection für neue UK-Nutzende und zeigte damit, dass Jurisdiktion verfügbare Cloud-Verschlüsselungsschutzstufen direkt reduzieren kann.' },
         severity: 'major',
         date: '2025-02-21',
         sourceUrl: 'https://www.theguardian.com/technology/2025/feb/21/apple-removes-advanced-data-protection-tool-uk-government',
@@ -1752,35 +1766,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-icloud-non-e2ee-core-data-classes',
         text: 'Apple documents that iCloud Mail, Contacts, and Calendar are not end-to-end encrypted, including when Advanced Data Protection is enabled.',
-        textDe: 'Apple dokumentiert, dass iCloud Mail, Kontakte und Kalender nicht Ende-zu-Ende verschlüsselt sind, auch wenn Advanced Data Protection aktiviert ist.',
+        localizedTexts: { de: 'Apple dokumentiert, dass iCloud Mail, Kontakte und Kalender nicht Ende-zu-Ende verschlüsselt sind, auch wenn Advanced Data Protection aktiviert ist.' },
         severity: 'major',
         sourceUrl: 'https://support.apple.com/en-us/102651',
       },
       {
         id: 'macos-icloud-terms-legal-disclosure-rights',
         text: 'iCloud terms state Apple may access, use, preserve, and disclose account information and content when legally required or for specified fraud/security reasons.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder für definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder für definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'macos-icloud-third-party-datacenter-processing-scope',
         text: 'iCloud terms state that content may be stored on Apple or third-party provider servers, adding external infrastructure dependency to macOS cloud workflows.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden können, was macOS-Cloud-Workflows einer zusätzlichen Infrastrukturabhängigkeit aussetzt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden können, was macOS-Cloud-Workflows einer zusätzlichen Infrastrukturabhängigkeit aussetzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'macos-icloud-unilateral-service-change-rights',
         text: 'iCloud terms allow Apple to modify services and terms and disclaim uninterrupted availability, creating continuity risk for macOS workflows that depend on Apple cloud services.',
-        textDe: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit aus, was Kontinuitätsrisiken für macOS-Workflows mit Apple-Cloud-Abhängigkeit erzeugt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen erlauben Apple Änderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfügbarkeit aus, was Kontinuitätsrisiken für macOS-Workflows mit Apple-Cloud-Abhängigkeit erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'macos-doj-antitrust-litigation-2024',
         text: 'The U.S. Department of Justice filed antitrust litigation in 2024 alleging Apple used ecosystem restrictions to preserve smartphone-market power.',
-        textDe: 'Das US-Justizministerium reichte 2024 ein Antitrust-Verfahren ein und wirft Apple vor, über Ökosystem-Beschränkungen Marktmacht im Smartphone-Markt zu sichern.',
+        localizedTexts: { de: 'Das US-Justizministerium reichte 2024 ein Antitrust-Verfahren ein und wirft Apple vor, über Ökosystem-Beschränkungen Marktmacht im Smartphone-Markt zu sichern.' },
         severity: 'moderate',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/opa/pr/justice-department-sues-apple-monopolizing-smartphone-markets',
@@ -1788,7 +1802,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-dma-breach-finding-2025',
         text: 'The European Commission announced in May 2025 that Apple breached Digital Markets Act obligations, adding regulatory and platform-policy volatility risk.',
-        textDe: 'Die Europäische Kommission gab im Mai 2025 bekannt, dass Apple gegen Verpflichtungen des Digital Markets Act verstoßen hat, was regulatorische und plattformpolitische Volatilitätsrisiken erhöht.',
+        localizedTexts: { de: 'Die Europäische Kommission gab im Mai 2025 bekannt, dass Apple gegen Verpflichtungen des Digital Markets Act verstoßen hat, was regulatorische und plattformpolitische Volatilitätsrisiken erhöht.' },
         severity: 'moderate',
         date: '2025-05-13',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-finds-apple-and-meta-breach-digital-markets-act',
@@ -1796,7 +1810,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-eu-core-technology-fee-policy-volatility-2024',
         text: 'Apple\'s 2024 EU App Store terms introduced Core Technology Fee mechanics, illustrating platform-pricing and policy volatility for ecosystem-dependent software distribution.',
-        textDe: 'Apples EU-App-Store-Bedingungen von 2024 führten Core-Technology-Fee-Mechaniken ein und zeigen damit eine Preis- und Policy-Volatilität für ökosystemabhängige Softwaredistribution.',
+        localizedTexts: { de: 'Apples EU-App-Store-Bedingungen von 2024 führten Core-Technology-Fee-Mechaniken ein und zeigen damit eine Preis- und Policy-Volatilität für ökosystemabhängige Softwaredistribution.' },
         severity: 'moderate',
         date: '2024-01-25',
         sourceUrl: 'https://www.apple.com/newsroom/2024/01/apple-announces-changes-to-ios-safari-and-the-app-store-in-the-european-union/',
@@ -1804,21 +1818,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'macos-analytics-sharing-opt-out-required',
         text: 'macOS analytics sharing is configurable and can be turned off, which means privacy-sensitive deployments must actively enforce telemetry settings instead of relying on unmanaged defaults.',
-        textDe: 'Das Analytics-Sharing unter macOS ist konfigurierbar und kann deaktiviert werden; für datensensible Deployments müssen Telemetrie-Einstellungen daher aktiv durchgesetzt werden statt auf ungemanagte Defaults zu vertrauen.',
+        localizedTexts: { de: 'Das Analytics-Sharing unter macOS ist konfigurierbar und kann deaktiviert werden; für datensensible Deployments müssen Telemetrie-Einstellungen daher aktiv durchgesetzt werden statt auf ungemanagte Defaults zu vertrauen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/guide/mac-help/change-analytics-privacy-settings-on-mac-mchla1d6b51e/mac',
       },
       {
         id: 'macos-no-public-soc2-product-attestation',
         text: 'Apple\'s public security certifications page prominently lists ISO/IEC, Common Criteria, and FIPS artifacts, but does not publish a product-specific SOC 2 report for macOS.',
-        textDe: 'Apples öffentliche Security-Zertifizierungsseite listet vor allem ISO/IEC-, Common-Criteria- und FIPS-Artefakte, veröffentlicht aber keinen produktspezifischen SOC-2-Report für macOS.',
+        localizedTexts: { de: 'Apples öffentliche Security-Zertifizierungsseite listet vor allem ISO/IEC-, Common-Criteria- und FIPS-Artefakte, veröffentlicht aber keinen produktspezifischen SOC-2-Report für macOS.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/guide/security/certifications-sec8e4b0b8fd/web',
       },
       {
         id: 'macos-advanced-data-protection-optional',
         text: 'Apple documents that standard iCloud data protection is the default and that Advanced Data Protection is optional, so stronger cloud confidentiality requires explicit user or policy activation.',
-        textDe: 'Apple dokumentiert, dass der standardmäßige iCloud-Datenschutz der Default ist und Advanced Data Protection optional bleibt; höhere Cloud-Vertraulichkeit erfordert daher eine explizite Aktivierung durch Nutzer oder Richtlinien.',
+        localizedTexts: { de: 'Apple dokumentiert, dass der standardmäßige iCloud-Datenschutz der Default ist und Advanced Data Protection optional bleibt; höhere Cloud-Vertraulichkeit erfordert daher eine explizite Aktivierung durch Nutzer oder Richtlinien.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/en-us/102651',
       },
@@ -1828,13 +1842,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.9,
     description:
         'US-operated messaging service with strong end-to-end encryption and mature security hardening, but trust is reduced by recurring zero-click exploit pressure, iCloud backup caveats, social lock-in pressure, and cross-platform interoperability restrictions.',
-    descriptionDe:
-        'US-Messaging-Dienst mit starker Ende-zu-Ende-Verschluesselung und reifer Security-Haertung, dessen Vertrauen jedoch durch wiederkehrenden Zero-Click-Exploitation-Druck, iCloud-Backup-Vorbehalte, sozialen Lock-in-Druck und Beschraenkungen bei Cross-Platform-Interoperabilitaet sinkt.',
+    localizedDescriptions: {
+      de: 'US-Messaging-Dienst mit starker Ende-zu-Ende-Verschluesselung und reifer Security-Haertung, dessen Vertrauen jedoch durch wiederkehrenden Zero-Click-Exploitation-Druck, iCloud-Backup-Vorbehalte, sozialen Lock-in-Druck und Beschraenkungen bei Cross-Platform-Interoperabilitaet sinkt.',
+    },
     reservations: [
       {
         id: 'imessage-forcedentry-zero-click-chain-2021',
         text: 'Citizen Lab documented the FORCEDENTRY iMessage zero-click exploit chain in the wild, confirming sustained high-end offensive targeting pressure.',
-        textDe: 'Citizen Lab dokumentierte die FORCEDENTRY-iMessage-Zero-Click-Exploit-Kette in der Praxis und bestaetigte damit anhaltenden High-End-Angriffsdruck.',
+        localizedTexts: { de: 'Citizen Lab dokumentierte die FORCEDENTRY-iMessage-Zero-Click-Exploit-Kette in der Praxis und bestaetigte damit anhaltenden High-End-Angriffsdruck.' },
         severity: 'major',
         date: '2021-09-13',
         sourceUrl: 'https://citizenlab.ca/2021/09/forcedentry-nso-group-imessage-zero-click-exploit-captured-in-the-wild/',
@@ -1842,7 +1857,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-blastpass-zero-click-chain-2023',
         text: 'Citizen Lab reported BLASTPASS in 2023 as another in-the-wild iMessage zero-click chain, showing that hardened parsing layers still face elite attacker pressure.',
-        textDe: 'Citizen Lab berichtete 2023 ueber BLASTPASS als weitere in-the-wild iMessage-Zero-Click-Kette und zeigt damit, dass gehaertete Parsing-Layer weiterhin unter Elite-Angriffsdruck stehen.',
+        localizedTexts: { de: 'Citizen Lab berichtete 2023 ueber BLASTPASS als weitere in-the-wild iMessage-Zero-Click-Kette und zeigt damit, dass gehaertete Parsing-Layer weiterhin unter Elite-Angriffsdruck stehen.' },
         severity: 'major',
         date: '2023-09-07',
         sourceUrl: 'https://citizenlab.ca/blastpass-nso-group-iphone-zero-click-zero-day-exploit-captured-in-the-wild/',
@@ -1850,14 +1865,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-icloud-backup-not-e2ee-by-default',
         text: 'Apple documents that iCloud Backup is not end-to-end encrypted by default and requires Advanced Data Protection to harden backup-key exposure risk.',
-        textDe: 'Apple dokumentiert, dass iCloud-Backup standardmaessig nicht Ende-zu-Ende verschluesselt ist und Advanced Data Protection zur Haertung von Backup-Key-Expositionsrisiken erfordert.',
+        localizedTexts: { de: 'Apple dokumentiert, dass iCloud-Backup standardmaessig nicht Ende-zu-Ende verschluesselt ist und Advanced Data Protection zur Haertung von Backup-Key-Expositionsrisiken erfordert.' },
         severity: 'major',
         sourceUrl: 'https://support.apple.com/en-us/102651',
       },
       {
         id: 'imessage-uk-adp-withdrawal-2025',
         text: 'Apple states that Advanced Data Protection can no longer be offered to new users in the UK, reducing the availability of end-to-end encrypted iCloud backup categories in that jurisdiction.',
-        textDe: 'Apple gibt an, dass Advanced Data Protection neuen Nutzern im Vereinigten Koenigreich nicht mehr angeboten werden kann, wodurch dort die Verfuegbarkeit Ende-zu-Ende-verschluesselter iCloud-Backup-Kategorien sinkt.',
+        localizedTexts: { de: 'Apple gibt an, dass Advanced Data Protection neuen Nutzern im Vereinigten Koenigreich nicht mehr angeboten werden kann, wodurch dort die Verfuegbarkeit Ende-zu-Ende-verschluesselter iCloud-Backup-Kategorien sinkt.' },
         severity: 'moderate',
         date: '2025-09-23',
         sourceUrl: 'https://support.apple.com/en-gb/122234',
@@ -1865,21 +1880,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-metadata-retention-30-day-windows',
         text: 'Apple\'s Messages privacy documentation describes limited retention windows (for example reachability and delivery-related metadata up to about 30 days), leaving residual metadata visibility.',
-        textDe: 'Apples Messages-Privacy-Dokumentation beschreibt begrenzte Aufbewahrungsfenster (z. B. Reachability- und Delivery-bezogene Metadaten bis etwa 30 Tage), wodurch ein Rest an Metadaten-Sichtbarkeit verbleibt.',
+        localizedTexts: { de: 'Apples Messages-Privacy-Dokumentation beschreibt begrenzte Aufbewahrungsfenster (z. B. Reachability- und Delivery-bezogene Metadaten bis etwa 30 Tage), wodurch ein Rest an Metadaten-Sichtbarkeit verbleibt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/privacy/data/en/messages/',
       },
       {
         id: 'imessage-icloud-terms-legal-disclosure-rights',
         text: 'iCloud terms state Apple may access, use, preserve, and disclose account information and content when legally required or for specified fraud/security reasons.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder fuer definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder fuer definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'imessage-green-bubble-social-lockin-2024',
         text: 'The DOJ complaint says Apple\'s green-bubble behavior creates social stigma and exclusion for non-iPhone users, reinforcing switching costs and lock-in, especially for teenagers.',
-        textDe: 'Die DOJ-Klage beschreibt, dass Apples Green-Bubble-Verhalten soziale Stigmatisierung und Ausschluss fuer Nicht-iPhone-Nutzer erzeugt und dadurch Wechselkosten sowie Lock-in verstaerkt, besonders bei Jugendlichen.',
+        localizedTexts: { de: 'Die DOJ-Klage beschreibt, dass Apples Green-Bubble-Verhalten soziale Stigmatisierung und Ausschluss fuer Nicht-iPhone-Nutzer erzeugt und dadurch Wechselkosten sowie Lock-in verstaerkt, besonders bei Jugendlichen.' },
         severity: 'major',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/atr/media/1344606/dl?inline',
@@ -1887,7 +1902,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-third-party-interop-security-blocking-2024',
         text: 'The DOJ complaint alleges Apple blocked a third-party fix for cross-platform encrypted messaging, preserving a degraded and less secure iPhone-to-Android messaging path.',
-        textDe: 'Die DOJ-Klage wirft Apple vor, eine Drittanbieter-Loesung fuer verschluesselte Cross-Platform-Messaging-Pfade blockiert zu haben und damit einen degradierten sowie weniger sicheren iPhone-zu-Android-Pfad aufrechtzuerhalten.',
+        localizedTexts: { de: 'Die DOJ-Klage wirft Apple vor, eine Drittanbieter-Loesung fuer verschluesselte Cross-Platform-Messaging-Pfade blockiert zu haben und damit einen degradierten sowie weniger sicheren iPhone-zu-Android-Pfad aufrechtzuerhalten.' },
         severity: 'major',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/atr/media/1344606/dl?inline',
@@ -1895,14 +1910,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-us-jurisdiction-cloud-act-exposure',
         text: 'As a US-operated service, iMessage remains exposed to US legal-process frameworks that can compel covered providers to produce data under applicable law.',
-        textDe: 'Als US-betriebener Dienst bleibt iMessage US-Rechtszugriffsrahmen ausgesetzt, die erfasste Anbieter zur Datenausgabe nach geltendem Recht verpflichten koennen.',
+        localizedTexts: { de: 'Als US-betriebener Dienst bleibt iMessage US-Rechtszugriffsrahmen ausgesetzt, die erfasste Anbieter zur Datenausgabe nach geltendem Recht verpflichten koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'imessage-siri-privacy-settlement-2025',
         text: 'Apple agreed to a $95M settlement over allegations that Siri-enabled devices captured private conversations without intended user activation, adding ecosystem-level privacy-governance risk.',
-        textDe: 'Apple stimmte einem Vergleich ueber 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-faehige Geraete private Gespraeche ohne beabsichtigte Nutzeraktivierung erfassten; das erhoeht das oekosystemweite Privacy-Governance-Risiko.',
+        localizedTexts: { de: 'Apple stimmte einem Vergleich ueber 95 Mio. USD zu, nachdem vorgeworfen wurde, dass Siri-faehige Geraete private Gespraeche ohne beabsichtigte Nutzeraktivierung erfassten; das erhoeht das oekosystemweite Privacy-Governance-Risiko.' },
         severity: 'major',
         date: '2025-01-03',
         sourceUrl: 'https://www.cbsnews.com/news/siri-civil-lawsuit-settlement-apple-iphone-eavesdropping/',
@@ -1910,7 +1925,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-doj-antitrust-lockin-litigation-2024',
         text: 'The U.S. Department of Justice filed antitrust litigation in 2024 alleging Apple maintained smartphone-market power through ecosystem restrictions, including messaging lock-in dynamics.',
-        textDe: 'Das US-Justizministerium reichte 2024 ein Antitrust-Verfahren ein und wirft Apple vor, Marktmacht im Smartphone-Markt ueber Oekosystem-Beschraenkungen einschliesslich Messaging-Lock-in-Dynamiken aufrechtzuerhalten.',
+        localizedTexts: { de: 'Das US-Justizministerium reichte 2024 ein Antitrust-Verfahren ein und wirft Apple vor, Marktmacht im Smartphone-Markt ueber Oekosystem-Beschraenkungen einschliesslich Messaging-Lock-in-Dynamiken aufrechtzuerhalten.' },
         severity: 'moderate',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/atr/case/us-and-plaintiff-states-v-apple-inc',
@@ -1918,7 +1933,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'imessage-dma-market-investigation-closure-2024',
         text: 'The European Commission closed the DMA market investigation for iMessage in February 2024, lowering immediate interoperability obligations while lock-in debates remained active.',
-        textDe: 'Die Europaeische Kommission schloss die DMA-Marktuntersuchung zu iMessage im Februar 2024 ab; unmittelbare Interoperabilitaetsauflagen wurden dadurch reduziert, waehrend die Lock-in-Debatte aktiv blieb.',
+        localizedTexts: { de: 'Die Europaeische Kommission schloss die DMA-Marktuntersuchung zu iMessage im Februar 2024 ab; unmittelbare Interoperabilitaetsauflagen wurden dadurch reduziert, waehrend die Lock-in-Debatte aktiv blieb.' },
         severity: 'moderate',
         date: '2024-02-13',
         sourceUrl: 'https://ec.europa.eu/commission/presscorner/detail/en/ip_24_4761',
@@ -1929,90 +1944,91 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.0,
     description:
         'US-operated browser with strong baseline security engineering and rapid patch delivery, but trust is reduced by recurring WebKit in-the-wild exploitation, US-jurisdiction data-transfer exposure, and sustained competition pressure around browser-engine control.',
-    descriptionDe:
-        'US-Browser mit starker Security-Basis und schneller Patch-Bereitstellung, dessen Vertrauen jedoch durch wiederkehrende WebKit-In-the-Wild-Exploitation, US-Jurisdiktions-Exposition bei Datenfluessen und anhaltenden Wettbewerbsdruck rund um Browser-Engine-Kontrolle sinkt.',
+    localizedDescriptions: {
+      de: 'US-Browser mit starker Security-Basis und schneller Patch-Bereitstellung, dessen Vertrauen jedoch durch wiederkehrende WebKit-In-the-Wild-Exploitation, US-Jurisdiktions-Exposition bei Datenfluessen und anhaltenden Wettbewerbsdruck rund um Browser-Engine-Kontrolle sinkt.',
+    },
     reservations: [
       {
         id: 'safari-webkit-kev-active-exploitation-pressure',
         text: 'CISA\'s Known Exploited Vulnerabilities catalog includes Apple/WebKit entries, indicating ongoing active-exploitation pressure and strict patch-SLA requirements for Safari deployments.',
-        textDe: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthaelt Apple/WebKit-Eintraege und zeigt damit anhaltenden Active-Exploitation-Druck sowie strikte Patch-SLA-Anforderungen fuer Safari-Deployments.',
+        localizedTexts: { de: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthaelt Apple/WebKit-Eintraege und zeigt damit anhaltenden Active-Exploitation-Druck sowie strikte Patch-SLA-Anforderungen fuer Safari-Deployments.' },
         severity: 'major',
         sourceUrl: 'https://www.cisa.gov/known-exploited-vulnerabilities-catalog',
       },
       {
         id: 'safari-cve-2025-43529-web-content-code-execution',
         text: 'CVE-2025-43529 documents a WebKit use-after-free issue that could allow arbitrary code execution via maliciously crafted web content before patches were applied.',
-        textDe: 'CVE-2025-43529 dokumentiert einen WebKit-Use-after-free-Fehler, der vor der Behebung die Ausfuehrung beliebigen Codes ueber boesartig praeparierte Webinhalte ermoeglichen konnte.',
+        localizedTexts: { de: 'CVE-2025-43529 dokumentiert einen WebKit-Use-after-free-Fehler, der vor der Behebung die Ausfuehrung beliebigen Codes ueber boesartig praeparierte Webinhalte ermoeglichen konnte.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-43529',
       },
       {
         id: 'safari-cve-2023-41993-web-content-arbitrary-code-execution',
         text: 'CVE-2023-41993 records arbitrary code execution risk from processing malicious web content in WebKit, reinforcing recurring browser-engine exploitation pressure.',
-        textDe: 'CVE-2023-41993 erfasst ein Risiko fuer die Ausfuehrung beliebigen Codes bei der Verarbeitung boesartiger Webinhalte in WebKit und unterstreicht wiederkehrenden Exploitation-Druck auf die Browser-Engine.',
+        localizedTexts: { de: 'CVE-2023-41993 erfasst ein Risiko fuer die Ausfuehrung beliebigen Codes bei der Verarbeitung boesartiger Webinhalte in WebKit und unterstreicht wiederkehrenden Exploitation-Druck auf die Browser-Engine.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2023-41993',
       },
       {
         id: 'safari-no-public-soc2-product-attestation',
         text: 'Apple publishes broad security certifications, but no publicly verifiable Safari-specific SOC 2 attestation is listed in the certifications documentation.',
-        textDe: 'Apple veroeffentlicht breite Security-Zertifizierungen, aber in der Zertifizierungsdokumentation ist kein oeffentlich verifizierbares, Safari-spezifisches SOC-2-Attest gelistet.',
+        localizedTexts: { de: 'Apple veroeffentlicht breite Security-Zertifizierungen, aber in der Zertifizierungsdokumentation ist kein oeffentlich verifizierbares, Safari-spezifisches SOC-2-Attest gelistet.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/guide/security/certifications-sec8e4b0b8fd/web',
       },
       {
         id: 'safari-security-disclosure-after-fix-policy',
         text: 'Apple states it does not disclose, discuss, or confirm security issues until investigation and patches/releases are generally available, reducing early-stage transparency during vulnerability windows.',
-        textDe: 'Apple erklaert, Sicherheitsprobleme erst nach Untersuchung und allgemeiner Verfuegbarkeit von Patches/Updates offenzulegen; das reduziert die Fruehtransparenz in Schwachstellenfenstern.',
+        localizedTexts: { de: 'Apple erklaert, Sicherheitsprobleme erst nach Untersuchung und allgemeiner Verfuegbarkeit von Patches/Updates offenzulegen; das reduziert die Fruehtransparenz in Schwachstellenfenstern.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/en-us/100100',
       },
       {
         id: 'safari-privacy-policy-us-storage-and-international-transfer',
         text: 'Apple\'s privacy policy states personal data may be transferred internationally and is generally stored by Apple Inc. in the United States, which adds sovereignty risk for strict data-locality requirements.',
-        textDe: 'Apples Privacy Policy nennt internationale Datentransfers und dass personenbezogene Daten in der Regel bei Apple Inc. in den USA gespeichert werden, was Souveraenitaetsrisiken fuer strikte Data-Locality-Anforderungen hinzufuegt.',
+        localizedTexts: { de: 'Apples Privacy Policy nennt internationale Datentransfers und dass personenbezogene Daten in der Regel bei Apple Inc. in den USA gespeichert werden, was Souveraenitaetsrisiken fuer strikte Data-Locality-Anforderungen hinzufuegt.' },
         severity: 'major',
         sourceUrl: 'https://www.apple.com/legal/privacy/en-ww/',
       },
       {
         id: 'safari-icloud-third-party-server-processing-scope',
         text: 'iCloud terms state that synced content may be stored on Apple or third-party provider servers, adding external infrastructure dependency for Safari cloud-sync workflows.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass synchronisierte Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden koennen, was Safari-Cloud-Sync-Workflows einer zusaetzlichen Infrastrukturabhaengigkeit aussetzt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass synchronisierte Inhalte auf Servern von Apple oder Drittanbietern gespeichert werden koennen, was Safari-Cloud-Sync-Workflows einer zusaetzlichen Infrastrukturabhaengigkeit aussetzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'safari-icloud-terms-legal-disclosure-rights',
         text: 'iCloud terms state Apple may access, use, preserve, and disclose account information and content when legally required or for specified fraud/security reasons.',
-        textDe: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder fuer definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen nennen, dass Apple Account-Informationen und Inhalte bei rechtlicher Pflicht oder fuer definierte Fraud-/Security-Zwecke abrufen, nutzen, aufbewahren und offenlegen darf.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'safari-icloud-phi-prohibited-by-terms',
         text: 'iCloud terms prohibit using the service for protected health information by covered entities and business associates, limiting suitability of Safari+iCloud workflows in HIPAA-regulated contexts.',
-        textDe: 'Die iCloud-Bedingungen untersagen die Nutzung fuer geschuetzte Gesundheitsdaten durch Covered Entities und Business Associates und begrenzen damit die Eignung von Safari+iCloud-Workflows in HIPAA-regulierten Kontexten.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen untersagen die Nutzung fuer geschuetzte Gesundheitsdaten durch Covered Entities und Business Associates und begrenzen damit die Eignung von Safari+iCloud-Workflows in HIPAA-regulierten Kontexten.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'safari-icloud-unilateral-service-change-rights',
         text: 'iCloud terms allow Apple to modify services and terms and disclaim uninterrupted availability, creating continuity risk for Safari workflows that rely on cloud sync.',
-        textDe: 'Die iCloud-Bedingungen erlauben Apple Aenderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfuegbarkeit aus, was Kontinuitaetsrisiken fuer Safari-Workflows mit Cloud-Sync-Abhaengigkeit erzeugt.',
+        localizedTexts: { de: 'Die iCloud-Bedingungen erlauben Apple Aenderungen an Diensten und Bedingungen und schliessen eine unterbrechungsfreie Verfuegbarkeit aus, was Kontinuitaetsrisiken fuer Safari-Workflows mit Cloud-Sync-Abhaengigkeit erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/internet-services/icloud/',
       },
       {
         id: 'safari-advanced-data-protection-optional',
         text: 'Apple documents that Advanced Data Protection is optional, so stronger end-to-end protection for Safari-synced categories (such as bookmarks) requires explicit activation.',
-        textDe: 'Apple dokumentiert, dass Advanced Data Protection optional ist; staerkere Ende-zu-Ende-Schutzstufen fuer Safari-synchronisierte Kategorien (z. B. Lesezeichen) erfordern daher eine explizite Aktivierung.',
+        localizedTexts: { de: 'Apple dokumentiert, dass Advanced Data Protection optional ist; staerkere Ende-zu-Ende-Schutzstufen fuer Safari-synchronisierte Kategorien (z. B. Lesezeichen) erfordern daher eine explizite Aktivierung.' },
         severity: 'moderate',
         sourceUrl: 'https://support.apple.com/en-us/102651',
       },
       {
         id: 'safari-uk-adp-withdrawal-2025',
         text: 'Apple removed Advanced Data Protection for new UK users in February 2025 after government pressure, showing that jurisdiction can directly reduce available encryption protections.',
-        textDe: 'Apple entfernte im Februar 2025 nach staatlichem Druck Advanced Data Protection fuer neue UK-Nutzer und zeigte damit, dass Jurisdiktion verfuegbare Verschluesselungsschutzstufen direkt reduzieren kann.',
+        localizedTexts: { de: 'Apple entfernte im Februar 2025 nach staatlichem Druck Advanced Data Protection fuer neue UK-Nutzer und zeigte damit, dass Jurisdiktion verfuegbare Verschluesselungsschutzstufen direkt reduzieren kann.' },
         severity: 'major',
         date: '2025-02-21',
         sourceUrl: 'https://www.theguardian.com/technology/2025/feb/21/apple-removes-advanced-data-protection-tool-uk-government',
@@ -2020,7 +2036,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-browser-engine-lockin-antitrust-pressure',
         text: 'Competition investigations and antitrust litigation describe Apple\'s browser-engine control and platform restrictions as barriers to browser competition and innovation.',
-        textDe: 'Wettbewerbsuntersuchungen und Antitrust-Verfahren beschreiben Apples Browser-Engine-Kontrolle und Plattformbeschraenkungen als Huerden fuer Browser-Wettbewerb und Innovation.',
+        localizedTexts: { de: 'Wettbewerbsuntersuchungen und Antitrust-Verfahren beschreiben Apples Browser-Engine-Kontrolle und Plattformbeschraenkungen als Huerden fuer Browser-Wettbewerb und Innovation.' },
         severity: 'major',
         date: '2025-03-12',
         sourceUrl: 'https://www.gov.uk/cma-cases/mobile-browsers-and-cloud-gaming',
@@ -2028,7 +2044,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-dma-breach-finding-2025',
         text: 'The European Commission announced in May 2025 that Apple breached Digital Markets Act obligations, adding regulatory volatility to Safari-relevant platform policy.',
-        textDe: 'Die Europaeische Kommission gab im Mai 2025 bekannt, dass Apple gegen Verpflichtungen des Digital Markets Act verstossen hat, was regulatorische Volatilitaet fuer Safari-relevante Plattformpolitik erhoeht.',
+        localizedTexts: { de: 'Die Europaeische Kommission gab im Mai 2025 bekannt, dass Apple gegen Verpflichtungen des Digital Markets Act verstossen hat, was regulatorische Volatilitaet fuer Safari-relevante Plattformpolitik erhoeht.' },
         severity: 'moderate',
         date: '2025-05-13',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-finds-apple-and-meta-breach-digital-markets-act',
@@ -2036,7 +2052,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-default-search-deal-incentive-structure',
         text: 'The DOJ complaint describes default-search distribution economics tied to Apple platform defaults, reinforcing incentives to preserve the Safari default-search status quo.',
-        textDe: 'Die DOJ-Klage beschreibt oekonomische Anreize aus Default-Search-Distribution im Zusammenhang mit Apple-Defaults und verstaerkt damit den Anreiz, den Safari-Default-Search-Status quo zu erhalten.',
+        localizedTexts: { de: 'Die DOJ-Klage beschreibt oekonomische Anreize aus Default-Search-Distribution im Zusammenhang mit Apple-Defaults und verstaerkt damit den Anreiz, den Safari-Default-Search-Status quo zu erhalten.' },
         severity: 'moderate',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/atr/media/1344606/dl?inline',
@@ -2044,7 +2060,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-doj-browser-restrictions-litigation-2024',
         text: 'The U.S. Department of Justice complaint alleges Apple used browser and app-distribution restrictions to maintain smartphone-market power, reinforcing governance risk for platform-dependent browser users.',
-        textDe: 'Die Klage des US-Justizministeriums wirft Apple vor, Browser- und App-Distributionsbeschraenkungen zur Absicherung von Marktmacht im Smartphone-Markt genutzt zu haben und verstaerkt damit Governance-Risiken fuer plattformabhaengige Browser-Nutzer.',
+        localizedTexts: { de: 'Die Klage des US-Justizministeriums wirft Apple vor, Browser- und App-Distributionsbeschraenkungen zur Absicherung von Marktmacht im Smartphone-Markt genutzt zu haben und verstaerkt damit Governance-Risiken fuer plattformabhaengige Browser-Nutzer.' },
         severity: 'moderate',
         date: '2024-03-21',
         sourceUrl: 'https://www.justice.gov/atr/case/us-and-plaintiff-states-v-apple-inc',
@@ -2052,7 +2068,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-eu-only-alternative-engine-regime-2024',
         text: 'Apple\'s 2024 EU changes for browser engines were introduced as region-specific compliance measures, signaling non-uniform global browser-policy conditions.',
-        textDe: 'Apples 2024er EU-Aenderungen fuer Browser-Engines wurden als regionsspezifische Compliance-Massnahmen eingefuehrt und signalisieren damit uneinheitliche globale Browser-Policy-Bedingungen.',
+        localizedTexts: { de: 'Apples 2024er EU-Aenderungen fuer Browser-Engines wurden als regionsspezifische Compliance-Massnahmen eingefuehrt und signalisieren damit uneinheitliche globale Browser-Policy-Bedingungen.' },
         severity: 'moderate',
         date: '2024-01-25',
         sourceUrl: 'https://www.apple.com/newsroom/2024/01/apple-announces-changes-to-ios-safari-and-the-app-store-in-the-european-union/',
@@ -2060,7 +2076,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-siri-privacy-settlement-2025',
         text: 'Apple agreed to a $95M Siri privacy settlement in 2025 over allegations of unintended voice capture, creating ecosystem-level trust drag for Apple\'s privacy positioning.',
-        textDe: 'Apple stimmte 2025 einem Siri-Privacy-Vergleich ueber 95 Mio. USD zu, nachdem unbeabsichtigte Sprachaufnahmen vorgeworfen wurden; das belastet die oekosystemweite Vertrauenspositionierung bei Privacy.',
+        localizedTexts: { de: 'Apple stimmte 2025 einem Siri-Privacy-Vergleich ueber 95 Mio. USD zu, nachdem unbeabsichtigte Sprachaufnahmen vorgeworfen wurden; das belastet die oekosystemweite Vertrauenspositionierung bei Privacy.' },
         severity: 'major',
         date: '2025-01-03',
         sourceUrl: 'https://www.cbsnews.com/news/siri-civil-lawsuit-settlement-apple-iphone-eavesdropping/',
@@ -2068,7 +2084,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'safari-analytics-and-suggestions-hardening-required',
         text: 'Safari privacy documentation describes configurable analytics and suggestion flows, meaning privacy-sensitive deployments need explicit hardening rather than unmanaged defaults.',
-        textDe: 'Die Safari-Privacy-Dokumentation beschreibt konfigurierbare Analytics- und Suggestion-Flows; datensensible Deployments benoetigen daher explizites Hardening statt ungemanagter Defaults.',
+        localizedTexts: { de: 'Die Safari-Privacy-Dokumentation beschreibt konfigurierbare Analytics- und Suggestion-Flows; datensensible Deployments benoetigen daher explizites Hardening statt ungemanagter Defaults.' },
         severity: 'moderate',
         sourceUrl: 'https://www.apple.com/legal/privacy/data/en/safari/',
       },
@@ -2078,27 +2094,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.2,
     description:
         'US-operated voice-assistant ecosystem with active security handling, but trust is heavily reduced by regulator-backed privacy failures, cloud-first data processing and training practices, third-party skill data-sharing exposure, and growing Alexa+ model dependency.',
-    descriptionDe:
-        'US-Voice-Assistant-Ökosystem mit aktivem Security-Handling, dessen Vertrauen jedoch durch regulatorisch belegte Privacy-Verstösse, cloudzentrierte Verarbeitungs- und Trainingspraktiken, Exposition bei Drittanbieter-Skills und die wachsende Alexa+-Modellabhängigkeit deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Voice-Assistant-Ökosystem mit aktivem Security-Handling, dessen Vertrauen jedoch durch regulatorisch belegte Privacy-Verstösse, cloudzentrierte Verarbeitungs- und Trainingspraktiken, Exposition bei Drittanbieter-Skills und die wachsende Alexa+-Modellabhängigkeit deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'alexa-cloud-service-voice-processing-by-design',
         text: 'Amazon states that Alexa is a cloud service and that request recordings are sent to Amazon\'s cloud for processing, keeping core functionality cloud-dependent.',
-        textDe: 'Amazon gibt an, dass Alexa ein Cloud-Dienst ist und Anfragen als Aufnahmen zur Verarbeitung in die Amazon-Cloud gesendet werden, wodurch Kernfunktionen cloudabhängig bleiben.',
+        localizedTexts: { de: 'Amazon gibt an, dass Alexa ein Cloud-Dienst ist und Anfragen als Aufnahmen zur Verarbeitung in die Amazon-Cloud gesendet werden, wodurch Kernfunktionen cloudabhängig bleiben.' },
         severity: 'major',
         sourceUrl: 'https://digprjsurvey.amazon.co.uk/csad/help/node/GVP69FUJ48X9DK8V',
       },
       {
         id: 'alexa-voice-requests-used-for-ml-training',
         text: 'Amazon states Alexa requests are used to train speech-recognition and language-understanding systems, including supervised learning with human review of a small sample.',
-        textDe: 'Amazon erklärt, dass Alexa-Anfragen zum Training von Sprach- und Sprachverstehenssystemen genutzt werden, einschliesslich überwachtem Lernen mit menschlicher Prüfung einer kleinen Stichprobe.',
+        localizedTexts: { de: 'Amazon erklärt, dass Alexa-Anfragen zum Training von Sprach- und Sprachverstehenssystemen genutzt werden, einschliesslich überwachtem Lernen mit menschlicher Prüfung einer kleinen Stichprobe.' },
         severity: 'major',
         sourceUrl: 'https://digprjsurvey.amazon.co.uk/csad/help/node/GVP69FUJ48X9DK8V',
       },
       {
         id: 'alexa-ftc-coppa-order-2023',
         text: 'The FTC/DOJ action in 2023 required Amazon to pay $25M and delete children\'s Alexa voice data over COPPA allegations, indicating a major regulator-backed privacy failure.',
-        textDe: 'Die FTC/DOJ-Massnahme von 2023 verpflichtete Amazon zu 25 Mio. USD Zahlung und zur Löschung von Kinder-Sprachdaten aus Alexa wegen COPPA-Vorwürfen und markiert ein schweres regulatorisch belegtes Privacy-Versagen.',
+        localizedTexts: { de: 'Die FTC/DOJ-Massnahme von 2023 verpflichtete Amazon zu 25 Mio. USD Zahlung und zur Löschung von Kinder-Sprachdaten aus Alexa wegen COPPA-Vorwürfen und markiert ein schweres regulatorisch belegtes Privacy-Versagen.' },
         severity: 'major',
         date: '2023-05-31',
         sourceUrl: 'https://www.ftc.gov/news-events/news/press-releases/2023/05/ftc-doj-charge-amazon-violating-childrens-privacy-law-keeping-kids-alexa-voice-recordings-forever',
@@ -2106,7 +2123,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-local-processing-option-removed-2025',
         text: 'Amazon removed the "Do Not Send Voice Recordings" local-processing option for some Echo devices in March 2025, increasing mandatory cloud-processing exposure.',
-        textDe: 'Amazon entfernte im März 2025 für bestimmte Echo-Geräte die lokale Option "Do Not Send Voice Recordings", wodurch die verpflichtende Cloud-Verarbeitungsexposition stieg.',
+        localizedTexts: { de: 'Amazon entfernte im März 2025 für bestimmte Echo-Geräte die lokale Option "Do Not Send Voice Recordings", wodurch die verpflichtende Cloud-Verarbeitungsexposition stieg.' },
         severity: 'major',
         date: '2025-03-14',
         sourceUrl: 'https://www.theverge.com/news/630049/amazon-echo-discontinues-do-not-send-voice-recording-setting',
@@ -2114,7 +2131,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-privacy-setting-feature-tradeoff-2025',
         text: 'Reporting on the 2025 Alexa change noted that stricter recording settings can disable Voice ID features, creating privacy-versus-functionality tradeoff pressure.',
-        textDe: 'Berichte zur Alexa-Änderung 2025 nennen, dass strengere Recording-Einstellungen Voice-ID-Funktionen deaktivieren können und damit Privacy-versus-Functionality-Druck erzeugen.',
+        localizedTexts: { de: 'Berichte zur Alexa-Änderung 2025 nennen, dass strengere Recording-Einstellungen Voice-ID-Funktionen deaktivieren können und damit Privacy-versus-Functionality-Druck erzeugen.' },
         severity: 'moderate',
         date: '2025-03-14',
         sourceUrl: 'https://apnews.com/article/7fb3c19fa7f664bde5c5be259f8b23ee',
@@ -2122,7 +2139,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-human-audio-review-history',
         text: 'Bloomberg reported that Amazon teams reviewed selected Alexa recordings for quality improvement, highlighting long-running accountability risk for always-on home microphones.',
-        textDe: 'Bloomberg berichtete, dass Amazon-Teams ausgewählte Alexa-Aufnahmen zur Qualitätsverbesserung prüften, was ein langlaufendes Accountability-Risiko bei Always-on-Heimmikrofonen zeigt.',
+        localizedTexts: { de: 'Bloomberg berichtete, dass Amazon-Teams ausgewählte Alexa-Aufnahmen zur Qualitätsverbesserung prüften, was ein langlaufendes Accountability-Risiko bei Always-on-Heimmikrofonen zeigt.' },
         severity: 'major',
         date: '2019-04-10',
         sourceUrl: 'https://www.bloomberg.com/news/articles/2019-04-10/is-anyone-listening-to-you-on-alexa-a-global-team-reviews-audio',
@@ -2130,7 +2147,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-class-action-recording-litigation',
         text: 'US class-action litigation over Alexa recording and consent disclosures has remained active over multiple years, reinforcing unresolved transparency and consent risk.',
-        textDe: 'US-Sammelklagen zu Alexa-Aufzeichnungen und Einwilligungshinweisen liefen über mehrere Jahre weiter und verstärken damit ungeloste Transparenz- und Consent-Risiken.',
+        localizedTexts: { de: 'US-Sammelklagen zu Alexa-Aufzeichnungen und Einwilligungshinweisen liefen über mehrere Jahre weiter und verstärken damit ungeloste Transparenz- und Consent-Risiken.' },
         severity: 'moderate',
         date: '2022-11-09',
         sourceUrl: 'https://law.justia.com/cases/federal/district-courts/washington/wawdce/2%3A2021cv00750/300264/91/',
@@ -2138,42 +2155,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-skill-ecosystem-policy-violation-risk',
         text: 'Independent research found widespread policy-violating patterns in Alexa Skills, indicating meaningful third-party ecosystem governance risk.',
-        textDe: 'Unabhängige Forschung fand verbreitete Policy-verletzende Muster im Alexa-Skill-Ökosystem und zeigt damit ein relevantes Governance-Risiko durch Drittanbieter.',
+        localizedTexts: { de: 'Unabhängige Forschung fand verbreitete Policy-verletzende Muster im Alexa-Skill-Ökosystem und zeigt damit ein relevantes Governance-Risiko durch Drittanbieter.' },
         severity: 'major',
         sourceUrl: 'https://www.ndss-symposium.org/ndss-paper/hey-alexa-is-this-skill-safe-taking-a-closer-look-at-the-alexa-skill-ecosystem/',
       },
       {
         id: 'alexa-web-api-voice-history-exposure-cve-2022-25809',
         text: 'CVE-2022-25809 documented a vulnerability in Alexa APIs that could enable unauthorized access to user personal information and voice history before remediation.',
-        textDe: 'CVE-2022-25809 dokumentierte eine Schwachstelle in Alexa-APIs, die vor der Behebung unautorisierten Zugriff auf personenbezogene Daten und Sprachhistorie erlauben konnte.',
+        localizedTexts: { de: 'CVE-2022-25809 dokumentierte eine Schwachstelle in Alexa-APIs, die vor der Behebung unautorisierten Zugriff auf personenbezogene Daten und Sprachhistorie erlauben konnte.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2022-25809',
       },
       {
         id: 'alexa-transcript-retention-and-residual-action-logs',
         text: 'Amazon states that if users choose not to save voice recordings, text transcripts can still be retained for up to 30 days and records of Alexa actions may still be retained.',
-        textDe: 'Amazon erklärt, dass bei aktivierter Einstellung zum Nicht-Speichern von Sprachaufnahmen Texttranskripte dennoch bis zu 30 Tage gespeichert werden können und Aufzeichnungen über Alexa-Aktionen bestehen bleiben können.',
+        localizedTexts: { de: 'Amazon erklärt, dass bei aktivierter Einstellung zum Nicht-Speichern von Sprachaufnahmen Texttranskripte dennoch bis zu 30 Tage gespeichert werden können und Aufzeichnungen über Alexa-Aktionen bestehen bleiben können.' },
         severity: 'major',
         sourceUrl: 'https://digprjsurvey.amazon.co.uk/csad/help/node/GVP69FUJ48X9DK8V',
       },
       {
         id: 'alexa-third-party-skill-data-sharing',
         text: 'Amazon states that third-party Alexa skills receive request content (and optionally location data when granted), and resulting data handling is governed by developer privacy practices.',
-        textDe: 'Amazon gibt an, dass Drittanbieter-Skills Inhaltsdaten von Anfragen erhalten (und bei Freigabe auch Standortdaten), wobei die weitere Verarbeitung den Datenschutzpraktiken der Entwickler unterliegt.',
+        localizedTexts: { de: 'Amazon gibt an, dass Drittanbieter-Skills Inhaltsdaten von Anfragen erhalten (und bei Freigabe auch Standortdaten), wobei die weitere Verarbeitung den Datenschutzpraktiken der Entwickler unterliegt.' },
         severity: 'major',
         sourceUrl: 'https://digprjsurvey.amazon.co.uk/csad/help/node/GVP69FUJ48X9DK8V',
       },
       {
         id: 'alexa-self-issuing-voice-command-risk',
         text: 'Academic work demonstrated "self-issuing" voice-command attacks against Alexa and Google Home, showing non-trivial assistant attack surface beyond normal user intent.',
-        textDe: 'Wissenschaftliche Arbeiten demonstrierten "self-issuing"-Voice-Command-Angriffe gegen Alexa und Google Home und zeigen eine nicht triviale Assistant-Angriffsfläche jenseits normaler Nutzerintention.',
+        localizedTexts: { de: 'Wissenschaftliche Arbeiten demonstrierten "self-issuing"-Voice-Command-Angriffe gegen Alexa und Google Home und zeigen eine nicht triviale Assistant-Angriffsfläche jenseits normaler Nutzerintention.' },
         severity: 'moderate',
         sourceUrl: 'https://arxiv.org/abs/2202.08619',
       },
       {
         id: 'alexa-plus-third-party-llm-dependency',
         text: 'Alexa+ launch materials confirm Anthropic Claude integration, increasing dependency on third-party frontier-model infrastructure for core assistant behavior.',
-        textDe: 'Alexa+-Launch-Unterlagen bestätigen die Integration von Anthropic Claude und erhöhen damit die Abhängigkeit von Drittanbieter-Frontier-Modell-Infrastruktur für Kernverhalten des Assistenten.',
+        localizedTexts: { de: 'Alexa+-Launch-Unterlagen bestätigen die Integration von Anthropic Claude und erhöhen damit die Abhängigkeit von Drittanbieter-Frontier-Modell-Infrastruktur für Kernverhalten des Assistenten.' },
         severity: 'moderate',
         date: '2025-02-26',
         sourceUrl: 'https://www.anthropic.com/news/claude-and-alexa-plus',
@@ -2181,7 +2198,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-plus-pricing-and-feature-volatility-2025',
         text: 'Alexa+ introduced a $19.99/month list price for non-Prime users and launched with some missing features in early access, reducing cost and roadmap predictability.',
-        textDe: 'Alexa+ führte für Nicht-Prime-Nutzer einen Listenpreis von 19,99 USD/Monat ein und startete im Early Access mit teils fehlenden Funktionen, was Kosten- und Roadmap-Planbarkeit reduziert.',
+        localizedTexts: { de: 'Alexa+ führte für Nicht-Prime-Nutzer einen Listenpreis von 19,99 USD/Monat ein und startete im Early Access mit teils fehlenden Funktionen, was Kosten- und Roadmap-Planbarkeit reduziert.' },
         severity: 'moderate',
         date: '2025-02-26',
         sourceUrl: 'https://www.cnbc.com/2025/02/26/amazon-unveils-long-awaited-alexa-revamped-with-ai-features.html',
@@ -2189,7 +2206,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-plus-early-access-feature-gaps-2025',
         text: 'The Verge reported that early Alexa+ access launched without several announced capabilities, signaling rollout maturity and reliability volatility during the transition.',
-        textDe: 'The Verge berichtete, dass Alexa+ im Early Access ohne mehrere angekündigte Funktionen startete, was auf Volatilität bei Rollout-Reife und Zuverlässigkeit während der Umstellung hinweist.',
+        localizedTexts: { de: 'The Verge berichtete, dass Alexa+ im Early Access ohne mehrere angekündigte Funktionen startete, was auf Volatilität bei Rollout-Reife und Zuverlässigkeit während der Umstellung hinweist.' },
         severity: 'moderate',
         date: '2025-03-31',
         sourceUrl: 'https://www.theverge.com/news/639697/amazon-alexa-plus-launch-early-access-missing-features',
@@ -2197,7 +2214,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-division-layoffs-2023',
         text: 'Amazon cut several hundred jobs in the Alexa organization in late 2023, signaling execution and support-capacity churn risk during a major product transition.',
-        textDe: 'Amazon strich Ende 2023 mehrere hundert Stellen in der Alexa-Organisation, was während einer grossen Produktumstellung auf Risiken bei Umsetzung und Support-Kapazität hinweist.',
+        localizedTexts: { de: 'Amazon strich Ende 2023 mehrere hundert Stellen in der Alexa-Organisation, was während einer grossen Produktumstellung auf Risiken bei Umsetzung und Support-Kapazität hinweist.' },
         severity: 'moderate',
         date: '2023-11-17',
         sourceUrl: 'https://www.cnbc.com/2023/11/17/amazon-cuts-several-hundred-jobs-in-alexa-division.html',
@@ -2205,14 +2222,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'alexa-no-public-alexa-specific-soc-attestation',
         text: 'AWS provides SOC reporting at infrastructure level, but no publicly verifiable Alexa-specific SOC attestation artifact is published, limiting product-level assurance transparency.',
-        textDe: 'AWS stellt SOC-Reporting auf Infrastruktur-Ebene bereit, jedoch ist kein öffentlich verifizierbares Alexa-spezifisches SOC-Attestierungsartefakt veröffentlicht, was die produktbezogene Assurance-Transparenz begrenzt.',
+        localizedTexts: { de: 'AWS stellt SOC-Reporting auf Infrastruktur-Ebene bereit, jedoch ist kein öffentlich verifizierbares Alexa-spezifisches SOC-Attestierungsartefakt veröffentlicht, was die produktbezogene Assurance-Transparenz begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/soc-faqs/',
       },
       {
         id: 'alexa-us-legal-process-exposure',
         text: 'US law (18 U.S.C. 2713) can compel providers to disclose customer data under their control regardless of storage location, limiting strict sovereignty guarantees for US-headquartered voice ecosystems.',
-        textDe: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhängig vom Speicherort verpflichten und begrenzt damit strikte Souveränitätszusagen bei US-Hauptsitz-Voice-Ökosystemen.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhängig vom Speicherort verpflichten und begrenzt damit strikte Souveränitätszusagen bei US-Hauptsitz-Voice-Ökosystemen.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
@@ -2222,13 +2239,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 1.9,
     description:
         'US-operated e-commerce marketplace with large operational scale, but trust remains low due to repeated major enforcement outcomes, contract-power asymmetries, and persistent marketplace-integrity risks around fake listings/reviews and seller dependency.',
-    descriptionDe:
-        'US-E-Commerce-Marktplatz mit grosser operativer Skalierung, dessen Vertrauen jedoch wegen wiederholter schwerer Enforcement-Ergebnisse, vertraglicher Machtasymmetrien und anhaltender Marketplace-Integritaetsrisiken bei Fake-Listings/-Reviews sowie Seller-Abhaengigkeit niedrig bleibt.',
+    localizedDescriptions: {
+      de: 'US-E-Commerce-Marktplatz mit grosser operativer Skalierung, dessen Vertrauen jedoch wegen wiederholter schwerer Enforcement-Ergebnisse, vertraglicher Machtasymmetrien und anhaltender Marketplace-Integritaetsrisiken bei Fake-Listings/-Reviews sowie Seller-Abhaengigkeit niedrig bleibt.',
+    },
     reservations: [
       {
         id: 'amazon-shop-prime-dark-patterns-settlement-2025',
         text: 'Amazon paid a $2.5B U.S. settlement in 2025 over Prime sign-up/cancellation dark-pattern allegations, signaling a major consumer-protection and consent-governance failure.',
-        textDe: 'Amazon zahlte 2025 in den USA einen Vergleich ueber 2,5 Mrd. USD zu Dark-Pattern-Vorwuerfen bei Prime-Anmeldung/-Kuendigung; das signalisiert ein schweres Verbraucherschutz- und Consent-Governance-Versagen.',
+        localizedTexts: { de: 'Amazon zahlte 2025 in den USA einen Vergleich ueber 2,5 Mrd. USD zu Dark-Pattern-Vorwuerfen bei Prime-Anmeldung/-Kuendigung; das signalisiert ein schweres Verbraucherschutz- und Consent-Governance-Versagen.' },
         severity: 'major',
         date: '2025-09-25',
         sourceUrl: 'https://www.wired.com/story/amazon-ftc-settlement-prime-dark-patterns/',
@@ -2236,7 +2254,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-cnpd-gdpr-fine-upheld-2025',
         text: 'Luxembourg\'s CNPD states its EUR 746M GDPR sanction against Amazon Europe Core was confirmed by the Administrative Court, reinforcing a major privacy-governance finding.',
-        textDe: 'Die luxemburgische CNPD erklaert, dass ihre DSGVO-Sanktion ueber 746 Mio. EUR gegen Amazon Europe Core vom Verwaltungsgericht bestaetigt wurde; das verstaerkt einen schweren Privacy-Governance-Befund.',
+        localizedTexts: { de: 'Die luxemburgische CNPD erklaert, dass ihre DSGVO-Sanktion ueber 746 Mio. EUR gegen Amazon Europe Core vom Verwaltungsgericht bestaetigt wurde; das verstaerkt einen schweren Privacy-Governance-Befund.' },
         severity: 'major',
         date: '2025-03-19',
         sourceUrl: 'https://cnpd.public.lu/en/actualites/national/2025/03/amazon-decision.html',
@@ -2244,7 +2262,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-prime-price-adjustment-clause-invalid-germany-2025',
         text: 'Consumer protection reporting confirms Amazon failed on appeal in 2025 over Prime price-adjustment terms in Germany, showing court-backed contract-governance weakness.',
-        textDe: 'Verbraucherschutz-Berichte bestaetigen, dass Amazon 2025 mit der Berufung zu Prime-Preisanpassungsklauseln in Deutschland scheiterte; das zeigt eine gerichtlich gestuetzte Vertrags-Governance-Schwachstelle.',
+        localizedTexts: { de: 'Verbraucherschutz-Berichte bestaetigen, dass Amazon 2025 mit der Berufung zu Prime-Preisanpassungsklauseln in Deutschland scheiterte; das zeigt eine gerichtlich gestuetzte Vertrags-Governance-Schwachstelle.' },
         severity: 'major',
         date: '2025-08-26',
         sourceUrl: 'https://www.verbraucherzentrale.nrw/pressemeldungen/digitale-welt/amazon-scheitert-mit-berufung-112109',
@@ -2252,14 +2270,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-us-legal-process-exposure',
         text: 'As a US-headquartered operator, Amazon can be compelled under 18 U.S.C. 2713 to disclose data under its control regardless of storage location, limiting strict sovereignty guarantees.',
-        textDe: 'Als Betreiber mit US-Hauptsitz kann Amazon unter 18 U.S.C. 2713 zur Offenlegung kontrollierter Daten unabhaengig vom Speicherort verpflichtet werden und begrenzt damit strikte Souveraenitaetszusagen.',
+        localizedTexts: { de: 'Als Betreiber mit US-Hauptsitz kann Amazon unter 18 U.S.C. 2713 zur Offenlegung kontrollierter Daten unabhaengig vom Speicherort verpflichtet werden und begrenzt damit strikte Souveraenitaetszusagen.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'amazon-shop-ftc-antitrust-monopolization-case-2023',
         text: 'The FTC and multiple U.S. states filed monopolization litigation against Amazon in 2023 over marketplace conduct, signaling unresolved structural competition risk for merchants.',
-        textDe: 'Die FTC und mehrere US-Bundesstaaten reichten 2023 ein Monopolisierungsverfahren gegen Amazon zu Marketplace-Praktiken ein; das signalisiert ein ungelostes strukturelles Wettbewerbsrisiko fuer Haendler.',
+        localizedTexts: { de: 'Die FTC und mehrere US-Bundesstaaten reichten 2023 ein Monopolisierungsverfahren gegen Amazon zu Marketplace-Praktiken ein; das signalisiert ein ungelostes strukturelles Wettbewerbsrisiko fuer Haendler.' },
         severity: 'moderate',
         date: '2023-09-26',
         sourceUrl: 'https://www.ftc.gov/news-events/news/press-releases/2023/09/ftc-sues-amazon-monopolizing-online-superstore-market-using-exclusionary-conduct',
@@ -2267,7 +2285,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-dsa-vlop-information-request-2024',
         text: 'The European Commission issued formal DSA information requests to Amazon Store over recommender-system transparency and ad repository obligations, reflecting ongoing compliance pressure.',
-        textDe: 'Die Europaeische Kommission stellte dem Amazon Store formelle DSA-Informationsanfragen zu Recommender-Transparenz und Werberegisterpflichten; das zeigt anhaltenden Compliance-Druck.',
+        localizedTexts: { de: 'Die Europaeische Kommission stellte dem Amazon Store formelle DSA-Informationsanfragen zu Recommender-Transparenz und Werberegisterpflichten; das zeigt anhaltenden Compliance-Druck.' },
         severity: 'moderate',
         date: '2024-07-11',
         sourceUrl: 'https://ec.europa.eu/commission/presscorner/detail/en/ip_24_3904',
@@ -2275,7 +2293,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-eu-competition-remedies-seller-data-buy-box-2022',
         text: 'The EU accepted binding commitments from Amazon on seller-data use and Buy Box ranking, indicating regulators required structural remedies for marketplace fairness.',
-        textDe: 'Die EU akzeptierte verbindliche Zusagen von Amazon zu Seller-Datennutzung und Buy-Box-Ranking; das zeigt, dass Regulatoren strukturelle Abhilfen fuer Marketplace-Fairness fuer noetig hielten.',
+        localizedTexts: { de: 'Die EU akzeptierte verbindliche Zusagen von Amazon zu Seller-Datennutzung und Buy-Box-Ranking; das zeigt, dass Regulatoren strukturelle Abhilfen fuer Marketplace-Fairness fuer noetig hielten.' },
         severity: 'moderate',
         date: '2022-12-20',
         sourceUrl: 'https://ec.europa.eu/commission/presscorner/detail/en/IP_22_7777',
@@ -2283,21 +2301,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-vlop-designation-eu-systemic-risk-obligations',
         text: 'Amazon Store is designated as a VLOP under the EU DSA, placing it under heightened systemic-risk obligations and sustained regulatory scrutiny.',
-        textDe: 'Der Amazon Store ist unter dem EU-DSA als VLOP designiert und unterliegt dadurch erhoehten Pflichten zu systemischen Risiken sowie anhaltender regulatorischer Aufsicht.',
+        localizedTexts: { de: 'Der Amazon Store ist unter dem EU-DSA als VLOP designiert und unterliegt dadurch erhoehten Pflichten zu systemischen Risiken sowie anhaltender regulatorischer Aufsicht.' },
         severity: 'moderate',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/policies/list-designated-vlops-and-vloses',
       },
       {
         id: 'amazon-shop-broad-materials-license-conditions-of-use',
         text: 'Amazon Conditions of Use grant broad, worldwide, sublicensable rights over submitted materials, increasing contractual asymmetry for merchants and content contributors.',
-        textDe: 'Die Amazon-Conditions-of-Use gewaehren breite, weltweite und unterlizenzierbare Rechte an eingereichten Inhalten und erhoehen damit die vertragliche Asymmetrie fuer Haendler und Content-Beitragende.',
+        localizedTexts: { de: 'Die Amazon-Conditions-of-Use gewaehren breite, weltweite und unterlizenzierbare Rechte an eingereichten Inhalten und erhoehen damit die vertragliche Asymmetrie fuer Haendler und Content-Beitragende.' },
         severity: 'moderate',
         sourceUrl: 'https://www.amazon.com/gp/help/customer/display.html?nodeId=201909000',
       },
       {
         id: 'amazon-shop-fake-review-fraud-broker-ecosystem',
         text: 'Amazon publicly describes active legal action against fake-review brokers, confirming systemic manipulation pressure in marketplace trust signals.',
-        textDe: 'Amazon beschreibt oeffentlich laufende rechtliche Schritte gegen Fake-Review-Broker und bestaetigt damit systemischen Manipulationsdruck auf Marketplace-Vertrauenssignale.',
+        localizedTexts: { de: 'Amazon beschreibt oeffentlich laufende rechtliche Schritte gegen Fake-Review-Broker und bestaetigt damit systemischen Manipulationsdruck auf Marketplace-Vertrauenssignale.' },
         severity: 'moderate',
         date: '2022-10-18',
         sourceUrl: 'https://www.aboutamazon.com/news/policy-news-views/amazon-targets-fake-review-fraudsters-on-social-media',
@@ -2305,7 +2323,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-fake-review-underground-market-risk',
         text: 'Wired reporting documented a sustained underground market for fake Amazon reviews, increasing buyer-verification and product-quality risk.',
-        textDe: 'Wired-Berichte dokumentierten einen anhaltenden Untergrundmarkt fuer gefaelschte Amazon-Reviews und erhoehen damit Verifikations- und Produktqualitaetsrisiken fuer Kaeufer.',
+        localizedTexts: { de: 'Wired-Berichte dokumentierten einen anhaltenden Untergrundmarkt fuer gefaelschte Amazon-Reviews und erhoehen damit Verifikations- und Produktqualitaetsrisiken fuer Kaeufer.' },
         severity: 'moderate',
         date: '2022-06-26',
         sourceUrl: 'https://www.wired.com/story/fake-amazon-reviews-underground-market/',
@@ -2313,7 +2331,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-fake-discount-and-unvetted-listing-consumer-risk',
         text: 'Wired reporting on marketplace product categories describes persistent fake-discount and low-quality listing patterns that weaken trust in seller and product authenticity.',
-        textDe: 'Wired-Berichte zu Marketplace-Produktkategorien beschreiben anhaltende Muster bei Fake-Discounts und minderwertigen Listings, was das Vertrauen in Seller- und Produktauthentizitaet schwaecht.',
+        localizedTexts: { de: 'Wired-Berichte zu Marketplace-Produktkategorien beschreiben anhaltende Muster bei Fake-Discounts und minderwertigen Listings, was das Vertrauen in Seller- und Produktauthentizitaet schwaecht.' },
         severity: 'moderate',
         date: '2023-06-22',
         sourceUrl: 'https://www.wired.com/story/bug-zappers-are-swarming-on-amazon/',
@@ -2321,7 +2339,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-third-party-vendor-employee-data-leak-2024',
         text: 'A 2024 third-party vendor incident exposed Amazon employee contact and work-location data, showing supply-chain exposure outside the core customer database.',
-        textDe: 'Ein Drittanbieter-Vorfall 2024 legte Kontakt- und Arbeitsortdaten von Amazon-Mitarbeitenden offen und zeigt Supply-Chain-Exposition ausserhalb der Kern-Kundendatenbank.',
+        localizedTexts: { de: 'Ein Drittanbieter-Vorfall 2024 legte Kontakt- und Arbeitsortdaten von Amazon-Mitarbeitenden offen und zeigt Supply-Chain-Exposition ausserhalb der Kern-Kundendatenbank.' },
         severity: 'moderate',
         date: '2024-11-11',
         sourceUrl: 'https://www.theverge.com/2024/11/11/24293817/amazon-employee-emails-phone-numbers-moveit-data-breach',
@@ -2329,28 +2347,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amazon-shop-sp-api-support-case-redirection-transparency-friction',
         text: 'In SP-API issue handling, Amazon staff frequently redirect debugging to private support cases, which can reduce public troubleshooting transparency for sellers and integrators.',
-        textDe: 'Bei SP-API-Issues verweisen Amazon-Mitarbeitende Debugging haeufig auf private Support-Cases, was die oeffentliche Troubleshooting-Transparenz fuer Seller und Integratoren reduzieren kann.',
+        localizedTexts: { de: 'Bei SP-API-Issues verweisen Amazon-Mitarbeitende Debugging haeufig auf private Support-Cases, was die oeffentliche Troubleshooting-Transparenz fuer Seller und Integratoren reduzieren kann.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/amzn/selling-partner-api-models/issues/4757',
       },
       {
         id: 'amazon-shop-amazon-de-low-trustpilot-sentiment-signal',
         text: 'Trustpilot snapshot data for amazon.de indicates persistently low user sentiment, adding support-quality and dispute-resolution risk signals.',
-        textDe: 'Trustpilot-Snapshotdaten fuer amazon.de zeigen anhaltend niedriges Nutzer-Sentiment und liefern zusaetzliche Risikoindikatoren fuer Support-Qualitaet und Streitfallbehandlung.',
+        localizedTexts: { de: 'Trustpilot-Snapshotdaten fuer amazon.de zeigen anhaltend niedriges Nutzer-Sentiment und liefern zusaetzliche Risikoindikatoren fuer Support-Qualitaet und Streitfallbehandlung.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/www.amazon.de',
       },
       {
         id: 'amazon-shop-sellercentral-low-trustpilot-sentiment-signal',
         text: 'Trustpilot snapshot data for Seller Central indicates strongly negative seller sentiment, supporting lock-in and account-governance risk concerns for merchants.',
-        textDe: 'Trustpilot-Snapshotdaten fuer Seller Central zeigen stark negatives Seller-Sentiment und stuetzen damit Lock-in- sowie Account-Governance-Risikobedenken fuer Haendler.',
+        localizedTexts: { de: 'Trustpilot-Snapshotdaten fuer Seller Central zeigen stark negatives Seller-Sentiment und stuetzen damit Lock-in- sowie Account-Governance-Risikobedenken fuer Haendler.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/sellercentral.amazon.com',
       },
       {
         id: 'amazon-shop-retail-assurance-transparency-gap-vs-aws',
         text: 'Public SOC artifact guidance is clear for AWS infrastructure, but equivalent Amazon Retail assurance artifacts are less directly verifiable in public form.',
-        textDe: 'Oeffentliche SOC-Hinweise sind fuer AWS-Infrastruktur klar, waehrend vergleichbare Assurance-Artefakte fuer Amazon Retail in oeffentlicher Form weniger direkt verifizierbar sind.',
+        localizedTexts: { de: 'Oeffentliche SOC-Hinweise sind fuer AWS-Infrastruktur klar, waehrend vergleichbare Assurance-Artefakte fuer Amazon Retail in oeffentlicher Form weniger direkt verifizierbar sind.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/soc-faqs/',
       },
@@ -2360,62 +2378,63 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.2,
     description:
         'US-operated neural machine translation API with strong AWS security/compliance scaffolding and enterprise-grade integration maturity, but trust is reduced by default AI-content service-improvement use (opt-out required), potential cross-region content handling for those workflows, and standard US-jurisdiction and contract-exit constraints.',
-    descriptionDe:
-        'US-betriebene neuronale Uebersetzungs-API mit starker AWS-Security-/Compliance-Basis und reifer Enterprise-Integration, deren Vertrauen jedoch durch standardmaessige KI-Content-Nutzung zur Serviceverbesserung (Opt-out erforderlich), moegliche Cross-Region-Content-Verarbeitung fuer diese Workflows sowie typische US-Jurisdiktions- und Vertrags-Exit-Grenzen sinkt.',
+    localizedDescriptions: {
+      de: 'US-betriebene neuronale Uebersetzungs-API mit starker AWS-Security-/Compliance-Basis und reifer Enterprise-Integration, deren Vertrauen jedoch durch standardmaessige KI-Content-Nutzung zur Serviceverbesserung (Opt-out erforderlich), moegliche Cross-Region-Content-Verarbeitung fuer diese Workflows sowie typische US-Jurisdiktions- und Vertrags-Exit-Grenzen sinkt.',
+    },
     reservations: [
       {
         id: 'aws-translate-us-legal-process-exposure',
         text: 'US law (18 U.S.C. 2713) can compel providers to disclose customer data under their control regardless of storage location, limiting strict sovereignty guarantees for US-headquartered translation services.',
-        textDe: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhaengig vom Speicherort verpflichten und begrenzt damit strikte Souveraenitaetszusagen bei US-Hauptsitz-Uebersetzungsdiensten.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhaengig vom Speicherort verpflichten und begrenzt damit strikte Souveraenitaetszusagen bei US-Hauptsitz-Uebersetzungsdiensten.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'aws-translate-ai-content-improvement-default-opt-out',
         text: 'AWS AI Service Terms state that AI content may be used and retained for service-improvement workflows unless organizations explicitly enforce opt-out policies.',
-        textDe: 'Die AWS-KI-Servicebedingungen nennen, dass KI-Inhalte fuer Service-Improvement-Workflows genutzt und gespeichert werden koennen, sofern Organisationen keine expliziten Opt-out-Policies durchsetzen.',
+        localizedTexts: { de: 'Die AWS-KI-Servicebedingungen nennen, dass KI-Inhalte fuer Service-Improvement-Workflows genutzt und gespeichert werden koennen, sofern Organisationen keine expliziten Opt-out-Policies durchsetzen.' },
         severity: 'major',
         sourceUrl: 'https://aws.amazon.com/service-terms/',
       },
       {
         id: 'aws-translate-ai-content-cross-region-storage-risk',
         text: 'AWS documents that AI service-improvement content handling can involve storage in other AWS regions unless AI opt-out controls are configured.',
-        textDe: 'AWS dokumentiert, dass die Verarbeitung von Inhalten fuer KI-Service-Improvement eine Speicherung in anderen AWS-Regionen umfassen kann, sofern keine KI-Opt-out-Kontrollen konfiguriert sind.',
+        localizedTexts: { de: 'AWS dokumentiert, dass die Verarbeitung von Inhalten fuer KI-Service-Improvement eine Speicherung in anderen AWS-Regionen umfassen kann, sofern keine KI-Opt-out-Kontrollen konfiguriert sind.' },
         severity: 'major',
         sourceUrl: 'https://docs.aws.amazon.com/organizations/latest/userguide/orgs_manage_policies_ai-opt-out.html',
       },
       {
         id: 'aws-translate-faq-training-language-risk',
         text: 'Amazon Translate FAQs explicitly state that text inputs may be stored and used to improve and develop translation quality and related AI technologies, which is a governance risk for sensitive-content workflows.',
-        textDe: 'Die Amazon-Translate-FAQs nennen explizit, dass Texteingaben gespeichert und zur Verbesserung sowie Weiterentwicklung der Uebersetzungsqualitaet und verwandter KI-Technologien genutzt werden koennen; fuer sensible Content-Workflows ist das ein Governance-Risiko.',
+        localizedTexts: { de: 'Die Amazon-Translate-FAQs nennen explizit, dass Texteingaben gespeichert und zur Verbesserung sowie Weiterentwicklung der Uebersetzungsqualitaet und verwandter KI-Technologien genutzt werden koennen; fuer sensible Content-Workflows ist das ein Governance-Risiko.' },
         severity: 'major',
         sourceUrl: 'https://aws.amazon.com/translate/faqs/',
       },
       {
         id: 'aws-translate-diagnostic-log-sensitive-identifiers-risk',
         text: 'AWS Translate data-protection guidance warns that sensitive identifiers should never be sent in free-form fields because submitted data can be picked up in diagnostic logs.',
-        textDe: 'Die AWS-Translate-Datenschutzdokumentation warnt, dass sensible Identifikatoren nie in Freitextfeldern gesendet werden sollten, weil uebermittelte Daten in Diagnose-Logs aufgenommen werden koennen.',
+        localizedTexts: { de: 'Die AWS-Translate-Datenschutzdokumentation warnt, dass sensible Identifikatoren nie in Freitextfeldern gesendet werden sollten, weil uebermittelte Daten in Diagnose-Logs aufgenommen werden koennen.' },
         severity: 'major',
         sourceUrl: 'https://docs.aws.amazon.com/translate/latest/dg/data-protection.html',
       },
       {
         id: 'aws-translate-service-credit-limitations',
         text: 'The language-services SLA compensates through service credits under uptime thresholds, which does not fully offset operational impact for business-critical translation pipelines.',
-        textDe: 'Die Language-Services-SLA kompensiert bei Unterschreitung von Uptime-Schwellen per Service-Credits, was operative Auswirkungen auf geschaeftskritische Uebersetzungs-Pipelines nicht vollstaendig ausgleicht.',
+        localizedTexts: { de: 'Die Language-Services-SLA kompensiert bei Unterschreitung von Uptime-Schwellen per Service-Credits, was operative Auswirkungen auf geschaeftskritische Uebersetzungs-Pipelines nicht vollstaendig ausgleicht.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/machine-learning/language-services/sla/',
       },
       {
         id: 'aws-translate-sync-input-limit-segmentation-risk',
         text: 'Amazon Translate service quotas impose synchronous input-size limits, so long-document workflows require application-side segmentation that increases implementation and quality-control complexity.',
-        textDe: 'Amazon-Translate-Service-Quotas erzwingen Groessenlimits fuer synchrone Eingaben; Workflows mit langen Dokumenten brauchen daher anwendungsseitige Segmentierung, was Implementierungs- und Qualitaetskontrollkomplexitaet erhoeht.',
+        localizedTexts: { de: 'Amazon-Translate-Service-Quotas erzwingen Groessenlimits fuer synchrone Eingaben; Workflows mit langen Dokumenten brauchen daher anwendungsseitige Segmentierung, was Implementierungs- und Qualitaetskontrollkomplexitaet erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://docs.aws.amazon.com/translate/latest/dg/what-is-limits.html',
       },
       {
         id: 'aws-translate-outage-blast-radius-dynamodb-2025',
         text: 'AWS post-event communication for the October 2025 us-east-1 DynamoDB disruption shows that control-plane and dependency failures can propagate broadly across dependent services.',
-        textDe: 'Die AWS-Post-Event-Kommunikation zur us-east-1-DynamoDB-Stoerung im Oktober 2025 zeigt, dass Control-Plane- und Abhaengigkeitsfehler breit ueber abhaengige Dienste fortpflanzen koennen.',
+        localizedTexts: { de: 'Die AWS-Post-Event-Kommunikation zur us-east-1-DynamoDB-Stoerung im Oktober 2025 zeigt, dass Control-Plane- und Abhaengigkeitsfehler breit ueber abhaengige Dienste fortpflanzen koennen.' },
         severity: 'moderate',
         date: '2025-10-19',
         sourceUrl: 'https://aws.amazon.com/message/101925/',
@@ -2423,35 +2442,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-translate-compliance-artifacts-customer-gated',
         text: 'Detailed SOC assurance artifacts are primarily distributed via AWS Artifact under customer access controls, limiting public product-level assurance transparency.',
-        textDe: 'Detaillierte SOC-Assurance-Artefakte werden primaer ueber AWS Artifact mit kundenseitigen Zugriffskontrollen bereitgestellt, was die oeffentliche produktbezogene Assurance-Transparenz begrenzt.',
+        localizedTexts: { de: 'Detaillierte SOC-Assurance-Artefakte werden primaer ueber AWS Artifact mit kundenseitigen Zugriffskontrollen bereitgestellt, was die oeffentliche produktbezogene Assurance-Transparenz begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/soc-faqs/',
       },
       {
         id: 'aws-translate-customer-agreement-fee-change-rights',
         text: 'AWS Customer Agreement terms permit changing existing service charges and adding new charges with notice, reducing long-term pricing predictability.',
-        textDe: 'Die Bedingungen des AWS Customer Agreement erlauben mit Vorankuendigung die Aenderung bestehender Servicegebuehren und die Einfuehrung neuer Gebuehren und reduzieren damit die langfristige Preisplanbarkeit.',
+        localizedTexts: { de: 'Die Bedingungen des AWS Customer Agreement erlauben mit Vorankuendigung die Aenderung bestehender Servicegebuehren und die Einfuehrung neuer Gebuehren und reduzieren damit die langfristige Preisplanbarkeit.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/agreement/',
       },
       {
         id: 'aws-translate-post-termination-retrieval-payment-condition',
         text: 'AWS post-termination terms state that retrieval of customer content may depend on all outstanding payments being settled, increasing exit-risk in billing disputes.',
-        textDe: 'Die AWS-Post-Termination-Bedingungen nennen, dass die Herausgabe von Kundeninhalten von der Begleichung offener Zahlungen abhaengen kann; das erhoeht Exit-Risiken bei Billing-Streitfaellen.',
+        localizedTexts: { de: 'Die AWS-Post-Termination-Bedingungen nennen, dass die Herausgabe von Kundeninhalten von der Begleichung offener Zahlungen abhaengen kann; das erhoeht Exit-Risiken bei Billing-Streitfaellen.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/agreement/',
       },
       {
         id: 'aws-translate-hipaa-eligibility-needs-baa-and-customer-controls',
         text: 'AWS HIPAA-eligible listing for Amazon Translate is conditional: organizations must configure services correctly and execute a BAA before handling PHI, so compliance is not default-by-design.',
-        textDe: 'Die AWS-HIPAA-Eignungsliste fuer Amazon Translate ist bedingt: Organisationen muessen Services korrekt konfigurieren und vor PHI-Verarbeitung ein BAA abschliessen; Compliance ist damit nicht default-by-design.',
+        localizedTexts: { de: 'Die AWS-HIPAA-Eignungsliste fuer Amazon Translate ist bedingt: Organisationen muessen Services korrekt konfigurieren und vor PHI-Verarbeitung ein BAA abschliessen; Compliance ist damit nicht default-by-design.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/hipaa-eligible-services-reference/',
       },
       {
         id: 'aws-translate-cma-cloud-concentration-switching-signal',
         text: 'The UK CMA cloud investigation highlights concentration and recommends strategic scrutiny of AWS market power, reinforcing long-term switching and lock-in concerns for AWS-dependent translation stacks.',
-        textDe: 'Die britische CMA-Cloud-Untersuchung hebt Konzentration hervor und empfiehlt strategische Pruefung von AWS-Marktmacht; das verstaerkt langfristige Switching- und Lock-in-Bedenken fuer AWS-abhaengige Uebersetzungs-Stacks.',
+        localizedTexts: { de: 'Die britische CMA-Cloud-Untersuchung hebt Konzentration hervor und empfiehlt strategische Pruefung von AWS-Marktmacht; das verstaerkt langfristige Switching- und Lock-in-Bedenken fuer AWS-abhaengige Uebersetzungs-Stacks.' },
         severity: 'moderate',
         date: '2025-01-28',
         sourceUrl: 'https://www.gov.uk/guidance/cloud-services-market-investigation-provisional-findings',
@@ -2459,7 +2478,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-translate-cli-v1-maintenance-lifecycle-pressure',
         text: 'AWS announced AWS CLI v1 maintenance mode and end-of-support dates, creating migration pressure and lifecycle risk for translation operations that still depend on legacy automation.',
-        textDe: 'AWS kuendigte Maintenance-Mode- und End-of-Support-Termine fuer AWS CLI v1 an; das erzeugt Migrationsdruck und Lifecycle-Risiken fuer Uebersetzungsprozesse, die noch von Legacy-Automatisierung abhaengen.',
+        localizedTexts: { de: 'AWS kuendigte Maintenance-Mode- und End-of-Support-Termine fuer AWS CLI v1 an; das erzeugt Migrationsdruck und Lifecycle-Risiken fuer Uebersetzungsprozesse, die noch von Legacy-Automatisierung abhaengen.' },
         severity: 'minor',
         date: '2026-07-15',
         sourceUrl: 'https://aws.amazon.com/blogs/developer/cli-v1-maintenance-mode-announcement/',
@@ -2470,34 +2489,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.3,
     description:
         'US-operated hyperscale cloud with strong security/compliance assurance and mature incident communication, but trust is reduced by US-jurisdiction disclosure exposure, AI service-improvement defaults (opt-out required), switching/egress friction, and recurring large-blast-radius platform incidents.',
-    descriptionDe:
-        'US-Hyperscale-Cloud mit starken Security-/Compliance-Nachweisen und reifer Incident-Kommunikation, deren Vertrauen jedoch durch US-Jurisdiktions-Exposition, KI-Service-Improvement-Defaults (Opt-out erforderlich), Switching-/Egress-Reibung und wiederkehrende Plattformvorfälle mit grossem Blast-Radius sinkt.',
+    localizedDescriptions: {
+      de: 'US-Hyperscale-Cloud mit starken Security-/Compliance-Nachweisen und reifer Incident-Kommunikation, deren Vertrauen jedoch durch US-Jurisdiktions-Exposition, KI-Service-Improvement-Defaults (Opt-out erforderlich), Switching-/Egress-Reibung und wiederkehrende Plattformvorfälle mit grossem Blast-Radius sinkt.',
+    },
     reservations: [
       {
         id: 'aws-us-legal-process-exposure',
         text: 'US law (18 U.S.C. 2713) can compel providers to disclose customer data under their control regardless of storage location, limiting strict sovereignty guarantees for US-headquartered cloud vendors.',
-        textDe: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhängig vom Speicherort verpflichten und begrenzt damit strikte Souveränitätszusagen bei US-Cloud-Anbietern.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle unabhängig vom Speicherort verpflichten und begrenzt damit strikte Souveränitätszusagen bei US-Cloud-Anbietern.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'aws-ai-service-improvement-default-opt-out',
         text: 'AWS AI Service Terms allow using customer content for service improvement (including model training and validation) unless customers explicitly configure an AI services opt-out policy.',
-        textDe: 'Die AWS-KI-Servicebedingungen erlauben die Nutzung von Kundeninhalten zur Serviceverbesserung (einschliesslich Modelltraining und Validierung), sofern Kunden nicht explizit eine KI-Opt-out-Policy konfigurieren.',
+        localizedTexts: { de: 'Die AWS-KI-Servicebedingungen erlauben die Nutzung von Kundeninhalten zur Serviceverbesserung (einschliesslich Modelltraining und Validierung), sofern Kunden nicht explizit eine KI-Opt-out-Policy konfigurieren.' },
         severity: 'major',
         sourceUrl: 'https://aws.amazon.com/service-terms/',
       },
       {
         id: 'aws-ai-content-may-be-stored-outside-region',
         text: 'AWS Organizations documentation states that, for AI service-improvement workflows, customer content may be stored in any AWS region where the service is available unless opt-out policies are enforced.',
-        textDe: 'Die AWS-Organizations-Dokumentation nennt, dass Kundeninhalte für KI-Service-Improvement-Workflows in jeder AWS-Region gespeichert werden können, in der der Dienst verfügbar ist, sofern keine Opt-out-Policies durchgesetzt werden.',
+        localizedTexts: { de: 'Die AWS-Organizations-Dokumentation nennt, dass Kundeninhalte für KI-Service-Improvement-Workflows in jeder AWS-Region gespeichert werden können, in der der Dienst verfügbar ist, sofern keine Opt-out-Policies durchgesetzt werden.' },
         severity: 'major',
         sourceUrl: 'https://docs.aws.amazon.com/organizations/latest/userguide/orgs_manage_policies_ai-opt-out.html',
       },
       {
         id: 'aws-cma-switching-barriers-2025',
         text: 'The UK CMA cloud market investigation found strong concentration and material customer switching barriers in cloud infrastructure markets.',
-        textDe: 'Die britische CMA stellte in der Cloud-Marktuntersuchung eine starke Konzentration sowie materielle Wechselbarrieren für Kunden in Cloud-Infrastrukturmärkten fest.',
+        localizedTexts: { de: 'Die britische CMA stellte in der Cloud-Marktuntersuchung eine starke Konzentration sowie materielle Wechselbarrieren für Kunden in Cloud-Infrastrukturmärkten fest.' },
         severity: 'major',
         date: '2025-01-28',
         sourceUrl: 'https://www.gov.uk/guidance/cloud-services-market-investigation-provisional-findings',
@@ -2505,7 +2525,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-cma-egress-fee-competition-concern-2025',
         text: 'CMA provisional findings explicitly discuss egress charges as a competition and switching-friction concern for cloud customers.',
-        textDe: 'Die vorläufigen CMA-Befunde benennen Egress-Gebühren explizit als Wettbewerbs- und Switching-Friktionsproblem für Cloud-Kunden.',
+        localizedTexts: { de: 'Die vorläufigen CMA-Befunde benennen Egress-Gebühren explizit als Wettbewerbs- und Switching-Friktionsproblem für Cloud-Kunden.' },
         severity: 'moderate',
         date: '2025-01-28',
         sourceUrl: 'https://assets.publishing.service.gov.uk/media/679ce64de47e55f15186cd1d/Cloud_services_market_investigation_-_Provisional_findings_report.pdf',
@@ -2513,42 +2533,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-soc-reports-customer-gated-transparency',
         text: 'AWS SOC 1 and SOC 2 reports are customer-gated via AWS Artifact and require NDA access, while the public report is a SOC 3 summary only.',
-        textDe: 'AWS-SOC-1- und SOC-2-Berichte sind über AWS Artifact kundengebunden und NDA-pflichtig; öffentlich verfügbar ist nur eine SOC-3-Zusammenfassung.',
+        localizedTexts: { de: 'AWS-SOC-1- und SOC-2-Berichte sind über AWS Artifact kundengebunden und NDA-pflichtig; öffentlich verfügbar ist nur eine SOC-3-Zusammenfassung.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/soc-faqs/',
       },
       {
         id: 'aws-soc-scope-rollout-cycle-lag',
         text: 'AWS SOC FAQs state that new regions are scoped into SOC reports in subsequent review cycles, so assurance scope can lag behind newly launched footprint.',
-        textDe: 'Die AWS-SOC-FAQs nennen, dass neue Regionen erst in nachfolgenden Review-Zyklen in SOC-Berichte aufgenommen werden, wodurch der Assurance-Scope hinter neu gestarteten Footprints zurückliegen kann.',
+        localizedTexts: { de: 'Die AWS-SOC-FAQs nennen, dass neue Regionen erst in nachfolgenden Review-Zyklen in SOC-Berichte aufgenommen werden, wodurch der Assurance-Scope hinter neu gestarteten Footprints zurückliegen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/compliance/soc-faqs/',
       },
       {
         id: 'aws-support-assurance-tier-dependency',
         text: 'AWS documents materially different response-time targets and proactive support coverage across support tiers (Business Support+, Enterprise, Unified Operations), making operational assurance plan-dependent.',
-        textDe: 'AWS dokumentiert je Support-Tier (Business Support+, Enterprise, Unified Operations) deutlich unterschiedliche Response-Ziele und proaktive Support-Abdeckung, wodurch die operative Assurance vom gewählten Plan abhängt.',
+        localizedTexts: { de: 'AWS dokumentiert je Support-Tier (Business Support+, Enterprise, Unified Operations) deutlich unterschiedliche Response-Ziele und proaktive Support-Abdeckung, wodurch die operative Assurance vom gewählten Plan abhängt.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/premiumsupport/plans/',
       },
       {
         id: 'aws-pes-publication-threshold-limits',
         text: 'AWS states that public Post-Event Summaries are committed for broad and significant impact events, which limits postmortem transparency for lower-impact incidents.',
-        textDe: 'AWS gibt an, dass öffentliche Post-Event-Summaries für breitflächige und signifikante Impact-Events zugesagt sind, was die Postmortem-Transparenz bei weniger gravierenden Vorfällen begrenzt.',
+        localizedTexts: { de: 'AWS gibt an, dass öffentliche Post-Event-Summaries für breitflächige und signifikante Impact-Events zugesagt sind, was die Postmortem-Transparenz bei weniger gravierenden Vorfällen begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/premiumsupport/technology/pes/',
       },
       {
         id: 'aws-health-dashboard-public-history-window',
         text: 'AWS states that public AWS Health service history covers the preceding 12 months, so long-horizon incident trend analysis requires external retention.',
-        textDe: 'AWS nennt, dass die öffentliche AWS-Health-Servicehistorie die vorangegangenen 12 Monate abdeckt; für Langzeit-Trendanalysen sind daher externe Retention-Mechanismen nötig.',
+        localizedTexts: { de: 'AWS nennt, dass die öffentliche AWS-Health-Servicehistorie die vorangegangenen 12 Monate abdeckt; für Langzeit-Trendanalysen sind daher externe Retention-Mechanismen nötig.' },
         severity: 'minor',
         sourceUrl: 'https://aws.amazon.com/premiumsupport/technology/pes/',
       },
       {
         id: 'aws-codebuild-github-token-exposure',
         text: 'AWS disclosed a CodeBuild-related issue where temporary GitHub credentials could be exposed in a build memory dump and stated this was exploited against selected AWS open-source repositories before mitigation.',
-        textDe: 'AWS legte ein CodeBuild-bezogenes Problem offen, bei dem temporäre GitHub-Zugangsdaten in einem Build-Memory-Dump exponiert werden konnten, und erklärte, dass dies vor der Mitigation gegen ausgewählte AWS-Open-Source-Repositories ausgenutzt wurde.',
+        localizedTexts: { de: 'AWS legte ein CodeBuild-bezogenes Problem offen, bei dem temporäre GitHub-Zugangsdaten in einem Build-Memory-Dump exponiert werden konnten, und erklärte, dass dies vor der Mitigation gegen ausgewählte AWS-Open-Source-Repositories ausgenutzt wurde.' },
         severity: 'major',
         date: '2025-07-17',
         sourceUrl: 'https://aws.amazon.com/security/security-bulletins/AWS-2025-016/',
@@ -2556,7 +2576,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-amazon-q-extension-compromise-2025',
         text: 'AWS reported that an over-scoped token was used to push malicious code to the Amazon Q Developer extension repository before credentials were revoked and the package was patched.',
-        textDe: 'AWS berichtete, dass ein zu weit berechtigtes Token genutzt wurde, um schadhaften Code in das Repository der Amazon-Q-Developer-Erweiterung zu pushen, bevor die Zugangsdaten widerrufen und das Paket gepatcht wurden.',
+        localizedTexts: { de: 'AWS berichtete, dass ein zu weit berechtigtes Token genutzt wurde, um schadhaften Code in das Repository der Amazon-Q-Developer-Erweiterung zu pushen, bevor die Zugangsdaten widerrufen und das Paket gepatcht wurden.' },
         severity: 'moderate',
         date: '2025-07-24',
         sourceUrl: 'https://aws.amazon.com/security/security-bulletins/AWS-2025-017/',
@@ -2564,7 +2584,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-dynamodb-us-east-1-service-disruption-2025',
         text: 'AWS published a post-event summary for the October 2025 us-east-1 DynamoDB disruption, where a latent DNS-automation race condition caused broad cross-service impact.',
-        textDe: 'AWS veröffentlichte eine Post-Event-Summary zum us-east-1-DynamoDB-Ausfall im Oktober 2025, bei dem eine latente Race-Condition in der DNS-Automation breitflächige serviceübergreifende Auswirkungen verursachte.',
+        localizedTexts: { de: 'AWS veröffentlichte eine Post-Event-Summary zum us-east-1-DynamoDB-Ausfall im Oktober 2025, bei dem eine latente Race-Condition in der DNS-Automation breitflächige serviceübergreifende Auswirkungen verursachte.' },
         severity: 'major',
         date: '2025-10-19',
         sourceUrl: 'https://aws.amazon.com/message/101925/',
@@ -2572,7 +2592,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-public-ipv4-pricing-charge-2024',
         text: 'AWS introduced a public IPv4 address charge starting February 2024, adding recurring cost pressure for IPv4-heavy architectures.',
-        textDe: 'AWS führte ab Februar 2024 eine Gebühr für öffentliche IPv4-Adressen ein, was für IPv4-lastige Architekturen zusätzlichen laufenden Kostendruck erzeugt.',
+        localizedTexts: { de: 'AWS führte ab Februar 2024 eine Gebühr für öffentliche IPv4-Adressen ein, was für IPv4-lastige Architekturen zusätzlichen laufenden Kostendruck erzeugt.' },
         severity: 'moderate',
         date: '2024-02-01',
         sourceUrl: 'https://aws.amazon.com/blogs/aws/new-aws-public-ipv4-address-charge-public-ip-insights/',
@@ -2580,14 +2600,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'aws-customer-agreement-fee-change-rights',
         text: 'AWS Customer Agreement terms permit changing existing service charges and adding new charges with notice, reducing long-term cost predictability for dependent workloads.',
-        textDe: 'Die AWS-Customer-Agreement-Bedingungen erlauben mit Vorankündigung Änderungen bestehender Servicegebühren sowie neue Gebühren und reduzieren damit die langfristige Kostenplanbarkeit für abhängige Workloads.',
+        localizedTexts: { de: 'Die AWS-Customer-Agreement-Bedingungen erlauben mit Vorankündigung Änderungen bestehender Servicegebühren sowie neue Gebühren und reduzieren damit die langfristige Kostenplanbarkeit für abhängige Workloads.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/agreement/',
       },
       {
         id: 'aws-post-termination-retrieval-payment-condition',
         text: 'AWS Customer Agreement post-termination terms state that retrieval of customer content can depend on all due payments being made, increasing exit-risk under billing disputes or account restrictions.',
-        textDe: 'Die Post-Termination-Bedingungen im AWS Customer Agreement nennen, dass die Herausgabe von Kundeninhalten von vollständig beglichenen Forderungen abhängen kann, was bei Billing-Disputes oder Account-Restriktionen das Exit-Risiko erhöht.',
+        localizedTexts: { de: 'Die Post-Termination-Bedingungen im AWS Customer Agreement nennen, dass die Herausgabe von Kundeninhalten von vollständig beglichenen Forderungen abhängen kann, was bei Billing-Disputes oder Account-Restriktionen das Exit-Risiko erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://aws.amazon.com/agreement/',
       },
@@ -2597,13 +2617,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.1,
     description:
         'US-operated productivity suite with strong enterprise security programs and compliance artifacts, but trust is reduced by major cloud incident history, regulatory findings, and persistent US-jurisdiction sovereignty limits.',
-    descriptionDe:
-        'US-betriebene Produktivitätsplattform mit starken Enterprise-Sicherheitsprogrammen und Compliance-Artefakten, deren Vertrauen aber durch schwere Cloud-Incidents, regulatorische Befunde und fortbestehende Souveränitätsgrenzen unter US-Jurisdiktion reduziert wird.',
+    localizedDescriptions: {
+      de: 'US-betriebene Produktivitätsplattform mit starken Enterprise-Sicherheitsprogrammen und Compliance-Artefakten, deren Vertrauen aber durch schwere Cloud-Incidents, regulatorische Befunde und fortbestehende Souveränitätsgrenzen unter US-Jurisdiktion reduziert wird.',
+    },
     reservations: [
       {
         id: 'microsoft-storm-0558-exchange-intrusion',
         text: 'CISA confirmed attackers exfiltrated Exchange Online Outlook data in the Storm-0558 campaign using forged tokens.',
-        textDe: 'CISA bestätigte, dass Angreifer im Rahmen von Storm-0558 mit gefälschten Tokens Exchange-Online-Outlook-Daten exfiltrierten.',
+        localizedTexts: { de: 'CISA bestätigte, dass Angreifer im Rahmen von Storm-0558 mit gefälschten Tokens Exchange-Online-Outlook-Daten exfiltrierten.' },
         severity: 'major',
         date: '2023-07-12',
         sourceUrl: 'https://www.cisa.gov/news-events/cybersecurity-advisories/aa23-193a',
@@ -2611,7 +2632,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-csrb-critical-findings-2024',
         text: 'The US Cyber Safety Review Board described the Exchange Online intrusion as preventable and criticized Microsoft\'s incident transparency and security governance.',
-        textDe: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Incident-Transparenz sowie Security-Governance.',
+        localizedTexts: { de: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Incident-Transparenz sowie Security-Governance.' },
         severity: 'major',
         date: '2024-04-02',
         sourceUrl: 'https://www.cisa.gov/resources-tools/resources/CSRB-Review-Summer-2023-MEO-Intrusion',
@@ -2619,7 +2640,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-midnight-blizzard-corporate-breach-2024',
         text: 'Microsoft reported that the Midnight Blizzard actor accessed parts of corporate email, source code repositories, and internal systems in 2024, even though no customer-facing hosted systems were reported compromised.',
-        textDe: 'Microsoft berichtete 2024, dass die Gruppe Midnight Blizzard auf Teile von Unternehmens-E-Mail, Source-Code-Repositories und interne Systeme zugriff, auch wenn keine kompromittierten gehosteten Kundensysteme gemeldet wurden.',
+        localizedTexts: { de: 'Microsoft berichtete 2024, dass die Gruppe Midnight Blizzard auf Teile von Unternehmens-E-Mail, Source-Code-Repositories und interne Systeme zugriff, auch wenn keine kompromittierten gehosteten Kundensysteme gemeldet wurden.' },
         severity: 'moderate',
         date: '2024-03-08',
         sourceUrl: 'https://www.microsoft.com/en-us/msrc/blog/2024/03/update-on-microsoft-actions-following-attack-by-nation-state-actor-midnight-blizzard/',
@@ -2627,7 +2648,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-edps-m365-infringement-2024',
         text: 'The EDPS found the European Commission\'s Microsoft 365 use infringed EU-institution data protection rules, highlighting transfer and purpose-limitation risks.',
-        textDe: 'Der EDPS stellte fest, dass die Microsoft-365-Nutzung der EU-Kommission gegen Datenschutzregeln für EU-Institutionen verstiess und Transfer- sowie Zweckbindungsrisiken sichtbar machte.',
+        localizedTexts: { de: 'Der EDPS stellte fest, dass die Microsoft-365-Nutzung der EU-Kommission gegen Datenschutzregeln für EU-Institutionen verstiess und Transfer- sowie Zweckbindungsrisiken sichtbar machte.' },
         severity: 'major',
         date: '2024-03-08',
         sourceUrl: 'https://www.edps.europa.eu/data-protection/our-work/publications/investigations/2024-03-08-edps-investigation-european-commissions-use-microsoft-365_en',
@@ -2635,7 +2656,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-security-logging-tier-history-2023',
         text: 'CISA stated some critical Microsoft cloud security logs had required higher-cost licensing before expanded logging access was rolled out, which affected baseline forensic visibility.',
-        textDe: 'CISA stellte fest, dass einige kritische Microsoft-Cloud-Sicherheitslogs vor der Erweiterung nur mit höherpreisiger Lizenz verfügbar waren, was die forensische Basis-Sichtbarkeit beeinträchtigte.',
+        localizedTexts: { de: 'CISA stellte fest, dass einige kritische Microsoft-Cloud-Sicherheitslogs vor der Erweiterung nur mit höherpreisiger Lizenz verfügbar waren, was die forensische Basis-Sichtbarkeit beeinträchtigte.' },
         severity: 'moderate',
         date: '2023-07-19',
         sourceUrl: 'https://www.cisa.gov/news-events/news/cisa-and-microsoft-partnership-expands-access-logging-capabilities-broadly',
@@ -2643,14 +2664,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-us-cloud-act-jurisdiction',
         text: 'US law (18 U.S.C. 2713) can compel providers to disclose customer data under their control regardless of storage location, limiting sovereignty guarantees for US-headquartered vendors.',
-        textDe: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Herausgabe von Kundendaten unter ihrer Kontrolle verpflichten, unabhängig vom Speicherort, was Souveränitätszusagen bei US-Hauptsitz begrenzt.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Herausgabe von Kundendaten unter ihrer Kontrolle verpflichten, unabhängig vom Speicherort, was Souveränitätszusagen bei US-Hauptsitz begrenzt.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'microsoft-teams-bundling-antitrust-commitments-2025',
         text: 'Microsoft accepted long-running EU antitrust commitments on Teams bundling, including offering suites without Teams and interoperability/data-portability obligations for multiple years.',
-        textDe: 'Microsoft akzeptierte langlaufende EU-Antitrust-Verpflichtungen zur Teams-Bündelung, einschliesslich Suites ohne Teams sowie Interoperabilitäts- und Datenportabilitätsauflagen über mehrere Jahre.',
+        localizedTexts: { de: 'Microsoft akzeptierte langlaufende EU-Antitrust-Verpflichtungen zur Teams-Bündelung, einschliesslich Suites ohne Teams sowie Interoperabilitäts- und Datenportabilitätsauflagen über mehrere Jahre.' },
         severity: 'moderate',
         date: '2025-09-12',
         sourceUrl: 'https://apnews.com/article/61a94a85f04df5183f2b8f81bc9468e5',
@@ -2658,7 +2679,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-copilot-pricing-accc-2025',
         text: 'Australia\'s ACCC sued Microsoft over allegedly misleading Microsoft 365 consumer subscribers about Copilot-linked price increases and downgrade options.',
-        textDe: 'Die australische ACCC verklagte Microsoft wegen mutmasslich irreführender Kommunikation zu Copilot-bedingten Microsoft-365-Preiserhöhungen und Downgrade-Optionen.',
+        localizedTexts: { de: 'Die australische ACCC verklagte Microsoft wegen mutmasslich irreführender Kommunikation zu Copilot-bedingten Microsoft-365-Preiserhöhungen und Downgrade-Optionen.' },
         severity: 'moderate',
         date: '2025-10-27',
         sourceUrl: 'https://www.accc.gov.au/media-release/microsoft-in-court-for-allegedly-misleading-millions-of-australians-over-microsoft-365-subscriptions',
@@ -2666,7 +2687,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-major-outage-2026-01-22',
         text: 'Microsoft reported a 9+ hour outage affecting multiple Microsoft 365 workloads on January 22, 2026, including Outlook, Exchange Online, Teams, and admin surfaces.',
-        textDe: 'Microsoft berichtete am 22. Januar 2026 über einen Ausfall von mehr als neun Stunden in mehreren Microsoft-365-Workloads, darunter Outlook, Exchange Online, Teams und Admin-Oberflächen.',
+        localizedTexts: { de: 'Microsoft berichtete am 22. Januar 2026 über einen Ausfall von mehr als neun Stunden in mehreren Microsoft-365-Workloads, darunter Outlook, Exchange Online, Teams und Admin-Oberflächen.' },
         severity: 'moderate',
         date: '2026-01-22',
         sourceUrl: 'https://www.crn.com/news/software/2026/microsoft-365-nine-hour-plus-outage-is-resolved-software-giant-blames-elevated-service-load-during-maintenance',
@@ -2674,7 +2695,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-admin-center-outage-2026-02-10',
         text: 'Microsoft acknowledged an incident in North America on February 10, 2026 where some business and enterprise admins could not access the Microsoft 365 admin center.',
-        textDe: 'Microsoft bestätigte am 10. Februar 2026 einen Incident in Nordamerika, bei dem einige Business- und Enterprise-Admins nicht auf das Microsoft-365-Admin-Center zugreifen konnten.',
+        localizedTexts: { de: 'Microsoft bestätigte am 10. Februar 2026 einen Incident in Nordamerika, bei dem einige Business- und Enterprise-Admins nicht auf das Microsoft-365-Admin-Center zugreifen konnten.' },
         severity: 'moderate',
         date: '2026-02-10',
         sourceUrl: 'https://www.bleepingcomputer.com/news/microsoft/microsoft-365-outage-takes-down-admin-center-in-north-america/',
@@ -2682,14 +2703,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'microsoft-nce-seven-day-cancellation-window',
         text: 'Microsoft\'s New Commerce cancellation terms describe only a seven-day prorated refund window for many software and license-based subscriptions.',
-        textDe: 'Microsofts New-Commerce-Kündigungsbedingungen nennen für viele Software- und lizenzbasierte Abos nur ein siebentägiges anteiliges Erstattungsfenster.',
+        localizedTexts: { de: 'Microsofts New-Commerce-Kündigungsbedingungen nennen für viele Software- und lizenzbasierte Abos nur ein siebentägiges anteiliges Erstattungsfenster.' },
         severity: 'moderate',
         sourceUrl: 'https://learn.microsoft.com/en-us/partner-center/customers/new-commerce-cancellation-policy',
       },
       {
         id: 'microsoft-ews-deprecation-migration-pressure',
         text: 'Microsoft will disable Exchange Web Services in Exchange Online in October 2026, which can create migration pressure and integration churn for long-lived third-party or internal workflows.',
-        textDe: 'Microsoft wird Exchange Web Services in Exchange Online im Oktober 2026 deaktivieren, was Migrationsdruck und Integrationsaufwand für langlaufende Drittanbieter- oder interne Workflows erzeugen kann.',
+        localizedTexts: { de: 'Microsoft wird Exchange Web Services in Exchange Online im Oktober 2026 deaktivieren, was Migrationsdruck und Integrationsaufwand für langlaufende Drittanbieter- oder interne Workflows erzeugen kann.' },
         severity: 'moderate',
         date: '2026-10-01',
         sourceUrl: 'https://learn.microsoft.com/en-us/exchange/clients-and-mobile-in-exchange-online/deprecation-of-ews-exchange-online',
@@ -2700,13 +2721,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.8,
     description:
         'US-operated authenticator app with mature identity-security engineering and active hardening, but trust is reduced by major Microsoft identity-incident history, cross-boundary transfer exceptions in Entra/push flows, and lock-in from limited OTP secret portability.',
-    descriptionDe:
-        'US-betriebene Authenticator-App mit reifer Identity-Security-Engineering-Basis und aktiven Hardening-Massnahmen; das Vertrauen sinkt jedoch durch schwere Microsoft-Identity-Incident-Historie, grenzueberschreitende Transferausnahmen in Entra-/Push-Flows und Lock-in durch eingeschraenkte OTP-Secret-Portabilitaet.',
+    localizedDescriptions: {
+      de: 'US-betriebene Authenticator-App mit reifer Identity-Security-Engineering-Basis und aktiven Hardening-Massnahmen; das Vertrauen sinkt jedoch durch schwere Microsoft-Identity-Incident-Historie, grenzueberschreitende Transferausnahmen in Entra-/Push-Flows und Lock-in durch eingeschraenkte OTP-Secret-Portabilitaet.',
+    },
     reservations: [
       {
         id: 'authenticator-storm-0558-identity-boundary',
         text: 'CISA documented forged-token abuse in Storm-0558 against Microsoft cloud identity and email systems, a vendor-boundary trust risk for products tied to the same identity ecosystem.',
-        textDe: 'CISA dokumentierte bei Storm-0558 den Missbrauch gefaelschter Tokens gegen Microsoft-Cloud-Identity- und E-Mail-Systeme; das ist ein Vendor-Boundary-Trust-Risiko fuer Produkte im selben Identity-Oekosystem.',
+        localizedTexts: { de: 'CISA dokumentierte bei Storm-0558 den Missbrauch gefaelschter Tokens gegen Microsoft-Cloud-Identity- und E-Mail-Systeme; das ist ein Vendor-Boundary-Trust-Risiko fuer Produkte im selben Identity-Oekosystem.' },
         severity: 'major',
         date: '2023-07-12',
         sourceUrl: 'https://www.cisa.gov/news-events/cybersecurity-advisories/aa23-193a',
@@ -2714,7 +2736,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-csrb-governance-findings-2024',
         text: 'The US Cyber Safety Review Board described the Exchange Online intrusion as preventable and criticized Microsoft incident transparency and security governance.',
-        textDe: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Incident-Transparenz sowie Security-Governance.',
+        localizedTexts: { de: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Incident-Transparenz sowie Security-Governance.' },
         severity: 'major',
         date: '2024-04-02',
         sourceUrl: 'https://www.cisa.gov/resources-tools/resources/CSRB-Review-Summer-2023-MEO-Intrusion',
@@ -2722,7 +2744,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-midnight-blizzard-corporate-breach-2024',
         text: 'Microsoft reported Midnight Blizzard access to internal corporate email and source-code systems in 2024, indicating ongoing high-end threat pressure on core identity/cloud operations.',
-        textDe: 'Microsoft berichtete 2024 ueber Midnight-Blizzard-Zugriffe auf interne Corporate-E-Mail- und Source-Code-Systeme; das zeigt fortlaufenden High-End-Angriffsdruck auf zentrale Identity-/Cloud-Operationen.',
+        localizedTexts: { de: 'Microsoft berichtete 2024 ueber Midnight-Blizzard-Zugriffe auf interne Corporate-E-Mail- und Source-Code-Systeme; das zeigt fortlaufenden High-End-Angriffsdruck auf zentrale Identity-/Cloud-Operationen.' },
         severity: 'moderate',
         date: '2024-03-08',
         sourceUrl: 'https://www.microsoft.com/en-us/msrc/blog/2024/03/update-on-microsoft-actions-following-attack-by-nation-state-actor-midnight-blizzard/',
@@ -2730,91 +2752,91 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-cve-2024-21390-local-eop',
         text: 'NVD lists CVE-2024-21390 as a high-severity elevation-of-privilege issue in Microsoft Authenticator, confirming product-specific vulnerability exposure even with local/user-interaction preconditions.',
-        textDe: 'NVD fuehrt CVE-2024-21390 als High-Severity-Elevation-of-Privilege in Microsoft Authenticator und bestaetigt damit eine produktspezifische Schwachstellen-Exposition trotz lokaler/User-Interaction-Voraussetzungen.',
+        localizedTexts: { de: 'NVD fuehrt CVE-2024-21390 als High-Severity-Elevation-of-Privilege in Microsoft Authenticator und bestaetigt damit eine produktspezifische Schwachstellen-Exposition trotz lokaler/User-Interaction-Voraussetzungen.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-21390',
       },
       {
         id: 'authenticator-us-legal-process-exposure',
         text: 'US law (18 U.S.C. 2713) can compel providers to disclose customer data under their control regardless of storage location, limiting sovereignty guarantees for US-headquartered vendors.',
-        textDe: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle verpflichten, unabhaengig vom Speicherort; das begrenzt Souveraenitaetszusagen bei US-Hauptsitz.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) kann Anbieter zur Offenlegung von Kundendaten unter ihrer Kontrolle verpflichten, unabhaengig vom Speicherort; das begrenzt Souveraenitaetszusagen bei US-Hauptsitz.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'authenticator-eudb-entra-directory-data-replication',
         text: 'Microsoft EU Data Boundary transfer documentation states that limited Entra ID directory data (for example username or email address) may be replicated outside the EU Data Boundary to provide the service.',
-        textDe: 'Die Microsoft-EU-Data-Boundary-Transferdokumentation nennt, dass begrenzte Entra-ID-Verzeichnisdaten (z. B. Benutzername oder E-Mail-Adresse) zur Diensterbringung ausserhalb der EU Data Boundary repliziert werden koennen.',
+        localizedTexts: { de: 'Die Microsoft-EU-Data-Boundary-Transferdokumentation nennt, dass begrenzte Entra-ID-Verzeichnisdaten (z. B. Benutzername oder E-Mail-Adresse) zur Diensterbringung ausserhalb der EU Data Boundary repliziert werden koennen.' },
         severity: 'major',
         sourceUrl: 'https://learn.microsoft.com/en-us/privacy/eudb/eu-data-boundary-transfers-for-all-services',
       },
       {
         id: 'authenticator-eudb-push-notification-transfer-path',
         text: 'EU Data Boundary optional-capabilities guidance states that push notifications rely on device-vendor notification services that may operate outside Europe, creating cross-boundary processing paths for Authenticator push/passwordless flows.',
-        textDe: 'Die EU-Data-Boundary-Dokumentation zu optionalen Faehigkeiten nennt, dass Push-Benachrichtigungen auf Device-Vendor-Notification-Services beruhen koennen, die ausserhalb Europas betrieben werden; dadurch entstehen grenzueberschreitende Verarbeitungspfade fuer Authenticator-Push-/Passwordless-Flows.',
+        localizedTexts: { de: 'Die EU-Data-Boundary-Dokumentation zu optionalen Faehigkeiten nennt, dass Push-Benachrichtigungen auf Device-Vendor-Notification-Services beruhen koennen, die ausserhalb Europas betrieben werden; dadurch entstehen grenzueberschreitende Verarbeitungspfade fuer Authenticator-Push-/Passwordless-Flows.' },
         severity: 'major',
         sourceUrl: 'https://learn.microsoft.com/en-us/privacy/eudb/eu-data-boundary-transfers-for-optional-capabilities',
       },
       {
         id: 'authenticator-eudb-global-support-securityops-transfer',
         text: 'Microsoft EU Data Boundary transfer documentation states there are scenarios where data is remotely accessed by personnel outside the EU Data Boundary for support, security operations, and service operability workflows.',
-        textDe: 'Die Microsoft-EU-Data-Boundary-Transferdokumentation nennt Szenarien, in denen Daten fuer Support-, Security-Operations- und Service-Operability-Workflows durch Personal ausserhalb der EU Data Boundary remote eingesehen werden.',
+        localizedTexts: { de: 'Die Microsoft-EU-Data-Boundary-Transferdokumentation nennt Szenarien, in denen Daten fuer Support-, Security-Operations- und Service-Operability-Workflows durch Personal ausserhalb der EU Data Boundary remote eingesehen werden.' },
         severity: 'major',
         sourceUrl: 'https://learn.microsoft.com/en-us/privacy/eudb/eu-data-boundary-transfers-for-all-services',
       },
       {
         id: 'authenticator-no-otp-secret-export',
         text: 'Microsoft support community responses indicate there is no standard export path for Authenticator TOTP shared secrets, increasing migration friction and lock-in risk.',
-        textDe: 'Antworten in der Microsoft-Support-Community deuten darauf hin, dass es keinen standardisierten Exportpfad fuer Authenticator-TOTP-Shared-Secrets gibt, was Migrationsreibung und Lock-in-Risiko erhoeht.',
+        localizedTexts: { de: 'Antworten in der Microsoft-Support-Community deuten darauf hin, dass es keinen standardisierten Exportpfad fuer Authenticator-TOTP-Shared-Secrets gibt, was Migrationsreibung und Lock-in-Risiko erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://learn.microsoft.com/en-us/answers/questions/2282829/export-microsoft-authenticator-data',
       },
       {
         id: 'authenticator-services-agreement-export-restriction',
         text: 'Microsoft Services Agreement includes export-friendly language but also states Microsoft may withhold export where doing so could compromise security or Microsoft intellectual property.',
-        textDe: 'Das Microsoft Services Agreement enthaelt exportfreundliche Passagen, nennt aber auch, dass Microsoft Export zurueckhalten kann, wenn dadurch Sicherheit oder geistiges Eigentum von Microsoft beeintraechtigt wuerden.',
+        localizedTexts: { de: 'Das Microsoft Services Agreement enthaelt exportfreundliche Passagen, nennt aber auch, dass Microsoft Export zurueckhalten kann, wenn dadurch Sicherheit oder geistiges Eigentum von Microsoft beeintraechtigt wuerden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.microsoft.com/en-us/servicesagreement',
       },
       {
         id: 'authenticator-backup-platform-bound-restore-limits',
         text: 'Microsoft documents that Authenticator cloud backups are account/cloud-bound and restore is platform-bound (iOS to iOS, Android to Android), which reduces cross-platform exit flexibility.',
-        textDe: 'Microsoft dokumentiert, dass Authenticator-Cloud-Backups konto-/cloudgebunden sind und Restore plattformgebunden ist (iOS zu iOS, Android zu Android), was die plattformuebergreifende Exit-Flexibilitaet reduziert.',
+        localizedTexts: { de: 'Microsoft dokumentiert, dass Authenticator-Cloud-Backups konto-/cloudgebunden sind und Restore plattformgebunden ist (iOS zu iOS, Android zu Android), was die plattformuebergreifende Exit-Flexibilitaet reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/back-up-account-credentials-in-microsoft-authenticator-bb939936-7a8d-4e88-bc43-49bc1a700a40',
       },
       {
         id: 'authenticator-cloud-backup-account-coupling',
         text: 'Microsoft restore documentation requires iOS users to rely on iCloud (Drive, Keychain, Backup) and Android users to bind backup to a Microsoft personal account, creating external-account recovery coupling.',
-        textDe: 'Die Microsoft-Restore-Dokumentation verlangt fuer iOS die Abhaengigkeit von iCloud (Drive, Keychain, Backup) und fuer Android die Bindung des Backups an ein persoenliches Microsoft-Konto, was eine externe Account-Kopplung bei der Wiederherstellung erzeugt.',
+        localizedTexts: { de: 'Die Microsoft-Restore-Dokumentation verlangt fuer iOS die Abhaengigkeit von iCloud (Drive, Keychain, Backup) und fuer Android die Bindung des Backups an ein persoenliches Microsoft-Konto, was eine externe Account-Kopplung bei der Wiederherstellung erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/restore-account-credentials-from-microsoft-authenticator-ce53096e-1e1c-4840-9e32-1618bc33cd43',
       },
       {
         id: 'authenticator-backup-account-loss-recovery-failure',
         text: 'Microsoft support states that if users cannot access their backup account during recovery, support agents cannot restore those Authenticator credentials and users must re-add accounts manually.',
-        textDe: 'Microsoft-Support nennt, dass bei fehlendem Zugriff auf das Backup-Konto waehrend der Wiederherstellung auch Support-Agenten die Authenticator-Credentials nicht wiederherstellen koennen und Konten manuell neu hinzugefuegt werden muessen.',
+        localizedTexts: { de: 'Microsoft-Support nennt, dass bei fehlendem Zugriff auf das Backup-Konto waehrend der Wiederherstellung auch Support-Agenten die Authenticator-Credentials nicht wiederherstellen koennen und Konten manuell neu hinzugefuegt werden muessen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/restore-account-credentials-from-microsoft-authenticator-ce53096e-1e1c-4840-9e32-1618bc33cd43',
       },
       {
         id: 'authenticator-passwordless-restore-reenrollment-friction',
         text: 'Microsoft restore guidance states that for passwordless-capable accounts only the account name is restored and users must sign in again, which adds recovery friction at scale.',
-        textDe: 'Die Microsoft-Restore-Hinweise nennen, dass bei passwordless-faehigen Konten nur der Kontoname wiederhergestellt wird und Nutzer sich erneut anmelden muessen, was die Wiederherstellung im Massstab verkompliziert.',
+        localizedTexts: { de: 'Die Microsoft-Restore-Hinweise nennen, dass bei passwordless-faehigen Konten nur der Kontoname wiederhergestellt wird und Nutzer sich erneut anmelden muessen, was die Wiederherstellung im Massstab verkompliziert.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/restore-account-credentials-from-microsoft-authenticator-ce53096e-1e1c-4840-9e32-1618bc33cd43',
       },
       {
         id: 'authenticator-feedback-log-personal-data-scope',
         text: 'Microsoft FAQ states that app diagnostics logs stay local until a user sends feedback, and those logs can include personal data such as email, IP address, and device name.',
-        textDe: 'Die Microsoft-FAQ nennt, dass App-Diagnoseprotokolle lokal bleiben, bis Nutzer Feedback senden, und dass diese Logs personenbezogene Daten wie E-Mail, IP-Adresse und Geraetename enthalten koennen.',
+        localizedTexts: { de: 'Die Microsoft-FAQ nennt, dass App-Diagnoseprotokolle lokal bleiben, bis Nutzer Feedback senden, und dass diese Logs personenbezogene Daten wie E-Mail, IP-Adresse und Geraetename enthalten koennen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/common-questions-about-the-microsoft-authenticator-app-12d283d1-bcef-4875-9ae5-ac360e2945dd',
       },
       {
         id: 'authenticator-autofill-edge-migration-pressure-2025',
         text: 'Microsoft ended Authenticator autofill/password storage and moved capability to Edge in 2025, creating ecosystem-coupling pressure for users who relied on the old workflow.',
-        textDe: 'Microsoft beendete 2025 Autofill/Passwortspeicherung im Authenticator und verlagerte die Funktion zu Edge, was Oekosystem-Kopplungsdruck fuer Nutzer mit dem bisherigen Workflow erzeugt.',
+        localizedTexts: { de: 'Microsoft beendete 2025 Autofill/Passwortspeicherung im Authenticator und verlagerte die Funktion zu Edge, was Oekosystem-Kopplungsdruck fuer Nutzer mit dem bisherigen Workflow erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://support.microsoft.com/en-us/account-billing/changes-to-microsoft-authenticator-autofill-09fd75df-dc04-4477-9619-811510805ab6',
       },
@@ -2824,13 +2846,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.3,
     description:
         'US-operated desktop OS with mature security engineering and patch cadence, but trust is reduced by sustained active-exploitation pressure, telemetry-heavy defaults, and US-jurisdiction sovereignty limits.',
-    descriptionDe:
-        'US-Desktop-Betriebssystem mit reifer Security-Engineering- und Patch-Cadence, dessen Vertrauen jedoch durch anhaltenden Active-Exploitation-Druck, telemetrielastige Defaults und Souveränitätsgrenzen unter US-Jurisdiktion sinkt.',
+    localizedDescriptions: {
+      de: 'US-Desktop-Betriebssystem mit reifer Security-Engineering- und Patch-Cadence, dessen Vertrauen jedoch durch anhaltenden Active-Exploitation-Druck, telemetrielastige Defaults und Souveränitätsgrenzen unter US-Jurisdiktion sinkt.',
+    },
     reservations: [
       {
         id: 'windows-storm-0558-vendor-trust-boundary',
         text: 'CISA documented forged-token abuse in Storm-0558 against Microsoft identity/mail systems, which remains relevant for Windows environments coupled to Microsoft cloud identity and admin workflows.',
-        textDe: 'CISA dokumentierte bei Storm-0558 den Missbrauch gefälschter Tokens gegen Microsoft-Identity-/Mail-Systeme; das bleibt für Windows-Umgebungen mit Microsoft-Cloud-Identity- und Admin-Workflows relevant.',
+        localizedTexts: { de: 'CISA dokumentierte bei Storm-0558 den Missbrauch gefälschter Tokens gegen Microsoft-Identity-/Mail-Systeme; das bleibt für Windows-Umgebungen mit Microsoft-Cloud-Identity- und Admin-Workflows relevant.' },
         severity: 'major',
         date: '2023-07-12',
         sourceUrl: 'https://www.cisa.gov/news-events/cybersecurity-advisories/aa23-193a',
@@ -2838,7 +2861,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-csrb-governance-findings-2024',
         text: 'The US Cyber Safety Review Board described the Exchange Online intrusion as preventable and criticized Microsoft security governance and transparency.',
-        textDe: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Security-Governance sowie Transparenz.',
+        localizedTexts: { de: 'Das US Cyber Safety Review Board stufte die Exchange-Online-Intrusion als vermeidbar ein und kritisierte Microsofts Security-Governance sowie Transparenz.' },
         severity: 'major',
         date: '2024-04-02',
         sourceUrl: 'https://www.cisa.gov/resources-tools/resources/CSRB-Review-Summer-2023-MEO-Intrusion',
@@ -2846,7 +2869,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-midnight-blizzard-corporate-breach-2024',
         text: 'Microsoft reported that the Midnight Blizzard actor accessed parts of corporate email, source code repositories, and internal systems in 2024.',
-        textDe: 'Microsoft berichtete 2024, dass die Gruppe Midnight Blizzard auf Teile von Unternehmens-E-Mail, Source-Code-Repositories und interne Systeme zugriff.',
+        localizedTexts: { de: 'Microsoft berichtete 2024, dass die Gruppe Midnight Blizzard auf Teile von Unternehmens-E-Mail, Source-Code-Repositories und interne Systeme zugriff.' },
         severity: 'major',
         date: '2024-03-08',
         sourceUrl: 'https://www.microsoft.com/en-us/msrc/blog/2024/03/update-on-microsoft-actions-following-attack-by-nation-state-actor-midnight-blizzard/',
@@ -2854,7 +2877,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-edps-m365-infringement-2024',
         text: 'The EDPS found that the European Commission\'s Microsoft 365 setup infringed EU-institution data-protection rules, highlighting transfer and purpose-limitation risk at Microsoft vendor boundary.',
-        textDe: 'Der EDPS stellte fest, dass die Microsoft-365-Nutzung der EU-Kommission gegen Datenschutzregeln für EU-Institutionen verstiess und damit Transfer- sowie Zweckbindungsrisiken an der Microsoft-Vendor-Boundary sichtbar machte.',
+        localizedTexts: { de: 'Der EDPS stellte fest, dass die Microsoft-365-Nutzung der EU-Kommission gegen Datenschutzregeln für EU-Institutionen verstiess und damit Transfer- sowie Zweckbindungsrisiken an der Microsoft-Vendor-Boundary sichtbar machte.' },
         severity: 'major',
         date: '2024-03-08',
         sourceUrl: 'https://www.edps.europa.eu/data-protection/our-work/publications/investigations/2024-03-08-edps-investigation-european-commissions-use-microsoft-365_en',
@@ -2862,35 +2885,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-kev-active-exploitation-pressure',
         text: 'CISA\'s Known Exploited Vulnerabilities catalog contains multiple Windows CVEs, indicating persistent in-the-wild exploitation pressure and tight patching requirements.',
-        textDe: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthält mehrere Windows-CVEs und zeigt damit anhaltenden In-the-Wild-Ausnutzungsdruck sowie enge Patch-Anforderungen.',
+        localizedTexts: { de: 'Der CISA-Katalog der Known Exploited Vulnerabilities enthält mehrere Windows-CVEs und zeigt damit anhaltenden In-the-Wild-Ausnutzungsdruck sowie enge Patch-Anforderungen.' },
         severity: 'major',
         sourceUrl: 'https://www.cisa.gov/known-exploited-vulnerabilities-catalog',
       },
       {
         id: 'windows-diagnostic-data-and-tailored-experiences',
         text: 'Microsoft documents required and optional Windows diagnostic data flows; optional signals can be used for product improvement and personalized experiences when enabled.',
-        textDe: 'Microsoft dokumentiert erforderliche und optionale Windows-Diagnosedatenflüsse; optionale Signale können bei Aktivierung für Produktverbesserung und personalisierte Erfahrungen genutzt werden.',
+        localizedTexts: { de: 'Microsoft dokumentiert erforderliche und optionale Windows-Diagnosedatenflüsse; optionale Signale können bei Aktivierung für Produktverbesserung und personalisierte Erfahrungen genutzt werden.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.microsoft.com/en-us/data-collection-windows',
       },
       {
         id: 'windows-cross-border-transfer-disclosure',
         text: 'Microsoft\'s privacy statement discloses international cross-border processing and transfer of personal data, which must be modeled in sovereignty risk assessments.',
-        textDe: 'Microsofts Privacy Statement nennt internationale grenzüberschreitende Verarbeitung und Übermittlung personenbezogener Daten, was in Souveränitäts-Risikoanalysen berücksichtigt werden muss.',
+        localizedTexts: { de: 'Microsofts Privacy Statement nennt internationale grenzüberschreitende Verarbeitung und Übermittlung personenbezogener Daten, was in Souveränitäts-Risikoanalysen berücksichtigt werden muss.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.microsoft.com/en-us/privacystatement',
       },
       {
         id: 'windows-us-legal-process-exposure',
         text: 'US law (18 U.S.C. 2713) allows compelled disclosure of customer data under provider control regardless of where data is stored, limiting sovereignty guarantees for US-headquartered vendors.',
-        textDe: 'US-Recht (18 U.S.C. 2713) ermöglicht die erzwungene Offenlegung von Kundendaten unter Provider-Kontrolle unabhängig vom Speicherort und begrenzt damit Souveränitätszusagen bei US-Hauptsitz.',
+        localizedTexts: { de: 'US-Recht (18 U.S.C. 2713) ermöglicht die erzwungene Offenlegung von Kundendaten unter Provider-Kontrolle unabhängig vom Speicherort und begrenzt damit Souveränitätszusagen bei US-Hauptsitz.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'windows-security-logging-tier-history-2023',
         text: 'CISA stated that some critical Microsoft cloud security logs had required higher-cost licensing before broader logging access changes were rolled out.',
-        textDe: 'CISA stellte fest, dass einige kritische Microsoft-Cloud-Sicherheitslogs vor erweiterten Logging-Änderungen nur mit höherpreisiger Lizenz verfügbar waren.',
+        localizedTexts: { de: 'CISA stellte fest, dass einige kritische Microsoft-Cloud-Sicherheitslogs vor erweiterten Logging-Änderungen nur mit höherpreisiger Lizenz verfügbar waren.' },
         severity: 'moderate',
         date: '2023-07-19',
         sourceUrl: 'https://www.cisa.gov/news-events/news/cisa-and-microsoft-partnership-expands-access-logging-capabilities-broadly',
@@ -2898,14 +2921,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-cumulative-update-regression-risk',
         text: 'Windows uses a cumulative servicing model and Microsoft publishes release-health known issues/safeguard holds, which indicates recurring update-regression risk that operators must plan for.',
-        textDe: 'Windows nutzt ein kumulatives Servicing-Modell und Microsoft veröffentlicht Release-Health-Known-Issues bzw. Safeguard Holds, was wiederkehrende Update-Regressionsrisiken zeigt, die Betreiber einplanen müssen.',
+        localizedTexts: { de: 'Windows nutzt ein kumulatives Servicing-Modell und Microsoft veröffentlicht Release-Health-Known-Issues bzw. Safeguard Holds, was wiederkehrende Update-Regressionsrisiken zeigt, die Betreiber einplanen müssen.' },
         severity: 'moderate',
         sourceUrl: 'https://learn.microsoft.com/en-us/windows/release-health/',
       },
       {
         id: 'windows-teams-bundling-antitrust-commitments-2025',
         text: 'Microsoft accepted long-running EU antitrust commitments on Teams bundling, including suites without Teams and interoperability/data-portability obligations.',
-        textDe: 'Microsoft akzeptierte langlaufende EU-Antitrust-Verpflichtungen zur Teams-Bündelung, einschliesslich Suites ohne Teams sowie Interoperabilitäts- und Datenportabilitätsauflagen.',
+        localizedTexts: { de: 'Microsoft akzeptierte langlaufende EU-Antitrust-Verpflichtungen zur Teams-Bündelung, einschliesslich Suites ohne Teams sowie Interoperabilitäts- und Datenportabilitätsauflagen.' },
         severity: 'moderate',
         date: '2025-09-12',
         sourceUrl: 'https://apnews.com/article/61a94a85f04df5183f2b8f81bc9468e5',
@@ -2913,7 +2936,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-copilot-pricing-accc-2025',
         text: 'Australia\'s ACCC sued Microsoft over allegedly misleading Microsoft 365 subscribers about Copilot-linked price increases and downgrade options.',
-        textDe: 'Die australische ACCC verklagte Microsoft wegen mutmasslich irreführender Kommunikation zu Copilot-bedingten Microsoft-365-Preiserhöhungen und Downgrade-Optionen.',
+        localizedTexts: { de: 'Die australische ACCC verklagte Microsoft wegen mutmasslich irreführender Kommunikation zu Copilot-bedingten Microsoft-365-Preiserhöhungen und Downgrade-Optionen.' },
         severity: 'moderate',
         date: '2025-10-27',
         sourceUrl: 'https://www.accc.gov.au/media-release/microsoft-in-court-for-allegedly-misleading-millions-of-australians-over-microsoft-365-subscriptions',
@@ -2921,7 +2944,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-10-end-of-support-migration-pressure',
         text: 'Windows 10 support ended on October 14, 2025, creating lifecycle-driven migration/ESU pressure for organizations that could not transition in time.',
-        textDe: 'Der Support für Windows 10 endete am 14. Oktober 2025 und erzeugte lifecycle-bedingten Migrations-/ESU-Druck für Organisationen, die nicht rechtzeitig umstellen konnten.',
+        localizedTexts: { de: 'Der Support für Windows 10 endete am 14. Oktober 2025 und erzeugte lifecycle-bedingten Migrations-/ESU-Druck für Organisationen, die nicht rechtzeitig umstellen konnten.' },
         severity: 'moderate',
         date: '2025-10-14',
         sourceUrl: 'https://support.microsoft.com/en-us/windows/windows-10-support-ends-on-october-14-2025-2ca8b313-1946-43d3-b55c-2b95b107f281',
@@ -2929,7 +2952,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'windows-services-agreement-content-license-scope',
         text: 'Microsoft Services Agreement keeps user ownership but grants Microsoft broad rights needed to operate and improve services, which should be reviewed for sensitive data governance.',
-        textDe: 'Das Microsoft Services Agreement belässt das Eigentum bei Nutzern, räumt Microsoft aber breite Rechte zum Betrieb und zur Verbesserung von Diensten ein; für sensible Data-Governance sollte das explizit geprüft werden.',
+        localizedTexts: { de: 'Das Microsoft Services Agreement belässt das Eigentum bei Nutzern, räumt Microsoft aber breite Rechte zum Betrieb und zur Verbesserung von Diensten ein; für sensible Data-Governance sollte das explizit geprüft werden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.microsoft.com/en-us/servicesagreement',
       },
@@ -2939,27 +2962,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.7,
     description:
         'US-operated AI platform with strong enterprise security and compliance controls, but trust is reduced by consumer-tier training defaults, significant privacy enforcement, litigation-driven retention overrides, and notable incident history.',
-    descriptionDe:
-        'US-AI-Plattform mit starken Enterprise-Security- und Compliance-Kontrollen, deren Vertrauen jedoch durch Trainings-Defaults im Consumer-Tier, signifikante Privacy-Verfahren, litigation-getriebene Retention-Overrides und relevante Incident-Historie sinkt.',
+    localizedDescriptions: {
+      de: 'US-AI-Plattform mit starken Enterprise-Security- und Compliance-Kontrollen, deren Vertrauen jedoch durch Trainings-Defaults im Consumer-Tier, signifikante Privacy-Verfahren, litigation-getriebene Retention-Overrides und relevante Incident-Historie sinkt.',
+    },
     reservations: [
       {
         id: 'openai-us-legal-process-exposure',
         text: 'As a US provider, OpenAI can be compelled under US legal-process frameworks, so EU-region setup choices alone do not eliminate disclosure-risk exposure.',
-        textDe: 'Als US-Anbieter kann OpenAI unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Regionseinstellungen beseitigen dieses Offenlegungsrisiko daher nicht.',
+        localizedTexts: { de: 'Als US-Anbieter kann OpenAI unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Regionseinstellungen beseitigen dieses Offenlegungsrisiko daher nicht.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'openai-consumer-training-default-opt-out',
         text: 'OpenAI policy states that consumer ChatGPT content may be used to improve models unless users opt out, creating default governance risk for sensitive workflows.',
-        textDe: 'Die OpenAI-Policy nennt, dass Inhalte aus dem Consumer-ChatGPT zur Modellverbesserung genutzt werden können, sofern Nutzer nicht aktiv widersprechen; das erzeugt ein Default-Governance-Risiko für sensible Workflows.',
+        localizedTexts: { de: 'Die OpenAI-Policy nennt, dass Inhalte aus dem Consumer-ChatGPT zur Modellverbesserung genutzt werden können, sofern Nutzer nicht aktiv widersprechen; das erzeugt ein Default-Governance-Risiko für sensible Workflows.' },
         severity: 'major',
         sourceUrl: 'https://openai.com/policies/how-your-data-is-used-to-improve-model-performance/',
       },
       {
         id: 'openai-gdpr-fine-italy-2024',
         text: 'Italy\'s data protection authority fined OpenAI EUR 15M in December 2024 over ChatGPT privacy and transparency issues.',
-        textDe: 'Die italienische Datenschutzaufsicht verhängte im Dezember 2024 eine Strafe von 15 Mio. EUR gegen OpenAI wegen ChatGPT-Privacy- und Transparenzthemen.',
+        localizedTexts: { de: 'Die italienische Datenschutzaufsicht verhängte im Dezember 2024 eine Strafe von 15 Mio. EUR gegen OpenAI wegen ChatGPT-Privacy- und Transparenzthemen.' },
         severity: 'major',
         date: '2024-12-20',
         sourceUrl: 'https://apnews.com/article/6760575ae7a29a1dd22cc666f49e605f',
@@ -2967,7 +2991,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-chat-history-exposure-2023',
         text: 'OpenAI disclosed a March 2023 bug that exposed some users to other users\' chat titles and limited billing metadata.',
-        textDe: 'OpenAI legte im März 2023 einen Bug offen, durch den einige Nutzer fremde Chat-Titel und begrenzte Billing-Metadaten sehen konnten.',
+        localizedTexts: { de: 'OpenAI legte im März 2023 einen Bug offen, durch den einige Nutzer fremde Chat-Titel und begrenzte Billing-Metadaten sehen konnten.' },
         severity: 'major',
         date: '2023-03-24',
         sourceUrl: 'https://openai.com/index/march-20-chatgpt-outage/',
@@ -2975,7 +2999,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-litigation-legal-hold-retention-2025',
         text: 'OpenAI stated in 2025 that court-ordered legal holds can require retaining content beyond normal deletion expectations, increasing compliance unpredictability.',
-        textDe: 'OpenAI erklärte 2025, dass gerichtlich angeordnete Legal Holds Inhalte über normale Löschfristen hinaus aufbewahren können, was Compliance-Planung unvorhersehbarer macht.',
+        localizedTexts: { de: 'OpenAI erklärte 2025, dass gerichtlich angeordnete Legal Holds Inhalte über normale Löschfristen hinaus aufbewahren können, was Compliance-Planung unvorhersehbarer macht.' },
         severity: 'major',
         date: '2025-06-05',
         sourceUrl: 'https://openai.com/index/response-to-nyt-data-demands/',
@@ -2983,7 +3007,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-third-party-analytics-incident-2025',
         text: 'OpenAI reported a 2025 third-party analytics incident involving Mixpanel data for some API users, underscoring subprocessor exposure risk.',
-        textDe: 'OpenAI meldete 2025 einen Drittanbieter-Analytics-Vorfall mit Mixpanel-Daten bei einigen API-Nutzern, was Subprozessor-Risiken unterstreicht.',
+        localizedTexts: { de: 'OpenAI meldete 2025 einen Drittanbieter-Analytics-Vorfall mit Mixpanel-Daten bei einigen API-Nutzern, was Subprozessor-Risiken unterstreicht.' },
         severity: 'moderate',
         date: '2025-11-26',
         sourceUrl: 'https://status.openai.com/incidents/01K91M8C5DBNFRFC8R55D7Q1EW',
@@ -2991,7 +3015,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-edpb-chatgpt-taskforce-findings-2024',
         text: 'The EDPB ChatGPT Taskforce report documented cross-authority GDPR concerns around lawful basis, transparency, and personal-data processing in LLM training contexts.',
-        textDe: 'Der EDPB-ChatGPT-Taskforce-Report dokumentierte behordenübergreifende DSGVO-Bedenken zu Rechtsgrundlage, Transparenz und Verarbeitung personenbezogener Daten in LLM-Trainingskontexten.',
+        localizedTexts: { de: 'Der EDPB-ChatGPT-Taskforce-Report dokumentierte behordenübergreifende DSGVO-Bedenken zu Rechtsgrundlage, Transparenz und Verarbeitung personenbezogener Daten in LLM-Trainingskontexten.' },
         severity: 'moderate',
         date: '2024-05-23',
         sourceUrl: 'https://www.edpb.europa.eu/our-work-tools/our-documents/other/report-work-undertaken-chatgpt-taskforce_en',
@@ -2999,7 +3023,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-nyt-copyright-lawsuit-2023',
         text: 'The New York Times sued OpenAI and Microsoft over alleged unauthorized training on journalism content, creating ongoing copyright and model-governance litigation risk.',
-        textDe: 'Die New York Times verklagte OpenAI und Microsoft wegen mutmasslich nicht autorisierten Trainings mit journalistischen Inhalten, was fortlaufende Copyright- und Model-Governance-Litigation-Risiken schafft.',
+        localizedTexts: { de: 'Die New York Times verklagte OpenAI und Microsoft wegen mutmasslich nicht autorisierten Trainings mit journalistischen Inhalten, was fortlaufende Copyright- und Model-Governance-Litigation-Risiken schafft.' },
         severity: 'moderate',
         date: '2023-12-27',
         sourceUrl: 'https://apnews.com/article/6ea53a8ad3efa06ee4643b697df0ba57',
@@ -3007,7 +3031,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-safety-priority-dispute-2024',
         text: 'A former OpenAI safety lead said safety had taken a backseat to product launches, signaling internal governance and prioritization friction.',
-        textDe: 'Ein ehemaliger OpenAI-Safety-Lead sagte, Sicherheit habe gegenüber Produkt-Launches an Priorität verloren, was interne Governance- und Priorisierungs-Reibungen signalisiert.',
+        localizedTexts: { de: 'Ein ehemaliger OpenAI-Safety-Lead sagte, Sicherheit habe gegenüber Produkt-Launches an Priorität verloren, was interne Governance- und Priorisierungs-Reibungen signalisiert.' },
         severity: 'moderate',
         date: '2024-05-17',
         sourceUrl: 'https://apnews.com/article/8a7ba341e06a66e9a7935bb06214edcb',
@@ -3015,7 +3039,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'openai-output-competition-restriction',
         text: 'OpenAI terms restrict using output to develop models that compete with OpenAI, which increases long-term strategic lock-in risk.',
-        textDe: 'Die OpenAI-Bedingungen beschränken die Nutzung von Output für konkurrierende Modelle und erhöhen damit langfristiges strategisches Lock-in-Risiko.',
+        localizedTexts: { de: 'Die OpenAI-Bedingungen beschränken die Nutzung von Output für konkurrierende Modelle und erhöhen damit langfristiges strategisches Lock-in-Risiko.' },
         severity: 'moderate',
         sourceUrl: 'https://openai.com/policies/terms-of-use/',
       },
@@ -3025,83 +3049,84 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.2,
     description:
         'US-operated frontier AI platform with strong commercial no-training and DPA controls, but trust is reduced by US data-jurisdiction exposure, consumer-tier training defaults, high-severity agent-tooling vulnerability history, and active copyright/scraping litigation pressure.',
-    descriptionDe:
-        'US-Frontier-AI-Plattform mit starken kommerziellen No-Training- und DPA-Kontrollen; das Vertrauen sinkt jedoch durch US-Jurisdiktionsrisiken bei Daten, Trainings-Defaults im Consumer-Tier, hochrelevante Schwachstellen im Agent-Tooling und laufenden Copyright-/Scraping-Litigation-Druck.',
+    localizedDescriptions: {
+      de: 'US-Frontier-AI-Plattform mit starken kommerziellen No-Training- und DPA-Kontrollen; das Vertrauen sinkt jedoch durch US-Jurisdiktionsrisiken bei Daten, Trainings-Defaults im Consumer-Tier, hochrelevante Schwachstellen im Agent-Tooling und laufenden Copyright-/Scraping-Litigation-Druck.',
+    },
     reservations: [
       {
         id: 'anthropic-us-legal-process-exposure',
         text: 'As a US provider, Anthropic can be compelled under US legal-process frameworks, so regional routing settings alone do not remove jurisdictional disclosure exposure.',
-        textDe: 'Als US-Anbieter kann Anthropic unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine regionale Routing-Einstellungen beseitigen dieses Jurisdiktionsrisiko nicht.',
+        localizedTexts: { de: 'Als US-Anbieter kann Anthropic unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine regionale Routing-Einstellungen beseitigen dieses Jurisdiktionsrisiko nicht.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'anthropic-commercial-data-stored-in-us',
         text: 'Anthropic documents that commercial traffic can be routed regionally, but customer data is stored in the United States.',
-        textDe: 'Anthropic dokumentiert, dass kommerzieller Traffic regional geroutet werden kann, Kundendaten jedoch in den USA gespeichert werden.',
+        localizedTexts: { de: 'Anthropic dokumentiert, dass kommerzieller Traffic regional geroutet werden kann, Kundendaten jedoch in den USA gespeichert werden.' },
         severity: 'major',
         sourceUrl: 'https://privacy.claude.com/en/articles/10023595-where-is-my-data-stored-and-processed',
       },
       {
         id: 'anthropic-consumer-training-default-opt-out',
         text: 'Anthropic states consumer Claude data may be used for model training by default unless users disable training, creating governance risk for sensitive personal use.',
-        textDe: 'Anthropic gibt an, dass Consumer-Claude-Daten standardmässig für Modelltraining genutzt werden können, sofern Nutzer das Training nicht deaktivieren; das erzeugt Governance-Risiken für sensible private Nutzung.',
+        localizedTexts: { de: 'Anthropic gibt an, dass Consumer-Claude-Daten standardmässig für Modelltraining genutzt werden können, sofern Nutzer das Training nicht deaktivieren; das erzeugt Governance-Risiken für sensible private Nutzung.' },
         severity: 'major',
         sourceUrl: 'https://privacy.claude.com/en/articles/7996866-how-do-you-use-my-data-in-model-training',
       },
       {
         id: 'anthropic-opt-out-exceptions-safety-feedback',
         text: 'Anthropic\'s privacy policy states that even after opting out, inputs/outputs may still be used for model improvement when content is flagged for safety review or explicitly reported through feedback channels.',
-        textDe: 'Die Anthropic-Datenschutzrichtlinie nennt, dass Inputs/Outputs selbst nach einem Opt-out weiterhin zur Modellverbesserung genutzt werden können, wenn Inhalte für Safety-Review markiert oder explizit über Feedback-Kanäle gemeldet werden.',
+        localizedTexts: { de: 'Die Anthropic-Datenschutzrichtlinie nennt, dass Inputs/Outputs selbst nach einem Opt-out weiterhin zur Modellverbesserung genutzt werden können, wenn Inhalte für Safety-Review markiert oder explizit über Feedback-Kanäle gemeldet werden.' },
         severity: 'major',
         sourceUrl: 'https://www.anthropic.com/legal/privacy',
       },
       {
         id: 'anthropic-commercial-retention-exceptions',
         text: 'Anthropic documents that commercial API inputs/outputs are generally deleted within 30 days, but exceptions include Files API flows, legal obligations, usage-policy enforcement (up to 2 years for flagged content), and longer retention for some safety metadata.',
-        textDe: 'Anthropic dokumentiert, dass kommerzielle API-Inputs/-Outputs grundsätzlich innerhalb von 30 Tagen gelöscht werden, aber Ausnahmen u. a. Files-API-Flows, gesetzliche Pflichten, Usage-Policy-Durchsetzung (bis zu 2 Jahre für markierte Inhalte) und längere Aufbewahrung bestimmter Safety-Metadaten umfassen.',
+        localizedTexts: { de: 'Anthropic dokumentiert, dass kommerzielle API-Inputs/-Outputs grundsätzlich innerhalb von 30 Tagen gelöscht werden, aber Ausnahmen u. a. Files-API-Flows, gesetzliche Pflichten, Usage-Policy-Durchsetzung (bis zu 2 Jahre für markierte Inhalte) und längere Aufbewahrung bestimmter Safety-Metadaten umfassen.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/7996866-how-long-do-you-store-my-organization-s-data',
       },
       {
         id: 'anthropic-enterprise-default-indefinite-retention',
         text: 'Anthropic states that for Enterprise chat/project data, retention is indefinite by default unless an organization actively configures custom retention controls.',
-        textDe: 'Anthropic gibt an, dass bei Enterprise-Chat-/Projekt-Daten standardmässig eine unbegrenzte Aufbewahrung gilt, sofern eine Organisation nicht aktiv eigene Retention-Kontrollen konfiguriert.',
+        localizedTexts: { de: 'Anthropic gibt an, dass bei Enterprise-Chat-/Projekt-Daten standardmässig eine unbegrenzte Aufbewahrung gilt, sofern eine Organisation nicht aktiv eigene Retention-Kontrollen konfiguriert.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/10440198-custom-data-retention-controls-for-enterprise-plans',
       },
       {
         id: 'anthropic-assurance-documents-gated-via-trust-portal',
         text: 'Anthropic lists major certifications (for example SOC 2 Type I/II and ISO standards), but full compliance documentation is provided through trust-portal request workflows rather than fully public artifacts.',
-        textDe: 'Anthropic listet zentrale Zertifizierungen (z. B. SOC 2 Type I/II und ISO-Standards), stellt vollständige Compliance-Dokumentation jedoch über Trust-Portal-Request-Workflows statt vollständig öffentlicher Artefakte bereit.',
+        localizedTexts: { de: 'Anthropic listet zentrale Zertifizierungen (z. B. SOC 2 Type I/II und ISO-Standards), stellt vollständige Compliance-Dokumentation jedoch über Trust-Portal-Request-Workflows statt vollständig öffentlicher Artefakte bereit.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/10015870-what-certifications-has-anthropic-obtained',
       },
       {
         id: 'anthropic-public-web-crawling-future-opt-out-limit',
         text: 'Anthropic states ClaudeBot collects public web content for model development and that robots.txt restrictions signal only future materials should be excluded from training datasets.',
-        textDe: 'Anthropic gibt an, dass ClaudeBot öffentliche Webinhalte für die Modellentwicklung sammelt und dass robots.txt-Einschränkungen nur signalisieren, dass zukünftige Inhalte aus Trainingsdatensätzen ausgeschlossen werden sollen.',
+        localizedTexts: { de: 'Anthropic gibt an, dass ClaudeBot öffentliche Webinhalte für die Modellentwicklung sammelt und dass robots.txt-Einschränkungen nur signalisieren, dass zukünftige Inhalte aus Trainingsdatensätzen ausgeschlossen werden sollen.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/8896518-does-anthropic-crawl-data-from-the-web-and-how-can-site-owners-block-the-crawler',
       },
       {
         id: 'anthropic-training-data-public-web-and-third-party',
         text: 'Anthropic states model training may include publicly available web information, third-party licensed datasets, and user-provided data, reinforcing ongoing data-provenance and rights-governance complexity.',
-        textDe: 'Anthropic nennt, dass Modelltraining öffentlich verfügbare Webinformationen, lizenzierte Drittanbieter-Datensätze und nutzerbereitgestellte Daten umfassen kann; das verstärkt fortlaufende Komplexität bei Datenherkunft und Rechte-Governance.',
+        localizedTexts: { de: 'Anthropic nennt, dass Modelltraining öffentlich verfügbare Webinformationen, lizenzierte Drittanbieter-Datensätze und nutzerbereitgestellte Daten umfassen kann; das verstärkt fortlaufende Komplexität bei Datenherkunft und Rechte-Governance.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/7996885-how-do-you-use-personal-data-in-model-training',
       },
       {
         id: 'anthropic-government-request-disclosure-framework',
         text: 'Anthropic states it may disclose user information when presented with valid legal process and in qualifying emergency scenarios, reinforcing jurisdictional disclosure exposure.',
-        textDe: 'Anthropic gibt an, dass Nutzerinformationen bei gültigem Rechtsprozess sowie in qualifizierten Notfallszenarien offengelegt werden können; das unterstreicht Jurisdiktions- und Offenlegungsrisiken.',
+        localizedTexts: { de: 'Anthropic gibt an, dass Nutzerinformationen bei gültigem Rechtsprozess sowie in qualifizierten Notfallszenarien offengelegt werden können; das unterstreicht Jurisdiktions- und Offenlegungsrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.claude.com/en/articles/9519291-what-is-anthropic-s-policy-for-handling-governmental-requests-for-user-information',
       },
       {
         id: 'anthropic-claude-desktop-zero-click-rce-report-2025',
         text: 'LayerX reported a zero-click RCE class in Claude Desktop extension bundles and stated the issue was not immediately remediated, highlighting architecture-level agent-tooling risk.',
-        textDe: 'LayerX berichtete über eine Zero-Click-RCE-Klasse in Claude-Desktop-Extension-Bundles und gab an, dass das Problem nicht sofort behoben wurde; das zeigt ein architekturelles Risiko im Agent-Tooling.',
+        localizedTexts: { de: 'LayerX berichtete über eine Zero-Click-RCE-Klasse in Claude-Desktop-Extension-Bundles und gab an, dass das Problem nicht sofort behoben wurde; das zeigt ein architekturelles Risiko im Agent-Tooling.' },
         severity: 'major',
         date: '2025-08-12',
         sourceUrl: 'https://layerxsecurity.com/blog/anthropic-claude-desktop-zero-click-rce/',
@@ -3109,7 +3134,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'anthropic-contractor-ar-data-exposure-2024',
         text: 'Reporting in 2024 stated a contractor mistakenly sent accounts-receivable customer data to a third party, indicating third-party handling risk despite no prompt-content exposure.',
-        textDe: 'Berichte aus 2024 nennen, dass ein Auftragnehmer versehentlich Accounts-Receivable-Kundendaten an Dritte sendete; das zeigt Risiken beim Drittanbieter-Handling trotz fehlender Prompt-Inhaltsexposition.',
+        localizedTexts: { de: 'Berichte aus 2024 nennen, dass ein Auftragnehmer versehentlich Accounts-Receivable-Kundendaten an Dritte sendete; das zeigt Risiken beim Drittanbieter-Handling trotz fehlender Prompt-Inhaltsexposition.' },
         severity: 'major',
         date: '2024-01-24',
         sourceUrl: 'https://venturebeat.com/ai/anthropic-says-contractor-exposed-customer-data-via-email-mistake/',
@@ -3117,21 +3142,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'anthropic-mcp-inspector-rce-cve-2025-49596',
         text: 'CVE-2025-49596 disclosed an MCP Inspector remote-code-execution path before patched versions, underscoring security pressure in fast-moving agent tooling.',
-        textDe: 'CVE-2025-49596 dokumentierte vor gepatchten Versionen einen MCP-Inspector-Remote-Code-Execution-Pfad und unterstreicht Security-Druck in schnell wachsendem Agent-Tooling.',
+        localizedTexts: { de: 'CVE-2025-49596 dokumentierte vor gepatchten Versionen einen MCP-Inspector-Remote-Code-Execution-Pfad und unterstreicht Security-Druck in schnell wachsendem Agent-Tooling.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-49596',
       },
       {
         id: 'anthropic-claude-code-command-injection-cve-2025-54795',
         text: 'CVE-2025-54795 described a Claude Code command-injection issue where command-confirmation behavior could be bypassed before fixes.',
-        textDe: 'CVE-2025-54795 beschrieb ein Command-Injection-Problem in Claude Code, bei dem das Command-Confirmation-Verhalten vor verfügbaren Fixes umgangen werden konnte.',
+        localizedTexts: { de: 'CVE-2025-54795 beschrieb ein Command-Injection-Problem in Claude Code, bei dem das Command-Confirmation-Verhalten vor verfügbaren Fixes umgangen werden konnte.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-54795',
       },
       {
         id: 'anthropic-reddit-scraping-lawsuit-2025',
         text: 'Reddit sued Anthropic in 2025 over alleged unauthorized scraping and commercial use of Reddit content for AI training, creating unresolved litigation risk.',
-        textDe: 'Reddit verklagte Anthropic 2025 wegen mutmasslich nicht autorisiertem Scraping und kommerzieller Nutzung von Reddit-Inhalten für KI-Training; das erzeugt ungeloste Litigation-Risiken.',
+        localizedTexts: { de: 'Reddit verklagte Anthropic 2025 wegen mutmasslich nicht autorisiertem Scraping und kommerzieller Nutzung von Reddit-Inhalten für KI-Training; das erzeugt ungeloste Litigation-Risiken.' },
         severity: 'moderate',
         date: '2025-06-04',
         sourceUrl: 'https://apnews.com/article/reddit-anthropic-lawsuit-ai-claude-66f0088ba8f17f7fa708058c80fd32b9',
@@ -3139,7 +3164,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'anthropic-authors-copyright-settlement-2025',
         text: 'AP reported a proposed 2025 settlement structure tied to authors\' claims over alleged model-training use of books, increasing legal and governance uncertainty.',
-        textDe: 'AP berichtete 2025 über eine vorgeschlagene Vergleichsstruktur zu Autorenklagen wegen mutmasslicher Nutzung von Büchern für Modelltraining, was rechtliche und Governance-Unsicherheiten erhöht.',
+        localizedTexts: { de: 'AP berichtete 2025 über eine vorgeschlagene Vergleichsstruktur zu Autorenklagen wegen mutmasslicher Nutzung von Büchern für Modelltraining, was rechtliche und Governance-Unsicherheiten erhöht.' },
         severity: 'moderate',
         date: '2025-11-07',
         sourceUrl: 'https://apnews.com/article/anthropic-class-action-lawsuit-ai-books-39f0641fd06458ef9f529863623f3db3',
@@ -3147,7 +3172,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'anthropic-music-publishers-copyright-case-2025',
         text: 'Music publishers pursued copyright claims alleging Anthropic training and output use of protected lyrics, adding continuing IP litigation exposure.',
-        textDe: 'Musikverlage verfolgten Copyright-Ansprüche wegen mutmasslicher Anthropic-Training- und Output-Nutzung geschützter Songtexte und erhöhen damit fortlaufende IP-Litigation-Exposition.',
+        localizedTexts: { de: 'Musikverlage verfolgten Copyright-Ansprüche wegen mutmasslicher Anthropic-Training- und Output-Nutzung geschützter Songtexte und erhöhen damit fortlaufende IP-Litigation-Exposition.' },
         severity: 'moderate',
         date: '2025-03-25',
         sourceUrl: 'https://www.insurancejournal.com/news/national/2025/03/25/817007.htm',
@@ -3155,21 +3180,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'anthropic-account-migration-not-supported',
         text: 'Anthropic support documentation states profile migration/merge between Claude accounts is not currently supported, creating account-portability friction.',
-        textDe: 'Die Anthropic-Supportdokumentation nennt, dass Profile-Migration bzw. Zusammenführung zwischen Claude-Accounts derzeit nicht unterstützt wird, was Account-Portabilität erschwert.',
+        localizedTexts: { de: 'Die Anthropic-Supportdokumentation nennt, dass Profile-Migration bzw. Zusammenführung zwischen Claude-Accounts derzeit nicht unterstützt wird, was Account-Portabilität erschwert.' },
         severity: 'moderate',
         sourceUrl: 'https://support.anthropic.com/en/articles/9267400-can-i-migrate-or-merge-two-profiles-that-use-claude-ai',
       },
       {
         id: 'anthropic-output-competition-restriction',
         text: 'Anthropic commercial terms restrict using service output to build competing products, increasing long-term strategic lock-in risk.',
-        textDe: 'Die kommerziellen Anthropic-Bedingungen beschränken die Nutzung von Service-Output zum Aufbau konkurrierender Produkte und erhöhen damit langfristiges strategisches Lock-in-Risiko.',
+        localizedTexts: { de: 'Die kommerziellen Anthropic-Bedingungen beschränken die Nutzung von Service-Output zum Aufbau konkurrierender Produkte und erhöhen damit langfristiges strategisches Lock-in-Risiko.' },
         severity: 'moderate',
         sourceUrl: 'https://www.anthropic.com/legal/commercial-terms',
       },
       {
         id: 'anthropic-status-incident-frequency-2026',
         text: 'Anthropic\'s public status history shows recurring degraded-performance and error incidents, indicating non-trivial continuity risk for workflow-critical dependence.',
-        textDe: 'Die öffentliche Anthropic-Statushistorie zeigt wiederkehrende Incidents mit degradierter Performance und Fehlern und weist auf ein relevantes Kontinuitätsrisiko bei workflow-kritischer Abhängigkeit hin.',
+        localizedTexts: { de: 'Die öffentliche Anthropic-Statushistorie zeigt wiederkehrende Incidents mit degradierter Performance und Fehlern und weist auf ein relevantes Kontinuitätsrisiko bei workflow-kritischer Abhängigkeit hin.' },
         severity: 'minor',
         date: '2026-02-08',
         sourceUrl: 'https://status.anthropic.com/history',
@@ -3180,27 +3205,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 1.8,
     description:
         'US-operated web analytics platform with mature engineering and strong scale, but trust is materially reduced by ad-tech incentive conflicts, cross-border sovereignty exposure, EU transfer-enforcement history, and contract/data-governance asymmetries.',
-    descriptionDe:
-        'US-Web-Analytics-Plattform mit reifer Technik und hoher Skalierung; das Vertrauen sinkt jedoch deutlich durch ad-tech-getriebene Anreizkonflikte, grenzueberschreitende Souveraenitaetsrisiken, EU-Transfer-Durchsetzungshistorie sowie vertragliche und datenbezogene Governance-Asymmetrien.',
+    localizedDescriptions: {
+      de: 'US-Web-Analytics-Plattform mit reifer Technik und hoher Skalierung; das Vertrauen sinkt jedoch deutlich durch ad-tech-getriebene Anreizkonflikte, grenzueberschreitende Souveraenitaetsrisiken, EU-Transfer-Durchsetzungshistorie sowie vertragliche und datenbezogene Governance-Asymmetrien.',
+    },
     reservations: [
       {
         id: 'ga-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations for analytics workloads.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Analytics-Workloads kollidieren koennen.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Analytics-Workloads kollidieren koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'ga-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so EU data-location controls alone do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollstaendig.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; reine EU-Datenlokation beseitigt dieses Jurisdiktionsrisiko nicht vollstaendig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'ga-eu-transfer-enforcement-history',
         text: 'European supervisory authorities documented non-compliance findings for some Google Analytics transfer setups, highlighting persistent Chapter V GDPR transfer risk.',
-        textDe: 'Europaeische Aufsichtsbehoerden dokumentierten Non-Compliance-Befunde fuer bestimmte Google-Analytics-Transfer-Setups und unterstreichen damit fortbestehende Chapter-V-GDPR-Transfer-Risiken.',
+        localizedTexts: { de: 'Europaeische Aufsichtsbehoerden dokumentierten Non-Compliance-Befunde fuer bestimmte Google-Analytics-Transfer-Setups und unterstreichen damit fortbestehende Chapter-V-GDPR-Transfer-Risiken.' },
         severity: 'major',
         date: '2022-06-23',
         sourceUrl: 'https://www.edpb.europa.eu/news/national-news/2022/italian-sa-bans-use-google-analytics-no-adequate-safeguards-data-transfers_en',
@@ -3208,7 +3234,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ga-antitrust-adtech-ruling-2025',
         text: 'In 2025, EU antitrust enforcement found Google breached competition rules in ad-tech markets, increasing governance and remedy risk across measurement/ads-adjacent products.',
-        textDe: 'Im Jahr 2025 stellte die EU-Antitrust-Durchsetzung fest, dass Google im Ad-Tech-Markt gegen Wettbewerbsregeln verstiess; das erhoeht Governance- und Remedy-Risiken ueber messungs- und ads-nahe Produkte hinweg.',
+        localizedTexts: { de: 'Im Jahr 2025 stellte die EU-Antitrust-Durchsetzung fest, dass Google im Ad-Tech-Markt gegen Wettbewerbsregeln verstiess; das erhoeht Governance- und Remedy-Risiken ueber messungs- und ads-nahe Produkte hinweg.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://ec.europa.eu/commission/presscorner/detail/en/ip_25_1992',
@@ -3216,49 +3242,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ga-data-sharing-independent-controller',
         text: 'When specific data-sharing settings are enabled, Google documents controller-role changes for shared data, increasing sovereignty and governance complexity for operators.',
-        textDe: 'Wenn bestimmte Data-Sharing-Einstellungen aktiviert werden, dokumentiert Google Rollenverschiebungen hin zu unabhaengiger Controller-Verarbeitung fuer geteilte Daten, was Souveraenitaets- und Governance-Komplexitaet fuer Betreiber erhoeht.',
+        localizedTexts: { de: 'Wenn bestimmte Data-Sharing-Einstellungen aktiviert werden, dokumentiert Google Rollenverschiebungen hin zu unabhaengiger Controller-Verarbeitung fuer geteilte Daten, was Souveraenitaets- und Governance-Komplexitaet fuer Betreiber erhoeht.' },
         severity: 'major',
         sourceUrl: 'https://support.google.com/analytics/answer/1011397?hl=en',
       },
       {
         id: 'ga-cnil-formal-transfer-order',
         text: 'CNIL issued formal compliance orders against Google Analytics use in France due to insufficient safeguards for US data transfers in examined setups.',
-        textDe: 'Die CNIL erliess formelle Compliance-Anordnungen gegen die Nutzung von Google Analytics in Frankreich wegen unzureichender Schutzmassnahmen bei US-Datentransfers in geprueften Setups.',
+        localizedTexts: { de: 'Die CNIL erliess formelle Compliance-Anordnungen gegen die Nutzung von Google Analytics in Frankreich wegen unzureichender Schutzmassnahmen bei US-Datentransfers in geprueften Setups.' },
         severity: 'major',
         sourceUrl: 'https://www.cnil.fr/en/use-google-analytics-and-data-transfers-united-states-cnil-orders-website-manageroperator-comply',
       },
       {
         id: 'ga-dpf-stability-and-redress-concerns',
         text: 'EDPB noted improvements under the EU-US Data Privacy Framework while highlighting remaining concern areas, so transfer-risk assumptions still require active legal monitoring.',
-        textDe: 'Der EDPB bestaetigte Verbesserungen unter dem EU-US Data Privacy Framework, hob aber verbleibende Problemfelder hervor; Transfer-Risikoannahmen erfordern daher weiterhin aktive rechtliche Beobachtung.',
+        localizedTexts: { de: 'Der EDPB bestaetigte Verbesserungen unter dem EU-US Data Privacy Framework, hob aber verbleibende Problemfelder hervor; Transfer-Risikoannahmen erfordern daher weiterhin aktive rechtliche Beobachtung.' },
         severity: 'moderate',
         sourceUrl: 'https://www.edpb.europa.eu/news/news/2023/edpb-welcomes-improvements-under-eu-us-data-privacy-framework-concerns-remain_en',
       },
       {
         id: 'ga-scc-and-global-processing-dependency',
         text: 'Google Ads/Analytics processor terms describe global processing locations and transfer mechanisms (for example SCC-based pathways), increasing cross-border governance complexity.',
-        textDe: 'Die Google-Ads-/Analytics-Processor-AGB beschreiben globale Verarbeitungsorte und Transfermechanismen (z. B. SCC-basierte Pfade), was die grenzueberschreitende Governance-Komplexitaet erhoeht.',
+        localizedTexts: { de: 'Die Google-Ads-/Analytics-Processor-AGB beschreiben globale Verarbeitungsorte und Transfermechanismen (z. B. SCC-basierte Pfade), was die grenzueberschreitende Governance-Komplexitaet erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://privacy.google.com/businesses/processorterms/mccs/',
       },
       {
         id: 'ga-consent-mode-behavioral-modeling',
         text: 'Google Analytics consent mode uses behavioral modeling for users without analytics consent, which can add legal and interpretability complexity in regulated contexts.',
-        textDe: 'Der Google-Analytics-Consent-Mode nutzt Behavioral Modeling fuer Nutzer ohne Analytics-Consent und kann damit in regulierten Kontexten rechtliche sowie interpretative Komplexitaet erhoehen.',
+        localizedTexts: { de: 'Der Google-Analytics-Consent-Mode nutzt Behavioral Modeling fuer Nutzer ohne Analytics-Consent und kann damit in regulierten Kontexten rechtliche sowie interpretative Komplexitaet erhoehen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/analytics/answer/11161109?hl=en',
       },
       {
         id: 'ga-sensitive-data-collection-misconfiguration-risk',
         text: 'Google policy places responsibility on implementers to avoid sending prohibited or sensitive data, so misconfigured tracking can create material compliance and disclosure risk.',
-        textDe: 'Die Google-Richtlinie legt die Verantwortung bei Implementierern, keine verbotenen oder sensiblen Daten zu senden; fehlkonfiguriertes Tracking kann daher erhebliche Compliance- und Offenlegungsrisiken erzeugen.',
+        localizedTexts: { de: 'Die Google-Richtlinie legt die Verantwortung bei Implementierern, keine verbotenen oder sensiblen Daten zu senden; fehlkonfiguriertes Tracking kann daher erhebliche Compliance- und Offenlegungsrisiken erzeugen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/analytics/answer/6366371?hl=en',
       },
       {
         id: 'ga-health-sector-misconfiguration-litigation-exposure',
         text: 'Reporting in 2025 described that Blue Shield of California disclosed private health data to Google over multiple years via analytics/ads tooling, underscoring severe operator-misconfiguration and litigation exposure risk.',
-        textDe: 'Berichte aus 2025 beschrieben, dass Blue Shield of California ueber mehrere Jahre private Gesundheitsdaten ueber Analytics-/Ads-Tooling an Google offengelegt hat; das unterstreicht schwerwiegende Risiken durch Betreiber-Fehlkonfiguration und Litigation-Exposition.',
+        localizedTexts: { de: 'Berichte aus 2025 beschrieben, dass Blue Shield of California ueber mehrere Jahre private Gesundheitsdaten ueber Analytics-/Ads-Tooling an Google offengelegt hat; das unterstreicht schwerwiegende Risiken durch Betreiber-Fehlkonfiguration und Litigation-Exposition.' },
         severity: 'major',
         date: '2025-04-23',
         sourceUrl: 'https://techcrunch.com/2025/04/23/blue-shield-of-california-shared-the-private-health-data-of-millions-with-google-for-years/',
@@ -3266,42 +3292,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ga-third-party-plugin-cve-surface',
         text: 'Public CVE records include recurring Google-Analytics-related findings in third-party plugins/integrations, highlighting ecosystem supply-chain risk outside GA core SaaS.',
-        textDe: 'Oeffentliche CVE-Register enthalten wiederkehrende Google-Analytics-bezogene Befunde in Drittanbieter-Plugins und Integrationen; das unterstreicht Supply-Chain-Risiken ausserhalb des GA-Core-SaaS.',
+        localizedTexts: { de: 'Oeffentliche CVE-Register enthalten wiederkehrende Google-Analytics-bezogene Befunde in Drittanbieter-Plugins und Integrationen; das unterstreicht Supply-Chain-Risiken ausserhalb des GA-Core-SaaS.' },
         severity: 'moderate',
         sourceUrl: 'https://www.cve.org/CVERecord/SearchResults?query=google%20analytics',
       },
       {
         id: 'ga-termination-historical-report-data-unavailable',
         text: 'Google Analytics terms state that historical report data may no longer be available after termination, creating retention and continuity risk without pre-planned exports.',
-        textDe: 'Die Google-Analytics-Bedingungen nennen, dass historische Report-Daten nach Beendigung moeglicherweise nicht mehr verfuegbar sind; ohne vorab geplante Exporte entsteht dadurch Retention- und Kontinuitaetsrisiko.',
+        localizedTexts: { de: 'Die Google-Analytics-Bedingungen nennen, dass historische Report-Daten nach Beendigung moeglicherweise nicht mehr verfuegbar sind; ohne vorab geplante Exporte entsteht dadurch Retention- und Kontinuitaetsrisiko.' },
         severity: 'moderate',
         sourceUrl: 'https://marketingplatform.google.com/about/analytics/terms/us/',
       },
       {
         id: 'ga-liability-cap-usd-500',
         text: 'Google Analytics terms include a low liability cap (USD 500) and broad disclaimers, creating contractual asymmetry in vendor-failure scenarios.',
-        textDe: 'Die Google-Analytics-Bedingungen enthalten eine niedrige Haftungsobergrenze (500 USD) und breite Haftungsausschluesse, was in Vendor-Failure-Szenarien vertragliche Asymmetrie erzeugt.',
+        localizedTexts: { de: 'Die Google-Analytics-Bedingungen enthalten eine niedrige Haftungsobergrenze (500 USD) und breite Haftungsausschluesse, was in Vendor-Failure-Szenarien vertragliche Asymmetrie erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://marketingplatform.google.com/about/analytics/terms/us/',
       },
       {
         id: 'ga-thresholding-and-sampling-reproducibility-friction',
         text: 'GA4 thresholding and sampling behavior can reduce report reproducibility for narrow segments, adding audit and attribution friction in sensitive measurement workflows.',
-        textDe: 'GA4-Thresholding- und Sampling-Verhalten kann die Reproduzierbarkeit von Reports bei engen Segmenten reduzieren und erzeugt damit Audit- sowie Attributionsreibung in sensiblen Mess-Workflows.',
+        localizedTexts: { de: 'GA4-Thresholding- und Sampling-Verhalten kann die Reproduzierbarkeit von Reports bei engen Segmenten reduzieren und erzeugt damit Audit- sowie Attributionsreibung in sensiblen Mess-Workflows.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/analytics/answer/9383630?hl=en',
       },
       {
         id: 'ga-ua-to-ga4-historical-data-not-importable',
         text: 'Google documents that Universal Analytics historical data cannot be imported into GA4, which creates migration continuity and historical-comparison limits.',
-        textDe: 'Google dokumentiert, dass historische Universal-Analytics-Daten nicht in GA4 importiert werden koennen; das erzeugt Grenzen bei Migrationskontinuitaet und historischen Vergleichen.',
+        localizedTexts: { de: 'Google dokumentiert, dass historische Universal-Analytics-Daten nicht in GA4 importiert werden koennen; das erzeugt Grenzen bei Migrationskontinuitaet und historischen Vergleichen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/analytics/answer/14196937?hl=en',
       },
       {
         id: 'ga-ga-dev-tools-backlog-and-staleness-signal',
         text: 'Google Analytics open-source companion tooling remains public, but backlog and stale-project signals in community repos can increase integration-maintenance friction for developers.',
-        textDe: 'Google-Analytics-Open-Source-Begleittooling ist zwar oeffentlich, aber Backlog- und Staleness-Signale in Community-Repositories koennen die Integrationswartung fuer Entwickler erschweren.',
+        localizedTexts: { de: 'Google-Analytics-Open-Source-Begleittooling ist zwar oeffentlich, aber Backlog- und Staleness-Signale in Community-Repositories koennen die Integrationswartung fuer Entwickler erschweren.' },
         severity: 'minor',
         sourceUrl: 'https://github.com/googleanalytics/ga-dev-tools',
       },
@@ -3311,27 +3337,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.0,
     description:
         'US-operated search platform with strong engineering depth, but ad-driven data monetization, AI training defaults, and major legal findings materially reduce trust.',
-    descriptionDe:
-        'US-Suchplattform mit starker technischer Reife, deren Vertrauen aber durch werbegetriebene Datennutzung, KI-Trainings-Defaults und schwere Rechtsbefunde deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Suchplattform mit starker technischer Reife, deren Vertrauen aber durch werbegetriebene Datennutzung, KI-Trainings-Defaults und schwere Rechtsbefunde deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'search-ad-surveillance-business-model',
         text: 'Google Search is monetized via advertising and personalization signals, creating a structural conflict with strict privacy-first expectations.',
-        textDe: 'Google Search wird über Werbung und Personalisierungssignale monetarisiert, was einen strukturellen Konflikt mit strikten Privacy-First-Erwartungen schafft.',
+        localizedTexts: { de: 'Google Search wird über Werbung und Personalisierungssignale monetarisiert, was einen strukturellen Konflikt mit strikten Privacy-First-Erwartungen schafft.' },
         severity: 'major',
         sourceUrl: 'https://policies.google.com/privacy',
       },
       {
         id: 'search-default-ai-training-controls',
         text: 'Google states Search interactions can be used to improve generative AI models, including signed-out searches and aggregated/anonymized usage even after certain controls are disabled.',
-        textDe: 'Google dokumentiert, dass Search-Interaktionen zur Verbesserung generativer KI genutzt werden können, einschliesslich ausgeloggter Suchen und aggregierter/anonymisierter Nutzung auch bei deaktivierten Kontrollen.',
+        localizedTexts: { de: 'Google dokumentiert, dass Search-Interaktionen zur Verbesserung generativer KI genutzt werden können, einschliesslich ausgeloggter Suchen und aggregierter/anonymisierter Nutzung auch bei deaktivierten Kontrollen.' },
         severity: 'major',
         sourceUrl: 'https://support.google.com/websearch/answer/14901683',
       },
       {
         id: 'search-antitrust-monopoly-finding',
         text: 'The US court found Google maintained an illegal search monopoly, and remedies now impose restrictions tied to default-distribution and data access.',
-        textDe: 'Das US-Gericht stellte fest, dass Google ein illegales Suchmonopol aufrechterhalten hat; die verhängten Auflagen betreffen unter anderem Default-Distribution und Datenzugang.',
+        localizedTexts: { de: 'Das US-Gericht stellte fest, dass Google ein illegales Suchmonopol aufrechterhalten hat; die verhängten Auflagen betreffen unter anderem Default-Distribution und Datenzugang.' },
         severity: 'major',
         date: '2024-08-05',
         sourceUrl: 'https://apnews.com/article/846916fda0943c5fa359385044a02c8b',
@@ -3339,7 +3366,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'search-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations, including location tracking and incognito-related practices.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD wegen Privacy-Vorwürfen zu, einschliesslich Standort-Tracking und Incognito-bezogener Praktiken.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD wegen Privacy-Vorwürfen zu, einschliesslich Standort-Tracking und Incognito-bezogener Praktiken.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -3347,7 +3374,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'search-us-controller-global-processing',
         text: 'Google privacy terms describe global processing and specify Google LLC as data controller for information indexed and displayed in Search regardless of user location.',
-        textDe: 'Googles Datenschutzhinweise beschreiben globale Verarbeitung und benennen Google LLC als Data Controller für in Search indexierte und angezeigte Informationen unabhängig vom Standort des Nutzers.',
+        localizedTexts: { de: 'Googles Datenschutzhinweise beschreiben globale Verarbeitung und benennen Google LLC als Data Controller für in Search indexierte und angezeigte Informationen unabhängig vom Standort des Nutzers.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/privacy',
       },
@@ -3357,34 +3384,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.2,
     description:
         'US-operated mapping platform with strong security/compliance and uptime transparency, but trust is materially reduced by location-privacy enforcement history, ad-driven incentives, US legal-process exposure, and restrictive Maps content terms that raise lock-in risk.',
-    descriptionDe:
-        'US-Kartenplattform mit starken Security-/Compliance-Signalen und transparenter Verfügbarkeitskommunikation; das Vertrauen sinkt jedoch deutlich durch Privacy-Durchsetzung bei Standortdaten, werbegetriebene Konzernanreize, US-Rechtszugriffsrisiken und restriktive Maps-Content-Bedingungen mit höherem Lock-in-Risiko.',
+    localizedDescriptions: {
+      de: 'US-Kartenplattform mit starken Security-/Compliance-Signalen und transparenter Verfügbarkeitskommunikation; das Vertrauen sinkt jedoch deutlich durch Privacy-Durchsetzung bei Standortdaten, werbegetriebene Konzernanreize, US-Rechtszugriffsrisiken und restriktive Maps-Content-Bedingungen mit höherem Lock-in-Risiko.',
+    },
     reservations: [
       {
         id: 'maps-ad-surveillance-business-model',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations for location-centric services.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an standortzentrierte Dienste kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an standortzentrierte Dienste kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'maps-us-legal-process-exposure',
         text: 'As a US-provider ecosystem, Google services can be subject to US legal-process disclosure obligations, which creates jurisdiction risk for sovereignty-sensitive map workloads.',
-        textDe: 'Als US-Anbieter-Ökosystem können Google-Dienste US-rechtlichen Herausgabepflichten unterliegen; für souveränitätssensible Karten-Workloads entsteht dadurch ein Jurisdiktionsrisiko.',
+        localizedTexts: { de: 'Als US-Anbieter-Ökosystem können Google-Dienste US-rechtlichen Herausgabepflichten unterliegen; für souveränitätssensible Karten-Workloads entsteht dadurch ein Jurisdiktionsrisiko.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'maps-provider-jurisdiction-llc-ireland-split',
         text: 'Google\'s information-requests policy differentiates between Google LLC and Google Ireland provider flows and legal-process handling, increasing cross-jurisdiction disclosure complexity for sovereignty-sensitive deployments.',
-        textDe: 'Googles Richtlinie zu Behördenanfragen unterscheidet zwischen Provider-Workflows von Google LLC und Google Ireland sowie der rechtlichen Bearbeitung; das erhöht die grenzüberschreitende Komplexität bei Herausgaben für souveränitätssensible Deployments.',
+        localizedTexts: { de: 'Googles Richtlinie zu Behördenanfragen unterscheidet zwischen Provider-Workflows von Google LLC und Google Ireland sowie der rechtlichen Bearbeitung; das erhöht die grenzüberschreitende Komplexität bei Herausgaben für souveränitätssensible Deployments.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/terms/information-requests?hl=en',
       },
       {
         id: 'maps-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations that included location-tracking practices, reinforcing location-data governance risk.',
-        textDe: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu; die Vorwürfe umfassten auch Standort-Tracking-Praktiken und verstärken damit Governance-Risiken bei Standortdaten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich über 1,375 Mrd. USD zu; die Vorwürfe umfassten auch Standort-Tracking-Praktiken und verstärken damit Governance-Risiken bei Standortdaten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -3392,7 +3420,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'maps-california-location-privacy-settlement-2023',
         text: 'California announced a $93M settlement in 2023 over allegations that Google deceived users about location-data collection and use for profiling/advertising without informed consent.',
-        textDe: 'Kalifornien gab 2023 einen Vergleich über 93 Mio. USD bekannt wegen Vorwürfen, Google habe Nutzer bei Erhebung und Nutzung von Standortdaten für Profiling/Werbung ohne informierte Einwilligung getäuscht.',
+        localizedTexts: { de: 'Kalifornien gab 2023 einen Vergleich über 93 Mio. USD bekannt wegen Vorwürfen, Google habe Nutzer bei Erhebung und Nutzung von Standortdaten für Profiling/Werbung ohne informierte Einwilligung getäuscht.' },
         severity: 'major',
         date: '2023-09-14',
         sourceUrl: 'https://oag.ca.gov/news/press-releases/attorney-general-bonta-announces-93-million-settlement-regarding-google%E2%80%99s',
@@ -3400,7 +3428,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'maps-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, indicating continuing market-power and governance pressure around the wider Google ecosystem.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und zeigen anhaltenden Marktmacht- und Governance-Druck im gesamten Google-Ökosystem.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und zeigen anhaltenden Marktmacht- und Governance-Druck im gesamten Google-Ökosystem.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -3408,35 +3436,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'maps-content-extraction-and-caching-restrictions',
         text: 'Maps Platform terms impose strict restrictions on extracting, resharing, or broadly caching Google Maps content, increasing migration and multi-vendor exit friction.',
-        textDe: 'Die Maps-Platform-Bedingungen setzen strikte Grenzen für Extraktion, Weitergabe und breites Caching von Google-Maps-Inhalten und erhöhen damit Migrations- sowie Multi-Vendor-Exit-Reibung.',
+        localizedTexts: { de: 'Die Maps-Platform-Bedingungen setzen strikte Grenzen für Extraktion, Weitergabe und breites Caching von Google-Maps-Inhalten und erhöhen damit Migrations- sowie Multi-Vendor-Exit-Reibung.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/maps/terms',
       },
       {
         id: 'maps-content-ml-training-restriction',
         text: 'Maps terms restrict using Google Maps content to train or validate external machine-learning models, limiting downstream data portability and model strategy flexibility.',
-        textDe: 'Die Maps-Bedingungen schränken die Nutzung von Google-Maps-Inhalten zum Trainieren oder Validieren externer Machine-Learning-Modelle ein und begrenzen damit Datenportabilität sowie Modellstrategie-Flexibilität.',
+        localizedTexts: { de: 'Die Maps-Bedingungen schränken die Nutzung von Google-Maps-Inhalten zum Trainieren oder Validieren externer Machine-Learning-Modelle ein und begrenzen damit Datenportabilität sowie Modellstrategie-Flexibilität.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/maps/terms',
       },
       {
         id: 'maps-community-supported-client-libraries',
         text: 'Official Google Maps client libraries are documented as community supported, not fully covered by Google’s standard deprecation/support commitments.',
-        textDe: 'Offizielle Google-Maps-Client-Bibliotheken sind als Community-supported dokumentiert und fallen nicht vollständig unter Googles Standard-Deprecation-/Support-Zusagen.',
+        localizedTexts: { de: 'Offizielle Google-Maps-Client-Bibliotheken sind als Community-supported dokumentiert und fallen nicht vollständig unter Googles Standard-Deprecation-/Support-Zusagen.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/googlemaps/google-maps-services-java',
       },
       {
         id: 'maps-billing-complexity-and-price-volatility',
         text: 'Google Maps Platform pricing has undergone major model changes and SKU-level billing complexity, creating ongoing cost-planning and bill-shock risk for integrators.',
-        textDe: 'Die Google-Maps-Platform-Bepreisung wurde mehrfach grundlegend geändert und bleibt auf SKU-Ebene komplex, was fortlaufende Risiken für Kostenplanung und Bill-Shocks bei Integratoren erzeugt.',
+        localizedTexts: { de: 'Die Google-Maps-Platform-Bepreisung wurde mehrfach grundlegend geändert und bleibt auf SKU-Ebene komplex, was fortlaufende Risiken für Kostenplanung und Bill-Shocks bei Integratoren erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/maps/billing-and-pricing/overview',
       },
       {
         id: 'maps-pricing-model-shift-2018',
         text: 'Google Maps Platform moved from prior plan structures to pay-as-you-go pricing in 2018, introducing billing-account requirements and long-term pricing-change sensitivity for integrators.',
-        textDe: 'Google Maps Platform wechselte 2018 von früheren Tarifstrukturen auf Pay-as-you-go, inklusive Billing-Account-Pflicht und langfristiger Sensitivität gegenüber Preisänderungen für Integratoren.',
+        localizedTexts: { de: 'Google Maps Platform wechselte 2018 von früheren Tarifstrukturen auf Pay-as-you-go, inklusive Billing-Account-Pflicht und langfristiger Sensitivität gegenüber Preisänderungen für Integratoren.' },
         severity: 'moderate',
         date: '2018-05-02',
         sourceUrl: 'https://mapsplatform.google.com/resources/blog/introducing-google-maps-platform/',
@@ -3444,14 +3472,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'maps-recurring-deprecations-migration-pressure',
         text: 'Google Maps Platform deprecation policy and notices show recurring feature deprecations (typically with 12-month periods), creating continuous migration workload for production integrations.',
-        textDe: 'Die Deprecation-Policy und Hinweise der Google Maps Platform zeigen wiederkehrende Feature-Abkündigungen (typischerweise mit 12 Monaten Frist), was für produktive Integrationen einen kontinuierlichen Migrationsaufwand erzeugt.',
+        localizedTexts: { de: 'Die Deprecation-Policy und Hinweise der Google Maps Platform zeigen wiederkehrende Feature-Abkündigungen (typischerweise mit 12 Monaten Frist), was für produktive Integrationen einen kontinuierlichen Migrationsaufwand erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/maps/deprecations',
       },
       {
         id: 'maps-timeline-data-deletion-incident-2025',
         text: 'Google confirmed a 2025 technical issue that deleted Timeline data for some users, and recovery depended on whether encrypted cloud backups were enabled.',
-        textDe: 'Google bestätigte 2025 eine technische Störung, durch die Timeline-Daten bei manchen Nutzern gelöscht wurden; die Wiederherstellung hing davon ab, ob verschlüsselte Cloud-Backups aktiviert waren.',
+        localizedTexts: { de: 'Google bestätigte 2025 eine technische Störung, durch die Timeline-Daten bei manchen Nutzern gelöscht wurden; die Wiederherstellung hing davon ab, ob verschlüsselte Cloud-Backups aktiviert waren.' },
         severity: 'moderate',
         date: '2025-03-23',
         sourceUrl: 'https://www.theverge.com/news/634442/google-maps-timeline-data-deleted-cloud-backup-recovery',
@@ -3459,7 +3487,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'maps-location-data-processing-for-personalization',
         text: 'Google privacy documentation states that location and usage data can support service personalization and related product improvement, which can conflict with strict data-minimization expectations.',
-        textDe: 'Googles Privacy-Dokumentation nennt Standort- und Nutzungsdaten für Personalisierung und Produktverbesserung; das kann mit strikten Datenminimierungs-Anforderungen kollidieren.',
+        localizedTexts: { de: 'Googles Privacy-Dokumentation nennt Standort- und Nutzungsdaten für Personalisierung und Produktverbesserung; das kann mit strikten Datenminimierungs-Anforderungen kollidieren.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/privacy',
       },
@@ -3469,20 +3497,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.0,
     description:
         'US-operated translation service with strong Cloud Translation security and compliance controls, but trust is materially reduced by Alphabet\'s ad-driven incentives, broad consumer content-processing terms, global-processing exposure, and major privacy/antitrust enforcement history.',
-    descriptionDe:
-        'US-Uebersetzungsdienst mit starken Security- und Compliance-Kontrollen im Cloud-Translation-Pfad; das Vertrauen sinkt jedoch deutlich durch Alphabets werbegetriebene Anreize, breite Consumer-Content-Verarbeitungsklauseln, globale Datenverarbeitung und schwere Privacy-/Antitrust-Verfahren.',
+    localizedDescriptions: {
+      de: 'US-Uebersetzungsdienst mit starken Security- und Compliance-Kontrollen im Cloud-Translation-Pfad; das Vertrauen sinkt jedoch deutlich durch Alphabets werbegetriebene Anreize, breite Consumer-Content-Verarbeitungsklauseln, globale Datenverarbeitung und schwere Privacy-/Antitrust-Verfahren.',
+    },
     reservations: [
       {
         id: 'translate-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first expectations for translation workflows.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Uebersetzungs-Workflows kollidieren koennen.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Erwartungen an Uebersetzungs-Workflows kollidieren koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'translate-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement over privacy allegations around location, incognito, and biometrics.',
-        textDe: 'Google stimmte in Texas einem Vergleich ueber 1,375 Mrd. USD zu, basierend auf Privacy-Vorwuerfen zu Standortdaten, Incognito und biometrischen Daten.',
+        localizedTexts: { de: 'Google stimmte in Texas einem Vergleich ueber 1,375 Mrd. USD zu, basierend auf Privacy-Vorwuerfen zu Standortdaten, Incognito und biometrischen Daten.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -3490,7 +3519,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation found Google liable in open-web ad-tech markets, reinforcing governance and market-concentration risk for the wider product ecosystem.',
-        textDe: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstaerken damit Governance- und Marktkonzentrationsrisiken im gesamten Produktoekosystem.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstaerken damit Governance- und Marktkonzentrationsrisiken im gesamten Produktoekosystem.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -3498,35 +3527,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-consumer-content-license-broad-processing',
         text: 'Google Terms state that user content remains owned by the user, but grant broad processing rights for operating, improving, personalizing services, and serving relevant ads.',
-        textDe: 'Die Google-Bedingungen sagen, dass Inhalte beim Nutzer verbleiben, gewaehren aber breite Verarbeitungsrechte fuer Betrieb, Verbesserung, Personalisierung und das Ausspielen relevanter Werbung.',
+        localizedTexts: { de: 'Die Google-Bedingungen sagen, dass Inhalte beim Nutzer verbleiben, gewaehren aber breite Verarbeitungsrechte fuer Betrieb, Verbesserung, Personalisierung und das Ausspielen relevanter Werbung.' },
         severity: 'major',
         sourceUrl: 'https://policies.google.com/terms',
       },
       {
         id: 'translate-global-processing-and-us-controller-risk',
         text: 'Google privacy documentation states that information may be processed on servers around the world, increasing jurisdiction and sovereignty complexity for sensitive translations.',
-        textDe: 'Googles Privacy-Dokumentation nennt, dass Informationen auf Servern weltweit verarbeitet werden koennen, was bei sensiblen Uebersetzungen die Jurisdiktions- und Souveraenitaetskomplexitaet erhoeht.',
+        localizedTexts: { de: 'Googles Privacy-Dokumentation nennt, dass Informationen auf Servern weltweit verarbeitet werden koennen, was bei sensiblen Uebersetzungen die Jurisdiktions- und Souveraenitaetskomplexitaet erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/privacy',
       },
       {
         id: 'translate-cloud-no-train-controls-not-default-consumer',
         text: 'Cloud Translation documentation provides stronger no-training commitments, but these controls apply to configured cloud usage and do not automatically cover consumer Translate usage patterns.',
-        textDe: 'Die Cloud-Translation-Dokumentation bietet staerkere No-Training-Zusagen, aber diese Kontrollen gelten fuer konfigurierte Cloud-Nutzung und decken Consumer-Translate-Nutzungsmuster nicht automatisch ab.',
+        localizedTexts: { de: 'Die Cloud-Translation-Dokumentation bietet staerkere No-Training-Zusagen, aber diese Kontrollen gelten fuer konfigurierte Cloud-Nutzung und decken Consumer-Translate-Nutzungsmuster nicht automatisch ab.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/translate/data-usage',
       },
       {
         id: 'translate-regionalization-limited-to-advanced-endpoints',
         text: 'Regionalization controls depend on Cloud Translation endpoint and location configuration, so data-sovereignty guarantees require explicit architecture choices rather than default behavior.',
-        textDe: 'Regionalisierungskontrollen haengen von Endpoint- und Location-Konfiguration in Cloud Translation ab; Datensouveraenitaetszusagen erfordern daher explizite Architekturentscheidungen statt Default-Verhalten.',
+        localizedTexts: { de: 'Regionalisierungskontrollen haengen von Endpoint- und Location-Konfiguration in Cloud Translation ab; Datensouveraenitaetszusagen erfordern daher explizite Architekturentscheidungen statt Default-Verhalten.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/translate/docs/advanced/endpoints',
       },
       {
         id: 'translate-proxy-domain-phishing-abuse-surface',
         text: 'Security reporting documents phishing campaigns that use Google Translate wrapped URLs (translate.goog) to make malicious links appear more trustworthy and evade basic filtering.',
-        textDe: 'Security-Berichte dokumentieren Phishing-Kampagnen, die ueber Google-Translate-Wrapper-URLs (translate.goog) boesartige Ziele vertrauenswuerdiger erscheinen lassen und einfache Filter umgehen.',
+        localizedTexts: { de: 'Security-Berichte dokumentieren Phishing-Kampagnen, die ueber Google-Translate-Wrapper-URLs (translate.goog) boesartige Ziele vertrauenswuerdiger erscheinen lassen und einfache Filter umgehen.' },
         severity: 'moderate',
         date: '2022-11-24',
         sourceUrl: 'https://www.kaspersky.com/blog/google-translate-scheme/46377/',
@@ -3534,7 +3563,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-cloud-latency-error-incident-2025',
         text: 'Google Cloud incident history records a global Cloud Translation disruption on January 28, 2025 with elevated latency and error rates, including resource-exhausted responses.',
-        textDe: 'Die Google-Cloud-Incident-Historie dokumentiert am 28. Januar 2025 eine globale Cloud-Translation-Stoerung mit erhoehter Latenz und Fehlerraten einschliesslich Resource-Exhausted-Antworten.',
+        localizedTexts: { de: 'Die Google-Cloud-Incident-Historie dokumentiert am 28. Januar 2025 eine globale Cloud-Translation-Stoerung mit erhoehter Latenz und Fehlerraten einschliesslich Resource-Exhausted-Antworten.' },
         severity: 'moderate',
         date: '2025-01-28',
         sourceUrl: 'https://status.cloud.google.com/incidents/uqPLSADLwLztWWcLCPfz',
@@ -3542,7 +3571,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-automl-resource-exhausted-incident-2024',
         text: 'Google Cloud incident history records an AutoML Translation disruption on August 2, 2024 with high latency, timeout, and resource-exhausted failures.',
-        textDe: 'Die Google-Cloud-Incident-Historie dokumentiert am 2. August 2024 eine AutoML-Translation-Stoerung mit hoher Latenz sowie Timeout- und Resource-Exhausted-Fehlern.',
+        localizedTexts: { de: 'Die Google-Cloud-Incident-Historie dokumentiert am 2. August 2024 eine AutoML-Translation-Stoerung mit hoher Latenz sowie Timeout- und Resource-Exhausted-Fehlern.' },
         severity: 'moderate',
         date: '2024-08-02',
         sourceUrl: 'https://status.cloud.google.com/incidents/pWkD2xmKoUBiFrvHS8h8',
@@ -3550,7 +3579,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-automl-deprecation-migration-pressure',
         text: 'Google documents that the AutoML Translation API was deprecated and requires migration to Cloud Translation Advanced, adding integration and lifecycle migration overhead.',
-        textDe: 'Google dokumentiert, dass die AutoML-Translation-API abgekundigt wurde und auf Cloud Translation Advanced migriert werden muss, was Integrations- und Lifecycle-Migrationsaufwand erzeugt.',
+        localizedTexts: { de: 'Google dokumentiert, dass die AutoML-Translation-API abgekundigt wurde und auf Cloud Translation Advanced migriert werden muss, was Integrations- und Lifecycle-Migrationsaufwand erzeugt.' },
         severity: 'moderate',
         date: '2025-09-30',
         sourceUrl: 'https://docs.cloud.google.com/translate/automl/docs/deprecations',
@@ -3558,35 +3587,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'translate-third-party-wrapper-ssrf-cve-2023-48711',
         text: 'NVD tracks CVE-2023-48711 in a Google-Translate API wrapper package, showing SSRF risk in third-party integration layers often used around Translate workflows.',
-        textDe: 'Das NVD fuehrt CVE-2023-48711 in einem Google-Translate-API-Wrapper, was SSRF-Risiken in Drittanbieter-Integrationsschichten zeigt, die haeufig um Translate-Workflows genutzt werden.',
+        localizedTexts: { de: 'Das NVD fuehrt CVE-2023-48711 in einem Google-Translate-API-Wrapper, was SSRF-Risiken in Drittanbieter-Integrationsschichten zeigt, die haeufig um Translate-Workflows genutzt werden.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2023-48711',
       },
       {
         id: 'translate-wordpress-plugin-xss-cve-2021-24594',
         text: 'NVD tracks CVE-2021-24594 in a WordPress Google Language Translator plugin, showing recurring ecosystem risk in plugin-based Translate deployments.',
-        textDe: 'Das NVD fuehrt CVE-2021-24594 in einem WordPress-Google-Language-Translator-Plugin und zeigt damit wiederkehrende Oekosystemrisiken bei pluginbasierten Translate-Deployments.',
+        localizedTexts: { de: 'Das NVD fuehrt CVE-2021-24594 in einem WordPress-Google-Language-Translator-Plugin und zeigt damit wiederkehrende Oekosystemrisiken bei pluginbasierten Translate-Deployments.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2021-24594',
       },
       {
         id: 'translate-sensitive-text-free-tool-data-leak-risk',
         text: 'University guidance warns that using free online translators for sensitive text can constitute a data-leak event because content is shared externally and may be reused for model improvement.',
-        textDe: 'Universitaere Leitlinien warnen davor, dass die Nutzung freier Online-Uebersetzer fuer sensible Texte als Datenleck gelten kann, da Inhalte extern geteilt und zur Modellverbesserung wiederverwendet werden koennen.',
+        localizedTexts: { de: 'Universitaere Leitlinien warnen davor, dass die Nutzung freier Online-Uebersetzer fuer sensible Texte als Datenleck gelten kann, da Inhalte extern geteilt und zur Modellverbesserung wiederverwendet werden koennen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.ru.nl/en/about-us/news/translating-your-text-using-google-translate-does-it-constitute-a-data-leak',
       },
       {
         id: 'translate-medical-context-accuracy-risk',
         text: 'Peer-reviewed evidence reports substantial inaccuracy in medication directions and counseling translations with Google Translate, including potentially life-threatening errors in clinical context.',
-        textDe: 'Peer-Review-Evidenz berichtet deutliche Ungenauigkeiten bei Medikamentenanweisungen und Beratungspunkten mit Google Translate, einschliesslich potenziell lebensbedrohlicher Fehler im klinischen Kontext.',
+        localizedTexts: { de: 'Peer-Review-Evidenz berichtet deutliche Ungenauigkeiten bei Medikamentenanweisungen und Beratungspunkten mit Google Translate, einschliesslich potenziell lebensbedrohlicher Fehler im klinischen Kontext.' },
         severity: 'moderate',
         sourceUrl: 'https://pubmed.ncbi.nlm.nih.gov/34048533/',
       },
       {
         id: 'translate-cloud-support-tier-response-variance',
         text: 'Google Cloud support documentation describes materially different response targets and service levels across Standard, Enhanced, and Premium support tiers, making incident response quality plan-dependent.',
-        textDe: 'Die Google-Cloud-Supportdokumentation beschreibt deutlich unterschiedliche Response-Ziele und Service-Level zwischen Standard-, Enhanced- und Premium-Support, wodurch die Incident-Reaktion planabhaengig wird.',
+        localizedTexts: { de: 'Die Google-Cloud-Supportdokumentation beschreibt deutlich unterschiedliche Response-Ziele und Service-Level zwischen Standard-, Enhanced- und Premium-Support, wodurch die Incident-Reaktion planabhaengig wird.' },
         severity: 'moderate',
         sourceUrl: 'https://cloud.google.com/support/docs/overview',
       },
@@ -3596,13 +3625,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.2,
     description:
         'US-operated OTP authenticator with offline code generation and active maintenance, but trust is reduced by cloud-sync design without documented end-to-end encryption, account-compromise blast-radius concerns, and broader Google jurisdiction/governance risk.',
-    descriptionDe:
-        'US-OTP-Authenticator mit Offline-Code-Erzeugung und aktiver Wartung; das Vertrauen sinkt jedoch durch Cloud-Sync ohne dokumentierte Ende-zu-Ende-Verschlüsselung, erhöhte Folgen bei Account-Kompromittierung und breitere Google-Jurisdiktions-/Governance-Risiken.',
+    localizedDescriptions: {
+      de: 'US-OTP-Authenticator mit Offline-Code-Erzeugung und aktiver Wartung; das Vertrauen sinkt jedoch durch Cloud-Sync ohne dokumentierte Ende-zu-Ende-Verschlüsselung, erhöhte Folgen bei Account-Kompromittierung und breitere Google-Jurisdiktions-/Governance-Risiken.',
+    },
     reservations: [
       {
         id: 'authenticator-sync-not-e2ee',
         text: 'Google Authenticator cloud sync was launched without end-to-end encryption, so synced OTP secrets remain within Google\'s provider trust boundary.',
-        textDe: 'Der Cloud-Sync von Google Authenticator wurde ohne Ende-zu-Ende-Verschlüsselung eingeführt; synchronisierte OTP-Secrets bleiben damit innerhalb der Provider-Trust-Boundary von Google.',
+        localizedTexts: { de: 'Der Cloud-Sync von Google Authenticator wurde ohne Ende-zu-Ende-Verschlüsselung eingeführt; synchronisierte OTP-Secrets bleiben damit innerhalb der Provider-Trust-Boundary von Google.' },
         severity: 'major',
         date: '2023-04-24',
         sourceUrl: 'https://techcrunch.com/2023/04/24/google-authenticator-now-supports-cloud-syncing-but-its-not-end-to-end-encrypted/',
@@ -3610,7 +3640,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-official-sync-google-account-storage-2023',
         text: 'Google\'s official rollout announcement states Authenticator one-time codes are stored in the user\'s Google Account for durability, which shifts risk from device-only compromise to account-level compromise.',
-        textDe: 'Googles offizieller Rollout-Hinweis nennt, dass Authenticator-Einmalcodes zur Ausfallsicherheit im Google-Konto gespeichert werden; dadurch verschiebt sich das Risiko von reinem Geräte-Kompromiss zu Konto-Kompromiss.',
+        localizedTexts: { de: 'Googles offizieller Rollout-Hinweis nennt, dass Authenticator-Einmalcodes zur Ausfallsicherheit im Google-Konto gespeichert werden; dadurch verschiebt sich das Risiko von reinem Geräte-Kompromiss zu Konto-Kompromiss.' },
         severity: 'major',
         date: '2023-04-24',
         sourceUrl: 'https://security.googleblog.com/2023/04/google-authenticator-now-supports.html',
@@ -3618,7 +3648,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-account-compromise-sync-amplification-2023',
         text: 'Reporting on the 2023 Retool incident states that when Google Authenticator sync is enabled, compromise of the Google account can expose all synced OTP tokens and weaken MFA containment.',
-        textDe: 'Berichte zum Retool-Vorfall 2023 nennen, dass bei aktiviertem Google-Authenticator-Sync eine Kompromittierung des Google-Kontos alle synchronisierten OTP-Token offenlegen und die MFA-Eindämmung schwächen kann.',
+        localizedTexts: { de: 'Berichte zum Retool-Vorfall 2023 nennen, dass bei aktiviertem Google-Authenticator-Sync eine Kompromittierung des Google-Kontos alle synchronisierten OTP-Token offenlegen und die MFA-Eindämmung schwächen kann.' },
         severity: 'major',
         date: '2023-09-15',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/retool-hack-affected-27-cloud-customers-all-on-okta/',
@@ -3626,14 +3656,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-admin-sync-disable-gap',
         text: 'Retool reported there was no centralized admin switch to disable Google Authenticator cloud sync org-wide, increasing governance friction for enterprise environments.',
-        textDe: 'Retool berichtete, dass es keinen zentralen Admin-Schalter zur organisationsweiten Deaktivierung des Google-Authenticator-Cloud-Sync gab, was Governance-Reibung in Enterprise-Umgebungen erhöht.',
+        localizedTexts: { de: 'Retool berichtete, dass es keinen zentralen Admin-Schalter zur organisationsweiten Deaktivierung des Google-Authenticator-Cloud-Sync gab, was Governance-Reibung in Enterprise-Umgebungen erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/retool-hack-affected-27-cloud-customers-all-on-okta/',
       },
       {
         id: 'authenticator-retool-primary-incident-evidence-2023',
         text: 'Retool\'s primary incident report states that access to one employee Google account immediately exposed all MFA tokens synced in Google Authenticator, enabling deeper internal compromise.',
-        textDe: 'Der primäre Retool-Incident-Report nennt, dass der Zugriff auf ein einzelnes Google-Konto eines Mitarbeiters sofort alle in Google Authenticator synchronisierten MFA-Token offenlegte und so tiefere interne Kompromittierung ermöglichte.',
+        localizedTexts: { de: 'Der primäre Retool-Incident-Report nennt, dass der Zugriff auf ein einzelnes Google-Konto eines Mitarbeiters sofort alle in Google Authenticator synchronisierten MFA-Token offenlegte und so tiefere interne Kompromittierung ermöglichte.' },
         severity: 'major',
         date: '2023-09-13',
         sourceUrl: 'https://retool.com/blog/mfa-isnt-mfa',
@@ -3641,21 +3671,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-archived-open-source-repo-divergence',
         text: 'Google\'s public google-authenticator repository has been archived since 2021 and explicitly notes divergence from current store-distributed apps, limiting code-audit transparency for end users.',
-        textDe: 'Das öffentliche Repository google-authenticator von Google ist seit 2021 archiviert und weist explizit auf Abweichungen zu den aktuellen Store-Apps hin; das begrenzt die Code-Audit-Transparenz für Endnutzer.',
+        localizedTexts: { de: 'Das öffentliche Repository google-authenticator von Google ist seit 2021 archiviert und weist explizit auf Abweichungen zu den aktuellen Store-Apps hin; das begrenzt die Code-Audit-Transparenz für Endnutzer.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/google/google-authenticator',
       },
       {
         id: 'authenticator-qr-transfer-portability-friction',
         text: 'Google Authenticator migration is primarily documented around QR-based transfer/import flows rather than full standard-format export, which can add portability friction.',
-        textDe: 'Die Migration bei Google Authenticator ist primär über QR-basierten Transfer/Import dokumentiert statt über einen vollständigen Standardformat-Export; das kann Portabilitäts-Reibung erzeugen.',
+        localizedTexts: { de: 'Die Migration bei Google Authenticator ist primär über QR-basierten Transfer/Import dokumentiert statt über einen vollständigen Standardformat-Export; das kann Portabilitäts-Reibung erzeugen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/accounts/answer/1066447?hl=en',
       },
       {
         id: 'authenticator-cloud-sync-shift-confirmed-in-store-release-notes',
         text: 'App Store release history documents the 2023 cloud-sync rollout for Authenticator codes, confirming the security model shift from local-only storage to account-linked cross-device availability.',
-        textDe: 'Die Release-Historie im App Store dokumentiert den Cloud-Sync-Rollout 2023 für Authenticator-Codes und bestätigt damit den Wechsel vom rein lokalen Sicherheitsmodell zu konto-gebundener geräteübergreifender Verfügbarkeit.',
+        localizedTexts: { de: 'Die Release-Historie im App Store dokumentiert den Cloud-Sync-Rollout 2023 für Authenticator-Codes und bestätigt damit den Wechsel vom rein lokalen Sicherheitsmodell zu konto-gebundener geräteübergreifender Verfügbarkeit.' },
         severity: 'moderate',
         date: '2023-05-11',
         sourceUrl: 'https://apps.apple.com/us/app/google-authenticator/id388497605',
@@ -3663,49 +3693,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-device-screen-capture-threat',
         text: 'The Pixnapping research chain highlights that device-level screenshot/content-capture malware can steal one-time codes from authenticator apps, so host-device hardening is critical.',
-        textDe: 'Die Pixnapping-Research-Kette zeigt, dass Malware zur Screenshot-/Inhaltsabgreifung auf Geräteebene Einmalcodes aus Authenticator-Apps stehlen kann; Device-Hardening bleibt daher kritisch.',
+        localizedTexts: { de: 'Die Pixnapping-Research-Kette zeigt, dass Malware zur Screenshot-/Inhaltsabgreifung auf Geräteebene Einmalcodes aus Authenticator-Apps stehlen kann; Device-Hardening bleibt daher kritisch.' },
         severity: 'moderate',
         sourceUrl: 'https://pixnapping.com/',
       },
       {
         id: 'authenticator-app-store-privacy-label-self-reported',
         text: 'Apple\'s App Store notes that developer privacy disclosures are self-reported and not verified by Apple; the listing includes multiple data categories linked to identity for analytics and app functionality.',
-        textDe: 'Der App Store weist darauf hin, dass Datenschutzangaben von Entwicklern selbst gemeldet und von Apple nicht verifiziert sind; das Listing umfasst mehrere mit Identität verknüpfte Datenkategorien für Analytics und App-Funktionalität.',
+        localizedTexts: { de: 'Der App Store weist darauf hin, dass Datenschutzangaben von Entwicklern selbst gemeldet und von Apple nicht verifiziert sind; das Listing umfasst mehrere mit Identität verknüpfte Datenkategorien für Analytics und App-Funktionalität.' },
         severity: 'moderate',
         sourceUrl: 'https://apps.apple.com/us/app/google-authenticator/id388497605',
       },
       {
         id: 'authenticator-google-privacy-policy-ai-training-scope',
         text: 'Google\'s Privacy Policy states that publicly accessible information may be used to train AI models and develop products, reinforcing broader account-ecosystem data-use governance concerns.',
-        textDe: 'Googles Privacy Policy nennt, dass öffentlich zugängliche Informationen zum Training von KI-Modellen und zur Produktentwicklung genutzt werden können; das verstärkt breitere Governance-Bedenken zur Datennutzung im Konto-Ökosystem.',
+        localizedTexts: { de: 'Googles Privacy Policy nennt, dass öffentlich zugängliche Informationen zum Training von KI-Modellen und zur Produktentwicklung genutzt werden können; das verstärkt breitere Governance-Bedenken zur Datennutzung im Konto-Ökosystem.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/privacy',
       },
       {
         id: 'authenticator-google-terms-content-license-scope',
         text: 'Google Terms grant a worldwide, royalty-free license to host, reproduce, and analyze user content for operating and improving services, creating broad contractual data-use scope in account-linked contexts.',
-        textDe: 'Die Google-Bedingungen gewähren eine weltweite, gebührenfreie Lizenz zum Hosten, Reproduzieren und Analysieren von Nutzerinhalten für Betrieb und Verbesserung von Diensten; das schafft einen breiten vertraglichen Datennutzungsrahmen in konto-gebundenen Kontexten.',
+        localizedTexts: { de: 'Die Google-Bedingungen gewähren eine weltweite, gebührenfreie Lizenz zum Hosten, Reproduzieren und Analysieren von Nutzerinhalten für Betrieb und Verbesserung von Diensten; das schafft einen breiten vertraglichen Datennutzungsrahmen in konto-gebundenen Kontexten.' },
         severity: 'moderate',
         sourceUrl: 'https://policies.google.com/terms',
       },
       {
         id: 'authenticator-us-legal-process-exposure',
         text: 'As a US provider, Google can be compelled under US legal-process frameworks, so jurisdictional disclosure risk remains even when users are located in Europe.',
-        textDe: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; das Jurisdiktionsrisiko bleibt daher auch für Nutzer in Europa bestehen.',
+        localizedTexts: { de: 'Als US-Anbieter kann Google unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; das Jurisdiktionsrisiko bleibt daher auch für Nutzer in Europa bestehen.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'authenticator-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with strict privacy-first trust expectations.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Vertrauenserwartungen kollidieren können.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil seines Umsatzes aus Werbung, was strukturelle Anreize schafft, die mit strikten Privacy-First-Vertrauenserwartungen kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'authenticator-major-privacy-settlement-2025',
         text: 'Google agreed to a $1.375B Texas settlement in 2025 over privacy allegations spanning location, incognito, and biometrics practices.',
-        textDe: 'Google stimmte 2025 in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten-, Incognito- und Biometrie-Praktiken.',
+        localizedTexts: { de: 'Google stimmte 2025 in Texas einem Vergleich über 1,375 Mrd. USD zu, basierend auf Privacy-Vorwürfen zu Standortdaten-, Incognito- und Biometrie-Praktiken.' },
         severity: 'major',
         date: '2025-05-09',
         sourceUrl: 'https://apnews.com/article/8097e181cc7cb8522781db8a9a897eea',
@@ -3713,7 +3743,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authenticator-antitrust-adtech-ruling-2025',
         text: 'US antitrust litigation in 2025 found Google liable in open-web ad-tech markets, reinforcing broader governance and concentration risk around the Google ecosystem.',
-        textDe: 'US-Antitrust-Verfahren stellten 2025 eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit breitere Governance- und Konzentrationsrisiken im Google-Ökosystem.',
+        localizedTexts: { de: 'US-Antitrust-Verfahren stellten 2025 eine Haftung Googles im Open-Web-Ad-Tech-Markt fest und verstärken damit breitere Governance- und Konzentrationsrisiken im Google-Ökosystem.' },
         severity: 'major',
         date: '2025-04-17',
         sourceUrl: 'https://www.justice.gov/opa/pr/department-justice-prevails-landmark-antitrust-case-against-google',
@@ -3725,13 +3755,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.0,
     description:
         'US-operated web search and consumer AI assistant with strong platform engineering and rapid security patching, but trust is materially reduced by privacy enforcement actions, ad-targeting data use, consumer AI training defaults, and unresolved copyright litigation.',
-    descriptionDe:
-        'US-betriebene Websuche und Consumer-KI-Assistent mit starker Plattform-Engineering-Basis und schneller Security-Patch-Reaktion; das Vertrauen sinkt jedoch deutlich durch Privacy-Durchsetzung, werbliche Datennutzung, Consumer-AI-Trainings-Defaults und ungeloste Copyright-Litigation.',
+    localizedDescriptions: {
+      de: 'US-betriebene Websuche und Consumer-KI-Assistent mit starker Plattform-Engineering-Basis und schneller Security-Patch-Reaktion; das Vertrauen sinkt jedoch deutlich durch Privacy-Durchsetzung, werbliche Datennutzung, Consumer-AI-Trainings-Defaults und ungeloste Copyright-Litigation.',
+    },
     reservations: [
       {
         id: 'bing-cookie-consent-fine-cnil-2022',
         text: 'The French data protection authority fined Microsoft EUR 60M in 2022 over Bing cookie-consent flows where refusing tracking cookies was harder than accepting them.',
-        textDe: 'Die französische Datenschutzaufsicht verhängte 2022 eine Geldbusse von 60 Mio. EUR gegen Microsoft wegen Cookie-Consent-Flows bei Bing, bei denen Ablehnen schwieriger als Akzeptieren war.',
+        localizedTexts: { de: 'Die französische Datenschutzaufsicht verhängte 2022 eine Geldbusse von 60 Mio. EUR gegen Microsoft wegen Cookie-Consent-Flows bei Bing, bei denen Ablehnen schwieriger als Akzeptieren war.' },
         severity: 'major',
         date: '2022-12-22',
         sourceUrl: 'https://www.legifrance.gouv.fr/cnil/id/CNILTEXT000046773696',
@@ -3739,28 +3770,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'bing-copilot-consumer-training-opt-out',
         text: 'Microsoft privacy documentation says consumer Copilot conversations may be used to train generative AI models in certain markets unless users opt out.',
-        textDe: 'Microsofts Privacy Statement beschreibt, dass Copilot-Consumer-Konversationen in bestimmten Märkten für das Training generativer KI genutzt werden können, sofern Nutzer nicht aktiv widersprechen.',
+        localizedTexts: { de: 'Microsofts Privacy Statement beschreibt, dass Copilot-Consumer-Konversationen in bestimmten Märkten für das Training generativer KI genutzt werden können, sofern Nutzer nicht aktiv widersprechen.' },
         severity: 'major',
         sourceUrl: 'https://www.microsoft.com/en-us/privacy/privacystatement',
       },
       {
         id: 'bing-ad-personalization-from-search-and-activity-data',
         text: 'Microsoft states ads shown in Bing and Microsoft properties may be selected using data such as search queries, location, interests, and product interactions.',
-        textDe: 'Microsoft gibt an, dass Anzeigen in Bing und Microsoft-Diensten unter anderem anhand von Suchanfragen, Standort, Interessen und Produktinteraktionen ausgewählt werden können.',
+        localizedTexts: { de: 'Microsoft gibt an, dass Anzeigen in Bing und Microsoft-Diensten unter anderem anhand von Suchanfragen, Standort, Interessen und Produktinteraktionen ausgewählt werden können.' },
         severity: 'major',
         sourceUrl: 'https://www.microsoft.com/en-us/privacy/privacystatement',
       },
       {
         id: 'bing-search-and-chat-history-retention',
         text: 'Microsoft documents that Bing search and chat history can be stored and requires users to manually review and clear that history via dashboard/settings controls.',
-        textDe: 'Microsoft dokumentiert, dass Bing-Such- und Chatverlauf gespeichert werden kann und Nutzer den Verlauf über Dashboard/Settings aktiv prüfen und löschen müssen.',
+        localizedTexts: { de: 'Microsoft dokumentiert, dass Bing-Such- und Chatverlauf gespeichert werden kann und Nutzer den Verlauf über Dashboard/Settings aktiv prüfen und löschen müssen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.microsoft.com/en-us/privacy/privacystatement',
       },
       {
         id: 'bing-nyt-copyright-lawsuit-2023',
         text: 'The New York Times sued Microsoft and OpenAI in late 2023 over alleged unauthorized use of journalism content for AI training and outputs.',
-        textDe: 'Die New York Times verklagte Microsoft und OpenAI Ende 2023 wegen mutmasslich nicht autorisierter Nutzung journalistischer Inhalte für KI-Training und -Outputs.',
+        localizedTexts: { de: 'Die New York Times verklagte Microsoft und OpenAI Ende 2023 wegen mutmasslich nicht autorisierter Nutzung journalistischer Inhalte für KI-Training und -Outputs.' },
         severity: 'moderate',
         date: '2023-12-27',
         sourceUrl: 'https://apnews.com/article/6ea53a8ad3efa06ee4643b697df0ba57',
@@ -3768,7 +3799,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'bing-lapsus-source-code-exposure-2022',
         text: 'Microsoft confirmed in 2022 that the LAPSUS$ actor exfiltrated source code including Bing-related repositories; Microsoft stated no customer data was impacted.',
-        textDe: 'Microsoft bestätigte 2022, dass die LAPSUS$-Gruppe Quellcode inklusive Bing-bezogener Repositories exfiltrierte; laut Microsoft waren keine Kundendaten betroffen.',
+        localizedTexts: { de: 'Microsoft bestätigte 2022, dass die LAPSUS$-Gruppe Quellcode inklusive Bing-bezogener Repositories exfiltrierte; laut Microsoft waren keine Kundendaten betroffen.' },
         severity: 'moderate',
         date: '2022-03-23',
         sourceUrl: 'https://techcrunch.com/2022/03/23/microsoft-lapsus-hack-source-code/',
@@ -3776,14 +3807,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'bing-critical-rce-cve-2025-21355',
         text: 'Microsoft tracked a critical Bing remote-code-execution issue as CVE-2025-21355, underscoring ongoing patch-dependence for security-sensitive search infrastructure.',
-        textDe: 'Microsoft führte mit CVE-2025-21355 eine kritische Bing-Remote-Code-Execution-Schwachstelle; sicherheitskritische Search-Infrastruktur bleibt damit patch-abhängig.',
+        localizedTexts: { de: 'Microsoft führte mit CVE-2025-21355 eine kritische Bing-Remote-Code-Execution-Schwachstelle; sicherheitskritische Search-Infrastruktur bleibt damit patch-abhängig.' },
         severity: 'moderate',
         sourceUrl: 'https://msrc.microsoft.com/update-guide/vulnerability/CVE-2025-21355',
       },
       {
         id: 'bing-user-complaints-quality-and-support',
         text: 'Public Bing reviews report recurring complaints about spammy results, intrusive product integration, and weak support response quality.',
-        textDe: 'Öffentliche Bing-Bewertungen nennen wiederkehrende Beschwerden zu spamartigen Ergebnissen, aufdringlicher Produktintegration und schwacher Support-Qualität.',
+        localizedTexts: { de: 'Öffentliche Bing-Bewertungen nennen wiederkehrende Beschwerden zu spamartigen Ergebnissen, aufdringlicher Produktintegration und schwacher Support-Qualität.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/www.bing.com',
       },
@@ -3793,13 +3824,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.2,
     description:
         'US-operated project management platform with strong compliance and security tooling, but trust is reduced by a recent cross-tenant MCP exposure incident, enterprise-tier portability limits, and governance/business-pressure signals.',
-    descriptionDe:
-        'US-Projektmanagement-Plattform mit starker Compliance- und Security-Tooling-Basis; das Vertrauen sinkt jedoch durch einen jüngsten MCP-Cross-Tenant-Exposure-Vorfall, tier-gebundene Portabilitätsgrenzen und Governance-/Business-Risikofaktoren.',
+    localizedDescriptions: {
+      de: 'US-Projektmanagement-Plattform mit starker Compliance- und Security-Tooling-Basis; das Vertrauen sinkt jedoch durch einen jüngsten MCP-Cross-Tenant-Exposure-Vorfall, tier-gebundene Portabilitätsgrenzen und Governance-/Business-Risikofaktoren.',
+    },
     reservations: [
       {
         id: 'asana-mcp-cross-tenant-exposure-2025',
         text: 'Asana disclosed a June 2025 MCP server flaw that could expose data across organizations, requiring shutdown and connection resets for remediation.',
-        textDe: 'Asana legte im Juni 2025 einen MCP-Server-Fehler offen, der Daten zwischen Organisationen exponieren konnte; zur Behebung waren Abschaltung und Verbindungs-Resets nötig.',
+        localizedTexts: { de: 'Asana legte im Juni 2025 einen MCP-Server-Fehler offen, der Daten zwischen Organisationen exponieren konnte; zur Behebung waren Abschaltung und Verbindungs-Resets nötig.' },
         severity: 'major',
         date: '2025-06-04',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/asana-warns-mcp-ai-feature-exposed-customer-data-to-other-orgs/',
@@ -3807,28 +3839,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'asana-organization-export-enterprise-tier-gating',
         text: 'Asana developer documentation ties organization-level export access to service-account authentication, an Enterprise-tier feature, creating portability gaps for lower tiers.',
-        textDe: 'Die Asana-Entwicklerdokumentation koppelt Organisations-Exporte an Service-Account-Authentifizierung (Enterprise-Tier) und erzeugt damit Portabilitätslücken für niedrigere Tarife.',
+        localizedTexts: { de: 'Die Asana-Entwicklerdokumentation koppelt Organisations-Exporte an Service-Account-Authentifizierung (Enterprise-Tier) und erzeugt damit Portabilitätslücken für niedrigere Tarife.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.asana.com/docs/authentication',
       },
       {
         id: 'asana-dual-class-voting-concentration',
         text: 'Asana proxy filings describe dual-class voting (Class B with 10 votes per share), concentrating control and reducing governance predictability for customers.',
-        textDe: 'Asana-Proxy-Filings beschreiben Dual-Class-Stimmrechte (Class B mit 10 Stimmen je Aktie), was Kontrolle konzentriert und Governance-Vorhersehbarkeit für Kunden reduziert.',
+        localizedTexts: { de: 'Asana-Proxy-Filings beschreiben Dual-Class-Stimmrechte (Class B mit 10 Stimmen je Aktie), was Kontrolle konzentriert und Governance-Vorhersehbarkeit für Kunden reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1477720/000119312525112359/d806157ddef14a.htm',
       },
       {
         id: 'asana-support-response-backlog-signals',
         text: 'Trustpilot review patterns repeatedly mention delayed support responses and billing-friction experiences, signaling customer-support trust costs.',
-        textDe: 'In Trustpilot-Reviewmustern werden wiederholt verzögerte Support-Antworten und Billing-Reibungen genannt, was auf relevante Customer-Support-Trust-Kosten hindeutet.',
+        localizedTexts: { de: 'In Trustpilot-Reviewmustern werden wiederholt verzögerte Support-Antworten und Billing-Reibungen genannt, was auf relevante Customer-Support-Trust-Kosten hindeutet.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/www.asana.com',
       },
       {
         id: 'asana-net-loss-and-retention-pressure-2025',
         text: 'Asana\'s 2025 Form 10-K reports continued large net losses and sub-100% dollar-based net retention, increasing long-term business-pressure risk.',
-        textDe: 'Der Asana-Form-10-K-Bericht 2025 zeigt weiterhin hohe Nettoverluste und eine Dollar-based Net Retention unter 100 %, was langfristigen Business-Druck erhöht.',
+        localizedTexts: { de: 'Der Asana-Form-10-K-Bericht 2025 zeigt weiterhin hohe Nettoverluste und eine Dollar-based Net Retention unter 100 %, was langfristigen Business-Druck erhöht.' },
         severity: 'moderate',
         date: '2025-01-31',
         sourceUrl: 'https://www.sec.gov/ix?doc=/Archives/edgar/data/1477720/000147772025000010/asana-20250131.htm',
@@ -3836,7 +3868,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'asana-desktop-cve-footprint',
         text: 'Public CVE records for Asana Desktop include issues such as CVE-2022-26877 and CVE-2023-49314, indicating endpoint-side risk when desktop clients are in scope.',
-        textDe: 'Öffentliche CVE-Records für Asana Desktop enthalten Schwachstellen wie CVE-2022-26877 und CVE-2023-49314 und zeigen damit endpoint-seitige Risiken, wenn Desktop-Clients im Scope sind.',
+        localizedTexts: { de: 'Öffentliche CVE-Records für Asana Desktop enthalten Schwachstellen wie CVE-2022-26877 und CVE-2023-49314 und zeigen damit endpoint-seitige Risiken, wenn Desktop-Clients im Scope sind.' },
         severity: 'moderate',
         date: '2022-04-09',
         sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2022-26877',
@@ -3844,7 +3876,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'asana-forum-support-delay-signals',
         text: 'Asana community forum threads report support delays, including reports of response times of up to around one week.',
-        textDe: 'Threads im Asana-Community-Forum berichten von Supportverzögerungen, darunter Hinweise auf Antwortzeiten von bis zu etwa einer Woche.',
+        localizedTexts: { de: 'Threads im Asana-Community-Forum berichten von Supportverzögerungen, darunter Hinweise auf Antwortzeiten von bis zu etwa einer Woche.' },
         severity: 'moderate',
         date: '2025-04-16',
         sourceUrl: 'https://forum.asana.com/t/response-time-from-support/1051231',
@@ -3852,7 +3884,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'asana-seat-increment-billing-structure',
         text: 'Asana pricing FAQ states plans for smaller teams are designed for 2 members and additional seats scale in fixed increments, which can create billing-fit friction for very small teams.',
-        textDe: 'Die Asana-Preis-FAQ nennt, dass Pläne für kleinere Teams auf 2 Mitglieder ausgelegt sind und zusätzliche Seats in festen Schritten wachsen, was bei sehr kleinen Teams zu Billing-Fit-Reibung führen kann.',
+        localizedTexts: { de: 'Die Asana-Preis-FAQ nennt, dass Pläne für kleinere Teams auf 2 Mitglieder ausgelegt sind und zusätzliche Seats in festen Schritten wachsen, was bei sehr kleinen Teams zu Billing-Fit-Reibung führen kann.' },
         severity: 'minor',
         sourceUrl: 'https://asana.com/pricing',
       },
@@ -3862,13 +3894,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.0,
     description:
         'Israeli-operated work-management platform with broad compliance signaling and strong business momentum, but trust is reduced by enterprise-gated data-residency controls, contract-exit friction, recurrent pricing-model changes, and documented security-abuse incidents.',
-    descriptionDe:
-        'Israelisch betriebene Work-Management-Plattform mit breiten Compliance-Signalen und solider Geschäftsdynamik; das Vertrauen sinkt jedoch durch enterprise-gebundene Data-Residency-Kontrollen, Exit-Reibung im Vertrag, wiederholte Pricing-Modelländerungen und dokumentierte Security-Abuse-Vorfälle.',
+    localizedDescriptions: {
+      de: 'Israelisch betriebene Work-Management-Plattform mit breiten Compliance-Signalen und solider Geschäftsdynamik; das Vertrauen sinkt jedoch durch enterprise-gebundene Data-Residency-Kontrollen, Exit-Reibung im Vertrag, wiederholte Pricing-Modelländerungen und dokumentierte Security-Abuse-Vorfälle.',
+    },
     reservations: [
       {
         id: 'monday-codecov-supply-chain-source-code-exposure-2021',
         text: 'During the 2021 Codecov supply-chain compromise, Monday.com disclosed that an attacker obtained a read-only copy of parts of source code and security architecture context.',
-        textDe: 'Während des Codecov-Supply-Chain-Vorfalls 2021 legte Monday.com offen, dass ein Angreifer eine Read-only-Kopie von Teilen des Quellcodes und des Security-Architekturkontexts erlangte.',
+        localizedTexts: { de: 'Während des Codecov-Supply-Chain-Vorfalls 2021 legte Monday.com offen, dass ein Angreifer eine Read-only-Kopie von Teilen des Quellcodes und des Security-Architekturkontexts erlangte.' },
         severity: 'major',
         date: '2021-04-15',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/codecov-hackers-gained-access-to-mondaycom-source-code/',
@@ -3876,84 +3909,84 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'monday-share-update-phishing-abuse-2024',
         text: 'A Monday.com sharing feature ("Share Update") was abused in phishing campaigns and later removed, showing collaboration-surface abuse risk.',
-        textDe: 'Eine Monday.com-Freigabefunktion ("Share Update") wurde für Phishing-Kampagnen missbraucht und später entfernt, was Abuse-Risiken an Collaboration-Oberflächen zeigt.',
+        localizedTexts: { de: 'Eine Monday.com-Freigabefunktion ("Share Update") wurde für Phishing-Kampagnen missbraucht und später entfernt, was Abuse-Risiken an Collaboration-Oberflächen zeigt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/mondaycom-removes-share-update-feature-abused-for-phishing-attacks/',
       },
       {
         id: 'monday-data-residency-enterprise-only-eu-subprocessors',
         text: 'Monday.com states strict in-region data residency with in-region subprocessor commitments is available for Enterprise accounts in the selected region, not uniformly across all plans.',
-        textDe: 'Monday.com gibt an, dass strikte in-region Data Residency inklusive in-region Subprocessor-Zusagen für Enterprise-Accounts in der gewählten Region gilt, nicht einheitlich für alle Tarife.',
+        localizedTexts: { de: 'Monday.com gibt an, dass strikte in-region Data Residency inklusive in-region Subprocessor-Zusagen für Enterprise-Accounts in der gewählten Region gilt, nicht einheitlich für alle Tarife.' },
         severity: 'major',
         sourceUrl: 'https://support.monday.com/hc/en-us/articles/4404392703250-Data-residency',
       },
       {
         id: 'monday-data-region-change-requires-account-rebuild',
         text: 'Monday.com documents that changing account data region requires creating a new account and moving data manually, increasing migration friction and lock-in cost.',
-        textDe: 'Monday.com dokumentiert, dass ein Wechsel der Account-Datenregion das Anlegen eines neuen Accounts und manuelle Datenmigration erfordert, was Migrationsreibung und Lock-in-Kosten erhöht.',
+        localizedTexts: { de: 'Monday.com dokumentiert, dass ein Wechsel der Account-Datenregion das Anlegen eines neuen Accounts und manuelle Datenmigration erfordert, was Migrationsreibung und Lock-in-Kosten erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://support.monday.com/hc/en-us/articles/4404392703250-Data-residency',
       },
       {
         id: 'monday-read-only-export-window-not-guaranteed',
         text: 'Terms state customers are responsible for exporting data before termination, and any post-termination read-only export window may be ended by Monday.com without notice.',
-        textDe: 'Die Bedingungen nennen, dass Kunden ihre Daten vor Beendigung exportieren müssen, und ein etwaiges Read-only-Exportfenster nach Vertragsende von Monday.com ohne Vorankündigung beendet werden kann.',
+        localizedTexts: { de: 'Die Bedingungen nennen, dass Kunden ihre Daten vor Beendigung exportieren müssen, und ein etwaiges Read-only-Exportfenster nach Vertragsende von Monday.com ohne Vorankündigung beendet werden kann.' },
         severity: 'major',
         sourceUrl: 'https://monday.com/l/legal/tos/',
       },
       {
         id: 'monday-terms-change-and-continued-use-acceptance',
         text: 'Terms allow Monday.com to add, modify, or discontinue features at its discretion, and continued use after updates is treated as acceptance, reducing long-term contract predictability.',
-        textDe: 'Die Bedingungen erlauben Monday.com, Features nach eigenem Ermessen hinzuzufügen, zu ändern oder einzustellen; zudem gilt die fortgesetzte Nutzung nach Updates als Zustimmung, was die langfristige Vertragsvorhersehbarkeit reduziert.',
+        localizedTexts: { de: 'Die Bedingungen erlauben Monday.com, Features nach eigenem Ermessen hinzuzufügen, zu ändern oder einzustellen; zudem gilt die fortgesetzte Nutzung nach Updates als Zustimmung, was die langfristige Vertragsvorhersehbarkeit reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/legal/tos/',
       },
       {
         id: 'monday-sensitive-data-restrictions-require-special-terms',
         text: 'Terms prohibit uploading certain sensitive data categories by default (including special-category data and HIPAA-regulated data without an eligible plan and separate BAA), limiting baseline suitability for high-sensitivity workloads.',
-        textDe: 'Die Bedingungen untersagen standardmäßig das Hochladen bestimmter sensibler Datenkategorien (einschließlich besonderer Kategorien und HIPAA-regulierter Daten ohne geeigneten Plan und separate BAA), was die Basistauglichkeit für hochsensible Workloads einschränkt.',
+        localizedTexts: { de: 'Die Bedingungen untersagen standardmäßig das Hochladen bestimmter sensibler Datenkategorien (einschließlich besonderer Kategorien und HIPAA-regulierter Daten ohne geeigneten Plan und separate BAA), was die Basistauglichkeit für hochsensible Workloads einschränkt.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/legal/tos/',
       },
       {
         id: 'monday-ai-interaction-data-retention-opt-out-friction',
         text: 'Monday AI terms state interaction and usage data may be used for monitoring and service improvement, retained for up to 60 days, and account-level opt-out requires admin action via support.',
-        textDe: 'Die Monday-AI-Bedingungen nennen, dass Interaktions- und Nutzungsdaten für Monitoring und Service-Verbesserung genutzt und bis zu 60 Tage aufbewahrt werden können; ein Account-weites Opt-out erfordert eine aktive Admin-Anfrage beim Support.',
+        localizedTexts: { de: 'Die Monday-AI-Bedingungen nennen, dass Interaktions- und Nutzungsdaten für Monitoring und Service-Verbesserung genutzt und bis zu 60 Tage aufbewahrt werden können; ein Account-weites Opt-out erfordert eine aktive Admin-Anfrage beim Support.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/legal/ai/',
       },
       {
         id: 'monday-ai-default-enablement-and-fee-exposure',
         text: 'Monday AI terms indicate some AI capabilities may be enabled by default and may incur additional fees, creating governance and budget-drift risk if not tightly controlled.',
-        textDe: 'Die Monday-AI-Bedingungen weisen darauf hin, dass einige KI-Funktionen standardmäßig aktiviert sein können und zusätzliche Gebühren auslösen können, was ohne strikte Steuerung Governance- und Budgetdrift-Risiken schafft.',
+        localizedTexts: { de: 'Die Monday-AI-Bedingungen weisen darauf hin, dass einige KI-Funktionen standardmäßig aktiviert sein können und zusätzliche Gebühren auslösen können, was ohne strikte Steuerung Governance- und Budgetdrift-Risiken schafft.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/legal/ai/',
       },
       {
         id: 'monday-cross-border-transfer-framework-reliance',
         text: 'Privacy disclosures state personal data may be processed across multiple jurisdictions and rely on adequacy decisions, DPF participation, and SCC-based mechanisms for certain transfers.',
-        textDe: 'Die Privacy-Hinweise nennen, dass personenbezogene Daten in mehreren Jurisdiktionen verarbeitet werden können und sich für bestimmte Transfers auf Angemessenheitsentscheidungen, DPF-Teilnahme und SCC-basierte Mechanismen stützen.',
+        localizedTexts: { de: 'Die Privacy-Hinweise nennen, dass personenbezogene Daten in mehreren Jurisdiktionen verarbeitet werden können und sich für bestimmte Transfers auf Angemessenheitsentscheidungen, DPF-Teilnahme und SCC-basierte Mechanismen stützen.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/privacy/privacy-policy/',
       },
       {
         id: 'monday-subprocessor-onward-transfer-complexity',
         text: 'The DPA permits authorized subprocessors and onward transfers with layered SCC/UK/Swiss transfer addenda, increasing contractual and compliance complexity for sovereignty-sensitive deployments.',
-        textDe: 'Die DPA erlaubt autorisierte Subprozessoren und Weiterübermittlungen mit gestaffelten SCC-/UK-/Swiss-Transfer-Addenda, was die vertragliche und Compliance-Komplexität für souveränitätssensible Deployments erhöht.',
+        localizedTexts: { de: 'Die DPA erlaubt autorisierte Subprozessoren und Weiterübermittlungen mit gestaffelten SCC-/UK-/Swiss-Transfer-Addenda, was die vertragliche und Compliance-Komplexität für souveränitätssensible Deployments erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://monday.com/l/privacy/dpa/',
       },
       {
         id: 'monday-bucket-pricing-seat-packages',
         text: 'Monday.com pricing documentation uses seat buckets (for example 3-seat start and fixed seat blocks), which can create cost-fit friction for small or variable teams.',
-        textDe: 'Die Monday.com-Preisdokumentation nutzt Seat-Buckets (z. B. Start bei 3 Seats und feste Seat-Blöcke), was für kleine oder stark variable Teams zu Cost-Fit-Reibung führen kann.',
+        localizedTexts: { de: 'Die Monday.com-Preisdokumentation nutzt Seat-Buckets (z. B. Start bei 3 Seats und feste Seat-Blöcke), was für kleine oder stark variable Teams zu Cost-Fit-Reibung führen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://support.monday.com/hc/en-us/articles/4405633151634-How-does-plan-and-product-pricing-work',
       },
       {
         id: 'monday-pricing-model-adjustment-2024',
         text: 'Monday.com announced a broad pricing-model adjustment in January 2024 (including product separation and pricing structure changes), increasing contract predictability risk.',
-        textDe: 'Monday.com kündigte im Januar 2024 eine breite Pricing-Modellanpassung an (inklusive Produkttrennung und Strukturänderungen), was das Risiko für Vertrags- und Budgetvorhersehbarkeit erhöht.',
+        localizedTexts: { de: 'Monday.com kündigte im Januar 2024 eine breite Pricing-Modellanpassung an (inklusive Produkttrennung und Strukturänderungen), was das Risiko für Vertrags- und Budgetvorhersehbarkeit erhöht.' },
         severity: 'moderate',
         date: '2024-01-01',
         sourceUrl: 'https://support.monday.com/hc/en-us/articles/16274345773842-Pricing-model-adjustment-January-2024',
@@ -3961,7 +3994,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'monday-service-pricing-adjustment-2026',
         text: 'Monday.com announced an 18% monday service price adjustment effective February 10, 2026 for listed plans, adding renewal-cost volatility.',
-        textDe: 'Monday.com kündigte eine Preisadjustierung von 18 % für monday service mit Wirksamkeit zum 10. Februar 2026 für gelistete Tarife an, was Verlängerungskosten volatiler macht.',
+        localizedTexts: { de: 'Monday.com kündigte eine Preisadjustierung von 18 % für monday service mit Wirksamkeit zum 10. Februar 2026 für gelistete Tarife an, was Verlängerungskosten volatiler macht.' },
         severity: 'moderate',
         date: '2026-02-10',
         sourceUrl: 'https://support.monday.com/hc/en-us/articles/31768213864466-Pricing-model-adjustment-for-monday-service-February-2026',
@@ -3969,7 +4002,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'monday-recurring-status-incidents-2025-2026',
         text: 'Public status history shows recurring incident windows across products in late 2025 and early 2026, indicating non-trivial continuity risk for critical workflows.',
-        textDe: 'Die öffentliche Status-Historie zeigt wiederkehrende Incident-Fenster über mehrere Produkte Ende 2025 und Anfang 2026, was ein relevantes Kontinuitätsrisiko für kritische Workflows signalisiert.',
+        localizedTexts: { de: 'Die öffentliche Status-Historie zeigt wiederkehrende Incident-Fenster über mehrere Produkte Ende 2025 und Anfang 2026, was ein relevantes Kontinuitätsrisiko für kritische Workflows signalisiert.' },
         severity: 'moderate',
         sourceUrl: 'https://status.monday.com/history',
       },
@@ -3979,13 +4012,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.0,
     description:
         'US-operated work-management ecosystem with mature security/compliance programs and relatively transparent incident reporting, but trust is reduced by lifecycle-driven lock-in (Server end-of-support, Data Center EOL, Connect-to-Forge migration), historical high-impact availability failures, and billing/renewal mechanics that can reduce long-term cost predictability.',
-    descriptionDe:
-        'US-betriebenes Work-Management-Ökosystem mit reifen Security-/Compliance-Programmen und vergleichsweise transparenter Incident-Kommunikation; das Vertrauen sinkt jedoch durch lifecycle-getriebenes Lock-in (Server-End-of-Support, Data-Center-EOL, Connect-zu-Forge-Migration), historisch hochrelevante Verfügbarkeitsausfälle sowie Billing-/Renewal-Mechaniken mit reduzierter langfristiger Kostenplanbarkeit.',
+    localizedDescriptions: {
+      de: 'US-betriebenes Work-Management-Ökosystem mit reifen Security-/Compliance-Programmen und vergleichsweise transparenter Incident-Kommunikation; das Vertrauen sinkt jedoch durch lifecycle-getriebenes Lock-in (Server-End-of-Support, Data-Center-EOL, Connect-zu-Forge-Migration), historisch hochrelevante Verfügbarkeitsausfälle sowie Billing-/Renewal-Mechaniken mit reduzierter langfristiger Kostenplanbarkeit.',
+    },
     reservations: [
       {
         id: 'atlassian-server-end-of-support-2024',
         text: 'Atlassian Server support ended on February 15, 2024, and unsupported deployments no longer receive regular security fixes, increasing lifecycle and security exposure for holdout environments.',
-        textDe: 'Der Atlassian-Server-Support endete am 15. Februar 2024; nicht migrierte Deployments erhalten keine regulären Security-Fixes mehr, was Lifecycle- und Sicherheitsrisiken erhöht.',
+        localizedTexts: { de: 'Der Atlassian-Server-Support endete am 15. Februar 2024; nicht migrierte Deployments erhalten keine regulären Security-Fixes mehr, was Lifecycle- und Sicherheitsrisiken erhöht.' },
         severity: 'major',
         date: '2024-02-15',
         sourceUrl: 'https://www.atlassian.com/licensing/server-end-of-support',
@@ -3993,7 +4027,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-data-center-end-of-life-2029',
         text: 'Atlassian published a Data Center end-of-life timeline through March 28, 2029 with phased wind-down milestones, creating long-horizon migration pressure for sovereignty-sensitive buyers.',
-        textDe: 'Atlassian veröffentlichte eine Data-Center-End-of-Life-Timeline bis zum 28. März 2029 mit abgestuften Wind-down-Meilensteinen, was für souveränitätssensible Kunden langfristigen Migrationsdruck erzeugt.',
+        localizedTexts: { de: 'Atlassian veröffentlichte eine Data-Center-End-of-Life-Timeline bis zum 28. März 2029 mit abgestuften Wind-down-Meilensteinen, was für souveränitätssensible Kunden langfristigen Migrationsdruck erzeugt.' },
         severity: 'major',
         date: '2029-03-28',
         sourceUrl: 'https://www.atlassian.com/licensing/data-center-end-of-life',
@@ -4001,7 +4035,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'jira-april-2022-major-outage',
         text: 'Atlassian\'s post-incident review states 775 cloud customers were affected in April 2022, with some experiencing up to 14 days of service disruption.',
-        textDe: 'Der Atlassian-Post-Incident-Review nennt für April 2022 insgesamt 775 betroffene Cloud-Kunden; einige Instanzen waren bis zu 14 Tage beeinträchtigt.',
+        localizedTexts: { de: 'Der Atlassian-Post-Incident-Review nennt für April 2022 insgesamt 775 betroffene Cloud-Kunden; einige Instanzen waren bis zu 14 Tage beeinträchtigt.' },
         severity: 'major',
         date: '2022-04-05',
         sourceUrl: 'https://www.atlassian.com/blog/atlassian-engineering/post-incident-review-april-2022-outage',
@@ -4009,7 +4043,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'jira-server-dc-cve-2021-26086-kev-signal',
         text: 'NVD metadata for CVE-2021-26086 indicates CISA KEV catalog inclusion, underscoring real-world exploitation pressure against unpatched Jira Server/Data Center deployments.',
-        textDe: 'NVD-Metadaten zu CVE-2021-26086 zeigen die Aufnahme in den CISA-KEV-Katalog und unterstreichen realen Ausnutzungsdruck gegen ungepatchte Jira-Server-/Data-Center-Deployments.',
+        localizedTexts: { de: 'NVD-Metadaten zu CVE-2021-26086 zeigen die Aufnahme in den CISA-KEV-Katalog und unterstreichen realen Ausnutzungsdruck gegen ungepatchte Jira-Server-/Data-Center-Deployments.' },
         severity: 'major',
         date: '2024-11-12',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2021-26086',
@@ -4017,7 +4051,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'jira-server-dc-cve-2025-22167',
         text: 'CVE-2025-22167 records another high-impact Jira Data Center/Server vulnerability class in 2025, reinforcing ongoing patch-management pressure for self-managed deployments.',
-        textDe: 'CVE-2025-22167 dokumentiert 2025 eine weitere hochrelevante Jira-Data-Center-/Server-Schwachstellenklasse und verstärkt den laufenden Patch-Management-Druck für selbstverwaltete Deployments.',
+        localizedTexts: { de: 'CVE-2025-22167 dokumentiert 2025 eine weitere hochrelevante Jira-Data-Center-/Server-Schwachstellenklasse und verstärkt den laufenden Patch-Management-Druck für selbstverwaltete Deployments.' },
         severity: 'moderate',
         date: '2025-01-21',
         sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2025-22167',
@@ -4025,7 +4059,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-envoy-third-party-incident-2023',
         text: 'Atlassian disclosed a 2023 incident tied to the third-party office-management vendor Envoy involving compromised Atlassian-related data, highlighting supplier-risk exposure outside core product infrastructure.',
-        textDe: 'Atlassian legte 2023 einen Vorfall beim Drittanbieter Envoy offen, bei dem Atlassian-bezogene Daten kompromittiert wurden; das unterstreicht Supplier-Risiken ausserhalb der Kernprodukt-Infrastruktur.',
+        localizedTexts: { de: 'Atlassian legte 2023 einen Vorfall beim Drittanbieter Envoy offen, bei dem Atlassian-bezogene Daten kompromittiert wurden; das unterstreicht Supplier-Risiken ausserhalb der Kernprodukt-Infrastruktur.' },
         severity: 'moderate',
         date: '2023-02-23',
         sourceUrl: 'https://community.atlassian.com/forums/Trust-Security-discussions/Atlassian-s-response-to-the-Envoy-Data-Incident/td-p/2280650',
@@ -4033,28 +4067,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-data-residency-scope-limitations',
         text: 'Atlassian states data residency applies to in-scope app data only; multiple data classes remain out of scope (for example user account information, some logs, and some marketplace/app data).',
-        textDe: 'Atlassian gibt an, dass Data Residency nur für in-scope App-Daten gilt; mehrere Datenklassen bleiben out of scope (z. B. User-Account-Informationen, bestimmte Logs und Teile von Marketplace-/App-Daten).',
+        localizedTexts: { de: 'Atlassian gibt an, dass Data Residency nur für in-scope App-Daten gilt; mehrere Datenklassen bleiben out of scope (z. B. User-Account-Informationen, bestimmte Logs und Teile von Marketplace-/App-Daten).' },
         severity: 'major',
         sourceUrl: 'https://support.atlassian.com/security-and-access-policies/docs/understand-data-residency/',
       },
       {
         id: 'atlassian-data-residency-move-downtime-impact',
         text: 'Atlassian documents that data-residency moves can involve app downtime (up to 24 hours) and temporary search degradation (up to around 3 days), creating operational migration risk.',
-        textDe: 'Atlassian dokumentiert, dass Data-Residency-Moves App-Downtime (bis zu 24 Stunden) und temporäre Such-Einschränkungen (bis zu etwa 3 Tage) verursachen können; das erzeugt operative Migrationsrisiken.',
+        localizedTexts: { de: 'Atlassian dokumentiert, dass Data-Residency-Moves App-Downtime (bis zu 24 Stunden) und temporäre Such-Einschränkungen (bis zu etwa 3 Tage) verursachen können; das erzeugt operative Migrationsrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://support.atlassian.com/security-and-access-policies/docs/move-data-to-another-location/',
       },
       {
         id: 'atlassian-audit-log-data-not-pinnable',
         text: 'Atlassian states that data residency is not available for audit-log activity data, which can limit strict in-region compliance models.',
-        textDe: 'Atlassian nennt, dass Data Residency für Audit-Log-Aktivitätsdaten nicht verfügbar ist, was strikte In-Region-Compliance-Modelle einschränken kann.',
+        localizedTexts: { de: 'Atlassian nennt, dass Data Residency für Audit-Log-Aktivitätsdaten nicht verfügbar ist, was strikte In-Region-Compliance-Modelle einschränken kann.' },
         severity: 'moderate',
         sourceUrl: 'https://support.atlassian.com/security-and-access-policies/docs/move-data-to-another-location/',
       },
       {
         id: 'trello-profile-enumeration-abuse-2024',
         text: 'Atlassian documented abuse of Trello public profile lookups using external email lists and subsequently tightened unauthenticated API behavior, highlighting identifier-enumeration risk in the broader Atlassian ecosystem.',
-        textDe: 'Atlassian dokumentierte Missbrauch von öffentlichen Trello-Profil-Lookups mit externen E-Mail-Listen und verschärfte danach das unauthentifizierte API-Verhalten; das zeigt Identifier-Enumeration-Risiken im breiteren Atlassian-Ökosystem.',
+        localizedTexts: { de: 'Atlassian dokumentierte Missbrauch von öffentlichen Trello-Profil-Lookups mit externen E-Mail-Listen und verschärfte danach das unauthentifizierte API-Verhalten; das zeigt Identifier-Enumeration-Risiken im breiteren Atlassian-Ökosystem.' },
         severity: 'moderate',
         date: '2024-01-23',
         sourceUrl: 'https://community.atlassian.com/forums/Trello-articles/Setting-the-record-straight-about-Trello-user-profile-data/ba-p/2587253',
@@ -4062,7 +4096,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-dual-class-voting-concentration-2025',
         text: 'Atlassian\'s annual filing discloses dual-class voting rights with Class B shares carrying 10 votes each and concentrated voting control, reducing governance flexibility for minority stakeholders.',
-        textDe: 'Der Atlassian-Jahresbericht offenlegt ein Dual-Class-Stimmrecht mit 10 Stimmen je Class-B-Aktie und stark konzentrierter Voting-Control, was die Governance-Flexibilität für Minderheitsstakeholder reduziert.',
+        localizedTexts: { de: 'Der Atlassian-Jahresbericht offenlegt ein Dual-Class-Stimmrecht mit 10 Stimmen je Class-B-Aktie und stark konzentrierter Voting-Control, was die Governance-Flexibilität für Minderheitsstakeholder reduziert.' },
         severity: 'moderate',
         date: '2025-12-31',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/0001650372/000165037226000011/team-20251231.htm',
@@ -4070,7 +4104,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-connect-end-of-support-2026',
         text: 'Atlassian announced Connect end-of-support milestones and a Forge-first app model, creating migration burden and platform-dependency risk for existing ecosystem vendors.',
-        textDe: 'Atlassian kündigte Connect-End-of-Support-Meilensteine und ein Forge-first-App-Modell an; das erzeugt Migrationsaufwand und Plattformabhängigkeitsrisiken für bestehende Ecosystem-Anbieter.',
+        localizedTexts: { de: 'Atlassian kündigte Connect-End-of-Support-Meilensteine und ein Forge-first-App-Modell an; das erzeugt Migrationsaufwand und Plattformabhängigkeitsrisiken für bestehende Ecosystem-Anbieter.' },
         severity: 'moderate',
         date: '2025-03-17',
         sourceUrl: 'https://www.atlassian.com/blog/developer/announcing-connect-end-of-support-timeline-and-next-steps',
@@ -4078,14 +4112,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-automatic-renewal-current-rates',
         text: 'Atlassian Customer Agreement terms describe automatic renewal at then-current rates and generally non-refundable payments, requiring active procurement controls to avoid cost surprises.',
-        textDe: 'Die Bedingungen des Atlassian Customer Agreement beschreiben automatische Verlängerung zu dann gültigen Preisen und grundsätzlich nicht rückerstattbare Zahlungen; ohne aktive Procurement-Kontrollen drohen Kostenüberraschungen.',
+        localizedTexts: { de: 'Die Bedingungen des Atlassian Customer Agreement beschreiben automatische Verlängerung zu dann gültigen Preisen und grundsätzlich nicht rückerstattbare Zahlungen; ohne aktive Procurement-Kontrollen drohen Kostenüberraschungen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.atlassian.com/legal/atlassian-customer-agreement',
       },
       {
         id: 'atlassian-maximum-quantity-billing-2025',
         text: 'Atlassian\'s maximum-quantity billing update can bill customers based on peak user quantity during a cycle and does not issue in-cycle credits for seat reductions, increasing spend-volatility risk.',
-        textDe: 'Das Atlassian-Update zu Maximum-Quantity-Billing kann Kunden auf Basis der Spitzenanzahl von Nutzern im Abrechnungszeitraum belasten und sieht keine In-Cycle-Credits für Seat-Reduktionen vor; das erhöht das Risiko von Ausgabenvolatilität.',
+        localizedTexts: { de: 'Das Atlassian-Update zu Maximum-Quantity-Billing kann Kunden auf Basis der Spitzenanzahl von Nutzern im Abrechnungszeitraum belasten und sieht keine In-Cycle-Credits für Seat-Reduktionen vor; das erhöht das Risiko von Ausgabenvolatilität.' },
         severity: 'moderate',
         date: '2025-05-27',
         sourceUrl: 'https://www.atlassian.com/blog/announcements/maximum-quantity-billing',
@@ -4093,7 +4127,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'atlassian-status-incident-frequency-2026',
         text: 'Atlassian\'s public status history shows recurring incidents, including disruption windows in early 2026, indicating non-trivial continuity risk for organizations with Jira as a critical operational dependency.',
-        textDe: 'Die öffentliche Atlassian-Statushistorie zeigt wiederkehrende Incidents, einschliesslich Disruptionsfenstern Anfang 2026; das signalisiert ein relevantes Kontinuitätsrisiko für Organisationen mit Jira als kritischer Betriebsabhängigkeit.',
+        localizedTexts: { de: 'Die öffentliche Atlassian-Statushistorie zeigt wiederkehrende Incidents, einschliesslich Disruptionsfenstern Anfang 2026; das signalisiert ein relevantes Kontinuitätsrisiko für Organisationen mit Jira als kritischer Betriebsabhängigkeit.' },
         severity: 'moderate',
         date: '2026-02-03',
         sourceUrl: 'https://status.atlassian.com/history',
@@ -4104,13 +4138,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.8,
     description:
         'US-operated communications platform with active security response and mandatory end-to-end encryption for audio/video from March 2026, but trust is reduced by the 2025 third-party support breach involving ID data, expanded age-assurance workflows, and recurring governance/reliability friction.',
-    descriptionDe:
-        'US-Kommunikationsplattform mit aktiver Security-Response und verpflichtender Ende-zu-Ende-Verschlüsselung für Audio/Video ab März 2026; das Vertrauen sinkt jedoch durch den Drittanbieter-Breach 2025 mit ID-Daten, ausgeweitete Age-Assurance-Prozesse sowie wiederkehrende Governance- und Reliability-Reibungen.',
+    localizedDescriptions: {
+      de: 'US-Kommunikationsplattform mit aktiver Security-Response und verpflichtender Ende-zu-Ende-Verschlüsselung für Audio/Video ab März 2026; das Vertrauen sinkt jedoch durch den Drittanbieter-Breach 2025 mit ID-Daten, ausgeweitete Age-Assurance-Prozesse sowie wiederkehrende Governance- und Reliability-Reibungen.',
+    },
     reservations: [
       {
         id: 'discord-third-party-support-vendor-breach-2025',
         text: 'Discord disclosed a 2025 incident where an unauthorized party compromised third-party support vendor 5CA, exposing ticket data for affected users, including government-ID photos for a subset.',
-        textDe: 'Discord legte 2025 einen Vorfall offen, bei dem ein unbefugter Akteur den Third-Party-Support-Anbieter 5CA kompromittierte und Ticket-Daten betroffener Nutzer exponierte, inklusive Ausweisfotos für einen Teil der Fälle.',
+        localizedTexts: { de: 'Discord legte 2025 einen Vorfall offen, bei dem ein unbefugter Akteur den Third-Party-Support-Anbieter 5CA kompromittierte und Ticket-Daten betroffener Nutzer exponierte, inklusive Ausweisfotos für einen Teil der Fälle.' },
         severity: 'major',
         date: '2025-10-03',
         sourceUrl: 'https://discord.com/press-releases/update-on-security-incident-involving-third-party-customer-service',
@@ -4118,7 +4153,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-age-assurance-id-face-verification-rollout-2026',
         text: 'Discord\'s global teen-by-default rollout introduces age-assurance pathways that can require government ID or facial age estimation for access to age-restricted features.',
-        textDe: 'Der globale Teen-by-Default-Rollout von Discord führt Age-Assurance-Pfade ein, die für den Zugriff auf altersbeschränkte Funktionen einen amtlichen Ausweis oder eine Gesichtsaltersschätzung verlangen können.',
+        localizedTexts: { de: 'Der globale Teen-by-Default-Rollout von Discord führt Age-Assurance-Pfade ein, die für den Zugriff auf altersbeschränkte Funktionen einen amtlichen Ausweis oder eine Gesichtsaltersschätzung verlangen können.' },
         severity: 'major',
         date: '2026-02-09',
         sourceUrl: 'https://discord.com/press-releases/discord-launches-teen-by-default-settings-globally',
@@ -4126,14 +4161,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-public-post-retention-ml-training-window',
         text: 'Discord\'s retention policy says deleted public posts may be retained for 180 days to two years to help train systems that proactively detect policy-violating content.',
-        textDe: 'Laut Discord-Retention-Policy können gelöschte öffentliche Posts für 180 Tage bis zu zwei Jahre aufbewahrt werden, um Systeme zur proaktiven Erkennung von Policy-Verstössen zu trainieren.',
+        localizedTexts: { de: 'Laut Discord-Retention-Policy können gelöschte öffentliche Posts für 180 Tage bis zu zwei Jahre aufbewahrt werden, um Systeme zur proaktiven Erkennung von Policy-Verstössen zu trainieren.' },
         severity: 'major',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/5431812448791',
       },
       {
         id: 'discord-age-inference-model-behavioral-signals-2026',
         text: 'Discord states its age-inference model uses account behavior and related signals, and users with insufficient model confidence are pushed into explicit age-assurance flows for adult-access features.',
-        textDe: 'Discord gibt an, dass das Age-Inference-Modell Verhaltens- und weitere accountbezogene Signale nutzt; bei unzureichender Modell-Confidence werden Nutzer in explizite Age-Assurance-Flows für Adult-Features geführt.',
+        localizedTexts: { de: 'Discord gibt an, dass das Age-Inference-Modell Verhaltens- und weitere accountbezogene Signale nutzt; bei unzureichender Modell-Confidence werden Nutzer in explizite Age-Assurance-Flows für Adult-Features geführt.' },
         severity: 'moderate',
         date: '2026-02-11',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/38332670254231-Age-Assurance-Update-FAQ',
@@ -4141,14 +4176,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-us-processing-and-jurisdiction-exposure',
         text: 'Discord states it processes and stores user information in the United States, including legal-process disclosures for law enforcement and national-security requests.',
-        textDe: 'Discord gibt an, Nutzerinformationen in den USA zu verarbeiten und zu speichern, einschliesslich Offenlegungen bei gesetzlichen Anfragen von Strafverfolgung und nationaler Sicherheit.',
+        localizedTexts: { de: 'Discord gibt an, Nutzerinformationen in den USA zu verarbeiten und zu speichern, einschliesslich Offenlegungen bei gesetzlichen Anfragen von Strafverfolgung und nationaler Sicherheit.' },
         severity: 'major',
         sourceUrl: 'https://discord.com/privacy',
       },
       {
         id: 'discord-nj-consumer-fraud-complaint-2025',
         text: 'New Jersey filed a consumer-fraud complaint in April 2025 alleging Discord misrepresented child-safety controls; Discord disputes the allegations and litigation remains unresolved.',
-        textDe: 'New Jersey reichte im April 2025 eine Consumer-Fraud-Beschwerde ein und wirft Discord irreführende Darstellungen zu Kinderschutzfunktionen vor; Discord bestreitet die Vorwürfe und das Verfahren ist offen.',
+        localizedTexts: { de: 'New Jersey reichte im April 2025 eine Consumer-Fraud-Beschwerde ein und wirft Discord irreführende Darstellungen zu Kinderschutzfunktionen vor; Discord bestreitet die Vorwürfe und das Verfahren ist offen.' },
         severity: 'moderate',
         date: '2025-04-17',
         sourceUrl: 'https://www.nj.gov/oag/newsreleases25/2025-0417_Discord_Complaint.pdf',
@@ -4156,21 +4191,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-age-appeal-id-retention-up-to-60-days',
         text: 'Discord states that ID submitted for age-verification appeals may be retained for up to 60 days after the appeal ticket closes.',
-        textDe: 'Discord gibt an, dass für Age-Verification-Appeals eingereichte Ausweise bis zu 60 Tage nach Schliessung des Appeal-Tickets gespeichert werden können.',
+        localizedTexts: { de: 'Discord gibt an, dass für Age-Verification-Appeals eingereichte Ausweise bis zu 60 Tage nach Schliessung des Appeal-Tickets gespeichert werden können.' },
         severity: 'moderate',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/5431812448791',
       },
       {
         id: 'discord-support-case-data-retention-five-years',
         text: 'Discord\'s retention documentation says information tied to direct support requests may be retained for five years after closure for dispute and legal-rights purposes.',
-        textDe: 'Die Retention-Dokumentation von Discord nennt, dass Informationen zu direkten Supportanfragen nach Abschluss für Streit- und Rechtsverteidigungszwecke bis zu fünf Jahre gespeichert werden können.',
+        localizedTexts: { de: 'Die Retention-Dokumentation von Discord nennt, dass Informationen zu direkten Supportanfragen nach Abschluss für Streit- und Rechtsverteidigungszwecke bis zu fünf Jahre gespeichert werden können.' },
         severity: 'moderate',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/5431812448791',
       },
       {
         id: 'discord-e2ee-scope-gaps-stage-and-previews',
         text: 'Discord\'s E2EE A/V documentation states stage channels are not end-to-end encrypted and Go Live stream previews are not end-to-end encrypted.',
-        textDe: 'Die E2EE-A/V-Dokumentation von Discord nennt, dass Stage-Channels nicht ende-zu-ende verschlüsselt sind und Go-Live-Stream-Previews ebenfalls nicht ende-zu-ende verschlüsselt sind.',
+        localizedTexts: { de: 'Die E2EE-A/V-Dokumentation von Discord nennt, dass Stage-Channels nicht ende-zu-ende verschlüsselt sind und Go-Live-Stream-Previews ebenfalls nicht ende-zu-ende verschlüsselt sind.' },
         severity: 'moderate',
         date: '2026-02-03',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/25968222946071-End-to-End-Encryption-for-Audio-and-Video',
@@ -4178,7 +4213,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-zdi-0day-cve-2026-0776',
         text: 'The Zero Day Initiative published ZDI-26-040 (CVE-2026-0776), describing a local privilege-escalation issue in Discord Client and a dispute over vendor bug-bounty scope before disclosure.',
-        textDe: 'Die Zero Day Initiative veröffentlichte ZDI-26-040 (CVE-2026-0776) zu einer lokalen Privilege-Escalation im Discord-Client und beschrieb vor der Offenlegung einen Streit um den Vendor-Bounty-Scope.',
+        localizedTexts: { de: 'Die Zero Day Initiative veröffentlichte ZDI-26-040 (CVE-2026-0776) zu einer lokalen Privilege-Escalation im Discord-Client und beschrieb vor der Offenlegung einen Streit um den Vendor-Bounty-Scope.' },
         severity: 'moderate',
         date: '2026-01-09',
         sourceUrl: 'https://www.zerodayinitiative.com/advisories/ZDI-26-040/',
@@ -4186,7 +4221,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-recurring-api-voice-incidents-2025-2026',
         text: 'Discord\'s public status history documents repeated API, message-send, and voice/video incidents across late 2025 and January 2026, indicating ongoing reliability pressure.',
-        textDe: 'Die öffentliche Status-Historie von Discord dokumentiert wiederholte API-, Message-Send- sowie Voice/Video-Incidents in Spät-2025 und Januar-2026 und zeigt damit anhaltenden Reliability-Druck.',
+        localizedTexts: { de: 'Die öffentliche Status-Historie von Discord dokumentiert wiederholte API-, Message-Send- sowie Voice/Video-Incidents in Spät-2025 und Januar-2026 und zeigt damit anhaltenden Reliability-Druck.' },
         severity: 'moderate',
         date: '2026-01-27',
         sourceUrl: 'https://discordstatus.com/history.rss',
@@ -4194,7 +4229,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'discord-nitro-cancellation-device-path-dependency',
         text: 'Discord notes that many subscription cancellations must be performed on the same device type used for purchase, adding practical friction when account access is disrupted.',
-        textDe: 'Discord weist darauf hin, dass viele Abo-Kündigungen auf demselben Gerätetyp wie beim Kauf erfolgen müssen, was bei gestörtem Account-Zugriff praktische Reibung erzeugt.',
+        localizedTexts: { de: 'Discord weist darauf hin, dass viele Abo-Kündigungen auf demselben Gerätetyp wie beim Kauf erfolgen müssen, was bei gestörtem Account-Zugriff praktische Reibung erzeugt.' },
         severity: 'minor',
         sourceUrl: 'https://support.discord.com/hc/en-us/articles/19580873036695-How-to-Cancel-your-Nitro-Subscription',
       },
@@ -4204,34 +4239,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.3,
     description:
         'US-operated discussion platform with public incident communication, formal security governance, and regular moderation transparency reporting, but trust is materially reduced by ad-and-data-licensing incentives, broad content licensing (including AI/ML training rights), US-jurisdiction data exposure, and API-governance volatility.',
-    descriptionDe:
-        'US-Diskussionsplattform mit oeffentlicher Incident-Kommunikation, formalisierter Security-Governance und regelmaessigen Moderations-Transparenzberichten; das Vertrauen sinkt jedoch deutlich durch Werbe- und Data-Licensing-Anreize, breite Content-Lizenzrechte (inklusive AI/ML-Training), US-Jurisdiktionsrisiken und API-Governance-Volatilitaet.',
+    localizedDescriptions: {
+      de: 'US-Diskussionsplattform mit oeffentlicher Incident-Kommunikation, formalisierter Security-Governance und regelmaessigen Moderations-Transparenzberichten; das Vertrauen sinkt jedoch deutlich durch Werbe- und Data-Licensing-Anreize, breite Content-Lizenzrechte (inklusive AI/ML-Training), US-Jurisdiktionsrisiken und API-Governance-Volatilitaet.',
+    },
     reservations: [
       {
         id: 'reddit-advertising-and-data-licensing-revenue-model',
         text: 'Reddit\'s annual filing identifies advertising and data licensing as core revenue streams, creating structural incentives that can conflict with strict privacy-first expectations.',
-        textDe: 'Der Reddit-Jahresbericht nennt Werbung und Data Licensing als zentrale Umsatzsaeulen; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen kollidieren koennen.',
+        localizedTexts: { de: 'Der Reddit-Jahresbericht nennt Werbung und Data Licensing als zentrale Umsatzsaeulen; das schafft strukturelle Anreize, die mit strikten Privacy-First-Erwartungen kollidieren koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1713445/000171344526000022/rddt-20251231.htm',
       },
       {
         id: 'reddit-broad-content-license-and-ai-ml-training-rights',
         text: 'Reddit\'s User Agreement grants a broad, perpetual, transferable, and sublicensable license over user content, including use to develop, train, and improve machine-learning and AI models.',
-        textDe: 'Das Reddit User Agreement gewaehrt eine breite, dauerhafte, uebertragbare und unterlizenzierbare Lizenz an Nutzerinhalten, einschliesslich der Nutzung zur Entwicklung, zum Training und zur Verbesserung von Machine-Learning- und AI-Modellen.',
+        localizedTexts: { de: 'Das Reddit User Agreement gewaehrt eine breite, dauerhafte, uebertragbare und unterlizenzierbare Lizenz an Nutzerinhalten, einschliesslich der Nutzung zur Entwicklung, zum Training und zur Verbesserung von Machine-Learning- und AI-Modellen.' },
         severity: 'major',
         sourceUrl: 'https://redditinc.com/policies/user-agreement',
       },
       {
         id: 'reddit-us-processing-and-cross-border-transfer-exposure',
         text: 'Reddit\'s Privacy Policy states user information is processed and stored in the United States and transferred internationally using transfer mechanisms, leaving jurisdictional disclosure exposure for EU users.',
-        textDe: 'Die Reddit Privacy Policy nennt die Verarbeitung und Speicherung von Nutzerdaten in den USA sowie internationale Transfers ueber Transfermechanismen; fuer EU-Nutzer bleibt damit ein Jurisdiktions- und Offenlegungsrisiko bestehen.',
+        localizedTexts: { de: 'Die Reddit Privacy Policy nennt die Verarbeitung und Speicherung von Nutzerdaten in den USA sowie internationale Transfers ueber Transfermechanismen; fuer EU-Nutzer bleibt damit ein Jurisdiktions- und Offenlegungsrisiko bestehen.' },
         severity: 'major',
         sourceUrl: 'https://www.reddit.com/policies/privacy-policy',
       },
       {
         id: 'reddit-security-incident-spear-phishing-internal-access-2023',
         text: 'In February 2023, Reddit disclosed a successful spear-phishing incident where an attacker gained access to internal documents, source code, and internal business systems before containment.',
-        textDe: 'Im Februar 2023 legte Reddit einen erfolgreichen Spear-Phishing-Vorfall offen, bei dem ein Angreifer vor der Eindaemmung Zugriff auf interne Dokumente, Source Code und interne Business-Systeme erhielt.',
+        localizedTexts: { de: 'Im Februar 2023 legte Reddit einen erfolgreichen Spear-Phishing-Vorfall offen, bei dem ein Angreifer vor der Eindaemmung Zugriff auf interne Dokumente, Source Code und interne Business-Systeme erhielt.' },
         severity: 'major',
         date: '2023-02-09',
         sourceUrl: 'https://redditinc.com/news/sharing-our-findings-around-a-data-security-incident',
@@ -4239,7 +4275,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-controlled-company-voting-concentration-2026',
         text: 'Reddit\'s SEC filing describes voting agreements that can qualify the company as a controlled company, concentrating governance influence and reducing minority-shareholder checks.',
-        textDe: 'Das SEC-Filing von Reddit beschreibt Voting Agreements, durch die das Unternehmen als controlled company gelten kann; das konzentriert Governance-Einfluss und reduziert Minderheitskontrollen.',
+        localizedTexts: { de: 'Das SEC-Filing von Reddit beschreibt Voting Agreements, durch die das Unternehmen als controlled company gelten kann; das konzentriert Governance-Einfluss und reduziert Minderheitskontrollen.' },
         severity: 'moderate',
         date: '2026-02-12',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1713445/000171344526000022/rddt-20251231.htm',
@@ -4247,7 +4283,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-api-pricing-shift-third-party-app-disruption-2023',
         text: 'The 2023 API pricing shift contributed to major third-party client shutdowns and broad subreddit blackout protests, signaling platform-policy volatility for developer-dependent workflows.',
-        textDe: 'Die API-Preisaenderung 2023 trug zu grossen Abschaltungen von Drittanbieter-Clients und breiten Subreddit-Blackout-Protesten bei und signalisiert Policy-Volatilitaet fuer entwicklerabhaengige Workflows.',
+        localizedTexts: { de: 'Die API-Preisaenderung 2023 trug zu grossen Abschaltungen von Drittanbieter-Clients und breiten Subreddit-Blackout-Protesten bei und signalisiert Policy-Volatilitaet fuer entwicklerabhaengige Workflows.' },
         severity: 'moderate',
         date: '2023-06-12',
         sourceUrl: 'https://www.theverge.com/2023/6/12/23758002/reddit-crashing-api-protest-subreddit-private-going-dark',
@@ -4255,21 +4291,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-data-api-terms-fees-limits-and-revocation',
         text: 'Reddit\'s Data API Terms reserve rights to impose fees, enforce rate limits, modify terms, and suspend or revoke API access, creating integration continuity risk.',
-        textDe: 'Die Reddit Data API Terms behalten sich Gebuehren, Rate-Limits, Aenderungen der Bedingungen sowie Suspendierung oder Widerruf von API-Zugaengen vor; das erzeugt Integrations- und Kontinuitaetsrisiken.',
+        localizedTexts: { de: 'Die Reddit Data API Terms behalten sich Gebuehren, Rate-Limits, Aenderungen der Bedingungen sowie Suspendierung oder Widerruf von API-Zugaengen vor; das erzeugt Integrations- und Kontinuitaetsrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://redditinc.com/policies/data-api-terms',
       },
       {
         id: 'reddit-public-content-default-visibility-risk',
         text: 'Reddit\'s public-content model is public by default for most communities, so users can unintentionally expose sensitive context if posting behavior is not tightly controlled.',
-        textDe: 'Das Public-Content-Modell von Reddit ist fuer die meisten Communities standardmaessig oeffentlich; ohne strikt kontrolliertes Posting-Verhalten koennen Nutzer sensible Kontexte unbeabsichtigt offenlegen.',
+        localizedTexts: { de: 'Das Public-Content-Modell von Reddit ist fuer die meisten Communities standardmaessig oeffentlich; ohne strikt kontrolliertes Posting-Verhalten koennen Nutzer sensible Kontexte unbeabsichtigt offenlegen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.reddithelp.com/hc/en-us/articles/26410290525844-Public-Content-Policy',
       },
       {
         id: 'reddit-wayback-indexing-restriction-2025',
         text: 'Reddit restricted Internet Archive indexing in 2025, illustrating an accountability tradeoff between anti-scraping controls and long-term public archival transparency.',
-        textDe: 'Reddit schraenkte 2025 die Indexierung durch das Internet Archive ein und zeigt damit einen Accountability-Trade-off zwischen Anti-Scraping-Kontrollen und langfristiger oeffentlicher Archivtransparenz.',
+        localizedTexts: { de: 'Reddit schraenkte 2025 die Indexierung durch das Internet Archive ein und zeigt damit einen Accountability-Trade-off zwischen Anti-Scraping-Kontrollen und langfristiger oeffentlicher Archivtransparenz.' },
         severity: 'moderate',
         date: '2025-08-28',
         sourceUrl: 'https://www.theverge.com/news/704851/reddit-wayback-machine-blocked-ai-scraping',
@@ -4277,14 +4313,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-no-public-customer-soc2-iso-attestation-artifacts',
         text: 'Primary public sources do not provide customer-downloadable Reddit SOC 2 or ISO 27001 attestations; SEC disclosures reference SOC 2 in third-party risk-management context rather than a public Reddit trust-artifact package.',
-        textDe: 'Primaere oeffentliche Quellen stellen keine kunden-downloadbaren Reddit-SOC-2- oder ISO-27001-Attestierungen bereit; SEC-Offenlegungen referenzieren SOC 2 im Kontext von Third-Party-Risk-Management statt als oeffentliches Reddit-Trust-Artefaktpaket.',
+        localizedTexts: { de: 'Primaere oeffentliche Quellen stellen keine kunden-downloadbaren Reddit-SOC-2- oder ISO-27001-Attestierungen bereit; SEC-Offenlegungen referenzieren SOC 2 im Kontext von Third-Party-Risk-Management statt als oeffentliches Reddit-Trust-Artefaktpaket.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1713445/000171344526000022/rddt-20251231.htm',
       },
       {
         id: 'reddit-transparency-report-legal-request-disclosure-surface-2025',
         text: 'Reddit\'s January-June 2025 transparency report states it received 1,179 standard government/law-enforcement account-information requests and disclosed data in 813 cases (69%), indicating a material legal-disclosure surface.',
-        textDe: 'Der Reddit-Transparenzbericht Januar-Juni 2025 nennt 1.179 standardmaessige Account-Informationsanfragen von Behoerden/Strafverfolgung und Datenoffenlegungen in 813 Faellen (69%), was eine relevante Legal-Disclosure-Angriffsflaeche zeigt.',
+        localizedTexts: { de: 'Der Reddit-Transparenzbericht Januar-Juni 2025 nennt 1.179 standardmaessige Account-Informationsanfragen von Behoerden/Strafverfolgung und Datenoffenlegungen in 813 Faellen (69%), was eine relevante Legal-Disclosure-Angriffsflaeche zeigt.' },
         severity: 'moderate',
         date: '2025-06-30',
         sourceUrl: 'https://redditinc.com/policies/transparency-report-january-to-june-2025-reddit',
@@ -4292,28 +4328,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-law-enforcement-guideline-subpoena-warrant-framework',
         text: 'Reddit\'s law-enforcement guideline states account disclosures can occur under subpoena/court-order/warrant and emergency pathways, including cross-border mechanisms (e.g., MLAT), reinforcing jurisdictional disclosure risk for sensitive use cases.',
-        textDe: 'Die Reddit-Guideline fuer Strafverfolgungsanfragen nennt Account-Offenlegungen ueber Subpoena/Court-Order/Warrant sowie Emergency-Pfade, inklusive grenzueberschreitender Mechanismen (z. B. MLAT), und verstaerkt damit Jurisdiktionsrisiken fuer sensible Use Cases.',
+        localizedTexts: { de: 'Die Reddit-Guideline fuer Strafverfolgungsanfragen nennt Account-Offenlegungen ueber Subpoena/Court-Order/Warrant sowie Emergency-Pfade, inklusive grenzueberschreitender Mechanismen (z. B. MLAT), und verstaerkt damit Jurisdiktionsrisiken fuer sensible Use Cases.' },
         severity: 'moderate',
         sourceUrl: 'https://redditinc.com/policies/guideline-for-law-enforcement',
       },
       {
         id: 'reddit-account-deletion-content-persistence-and-retention',
         text: 'Reddit\'s privacy policy states that deleting an account dissociates profile identity, but prior posts/comments/messages remain visible unless individually deleted first, and certain information may still be retained for legal or business reasons.',
-        textDe: 'Laut Reddit-Privacy-Policy trennt das Loeschen eines Accounts zwar die Profilidentitaet, fruehere Posts/Kommentare/Nachrichten bleiben jedoch sichtbar, sofern sie nicht zuvor einzeln geloescht wurden, und bestimmte Informationen koennen aus rechtlichen oder geschaeftlichen Gruenden weiter gespeichert werden.',
+        localizedTexts: { de: 'Laut Reddit-Privacy-Policy trennt das Loeschen eines Accounts zwar die Profilidentitaet, fruehere Posts/Kommentare/Nachrichten bleiben jedoch sichtbar, sofern sie nicht zuvor einzeln geloescht wurden, und bestimmte Informationen koennen aus rechtlichen oder geschaeftlichen Gruenden weiter gespeichert werden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.reddit.com/policies/privacy-policy',
       },
       {
         id: 'reddit-user-agreement-unilateral-service-change-rights',
         text: 'Reddit\'s User Agreement reserves broad rights to modify, suspend, or discontinue services, features, and functionality with or without prior notice, increasing platform-dependency and change-management risk.',
-        textDe: 'Das Reddit User Agreement behaelt sich weitgehende Rechte vor, Dienste, Features und Funktionalitaet mit oder ohne vorherige Mitteilung zu aendern, auszusetzen oder einzustellen, was Plattformabhaengigkeits- und Change-Management-Risiken erhoeht.',
+        localizedTexts: { de: 'Das Reddit User Agreement behaelt sich weitgehende Rechte vor, Dienste, Features und Funktionalitaet mit oder ohne vorherige Mitteilung zu aendern, auszusetzen oder einzustellen, was Plattformabhaengigkeits- und Change-Management-Risiken erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://redditinc.com/policies/user-agreement',
       },
       {
         id: 'reddit-recurring-status-incidents-2024-2026',
         text: 'Reddit\'s public status incident feed documents repeated disruptions across web/mobile/infrastructure in 2024-2026, including major elevated-error events, indicating recurring availability risk for dependency-heavy workflows.',
-        textDe: 'Der oeffentliche Reddit-Statusfeed dokumentiert wiederholte Stoerungen ueber Web/Mobile/Infrastruktur in 2024-2026, inklusive groesserer Elevated-Error-Events, und signalisiert wiederkehrende Verfuegbarkeitsrisiken fuer abhaengigkeitsstarke Workflows.',
+        localizedTexts: { de: 'Der oeffentliche Reddit-Statusfeed dokumentiert wiederholte Stoerungen ueber Web/Mobile/Infrastruktur in 2024-2026, inklusive groesserer Elevated-Error-Events, und signalisiert wiederkehrende Verfuegbarkeitsrisiken fuer abhaengigkeitsstarke Workflows.' },
         severity: 'moderate',
         date: '2026-01-18',
         sourceUrl: 'https://www.redditstatus.com/api/v2/incidents.json',
@@ -4321,7 +4357,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-api-pricing-apollo-cost-shock-2023',
         text: 'Coverage of the 2023 API pricing change reported that Apollo projected about $20M/year in API costs, reinforcing pricing-shock risk for third-party developer ecosystems.',
-        textDe: 'Berichte zur API-Preisumstellung 2023 nannten fuer Apollo eine Projektion von rund 20 Mio. USD pro Jahr an API-Kosten und unterstreichen damit Preis-Schockrisiken fuer Drittentwickler-Oekosysteme.',
+        localizedTexts: { de: 'Berichte zur API-Preisumstellung 2023 nannten fuer Apollo eine Projektion von rund 20 Mio. USD pro Jahr an API-Kosten und unterstreichen damit Preis-Schockrisiken fuer Drittentwickler-Oekosysteme.' },
         severity: 'moderate',
         date: '2023-05-31',
         sourceUrl: 'https://techcrunch.com/2023/05/31/popular-reddit-app-apollo-may-go-out-of-business-over-reddits-new-unaffordable-api-pricing/',
@@ -4329,7 +4365,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'reddit-deleted-content-no-guarantee-against-unauthorized-third-party-retention',
         text: 'Reddit\'s public-content policy describes deletion tooling and restrictions for authorized data-licensees, but this does not guarantee removal by unauthorized third-party scrapers that already copied public content.',
-        textDe: 'Die Reddit-Public-Content-Policy beschreibt Loesch-Tooling und Restriktionen fuer autorisierte Data-Licensees, garantiert aber keine Entfernung bei unautorisierten Dritt-Scrapern, die oeffentliche Inhalte bereits kopiert haben.',
+        localizedTexts: { de: 'Die Reddit-Public-Content-Policy beschreibt Loesch-Tooling und Restriktionen fuer autorisierte Data-Licensees, garantiert aber keine Entfernung bei unautorisierten Dritt-Scrapern, die oeffentliche Inhalte bereits kopiert haben.' },
         severity: 'moderate',
         sourceUrl: 'https://support.reddithelp.com/hc/en-us/articles/26410290525844-Public-Content-Policy',
       },
@@ -4339,20 +4375,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.8,
     description:
         'US-operated team collaboration platform (owned by Salesforce) with mature enterprise compliance signals and active security operations, but trust is reduced by AI/ML data-use opt-out friction, data-residency scope limits, export/API lock-in constraints, and recurring incident history.',
-    descriptionDe:
-        'US-Kollaborationsplattform für Teams (im Besitz von Salesforce) mit reifen Enterprise-Compliance-Signalen und aktiver Security-Operationalisierung; das Vertrauen sinkt jedoch durch AI/ML-Opt-out-Reibung, Data-Residency-Scope-Grenzen, Export-/API-Lock-in-Risiken und wiederkehrende Incident-Historie.',
+    localizedDescriptions: {
+      de: 'US-Kollaborationsplattform für Teams (im Besitz von Salesforce) mit reifen Enterprise-Compliance-Signalen und aktiver Security-Operationalisierung; das Vertrauen sinkt jedoch durch AI/ML-Opt-out-Reibung, Data-Residency-Scope-Grenzen, Export-/API-Lock-in-Risiken und wiederkehrende Incident-Historie.',
+    },
     reservations: [
       {
         id: 'slack-ai-global-model-opt-out-email-friction',
         text: 'Slack documents that opting out of global-model ML processing is request-based, adding operational friction for organizations that require strict default no-training controls.',
-        textDe: 'Slack dokumentiert, dass das Opt-out aus globalen ML-Modellen anfragebasiert ist, was für Organisationen mit strikten Default-No-Training-Vorgaben operative Reibung erzeugt.',
+        localizedTexts: { de: 'Slack dokumentiert, dass das Opt-out aus globalen ML-Modellen anfragebasiert ist, was für Organisationen mit strikten Default-No-Training-Vorgaben operative Reibung erzeugt.' },
         severity: 'major',
         sourceUrl: 'https://slack.com/help/articles/25076892548883-Privacy-principles-for-AI-in-Slack',
       },
       {
         id: 'slack-supplemental-terms-search-optimization-model-training-authorization',
         text: 'Slack\'s Supplemental Terms ("Search Optimization Authorization") state SFDC may process Customer Data to train models, improve features, and run R&D for products customers can access without additional cost, with opt-out documented separately.',
-        textDe: 'Die Slack Supplemental Terms („Search Optimization Authorization“) halten fest, dass SFDC Customer Data zur Modellschulung, Feature-Verbesserung und F&E für künftig ohne Zusatzkosten verfügbare Produkte verarbeiten darf; das Opt-out ist separat dokumentiert.',
+        localizedTexts: { de: 'Die Slack Supplemental Terms („Search Optimization Authorization“) halten fest, dass SFDC Customer Data zur Modellschulung, Feature-Verbesserung und F&E für künftig ohne Zusatzkosten verfügbare Produkte verarbeiten darf; das Opt-out ist separat dokumentiert.' },
         severity: 'major',
         date: '2025-06-17',
         sourceUrl: 'https://slack.com/slack-supplemental-terms',
@@ -4360,28 +4397,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-third-party-llm-processing-surface',
         text: 'Slack states some AI features rely on third-party large language model providers, introducing additional external processing and assurance boundaries.',
-        textDe: 'Slack gibt an, dass einige KI-Funktionen auf Drittanbieter-LLMs basieren und damit zusätzliche externe Verarbeitungs- und Assurance-Grenzen entstehen.',
+        localizedTexts: { de: 'Slack gibt an, dass einige KI-Funktionen auf Drittanbieter-LLMs basieren und damit zusätzliche externe Verarbeitungs- und Assurance-Grenzen entstehen.' },
         severity: 'moderate',
         sourceUrl: 'https://slack.com/blog/news/how-slack-protects-your-data-when-using-machine-learning-and-ai',
       },
       {
         id: 'slack-data-residency-scope-limitations',
         text: 'Slack data residency applies only to selected in-scope data classes, while profiles, some metadata, and certain logs/analytics categories remain outside the pinned region scope.',
-        textDe: 'Slack-Data-Residency gilt nur für ausgewählte in-scope Datenklassen; Profile, bestimmte Metadaten sowie einzelne Log-/Analytics-Kategorien liegen außerhalb des fixierten Region-Scopes.',
+        localizedTexts: { de: 'Slack-Data-Residency gilt nur für ausgewählte in-scope Datenklassen; Profile, bestimmte Metadaten sowie einzelne Log-/Analytics-Kategorien liegen außerhalb des fixierten Region-Scopes.' },
         severity: 'major',
         sourceUrl: 'https://slack.com/help/articles/360035633934-Data-residency-for-Slack',
       },
       {
         id: 'slack-data-residency-aup-us-storage-exception',
         text: 'Slack\'s data-residency documentation notes that flagged or reported customer data may be stored in the United States to enforce the Acceptable Use Policy, which limits strict in-region guarantees.',
-        textDe: 'Die Slack-Dokumentation zur Datenresidenz nennt, dass markierte oder gemeldete Kundendaten zur Durchsetzung der Acceptable Use Policy in den USA gespeichert werden können, was strikte In-Region-Garantien einschränkt.',
+        localizedTexts: { de: 'Die Slack-Dokumentation zur Datenresidenz nennt, dass markierte oder gemeldete Kundendaten zur Durchsetzung der Acceptable Use Policy in den USA gespeichert werden können, was strikte In-Region-Garantien einschränkt.' },
         severity: 'moderate',
         sourceUrl: 'https://slack.com/help/articles/360035633934-Data-residency-for-Slack',
       },
       {
         id: 'slack-interoperable-services-multiple-infrastructure-fedramp-boundary',
         text: 'Slack\'s Supplemental Terms state interoperable Slack/Salesforce services can run on separate infrastructures with different privacy/security characteristics and may share Customer Data outside the Slack Services FedRAMP authorization boundary.',
-        textDe: 'Die Slack Supplemental Terms halten fest, dass interoperable Slack-/Salesforce-Services auf separaten Infrastrukturen mit unterschiedlichen Privacy-/Security-Eigenschaften laufen können und dabei Customer Data außerhalb der FedRAMP-Authorization-Boundary der Slack Services geteilt werden kann.',
+        localizedTexts: { de: 'Die Slack Supplemental Terms halten fest, dass interoperable Slack-/Salesforce-Services auf separaten Infrastrukturen mit unterschiedlichen Privacy-/Security-Eigenschaften laufen können und dabei Customer Data außerhalb der FedRAMP-Authorization-Boundary der Slack Services geteilt werden kann.' },
         severity: 'major',
         date: '2025-06-17',
         sourceUrl: 'https://slack.com/slack-supplemental-terms',
@@ -4389,21 +4426,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-private-dm-export-plan-and-approval-gating',
         text: 'Exports that include private channels and direct messages are plan- and approval-dependent, increasing legal-discovery and migration friction for lower tiers.',
-        textDe: 'Exporte mit privaten Kanälen und Direktnachrichten sind plan- und freigabeabhängig, was Legal-Discovery- und Migrationsaufwand in niedrigeren Tarifen erhöht.',
+        localizedTexts: { de: 'Exporte mit privaten Kanälen und Direktnachrichten sind plan- und freigabeabhängig, was Legal-Discovery- und Migrationsaufwand in niedrigeren Tarifen erhöht.' },
         severity: 'major',
         sourceUrl: 'https://slack.com/help/articles/201658943-Export-your-workspace-data',
       },
       {
         id: 'slack-enterprise-grid-export-non-importable',
         text: 'Slack notes that exports from Enterprise Grid organizations cannot be imported into other workspaces, creating practical lock-in during platform exits.',
-        textDe: 'Slack weist darauf hin, dass Exporte aus Enterprise-Grid-Organisationen nicht in andere Workspaces importiert werden können, was beim Plattformausstieg praktischen Lock-in erzeugt.',
+        localizedTexts: { de: 'Slack weist darauf hin, dass Exporte aus Enterprise-Grid-Organisationen nicht in andere Workspaces importiert werden können, was beim Plattformausstieg praktischen Lock-in erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://slack.com/help/articles/201658943-Export-your-workspace-data',
       },
       {
         id: 'slack-free-plan-history-limit-and-one-year-deletion',
         text: 'Slack\'s free-version limitations cap visible message/file history to 90 days and state workspace data older than one year will be deleted, increasing retention risk and upgrade pressure for smaller teams.',
-        textDe: 'Die Free-Version-Limits von Slack begrenzen den sichtbaren Nachrichten-/Dateiverlauf auf 90 Tage und nennen die Löschung von Workspace-Daten älter als ein Jahr; das erhöht Retention-Risiken und Upgrade-Druck für kleinere Teams.',
+        localizedTexts: { de: 'Die Free-Version-Limits von Slack begrenzen den sichtbaren Nachrichten-/Dateiverlauf auf 90 Tage und nennen die Löschung von Workspace-Daten älter als ein Jahr; das erhöht Retention-Risiken und Upgrade-Druck für kleinere Teams.' },
         severity: 'major',
         date: '2024-08-26',
         sourceUrl: 'https://slack.com/help/articles/27204752526611-Feature-limitations-on-the-free-version-of-Slack',
@@ -4411,7 +4448,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-api-terms-restrict-third-party-message-indexing-2025',
         text: 'Updated API terms in 2025 tightened restrictions on storing and indexing Slack message data in external tools, reducing long-term portability to third-party knowledge systems.',
-        textDe: 'Aktualisierte API-Bedingungen aus 2025 verschärften Einschränkungen für Speicherung und Indexierung von Slack-Nachrichtendaten in externen Tools und reduzieren damit die langfristige Portabilität in Dritt-Knowledge-Systeme.',
+        localizedTexts: { de: 'Aktualisierte API-Bedingungen aus 2025 verschärften Einschränkungen für Speicherung und Indexierung von Slack-Nachrichtendaten in externen Tools und reduzieren damit die langfristige Portabilität in Dritt-Knowledge-Systeme.' },
         severity: 'moderate',
         date: '2025-05-29',
         sourceUrl: 'https://slack.com/policy-archives/terms-of-service-api/2025-05-29',
@@ -4419,7 +4456,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-major-outage-february-2025',
         text: 'Slack\'s status reporting shows a major February 2025 disruption affecting multiple core collaboration functions for an extended window.',
-        textDe: 'Die Slack-Statusmeldungen zeigen eine größere Störung im Februar 2025 mit Beeinträchtigung mehrerer zentraler Kollaborationsfunktionen über ein längeres Zeitfenster.',
+        localizedTexts: { de: 'Die Slack-Statusmeldungen zeigen eine größere Störung im Februar 2025 mit Beeinträchtigung mehrerer zentraler Kollaborationsfunktionen über ein längeres Zeitfenster.' },
         severity: 'moderate',
         date: '2025-02-26',
         sourceUrl: 'https://slack-status.com/2025-02-26',
@@ -4427,7 +4464,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-thread-notification-delivery-incident-january-2025',
         text: 'Slack\'s status page documented a January 2025 incident with delayed notifications, delayed message delivery, and thread/group DM issues.',
-        textDe: 'Die Slack-Statusseite dokumentierte im Januar 2025 einen Vorfall mit verzögerten Benachrichtigungen, verzögerter Nachrichtenzustellung sowie Problemen bei Threads/Gruppen-DMs.',
+        localizedTexts: { de: 'Die Slack-Statusseite dokumentierte im Januar 2025 einen Vorfall mit verzögerten Benachrichtigungen, verzögerter Nachrichtenzustellung sowie Problemen bei Threads/Gruppen-DMs.' },
         severity: 'moderate',
         date: '2025-01-27',
         sourceUrl: 'https://slack-status.com/2025-01-27',
@@ -4435,7 +4472,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-private-repository-access-incident-2022',
         text: 'Slack disclosed a 2022 incident involving stolen employee tokens and unauthorized access to a subset of private source-code repositories.',
-        textDe: 'Slack legte 2022 einen Vorfall mit gestohlenen Employee-Tokens und unautorisiertem Zugriff auf eine Teilmenge privater Source-Code-Repositories offen.',
+        localizedTexts: { de: 'Slack legte 2022 einen Vorfall mit gestohlenen Employee-Tokens und unautorisiertem Zugriff auf eine Teilmenge privater Source-Code-Repositories offen.' },
         severity: 'moderate',
         date: '2022-12-27',
         sourceUrl: 'https://slack.com/blog/news/slack-security-update',
@@ -4443,7 +4480,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'slack-hashed-password-exposure-bug-2022',
         text: 'A 2022 invite-link bug exposed hashed passwords for a subset of users and required forced password resets, showing sensitive identity-surface risk.',
-        textDe: 'Ein Invite-Link-Bug aus 2022 legte gehashte Passwörter für einen Teil der Nutzer offen und erforderte erzwungene Passwort-Resets, was ein sensibles Identity-Surface-Risiko zeigt.',
+        localizedTexts: { de: 'Ein Invite-Link-Bug aus 2022 legte gehashte Passwörter für einen Teil der Nutzer offen und erforderte erzwungene Passwort-Resets, was ein sensibles Identity-Surface-Risiko zeigt.' },
         severity: 'major',
         date: '2022-08-04',
         sourceUrl: 'https://thehackernews.com/2022/08/slack-resets-passwords-after-bug.html',
@@ -4454,90 +4491,91 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.6,
     description:
         'US-operated collaboration workspace with strong compliance signaling and mature enterprise controls, but trust is reduced by AI-agent prompt-injection exposure risk, partial data-residency scope, and portability/support friction.',
-    descriptionDe:
-        'US-Collaboration-Workspace mit starken Compliance-Signalen und reifen Enterprise-Kontrollen; das Vertrauen sinkt jedoch durch AI-Agent-Prompt-Injection-Exfiltrationsrisiken, nur teilweise Data-Residency-Abdeckung sowie Portabilitäts- und Support-Reibung.',
+    localizedDescriptions: {
+      de: 'US-Collaboration-Workspace mit starken Compliance-Signalen und reifen Enterprise-Kontrollen; das Vertrauen sinkt jedoch durch AI-Agent-Prompt-Injection-Exfiltrationsrisiken, nur teilweise Data-Residency-Abdeckung sowie Portabilitäts- und Support-Reibung.',
+    },
     reservations: [
       {
         id: 'notion-agent-prompt-injection-exfiltration-risk',
         text: 'Public 2025 reporting showed Notion AI agent workflows could be manipulated via hidden prompts to exfiltrate sensitive workspace data through tool access; vendor mitigations reduce but do not remove architecture-level risk.',
-        textDe: 'Öffentliche Berichte aus 2025 zeigten, dass Notion-AI-Agent-Workflows über versteckte Prompts zur Exfiltration sensibler Workspace-Daten via Tool-Access verleitet werden konnten; Vendor-Mitigations reduzieren das Risiko, beseitigen es aber nicht auf Architektur-Ebene.',
+        localizedTexts: { de: 'Öffentliche Berichte aus 2025 zeigten, dass Notion-AI-Agent-Workflows über versteckte Prompts zur Exfiltration sensibler Workspace-Daten via Tool-Access verleitet werden konnten; Vendor-Mitigations reduzieren das Risiko, beseitigen es aber nicht auf Architektur-Ebene.' },
         severity: 'major',
         sourceUrl: 'https://the-decoder.com/notion-ai-can-be-manipulated-to-leak-sensitive-data-via-hidden-prompts/',
       },
       {
         id: 'notion-data-residency-scope-limitations',
         text: 'Notion data residency is scoped to selected data classes at rest; account metadata, billing/usage data, analytics, and products like Notion Calendar and Notion Mail are outside the core residency scope.',
-        textDe: 'Die Notion-Data-Residency ist auf ausgewählte Datenklassen at rest begrenzt; Account-Metadaten, Billing-/Usage-Daten, Analytics sowie Produkte wie Notion Calendar und Notion Mail liegen ausserhalb des Kern-Scopes.',
+        localizedTexts: { de: 'Die Notion-Data-Residency ist auf ausgewählte Datenklassen at rest begrenzt; Account-Metadaten, Billing-/Usage-Daten, Analytics sowie Produkte wie Notion Calendar und Notion Mail liegen ausserhalb des Kern-Scopes.' },
         severity: 'major',
         sourceUrl: 'https://www.notion.com/help/data-residency',
       },
       {
         id: 'notion-ai-non-enterprise-retention-window',
         text: 'Notion AI security guidance states that non-enterprise AI processing may involve up to 30-day retention at model-provider level, while stricter zero-retention controls are tied to enterprise configurations.',
-        textDe: 'Die Notion-AI-Sicherheitsdokumentation nennt für Non-Enterprise-Kunden eine mögliche Retention von bis zu 30 Tagen auf Model-Provider-Ebene; strengere Zero-Retention-Kontrollen sind an Enterprise-Konfigurationen gebunden.',
+        localizedTexts: { de: 'Die Notion-AI-Sicherheitsdokumentation nennt für Non-Enterprise-Kunden eine mögliche Retention von bis zu 30 Tagen auf Model-Provider-Ebene; strengere Zero-Retention-Kontrollen sind an Enterprise-Konfigurationen gebunden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.notion.com/help/notion-ai-security-practices',
       },
       {
         id: 'notion-export-fidelity-and-migration-friction',
         text: 'Workspace export relies on Markdown/CSV/HTML conversion paths that can create migration-fidelity gaps for complex relational content structures.',
-        textDe: 'Workspace-Exporte basieren auf Markdown-/CSV-/HTML-Konvertierungen, was bei komplexen relationalen Content-Strukturen zu Migrations- und Formatfidelitätslücken führen kann.',
+        localizedTexts: { de: 'Workspace-Exporte basieren auf Markdown-/CSV-/HTML-Konvertierungen, was bei komplexen relationalen Content-Strukturen zu Migrations- und Formatfidelitätslücken führen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://www.notion.com/help/export-your-content',
       },
       {
         id: 'notion-post-termination-data-retrieval-window',
         text: 'Notion Master Subscription Agreement terms document a limited post-termination data retrieval window before deletion can proceed, requiring proactive exit planning.',
-        textDe: 'Die Bedingungen des Notion Master Subscription Agreement dokumentieren ein begrenztes Datenabholfenster nach Vertragsbeendigung, bevor eine Löschung erfolgen kann; das erfordert proaktive Exit-Planung.',
+        localizedTexts: { de: 'Die Bedingungen des Notion Master Subscription Agreement dokumentieren ein begrenztes Datenabholfenster nach Vertragsbeendigung, bevor eine Löschung erfolgen kann; das erfordert proaktive Exit-Planung.' },
         severity: 'moderate',
         sourceUrl: 'https://www.notion.so/notion/Master-Subscription-Agreement-4e1c5dd3e3de45dfa4a8ed60f1a43da0',
       },
       {
         id: 'notion-local-mcp-repo-support-limits',
         text: 'The local Notion MCP server repository states it is not actively monitored and may be sunset, reducing long-term predictability for teams relying on that open repository path.',
-        textDe: 'Das lokale Notion-MCP-Server-Repository gibt an, nicht aktiv überwacht zu werden und künftig eingestellt werden zu können; das reduziert die langfristige Planbarkeit für Teams, die diesen Open-Repo-Pfad nutzen.',
+        localizedTexts: { de: 'Das lokale Notion-MCP-Server-Repository gibt an, nicht aktiv überwacht zu werden und künftig eingestellt werden zu können; das reduziert die langfristige Planbarkeit für Teams, die diesen Open-Repo-Pfad nutzen.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/makenotion/notion-mcp-server',
       },
       {
         id: 'notion-status-incident-frequency-signal',
         text: 'Notion publishes recurring service incidents on its public status history, which indicates meaningful operational interruption risk for critical centralized workflows.',
-        textDe: 'Notion veröffentlicht wiederkehrende Service-Incidents in der öffentlichen Status-Historie, was auf ein relevantes Unterbrechungsrisiko für kritische zentralisierte Workflows hinweist.',
+        localizedTexts: { de: 'Notion veröffentlicht wiederkehrende Service-Incidents in der öffentlichen Status-Historie, was auf ein relevantes Unterbrechungsrisiko für kritische zentralisierte Workflows hinweist.' },
         severity: 'moderate',
         sourceUrl: 'https://status.notion.so/history',
       },
       {
         id: 'notion-statusgator-component-incident-corroboration',
         text: 'StatusGator independently aggregates repeated Notion incident reports across component surfaces (including API, apps, and calendar), corroborating non-trivial interruption frequency.',
-        textDe: 'StatusGator aggregiert unabhängig wiederholte Notion-Incident-Meldungen über mehrere Komponentenflächen (u. a. API, Apps und Calendar) und stützt damit eine nicht triviale Unterbrechungsfrequenz.',
+        localizedTexts: { de: 'StatusGator aggregiert unabhängig wiederholte Notion-Incident-Meldungen über mehrere Komponentenflächen (u. a. API, Apps und Calendar) und stützt damit eine nicht triviale Unterbrechungsfrequenz.' },
         severity: 'moderate',
         sourceUrl: 'https://statusgator.com/services/notion',
       },
       {
         id: 'notion-billing-and-support-complaint-pattern',
         text: 'Public review patterns include recurring complaints about billing handling and support responsiveness, adding procurement-trust friction for paid plans.',
-        textDe: 'Öffentliche Review-Muster enthalten wiederkehrende Beschwerden zu Billing-Abwicklung und Support-Reaktionszeit, was bei kostenpflichtigen Plänen Procurement-Trust-Reibung erzeugt.',
+        localizedTexts: { de: 'Öffentliche Review-Muster enthalten wiederkehrende Beschwerden zu Billing-Abwicklung und Support-Reaktionszeit, was bei kostenpflichtigen Plänen Procurement-Trust-Reibung erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/notion.so',
       },
       {
         id: 'notion-bbb-complaint-pattern',
         text: 'BBB complaint records show recurring billing and support dispute themes, reinforcing procurement-trust friction for paid contracts.',
-        textDe: 'BBB-Beschwerdeeinträge zeigen wiederkehrende Themen zu Billing- und Support-Streitfällen und verstärken damit Procurement-Trust-Reibung bei kostenpflichtigen Verträgen.',
+        localizedTexts: { de: 'BBB-Beschwerdeeinträge zeigen wiederkehrende Themen zu Billing- und Support-Streitfällen und verstärken damit Procurement-Trust-Reibung bei kostenpflichtigen Verträgen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.bbb.org/us/ca/san-francisco/profile/internet-service/notion-labs-inc-1116-927802',
       },
       {
         id: 'notion-seat-billing-and-proration-friction',
         text: 'Notion pricing/billing FAQ states added members create prorated charges while removed members do not receive in-cycle credits, which can create spend-volatility for seat-governance.',
-        textDe: 'Die Notion-Preis-/Billing-FAQ nennt, dass hinzugefügte Mitglieder proratisierte Kosten auslösen, während entfernte Mitglieder keine In-Cycle-Gutschrift erhalten; das kann für Seat-Governance zu Ausgabenvolatilität führen.',
+        localizedTexts: { de: 'Die Notion-Preis-/Billing-FAQ nennt, dass hinzugefügte Mitglieder proratisierte Kosten auslösen, während entfernte Mitglieder keine In-Cycle-Gutschrift erhalten; das kann für Seat-Governance zu Ausgabenvolatilität führen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.notion.com/pricing',
       },
       {
         id: 'notion-promptarmor-disclosure-triage-friction-2026',
         text: 'PromptArmor\'s disclosure timeline says the Notion AI exfiltration finding was initially triaged as not applicable before direct escalation and remediation deployment, indicating disclosure-process friction.',
-        textDe: 'Die Disclosure-Timeline von PromptArmor beschreibt, dass der Notion-AI-Exfiltrationsbefund zunächst als nicht anwendbar triagiert wurde, bevor eine direkte Eskalation und Remediation erfolgte; das zeigt Reibung im Disclosure-Prozess.',
+        localizedTexts: { de: 'Die Disclosure-Timeline von PromptArmor beschreibt, dass der Notion-AI-Exfiltrationsbefund zunächst als nicht anwendbar triagiert wurde, bevor eine direkte Eskalation und Remediation erfolgte; das zeigt Reibung im Disclosure-Prozess.' },
         severity: 'moderate',
         date: '2026-01-08',
         sourceUrl: 'https://www.promptarmor.com/resources/notion-ai-unpatched-data-exfiltration',
@@ -4545,14 +4583,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'notion-aws-infrastructure-concentration',
         text: 'Notion data-residency documentation names AWS regions for primary and backup data placement, which introduces infrastructure concentration/dependency risk for strict sovereignty requirements.',
-        textDe: 'Die Notion-Data-Residency-Dokumentation nennt AWS-Regionen für primäre und Backup-Datenablage und erzeugt damit ein Infrastruktur-Konzentrations- bzw. Abhängigkeitsrisiko bei strikten Souveränitätsanforderungen.',
+        localizedTexts: { de: 'Die Notion-Data-Residency-Dokumentation nennt AWS-Regionen für primäre und Backup-Datenablage und erzeugt damit ein Infrastruktur-Konzentrations- bzw. Abhängigkeitsrisiko bei strikten Souveränitätsanforderungen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.notion.com/help/data-residency',
       },
       {
         id: 'notion-patent-litigation-tg-2006-2025',
         text: 'A 2025 patent case (TG-2006 Holdings LLC v. Notion Labs Inc.) adds ongoing legal-overhang risk, even though patent litigation alone does not prove product-level user harm.',
-        textDe: 'Ein Patentverfahren aus 2025 (TG-2006 Holdings LLC v. Notion Labs Inc.) erzeugt ein fortlaufendes Legal-Overhang-Risiko, auch wenn Patentklagen allein keinen produktseitigen Nutzerschaden belegen.',
+        localizedTexts: { de: 'Ein Patentverfahren aus 2025 (TG-2006 Holdings LLC v. Notion Labs Inc.) erzeugt ein fortlaufendes Legal-Overhang-Risiko, auch wenn Patentklagen allein keinen produktseitigen Nutzerschaden belegen.' },
         severity: 'minor',
         date: '2025-09-12',
         sourceUrl: 'https://dockets.justia.com/docket/delaware/dedce/1:2025cv01164/88158',
@@ -4560,7 +4598,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'notion-desktop-cve-2024-23743',
         text: 'CVE-2024-23743 documented a low-severity local issue in Notion for macOS prior to patched releases.',
-        textDe: 'CVE-2024-23743 dokumentierte vor gepatchten Releases ein Low-Severity-Local-Issue in Notion für macOS.',
+        localizedTexts: { de: 'CVE-2024-23743 dokumentierte vor gepatchten Releases ein Low-Severity-Local-Issue in Notion für macOS.' },
         severity: 'minor',
         date: '2024-01-26',
         sourceUrl: 'https://www.cve.org/CVERecord?id=CVE-2024-23743',
@@ -4571,13 +4609,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.4,
     description:
         'US-operated video platform with strong security/compliance signaling and clear creator-content ownership language, but trust is reduced by post-acquisition workforce shock, pricing/renewal friction, and portability/support risks.',
-    descriptionDe:
-        'US-Video-Plattform mit starken Security-/Compliance-Signalen und klarer Content-Ownership-Position für Creator; das Vertrauen sinkt jedoch durch den Personalabbau nach der Übernahme, Pricing-/Renewal-Reibung sowie Portabilitäts- und Support-Risiken.',
+    localizedDescriptions: {
+      de: 'US-Video-Plattform mit starken Security-/Compliance-Signalen und klarer Content-Ownership-Position für Creator; das Vertrauen sinkt jedoch durch den Personalabbau nach der Übernahme, Pricing-/Renewal-Reibung sowie Portabilitäts- und Support-Risiken.',
+    },
     reservations: [
       {
         id: 'vimeo-bending-spoons-acquisition-2025',
         text: 'Vimeo entered a $1.38B all-cash agreement to be acquired by Bending Spoons in September 2025, shifting strategic control to a private acquirer.',
-        textDe: 'Vimeo schloss im September 2025 eine All-Cash-Übernahme über 1,38 Mrd. USD durch Bending Spoons ab, wodurch die strategische Kontrolle auf einen privaten Eigentümer überging.',
+        localizedTexts: { de: 'Vimeo schloss im September 2025 eine All-Cash-Übernahme über 1,38 Mrd. USD durch Bending Spoons ab, wodurch die strategische Kontrolle auf einen privaten Eigentümer überging.' },
         severity: 'moderate',
         date: '2025-09-10',
         sourceUrl: 'https://investors.vimeo.com/news-releases/news-release-details/vimeo-enters-definitive-agreement-be-acquired-bending-spoons-138',
@@ -4585,7 +4624,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'vimeo-post-acquisition-layoffs-2026',
         text: 'Post-acquisition reporting says a large portion of Vimeo staff was laid off, and Bending Spoons confirmed layoffs to The Verge.',
-        textDe: 'Berichte nach der Übernahme beschreiben Entlassungen eines grossen Teils der Vimeo-Belegschaft; Bending Spoons bestätigte Kündigungen gegenüber The Verge.',
+        localizedTexts: { de: 'Berichte nach der Übernahme beschreiben Entlassungen eines grossen Teils der Vimeo-Belegschaft; Bending Spoons bestätigte Kündigungen gegenüber The Verge.' },
         severity: 'major',
         date: '2026-01-22',
         sourceUrl: 'https://www.theverge.com/news/866238/vimeo-layoffs-bending-spoons-acquisition',
@@ -4593,7 +4632,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'vimeo-pre-acquisition-workforce-reduction-2025',
         text: 'Vimeo disclosed in a September 3, 2025 8-K that it reduced global full-time headcount by just under 10% before the buyout closed.',
-        textDe: 'Vimeo legte in einem 8-K vom 3. September 2025 offen, dass die globale Vollzeitbelegschaft bereits vor Abschluss der Übernahme um knapp 10 % reduziert wurde.',
+        localizedTexts: { de: 'Vimeo legte in einem 8-K vom 3. September 2025 offen, dass die globale Vollzeitbelegschaft bereits vor Abschluss der Übernahme um knapp 10 % reduziert wurde.' },
         severity: 'moderate',
         date: '2025-09-03',
         sourceUrl: 'https://investors.vimeo.com/sec-filings/sec-filing/8-k/0001104659-25-086746',
@@ -4601,7 +4640,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'vimeo-owner-layoff-pattern-across-acquisitions',
         text: 'Reporting on Bending Spoons\' WeTransfer acquisition documented plans to cut about 75% of staff, indicating a broader post-acquisition cost-cutting pattern.',
-        textDe: 'Die Berichterstattung zur WeTransfer-Übernahme durch Bending Spoons dokumentierte Pläne für einen Stellenabbau von rund 75 %, was auf ein breiteres Post-Merger-Cost-Cutting-Muster hindeutet.',
+        localizedTexts: { de: 'Die Berichterstattung zur WeTransfer-Übernahme durch Bending Spoons dokumentierte Pläne für einen Stellenabbau von rund 75 %, was auf ein breiteres Post-Merger-Cost-Cutting-Muster hindeutet.' },
         severity: 'moderate',
         date: '2024-09-08',
         sourceUrl: 'https://techcrunch.com/2024/09/08/bending-spoons-plans-to-lay-off-75-of-wetransfer-staff-after-acquisition/',
@@ -4609,56 +4648,56 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'vimeo-price-increase-structure-change',
         text: 'Vimeo states it changed pricing and plan structure and calls it the first price increase for existing subscribers in over 10 years.',
-        textDe: 'Vimeo gibt an, Preis- und Planstruktur geändert zu haben, und bezeichnet dies als erste Preiserhöhung für bestehende Abonnenten seit über 10 Jahren.',
+        localizedTexts: { de: 'Vimeo gibt an, Preis- und Planstruktur geändert zu haben, und bezeichnet dies als erste Preiserhöhung für bestehende Abonnenten seit über 10 Jahren.' },
         severity: 'moderate',
         sourceUrl: 'https://help.vimeo.com/hc/en-us/articles/29103675323153-Why-did-my-price-increase',
       },
       {
         id: 'vimeo-storage-and-upload-limits-by-plan',
         text: 'Vimeo plan documentation describes lifetime storage caps, video-count limits, or weekly upload quotas depending on plan and signup date, creating upgrade pressure and lock-in risk.',
-        textDe: 'Die Vimeo-Plan-Dokumentation beschreibt je nach Tarif und Anmeldedatum Lifetime-Speicherlimits, Videoanzahl-Grenzen oder wöchentliche Upload-Quoten, was Upgrade-Druck und Lock-in-Risiken erzeugt.',
+        localizedTexts: { de: 'Die Vimeo-Plan-Dokumentation beschreibt je nach Tarif und Anmeldedatum Lifetime-Speicherlimits, Videoanzahl-Grenzen oder wöchentliche Upload-Quoten, was Upgrade-Druck und Lock-in-Risiken erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://help.vimeo.com/hc/en-us/articles/26238558836881-What-is-the-difference-between-upload-quota-video-usage-and-total-storage',
       },
       {
         id: 'vimeo-auto-renewal-refund-friction',
         text: 'Self-serve subscriptions auto-renew by default, and cancellation guidance says refunds are not automatically issued.',
-        textDe: 'Self-Serve-Abos verlängern sich standardmässig automatisch, und die Kündigungsdokumentation nennt, dass Rückerstattungen nicht automatisch erfolgen.',
+        localizedTexts: { de: 'Self-Serve-Abos verlängern sich standardmässig automatisch, und die Kündigungsdokumentation nennt, dass Rückerstattungen nicht automatisch erfolgen.' },
         severity: 'moderate',
         sourceUrl: 'https://help.vimeo.com/hc/en-us/articles/12425433330577-How-to-cancel-my-Vimeo-subscription',
       },
       {
         id: 'vimeo-community-billing-support-complaints',
         text: 'Recent Trustpilot reviews repeatedly mention unexpected renewal charges, steep pricing changes, and support-response friction (community signal).',
-        textDe: 'Aktuelle Trustpilot-Bewertungen nennen wiederholt unerwartete Verlängerungsabbuchungen, starke Preisveränderungen und Support-Reibung (Community-Signal).',
+        localizedTexts: { de: 'Aktuelle Trustpilot-Bewertungen nennen wiederholt unerwartete Verlängerungsabbuchungen, starke Preisveränderungen und Support-Reibung (Community-Signal).' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/www.vimeo.com',
       },
       {
         id: 'vimeo-no-bulk-library-download',
         text: 'Vimeo help documentation says there is currently no option to bulk-download videos from a library, increasing migration friction for large catalogs.',
-        textDe: 'Die Vimeo-Hilfedokumentation nennt aktuell keine Möglichkeit für Bulk-Downloads aus der Bibliothek, was Migrationsaufwand bei grossen Katalogen erhöht.',
+        localizedTexts: { de: 'Die Vimeo-Hilfedokumentation nennt aktuell keine Möglichkeit für Bulk-Downloads aus der Bibliothek, was Migrationsaufwand bei grossen Katalogen erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://help.vimeo.com/hc/en-us/articles/29641523095057-How-to-download-a-video-from-my-library',
       },
       {
         id: 'vimeo-ai-third-party-provider-access',
         text: 'Vimeo\'s AI terms say third-party providers may access AI inputs/outputs, although Vimeo states those providers agreed not to use that data for model training.',
-        textDe: 'Die Vimeo-AI-Bedingungen nennen, dass Drittanbieter Zugriff auf AI-Inputs/-Outputs haben können; zugleich gibt Vimeo an, dass diese Daten nicht zum Modelltraining verwendet werden dürfen.',
+        localizedTexts: { de: 'Die Vimeo-AI-Bedingungen nennen, dass Drittanbieter Zugriff auf AI-Inputs/-Outputs haben können; zugleich gibt Vimeo an, dass diese Daten nicht zum Modelltraining verwendet werden dürfen.' },
         severity: 'moderate',
         sourceUrl: 'https://vimeo.com/legal/service-terms/ai',
       },
       {
         id: 'vimeo-us-based-global-data-processing',
         text: 'Vimeo\'s privacy policy states it is US-based and may transfer/process data in the US and other countries, relying on SCCs and DPF transfer mechanisms.',
-        textDe: 'Die Vimeo-Datenschutzerklärung nennt einen US-Sitz und die Verarbeitung/Übertragung von Daten in die USA und andere Länder auf Basis von SCC- und DPF-Mechanismen.',
+        localizedTexts: { de: 'Die Vimeo-Datenschutzerklärung nennt einen US-Sitz und die Verarbeitung/Übertragung von Daten in die USA und andere Länder auf Basis von SCC- und DPF-Mechanismen.' },
         severity: 'major',
         sourceUrl: 'https://vimeo.com/privacy',
       },
       {
         id: 'vimeo-as-is-availability-disclaimer',
         text: 'Vimeo Terms of Service provide services on an "as is" and "as available" basis and disclaim uninterrupted or error-free operation.',
-        textDe: 'Die Vimeo-Nutzungsbedingungen stellen die Dienste auf "as is"/"as available"-Basis bereit und schliessen unterbrechungsfreien sowie fehlerfreien Betrieb aus.',
+        localizedTexts: { de: 'Die Vimeo-Nutzungsbedingungen stellen die Dienste auf "as is"/"as available"-Basis bereit und schliessen unterbrechungsfreien sowie fehlerfreien Betrieb aus.' },
         severity: 'minor',
         sourceUrl: 'https://vimeo.com/legal',
       },
@@ -4668,13 +4707,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.3,
     description:
         'US-operated livestream platform with meaningful security and developer maturity, but trust is reduced by the 2021 security incident, broad US-transfer and Amazon data-combination exposure, and contract/monetization terms that increase dependency risk for creators and businesses.',
-    descriptionDe:
-        'US-betriebene Livestream-Plattform mit erkennbarer Security- und Developer-Reife; das Vertrauen sinkt jedoch durch den Security-Vorfall 2021, breite US-Transfer- und Amazon-Datenkombinationsrisiken sowie Vertrags-/Monetarisierungsbedingungen mit hoeherem Abhaengigkeitsrisiko fuer Creator und Unternehmen.',
+    localizedDescriptions: {
+      de: 'US-betriebene Livestream-Plattform mit erkennbarer Security- und Developer-Reife; das Vertrauen sinkt jedoch durch den Security-Vorfall 2021, breite US-Transfer- und Amazon-Datenkombinationsrisiken sowie Vertrags-/Monetarisierungsbedingungen mit hoeherem Abhaengigkeitsrisiko fuer Creator und Unternehmen.',
+    },
     reservations: [
       {
         id: 'twitch-security-incident-2021-server-config-change',
         text: 'Twitch confirmed a major 2021 security incident caused by a server configuration change, exposing data including source-code repository material and a subset of creator payout information.',
-        textDe: 'Twitch bestaetigte 2021 einen schweren Security-Vorfall durch eine Server-Konfigurationsaenderung; betroffen waren unter anderem Inhalte aus dem Source-Code-Repository sowie ein Teil von Creator-Payout-Daten.',
+        localizedTexts: { de: 'Twitch bestaetigte 2021 einen schweren Security-Vorfall durch eine Server-Konfigurationsaenderung; betroffen waren unter anderem Inhalte aus dem Source-Code-Repository sowie ein Teil von Creator-Payout-Daten.' },
         severity: 'major',
         date: '2021-10-06',
         sourceUrl: 'https://blog.twitch.tv/en/2021/10/06/updates-on-the-security-incident/',
@@ -4682,28 +4722,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'twitch-us-processing-and-international-transfer-exposure',
         text: 'Twitch privacy terms state that personal data may be stored and processed in the United States and other countries, maintaining material cross-border transfer exposure.',
-        textDe: 'Die Twitch-Datenschutzhinweise nennen Speicherung und Verarbeitung personenbezogener Daten in den USA und weiteren Laendern; damit bleibt eine relevante grenzueberschreitende Transfer-Exposition bestehen.',
+        localizedTexts: { de: 'Die Twitch-Datenschutzhinweise nennen Speicherung und Verarbeitung personenbezogener Daten in den USA und weiteren Laendern; damit bleibt eine relevante grenzueberschreitende Transfer-Exposition bestehen.' },
         severity: 'major',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/privacy-notice/',
       },
       {
         id: 'twitch-amazon-data-combination-for-product-development',
         text: 'Twitch privacy disclosures allow sharing and combining personal data with Amazon group entities for product/service development and improvement, increasing ecosystem-level profiling sensitivity.',
-        textDe: 'Die Twitch-Privacy-Angaben erlauben das Teilen und Kombinieren personenbezogener Daten mit Amazon-Konzerngesellschaften zur Produkt-/Service-Weiterentwicklung und erhoehen damit die Profiling-Sensitivitaet auf Oekosystemebene.',
+        localizedTexts: { de: 'Die Twitch-Privacy-Angaben erlauben das Teilen und Kombinieren personenbezogener Daten mit Amazon-Konzerngesellschaften zur Produkt-/Service-Weiterentwicklung und erhoehen damit die Profiling-Sensitivitaet auf Oekosystemebene.' },
         severity: 'major',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/privacy-notice/',
       },
       {
         id: 'twitch-broad-user-content-license-and-sublicensing',
         text: 'Twitch Terms of Service grant a broad worldwide license (including sublicensing) for user content to operate, promote, and monetize the service.',
-        textDe: 'Die Twitch-Nutzungsbedingungen raeumen fuer Nutzerinhalte eine weitgehende weltweite Lizenz inklusive Unterlizenzierung ein, um den Dienst zu betreiben, zu bewerben und zu monetarisieren.',
+        localizedTexts: { de: 'Die Twitch-Nutzungsbedingungen raeumen fuer Nutzerinhalte eine weitgehende weltweite Lizenz inklusive Unterlizenzierung ein, um den Dienst zu betreiben, zu bewerben und zu monetarisieren.' },
         severity: 'major',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/terms-of-service/',
       },
       {
         id: 'twitch-workforce-reduction-profitability-pressure-2024',
         text: 'Twitch announced a workforce reduction of just over 500 roles in January 2024, signaling cost and profitability pressure that can affect service and support continuity.',
-        textDe: 'Twitch kuendigte im Januar 2024 einen Stellenabbau von etwas ueber 500 Rollen an; das signalisiert Kosten- und Profitabilitaetsdruck, der Service- und Support-Kontinuitaet belasten kann.',
+        localizedTexts: { de: 'Twitch kuendigte im Januar 2024 einen Stellenabbau von etwas ueber 500 Rollen an; das signalisiert Kosten- und Profitabilitaetsdruck, der Service- und Support-Kontinuitaet belasten kann.' },
         severity: 'moderate',
         date: '2024-01-10',
         sourceUrl: 'https://blog.twitch.tv/en/2024/01/10/an-open-letter-from-twitch-ceo-dan-clancy/',
@@ -4711,7 +4751,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'twitch-subscription-price-volatility-2024',
         text: 'Twitch announced broad 2024 subscription price adjustments in multiple countries, showing recurring pricing volatility for creators and subscribers.',
-        textDe: 'Twitch kuendigte 2024 umfangreiche Anpassungen von Abo-Preisen in mehreren Laendern an; das zeigt wiederkehrende Preisvolatilitaet fuer Creator und Abonnenten.',
+        localizedTexts: { de: 'Twitch kuendigte 2024 umfangreiche Anpassungen von Abo-Preisen in mehreren Laendern an; das zeigt wiederkehrende Preisvolatilitaet fuer Creator und Abonnenten.' },
         severity: 'moderate',
         date: '2024-02-20',
         sourceUrl: 'https://blog.twitch.tv/en/2024/02/20/adjusting-subscription-prices-in-multiple-countries/',
@@ -4719,42 +4759,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'twitch-auto-renewal-and-digital-goods-refund-limits',
         text: 'Twitch Terms of Sale define auto-renewing subscriptions and generally non-refundable treatment for many digital goods, increasing billing/exit friction.',
-        textDe: 'Die Twitch-Verkaufsbedingungen definieren automatisch verlaengerte Abos und fuer viele digitale Gueter grundsaetzlich keine Rueckerstattung, was Billing- und Exit-Reibung erhoeht.',
+        localizedTexts: { de: 'Die Twitch-Verkaufsbedingungen definieren automatisch verlaengerte Abos und fuer viele digitale Gueter grundsaetzlich keine Rueckerstattung, was Billing- und Exit-Reibung erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/terms-of-sale/',
       },
       {
         id: 'twitch-terms-service-termination-for-any-reason',
         text: 'Twitch Terms of Service state that Twitch may suspend or terminate service access, licenses, and even purchased products/services at its sole discretion for any reason or no reason.',
-        textDe: 'Die Twitch-Nutzungsbedingungen nennen, dass Twitch den Zugriff auf Dienste, Lizenzen und sogar gekaufte Produkte/Dienste nach eigenem Ermessen aus beliebigem oder ohne Grund sperren bzw. beenden kann.',
+        localizedTexts: { de: 'Die Twitch-Nutzungsbedingungen nennen, dass Twitch den Zugriff auf Dienste, Lizenzen und sogar gekaufte Produkte/Dienste nach eigenem Ermessen aus beliebigem oder ohne Grund sperren bzw. beenden kann.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/terms-of-service/',
       },
       {
         id: 'twitch-third-party-service-activity-sharing',
         text: 'Twitch privacy terms state that when users connect third-party services, Twitch may share account-linked usage diagnostics and send information about watched content or service activity to those third parties.',
-        textDe: 'Die Twitch-Privacy-Bedingungen nennen, dass bei Verknuepfung von Drittanbietern accountbezogene Nutzungsdiagnostik geteilt und Informationen zu angesehenen Inhalten bzw. Aktivitaeten an diese Dritten gesendet werden koennen.',
+        localizedTexts: { de: 'Die Twitch-Privacy-Bedingungen nennen, dass bei Verknuepfung von Drittanbietern accountbezogene Nutzungsdiagnostik geteilt und Informationen zu angesehenen Inhalten bzw. Aktivitaeten an diese Dritten gesendet werden koennen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twitch.tv/p/en/legal/privacy-notice/',
       },
       {
         id: 'twitch-developer-access-suspension-and-policy-dependency',
         text: 'Twitch developer terms state that developer accounts, app IDs, and keys may be canceled or revoked for any reason or no reason, creating material continuity risk for integrations dependent on Twitch APIs.',
-        textDe: 'Die Twitch-Developer-Bedingungen nennen, dass Developer-Accounts, App-IDs und Keys aus beliebigem oder ohne Grund aufgehoben bzw. widerrufen werden koennen; das erzeugt erhebliche Kontinuitaetsrisiken fuer API-abhaengige Integrationen.',
+        localizedTexts: { de: 'Die Twitch-Developer-Bedingungen nennen, dass Developer-Accounts, App-IDs und Keys aus beliebigem oder ohne Grund aufgehoben bzw. widerrufen werden koennen; das erzeugt erhebliche Kontinuitaetsrisiken fuer API-abhaengige Integrationen.' },
         severity: 'moderate',
         sourceUrl: 'https://legal.twitch.com/legal/developer-agreement/',
       },
       {
         id: 'twitch-api-rate-limit-enforcement-can-block-access',
         text: 'Twitch developer terms allow temporary suspension, limitation, or permanent blocking if Twitch determines API rate-limit controls were exceeded or circumvented.',
-        textDe: 'Die Twitch-Developer-Bedingungen erlauben bei aus Twitch-Sicht ueberschrittenen oder umgangenen Rate-Limits eine temporaere Sperrung, Einschraenkung oder dauerhafte Blockierung.',
+        localizedTexts: { de: 'Die Twitch-Developer-Bedingungen erlauben bei aus Twitch-Sicht ueberschrittenen oder umgangenen Rate-Limits eine temporaere Sperrung, Einschraenkung oder dauerhafte Blockierung.' },
         severity: 'moderate',
         sourceUrl: 'https://legal.twitch.com/legal/developer-agreement/',
       },
       {
         id: 'twitch-recurring-web-incidents-2024-2025',
         text: 'Twitch status incident data documents repeated web-impact events, including identified web issues on 2024-09-25 and 2025-06-12, reinforcing reliability risk for critical live operations.',
-        textDe: 'Die Twitch-Statusdaten dokumentieren wiederholte webrelevante Stoerungen, darunter identifizierte Web-Issues am 25.09.2024 und 12.06.2025, was Zuverlaessigkeitsrisiken fuer kritische Live-Operationen unterstreicht.',
+        localizedTexts: { de: 'Die Twitch-Statusdaten dokumentieren wiederholte webrelevante Stoerungen, darunter identifizierte Web-Issues am 25.09.2024 und 12.06.2025, was Zuverlaessigkeitsrisiken fuer kritische Live-Operationen unterstreicht.' },
         severity: 'moderate',
         date: '2025-06-12',
         sourceUrl: 'https://status.twitch.com/api/v2/incidents.json',
@@ -4765,34 +4805,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 1.9,
     description:
         'US-operated video platform with exceptional scale and security resources, but trust is materially reduced by ad-surveillance incentives, broad content licensing/monetization rights, child-privacy enforcement history, and ongoing algorithmic accountability scrutiny.',
-    descriptionDe:
-        'US-Video-Plattform mit sehr grosser Skalierung und starken Security-Ressourcen, deren Vertrauen jedoch durch werbegetriebene Ueberwachungsanreize, breite Content-Lizenz-/Monetarisierungsrechte, eine belastende Child-Privacy-Durchsetzungshistorie und fortlaufende algorithmische Accountability-Aufsicht deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Video-Plattform mit sehr grosser Skalierung und starken Security-Ressourcen, deren Vertrauen jedoch durch werbegetriebene Ueberwachungsanreize, breite Content-Lizenz-/Monetarisierungsrechte, eine belastende Child-Privacy-Durchsetzungshistorie und fortlaufende algorithmische Accountability-Aufsicht deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'youtube-ad-tech-majority-control',
         text: 'Alphabet remains majority-funded by advertising, creating structural incentives that can conflict with privacy-first expectations for a global video platform.',
-        textDe: 'Alphabet erzielt weiterhin den Grossteil des Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit Privacy-First-Erwartungen an eine globale Video-Plattform kollidieren koennen.',
+        localizedTexts: { de: 'Alphabet erzielt weiterhin den Grossteil des Umsatzes aus Werbung; das schafft strukturelle Anreize, die mit Privacy-First-Erwartungen an eine globale Video-Plattform kollidieren koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1652044/000165204425000014/goog-20241231.htm',
       },
       {
         id: 'youtube-us-legal-process-exposure',
         text: 'As a US provider, Google/YouTube can be compelled under US legal-process frameworks, so EU-facing terms and controls do not fully remove jurisdictional disclosure risk.',
-        textDe: 'Als US-Anbieter koennen Google/YouTube unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; EU-nahe Terms und Controls beseitigen dieses Jurisdiktionsrisiko nicht vollstaendig.',
+        localizedTexts: { de: 'Als US-Anbieter koennen Google/YouTube unter US-Rechtsrahmen zur Datenausgabe verpflichtet werden; EU-nahe Terms und Controls beseitigen dieses Jurisdiktionsrisiko nicht vollstaendig.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'youtube-broad-content-license-and-monetization-rights',
         text: 'YouTube Terms grant broad worldwide rights to use uploaded content to operate, promote, and improve the service, and allow platform monetization with payout governed by separate agreements.',
-        textDe: 'Die YouTube-Bedingungen raeumen weltweit breite Rechte ein, hochgeladene Inhalte zum Betreiben, Bewerben und Verbessern des Dienstes zu nutzen, und erlauben Plattform-Monetarisierung mit Auszahlung nur ueber separate Vereinbarungen.',
+        localizedTexts: { de: 'Die YouTube-Bedingungen raeumen weltweit breite Rechte ein, hochgeladene Inhalte zum Betreiben, Bewerben und Verbessern des Dienstes zu nutzen, und erlauben Plattform-Monetarisierung mit Auszahlung nur ueber separate Vereinbarungen.' },
         severity: 'major',
         sourceUrl: 'https://www.youtube.com/t/terms',
       },
       {
         id: 'youtube-coppa-settlement-2019',
         text: 'The FTC announced a record COPPA settlement with Google/YouTube in 2019 over allegations tied to children\'s data collection and targeted advertising practices.',
-        textDe: 'Die FTC veroeffentlichte 2019 einen Rekord-COPPA-Vergleich mit Google/YouTube wegen Vorwuerfen zur Datenerhebung bei Kindern und zielgerichteter Werbung.',
+        localizedTexts: { de: 'Die FTC veroeffentlichte 2019 einen Rekord-COPPA-Vergleich mit Google/YouTube wegen Vorwuerfen zur Datenerhebung bei Kindern und zielgerichteter Werbung.' },
         severity: 'major',
         date: '2019-09-04',
         sourceUrl: 'https://www.ftc.gov/news-events/news/press-releases/2019/09/google-youtube-will-pay-record-170-million-alleged-violations-childrens-privacy-law',
@@ -4800,49 +4841,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-creator-third-party-training-policy-friction',
         text: 'YouTube provides creator controls for third-party AI training, but policy-managed controls still leave governance complexity for organizations needing strict no-training assurances.',
-        textDe: 'YouTube bietet Creator-Controls fuer KI-Training durch Dritte, doch policy-gesteuerte Steuerung erzeugt weiterhin Governance-Komplexitaet fuer Organisationen mit strikten No-Training-Anforderungen.',
+        localizedTexts: { de: 'YouTube bietet Creator-Controls fuer KI-Training durch Dritte, doch policy-gesteuerte Steuerung erzeugt weiterhin Governance-Komplexitaet fuer Organisationen mit strikten No-Training-Anforderungen.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/youtube/answer/15509945?hl=en',
       },
       {
         id: 'youtube-data-api-quota-governance',
         text: 'YouTube Data API usage is quota-governed (default daily unit budget), which can materially constrain high-volume integrations and raises dependency-management overhead.',
-        textDe: 'Die Nutzung der YouTube Data API ist quota-gesteuert (standardmaessiges taegliches Unit-Budget), was Integrationen mit hohem Volumen deutlich begrenzen und den Abhaengigkeitsaufwand erhoehen kann.',
+        localizedTexts: { de: 'Die Nutzung der YouTube Data API ist quota-gesteuert (standardmaessiges taegliches Unit-Budget), was Integrationen mit hohem Volumen deutlich begrenzen und den Abhaengigkeitsaufwand erhoehen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/youtube/v3/getting-started',
       },
       {
         id: 'youtube-api-change-and-deprecation-volatility',
         text: 'The YouTube Data API revision history documents frequent behavioral and schema-related changes, increasing change-management cost for production integrations.',
-        textDe: 'Die Revisionshistorie der YouTube Data API dokumentiert haeufige Verhaltens- und Schemaaenderungen und erhoeht damit den Change-Management-Aufwand fuer produktive Integrationen.',
+        localizedTexts: { de: 'Die Revisionshistorie der YouTube Data API dokumentiert haeufige Verhaltens- und Schemaaenderungen und erhoeht damit den Change-Management-Aufwand fuer produktive Integrationen.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/youtube/v3/revision_history',
       },
       {
         id: 'youtube-android-player-api-deprecation',
         text: 'Google documented deprecation of the YouTube Android Player API, reinforcing legacy-SDK lifecycle risk for mobile embed dependencies.',
-        textDe: 'Google dokumentierte die Deprecation der YouTube Android Player API und unterstreicht damit Lifecycle-Risiken von Legacy-SDK-Abhaengigkeiten bei mobilen Embeds.',
+        localizedTexts: { de: 'Google dokumentierte die Deprecation der YouTube Android Player API und unterstreicht damit Lifecycle-Risiken von Legacy-SDK-Abhaengigkeiten bei mobilen Embeds.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.google.com/youtube/terms/revision-history',
       },
       {
         id: 'youtube-official-api-samples-archived-2025',
         text: 'The official youtube/api-samples repository is archived (read-only), reducing confidence in long-term maintenance of certain developer onboarding artifacts.',
-        textDe: 'Das offizielle Repository youtube/api-samples ist archiviert (read-only), was das Vertrauen in die langfristige Wartung bestimmter Developer-Onboarding-Artefakte reduziert.',
+        localizedTexts: { de: 'Das offizielle Repository youtube/api-samples ist archiviert (read-only), was das Vertrauen in die langfristige Wartung bestimmter Developer-Onboarding-Artefakte reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/youtube/api-samples',
       },
       {
         id: 'youtube-dsa-vlop-regulatory-scrutiny',
         text: 'YouTube is designated as a VLOP under the EU DSA and has received formal Commission information requests, signaling sustained regulatory-risk and compliance-pressure exposure.',
-        textDe: 'YouTube ist unter dem EU-DSA als VLOP designiert und erhielt formelle Informationsanfragen der Kommission; das signalisiert anhaltende regulatorische Risiken und Compliance-Druck.',
+        localizedTexts: { de: 'YouTube ist unter dem EU-DSA als VLOP designiert und erhielt formelle Informationsanfragen der Kommission; das signalisiert anhaltende regulatorische Risiken und Compliance-Druck.' },
         severity: 'moderate',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-sends-requests-information-youtube-snapchat-and-tiktok-recommender-systems-under-digital',
       },
       {
         id: 'youtube-eu-ai-content-antitrust-investigation-2025',
         text: 'The European Commission opened formal antitrust proceedings in December 2025 over concerns around Google AI overviews and use of third-party content (including implications for YouTube creator/publisher content competition dynamics).',
-        textDe: 'Die Europaeische Kommission leitete im Dezember 2025 ein formelles Kartellverfahren wegen Bedenken zu Google AI Overviews und der Nutzung von Drittinhalten ein (inklusive Implikationen fuer den Wettbewerb rund um YouTube-Creator-/Publisher-Inhalte).',
+        localizedTexts: { de: 'Die Europaeische Kommission leitete im Dezember 2025 ein formelles Kartellverfahren wegen Bedenken zu Google AI Overviews und der Nutzung von Drittinhalten ein (inklusive Implikationen fuer den Wettbewerb rund um YouTube-Creator-/Publisher-Inhalte).' },
         severity: 'major',
         date: '2025-12-09',
         sourceUrl: 'https://ec.europa.eu/commission/presscorner/detail/en/ip_25_2964',
@@ -4850,14 +4891,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-moderation-public-interest-policy-relaxation-2025',
         text: 'Reporting in 2025 described higher tolerance thresholds for some policy-violating content under "public interest" logic, increasing harm-governance uncertainty.',
-        textDe: 'Berichte aus 2025 beschrieben hoehere Toleranzschwellen fuer teilweise policy-verletzende Inhalte unter einer "public interest"-Logik, was die Unsicherheit in der Harm-Governance erhoeht.',
+        localizedTexts: { de: 'Berichte aus 2025 beschrieben hoehere Toleranzschwellen fuer teilweise policy-verletzende Inhalte unter einer "public interest"-Logik, was die Unsicherheit in der Harm-Governance erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.theverge.com/news/682784/youtube-loosens-moderation-policies-videos-public-interest',
       },
       {
         id: 'youtube-malware-abuse-ghost-network-2025',
         text: 'Security research in 2025 documented coordinated malware-distribution activity via compromised or hijacked YouTube channels/descriptions, highlighting recurring platform-abuse risk for users.',
-        textDe: 'Security-Research aus 2025 dokumentierte koordinierte Malware-Verbreitung ueber kompromittierte oder uebernommene YouTube-Kanaele/Beschreibungen und unterstreicht wiederkehrende Plattform-Missbrauchsrisiken fuer Nutzer.',
+        localizedTexts: { de: 'Security-Research aus 2025 dokumentierte koordinierte Malware-Verbreitung ueber kompromittierte oder uebernommene YouTube-Kanaele/Beschreibungen und unterstreicht wiederkehrende Plattform-Missbrauchsrisiken fuer Nutzer.' },
         severity: 'moderate',
         date: '2025-10-23',
         sourceUrl: 'https://research.checkpoint.com/2025/youtube-ghost-network/',
@@ -4865,21 +4906,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-cve-2023-0460-android-player-api',
         text: 'NVD tracks CVE-2023-0460 for a YouTube Android Player API issue, reinforcing legacy embed-surface security and maintenance risk.',
-        textDe: 'Die NVD fuehrt CVE-2023-0460 zu einer Schwachstelle in der YouTube Android Player API und bestaetigt damit Security- und Wartungsrisiken bei Legacy-Embed-Flaechen.',
+        localizedTexts: { de: 'Die NVD fuehrt CVE-2023-0460 zu einer Schwachstelle in der YouTube Android Player API und bestaetigt damit Security- und Wartungsrisiken bei Legacy-Embed-Flaechen.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2023-0460',
       },
       {
         id: 'youtube-yt-android-player-repo-archived',
         text: 'The official youtube/yt-android-player samples repository is archived and read-only, signaling lifecycle and support debt for older mobile integration paths.',
-        textDe: 'Das offizielle Samples-Repository youtube/yt-android-player ist archiviert und read-only, was Lifecycle- und Support-Schulden fuer aeltere mobile Integrationspfade signalisiert.',
+        localizedTexts: { de: 'Das offizielle Samples-Repository youtube/yt-android-player ist archiviert und read-only, was Lifecycle- und Support-Schulden fuer aeltere mobile Integrationspfade signalisiert.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/youtube/yt-android-player',
       },
       {
         id: 'youtube-outage-march-2024',
         text: 'A significant YouTube disruption in March 2024 caused broad playback-loading failures, showing non-trivial availability risk despite large-scale operations.',
-        textDe: 'Eine signifikante YouTube-Stoerung im Maerz 2024 fuehrte zu breiten Playback-/Ladeausfaellen und zeigt trotz grosser Betriebsreife ein nicht triviales Verfuegbarkeitsrisiko.',
+        localizedTexts: { de: 'Eine signifikante YouTube-Stoerung im Maerz 2024 fuehrte zu breiten Playback-/Ladeausfaellen und zeigt trotz grosser Betriebsreife ein nicht triviales Verfuegbarkeitsrisiko.' },
         severity: 'moderate',
         date: '2024-03-01',
         sourceUrl: 'https://techcrunch.com/2024/03/01/youtube-is-down-and-videos-arent-loading/',
@@ -4887,7 +4928,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-outage-october-2025',
         text: 'Reuters reporting in October 2025 documented broad YouTube outage complaints across regions, reinforcing recurring continuity risk.',
-        textDe: 'Reuters-Berichterstattung im Oktober 2025 dokumentierte breit gemeldete YouTube-Ausfaelle ueber mehrere Regionen hinweg und bestaetigt wiederkehrende Kontinuitaetsrisiken.',
+        localizedTexts: { de: 'Reuters-Berichterstattung im Oktober 2025 dokumentierte breit gemeldete YouTube-Ausfaelle ueber mehrere Regionen hinweg und bestaetigt wiederkehrende Kontinuitaetsrisiken.' },
         severity: 'moderate',
         date: '2025-10-15',
         sourceUrl: 'https://www.investing.com/news/stock-market-news/youtube-down-for-thousands-of-us-users-downdetector-shows-4417368',
@@ -4895,7 +4936,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-outage-december-2025',
         text: 'Reuters reporting in December 2025 again documented a large YouTube outage event, indicating repeated service-interruption episodes.',
-        textDe: 'Reuters-Berichterstattung im Dezember 2025 dokumentierte erneut ein grosses YouTube-Ausfallereignis und signalisiert wiederholte Serviceunterbrechungen.',
+        localizedTexts: { de: 'Reuters-Berichterstattung im Dezember 2025 dokumentierte erneut ein grosses YouTube-Ausfallereignis und signalisiert wiederholte Serviceunterbrechungen.' },
         severity: 'moderate',
         date: '2025-12-19',
         sourceUrl: 'https://www.yahoo.com/news/articles/youtube-down-thousands-users-us-001800272.html',
@@ -4903,21 +4944,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'youtube-premium-price-volatility',
         text: 'YouTube help documentation states paid-membership prices can change over time, and users may be notified in advance depending on plan and region.',
-        textDe: 'Die YouTube-Hilfedokumentation nennt, dass sich Preise fuer kostenpflichtige Mitgliedschaften im Zeitverlauf aendern koennen und Nutzer je nach Tarif/Region vorab benachrichtigt werden.',
+        localizedTexts: { de: 'Die YouTube-Hilfedokumentation nennt, dass sich Preise fuer kostenpflichtige Mitgliedschaften im Zeitverlauf aendern koennen und Nutzer je nach Tarif/Region vorab benachrichtigt werden.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/youtube/answer/12400348',
       },
       {
         id: 'youtube-family-plan-same-household-requirement',
         text: 'Google family terms require family-group members to share the same home address, reducing flexibility and increasing plan-governance friction for distributed households.',
-        textDe: 'Die Google-Familienbedingungen verlangen fuer Familiengruppenmitglieder dieselbe Wohnadresse, was die Flexibilitaet reduziert und Plan-Governance-Reibung fuer verteilte Haushalte erhoeht.',
+        localizedTexts: { de: 'Die Google-Familienbedingungen verlangen fuer Familiengruppenmitglieder dieselbe Wohnadresse, was die Flexibilitaet reduziert und Plan-Governance-Reibung fuer verteilte Haushalte erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://support.google.com/families/answer/7507744',
       },
       {
         id: 'youtube-embed-privacy-enhanced-mode-needs-consent-layer',
         text: 'YouTube supports a privacy-enhanced embed mode (`youtube-nocookie.com`), but organizations still need jurisdiction-specific consent and policy controls around embeds.',
-        textDe: 'YouTube unterstuetzt einen datenschutzfreundlicheren Embed-Modus (`youtube-nocookie.com`), dennoch bleiben jurisdiktionsspezifische Consent- und Policy-Controls fuer Embeds erforderlich.',
+        localizedTexts: { de: 'YouTube unterstuetzt einen datenschutzfreundlicheren Embed-Modus (`youtube-nocookie.com`), dennoch bleiben jurisdiktionsspezifische Consent- und Policy-Controls fuer Embeds erforderlich.' },
         severity: 'minor',
         sourceUrl: 'https://support.google.com/youtube/answer/171780',
       },
@@ -4927,20 +4968,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.7,
     description:
         'US-operated video-meeting platform with mature enterprise security/compliance controls and active vulnerability response, but trust is reduced by the 2021 privacy settlement, DOJ-documented governance incident, critical CVEs, DNS/registry outage dependency risk, and recurring billing/exit friction.',
-    descriptionDe:
-        'US-betriebene Video-Meeting-Plattform mit reifen Enterprise-Security-/Compliance-Kontrollen und aktiver Vulnerability-Response; das Vertrauen sinkt jedoch durch den Privacy-Vergleich von 2021, den DOJ-dokumentierten Governance-Vorfall, kritische CVEs, DNS/Registry-Abhaengigkeiten bei Ausfaellen sowie wiederkehrende Billing-/Exit-Reibung.',
+    localizedDescriptions: {
+      de: 'US-betriebene Video-Meeting-Plattform mit reifen Enterprise-Security-/Compliance-Kontrollen und aktiver Vulnerability-Response; das Vertrauen sinkt jedoch durch den Privacy-Vergleich von 2021, den DOJ-dokumentierten Governance-Vorfall, kritische CVEs, DNS/Registry-Abhaengigkeiten bei Ausfaellen sowie wiederkehrende Billing-/Exit-Reibung.',
+    },
     reservations: [
       {
         id: 'zoom-us-jurisdiction-and-processing-exposure',
         text: 'Zoom\'s privacy statement says personal data may be processed and stored in the United States and other jurisdictions, creating legal-process exposure outside strict EU-only governance models.',
-        textDe: 'Die Zoom-Privacy-Statement nennt, dass personenbezogene Daten in den USA und weiteren Jurisdiktionen verarbeitet und gespeichert werden koennen; das erzeugt Legal-Process-Exposition ausserhalb strikter EU-only-Governance-Modelle.',
+        localizedTexts: { de: 'Die Zoom-Privacy-Statement nennt, dass personenbezogene Daten in den USA und weiteren Jurisdiktionen verarbeitet und gespeichert werden koennen; das erzeugt Legal-Process-Exposition ausserhalb strikter EU-only-Governance-Modelle.' },
         severity: 'major',
         sourceUrl: 'https://www.zoom.com/en/trust/privacy/privacy-statement/',
       },
       {
         id: 'zoom-privacy-class-action-settlement-2021',
         text: 'Settlement materials for In re: Zoom Video Communications, Inc. Privacy Litigation document an $85M class-action settlement over Zoom privacy/security allegations from the pandemic period.',
-        textDe: 'Settlement-Materialien zu In re: Zoom Video Communications, Inc. Privacy Litigation dokumentieren einen Class-Action-Vergleich ueber 85 Mio. USD zu Zoom-Privacy-/Security-Vorwuerfen aus der Pandemiezeit.',
+        localizedTexts: { de: 'Settlement-Materialien zu In re: Zoom Video Communications, Inc. Privacy Litigation dokumentieren einen Class-Action-Vergleich ueber 85 Mio. USD zu Zoom-Privacy-/Security-Vorwuerfen aus der Pandemiezeit.' },
         severity: 'major',
         date: '2021-08-02',
         sourceUrl: 'https://www.zoommeetingsclassaction.com/',
@@ -4948,7 +4990,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-ftc-security-settlement-2020',
         text: 'The FTC announced a settlement requiring Zoom to implement a comprehensive security program and restricting misrepresentations about security and privacy practices.',
-        textDe: 'Die FTC kuendigte einen Vergleich an, der Zoom zu einem umfassenden Sicherheitsprogramm verpflichtet und irrefuehrende Aussagen zu Security- und Privacy-Praktiken einschraenkt.',
+        localizedTexts: { de: 'Die FTC kuendigte einen Vergleich an, der Zoom zu einem umfassenden Sicherheitsprogramm verpflichtet und irrefuehrende Aussagen zu Security- und Privacy-Praktiken einschraenkt.' },
         severity: 'major',
         date: '2020-11-09',
         sourceUrl: 'https://www.ftc.gov/news-events/news/press-releases/2020/11/ftc-requires-zoom-enhance-its-security-practices-part-settlement',
@@ -4956,7 +4998,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-doj-meeting-disruption-case-2020',
         text: 'The US DOJ charged a China-based individual for disrupting Zoom-hosted meetings commemorating Tiananmen Square, creating a lasting governance-risk signal for politically sensitive use cases.',
-        textDe: 'Das US-DOJ erhob Anklage gegen eine in China ansaessige Person wegen der Stoerung von Zoom-Meetings zum Tiananmen-Gedenken; das bleibt ein Governance-Risikosignal fuer politisch sensible Use Cases.',
+        localizedTexts: { de: 'Das US-DOJ erhob Anklage gegen eine in China ansaessige Person wegen der Stoerung von Zoom-Meetings zum Tiananmen-Gedenken; das bleibt ein Governance-Risikosignal fuer politisch sensible Use Cases.' },
         severity: 'major',
         date: '2020-12-18',
         sourceUrl: 'https://www.justice.gov/usao-ndca/pr/chinese-national-charged-disrupting-video-meetings-commemorating-tiananmen-square',
@@ -4964,21 +5006,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-critical-cve-2026-22844',
         text: 'NVD lists CVE-2026-22844 as a critical Zoom Node MMR vulnerability class (command-injection/RCE potential), reinforcing high-impact patch-management requirements.',
-        textDe: 'Die NVD fuehrt CVE-2026-22844 als kritische Schwachstellenklasse in Zoom Node MMR (Command-Injection-/RCE-Potenzial); das verstaerkt hochrelevante Patch-Management-Anforderungen.',
+        localizedTexts: { de: 'Die NVD fuehrt CVE-2026-22844 als kritische Schwachstellenklasse in Zoom Node MMR (Command-Injection-/RCE-Potenzial); das verstaerkt hochrelevante Patch-Management-Anforderungen.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2026-22844',
       },
       {
         id: 'zoom-critical-cve-2025-49457',
         text: 'NVD records CVE-2025-49457 as a critical Windows-client vulnerability class in Zoom, indicating recurring endpoint hardening pressure for managed fleets.',
-        textDe: 'Die NVD dokumentiert CVE-2025-49457 als kritische Windows-Client-Schwachstellenklasse in Zoom und zeigt wiederkehrenden Endpoint-Hardening-Druck fuer verwaltete Flotten.',
+        localizedTexts: { de: 'Die NVD dokumentiert CVE-2025-49457 als kritische Windows-Client-Schwachstellenklasse in Zoom und zeigt wiederkehrenden Endpoint-Hardening-Druck fuer verwaltete Flotten.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-49457',
       },
       {
         id: 'zoom-major-outage-domain-registry-dependency-2025',
         text: 'The April 2025 Zoom outage was tied to accidental domain-blocking at registry/registrar layer, highlighting external dependency concentration risk for availability.',
-        textDe: 'Der Zoom-Ausfall im April 2025 war mit einer versehentlichen Domain-Blockierung auf Registry-/Registrar-Ebene verbunden und unterstreicht externe Abhaengigkeitskonzentration fuer die Verfuegbarkeit.',
+        localizedTexts: { de: 'Der Zoom-Ausfall im April 2025 war mit einer versehentlichen Domain-Blockierung auf Registry-/Registrar-Ebene verbunden und unterstreicht externe Abhaengigkeitskonzentration fuer die Verfuegbarkeit.' },
         severity: 'moderate',
         date: '2025-04-16',
         sourceUrl: 'https://registry.godaddy/blog/zoomus-outage/',
@@ -4986,14 +5028,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-gated-compliance-artifacts-safebase',
         text: 'Zoom states many security/compliance artifacts are distributed via its Trust Center through SafeBase and corporate-email verification, limiting fully public audit visibility.',
-        textDe: 'Zoom nennt, dass viele Security-/Compliance-Artefakte ueber das Trust Center via SafeBase und Corporate-E-Mail-Verifikation verteilt werden; das begrenzt vollstaendige oeffentliche Audit-Einsehbarkeit.',
+        localizedTexts: { de: 'Zoom nennt, dass viele Security-/Compliance-Artefakte ueber das Trust Center via SafeBase und Corporate-E-Mail-Verifikation verteilt werden; das begrenzt vollstaendige oeffentliche Audit-Einsehbarkeit.' },
         severity: 'moderate',
         sourceUrl: 'https://www.zoom.com/en/trust/legal-compliance/faq/',
       },
       {
         id: 'zoom-ai-consent-account-level-governance-friction',
         text: 'After the 2023 ToS controversy, Zoom clarified model-training positions, but account-level feature governance still creates consent-friction risk for mixed-participant meetings.',
-        textDe: 'Nach der ToS-Kontroverse 2023 praezisierte Zoom die Modelltraining-Positionen; die account-weite Feature-Governance erzeugt jedoch weiterhin Consent-Reibungsrisiken bei Meetings mit gemischten Teilnehmergruppen.',
+        localizedTexts: { de: 'Nach der ToS-Kontroverse 2023 praezisierte Zoom die Modelltraining-Positionen; die account-weite Feature-Governance erzeugt jedoch weiterhin Consent-Reibungsrisiken bei Meetings mit gemischten Teilnehmergruppen.' },
         severity: 'moderate',
         date: '2023-08-07',
         sourceUrl: 'https://www.theverge.com/2023/8/7/23823046/zoom-terms-service-ai-model-train-data',
@@ -5001,70 +5043,70 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-ai-third-party-model-processing-surface',
         text: 'Zoom documents an AI approach using first-party and third-party model providers, which adds external processing boundaries that must be governed contractually and operationally.',
-        textDe: 'Zoom dokumentiert einen AI-Ansatz mit First-Party- und Third-Party-Modellanbietern; dadurch entstehen zusaetzliche externe Processing-Boundaries, die vertraglich und operativ gesteuert werden muessen.',
+        localizedTexts: { de: 'Zoom dokumentiert einen AI-Ansatz mit First-Party- und Third-Party-Modellanbietern; dadurch entstehen zusaetzliche externe Processing-Boundaries, die vertraglich und operativ gesteuert werden muessen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.zoom.com/en/blog/zoom-workplace-customer-questions-answered/',
       },
       {
         id: 'zoom-quarterly-lifecycle-version-enforcement',
         text: 'Zoom enforces minimum client versions on a quarterly schedule and may require additional out-of-window updates, creating ongoing upgrade and change-management pressure.',
-        textDe: 'Zoom erzwingt Mindestversionen der Clients in einem quartalsweisen Zyklus und kann zusaetzliche Updates ausserhalb dieses Fensters verlangen; das erzeugt laufenden Upgrade- und Change-Management-Druck.',
+        localizedTexts: { de: 'Zoom erzwingt Mindestversionen der Clients in einem quartalsweisen Zyklus und kann zusaetzliche Updates ausserhalb dieses Fensters verlangen; das erzeugt laufenden Upgrade- und Change-Management-Druck.' },
         severity: 'moderate',
         sourceUrl: 'https://support.zoom.com/hc/en/article?id=zm_kb&sysparm_article=KB0061130',
       },
       {
         id: 'zoom-fedramp-scope-is-zfg-platform',
         text: 'FedRAMP authorization is documented for the Zoom for Government platform, indicating government-grade control baselines are tied to a separate offering rather than default commercial tenants.',
-        textDe: 'Die FedRAMP-Autorisierung ist fuer die Zoom-for-Government-Plattform dokumentiert; Government-Grade-Kontrollbaselines sind damit an ein separates Angebot gebunden und nicht an Standard-Commercial-Tenants.',
+        localizedTexts: { de: 'Die FedRAMP-Autorisierung ist fuer die Zoom-for-Government-Plattform dokumentiert; Government-Grade-Kontrollbaselines sind damit an ein separates Angebot gebunden und nicht an Standard-Commercial-Tenants.' },
         severity: 'moderate',
         sourceUrl: 'https://www.zoom.com/en/trust/legal-compliance/fedramp/',
       },
       {
         id: 'zoom-data-residency-requires-admin-configuration',
         text: 'Zoom\'s data-center-region controls are configurable but not automatic, so sovereignty outcomes depend on correct admin policy design and enforcement.',
-        textDe: 'Die Zoom-Data-Center-Region-Controls sind konfigurierbar, aber nicht automatisch; Souveraenitaetsergebnisse haengen daher von korrektem Admin-Policy-Design und dessen Durchsetzung ab.',
+        localizedTexts: { de: 'Die Zoom-Data-Center-Region-Controls sind konfigurierbar, aber nicht automatisch; Souveraenitaetsergebnisse haengen daher von korrektem Admin-Policy-Design und dessen Durchsetzung ab.' },
         severity: 'moderate',
         sourceUrl: 'https://support.zoom.com/hc/en/article?id=zm_kb&sysparm_article=KB0067422',
       },
       {
         id: 'zoom-chat-history-retention-up-to-ten-years',
         text: 'Zoom support documentation states cloud chat history can be retained for up to 10 years, increasing governance and minimization burden if defaults are not tightly controlled.',
-        textDe: 'Die Zoom-Supportdokumentation nennt, dass Cloud-Chat-Historie bis zu 10 Jahre aufbewahrt werden kann; ohne strikte Steuerung erhoeht das Governance- und Datenminimierungsaufwand.',
+        localizedTexts: { de: 'Die Zoom-Supportdokumentation nennt, dass Cloud-Chat-Historie bis zu 10 Jahre aufbewahrt werden kann; ohne strikte Steuerung erhoeht das Governance- und Datenminimierungsaufwand.' },
         severity: 'moderate',
         sourceUrl: 'https://support.zoom.com/hc/en/article?id=zm_kb&sysparm_article=KB0065985',
       },
       {
         id: 'zoom-cancellation-and-auto-renewal-friction',
         text: 'Zoom support material documents repeated cancellation and auto-renew confusion patterns, requiring stricter procurement controls to avoid renewal surprises.',
-        textDe: 'Zoom-Supportmaterial dokumentiert wiederkehrende Muster bei Kuendigung und Auto-Renew-Verwirrung; fuer planbare Beschaffung sind daher strengere Procurement-Kontrollen noetig.',
+        localizedTexts: { de: 'Zoom-Supportmaterial dokumentiert wiederkehrende Muster bei Kuendigung und Auto-Renew-Verwirrung; fuer planbare Beschaffung sind daher strengere Procurement-Kontrollen noetig.' },
         severity: 'moderate',
         sourceUrl: 'https://support.zoom.com/hc/en/article?id=zm_kb&sysparm_article=KB0070184',
       },
       {
         id: 'zoom-community-reported-cancellation-disputes',
         text: 'Community billing threads show recurring user-reported escalation around contract cancellation, signaling practical support and dispute-resolution friction.',
-        textDe: 'Billing-Threads in der Community zeigen wiederkehrende nutzerberichtete Eskalationen bei Vertragskuendigungen und signalisieren praktische Support- sowie Streitbeilegungs-Reibung.',
+        localizedTexts: { de: 'Billing-Threads in der Community zeigen wiederkehrende nutzerberichtete Eskalationen bei Vertragskuendigungen und signalisieren praktische Support- sowie Streitbeilegungs-Reibung.' },
         severity: 'moderate',
         sourceUrl: 'https://community.zoom.com/t5/Billing-Account-Management/Cannot-cancel-contract/m-p/142711',
       },
       {
         id: 'zoom-community-reported-predatory-billing-claims',
         text: 'Additional community billing complaints allege predatory or unethical practices, reinforcing recurring contract-trust friction signals for procurement teams.',
-        textDe: 'Weitere Community-Billing-Beschwerden behaupten predatory beziehungsweise unethische Praktiken und verstaerken wiederkehrende Contract-Trust-Reibungssignale fuer Procurement-Teams.',
+        localizedTexts: { de: 'Weitere Community-Billing-Beschwerden behaupten predatory beziehungsweise unethische Praktiken und verstaerken wiederkehrende Contract-Trust-Reibungssignale fuer Procurement-Teams.' },
         severity: 'moderate',
         sourceUrl: 'https://community.zoom.com/t5/Billing-Account-Management/Predatory-and-unethical-business-practices/td-p/83390',
       },
       {
         id: 'zoom-channel-chat-export-regression-signal',
         text: 'Community reports indicate channel-chat CSV export behavior changed over time, which is a portability-risk signal for organizations that rely on tested exit procedures.',
-        textDe: 'Community-Berichte deuten darauf hin, dass sich das CSV-Exportverhalten fuer Channel-Chats im Zeitverlauf geaendert hat; das ist ein Portabilitaets-Risikosignal fuer Organisationen mit getesteten Exit-Prozessen.',
+        localizedTexts: { de: 'Community-Berichte deuten darauf hin, dass sich das CSV-Exportverhalten fuer Channel-Chats im Zeitverlauf geaendert hat; das ist ein Portabilitaets-Risikosignal fuer Organisationen mit getesteten Exit-Prozessen.' },
         severity: 'moderate',
         sourceUrl: 'https://community.zoom.com/t5/Zoom-Team-Chat/Exporting-channel-chat-to-csv-not-possible-anymore/m-p/182611',
       },
       {
         id: 'zoom-third-party-and-maintenance-incident-frequency',
         text: 'Zoom\'s public status history shows recurring service-impact events, including third-party-vendor degradations and frequent maintenance windows with possible customer impact.',
-        textDe: 'Die oeffentliche Zoom-Statushistorie zeigt wiederkehrende Service-Impact-Ereignisse, inklusive Third-Party-Vendor-Degradationen und haeufiger Wartungsfenster mit moeglichem Kundeneinfluss.',
+        localizedTexts: { de: 'Die oeffentliche Zoom-Statushistorie zeigt wiederkehrende Service-Impact-Ereignisse, inklusive Third-Party-Vendor-Degradationen und haeufiger Wartungsfenster mit moeglichem Kundeneinfluss.' },
         severity: 'moderate',
         date: '2026-02-16',
         sourceUrl: 'https://www.zoomstatus.com/history.rss',
@@ -5072,7 +5114,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'zoom-free-basic-plan-40-minute-limit',
         text: 'Zoom documents a 40-minute cap for many free Basic group meetings, which can create upgrade pressure in recurring team workflows.',
-        textDe: 'Zoom dokumentiert ein 40-Minuten-Limit fuer viele kostenlose Basic-Gruppenmeetings; das kann in wiederkehrenden Team-Workflows Upgrade-Druck erzeugen.',
+        localizedTexts: { de: 'Zoom dokumentiert ein 40-Minuten-Limit fuer viele kostenlose Basic-Gruppenmeetings; das kann in wiederkehrenden Team-Workflows Upgrade-Druck erzeugen.' },
         severity: 'minor',
         sourceUrl: 'https://support.zoom.com/hc/en/article?id=zm_kb&sysparm_article=KB0067966',
       },
@@ -5082,13 +5124,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.8,
     description:
         'Non-US VPN provider (BVI legal controller with UK-linked private ownership) with recurring independent audits and mature security engineering, but trust is reduced by a high-impact DNS leak history, private-ownership governance opacity, and ongoing auto-renewal litigation risk.',
-    descriptionDe:
-        'Nicht-US-VPN-Anbieter (BVI-Controller mit UK-naher privater Eigentümerstruktur) mit wiederkehrenden unabhängigen Audits und reifer Security-Engineering-Basis; das Vertrauen sinkt jedoch durch eine hochrelevante DNS-Leak-Historie, Governance-Intransparenz unter privatem Ownership und laufende Auto-Renewal-Litigation-Risiken.',
+    localizedDescriptions: {
+      de: 'Nicht-US-VPN-Anbieter (BVI-Controller mit UK-naher privater Eigentümerstruktur) mit wiederkehrenden unabhängigen Audits und reifer Security-Engineering-Basis; das Vertrauen sinkt jedoch durch eine hochrelevante DNS-Leak-Historie, Governance-Intransparenz unter privatem Ownership und laufende Auto-Renewal-Litigation-Risiken.',
+    },
     reservations: [
       {
         id: 'expressvpn-private-ownership-delisting-2023',
         text: 'Kape Technologies, the parent company of ExpressVPN, delisted in 2023 after the Unikmind cash offer, reducing public-market reporting transparency.',
-        textDe: 'Kape Technologies, die Muttergesellschaft von ExpressVPN, wurde 2023 nach dem Unikmind-Cash-Offer delistet; dadurch sinkt die Transparenz aus öffentlicher Kapitalmarkt-Berichterstattung.',
+        localizedTexts: { de: 'Kape Technologies, die Muttergesellschaft von ExpressVPN, wurde 2023 nach dem Unikmind-Cash-Offer delistet; dadurch sinkt die Transparenz aus öffentlicher Kapitalmarkt-Berichterstattung.' },
         severity: 'moderate',
         date: '2023-02-15',
         sourceUrl: 'https://www.investegate.co.uk/announcement/rns/kape-technologies--kape/final-results-and-delisting/7423646',
@@ -5096,28 +5139,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-bvi-controller-and-global-processing',
         text: 'ExpressVPN states data control under Express Technologies Ltd. (BVI) and describes use of group entities and third-party processors, which increases jurisdiction and transfer-complexity for strict sovereignty requirements.',
-        textDe: 'ExpressVPN nennt Express Technologies Ltd. (BVI) als Daten-Controller und beschreibt den Einsatz von Gruppengesellschaften sowie Drittverarbeitern, was Jurisdiktions- und Transferkomplexität bei strikten Souveränitätsanforderungen erhöht.',
+        localizedTexts: { de: 'ExpressVPN nennt Express Technologies Ltd. (BVI) als Daten-Controller und beschreibt den Einsatz von Gruppengesellschaften sowie Drittverarbeitern, was Jurisdiktions- und Transferkomplexität bei strikten Souveränitätsanforderungen erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.expressvpn.com/privacy-policy',
       },
       {
         id: 'expressvpn-cve-2024-25728-dns-leak',
         text: 'CVE-2024-25728 documented that split tunneling on affected Windows versions could leak DNS requests outside the VPN resolver path.',
-        textDe: 'CVE-2024-25728 dokumentierte, dass Split Tunneling auf betroffenen Windows-Versionen DNS-Anfragen ausserhalb des VPN-Resolver-Pfads leaken konnte.',
+        localizedTexts: { de: 'CVE-2024-25728 dokumentierte, dass Split Tunneling auf betroffenen Windows-Versionen DNS-Anfragen ausserhalb des VPN-Resolver-Pfads leaken konnte.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-25728',
       },
       {
         id: 'expressvpn-rdp-debug-code-leak-remediation',
         text: 'ExpressVPN disclosed a Windows issue where temporary debug code could expose RDP traffic and published remediation guidance, indicating meaningful endpoint leak risk despite subsequent fixes.',
-        textDe: 'ExpressVPN legte ein Windows-Problem offen, bei dem temporärer Debug-Code RDP-Traffic exponieren konnte, und veröffentlichte Remediation-Hinweise; das zeigt ein relevantes Endpoint-Leak-Risiko trotz späterer Fixes.',
+        localizedTexts: { de: 'ExpressVPN legte ein Windows-Problem offen, bei dem temporärer Debug-Code RDP-Traffic exponieren konnte, und veröffentlichte Remediation-Hinweise; das zeigt ein relevantes Endpoint-Leak-Risiko trotz späterer Fixes.' },
         severity: 'moderate',
         sourceUrl: 'https://www.expressvpn.com/blog/fixes-for-dns-and-rdp-leaks/',
       },
       {
         id: 'expressvpn-auto-renewal-class-action-2025',
         text: 'A 2025 US class-action complaint alleges negative-option auto-renewal disclosure and cancellation-friction issues for ExpressVPN subscriptions (litigation pending).',
-        textDe: 'Eine US-Sammelklage aus 2025 wirft ExpressVPN negative-option Auto-Renewal-Offenlegung und Kündigungsfriktion vor (Verfahren anhängig).',
+        localizedTexts: { de: 'Eine US-Sammelklage aus 2025 wirft ExpressVPN negative-option Auto-Renewal-Offenlegung und Kündigungsfriktion vor (Verfahren anhängig).' },
         severity: 'major',
         date: '2025-06-16',
         sourceUrl: 'https://www.wolfpopper.com/wp-content/uploads/2025/06/Millar-v.-Express-Technologies-Ltd.-Class-Action-Complaint.pdf',
@@ -5125,14 +5168,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-us-arbitration-terms-structure',
         text: 'ExpressVPN Terms include arbitration/class-action-waiver language for US users, which can increase dispute-resolution friction for consumers.',
-        textDe: 'Die ExpressVPN-Bedingungen enthalten für US-Nutzer Arbitration- und Class-Action-Waiver-Klauseln, was die Streitbeilegung für Verbraucher erschweren kann.',
+        localizedTexts: { de: 'Die ExpressVPN-Bedingungen enthalten für US-Nutzer Arbitration- und Class-Action-Waiver-Klauseln, was die Streitbeilegung für Verbraucher erschweren kann.' },
         severity: 'moderate',
         sourceUrl: 'https://www.expressvpn.com/tos',
       },
       {
         id: 'expressvpn-former-cio-doj-settlement-2021',
         text: 'The US DOJ announced a deferred prosecution agreement tied to Project Raven involving ExpressVPN\'s former CIO, creating a durable governance-reputation overhang.',
-        textDe: 'Das US-Justizministerium veröffentlichte ein Deferred-Prosecution-Abkommen im Project-Raven-Kontext unter Beteiligung des ehemaligen ExpressVPN-CIO; das erzeugt einen dauerhaften Governance-Reputationsfaktor.',
+        localizedTexts: { de: 'Das US-Justizministerium veröffentlichte ein Deferred-Prosecution-Abkommen im Project-Raven-Kontext unter Beteiligung des ehemaligen ExpressVPN-CIO; das erzeugt einen dauerhaften Governance-Reputationsfaktor.' },
         severity: 'moderate',
         date: '2021-09-14',
         sourceUrl: 'https://www.justice.gov/opa/pr/former-us-intelligence-community-and-us-military-personnel-charged-hacking-related-crimes',
@@ -5140,7 +5183,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-no-logs-assurance-type-i-scope-limit',
         text: 'ExpressVPN\'s KPMG assurance is ISAE (UK) 3000 Type I (point-in-time design/implementation), which is narrower than Type II operating-effectiveness coverage.',
-        textDe: 'Die KPMG-Assurance von ExpressVPN ist ISAE (UK) 3000 Type I (punktuelle Design-/Implementierungsprüfung) und damit enger als eine Type-II-Deckung zur Wirksamkeit über einen Zeitraum.',
+        localizedTexts: { de: 'Die KPMG-Assurance von ExpressVPN ist ISAE (UK) 3000 Type I (punktuelle Design-/Implementierungsprüfung) und damit enger als eine Type-II-Deckung zur Wirksamkeit über einen Zeitraum.' },
         severity: 'moderate',
         date: '2025-02-28',
         sourceUrl: 'https://www.expressvpn.com/asset/report/ExpressVPN_assurance_report.pdf',
@@ -5148,28 +5191,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-open-source-scope-partial',
         text: 'ExpressVPN open-sources core Lightway protocol components, but the full commercial app and backend stack used by most customers remains proprietary.',
-        textDe: 'ExpressVPN stellt zentrale Lightway-Protokollkomponenten offen bereit, aber der komplette kommerzielle App- und Backend-Stack für die meisten Kunden bleibt proprietär.',
+        localizedTexts: { de: 'ExpressVPN stellt zentrale Lightway-Protokollkomponenten offen bereit, aber der komplette kommerzielle App- und Backend-Stack für die meisten Kunden bleibt proprietär.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/expressvpn/lightway',
       },
       {
         id: 'expressvpn-usage-statistics-and-diagnostics-collection',
         text: 'ExpressVPN\'s privacy policy documents collection of limited usage statistics (for example connection success by day, VPN location, and country/ISP) plus optional app diagnostic telemetry.',
-        textDe: 'Die ExpressVPN-Datenschutzerklärung dokumentiert die Erhebung begrenzter Nutzungsstatistiken (z. B. erfolgreiche Verbindung pro Tag, VPN-Standort und Land/ISP) sowie optionaler App-Diagnosetelemetrie.',
+        localizedTexts: { de: 'Die ExpressVPN-Datenschutzerklärung dokumentiert die Erhebung begrenzter Nutzungsstatistiken (z. B. erfolgreiche Verbindung pro Tag, VPN-Standort und Land/ISP) sowie optionaler App-Diagnosetelemetrie.' },
         severity: 'moderate',
         sourceUrl: 'https://www.expressvpn.com/privacy-policy',
       },
       {
         id: 'expressvpn-third-party-telemetry-and-attribution-partners',
         text: 'ExpressVPN discloses third-party telemetry/attribution partners (including Sentry, Firebase Crashlytics, and AppsFlyer), increasing third-party data-flow complexity.',
-        textDe: 'ExpressVPN nennt Drittpartner für Telemetrie/Attribution (unter anderem Sentry, Firebase Crashlytics und AppsFlyer), was die Komplexität externer Datenflüsse erhöht.',
+        localizedTexts: { de: 'ExpressVPN nennt Drittpartner für Telemetrie/Attribution (unter anderem Sentry, Firebase Crashlytics und AppsFlyer), was die Komplexität externer Datenflüsse erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.expressvpn.com/privacy-policy',
       },
       {
         id: 'expressvpn-legacy-app-eol-2026',
         text: 'ExpressVPN announced that legacy apps stop connecting after March 31, 2026 unless users migrate to newer versions, creating lifecycle and migration pressure for lagging environments.',
-        textDe: 'ExpressVPN kündigte an, dass Legacy-Apps nach dem 31. März 2026 nicht mehr verbinden, sofern Nutzer nicht auf neuere Versionen migrieren; das erzeugt Lifecycle- und Migrationsdruck für verzögerte Umgebungen.',
+        localizedTexts: { de: 'ExpressVPN kündigte an, dass Legacy-Apps nach dem 31. März 2026 nicht mehr verbinden, sofern Nutzer nicht auf neuere Versionen migrieren; das erzeugt Lifecycle- und Migrationsdruck für verzögerte Umgebungen.' },
         severity: 'moderate',
         date: '2026-03-31',
         sourceUrl: 'https://www.expressvpn.com/blog/update-expressvpn-to-stay-connected/',
@@ -5177,7 +5220,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-plan-tier-restructure-2025',
         text: 'ExpressVPN replaced its prior single-plan model with Basic/Advanced/Pro tiers in September 2025, adding feature-tiering and higher packaging complexity.',
-        textDe: 'ExpressVPN ersetzte im September 2025 das frühere Ein-Plan-Modell durch Basic/Advanced/Pro-Tarife und führte damit Feature-Tiering sowie höhere Paketkomplexität ein.',
+        localizedTexts: { de: 'ExpressVPN ersetzte im September 2025 das frühere Ein-Plan-Modell durch Basic/Advanced/Pro-Tarife und führte damit Feature-Tiering sowie höhere Paketkomplexität ein.' },
         severity: 'moderate',
         date: '2025-09-02',
         sourceUrl: 'https://www.expressvpn.com/blog/expressvpn-launches-tiers/',
@@ -5185,7 +5228,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'expressvpn-workforce-reduction-report-2025',
         text: 'Industry reporting in March 2025 described another workforce reduction at ExpressVPN, which can create transitional capacity risk for support and engineering execution.',
-        textDe: 'Branchenberichte aus dem März 2025 beschrieben einen weiteren Personalabbau bei ExpressVPN, was übergangsbedingte Kapazitätsrisiken für Support und Engineering-Ausführung erzeugen kann.',
+        localizedTexts: { de: 'Branchenberichte aus dem März 2025 beschrieben einen weiteren Personalabbau bei ExpressVPN, was übergangsbedingte Kapazitätsrisiken für Support und Engineering-Ausführung erzeugen kann.' },
         severity: 'moderate',
         date: '2025-03-19',
         sourceUrl: 'https://www.techradar.com/vpn/vpn-services/expressvpn-reduces-workforce-for-the-second-time-in-two-years',
@@ -5196,13 +5239,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.1,
     description:
         'US-operated product analytics platform with strong compliance/security signals and practical export tooling, but trust is materially reduced by a confirmed 2025 data-export incident, US-sovereignty constraints, and billing/contract asymmetry.',
-    descriptionDe:
-        'US-Produktanalytik-Plattform mit starken Compliance-/Security-Signalen und praxistauglichen Exportwegen; das Vertrauen sinkt jedoch deutlich durch einen bestätigten Datenexport-Vorfall 2025, US-Souveränitätsgrenzen sowie Billing-/Vertragsasymmetrien.',
+    localizedDescriptions: {
+      de: 'US-Produktanalytik-Plattform mit starken Compliance-/Security-Signalen und praxistauglichen Exportwegen; das Vertrauen sinkt jedoch deutlich durch einen bestätigten Datenexport-Vorfall 2025, US-Souveränitätsgrenzen sowie Billing-/Vertragsasymmetrien.',
+    },
     reservations: [
       {
         id: 'mixpanel-security-incident-2025',
         text: 'Mixpanel disclosed a November 2025 security incident where a social-engineering campaign led to unauthorized access and export of limited customer-identifiable analytics data.',
-        textDe: 'Mixpanel legte einen Sicherheitsvorfall aus November 2025 offen, bei dem eine Social-Engineering-Kampagne zu unautorisiertem Zugriff und Export begrenzt personenbezogener Analytics-Daten führte.',
+        localizedTexts: { de: 'Mixpanel legte einen Sicherheitsvorfall aus November 2025 offen, bei dem eine Social-Engineering-Kampagne zu unautorisiertem Zugriff und Export begrenzt personenbezogener Analytics-Daten führte.' },
         severity: 'major',
         date: '2025-11-26',
         sourceUrl: 'https://mixpanel.com/blog/mixpanel-security-update/',
@@ -5210,7 +5254,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'mixpanel-third-party-customer-impact-openai-2025',
         text: 'OpenAI reported that the Mixpanel incident exposed profile and analytics metadata for some API users, reinforcing third-party dependency and targeted-phishing risk.',
-        textDe: 'OpenAI meldete, dass der Mixpanel-Vorfall Profil- und Analytics-Metadaten einiger API-Nutzer exponierte; das verstärkt Drittanbieter-Abhängigkeits- und zielgerichtete-Phishing-Risiken.',
+        localizedTexts: { de: 'OpenAI meldete, dass der Mixpanel-Vorfall Profil- und Analytics-Metadaten einiger API-Nutzer exponierte; das verstärkt Drittanbieter-Abhängigkeits- und zielgerichtete-Phishing-Risiken.' },
         severity: 'major',
         date: '2025-11-26',
         sourceUrl: 'https://status.openai.com/incidents/01K91M8C5DBNFRFC8R55D7Q1EW',
@@ -5218,49 +5262,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'mixpanel-us-default-hosting-residency-friction',
         text: 'Mixpanel documents that projects are US-hosted by default and EU residency requires dedicated project configuration, creating deployment-governance friction for strict sovereignty requirements.',
-        textDe: 'Mixpanel dokumentiert US-Hosting als Standard; EU-Residency erfordert eine gesonderte Projektkonfiguration, was bei strikten Souveränitätsvorgaben Governance-Reibung erzeugt.',
+        localizedTexts: { de: 'Mixpanel dokumentiert US-Hosting als Standard; EU-Residency erfordert eine gesonderte Projektkonfiguration, was bei strikten Souveränitätsvorgaben Governance-Reibung erzeugt.' },
         severity: 'major',
         sourceUrl: 'https://docs.mixpanel.com/docs/privacy/data-residency',
       },
       {
         id: 'mixpanel-subprocessor-cross-border-processing',
         text: 'Mixpanel publishes subprocessors and processing locations, including non-EU providers, so even EU-residency setups still require careful transfer/governance review by use case.',
-        textDe: 'Mixpanel veröffentlicht Subprozessoren und Verarbeitungsorte einschliesslich Nicht-EU-Anbietern; selbst bei EU-Residency ist daher je Use Case eine sorgfältige Transfer-/Governance-Prüfung nötig.',
+        localizedTexts: { de: 'Mixpanel veröffentlicht Subprozessoren und Verarbeitungsorte einschliesslich Nicht-EU-Anbietern; selbst bei EU-Residency ist daher je Use Case eine sorgfältige Transfer-/Governance-Prüfung nötig.' },
         severity: 'moderate',
         sourceUrl: 'https://mixpanel.com/legal/subprocessors/',
       },
       {
         id: 'mixpanel-aggregated-data-and-liability-asymmetry',
         text: 'Terms grant Mixpanel rights over aggregated/de-identified data and include liability limitations, creating contractual asymmetry for risk allocation.',
-        textDe: 'Die Bedingungen gewähren Mixpanel Rechte an aggregierten/de-identifizierten Daten und enthalten Haftungsbegrenzungen, was eine vertragliche Asymmetrie bei der Risikoallokation erzeugt.',
+        localizedTexts: { de: 'Die Bedingungen gewähren Mixpanel Rechte an aggregierten/de-identifizierten Daten und enthalten Haftungsbegrenzungen, was eine vertragliche Asymmetrie bei der Risikoallokation erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://mixpanel.com/legal/terms-of-use/',
       },
       {
         id: 'mixpanel-auto-renewal-and-refund-friction',
         text: 'Mixpanel terms state subscriptions auto-renew by default and fees are generally non-refundable unless required by law.',
-        textDe: 'Die Mixpanel-Bedingungen nennen standardmässige Auto-Renewals; Gebühren sind grundsätzlich nicht rückerstattbar, sofern nicht gesetzlich erforderlich.',
+        localizedTexts: { de: 'Die Mixpanel-Bedingungen nennen standardmässige Auto-Renewals; Gebühren sind grundsätzlich nicht rückerstattbar, sofern nicht gesetzlich erforderlich.' },
         severity: 'moderate',
         sourceUrl: 'https://mixpanel.com/legal/terms-of-use/',
       },
       {
         id: 'mixpanel-no-hard-billing-limit-overages',
         text: 'Mixpanel billing docs state there is no hard billing limit by default; overages are billed unless additional event rates are explicitly disabled in billing settings.',
-        textDe: 'Die Billing-Dokumentation von Mixpanel nennt standardmässig kein hartes Billing-Limit; Overages werden abgerechnet, sofern zusätzliche Event-Raten nicht explizit in den Billing-Einstellungen deaktiviert werden.',
+        localizedTexts: { de: 'Die Billing-Dokumentation von Mixpanel nennt standardmässig kein hartes Billing-Limit; Overages werden abgerechnet, sofern zusätzliche Event-Raten nicht explizit in den Billing-Einstellungen deaktiviert werden.' },
         severity: 'moderate',
         sourceUrl: 'https://docs.mixpanel.com/docs/billing/what-if-i-go-over-my-prepaid-amount',
       },
       {
         id: 'mixpanel-gen-ai-third-party-processing-surface',
         text: 'Mixpanel\'s Gen-AI legal terms describe third-party model-provider processing for AI features, adding an optional external data-processing surface when those features are enabled.',
-        textDe: 'Die Gen-AI-Bedingungen von Mixpanel beschreiben die Verarbeitung über Drittanbieter-Modellprovider; bei aktivierten AI-Funktionen entsteht damit eine optionale externe Datenverarbeitungsfläche.',
+        localizedTexts: { de: 'Die Gen-AI-Bedingungen von Mixpanel beschreiben die Verarbeitung über Drittanbieter-Modellprovider; bei aktivierten AI-Funktionen entsteht damit eine optionale externe Datenverarbeitungsfläche.' },
         severity: 'moderate',
         sourceUrl: 'https://mixpanel.com/legal/gen-ai-features/',
       },
       {
         id: 'mixpanel-class-action-following-incident-2025',
         text: 'A US class-action complaint filed in December 2025 over the third-party breach named OpenAI and Mixpanel, indicating ongoing litigation exposure from the incident.',
-        textDe: 'Eine im Dezember 2025 eingereichte US-Sammelklage zum Drittanbieter-Breach nennt OpenAI und Mixpanel und signalisiert anhaltende Litigation-Exposition aus dem Vorfall.',
+        localizedTexts: { de: 'Eine im Dezember 2025 eingereichte US-Sammelklage zum Drittanbieter-Breach nennt OpenAI und Mixpanel und signalisiert anhaltende Litigation-Exposition aus dem Vorfall.' },
         severity: 'moderate',
         date: '2025-12-01',
         sourceUrl: 'https://dockets.justia.com/docket/california/candce/5:2025cv10717/448958',
@@ -5268,14 +5312,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'mixpanel-recurring-operational-incidents-2025-2026',
         text: 'Mixpanel\'s public incident feed shows repeated 2025-2026 disruptions across API/querying, authentication, and data pipeline surfaces, indicating non-trivial operational interruption risk.',
-        textDe: 'Der öffentliche Incident-Feed von Mixpanel zeigt wiederholte Störungen 2025-2026 über API-/Query-, Authentifizierungs- und Datenpipeline-Flächen; das signalisiert ein nicht-triviales Unterbrechungsrisiko.',
+        localizedTexts: { de: 'Der öffentliche Incident-Feed von Mixpanel zeigt wiederholte Störungen 2025-2026 über API-/Query-, Authentifizierungs- und Datenpipeline-Flächen; das signalisiert ein nicht-triviales Unterbrechungsrisiko.' },
         severity: 'moderate',
         sourceUrl: 'https://www.mixpanelstatus.com/history.atom',
       },
       {
         id: 'mixpanel-eu-residency-ingestion-delay-2025',
         text: 'Mixpanel reported a temporary data-ingestion delay in October 2025 that affected projects enrolled in EU Residency, including forwarding from US to EU.',
-        textDe: 'Mixpanel meldete im Oktober 2025 eine temporäre Data-Ingestion-Verzögerung für Projekte im EU-Residency-Programm, einschliesslich Weiterleitungen von US nach EU.',
+        localizedTexts: { de: 'Mixpanel meldete im Oktober 2025 eine temporäre Data-Ingestion-Verzögerung für Projekte im EU-Residency-Programm, einschliesslich Weiterleitungen von US nach EU.' },
         severity: 'moderate',
         date: '2025-10-27',
         sourceUrl: 'https://www.mixpanelstatus.com/incidents/lyc8jnwdmqv4',
@@ -5283,7 +5327,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'mixpanel-sso-broker-dependency-outage-2025',
         text: 'A December 2025 incident linked SSO login failures to outage conditions at Mixpanel\'s authentication broker (Okta), underscoring third-party identity dependency risk.',
-        textDe: 'Ein Incident im Dezember 2025 verknüpfte SSO-Login-Ausfälle mit Störungen beim Authentifizierungs-Broker (Okta) von Mixpanel und unterstreicht Drittanbieter-Abhängigkeitsrisiken bei Identity.',
+        localizedTexts: { de: 'Ein Incident im Dezember 2025 verknüpfte SSO-Login-Ausfälle mit Störungen beim Authentifizierungs-Broker (Okta) von Mixpanel und unterstreicht Drittanbieter-Abhängigkeitsrisiken bei Identity.' },
         severity: 'moderate',
         date: '2025-12-03',
         sourceUrl: 'https://www.mixpanelstatus.com/incidents/ly3310s754yz',
@@ -5291,14 +5335,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'mixpanel-docs-maintainer-concentration-signal',
         text: 'The public docs repository names only a small maintainer set, which can increase documentation-response dependency on a few individuals.',
-        textDe: 'Das öffentliche Docs-Repository nennt nur ein kleines Maintainer-Set; dadurch kann die Dokumentations-Response stärker von wenigen Personen abhängen.',
+        localizedTexts: { de: 'Das öffentliche Docs-Repository nennt nur ein kleines Maintainer-Set; dadurch kann die Dokumentations-Response stärker von wenigen Personen abhängen.' },
         severity: 'minor',
         sourceUrl: 'https://raw.githubusercontent.com/mixpanel/docs/main/README.md',
       },
       {
         id: 'mixpanel-review-signals-support-pricing-friction',
         text: 'Public review-platform summaries include recurring negatives around support and pricing complexity, adding procurement-trust friction as a community signal.',
-        textDe: 'Öffentliche Review-Plattform-Zusammenfassungen enthalten wiederkehrende Negativsignale zu Support und Pricing-Komplexität; das erzeugt als Community-Signal zusätzliche Procurement-Trust-Reibung.',
+        localizedTexts: { de: 'Öffentliche Review-Plattform-Zusammenfassungen enthalten wiederkehrende Negativsignale zu Support und Pricing-Komplexität; das erzeugt als Community-Signal zusätzliche Procurement-Trust-Reibung.' },
         severity: 'minor',
         sourceUrl: 'https://www.trustradius.com/products/mixpanel/reviews',
       },
@@ -5308,13 +5352,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.6,
     description:
         'US-operated product analytics platform with mature SDK tooling and strong enterprise compliance signaling, but trust is reduced by ongoing privacy-litigation exposure around SDK disclosure/consent, US-sovereignty constraints, and contract-pricing asymmetries.',
-    descriptionDe:
-        'US-Produktanalytik-Plattform mit reifem SDK-Tooling und starken Enterprise-Compliance-Signalen; das Vertrauen sinkt jedoch durch laufende Privacy-Litigation zu SDK-Disclosure/Consent, US-Souveraenitaetsgrenzen sowie vertragliche und preisliche Asymmetrien.',
+    localizedDescriptions: {
+      de: 'US-Produktanalytik-Plattform mit reifem SDK-Tooling und starken Enterprise-Compliance-Signalen; das Vertrauen sinkt jedoch durch laufende Privacy-Litigation zu SDK-Disclosure/Consent, US-Souveraenitaetsgrenzen sowie vertragliche und preisliche Asymmetrien.',
+    },
     reservations: [
       {
         id: 'amplitude-privacy-litigation-sdk-disclosure-2024',
         text: 'Amplitude SEC filings disclose multiple privacy lawsuits (including Atkins v. Amplitude) alleging wiretap/privacy violations linked to SDK deployment and disclosure/consent practices in customer apps.',
-        textDe: 'Amplitude-SEC-Filings nennen mehrere Privacy-Klagen (einschliesslich Atkins v. Amplitude) mit Vorwuerfen zu Wiretap/Privacy-Verstoessen im Zusammenhang mit SDK-Einsatz sowie Disclosure-/Consent-Praktiken in Kunden-Apps.',
+        localizedTexts: { de: 'Amplitude-SEC-Filings nennen mehrere Privacy-Klagen (einschliesslich Atkins v. Amplitude) mit Vorwuerfen zu Wiretap/Privacy-Verstoessen im Zusammenhang mit SDK-Einsatz sowie Disclosure-/Consent-Praktiken in Kunden-Apps.' },
         severity: 'major',
         date: '2024-08-08',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1866692/000095017025104357/ampl-20250630.htm',
@@ -5322,14 +5367,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amplitude-us-legal-process-exposure',
         text: 'As a US-controlled service, Amplitude remains exposed to US legal-process demands, which can conflict with strict EU sovereignty expectations for sensitive analytics datasets.',
-        textDe: 'Als US-kontrollierter Dienst bleibt Amplitude US-Rechtsanordnungen ausgesetzt, was mit strikten EU-Souveraenitaetserwartungen fuer sensible Analytics-Datensaetze kollidieren kann.',
+        localizedTexts: { de: 'Als US-kontrollierter Dienst bleibt Amplitude US-Rechtsanordnungen ausgesetzt, was mit strikten EU-Souveraenitaetserwartungen fuer sensible Analytics-Datensaetze kollidieren kann.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'amplitude-security-incident-dockerhub-credentials-2023',
         text: 'Amplitude disclosed a May 2023 incident where credentials were exposed in a public DockerHub image, requiring revocation and rotation actions.',
-        textDe: 'Amplitude legte einen Vorfall aus Mai 2023 offen, bei dem Zugangsdaten in einem oeffentlichen DockerHub-Image exponiert wurden und Widerruf sowie Rotation noetig waren.',
+        localizedTexts: { de: 'Amplitude legte einen Vorfall aus Mai 2023 offen, bei dem Zugangsdaten in einem oeffentlichen DockerHub-Image exponiert wurden und Widerruf sowie Rotation noetig waren.' },
         severity: 'moderate',
         date: '2023-05-12',
         sourceUrl: 'https://community.amplitude.com/discussion/10239/important-security-update-faq',
@@ -5337,77 +5382,77 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amplitude-cross-border-transfer-framework-dependence',
         text: 'Amplitude privacy documentation relies on transfer frameworks (including SCC/DPF-style mechanisms), which still requires case-by-case transfer-risk review for strict EU deployments.',
-        textDe: 'Die Privacy-Dokumentation von Amplitude stuetzt sich auf Transfermechanismen (einschliesslich SCC/DPF-Logik), was fuer strikte EU-Deployments weiterhin eine fallbezogene Transfer-Risikopruefung erfordert.',
+        localizedTexts: { de: 'Die Privacy-Dokumentation von Amplitude stuetzt sich auf Transfermechanismen (einschliesslich SCC/DPF-Logik), was fuer strikte EU-Deployments weiterhin eine fallbezogene Transfer-Risikopruefung erfordert.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/privacy',
       },
       {
         id: 'amplitude-ml-service-improvement-clause',
         text: 'Amplitude Terms allow machine-learning techniques to improve services, so high-sensitivity use cases should explicitly constrain processing scope in contracting and configuration.',
-        textDe: 'Die Amplitude-AGB erlauben Machine-Learning-Techniken zur Serviceverbesserung; fuer hochsensible Use Cases sollte der Verarbeitungsumfang vertraglich und technisch explizit eingegrenzt werden.',
+        localizedTexts: { de: 'Die Amplitude-AGB erlauben Machine-Learning-Techniken zur Serviceverbesserung; fuer hochsensible Use Cases sollte der Verarbeitungsumfang vertraglich und technisch explizit eingegrenzt werden.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/terms',
       },
       {
         id: 'amplitude-ai-third-party-model-processing-surface',
         text: 'Amplitude AI features may involve third-party model providers depending on selected controls, adding optional external processing surface for enabled AI workflows.',
-        textDe: 'Amplitude-AI-Funktionen koennen je nach gesetzten Kontrollen Drittanbieter-Modellprovider einbeziehen und schaffen damit eine optionale externe Verarbeitungsflaeche fuer aktivierte AI-Workflows.',
+        localizedTexts: { de: 'Amplitude-AI-Funktionen koennen je nach gesetzten Kontrollen Drittanbieter-Modellprovider einbeziehen und schaffen damit eine optionale externe Verarbeitungsflaeche fuer aktivierte AI-Workflows.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/security-and-privacy',
       },
       {
         id: 'amplitude-trust-center-artifacts-access-gated',
         text: 'Amplitude Trust Center exposes compliance signals, but detailed assurance artifacts are primarily request-access gated, which limits independent pre-procurement verification depth.',
-        textDe: 'Das Amplitude-Trust-Center zeigt Compliance-Signale, jedoch sind detaillierte Assurance-Artefakte ueberwiegend nur per Zugriffsanfrage verfuegbar, was die unabhaengige Vorabverifikation im Procurement einschraenkt.',
+        localizedTexts: { de: 'Das Amplitude-Trust-Center zeigt Compliance-Signale, jedoch sind detaillierte Assurance-Artefakte ueberwiegend nur per Zugriffsanfrage verfuegbar, was die unabhaengige Vorabverifikation im Procurement einschraenkt.' },
         severity: 'moderate',
         sourceUrl: 'https://trust.amplitude.com/',
       },
       {
         id: 'amplitude-recurrent-status-incidents-signal',
         text: 'Amplitude\'s public status page records recurring incidents and degraded-performance windows, indicating non-trivial operational interruption surface for analytics-critical workloads.',
-        textDe: 'Die oeffentliche Statusseite von Amplitude zeigt wiederkehrende Incidents und Degradation-Zeitfenster und signalisiert damit eine nicht triviale Unterbrechungsflaeche fuer analytics-kritische Workloads.',
+        localizedTexts: { de: 'Die oeffentliche Statusseite von Amplitude zeigt wiederkehrende Incidents und Degradation-Zeitfenster und signalisiert damit eine nicht triviale Unterbrechungsflaeche fuer analytics-kritische Workloads.' },
         severity: 'moderate',
         sourceUrl: 'https://status.amplitude.com/',
       },
       {
         id: 'amplitude-plus-plan-overage-non-refundable',
         text: 'Amplitude Plus Plan terms state overages can be charged beyond plan limits and fees are generally non-refundable, increasing spend-risk for weak telemetry governance.',
-        textDe: 'Die Plus-Plan-Bedingungen von Amplitude nennen abrechenbare Overages ueber Planlimits hinaus und grundsaetzlich nicht rueckerstattungsfaehige Gebuehren, was bei schwacher Telemetrie-Governance das Ausgabenrisiko erhoeht.',
+        localizedTexts: { de: 'Die Plus-Plan-Bedingungen von Amplitude nennen abrechenbare Overages ueber Planlimits hinaus und grundsaetzlich nicht rueckerstattungsfaehige Gebuehren, was bei schwacher Telemetrie-Governance das Ausgabenrisiko erhoeht.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/plus-plan-terms',
       },
       {
         id: 'amplitude-plus-plan-auto-renew-cancel-window',
         text: 'Amplitude Plus subscriptions auto-renew by default and require cancellation before the next billing cycle to avoid renewal charges.',
-        textDe: 'Amplitude-Plus-Abos verlaengern sich standardmaessig automatisch und erfordern eine Kuendigung vor dem naechsten Abrechnungszyklus, um Verlaengerungsgebuehren zu vermeiden.',
+        localizedTexts: { de: 'Amplitude-Plus-Abos verlaengern sich standardmaessig automatisch und erfordern eine Kuendigung vor dem naechsten Abrechnungszyklus, um Verlaengerungsgebuehren zu vermeiden.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/plus-plan-terms',
       },
       {
         id: 'amplitude-plus-plan-unilateral-fee-feature-changes',
         text: 'Plus Plan terms reserve rights to change product features and pricing, creating contractual volatility and planning risk for long-horizon budgeting.',
-        textDe: 'Die Plus-Plan-Bedingungen behalten sich Aenderungen an Produktfunktionen und Preisen vor, was vertragliche Volatilitaet und Planungsrisiken fuer laengerfristige Budgetierung erzeugt.',
+        localizedTexts: { de: 'Die Plus-Plan-Bedingungen behalten sich Aenderungen an Produktfunktionen und Preisen vor, was vertragliche Volatilitaet und Planungsrisiken fuer laengerfristige Budgetierung erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/plus-plan-terms',
       },
       {
         id: 'amplitude-eu-residency-signup-sdk-configuration-friction',
         text: 'Amplitude SDK documentation notes EU data storage requires region-specific setup during signup plus matching SDK server-zone configuration, which adds deployment-governance friction.',
-        textDe: 'Die Amplitude-SDK-Dokumentation nennt fuer EU-Datenspeicherung ein region-spezifisches Setup bei der Registrierung plus passende SDK-Server-Zonen-Konfiguration; das erzeugt Deployment-Governance-Reibung.',
+        localizedTexts: { de: 'Die Amplitude-SDK-Dokumentation nennt fuer EU-Datenspeicherung ein region-spezifisches Setup bei der Registrierung plus passende SDK-Server-Zonen-Konfiguration; das erzeugt Deployment-Governance-Reibung.' },
         severity: 'moderate',
         sourceUrl: 'https://amplitude.com/docs/sdks/analytics/browser/browser-sdk-2',
       },
       {
         id: 'amplitude-android-sdk-long-lived-open-issue-signal',
         text: 'Amplitude\'s Android SDK tracker includes long-lived open issues, which can increase integration-maintenance uncertainty for edge-case mobile deployments.',
-        textDe: 'Der Android-SDK-Issue-Tracker von Amplitude enthaelt langlaufende offene Issues, was die Integrations- und Wartungsunsicherheit fuer Edge-Case-Mobile-Deployments erhoehen kann.',
+        localizedTexts: { de: 'Der Android-SDK-Issue-Tracker von Amplitude enthaelt langlaufende offene Issues, was die Integrations- und Wartungsunsicherheit fuer Edge-Case-Mobile-Deployments erhoehen kann.' },
         severity: 'minor',
         sourceUrl: 'https://github.com/amplitude/Amplitude-Android/issues/393',
       },
       {
         id: 'amplitude-workforce-reduction-2023',
         text: 'Amplitude announced a 13% workforce reduction in 2023, which can create temporary support and execution-capacity risk during restructuring windows.',
-        textDe: 'Amplitude kuendigte 2023 einen Personalabbau von 13 % an, was waehrend Restrukturierungsphasen temporaere Support- und Ausfuehrungskapazitaetsrisiken erzeugen kann.',
+        localizedTexts: { de: 'Amplitude kuendigte 2023 einen Personalabbau von 13 % an, was waehrend Restrukturierungsphasen temporaere Support- und Ausfuehrungskapazitaetsrisiken erzeugen kann.' },
         severity: 'minor',
         date: '2023-02-16',
         sourceUrl: 'https://amplitude.com/blog/an-update-from-amplitude',
@@ -5415,7 +5460,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amplitude-history-of-losses-and-retention-pressure-2024',
         text: 'Amplitude\'s 2024 Form 10-K discloses a history of losses and reports dollar-based net retention decline versus the prior year, signaling sustained growth/retention pressure.',
-        textDe: 'Das Form 10-K 2024 von Amplitude beschreibt eine Verlusthistorie und berichtet einen Rueckgang der Dollar-based Net Retention gegenueber dem Vorjahr; das signalisiert anhaltenden Wachstums- und Retention-Druck.',
+        localizedTexts: { de: 'Das Form 10-K 2024 von Amplitude beschreibt eine Verlusthistorie und berichtet einen Rueckgang der Dollar-based Net Retention gegenueber dem Vorjahr; das signalisiert anhaltenden Wachstums- und Retention-Druck.' },
         severity: 'moderate',
         date: '2024-12-31',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1866692/000095017025024135/ampl-20241231.htm',
@@ -5423,7 +5468,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amplitude-overage-and-renegotiation-discretion-2024',
         text: 'Amplitude\'s 2024 Form 10-K states overage charges can be billed at the company\'s discretion and may drive contract renegotiation, adding billing-governance friction at scale.',
-        textDe: 'Das Form 10-K 2024 von Amplitude nennt, dass Overage-Gebuehren nach Ermessen des Unternehmens abgerechnet und zur Vertragsneuverhandlung genutzt werden koennen; das erhoeht Billing-Governance-Reibung bei Skalierung.',
+        localizedTexts: { de: 'Das Form 10-K 2024 von Amplitude nennt, dass Overage-Gebuehren nach Ermessen des Unternehmens abgerechnet und zur Vertragsneuverhandlung genutzt werden koennen; das erhoeht Billing-Governance-Reibung bei Skalierung.' },
         severity: 'moderate',
         date: '2024-12-31',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1866692/000095017025024135/ampl-20241231.htm',
@@ -5431,7 +5476,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'amplitude-cfo-departure-transition-2024',
         text: 'Amplitude disclosed in May 2024 that its CFO departed and a replacement search was initiated, creating temporary finance-governance transition risk.',
-        textDe: 'Amplitude legte im Mai 2024 den Abgang des CFO offen und startete die Nachfolgesuche; das erzeugt ein temporaeres Finance-Governance-Transitionsrisiko.',
+        localizedTexts: { de: 'Amplitude legte im Mai 2024 den Abgang des CFO offen und startete die Nachfolgesuche; das erzeugt ein temporaeres Finance-Governance-Transitionsrisiko.' },
         severity: 'minor',
         date: '2024-05-24',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1866692/000119312524147163/d665908d8k.htm',
@@ -5442,13 +5487,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.8,
     description:
         'US-operated password manager with a mature product surface and zero-knowledge vault design, but trust is materially reduced by the 2022-2023 breach chain, UK GDPR enforcement findings on security controls, and recurring contractual/jurisdictional friction.',
-    descriptionDe:
-        'US-Passwortmanager mit ausgereiftem Produktumfang und Zero-Knowledge-Vault-Design, dessen Vertrauen jedoch durch die Breach-Kette 2022-2023, UK-GDPR-Durchsetzungsfeststellungen zu Sicherheitskontrollen sowie wiederkehrende vertragliche und jurisdiktionelle Reibung deutlich reduziert ist.',
+    localizedDescriptions: {
+      de: 'US-Passwortmanager mit ausgereiftem Produktumfang und Zero-Knowledge-Vault-Design, dessen Vertrauen jedoch durch die Breach-Kette 2022-2023, UK-GDPR-Durchsetzungsfeststellungen zu Sicherheitskontrollen sowie wiederkehrende vertragliche und jurisdiktionelle Reibung deutlich reduziert ist.',
+    },
     reservations: [
       {
         id: 'lastpass-ico-uk-gdpr-penalty-2025',
         text: 'In November 2025, the UK ICO issued a GBP 1,228,283 monetary penalty to LastPass UK Ltd for UK GDPR security failures, citing insufficient technical and organizational measures.',
-        textDe: 'Im November 2025 verhängte das britische ICO eine Geldbusse von 1.228.283 GBP gegen LastPass UK Ltd wegen UK-GDPR-Sicherheitsverstössen und nannte unzureichende technische sowie organisatorische Massnahmen.',
+        localizedTexts: { de: 'Im November 2025 verhängte das britische ICO eine Geldbusse von 1.228.283 GBP gegen LastPass UK Ltd wegen UK-GDPR-Sicherheitsverstössen und nannte unzureichende technische sowie organisatorische Massnahmen.' },
         severity: 'major',
         date: '2025-11-20',
         sourceUrl: 'https://ico.org.uk/action-weve-taken/enforcement/2025/11/lastpass-uk-ltd/',
@@ -5456,7 +5502,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-backup-and-vault-metadata-exfiltration-2022',
         text: 'LastPass disclosed in December 2022 that a threat actor copied cloud backups containing customer account data and vault backups that included unencrypted URL/metadata fields alongside encrypted secrets.',
-        textDe: 'LastPass legte im Dezember 2022 offen, dass ein Angreifer Cloud-Backups mit Kundenkontodaten und Vault-Backups kopierte, die unverschluesselte URL-/Metadatenfelder neben verschluesselten Secrets enthielten.',
+        localizedTexts: { de: 'LastPass legte im Dezember 2022 offen, dass ein Angreifer Cloud-Backups mit Kundenkontodaten und Vault-Backups kopierte, die unverschluesselte URL-/Metadatenfelder neben verschluesselten Secrets enthielten.' },
         severity: 'major',
         date: '2022-12-22',
         sourceUrl: 'https://blog.lastpass.com/posts/notice-of-recent-security-incident',
@@ -5464,7 +5510,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-privileged-access-controls-personal-device-failure',
         text: 'The ICO penalty notice describes privileged-access control weaknesses, including compromise paths involving employee personal-device exposure and stolen secrets used to access backup environments.',
-        textDe: 'Der ICO-Bussgeldbescheid beschreibt Schwachstellen bei Privileged-Access-Kontrollen, einschliesslich Kompromittierungspfaden ueber persoenliche Mitarbeitergeraete und gestohlene Secrets fuer den Zugriff auf Backup-Umgebungen.',
+        localizedTexts: { de: 'Der ICO-Bussgeldbescheid beschreibt Schwachstellen bei Privileged-Access-Kontrollen, einschliesslich Kompromittierungspfaden ueber persoenliche Mitarbeitergeraete und gestohlene Secrets fuer den Zugriff auf Backup-Umgebungen.' },
         severity: 'major',
         date: '2025-11-20',
         sourceUrl: 'https://ico.org.uk/media2/xfbl1uaa/lastpass-uk-ltd-penalty-notice.pdf',
@@ -5472,7 +5518,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-incident-communication-delay-acknowledged-2023',
         text: 'In March 2023, LastPass acknowledged customer frustration and stated it should have communicated more frequently and comprehensively during the incident response period.',
-        textDe: 'Im Maerz 2023 erkannte LastPass die Frustration von Kunden an und erklaerte, waehrend der Incident-Reaktion haeufiger und umfassender haette kommunizieren muessen.',
+        localizedTexts: { de: 'Im Maerz 2023 erkannte LastPass die Frustration von Kunden an und erklaerte, waehrend der Incident-Reaktion haeufiger und umfassender haette kommunizieren muessen.' },
         severity: 'moderate',
         date: '2023-03-01',
         sourceUrl: 'https://blog.lastpass.com/posts/security-incident-update-recommended-actions',
@@ -5480,42 +5526,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-cross-border-processing-us-dpf-scc',
         text: 'LastPass privacy disclosures state that personal data is processed in the United States and other countries, using transfer mechanisms such as DPF and SCCs.',
-        textDe: 'Die LastPass-Privacy-Offenlegungen nennen, dass personenbezogene Daten in den USA und weiteren Laendern verarbeitet werden, unter Nutzung von Transfermechanismen wie DPF und SCCs.',
+        localizedTexts: { de: 'Die LastPass-Privacy-Offenlegungen nennen, dass personenbezogene Daten in den USA und weiteren Laendern verarbeitet werden, unter Nutzung von Transfermechanismen wie DPF und SCCs.' },
         severity: 'major',
         sourceUrl: 'https://www.lastpass.com/legal-center/privacy-notice',
       },
       {
         id: 'lastpass-arbitration-and-class-action-waiver',
         text: 'LastPass personal terms include arbitration clauses and class-action waiver language, reducing default court-based collective remedy paths for many users.',
-        textDe: 'Die Personal-AGB von LastPass enthalten Schiedsklauseln und Class-Action-Waiver-Sprache, was fuer viele Nutzer standardmaessige gerichtliche kollektive Rechtsdurchsetzungspfade reduziert.',
+        localizedTexts: { de: 'Die Personal-AGB von LastPass enthalten Schiedsklauseln und Class-Action-Waiver-Sprache, was fuer viele Nutzer standardmaessige gerichtliche kollektive Rechtsdurchsetzungspfade reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://www.lastpass.com/legal-center/terms-of-service/personal',
       },
       {
         id: 'lastpass-auto-renewal-and-non-refundable-terms',
         text: 'Personal subscriptions auto-renew by default (unless canceled at least 30 days before term end), and terms state that payments are final and non-refundable.',
-        textDe: 'Persoenliche Abonnements verlaengern sich standardmaessig automatisch (sofern nicht mindestens 30 Tage vor Laufzeitende gekuendigt wird), und die Bedingungen nennen Zahlungen als final und nicht rueckerstattbar.',
+        localizedTexts: { de: 'Persoenliche Abonnements verlaengern sich standardmaessig automatisch (sofern nicht mindestens 30 Tage vor Laufzeitende gekuendigt wird), und die Bedingungen nennen Zahlungen als final und nicht rueckerstattbar.' },
         severity: 'moderate',
         sourceUrl: 'https://www.lastpass.com/legal-center/terms-of-service/personal',
       },
       {
         id: 'lastpass-business-termination-data-retrieval-window',
         text: 'Business terms state that after termination, limited service access for data retrieval/deletion is only provided on request for up to 30 days.',
-        textDe: 'Die Business-AGB nennen, dass nach Vertragsende ein begrenzter Servicezugang zur Datenabholung/-loeschung nur auf Anfrage und hoechstens fuer 30 Tage bereitgestellt wird.',
+        localizedTexts: { de: 'Die Business-AGB nennen, dass nach Vertragsende ein begrenzter Servicezugang zur Datenabholung/-loeschung nur auf Anfrage und hoechstens fuer 30 Tage bereitgestellt wird.' },
         severity: 'moderate',
         sourceUrl: 'https://www.lastpass.com/legal-center/terms-of-service/business',
       },
       {
         id: 'lastpass-open-source-scope-limited-to-cli-tooling',
         text: 'LastPass publishes open-source CLI tooling, but public source availability does not cover the full hosted password-manager stack used by most customers.',
-        textDe: 'LastPass veroeffentlicht Open-Source-CLI-Tooling, jedoch deckt die oeffentliche Source-Verfuegbarkeit nicht den vollstaendigen gehosteten Passwortmanager-Stack fuer die meisten Kunden ab.',
+        localizedTexts: { de: 'LastPass veroeffentlicht Open-Source-CLI-Tooling, jedoch deckt die oeffentliche Source-Verfuegbarkeit nicht den vollstaendigen gehosteten Passwortmanager-Stack fuer die meisten Kunden ab.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/lastpass/lastpass-cli',
       },
       {
         id: 'lastpass-major-service-outage-june-2024',
         text: 'A June 2024 incident left many users unable to access LastPass for more than 12 hours, highlighting non-trivial service continuity risk.',
-        textDe: 'Ein Incident im Juni 2024 machte LastPass fuer viele Nutzer ueber mehr als 12 Stunden unzugaenglich und unterstreicht ein nicht-triviales Service-Continuity-Risiko.',
+        localizedTexts: { de: 'Ein Incident im Juni 2024 machte LastPass fuer viele Nutzer ueber mehr als 12 Stunden unzugaenglich und unterstreicht ein nicht-triviales Service-Continuity-Risiko.' },
         severity: 'moderate',
         date: '2024-06-28',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/lastpass-password-manager-was-down-for-many-for-over-12-hours/',
@@ -5523,7 +5569,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-mfa-federation-backup-data-exposure-2023',
         text: 'In its March 2023 incident update, LastPass said exfiltrated backups included MFA/federation data such as authenticator seeds and backup phone numbers, and that related secrets were also stolen in the second incident.',
-        textDe: 'Im Incident-Update vom Maerz 2023 erklaerte LastPass, dass exfiltrierte Backups MFA-/Federation-Daten wie Authenticator-Seeds und Backup-Telefonnummern enthielten und zugehoerige Secrets im zweiten Incident ebenfalls entwendet wurden.',
+        localizedTexts: { de: 'Im Incident-Update vom Maerz 2023 erklaerte LastPass, dass exfiltrierte Backups MFA-/Federation-Daten wie Authenticator-Seeds und Backup-Telefonnummern enthielten und zugehoerige Secrets im zweiten Incident ebenfalls entwendet wurden.' },
         severity: 'major',
         date: '2023-03-01',
         sourceUrl: 'https://blog.lastpass.com/posts/security-incident-update-recommended-actions',
@@ -5531,7 +5577,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-dom-clickjacking-disclosure-2025',
         text: 'Independent 2025 disclosure research reported LastPass among password-manager extensions affected by DOM-based clickjacking scenarios at publication time, indicating ongoing extension-surface hardening pressure.',
-        textDe: 'Unabhaengige Disclosure-Recherche aus 2025 fuehrte LastPass bei zum Publikationszeitpunkt betroffenen Passwortmanager-Extensions in DOM-basierten Clickjacking-Szenarien auf und signalisiert fortlaufenden Haertungsdruck auf der Extension-Flaeche.',
+        localizedTexts: { de: 'Unabhaengige Disclosure-Recherche aus 2025 fuehrte LastPass bei zum Publikationszeitpunkt betroffenen Passwortmanager-Extensions in DOM-basierten Clickjacking-Szenarien auf und signalisiert fortlaufenden Haertungsdruck auf der Extension-Flaeche.' },
         severity: 'moderate',
         date: '2025-08-09',
         sourceUrl: 'https://marektoth.com/blog/dom-based-extension-clickjacking/',
@@ -5539,7 +5585,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-free-plan-device-type-restriction-2021',
         text: 'LastPass announced in 2021 that free users would be limited to one device type, adding pricing and migration pressure for users relying on cross-device access.',
-        textDe: 'LastPass kuendigte 2021 an, dass Free-Nutzer auf einen Geraetetyp begrenzt werden, was Preis- und Migrationsdruck fuer Nutzer mit geraeteuebergreifendem Bedarf erzeugt.',
+        localizedTexts: { de: 'LastPass kuendigte 2021 an, dass Free-Nutzer auf einen Geraetetyp begrenzt werden, was Preis- und Migrationsdruck fuer Nutzer mit geraeteuebergreifendem Bedarf erzeugt.' },
         severity: 'moderate',
         date: '2021-02-16',
         sourceUrl: 'https://blog.lastpass.com/posts/changes-to-lastpass-free',
@@ -5547,7 +5593,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'lastpass-login-verification-email-incident-2026',
         text: 'A major February 2026 status incident disrupted delivery of login verification emails, demonstrating additional reliability risk around core account-access workflows.',
-        textDe: 'Ein groesserer Status-Incident im Februar 2026 stoerte die Zustellung von Login-Verifizierungs-E-Mails und zeigt zusaetzliche Zuverlaessigkeitsrisiken bei zentralen Account-Access-Workflows.',
+        localizedTexts: { de: 'Ein groesserer Status-Incident im Februar 2026 stoerte die Zustellung von Login-Verifizierungs-E-Mails und zeigt zusaetzliche Zuverlaessigkeitsrisiken bei zentralen Account-Access-Workflows.' },
         severity: 'moderate',
         date: '2026-02-17',
         sourceUrl: 'https://status.lastpass.com/incidents/glj5s0m4nxry',
@@ -5558,20 +5604,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.8,
     description:
         'North America-operated password manager with unusually strong independent security testing and transparent advisory practices, but trust is reduced by local-malware attack surface, third-party dependency incidents, and limited public access to full compliance artifacts.',
-    descriptionDe:
-        'Nordamerikanischer Passwortmanager mit ungewöhnlich starker unabhängiger Security-Prüfung und transparenter Advisory-Praxis; das Vertrauen sinkt jedoch durch lokale Malware-Angriffsflächen, Drittanbieter-Abhängigkeiten und nur eingeschränkt öffentlich verfügbare Compliance-Artefakte.',
+    localizedDescriptions: {
+      de: 'Nordamerikanischer Passwortmanager mit ungewöhnlich starker unabhängiger Security-Prüfung und transparenter Advisory-Praxis; das Vertrauen sinkt jedoch durch lokale Malware-Angriffsflächen, Drittanbieter-Abhängigkeiten und nur eingeschränkt öffentlich verfügbare Compliance-Artefakte.',
+    },
     reservations: [
       {
         id: '1password-local-exfiltration-cve-2024-42218',
         text: '1Password disclosed CVE-2024-42218 as a local-attack path where malicious software on a compromised Mac could exfiltrate vault items and account-derived secrets from outdated app versions before 8.10.38.',
-        textDe: '1Password veröffentlichte CVE-2024-42218 als lokalen Angriffsweg, bei dem Schadsoftware auf einem kompromittierten Mac Vault-Items und abgeleitete Account-Secrets aus veralteten App-Versionen vor 8.10.38 exfiltrieren konnte.',
+        localizedTexts: { de: '1Password veröffentlichte CVE-2024-42218 als lokalen Angriffsweg, bei dem Schadsoftware auf einem kompromittierten Mac Vault-Items und abgeleitete Account-Secrets aus veralteten App-Versionen vor 8.10.38 exfiltrieren konnte.' },
         severity: 'major',
         sourceUrl: 'https://support.1password.com/kb/202408/',
       },
       {
         id: '1password-okta-support-system-incident-2023',
         text: '1Password reported suspicious activity on its Okta tenant during the 2023 Okta support-system breach window, underscoring dependency risk in identity and support-tool supply chains even when customer vault data is not reported as accessed.',
-        textDe: '1Password meldete während des Okta-Support-System-Incidents 2023 verdächtige Aktivität auf dem eigenen Okta-Tenant; das unterstreicht Abhängigkeitsrisiken in Identity- und Support-Tool-Lieferketten, auch wenn kein Zugriff auf Kundenvaults gemeldet wurde.',
+        localizedTexts: { de: '1Password meldete während des Okta-Support-System-Incidents 2023 verdächtige Aktivität auf dem eigenen Okta-Tenant; das unterstreicht Abhängigkeitsrisiken in Identity- und Support-Tool-Lieferketten, auch wenn kein Zugriff auf Kundenvaults gemeldet wurde.' },
         severity: 'moderate',
         date: '2023-09-29',
         sourceUrl: 'https://1password.com/blog/okta-incident',
@@ -5579,35 +5626,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: '1password-compliance-artifacts-gated-access',
         text: '1Password states SOC 2 Type II and ISO certifications, but key assurance artifacts are distributed primarily through request/Trust Center workflows rather than fully open public publication.',
-        textDe: '1Password nennt SOC-2-Type-II- und ISO-Zertifizierungen, verteilt zentrale Assurance-Artefakte jedoch primär über Request-/Trust-Center-Prozesse statt vollständig öffentlicher Publikation.',
+        localizedTexts: { de: '1Password nennt SOC-2-Type-II- und ISO-Zertifizierungen, verteilt zentrale Assurance-Artefakte jedoch primär über Request-/Trust-Center-Prozesse statt vollständig öffentlicher Publikation.' },
         severity: 'moderate',
         sourceUrl: 'https://support.1password.com/security-assessments/',
       },
       {
         id: '1password-region-change-manual-migration-friction',
         text: 'Changing account region requires creating a new account and manually copying data, which adds operational migration and lock-in friction for larger deployments.',
-        textDe: 'Ein Regionswechsel erfordert die Erstellung eines neuen Accounts und das manuelle Kopieren von Daten, was für grössere Deployments operative Migrations- und Lock-in-Reibung erzeugt.',
+        localizedTexts: { de: 'Ein Regionswechsel erfordert die Erstellung eines neuen Accounts und das manuelle Kopieren von Daten, was für grössere Deployments operative Migrations- und Lock-in-Reibung erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://support.1password.com/regions/',
       },
       {
         id: '1password-open-source-scope-limited-to-tooling',
         text: '1Password publishes open-source SDK/CLI and integration tooling, but public open-source coverage does not extend to the full hosted password-manager stack used by most end users.',
-        textDe: '1Password veröffentlicht Open-Source-SDK-/CLI- und Integrations-Tooling, die öffentliche Open-Source-Abdeckung reicht jedoch nicht bis zum vollständigen gehosteten Passwortmanager-Stack für die meisten Endnutzer.',
+        localizedTexts: { de: '1Password veröffentlicht Open-Source-SDK-/CLI- und Integrations-Tooling, die öffentliche Open-Source-Abdeckung reicht jedoch nicht bis zum vollständigen gehosteten Passwortmanager-Stack für die meisten Endnutzer.' },
         severity: 'moderate',
         sourceUrl: 'https://developer.1password.com/docs/open-source-apps/',
       },
       {
         id: '1password-local-integration-hijack-cve-2024-42219',
         text: '1Password disclosed CVE-2024-42219 where a malicious local process on macOS could bypass inter-process protections and impersonate trusted integrations like the browser extension or CLI.',
-        textDe: '1Password veröffentlichte CVE-2024-42219, bei dem ein lokaler Schadprozess unter macOS Inter-Process-Schutzmechanismen umgehen und vertrauenswürdige Integrationen wie Browser-Extension oder CLI imitieren konnte.',
+        localizedTexts: { de: '1Password veröffentlichte CVE-2024-42219, bei dem ein lokaler Schadprozess unter macOS Inter-Process-Schutzmechanismen umgehen und vertrauenswürdige Integrationen wie Browser-Extension oder CLI imitieren konnte.' },
         severity: 'major',
         sourceUrl: 'https://support.1password.com/kb/202408a/',
       },
       {
         id: '1password-libwebp-supply-chain-cve-2023-4863',
         text: '1Password reported impact from the 2023 libwebp/Chrome component vulnerability (CVE-2023-4863), showing inherited risk from third-party dependency chains.',
-        textDe: '1Password meldete Betroffenheit durch die libwebp-/Chrome-Komponentenlücke von 2023 (CVE-2023-4863) und zeigt damit geerbte Risiken aus Drittanbieter-Abhängigkeiten.',
+        localizedTexts: { de: '1Password meldete Betroffenheit durch die libwebp-/Chrome-Komponentenlücke von 2023 (CVE-2023-4863) und zeigt damit geerbte Risiken aus Drittanbieter-Abhängigkeiten.' },
         severity: 'moderate',
         sourceUrl: 'https://support.1password.com/kb/202309/',
       },
@@ -5617,20 +5664,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 1.6,
     description:
         'US-operated social platform with large-scale security operations and active vulnerability-reporting channels, but trust is materially reduced by repeated EU privacy enforcement, ad-surveillance monetization incentives, AI-training governance conflicts, and community lock-in risk in Facebook Groups.',
-    descriptionDe:
-        'US-Social-Plattform mit grossskaligen Security-Operations und aktiven Kanälen für Schwachstellenmeldungen; das Vertrauen sinkt jedoch deutlich durch wiederholte EU-Privacy-Durchsetzung, werbegetriebene Überwachungsanreize, Konflikte bei KI-Training und Community-Lock-in-Risiken bei Facebook Groups.',
+    localizedDescriptions: {
+      de: 'US-Social-Plattform mit grossskaligen Security-Operations und aktiven Kanälen für Schwachstellenmeldungen; das Vertrauen sinkt jedoch deutlich durch wiederholte EU-Privacy-Durchsetzung, werbegetriebene Überwachungsanreize, Konflikte bei KI-Training und Community-Lock-in-Risiken bei Facebook Groups.',
+    },
     reservations: [
       {
         id: 'meta-ad-tech-majority-revenue-model',
         text: 'Meta reports that substantially all revenue is generated from advertising, creating structural incentives that can conflict with strict privacy-first expectations for social and community products.',
-        textDe: 'Meta berichtet, dass der Umsatz im Wesentlichen aus Werbung stammt; dadurch entstehen strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Social- und Community-Produkte kollidieren können.',
+        localizedTexts: { de: 'Meta berichtet, dass der Umsatz im Wesentlichen aus Werbung stammt; dadurch entstehen strukturelle Anreize, die mit strikten Privacy-First-Erwartungen an Social- und Community-Produkte kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ix?doc=/Archives/edgar/data/1326801/000162828026003942/meta-20251231.htm',
       },
       {
         id: 'meta-gdpr-eu-us-transfer-fine-2023',
         text: 'In May 2023, Ireland\'s DPC fined Meta EUR 1.2B and ordered remediation over Facebook data transfers from the EEA to the United States.',
-        textDe: 'Im Mai 2023 verhängte die irische DPC gegen Meta eine Strafe von 1,2 Mrd. EUR und ordnete Abhilfemassnahmen wegen Facebook-Datentransfers aus dem EWR in die USA an.',
+        localizedTexts: { de: 'Im Mai 2023 verhängte die irische DPC gegen Meta eine Strafe von 1,2 Mrd. EUR und ordnete Abhilfemassnahmen wegen Facebook-Datentransfers aus dem EWR in die USA an.' },
         severity: 'major',
         date: '2023-05-22',
         sourceUrl: 'https://www.dataprotection.ie/en/news-media/press-releases/Data-Protection-Commission-announces-conclusion-of-inquiry-into-Meta-Ireland',
@@ -5638,7 +5686,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-facebook-scraping-fine-2022',
         text: 'In November 2022, Ireland\'s DPC fined Meta EUR 265M in the Facebook data-scraping inquiry and required corrective actions under GDPR Article 25.',
-        textDe: 'Im November 2022 verhängte die irische DPC im Facebook-Data-Scraping-Verfahren eine Strafe von 265 Mio. EUR gegen Meta und verlangte Korrekturmassnahmen nach DSGVO Art. 25.',
+        localizedTexts: { de: 'Im November 2022 verhängte die irische DPC im Facebook-Data-Scraping-Verfahren eine Strafe von 265 Mio. EUR gegen Meta und verlangte Korrekturmassnahmen nach DSGVO Art. 25.' },
         severity: 'major',
         date: '2022-11-28',
         sourceUrl: 'https://www.dataprotection.ie/en/news-media/press-releases/data-protection-commission-announces-decision-in-facebook-data-scraping-inquiry',
@@ -5646,7 +5694,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-view-as-breach-fine-2024',
         text: 'In December 2024, Ireland\'s DPC fined Meta EUR 251M for security failures linked to the 2018 "View As" breach affecting Facebook user data.',
-        textDe: 'Im Dezember 2024 verhängte die irische DPC gegen Meta eine Strafe von 251 Mio. EUR wegen Security-Defiziten im Zusammenhang mit dem 2018er "View As"-Breach bei Facebook-Nutzerdaten.',
+        localizedTexts: { de: 'Im Dezember 2024 verhängte die irische DPC gegen Meta eine Strafe von 251 Mio. EUR wegen Security-Defiziten im Zusammenhang mit dem 2018er "View As"-Breach bei Facebook-Nutzerdaten.' },
         severity: 'major',
         date: '2024-12-17',
         sourceUrl: 'https://www.dataprotection.ie/en/news-media/press-releases/irish-data-protection-commission-fines-meta-eu251-million',
@@ -5654,7 +5702,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-dma-pay-or-consent-preliminary-findings-2024',
         text: 'In July 2024, the European Commission sent preliminary findings that Meta\'s "pay or consent" model may breach DMA obligations for gatekeepers.',
-        textDe: 'Im Juli 2024 versandte die Europäische Kommission vorläufige Feststellungen, dass Metas "Pay or Consent"-Modell gegen DMA-Pflichten für Gatekeeper verstossen könnte.',
+        localizedTexts: { de: 'Im Juli 2024 versandte die Europäische Kommission vorläufige Feststellungen, dass Metas "Pay or Consent"-Modell gegen DMA-Pflichten für Gatekeeper verstossen könnte.' },
         severity: 'major',
         date: '2024-07-01',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-sends-preliminary-findings-meta-over-its-pay-or-consent-model-breach-digital-markets-act',
@@ -5662,7 +5710,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-dma-non-compliance-fine-2025',
         text: 'In April 2025, the European Commission found Meta in breach of the Digital Markets Act and announced a financial penalty.',
-        textDe: 'Im April 2025 stellte die Europäische Kommission einen DMA-Verstoss durch Meta fest und verhängte eine Geldbusse.',
+        localizedTexts: { de: 'Im April 2025 stellte die Europäische Kommission einen DMA-Verstoss durch Meta fest und verhängte eine Geldbusse.' },
         severity: 'major',
         date: '2025-04-23',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-finds-apple-and-meta-breach-digital-markets-act',
@@ -5670,7 +5718,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-ai-training-public-content-opt-out',
         text: 'Meta announced training AI models in Europe using public adult content and AI interactions with an objection form, reflecting an opt-out rather than opt-in baseline.',
-        textDe: 'Meta kündigte für Europa das KI-Training mit öffentlichen Inhalten Erwachsener und KI-Interaktionen inklusive Widerspruchsformular an; das entspricht einem Opt-out- statt Opt-in-Baseline-Modell.',
+        localizedTexts: { de: 'Meta kündigte für Europa das KI-Training mit öffentlichen Inhalten Erwachsener und KI-Interaktionen inklusive Widerspruchsformular an; das entspricht einem Opt-out- statt Opt-in-Baseline-Modell.' },
         severity: 'major',
         date: '2025-04-14',
         sourceUrl: 'https://about.fb.com/news/2025/04/making-ai-work-harder-for-europeans/',
@@ -5678,7 +5726,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-anpd-ai-training-suspension-2024',
         text: 'In July 2024, Brazil\'s ANPD ordered a precautionary suspension of Meta\'s personal-data processing for generative-AI training.',
-        textDe: 'Im Juli 2024 ordnete Brasiliens ANPD vorsorglich die Aussetzung der Verarbeitung personenbezogener Daten durch Meta für Generative-AI-Training an.',
+        localizedTexts: { de: 'Im Juli 2024 ordnete Brasiliens ANPD vorsorglich die Aussetzung der Verarbeitung personenbezogener Daten durch Meta für Generative-AI-Training an.' },
         severity: 'major',
         date: '2024-07-02',
         sourceUrl: 'https://www.gov.br/anpd/pt-br/assuntos/noticias/anpd-determina-suspensao-cautelar-do-tratamento-de-dados-pessoais-para-treinamento-da-ia-da-meta',
@@ -5686,21 +5734,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-dual-class-controlled-company-governance',
         text: 'Meta\'s SEC risk disclosures describe concentrated voting control and controlled-company governance structure, limiting external checks and balances.',
-        textDe: 'Metas SEC-Risikohinweise beschreiben konzentrierte Stimmrechtskontrolle und eine Controlled-Company-Governance-Struktur, was externe Checks and Balances einschränkt.',
+        localizedTexts: { de: 'Metas SEC-Risikohinweise beschreiben konzentrierte Stimmrechtskontrolle und eine Controlled-Company-Governance-Struktur, was externe Checks and Balances einschränkt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/ix?doc=/Archives/edgar/data/1326801/000162828026003942/meta-20251231.htm',
       },
       {
         id: 'meta-groups-data-export-limited-migration',
         text: 'Facebook provides account data export tooling, but that does not provide a full migration path for group-community context, keeping lock-in risk high.',
-        textDe: 'Facebook bietet Exportfunktionen für Account-Daten, liefert damit jedoch keinen vollständigen Migrationspfad für Gruppen-Community-Kontext; das Lock-in-Risiko bleibt hoch.',
+        localizedTexts: { de: 'Facebook bietet Exportfunktionen für Account-Daten, liefert damit jedoch keinen vollständigen Migrationspfad für Gruppen-Community-Kontext; das Lock-in-Risiko bleibt hoch.' },
         severity: 'moderate',
         sourceUrl: 'https://www.facebook.com/help/212802592074644',
       },
       {
         id: 'meta-groups-community-chats-shutdown-2025',
         text: 'Facebook Help states that Community Chats in Groups were removed, showing feature-volatility risk for communities dependent on platform-native workflows.',
-        textDe: 'Die Facebook-Hilfe nennt, dass Community Chats in Gruppen entfernt wurden; das zeigt Feature-Volatilitätsrisiken für Communities, die von plattformeigenen Workflows abhängen.',
+        localizedTexts: { de: 'Die Facebook-Hilfe nennt, dass Community Chats in Gruppen entfernt wurden; das zeigt Feature-Volatilitätsrisiken für Communities, die von plattformeigenen Workflows abhängen.' },
         severity: 'moderate',
         date: '2025-10-05',
         sourceUrl: 'https://www.facebook.com/help/102988787046086',
@@ -5708,21 +5756,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-network-effect-lock-in-community-signal',
         text: 'Community discussions repeatedly report that local groups remain heavily dependent on Facebook, highlighting network-effect lock-in risk.',
-        textDe: 'Community-Diskussionen berichten wiederholt, dass lokale Gruppen weiterhin stark von Facebook abhängen; das unterstreicht Lock-in-Risiken durch Netzwerkeffekte.',
+        localizedTexts: { de: 'Community-Diskussionen berichten wiederholt, dass lokale Gruppen weiterhin stark von Facebook abhängen; das unterstreicht Lock-in-Risiken durch Netzwerkeffekte.' },
         severity: 'minor',
         sourceUrl: 'https://news.ycombinator.com/item?id=34618706',
       },
       {
         id: 'meta-terms-broad-content-license-and-ad-use',
         text: 'Facebook Terms grant Meta a broad, transferable, sublicensable, worldwide license over user content and allow use of user identity context in connection with ads.',
-        textDe: 'Die Facebook-Nutzungsbedingungen gewährleisten Meta eine breite, übertragbare, unterlizenzierbare, weltweite Lizenz an Nutzerinhalten und erlauben die Nutzung von Nutzeridentitätskontext im Zusammenhang mit Werbung.',
+        localizedTexts: { de: 'Die Facebook-Nutzungsbedingungen gewährleisten Meta eine breite, übertragbare, unterlizenzierbare, weltweite Lizenz an Nutzerinhalten und erlauben die Nutzung von Nutzeridentitätskontext im Zusammenhang mit Werbung.' },
         severity: 'major',
         sourceUrl: 'https://www.facebook.com/legal/terms',
       },
       {
         id: 'meta-osi-llama-open-washing-2025',
         text: 'In February 2025, the Open Source Initiative stated that Meta\'s Llama license is still not open source, signaling licensing-transparency friction in Meta\'s open narrative.',
-        textDe: 'Im Februar 2025 stellte die Open Source Initiative fest, dass Metas Llama-Lizenz weiterhin nicht Open Source ist; das signalisiert Reibung bei Lizenztransparenz in Metas Open-Narrativ.',
+        localizedTexts: { de: 'Im Februar 2025 stellte die Open Source Initiative fest, dass Metas Llama-Lizenz weiterhin nicht Open Source ist; das signalisiert Reibung bei Lizenztransparenz in Metas Open-Narrativ.' },
         severity: 'moderate',
         date: '2025-02-18',
         sourceUrl: 'https://opensource.org/blog/metas-llama-license-is-still-not-open-source',
@@ -5730,7 +5778,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-scam-investment-ad-enforcement-pressure-2025',
         text: 'In June 2025, California\'s Attorney General urged immediate Meta action against investment scam ads, reinforcing platform fraud-enforcement concerns.',
-        textDe: 'Im Juni 2025 forderte der kalifornische Attorney General sofortige Massnahmen von Meta gegen Investment-Scam-Werbung und verstärkte damit Bedenken zur Fraud-Durchsetzung auf der Plattform.',
+        localizedTexts: { de: 'Im Juni 2025 forderte der kalifornische Attorney General sofortige Massnahmen von Meta gegen Investment-Scam-Werbung und verstärkte damit Bedenken zur Fraud-Durchsetzung auf der Plattform.' },
         severity: 'moderate',
         date: '2025-06-11',
         sourceUrl: 'https://oag.ca.gov/news/press-releases/attorney-general-bonta-urges-immediate-action-meta-prevent-investment-scam',
@@ -5738,7 +5786,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-platform-outage-march-2024',
         text: 'AP reported a widespread Meta platform outage in March 2024 affecting Facebook, Instagram, Threads, and Messenger logins.',
-        textDe: 'AP berichtete im März 2024 über einen weitreichenden Ausfall von Meta-Plattformen mit Beeinträchtigungen bei Logins von Facebook, Instagram, Threads und Messenger.',
+        localizedTexts: { de: 'AP berichtete im März 2024 über einen weitreichenden Ausfall von Meta-Plattformen mit Beeinträchtigungen bei Logins von Facebook, Instagram, Threads und Messenger.' },
         severity: 'moderate',
         date: '2024-03-05',
         sourceUrl: 'https://apnews.com/article/974886228759761c2c3c28f2e984a2d6',
@@ -5746,7 +5794,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-platform-outage-december-2024',
         text: 'TechCrunch reported another global Meta apps outage in December 2024, indicating recurring reliability risk for community-dependent workflows.',
-        textDe: 'TechCrunch berichtete im Dezember 2024 über einen weiteren globalen Ausfall von Meta-Apps und signalisiert wiederkehrende Zuverlässigkeitsrisiken für community-abhängige Workflows.',
+        localizedTexts: { de: 'TechCrunch berichtete im Dezember 2024 über einen weiteren globalen Ausfall von Meta-Apps und signalisiert wiederkehrende Zuverlässigkeitsrisiken für community-abhängige Workflows.' },
         severity: 'moderate',
         date: '2024-12-11',
         sourceUrl: 'https://techcrunch.com/2024/12/11/meta-apps-experience-global-outage/',
@@ -5754,7 +5802,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-child-safety-trial-risk-2026',
         text: 'AP reported in February 2026 that Meta was on trial in New Mexico over allegations that its platforms enable child sexual exploitation; Meta denied the allegations.',
-        textDe: 'AP berichtete im Februar 2026, dass Meta in New Mexico wegen Vorwürfen vor Gericht stand, seine Plattformen ermöglichten sexuelle Ausbeutung von Kindern; Meta wies die Vorwürfe zurück.',
+        localizedTexts: { de: 'AP berichtete im Februar 2026, dass Meta in New Mexico wegen Vorwürfen vor Gericht stand, seine Plattformen ermöglichten sexuelle Ausbeutung von Kindern; Meta wies die Vorwürfe zurück.' },
         severity: 'moderate',
         date: '2026-02-09',
         sourceUrl: 'https://apnews.com/article/19195fc680dba782fb971d68082e11a4',
@@ -5762,7 +5810,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'meta-create-react-app-maintenance-friction-signal',
         text: 'The public create-react-app issue queue continues to show a visible needs-triage backlog, a minor but persistent maintenance-transparency signal in Meta\'s OSS interface.',
-        textDe: 'Die öffentliche Issue-Queue von create-react-app zeigt weiterhin einen sichtbaren Needs-Triage-Backlog, ein kleines aber beständiges Signal für Maintenance-Transparenz-Reibung an Metas OSS-Schnittstelle.',
+        localizedTexts: { de: 'Die öffentliche Issue-Queue von create-react-app zeigt weiterhin einen sichtbaren Needs-Triage-Backlog, ein kleines aber beständiges Signal für Maintenance-Transparenz-Reibung an Metas OSS-Schnittstelle.' },
         severity: 'minor',
         sourceUrl: 'https://github.com/facebook/create-react-app/issues?q=is%3Aissue%20state%3Aopen%20label%3A%22needs%20triage%22',
       },
@@ -5772,13 +5820,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.8,
     description:
         'US-operated password manager with meaningful security engineering and export pathways, but trust is reduced by a confirmed 2025 CRM breach, broad US subprocessor exposure, source-available licensing limits, and contract-accountability friction.',
-    descriptionDe:
-        'US-Passwortmanager mit solider Security-Engineering-Basis und dokumentierten Exportpfaden; das Vertrauen sinkt jedoch durch einen bestätigten CRM-Breach 2025, breite US-Subprocessor-Abhängigkeiten, source-available Lizenzgrenzen und vertragliche Accountability-Reibung.',
+    localizedDescriptions: {
+      de: 'US-Passwortmanager mit solider Security-Engineering-Basis und dokumentierten Exportpfaden; das Vertrauen sinkt jedoch durch einen bestätigten CRM-Breach 2025, breite US-Subprocessor-Abhängigkeiten, source-available Lizenzgrenzen und vertragliche Accountability-Reibung.',
+    },
     reservations: [
       {
         id: 'dashlane-crm-incident-salesforce-drift-2025',
         text: 'Dashlane disclosed an August 2025 incident where a threat actor accessed a third-party Salesforce CRM integration (Drift), exposing a small subset of business-customer contact data.',
-        textDe: 'Dashlane legte einen Vorfall vom August 2025 offen, bei dem ein Angreifer über eine Drittanbieter-Salesforce-CRM-Integration (Drift) auf einen kleinen Teil von Business-Kundenkontaktdaten zugriff.',
+        localizedTexts: { de: 'Dashlane legte einen Vorfall vom August 2025 offen, bei dem ein Angreifer über eine Drittanbieter-Salesforce-CRM-Integration (Drift) auf einen kleinen Teil von Business-Kundenkontaktdaten zugriff.' },
         severity: 'major',
         date: '2025-08-27',
         sourceUrl: 'https://support.dashlane.com/hc/en-us/articles/29059120844306-Security-advisory-Incident-impacting-business-customer-data-in-third-party-CRM-system',
@@ -5786,7 +5835,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dashlane-salesloft-drift-supply-chain-campaign-2025',
         text: 'Google threat-intelligence reporting tied the same Salesloft Drift OAuth compromise to a wider multi-organization campaign, reinforcing third-party integration and supply-chain risk.',
-        textDe: 'Das Threat-Intelligence-Reporting von Google ordnete denselben Salesloft-Drift-OAuth-Kompromittierungsweg einer breiteren Multi-Organisationen-Kampagne zu und verstärkt damit Integrations- und Supply-Chain-Risiken.',
+        localizedTexts: { de: 'Das Threat-Intelligence-Reporting von Google ordnete denselben Salesloft-Drift-OAuth-Kompromittierungsweg einer breiteren Multi-Organisationen-Kampagne zu und verstärkt damit Integrations- und Supply-Chain-Risiken.' },
         severity: 'major',
         date: '2025-08-26',
         sourceUrl: 'https://cloud.google.com/blog/topics/threat-intelligence/data-theft-salesforce-instances-via-salesloft-drift',
@@ -5794,49 +5843,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dashlane-us-heavy-subprocessor-footprint',
         text: 'Dashlane\'s subprocessor list includes many US-based vendors across CRM, support, analytics, and billing functions, increasing transfer and dependency exposure for strict sovereignty requirements.',
-        textDe: 'Die Dashlane-Subprocessor-Liste enthält viele US-basierte Anbieter für CRM, Support, Analytics und Billing, was Transfer- und Abhängigkeitsrisiken bei strengen Souveränitätsanforderungen erhöht.',
+        localizedTexts: { de: 'Die Dashlane-Subprocessor-Liste enthält viele US-basierte Anbieter für CRM, Support, Analytics und Billing, was Transfer- und Abhängigkeitsrisiken bei strengen Souveränitätsanforderungen erhöht.' },
         severity: 'major',
         sourceUrl: 'https://www.dashlane.com/privacy/subprocessors',
       },
       {
         id: 'dashlane-website-ad-interaction-data-collection',
         text: 'Dashlane\'s privacy policy says it collects website-interaction and ad-attribution data, including visited pages and which ads were seen before visiting Dashlane.',
-        textDe: 'Die Dashlane-Datenschutzerklärung nennt die Erhebung von Website-Interaktions- und Ad-Attributionsdaten, einschliesslich besuchter Seiten und zuvor gesehener Anzeigen.',
+        localizedTexts: { de: 'Die Dashlane-Datenschutzerklärung nennt die Erhebung von Website-Interaktions- und Ad-Attributionsdaten, einschliesslich besuchter Seiten und zuvor gesehener Anzeigen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/privacy',
       },
       {
         id: 'dashlane-ip-retention-b2b-up-to-one-year',
         text: 'Dashlane states it retains access-IP activity for up to 45 days for consumer users and up to one year for B2B users.',
-        textDe: 'Dashlane gibt an, Access-IP-Aktivitäten für Consumer-Nutzer bis zu 45 Tage und für B2B-Nutzer bis zu ein Jahr zu speichern.',
+        localizedTexts: { de: 'Dashlane gibt an, Access-IP-Aktivitäten für Consumer-Nutzer bis zu 45 Tage und für B2B-Nutzer bis zu ein Jahr zu speichern.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/privacy',
       },
       {
         id: 'dashlane-mobile-code-by-nc-license-limits',
         text: 'Dashlane published iOS and Android source code under Creative Commons BY-NC 4.0 and stated it was not yet accepting external contributions, limiting open-source governance and commercial forkability.',
-        textDe: 'Dashlane veröffentlichte iOS- und Android-Quellcode unter Creative Commons BY-NC 4.0 und gab an, noch keine externen Beiträge anzunehmen, was Open-Source-Governance und kommerzielle Forkbarkeit einschränkt.',
+        localizedTexts: { de: 'Dashlane veröffentlichte iOS- und Android-Quellcode unter Creative Commons BY-NC 4.0 und gab an, noch keine externen Beiträge anzunehmen, was Open-Source-Governance und kommerzielle Forkbarkeit einschränkt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/blog/mobile-code-now-publicly-available',
       },
       {
         id: 'dashlane-arbitration-and-class-action-waiver',
         text: 'Dashlane terms require arbitration for many disputes and include class-action waiver language where legally allowed, reducing default court-based accountability paths.',
-        textDe: 'Die Dashlane-Bedingungen verlangen für viele Streitfälle Arbitration und enthalten, soweit rechtlich zulässig, Class-Action-Waiver-Klauseln, was standardmässige gerichtliche Accountability-Pfade reduziert.',
+        localizedTexts: { de: 'Die Dashlane-Bedingungen verlangen für viele Streitfälle Arbitration und enthalten, soweit rechtlich zulässig, Class-Action-Waiver-Klauseln, was standardmässige gerichtliche Accountability-Pfade reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/terms',
       },
       {
         id: 'dashlane-auto-renewal-and-refund-friction',
         text: 'Subscriptions auto-renew by default and terms state no pro-rata refund on cancellation of the current term, adding practical contract-exit friction.',
-        textDe: 'Abonnements verlängern sich standardmässig automatisch und die Bedingungen nennen bei Kündigung der laufenden Laufzeit keine pro-rata Rückerstattung, was praktische Vertragsausstiegs-Reibung erzeugt.',
+        localizedTexts: { de: 'Abonnements verlängern sich standardmässig automatisch und die Bedingungen nennen bei Kündigung der laufenden Laufzeit keine pro-rata Rückerstattung, was praktische Vertragsausstiegs-Reibung erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/terms',
       },
       {
         id: 'dashlane-free-plan-discontinued-2025',
         text: 'Dashlane announced the free-plan end on September 16, 2025, with post-trial access limited to export actions, increasing pricing-volatility and migration-pressure risk.',
-        textDe: 'Dashlane kündigte das Ende des Free-Plans zum 16. September 2025 an; nach Ablauf ist der Zugriff auf Exportfunktionen begrenzt, was Preisvolatilitäts- und Migrationsdruck-Risiken erhöht.',
+        localizedTexts: { de: 'Dashlane kündigte das Ende des Free-Plans zum 16. September 2025 an; nach Ablauf ist der Zugriff auf Exportfunktionen begrenzt, was Preisvolatilitäts- und Migrationsdruck-Risiken erhöht.' },
         severity: 'moderate',
         date: '2025-08-05',
         sourceUrl: 'https://www.dashlane.com/blog/dashlane-free-ending',
@@ -5844,42 +5893,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dashlane-support-and-billing-friction-signals',
         text: 'Public review patterns include recurring complaints about support response times and billing handling, indicating customer-trust friction beyond core cryptography claims.',
-        textDe: 'Öffentliche Review-Muster enthalten wiederkehrende Beschwerden zu Support-Reaktionszeiten und Billing-Handling, was über reine Kryptografie-Claims hinaus Customer-Trust-Reibung zeigt.',
+        localizedTexts: { de: 'Öffentliche Review-Muster enthalten wiederkehrende Beschwerden zu Support-Reaktionszeiten und Billing-Handling, was über reine Kryptografie-Claims hinaus Customer-Trust-Reibung zeigt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.trustpilot.com/review/dashlane.com',
       },
       {
         id: 'dashlane-hashed-identifiers-for-ad-targeting',
         text: 'Dashlane\'s privacy policy says hashed emails and/or device IDs are shared with service providers to optimize advertising efforts, indicating marketing-linked identifier sharing.',
-        textDe: 'Die Dashlane-Datenschutzerklärung nennt die Weitergabe gehashter E-Mails und/oder Device-IDs an Dienstleister zur Optimierung von Werbemassnahmen und zeigt damit marketingbezogenes Identifier-Sharing.',
+        localizedTexts: { de: 'Die Dashlane-Datenschutzerklärung nennt die Weitergabe gehashter E-Mails und/oder Device-IDs an Dienstleister zur Optimierung von Werbemassnahmen und zeigt damit marketingbezogenes Identifier-Sharing.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/privacy',
       },
       {
         id: 'dashlane-b2b-admin-visibility-of-user-activity-signals',
         text: 'Dashlane states B2B admins can access certain individual usage signals such as stored business-space sites/services and compromised-credential status.',
-        textDe: 'Dashlane gibt an, dass B2B-Admins auf bestimmte individuelle Nutzungssignale zugreifen können, etwa gespeicherte Sites/Services im Business-Space und den Status kompromittierter Zugangsdaten.',
+        localizedTexts: { de: 'Dashlane gibt an, dass B2B-Admins auf bestimmte individuelle Nutzungssignale zugreifen können, etwa gespeicherte Sites/Services im Business-Space und den Status kompromittierter Zugangsdaten.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/privacy',
       },
       {
         id: 'dashlane-aggregated-usage-data-owned-by-vendor',
         text: 'Dashlane\'s privacy policy says aggregated usage data is owned by Dashlane, which can conflict with stricter data-minimization expectations.',
-        textDe: 'Die Dashlane-Datenschutzerklärung nennt aggregierte Nutzungsdaten als Eigentum von Dashlane, was mit strengeren Data-Minimization-Erwartungen kollidieren kann.',
+        localizedTexts: { de: 'Die Dashlane-Datenschutzerklärung nennt aggregierte Nutzungsdaten als Eigentum von Dashlane, was mit strengeren Data-Minimization-Erwartungen kollidieren kann.' },
         severity: 'minor',
         sourceUrl: 'https://www.dashlane.com/privacy',
       },
       {
         id: 'dashlane-cloudfront-global-delivery-path',
         text: 'Dashlane\'s subprocessor list says Amazon CloudFront delivers secured data globally based on user location, adding cross-border delivery-path complexity for strict residency programs.',
-        textDe: 'Die Dashlane-Subprocessor-Liste nennt Amazon CloudFront für die globale Auslieferung gesicherter Daten je nach Nutzerstandort, was die grenzüberschreitende Delivery-Pfad-Komplexität bei strengen Residency-Programmen erhöht.',
+        localizedTexts: { de: 'Die Dashlane-Subprocessor-Liste nennt Amazon CloudFront für die globale Auslieferung gesicherter Daten je nach Nutzerstandort, was die grenzüberschreitende Delivery-Pfad-Komplexität bei strengen Residency-Programmen erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dashlane.com/privacy/subprocessors',
       },
       {
         id: 'dashlane-android-legacy-code-migration-signal',
         text: 'Dashlane\'s public Android repository documents legacy Java components and an ongoing MVP-to-MVVM migration, indicating long-lived client-code technical debt.',
-        textDe: 'Das öffentliche Android-Repository von Dashlane dokumentiert Legacy-Java-Komponenten und eine laufende MVP-zu-MVVM-Migration, was auf langlebige Technical-Debt im Client-Code hinweist.',
+        localizedTexts: { de: 'Das öffentliche Android-Repository von Dashlane dokumentiert Legacy-Java-Komponenten und eine laufende MVP-zu-MVVM-Migration, was auf langlebige Technical-Debt im Client-Code hinweist.' },
         severity: 'minor',
         sourceUrl: 'https://github.com/Dashlane/android-apps',
       },
@@ -5889,20 +5938,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.3,
     description:
         'US-operated authenticator app with broad adoption and active maintenance, but trust is reduced by an exploited 2024 Authy API enumeration flaw, the 2022 Twilio social-engineering incident affecting a limited set of Authy accounts, closed-source architecture, and significant migration/export friction.',
-    descriptionDe:
-        'US-Authenticator-App mit breiter Verbreitung und aktiver Wartung; das Vertrauen sinkt jedoch durch eine ausgenutzte Authy-API-Enumeration im Jahr 2024, den Twilio-Social-Engineering-Vorfall 2022 mit betroffenen Authy-Accounts, die Closed-Source-Architektur und deutliche Migrations-/Export-Reibung.',
+    localizedDescriptions: {
+      de: 'US-Authenticator-App mit breiter Verbreitung und aktiver Wartung; das Vertrauen sinkt jedoch durch eine ausgenutzte Authy-API-Enumeration im Jahr 2024, den Twilio-Social-Engineering-Vorfall 2022 mit betroffenen Authy-Accounts, die Closed-Source-Architektur und deutliche Migrations-/Export-Reibung.',
+    },
     reservations: [
       {
         id: 'authy-us-legal-process-exposure',
         text: 'As a US-operated service, Authy is subject to US legal-process disclosure frameworks, so regional data-location preferences alone do not remove jurisdictional access risk.',
-        textDe: 'Als US-betriebener Dienst unterliegt Authy US-Rechtszugriffsrahmen; reine regionale Datenlokation entfernt das Jurisdiktionsrisiko daher nicht allein.',
+        localizedTexts: { de: 'Als US-betriebener Dienst unterliegt Authy US-Rechtszugriffsrahmen; reine regionale Datenlokation entfernt das Jurisdiktionsrisiko daher nicht allein.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'authy-cve-2024-39891-exploited-enumeration',
         text: 'NVD lists CVE-2024-39891 as an Authy API information-disclosure issue where an unauthenticated endpoint could confirm whether phone numbers were registered, and exploitation in the wild was reported.',
-        textDe: 'Die NVD listet CVE-2024-39891 als Authy-API-Informationsleck, bei dem ein nicht authentifizierter Endpoint bestaetigen konnte, ob Telefonnummern registriert sind; zudem wurde eine Ausnutzung in freier Wildbahn gemeldet.',
+        localizedTexts: { de: 'Die NVD listet CVE-2024-39891 als Authy-API-Informationsleck, bei dem ein nicht authentifizierter Endpoint bestaetigen konnte, ob Telefonnummern registriert sind; zudem wurde eine Ausnutzung in freier Wildbahn gemeldet.' },
         severity: 'major',
         date: '2024-07-01',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2024-39891',
@@ -5910,7 +5960,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-cve-2024-39891-cisa-kev',
         text: 'CISA\'s KEV catalog includes CVE-2024-39891 for Authy, reinforcing that the vulnerability was treated as actively exploited and requiring urgent mitigation.',
-        textDe: 'Der CISA-KEV-Katalog fuehrt CVE-2024-39891 fuer Authy, was die Einstufung als aktiv ausgenutzte Schwachstelle mit dringendem Handlungsbedarf unterstreicht.',
+        localizedTexts: { de: 'Der CISA-KEV-Katalog fuehrt CVE-2024-39891 fuer Authy, was die Einstufung als aktiv ausgenutzte Schwachstelle mit dringendem Handlungsbedarf unterstreicht.' },
         severity: 'major',
         date: '2024-07-23',
         sourceUrl: 'https://www.cisa.gov/sites/default/files/csv/known_exploited_vulnerabilities.csv',
@@ -5918,7 +5968,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-security-alert-update-required-2024',
         text: 'Twilio published a security alert in July 2024 requesting all Authy users update Android/iOS apps after threat actors identified account-associated data through an unauthenticated endpoint.',
-        textDe: 'Twilio veroeffentlichte im Juli 2024 einen Security Alert und forderte alle Authy-Nutzer zu App-Updates auf, nachdem Angreifer ueber einen unauthentifizierten Endpoint accountbezogene Daten identifizieren konnten.',
+        localizedTexts: { de: 'Twilio veroeffentlichte im Juli 2024 einen Security Alert und forderte alle Authy-Nutzer zu App-Updates auf, nachdem Angreifer ueber einen unauthentifizierten Endpoint accountbezogene Daten identifizieren konnten.' },
         severity: 'major',
         date: '2024-07-01',
         sourceUrl: 'https://www.twilio.com/en-us/changelog/Security_Alert_Authy_App_Android_iOS',
@@ -5926,7 +5976,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-twilio-social-engineering-incident-2022',
         text: 'Twilio disclosed in August 2022 that a social-engineering campaign against employees led to unauthorized access to internal systems and affected downstream customers.',
-        textDe: 'Twilio legte im August 2022 offen, dass eine Social-Engineering-Kampagne gegen Mitarbeiter zu unautorisiertem Zugriff auf interne Systeme fuehrte und nachgelagerte Kunden betraf.',
+        localizedTexts: { de: 'Twilio legte im August 2022 offen, dass eine Social-Engineering-Kampagne gegen Mitarbeiter zu unautorisiertem Zugriff auf interne Systeme fuehrte und nachgelagerte Kunden betraf.' },
         severity: 'major',
         date: '2022-08-07',
         sourceUrl: 'https://www.twilio.com/en-us/blog/archive/2022/august-2022-social-engineering-attack',
@@ -5934,7 +5984,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-limited-account-compromise-follow-on-2022',
         text: 'Reporting after the 2022 Twilio incident stated that a limited set of Authy accounts had unauthorized device registrations, highlighting real-world account-abuse impact.',
-        textDe: 'Berichte nach dem Twilio-Vorfall 2022 nannten fuer eine begrenzte Zahl von Authy-Accounts unautorisierte Geraeteregistrierungen und zeigen damit reale Account-Missbrauchsauswirkungen.',
+        localizedTexts: { de: 'Berichte nach dem Twilio-Vorfall 2022 nannten fuer eine begrenzte Zahl von Authy-Accounts unautorisierte Geraeteregistrierungen und zeigen damit reale Account-Missbrauchsauswirkungen.' },
         severity: 'major',
         date: '2022-08-26',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/twilio-hack-allowed-threat-actors-to-access-93-authy-user-accounts/',
@@ -5942,35 +5992,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-no-self-service-token-export-path',
         text: 'Twilio\'s Authy export documentation exposes migration endpoints for Authy API customers, but does not provide a general self-service token-export flow for everyday Authy app users.',
-        textDe: 'Twilios Authy-Exportdokumentation stellt Migrationsendpunkte fuer Authy-API-Kunden bereit, bietet jedoch keinen allgemeinen Self-Service-Token-Exportpfad fuer normale Authy-App-Nutzer.',
+        localizedTexts: { de: 'Twilios Authy-Exportdokumentation stellt Migrationsendpunkte fuer Authy-API-Kunden bereit, bietet jedoch keinen allgemeinen Self-Service-Token-Exportpfad fuer normale Authy-App-Nutzer.' },
         severity: 'major',
         sourceUrl: 'https://www.twilio.com/docs/authy/export-totp-secret-seed-for-migrating-to-verify-totp.md',
       },
       {
         id: 'authy-export-apis-gated-and-disabled-by-default',
         text: 'Authy migration export APIs are documented as restricted to migration scenarios and disabled by default unless support grants access.',
-        textDe: 'Die Authy-Migrations-Export-APIs sind laut Dokumentation auf Migrationsszenarien beschraenkt und standardmaessig deaktiviert, bis der Support Zugriff freischaltet.',
+        localizedTexts: { de: 'Die Authy-Migrations-Export-APIs sind laut Dokumentation auf Migrationsszenarien beschraenkt und standardmaessig deaktiviert, bis der Support Zugriff freischaltet.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twilio.com/docs/authy/export-api-for-authy-user-phone-numbers.md',
       },
       {
         id: 'authy-api-closed-new-customers-future-deprecation',
         text: 'Twilio documentation states the Authy API is closed to new customers and will be fully deprecated in the future, increasing long-term migration and continuity risk.',
-        textDe: 'Die Twilio-Dokumentation nennt, dass die Authy-API fuer Neukunden geschlossen ist und kuenftig vollstaendig abgeloest wird; das erhoeht langfristige Migrations- und Kontinuitaetsrisiken.',
+        localizedTexts: { de: 'Die Twilio-Dokumentation nennt, dass die Authy-API fuer Neukunden geschlossen ist und kuenftig vollstaendig abgeloest wird; das erhoeht langfristige Migrations- und Kontinuitaetsrisiken.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twilio.com/docs/authy/export-api-for-authy-user-phone-numbers.md',
       },
       {
         id: 'authy-migration-export-rate-limit-and-disabled-errors',
         text: 'Even where migration export tooling exists, docs show restrictive limits (for example 3 exports per user per month) and dedicated disabled-tool error codes, adding operational friction to large migrations.',
-        textDe: 'Selbst dort, wo Migrations-Export-Tooling existiert, zeigen die Docs restriktive Grenzen (z. B. 3 Exporte pro Nutzer und Monat) sowie spezielle Fehlercodes bei deaktivierten Tools; das erhoeht die operative Reibung bei groesseren Migrationen.',
+        localizedTexts: { de: 'Selbst dort, wo Migrations-Export-Tooling existiert, zeigen die Docs restriktive Grenzen (z. B. 3 Exporte pro Nutzer und Monat) sowie spezielle Fehlercodes bei deaktivierten Tools; das erhoeht die operative Reibung bei groesseren Migrationen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twilio.com/docs/authy/export-totp-secret-seed-for-migrating-to-verify-totp.md',
       },
       {
         id: 'authy-desktop-app-eol-2024',
         text: 'Twilio announced end-of-life for the Authy desktop app in 2024, reducing platform redundancy and increasing mobile-device dependency for recovery workflows.',
-        textDe: 'Twilio kuendigte 2024 das End-of-Life der Authy-Desktop-App an; das reduziert Plattform-Redundanz und erhoeht die Abhaengigkeit von Mobilgeraeten bei Recovery-Workflows.',
+        localizedTexts: { de: 'Twilio kuendigte 2024 das End-of-Life der Authy-Desktop-App an; das reduziert Plattform-Redundanz und erhoeht die Abhaengigkeit von Mobilgeraeten bei Recovery-Workflows.' },
         severity: 'moderate',
         date: '2024-03-19',
         sourceUrl: 'https://help.twilio.com/articles/19753631228315-Notice-of-End-of-Life-EOL-for-Twilio-Authy-Desktop-app',
@@ -5978,7 +6028,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-fraud-prevention-telemetry-third-parties-2025',
         text: 'Authy App Terms (effective July 2025) disclose additional fraud-prevention telemetry (device ID, keystroke cadence, device/root/VPN status, enhanced location signals) and potential third-party processing via SardineAI and FingerprintJS.',
-        textDe: 'Die Authy-App-AGB (gueltig seit Juli 2025) nennen zusaetzliche Fraud-Praeventions-Telemetrie (Device ID, Keystroke Cadence, Device-/Root-/VPN-Status, erweiterte Standortsignale) sowie moegliche Drittverarbeitung ueber SardineAI und FingerprintJS.',
+        localizedTexts: { de: 'Die Authy-App-AGB (gueltig seit Juli 2025) nennen zusaetzliche Fraud-Praeventions-Telemetrie (Device ID, Keystroke Cadence, Device-/Root-/VPN-Status, erweiterte Standortsignale) sowie moegliche Drittverarbeitung ueber SardineAI und FingerprintJS.' },
         severity: 'moderate',
         date: '2025-07-10',
         sourceUrl: 'https://www.twilio.com/en-us/legal/authy-app-terms',
@@ -5986,35 +6036,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-terms-allow-discontinuation-and-termination',
         text: 'Authy App Terms state Twilio may discontinue app features/support at any time and may suspend or terminate terms immediately in specified risk scenarios.',
-        textDe: 'Die Authy-App-AGB nennen, dass Twilio Features/Support jederzeit einstellen kann und die Bedingungen in bestimmten Risikoszenarien sofort aussetzen oder beenden darf.',
+        localizedTexts: { de: 'Die Authy-App-AGB nennen, dass Twilio Features/Support jederzeit einstellen kann und die Bedingungen in bestimmten Risikoszenarien sofort aussetzen oder beenden darf.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twilio.com/en-us/legal/authy-app-terms',
       },
       {
         id: 'authy-open-source-scope-limited-to-legacy-sdks',
         text: 'Public Authy SDK artifacts are legacy and marked as no longer actively maintained, while the consumer Authy app itself remains closed-source.',
-        textDe: 'Oeffentliche Authy-SDK-Artefakte sind Legacy und als nicht mehr aktiv gepflegt gekennzeichnet, waehrend die eigentliche Consumer-Authy-App Closed Source bleibt.',
+        localizedTexts: { de: 'Oeffentliche Authy-SDK-Artefakte sind Legacy und als nicht mehr aktiv gepflegt gekennzeichnet, waehrend die eigentliche Consumer-Authy-App Closed Source bleibt.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/twilio/authy-php/blob/master/README.md',
       },
       {
         id: 'authy-python-sdk-also-deprecated-and-unmaintained',
         text: 'Twilio\'s Python Authy SDK README likewise states the library is no longer actively maintained and points users to Verify, reinforcing product-sunset direction.',
-        textDe: 'Auch das README des Python-Authy-SDK von Twilio nennt die Bibliothek als nicht mehr aktiv gepflegt und verweist auf Verify, was die Produkt-Sunset-Richtung zusaetzlich bestaerkt.',
+        localizedTexts: { de: 'Auch das README des Python-Authy-SDK von Twilio nennt die Bibliothek als nicht mehr aktiv gepflegt und verweist auf Verify, was die Produkt-Sunset-Richtung zusaetzlich bestaerkt.' },
         severity: 'moderate',
         sourceUrl: 'https://github.com/twilio/authy-python/blob/master/README.md',
       },
       {
         id: 'authy-certification-scope-not-product-wide',
         text: 'Twilio\'s security page notes listed credentials do not apply to every product across Twilio/Segment/SendGrid, limiting direct assurance transfer for Authy-specific guarantees.',
-        textDe: 'Die Twilio-Sicherheitsseite nennt, dass gelistete Zertifizierungen nicht fuer jedes Produkt ueber Twilio/Segment/SendGrid gelten; dadurch ist die direkte Uebertragbarkeit auf Authy begrenzt.',
+        localizedTexts: { de: 'Die Twilio-Sicherheitsseite nennt, dass gelistete Zertifizierungen nicht fuer jedes Produkt ueber Twilio/Segment/SendGrid gelten; dadurch ist die direkte Uebertragbarkeit auf Authy begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.twilio.com/en-us/security',
       },
       {
         id: 'authy-fcc-cease-and-desist-governance-signal-2023',
         text: 'Twilio\'s SEC filing discloses receipt of an FCC cease-and-desist letter in January 2023 over apparently illegal robocall traffic on a customer account, which is a governance/compliance risk signal at the operator level.',
-        textDe: 'Die SEC-Einreichung von Twilio nennt den Erhalt eines FCC-Cease-and-Desist-Schreibens im Januar 2023 wegen offenbar illegalem Robocall-Traffic auf einem Kundenkonto; das ist ein Governance-/Compliance-Risikosignal auf Betreiber-Ebene.',
+        localizedTexts: { de: 'Die SEC-Einreichung von Twilio nennt den Erhalt eines FCC-Cease-and-Desist-Schreibens im Januar 2023 wegen offenbar illegalem Robocall-Traffic auf einem Kundenkonto; das ist ein Governance-/Compliance-Risikosignal auf Betreiber-Ebene.' },
         severity: 'moderate',
         date: '2023-01-25',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1447669/000144766924000074/twlo-20240331.htm',
@@ -6022,7 +6072,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-operator-restructuring-layoffs-2023',
         text: 'Twilio announced a major restructuring in 2023 and said it was parting ways with approximately 17% of staff, a potential continuity and execution risk signal.',
-        textDe: 'Twilio kuendigte 2023 eine grosse Restrukturierung an und erklaerte, sich von rund 17 % der Mitarbeitenden zu trennen; das ist ein moegliches Kontinuitaets- und Ausfuehrungsrisiko-Signal.',
+        localizedTexts: { de: 'Twilio kuendigte 2023 eine grosse Restrukturierung an und erklaerte, sich von rund 17 % der Mitarbeitenden zu trennen; das ist ein moegliches Kontinuitaets- und Ausfuehrungsrisiko-Signal.' },
         severity: 'minor',
         date: '2023-02-13',
         sourceUrl: 'https://www.twilio.com/en-us/blog/company/news/restructuring-twilio',
@@ -6030,7 +6080,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'authy-us-cross-border-processing',
         text: 'Twilio\'s privacy notice states personal data may be transferred to and processed in the United States and other jurisdictions, which can be a sovereignty concern for strict EU-only deployments.',
-        textDe: 'Twilios Privacy Notice nennt, dass personenbezogene Daten in die USA und weitere Jurisdiktionen uebertragen und dort verarbeitet werden koennen; fuer strikt EU-only ausgerichtete Setups ist das ein Souveraenitaetsrisiko.',
+        localizedTexts: { de: 'Twilios Privacy Notice nennt, dass personenbezogene Daten in die USA und weitere Jurisdiktionen uebertragen und dort verarbeitet werden koennen; fuer strikt EU-only ausgerichtete Setups ist das ein Souveraenitaetsrisiko.' },
         severity: 'major',
         sourceUrl: 'https://www.twilio.com/en-us/legal/privacy',
       },
@@ -6040,27 +6090,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.4,
     description:
         'US-operated messenger with strong default end-to-end encryption for message content, but trust is reduced by Meta\'s ad-driven ownership model, metadata exposure risks, and repeated regulatory pressure on data-sharing transparency.',
-    descriptionDe:
-        'US-Messenger mit starker standardmässiger Ende-zu-Ende-Verschlüsselung für Nachrichteninhalte; das Vertrauen sinkt jedoch durch Metas werbegetriebenes Eigentümermodell, Metadatenrisiken und wiederkehrenden regulatorischen Druck bei Data-Sharing-Transparenz.',
+    localizedDescriptions: {
+      de: 'US-Messenger mit starker standardmässiger Ende-zu-Ende-Verschlüsselung für Nachrichteninhalte; das Vertrauen sinkt jedoch durch Metas werbegetriebenes Eigentümermodell, Metadatenrisiken und wiederkehrenden regulatorischen Druck bei Data-Sharing-Transparenz.',
+    },
     reservations: [
       {
         id: 'whatsapp-meta-ad-tech-majority-control',
         text: 'Meta reports that substantially all of its revenue comes from advertising, creating structural monetization incentives that can conflict with strict privacy-first expectations for messaging products.',
-        textDe: 'Meta berichtet, dass im Wesentlichen der gesamte Umsatz aus Werbung stammt; dadurch entstehen strukturelle Monetarisierungsanreize, die mit strikten Privacy-First-Erwartungen an Messenger kollidieren können.',
+        localizedTexts: { de: 'Meta berichtet, dass im Wesentlichen der gesamte Umsatz aus Werbung stammt; dadurch entstehen strukturelle Monetarisierungsanreize, die mit strikten Privacy-First-Erwartungen an Messenger kollidieren können.' },
         severity: 'major',
         sourceUrl: 'https://www.sec.gov/ix?doc=/Archives/edgar/data/1326801/000162828026003942/meta-20251231.htm',
       },
       {
         id: 'whatsapp-eea-global-data-transfers',
         text: 'WhatsApp\'s EEA privacy policy states that information can be transferred and processed outside the EEA, including in the United States, via mechanisms such as DPF and SCCs.',
-        textDe: 'Die EWR-Datenschutzerklärung von WhatsApp beschreibt, dass Informationen ausserhalb des EWR, einschliesslich in die USA, über Mechanismen wie DPF und SCC verarbeitet und übertragen werden können.',
+        localizedTexts: { de: 'Die EWR-Datenschutzerklärung von WhatsApp beschreibt, dass Informationen ausserhalb des EWR, einschliesslich in die USA, über Mechanismen wie DPF und SCC verarbeitet und übertragen werden können.' },
         severity: 'major',
         sourceUrl: 'https://www.whatsapp.com/legal/privacy-policy-eea/',
       },
       {
         id: 'whatsapp-gdpr-transparency-fine-2021',
         text: 'The EDPB required amendments to the Irish authority\'s draft decision, and WhatsApp was fined EUR 225M over GDPR transparency and data-sharing disclosures.',
-        textDe: 'Der EDSA verlangte Nachbesserungen am Entwurf der irischen Aufsicht; anschliessend wurde gegen WhatsApp eine Strafe von 225 Mio. EUR wegen DSGVO-Transparenz- und Data-Sharing-Offenlegung verhängt.',
+        localizedTexts: { de: 'Der EDSA verlangte Nachbesserungen am Entwurf der irischen Aufsicht; anschliessend wurde gegen WhatsApp eine Strafe von 225 Mio. EUR wegen DSGVO-Transparenz- und Data-Sharing-Offenlegung verhängt.' },
         severity: 'major',
         date: '2021-09-02',
         sourceUrl: 'https://www.edpb.europa.eu/news/news/2021/edpb-requests-irish-sa-amends-whatsapp-decision-clarifications-transparency-and_en',
@@ -6068,7 +6119,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'whatsapp-contact-discovery-enumeration-risk',
         text: 'Academic research showed WhatsApp contact discovery enabled large-scale account enumeration, exposing metadata and targeting risk despite encrypted message content.',
-        textDe: 'Wissenschaftliche Forschung zeigte, dass die WhatsApp-Kontaktsuche grossflächige Account-Enumeration ermöglichte und damit trotz verschlüsselter Nachrichteninhalte Metadaten- und Targeting-Risiken offenlegte.',
+        localizedTexts: { de: 'Wissenschaftliche Forschung zeigte, dass die WhatsApp-Kontaktsuche grossflächige Account-Enumeration ermöglichte und damit trotz verschlüsselter Nachrichteninhalte Metadaten- und Targeting-Risiken offenlegte.' },
         severity: 'major',
         date: '2025-11-25',
         sourceUrl: 'https://arxiv.org/abs/2509.15680',
@@ -6076,14 +6127,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'whatsapp-exploited-cve-2025-55177',
         text: 'CVE-2025-55177 on linked-device synchronization was listed in CISA KEV via NVD references, signaling real-world exploitation pressure against high-value targets.',
-        textDe: 'CVE-2025-55177 bei der Linked-Device-Synchronisierung wurde über NVD-Referenzen im CISA-KEV-Katalog gelistet und signalisiert realen Ausnutzungsdruck gegen hochwertige Ziele.',
+        localizedTexts: { de: 'CVE-2025-55177 bei der Linked-Device-Synchronisierung wurde über NVD-Referenzen im CISA-KEV-Katalog gelistet und signalisiert realen Ausnutzungsdruck gegen hochwertige Ziele.' },
         severity: 'major',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2025-55177',
       },
       {
         id: 'whatsapp-business-sdk-archived',
         text: 'WhatsApp\'s official Business Platform Node.js SDK repository is archived and read-only, and the repository states Meta Platforms licensing rather than a standard OSI license.',
-        textDe: 'Das offizielle WhatsApp-Business-Platform-Node.js-SDK-Repository ist archiviert und nur lesbar; zudem nennt das Repository eine Meta-Platforms-Lizenz statt einer standardisierten OSI-Lizenz.',
+        localizedTexts: { de: 'Das offizielle WhatsApp-Business-Platform-Node.js-SDK-Repository ist archiviert und nur lesbar; zudem nennt das Repository eine Meta-Platforms-Lizenz statt einer standardisierten OSI-Lizenz.' },
         severity: 'moderate',
         date: '2023-06-07',
         sourceUrl: 'https://github.com/WhatsApp/WhatsApp-Nodejs-SDK',
@@ -6091,7 +6142,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'whatsapp-spyware-litigation-signal',
         text: 'NSO spyware litigation produced a 2025 damages verdict for WhatsApp users, reinforcing persistent high-grade offensive targeting pressure around the platform.',
-        textDe: 'Die NSO-Spyware-Litigation führte 2025 zu einem Schadensersatzurteil zugunsten von WhatsApp-Nutzern und unterstreicht den anhaltenden Druck durch hochentwickelte offensive Angriffe auf die Plattform.',
+        localizedTexts: { de: 'Die NSO-Spyware-Litigation führte 2025 zu einem Schadensersatzurteil zugunsten von WhatsApp-Nutzern und unterstreicht den anhaltenden Druck durch hochentwickelte offensive Angriffe auf die Plattform.' },
         severity: 'moderate',
         date: '2025-05-06',
         sourceUrl: 'https://www.theverge.com/news/662242/meta-nso-group-pegasus-whatsapp-hack-damages',
@@ -6099,7 +6150,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'whatsapp-former-security-chief-lawsuit-2025',
         text: 'Reporting on a 2025 lawsuit by WhatsApp\'s former security lead alleges retaliation after raising privacy and security concerns, signaling governance and security-prioritization risk.',
-        textDe: 'Berichte über eine Klage der ehemaligen WhatsApp-Sicherheitsleitung aus 2025 werfen Vergeltung nach internen Privacy- und Security-Hinweisen vor und signalisieren Governance- sowie Priorisierungsrisiken bei Sicherheit.',
+        localizedTexts: { de: 'Berichte über eine Klage der ehemaligen WhatsApp-Sicherheitsleitung aus 2025 werfen Vergeltung nach internen Privacy- und Security-Hinweisen vor und signalisieren Governance- sowie Priorisierungsrisiken bei Sicherheit.' },
         severity: 'moderate',
         date: '2025-09-24',
         sourceUrl: 'https://arstechnica.com/security/2025/09/former-whatsapp-security-boss-sues-meta-for-systemic-cybersecurity-failures/',
@@ -6107,7 +6158,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'whatsapp-updates-tab-ads-2025',
         text: 'WhatsApp introduced ads and paid channel promotion features in the Updates surface in 2025, increasing long-term monetization pressure around engagement and account signals.',
-        textDe: 'WhatsApp führte 2025 im Updates-Bereich Werbung und bezahlte Channel-Promotions ein, was den langfristigen Monetarisierungsdruck rund um Engagement- und Account-Signale erhöht.',
+        localizedTexts: { de: 'WhatsApp führte 2025 im Updates-Bereich Werbung und bezahlte Channel-Promotions ein, was den langfristigen Monetarisierungsdruck rund um Engagement- und Account-Signale erhöht.' },
         severity: 'moderate',
         sourceUrl: 'https://apnews.com/article/whatsapp-ads-meta-updates-channels-7f91664f2f31549fc80e4155af573e2d',
       },
@@ -6117,13 +6168,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.5,
     description:
         'US-operated messenger with strong end-to-end encryption and data-minimization defaults, but trust is reduced by non-public anti-spam components, US legal-process exposure, phone-number onboarding dependency, and supplier-side verification incident history.',
-    descriptionDe:
-        'US-Messenger mit starker Ende-zu-Ende-Verschluesselung und datensparsamen Defaults; das Vertrauen sinkt jedoch durch nicht-oeffentliche Anti-Spam-Komponenten, US-Rechtszugriffsrisiken, telefonnummernbasiertes Onboarding und die Historie eines verifikationsbezogenen Supplier-Incidents.',
+    localizedDescriptions: {
+      de: 'US-Messenger mit starker Ende-zu-Ende-Verschluesselung und datensparsamen Defaults; das Vertrauen sinkt jedoch durch nicht-oeffentliche Anti-Spam-Komponenten, US-Rechtszugriffsrisiken, telefonnummernbasiertes Onboarding und die Historie eines verifikationsbezogenen Supplier-Incidents.',
+    },
     reservations: [
       {
         id: 'signal-proprietary-anti-spam-component-2024',
         text: 'Signal disclosed in 2024 that some anti-spam technology remains private to make abuse controls harder to reverse engineer, which limits full-stack public auditability.',
-        textDe: 'Signal legte 2024 offen, dass Teile der Anti-Spam-Technologie privat bleiben, um Missbrauchsschutz schwerer reverse-engineerbar zu machen; das begrenzt die vollstaendige oeffentliche Auditierbarkeit.',
+        localizedTexts: { de: 'Signal legte 2024 offen, dass Teile der Anti-Spam-Technologie privat bleiben, um Missbrauchsschutz schwerer reverse-engineerbar zu machen; das begrenzt die vollstaendige oeffentliche Auditierbarkeit.' },
         severity: 'major',
         date: '2024-09-20',
         sourceUrl: 'https://signal.org/blog/keeping-spam-off-signal/',
@@ -6131,21 +6183,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'signal-us-legal-process-exposure',
         text: 'As a US provider, Signal remains exposed to US legal-process frameworks that can compel covered providers to disclose data under applicable law.',
-        textDe: 'Als US-Anbieter bleibt Signal US-Rechtszugriffsrahmen ausgesetzt, die erfasste Provider zur Datenausgabe nach geltendem Recht verpflichten koennen.',
+        localizedTexts: { de: 'Als US-Anbieter bleibt Signal US-Rechtszugriffsrahmen ausgesetzt, die erfasste Provider zur Datenausgabe nach geltendem Recht verpflichten koennen.' },
         severity: 'major',
         sourceUrl: 'https://www.law.cornell.edu/uscode/text/18/2713',
       },
       {
         id: 'signal-phone-number-registration-dependency',
         text: 'Signal account registration requires a phone number and uses third-party verification-code delivery, preserving an identifiable onboarding dependency.',
-        textDe: 'Die Signal-Registrierung erfordert eine Telefonnummer und nutzt Drittanbieter fuer die Zustellung von Verifikationscodes; damit bleibt eine identifizierbare Onboarding-Abhaengigkeit bestehen.',
+        localizedTexts: { de: 'Die Signal-Registrierung erfordert eine Telefonnummer und nutzt Drittanbieter fuer die Zustellung von Verifikationscodes; damit bleibt eine identifizierbare Onboarding-Abhaengigkeit bestehen.' },
         severity: 'moderate',
         sourceUrl: 'https://signal.org/legal/',
       },
       {
         id: 'signal-twilio-verification-provider-incident-2022',
         text: 'Signal disclosed that a 2022 Twilio phishing incident exposed SMS verification data for a limited set of users, highlighting supplier-side verification risk.',
-        textDe: 'Signal legte offen, dass ein Twilio-Phishing-Vorfall 2022 SMS-Verifikationsdaten einer begrenzten Nutzergruppe betraf und damit supplier-seitige Verifikationsrisiken aufzeigte.',
+        localizedTexts: { de: 'Signal legte offen, dass ein Twilio-Phishing-Vorfall 2022 SMS-Verifikationsdaten einer begrenzten Nutzergruppe betraf und damit supplier-seitige Verifikationsrisiken aufzeigte.' },
         severity: 'major',
         date: '2022-08-15',
         sourceUrl: 'https://support.signal.org/hc/en-us/articles/4850133017242-Twilio-Incident-What-Signal-Users-Need-to-Know',
@@ -6153,21 +6205,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'signal-no-public-soc2-or-iso27001-attestation',
         text: 'Signal publishes legal/privacy documentation centered on data minimization but does not publicly provide SOC 2 or ISO 27001 attestation packages.',
-        textDe: 'Signal veroeffentlicht Rechts- und Privacy-Dokumentation mit Fokus auf Datenminimierung, stellt jedoch keine oeffentlich einsehbaren SOC-2- oder ISO-27001-Attestpakete bereit.',
+        localizedTexts: { de: 'Signal veroeffentlicht Rechts- und Privacy-Dokumentation mit Fokus auf Datenminimierung, stellt jedoch keine oeffentlich einsehbaren SOC-2- oder ISO-27001-Attestpakete bereit.' },
         severity: 'moderate',
         sourceUrl: 'https://signal.org/legal/',
       },
       {
         id: 'signal-desktop-attachment-forensics-cve-2023',
         text: 'NVD entries (including CVE-2023-24068/24069) describe local Signal Desktop attachment-handling forensics concerns in device-compromise threat models.',
-        textDe: 'NVD-Eintraege (u. a. CVE-2023-24068/24069) beschreiben lokale Forensik-Risiken beim Attachment-Handling von Signal Desktop in Threat-Models mit Geraetekompromittierung.',
+        localizedTexts: { de: 'NVD-Eintraege (u. a. CVE-2023-24068/24069) beschreiben lokale Forensik-Risiken beim Attachment-Handling von Signal Desktop in Threat-Models mit Geraetekompromittierung.' },
         severity: 'moderate',
         sourceUrl: 'https://nvd.nist.gov/vuln/detail/CVE-2023-24068',
       },
       {
         id: 'signal-nonprofit-financial-volatility-2024',
         text: 'Public nonprofit filings for fiscal year 2024 show expenses above revenue and negative net assets, creating sustainability-watch risk for long-term operations.',
-        textDe: 'Oeffentliche Nonprofit-Filings fuer das Geschaeftsjahr 2024 zeigen Ausgaben ueber den Einnahmen und negative Net Assets, was ein Nachhaltigkeitsrisiko fuer den Langfristbetrieb darstellt.',
+        localizedTexts: { de: 'Oeffentliche Nonprofit-Filings fuer das Geschaeftsjahr 2024 zeigen Ausgaben ueber den Einnahmen und negative Net Assets, was ein Nachhaltigkeitsrisiko fuer den Langfristbetrieb darstellt.' },
         severity: 'moderate',
         date: '2024-12-31',
         sourceUrl: 'https://projects.propublica.org/nonprofits/organizations/824506840',
@@ -6175,14 +6227,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'signal-no-public-bug-bounty',
         text: 'Signal documents a vulnerability-reporting path but states that no public bug-bounty rewards are offered.',
-        textDe: 'Signal dokumentiert einen Meldeweg fuer Sicherheitsluecken, weist jedoch darauf hin, dass keine oeffentlichen Bug-Bounty-Praemien angeboten werden.',
+        localizedTexts: { de: 'Signal dokumentiert einen Meldeweg fuer Sicherheitsluecken, weist jedoch darauf hin, dass keine oeffentlichen Bug-Bounty-Praemien angeboten werden.' },
         severity: 'minor',
         sourceUrl: 'https://support.signal.org/hc/en-us/articles/360007320791-How-do-I-report-a-security-vulnerability',
       },
       {
         id: 'signal-ios-donation-cancellation-edge-case',
         text: 'A public iOS issue documented a failed-donation edge case where recurring contribution cancellation could become unclear in-app.',
-        textDe: 'Ein oeffentliches iOS-Issue dokumentierte einen Edge-Case bei fehlgeschlagenen Spenden, bei dem die Kuendigung wiederkehrender Beitraege in der App unklar werden konnte.',
+        localizedTexts: { de: 'Ein oeffentliches iOS-Issue dokumentierte einen Edge-Case bei fehlgeschlagenen Spenden, bei dem die Kuendigung wiederkehrender Beitraege in der App unklar werden konnte.' },
         severity: 'minor',
         date: '2023-08-01',
         sourceUrl: 'https://github.com/signalapp/Signal-iOS/issues/5636',
@@ -6193,27 +6245,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.1,
     description:
         'US-operated email service with broad feature coverage, but trust is materially reduced by inbox-content analysis for advertising, AI-provider data-sharing consent language, and legacy mega-breach disclosure failures.',
-    descriptionDe:
-        'US-E-Mail-Dienst mit breitem Funktionsumfang, dessen Vertrauen jedoch durch dokumentierte Inhaltsanalyse des Postfachs für Werbung, Einwilligungsklauseln zur Datenweitergabe an KI-Anbieter und historische Mega-Breach-Disclosure-Defizite deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-E-Mail-Dienst mit breitem Funktionsumfang, dessen Vertrauen jedoch durch dokumentierte Inhaltsanalyse des Postfachs für Werbung, Einwilligungsklauseln zur Datenweitergabe an KI-Anbieter und historische Mega-Breach-Disclosure-Defizite deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'yahoo-mail-content-analysis-for-advertising',
         text: 'Yahoo privacy disclosures state that communications products may analyze and store incoming and outgoing email content to deliver, personalize, and develop services and advertising.',
-        textDe: 'Yahoo-Datenschutzhinweise nennen, dass Kommunikationsprodukte eingehende und ausgehende E-Mail-Inhalte analysieren und speichern können, um Dienste und Werbung bereitzustellen, zu personalisieren und weiterzuentwickeln.',
+        localizedTexts: { de: 'Yahoo-Datenschutzhinweise nennen, dass Kommunikationsprodukte eingehende und ausgehende E-Mail-Inhalte analysieren und speichern können, um Dienste und Werbung bereitzustellen, zu personalisieren und weiterzuentwickeln.' },
         severity: 'major',
         sourceUrl: 'https://legal.yahoo.com/us/en/yahoo/privacy/products/communications/index.html',
       },
       {
         id: 'yahoo-mail-third-party-ai-provider-inbox-consent',
         text: 'Yahoo terms state that using the services includes consent to share account data, including Yahoo Mail inbox data, with third-party AI providers for feature enhancement.',
-        textDe: 'Die Yahoo-Bedingungen nennen, dass die Nutzung der Dienste die Einwilligung zur Weitergabe von Kontodaten, einschliesslich Yahoo-Mail-Postfachdaten, an Drittanbieter von KI zur Funktionsverbesserung umfasst.',
+        localizedTexts: { de: 'Die Yahoo-Bedingungen nennen, dass die Nutzung der Dienste die Einwilligung zur Weitergabe von Kontodaten, einschliesslich Yahoo-Mail-Postfachdaten, an Drittanbieter von KI zur Funktionsverbesserung umfasst.' },
         severity: 'major',
         sourceUrl: 'https://legal.yahoo.com/us/en/yahoo/terms/otos/index.html',
       },
       {
         id: 'yahoo-mail-delayed-breach-disclosure-sec-2018',
         text: 'The SEC charged Altaba in 2018 for failing to timely disclose Yahoo\'s 2014 breach and announced a $35M penalty.',
-        textDe: 'Die SEC erhob 2018 Vorwürfe gegen Altaba wegen nicht rechtzeitiger Offenlegung von Yahoos Breach aus 2014 und kündigte eine Strafe von 35 Mio. USD an.',
+        localizedTexts: { de: 'Die SEC erhob 2018 Vorwürfe gegen Altaba wegen nicht rechtzeitiger Offenlegung von Yahoos Breach aus 2014 und kündigte eine Strafe von 35 Mio. USD an.' },
         severity: 'major',
         date: '2018-04-24',
         sourceUrl: 'https://www.sec.gov/news/press-release/2018-71',
@@ -6221,7 +6274,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-major-breach-settlement-2018',
         text: 'Reuters reported in 2018 that Yahoo agreed to a revised $117.5M settlement for users affected by historic mega-breaches.',
-        textDe: 'Reuters berichtete 2018, dass Yahoo einem angepassten Vergleich über 117,5 Mio. USD für von historischen Mega-Breaches betroffene Nutzer zustimmte.',
+        localizedTexts: { de: 'Reuters berichtete 2018, dass Yahoo einem angepassten Vergleich über 117,5 Mio. USD für von historischen Mega-Breaches betroffene Nutzer zustimmte.' },
         severity: 'major',
         date: '2018-10-23',
         sourceUrl: 'https://www.reuters.com/article/business/yahoo-agrees-to-revised-117-5-million-settlement-of-data-breach-lawsuit-idUSKCN1MX2V5/',
@@ -6229,7 +6282,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-cybersecurity-layoffs-outsourced-red-team-2024',
         text: 'TechCrunch reported in December 2024 that Yahoo laid off around a quarter of its cybersecurity team and outsourced red-team operations.',
-        textDe: 'TechCrunch berichtete im Dezember 2024, dass Yahoo rund ein Viertel seines Cybersecurity-Teams entliess und Red-Team-Operationen auslagerte.',
+        localizedTexts: { de: 'TechCrunch berichtete im Dezember 2024, dass Yahoo rund ein Viertel seines Cybersecurity-Teams entliess und Red-Team-Operationen auslagerte.' },
         severity: 'moderate',
         date: '2024-12-12',
         sourceUrl: 'https://techcrunch.com/2024/12/12/yahoo-lays-off-a-quarter-of-its-cybersecurity-team-including-cisos-and-red-team/',
@@ -6237,42 +6290,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-unacknowledged-email-incidents-2024-2026',
         text: 'StatusGator incident tracking shows repeated Yahoo Mail and sign-in disruptions marked as not publicly acknowledged, reducing confidence in incident communication quality.',
-        textDe: 'Das StatusGator-Incident-Tracking zeigt wiederholte Yahoo-Mail- und Sign-in-Störungen, die als öffentlich nicht bestätigt markiert sind; das reduziert das Vertrauen in die Incident-Kommunikation.',
+        localizedTexts: { de: 'Das StatusGator-Incident-Tracking zeigt wiederholte Yahoo-Mail- und Sign-in-Störungen, die als öffentlich nicht bestätigt markiert sind; das reduziert das Vertrauen in die Incident-Kommunikation.' },
         severity: 'moderate',
         sourceUrl: 'https://statusgator.com/services/yahoo-mail',
       },
       {
         id: 'yahoo-mail-broad-content-license-and-service-discretion',
         text: 'Yahoo terms grant broad licensing rights over submitted content and permit service/functionality changes or suspension, with no guarantee of uninterrupted operation.',
-        textDe: 'Die Yahoo-Bedingungen gewähren breite Lizenzrechte an eingereichten Inhalten und erlauben Änderungen oder Aussetzung von Diensten/Funktionen ohne Garantie unterbrechungsfreien Betriebs.',
+        localizedTexts: { de: 'Die Yahoo-Bedingungen gewähren breite Lizenzrechte an eingereichten Inhalten und erlauben Änderungen oder Aussetzung von Diensten/Funktionen ohne Garantie unterbrechungsfreien Betriebs.' },
         severity: 'moderate',
         sourceUrl: 'https://legal.yahoo.com/us/en/yahoo/terms/otos/index.html',
       },
       {
         id: 'yahoo-mail-cross-border-transfers-us-india',
         text: 'Yahoo\'s EEA privacy policy states personal data may be processed in multiple countries, including the United States and India.',
-        textDe: 'Yahoos EWR-Datenschutzerklärung nennt, dass personenbezogene Daten in mehreren Ländern verarbeitet werden können, einschliesslich der USA und Indiens.',
+        localizedTexts: { de: 'Yahoos EWR-Datenschutzerklärung nennt, dass personenbezogene Daten in mehreren Ländern verarbeitet werden können, einschliesslich der USA und Indiens.' },
         severity: 'moderate',
         sourceUrl: 'https://legal.yahoo.com/ie/en/yahoo/privacy/index.html',
       },
       {
         id: 'yahoo-mail-storage-limit-20gb',
         text: 'Yahoo Help states that free Yahoo Mail accounts include 20 GB of storage and that delivery can be limited when mailbox limits are exceeded.',
-        textDe: 'Yahoo Help nennt, dass kostenlose Yahoo-Mail-Konten 20 GB Speicher umfassen und die Zustellung eingeschränkt werden kann, wenn Postfachlimits überschritten werden.',
+        localizedTexts: { de: 'Yahoo Help nennt, dass kostenlose Yahoo-Mail-Konten 20 GB Speicher umfassen und die Zustellung eingeschränkt werden kann, wenn Postfachlimits überschritten werden.' },
         severity: 'moderate',
         sourceUrl: 'https://help.yahoo.com/kb/yahoo-mail/resolve-yahoo-mail-storage-issues-sln4075.html',
       },
       {
         id: 'yahoo-mail-inactivity-deletion-policy',
         text: 'Yahoo privacy policy states account inactivity windows that can trigger mailbox deactivation and deletion processes for dormant users.',
-        textDe: 'Die Yahoo-Datenschutzerklärung nennt Inaktivitätsfristen, die bei ruhenden Konten Deaktivierungs- und Löschprozesse für Postfächer auslösen können.',
+        localizedTexts: { de: 'Die Yahoo-Datenschutzerklärung nennt Inaktivitätsfristen, die bei ruhenden Konten Deaktivierungs- und Löschprozesse für Postfächer auslösen können.' },
         severity: 'minor',
         sourceUrl: 'https://legal.yahoo.com/ie/en/yahoo/privacy/index.html',
       },
       {
         id: 'yahoo-mail-connectid-privacy-litigation-2025',
         text: 'MediaPost reported an April 2025 privacy lawsuit alleging Yahoo ConnectID tracks users via encrypted email identifiers without valid consent.',
-        textDe: 'MediaPost berichtete im April 2025 über eine Privacy-Klage mit dem Vorwurf, Yahoo ConnectID verfolge Nutzer über verschlüsselte E-Mail-Identifier ohne wirksame Einwilligung.',
+        localizedTexts: { de: 'MediaPost berichtete im April 2025 über eine Privacy-Klage mit dem Vorwurf, Yahoo ConnectID verfolge Nutzer über verschlüsselte E-Mail-Identifier ohne wirksame Einwilligung.' },
         severity: 'moderate',
         date: '2025-04-07',
         sourceUrl: 'https://www.mediapost.com/publications/article/404862/yahoo-hit-with-privacy-suit-over-connectid.html',
@@ -6280,7 +6333,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-temporary-error-15-outage-2025',
         text: 'A July 24, 2025 outage disrupted Yahoo Mail access for many users and surfaced recurring "Temporary Error 15" failures during the incident.',
-        textDe: 'Ein Ausfall am 24. Juli 2025 störte den Yahoo-Mail-Zugriff für viele Nutzer und zeigte während des Vorfalls wiederkehrende "Temporary Error 15"-Fehler.',
+        localizedTexts: { de: 'Ein Ausfall am 24. Juli 2025 störte den Yahoo-Mail-Zugriff für viele Nutzer und zeigte während des Vorfalls wiederkehrende "Temporary Error 15"-Fehler.' },
         severity: 'moderate',
         date: '2025-07-24',
         sourceUrl: 'https://www.tomsguide.com/computing/live/yahoo-mail-down-for-thousands-live-updates-on-outage',
@@ -6288,7 +6341,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-aol-cyber-monday-outage-2025',
         text: 'TechRadar documented another major Yahoo/AOL mail disruption on December 1, 2025 with login and delivery issues and limited ETA transparency.',
-        textDe: 'TechRadar dokumentierte am 1. Dezember 2025 einen weiteren grösseren Yahoo-/AOL-Mail-Ausfall mit Login- und Zustellproblemen bei begrenzter ETA-Transparenz.',
+        localizedTexts: { de: 'TechRadar dokumentierte am 1. Dezember 2025 einen weiteren grösseren Yahoo-/AOL-Mail-Ausfall mit Login- und Zustellproblemen bei begrenzter ETA-Transparenz.' },
         severity: 'moderate',
         date: '2025-12-01',
         sourceUrl: 'https://www.techradar.com/news/live/yahoo-aol-email-outage-december-2025',
@@ -6296,7 +6349,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-openpgp-extension-archived-2019',
         text: 'Yahoo\'s former OpenPGP end-to-end project is archived and read-only since July 2019, signaling no active Yahoo-native encrypted-mail roadmap.',
-        textDe: 'Yahoos früheres OpenPGP-Ende-zu-Ende-Projekt ist seit Juli 2019 archiviert und nur lesbar, was auf keine aktive Yahoo-native Encrypted-Mail-Roadmap hinweist.',
+        localizedTexts: { de: 'Yahoos früheres OpenPGP-Ende-zu-Ende-Projekt ist seit Juli 2019 archiviert und nur lesbar, was auf keine aktive Yahoo-native Encrypted-Mail-Roadmap hinweist.' },
         severity: 'moderate',
         date: '2019-07-15',
         sourceUrl: 'https://github.com/YahooArchive/end-to-end',
@@ -6304,7 +6357,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'yahoo-mail-no-support-commitment-in-terms',
         text: 'Yahoo terms state that support may not be provided and services are offered "as-is", reducing contractual assurance for critical-reliability scenarios.',
-        textDe: 'Die Yahoo-Bedingungen nennen, dass Support möglicherweise nicht bereitgestellt wird und Dienste "as-is" angeboten werden, was die vertragliche Absicherung für kritische Zuverlässigkeitsszenarien reduziert.',
+        localizedTexts: { de: 'Die Yahoo-Bedingungen nennen, dass Support möglicherweise nicht bereitgestellt wird und Dienste "as-is" angeboten werden, was die vertragliche Absicherung für kritische Zuverlässigkeitsszenarien reduziert.' },
         severity: 'minor',
         sourceUrl: 'https://legal.yahoo.com/us/en/yahoo/terms/otos/index.html',
       },
@@ -6314,13 +6367,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.6,
     description:
         'US-operated cloud storage platform with strong security certifications and transparent incident handling, but trust is reduced by the 2024 Dropbox Sign breach, concentrated founder voting control, US-jurisdiction transfer exposure, and recurring contract/cancellation frictions.',
-    descriptionDe:
-        'US-Cloudspeicher-Plattform mit starken Sicherheitszertifizierungen und transparenter Incident-Kommunikation, deren Vertrauen jedoch durch den Dropbox-Sign-Breach von 2024, konzentrierte Gründer-Stimmrechtskontrolle, US-Jurisdiktions- und Transferexposition sowie wiederkehrende Vertrags-/Kündigungsfriktionen sinkt.',
+    localizedDescriptions: {
+      de: 'US-Cloudspeicher-Plattform mit starken Sicherheitszertifizierungen und transparenter Incident-Kommunikation, deren Vertrauen jedoch durch den Dropbox-Sign-Breach von 2024, konzentrierte Gründer-Stimmrechtskontrolle, US-Jurisdiktions- und Transferexposition sowie wiederkehrende Vertrags-/Kündigungsfriktionen sinkt.',
+    },
     reservations: [
       {
         id: 'dropbox-sign-production-incident-2024',
         text: 'Dropbox disclosed unauthorized access to Dropbox Sign production systems in April 2024, with exposure including account emails/usernames for all users and additional authentication data for subsets of users.',
-        textDe: 'Dropbox legte im April 2024 einen unautorisierten Zugriff auf Produktionssysteme von Dropbox Sign offen; betroffen waren unter anderem Konto-E-Mails/Benutzernamen für alle Nutzer sowie zusätzliche Authentifizierungsdaten für Teilmengen.',
+        localizedTexts: { de: 'Dropbox legte im April 2024 einen unautorisierten Zugriff auf Produktionssysteme von Dropbox Sign offen; betroffen waren unter anderem Konto-E-Mails/Benutzernamen für alle Nutzer sowie zusätzliche Authentifizierungsdaten für Teilmengen.' },
         severity: 'major',
         date: '2024-04-24',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1467623/000146762324000024/dbx-20240429.htm',
@@ -6328,7 +6382,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-sign-incident-api-token-exposure-2024',
         text: 'Dropbox stated that the Dropbox Sign incident also involved API keys, OAuth tokens, and certain multi-factor authentication information for some integrations/accounts.',
-        textDe: 'Dropbox gab an, dass der Dropbox-Sign-Vorfall für einige Integrationen/Konten auch API-Keys, OAuth-Tokens und bestimmte Multi-Faktor-Authentifizierungsinformationen betraf.',
+        localizedTexts: { de: 'Dropbox gab an, dass der Dropbox-Sign-Vorfall für einige Integrationen/Konten auch API-Keys, OAuth-Tokens und bestimmte Multi-Faktor-Authentifizierungsinformationen betraf.' },
         severity: 'major',
         date: '2024-04-24',
         sourceUrl: 'https://blog.dropbox.com/topics/company/a-recent-security-incident-involving-dropbox-sign',
@@ -6336,7 +6390,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-phishing-github-incident-2022',
         text: 'Dropbox reported a 2022 phishing-driven GitHub compromise where an attacker copied 130 repositories and accessed some credentials/API keys plus contact records.',
-        textDe: 'Dropbox meldete 2022 einen phishinggetriebenen GitHub-Kompromiss, bei dem ein Angreifer 130 Repositories kopierte und auf einige Credentials/API-Keys sowie Kontaktdatensätze zugriff.',
+        localizedTexts: { de: 'Dropbox meldete 2022 einen phishinggetriebenen GitHub-Kompromiss, bei dem ein Angreifer 130 Repositories kopierte und auf einige Credentials/API-Keys sowie Kontaktdatensätze zugriff.' },
         severity: 'moderate',
         date: '2022-11-01',
         sourceUrl: 'https://dropbox.tech/security/a-recent-phishing-campaign-targeting-dropbox',
@@ -6344,7 +6398,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-zdi-cve-2024-5924-scope-dispute',
         text: 'ZDI documented CVE-2024-5924 (Dropbox Desktop, CVSS 8.8) and noted Dropbox initially treated the report as out of bounty scope before public advisory publication.',
-        textDe: 'ZDI dokumentierte CVE-2024-5924 (Dropbox Desktop, CVSS 8.8) und hielt fest, dass Dropbox den Report zunächst als ausserhalb des Bounty-Scopes einordnete, bevor ein öffentlicher Advisory erschien.',
+        localizedTexts: { de: 'ZDI dokumentierte CVE-2024-5924 (Dropbox Desktop, CVSS 8.8) und hielt fest, dass Dropbox den Report zunächst als ausserhalb des Bounty-Scopes einordnete, bevor ein öffentlicher Advisory erschien.' },
         severity: 'moderate',
         date: '2024-06-20',
         sourceUrl: 'https://www.zerodayinitiative.com/advisories/ZDI-24-677/',
@@ -6352,56 +6406,56 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-global-processing-and-us-transfer-exposure',
         text: 'Dropbox privacy terms state that personal data can be stored, transferred, and processed in the United States and other countries, which keeps cross-border jurisdiction exposure in scope.',
-        textDe: 'Die Dropbox-Datenschutzhinweise nennen, dass personenbezogene Daten in den USA und anderen Ländern gespeichert, übertragen und verarbeitet werden können; dadurch bleibt grenzüberschreitende Jurisdiktions-Exposition bestehen.',
+        localizedTexts: { de: 'Die Dropbox-Datenschutzhinweise nennen, dass personenbezogene Daten in den USA und anderen Ländern gespeichert, übertragen und verarbeitet werden können; dadurch bleibt grenzüberschreitende Jurisdiktions-Exposition bestehen.' },
         severity: 'major',
         sourceUrl: 'https://www.dropbox.com/privacy',
       },
       {
         id: 'dropbox-sign-data-residency-default-us',
         text: 'Dropbox Sign documents that data residency defaults to U.S. storage unless eligible premium plans choose another region.',
-        textDe: 'Dropbox Sign dokumentiert, dass Data Residency standardmässig auf US-Speicherung fällt, sofern bei geeigneten Premium-Plänen keine andere Region gewählt wird.',
+        localizedTexts: { de: 'Dropbox Sign dokumentiert, dass Data Residency standardmässig auf US-Speicherung fällt, sofern bei geeigneten Premium-Plänen keine andere Region gewählt wird.' },
         severity: 'moderate',
         sourceUrl: 'https://help.dropbox.com/security/dropbox-sign-data-residency',
       },
       {
         id: 'dropbox-no-client-side-encryption-or-byok-default',
         text: 'Dropbox security documentation states there is no customer-managed private-key model or general client-side encryption by default in the standard service.',
-        textDe: 'Die Dropbox-Sicherheitsdokumentation nennt, dass im Standarddienst weder ein kundenseitig verwaltetes Private-Key-Modell noch allgemeine clientseitige Verschlüsselung standardmässig verfügbar sind.',
+        localizedTexts: { de: 'Die Dropbox-Sicherheitsdokumentation nennt, dass im Standarddienst weder ein kundenseitig verwaltetes Private-Key-Modell noch allgemeine clientseitige Verschlüsselung standardmässig verfügbar sind.' },
         severity: 'moderate',
         sourceUrl: 'https://help.dropbox.com/security/how-security-works',
       },
       {
         id: 'dropbox-ml-training-on-documents-and-metadata',
         text: 'Dropbox\'s privacy FAQ states that machine-learning models may be trained on documents and metadata for features such as search, organization, and summarization.',
-        textDe: 'Die Dropbox-Privacy-FAQ nennt, dass Machine-Learning-Modelle auf Dokumenten und Metadaten trainiert werden können, etwa für Suche, Organisation und Zusammenfassungen.',
+        localizedTexts: { de: 'Die Dropbox-Privacy-FAQ nennt, dass Machine-Learning-Modelle auf Dokumenten und Metadaten trainiert werden können, etwa für Suche, Organisation und Zusammenfassungen.' },
         severity: 'major',
         sourceUrl: 'https://help.dropbox.com/security/privacy-policy-faq',
       },
       {
         id: 'dropbox-terms-content-scanning-and-third-party-permissions',
         text: 'Dropbox Terms state the service may access, store, and scan user content to deliver features, and that this permission extends to affiliates and trusted third parties.',
-        textDe: 'Die Dropbox-AGB nennen, dass der Dienst Nutzerinhalte zur Bereitstellung von Funktionen abrufen, speichern und scannen darf und dass diese Erlaubnis auf verbundene Unternehmen sowie vertrauenswürdige Drittparteien ausgeweitet wird.',
+        localizedTexts: { de: 'Die Dropbox-AGB nennen, dass der Dienst Nutzerinhalte zur Bereitstellung von Funktionen abrufen, speichern und scannen darf und dass diese Erlaubnis auf verbundene Unternehmen sowie vertrauenswürdige Drittparteien ausgeweitet wird.' },
         severity: 'major',
         sourceUrl: 'https://www.dropbox.com/terms',
       },
       {
         id: 'dropbox-third-party-ai-processing-openai',
         text: 'Dropbox Dash documentation says relevant content may be sent to OpenAI for web-answering workflows, adding third-party AI processing exposure for enabled features.',
-        textDe: 'Die Dropbox-Dash-Dokumentation beschreibt, dass für Web-Antwort-Workflows relevante Inhalte an OpenAI gesendet werden können, was bei aktivierten Features zusätzliche Drittanbieter-KI-Verarbeitungsexposition erzeugt.',
+        localizedTexts: { de: 'Die Dropbox-Dash-Dokumentation beschreibt, dass für Web-Antwort-Workflows relevante Inhalte an OpenAI gesendet werden können, was bei aktivierten Features zusätzliche Drittanbieter-KI-Verarbeitungsexposition erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://help.dropbox.com/view-edit/dash-web-search',
       },
       {
         id: 'dropbox-cancellation-complaints-pattern-bbb-2025',
         text: 'BBB complaint records show recurring customer allegations about cancellation friction, billing continuation, and difficult support escalation paths.',
-        textDe: 'BBB-Beschwerdedaten zeigen wiederkehrende Kundenvorwürfe zu Kündigungsfriktion, fortlaufender Abrechnung und schwierigen Support-Eskalationswegen.',
+        localizedTexts: { de: 'BBB-Beschwerdedaten zeigen wiederkehrende Kundenvorwürfe zu Kündigungsfriktion, fortlaufender Abrechnung und schwierigen Support-Eskalationswegen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.bbb.org/us/ca/san-francisco/profile/data-storage/dropbox-inc-1116-377630/complaints',
       },
       {
         id: 'dropbox-workforce-reduction-2024',
         text: 'Dropbox announced a workforce reduction of about 20% in October 2024 during an AI-led restructuring, which can increase execution and support-capacity transition risk.',
-        textDe: 'Dropbox kündigte im Oktober 2024 im Rahmen einer KI-getriebenen Restrukturierung einen Stellenabbau von rund 20 Prozent an, was Übergangsrisiken für Umsetzung und Support-Kapazität erhöhen kann.',
+        localizedTexts: { de: 'Dropbox kündigte im Oktober 2024 im Rahmen einer KI-getriebenen Restrukturierung einen Stellenabbau von rund 20 Prozent an, was Übergangsrisiken für Umsetzung und Support-Kapazität erhöhen kann.' },
         severity: 'moderate',
         date: '2024-10-30',
         sourceUrl: 'https://www.cnbc.com/2024/10/30/dropbox-lays-off-20percent-of-workforce.html',
@@ -6409,14 +6463,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-dual-class-voting-concentration-2024',
         text: 'Dropbox\'s 2024 Form 10-K states directors/executive officers and affiliates held 77.5% voting power, with CEO Drew Houston holding about 77.4%, limiting outside shareholder influence on major corporate decisions.',
-        textDe: 'Das Dropbox-Form-10-K 2024 nennt für Directors/Executives und deren verbundene Parteien 77,5 Prozent der Stimmrechte; CEO Drew Houston hielt rund 77,4 Prozent, was den Einfluss externer Aktionäre auf wesentliche Unternehmensentscheidungen begrenzt.',
+        localizedTexts: { de: 'Das Dropbox-Form-10-K 2024 nennt für Directors/Executives und deren verbundene Parteien 77,5 Prozent der Stimmrechte; CEO Drew Houston hielt rund 77,4 Prozent, was den Einfluss externer Aktionäre auf wesentliche Unternehmensentscheidungen begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1467623/000146762325000011/dbx-20241231.htm',
       },
       {
         id: 'dropbox-cfo-transition-2025',
         text: 'Dropbox disclosed a CFO transition in December 2025, with Timothy Regan resigning and Ross Tennenbaum appointed as successor during an ongoing strategic transition period.',
-        textDe: 'Dropbox legte im Dezember 2025 einen CFO-Wechsel offen; Timothy Regan trat zurück und Ross Tennenbaum wurde als Nachfolger während einer laufenden strategischen Übergangsphase bestellt.',
+        localizedTexts: { de: 'Dropbox legte im Dezember 2025 einen CFO-Wechsel offen; Timothy Regan trat zurück und Ross Tennenbaum wurde als Nachfolger während einer laufenden strategischen Übergangsphase bestellt.' },
         severity: 'minor',
         date: '2025-12-10',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1467623/000146762325000131/dbx-20251205.htm',
@@ -6424,21 +6478,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'dropbox-subscription-fee-change-on-renewal',
         text: 'Dropbox Terms allow fee changes at subscription renewal with at least 30 days notice, requiring active contract monitoring for cost-sensitive teams.',
-        textDe: 'Die Dropbox-AGB erlauben Gebührenänderungen zur Verlängerung bei mindestens 30 Tagen Vorankündigung; für kostensensitive Teams ist daher aktives Vertragsmonitoring nötig.',
+        localizedTexts: { de: 'Die Dropbox-AGB erlauben Gebührenänderungen zur Verlängerung bei mindestens 30 Tagen Vorankündigung; für kostensensitive Teams ist daher aktives Vertragsmonitoring nötig.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dropbox.com/terms',
       },
       {
         id: 'dropbox-termination-can-block-export-and-refunds',
         text: 'Dropbox Terms state that after suspension or termination users may be unable to access or export content and that refunds are generally not provided where Dropbox suspends or terminates access.',
-        textDe: 'Die Dropbox-AGB nennen, dass Nutzer nach Sperre oder Kündigung unter Umständen nicht mehr auf Inhalte zugreifen oder diese exportieren können und dass bei durch Dropbox veranlasster Sperre/Kündigung grundsätzlich keine Rückerstattungen erfolgen.',
+        localizedTexts: { de: 'Die Dropbox-AGB nennen, dass Nutzer nach Sperre oder Kündigung unter Umständen nicht mehr auf Inhalte zugreifen oder diese exportieren können und dass bei durch Dropbox veranlasster Sperre/Kündigung grundsätzlich keine Rückerstattungen erfolgen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.dropbox.com/terms',
       },
       {
         id: 'dropbox-dbxcli-unofficial-maintenance-risk',
         text: 'The Dropbox-hosted dbxcli repository labels itself as unofficial with no formal support, and its latest release is from January 2019, signaling maintenance and support limitations for this tooling surface.',
-        textDe: 'Das von Dropbox gehostete dbxcli-Repository kennzeichnet sich selbst als inoffiziell ohne formalen Support; der letzte Release stammt aus Januar 2019, was Wartungs- und Supportgrenzen dieser Tooling-Oberfläche signalisiert.',
+        localizedTexts: { de: 'Das von Dropbox gehostete dbxcli-Repository kennzeichnet sich selbst als inoffiziell ohne formalen Support; der letzte Release stammt aus Januar 2019, was Wartungs- und Supportgrenzen dieser Tooling-Oberfläche signalisiert.' },
         severity: 'minor',
         sourceUrl: 'https://github.com/dropbox/dbxcli',
       },
@@ -6448,13 +6502,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.3,
     description:
         'US-operated edge and security platform with very strong security engineering and transparency signals, but trust is reduced by the 2025 Salesloft/Drift supply-chain breach, repeated high-impact outages in late 2025, concentrated founder voting control, and US-jurisdiction transfer exposure.',
-    descriptionDe:
-        'US-Edge- und Sicherheitsplattform mit sehr starken Security-Engineering- und Transparenzsignalen; das Vertrauen sinkt jedoch durch den Salesloft/Drift-Supply-Chain-Breach 2025, wiederholte hochwirksame Ausfälle Ende 2025, konzentrierte Gründer-Stimmrechtskontrolle und Transferexposition unter US-Jurisdiktion.',
+    localizedDescriptions: {
+      de: 'US-Edge- und Sicherheitsplattform mit sehr starken Security-Engineering- und Transparenzsignalen; das Vertrauen sinkt jedoch durch den Salesloft/Drift-Supply-Chain-Breach 2025, wiederholte hochwirksame Ausfälle Ende 2025, konzentrierte Gründer-Stimmrechtskontrolle und Transferexposition unter US-Jurisdiktion.',
+    },
     reservations: [
       {
         id: 'cloudflare-salesloft-drift-supply-chain-breach-2025',
         text: 'Cloudflare disclosed that the Salesloft Drift compromise exposed Salesforce support-case text and customer contact data in 2025.',
-        textDe: 'Cloudflare legte offen, dass der Salesloft-Drift-Kompromittierungsweg 2025 Salesforce-Support-Case-Texte und Kundenkontaktdaten exponierte.',
+        localizedTexts: { de: 'Cloudflare legte offen, dass der Salesloft-Drift-Kompromittierungsweg 2025 Salesforce-Support-Case-Texte und Kundenkontaktdaten exponierte.' },
         severity: 'major',
         date: '2025-09-02',
         sourceUrl: 'https://blog.cloudflare.com/response-to-salesloft-drift-incident/',
@@ -6462,7 +6517,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-customer-secret-rotation-guidance-2025',
         text: 'Cloudflare advised customers to treat any secrets shared via support cases as compromised and rotate credentials after the breach.',
-        textDe: 'Cloudflare riet Kunden, nach dem Vorfall alle über Support-Cases geteilten Geheimnisse als kompromittiert zu behandeln und Zugangsdaten zu rotieren.',
+        localizedTexts: { de: 'Cloudflare riet Kunden, nach dem Vorfall alle über Support-Cases geteilten Geheimnisse als kompromittiert zu behandeln und Zugangsdaten zu rotieren.' },
         severity: 'major',
         date: '2025-09-02',
         sourceUrl: 'https://cloud.google.com/blog/topics/threat-intelligence/data-theft-salesforce-instances-via-salesloft-drift',
@@ -6470,7 +6525,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-major-outage-2025-11-18',
         text: 'Cloudflare reported a major November 18, 2025 outage where an oversized bot-management feature file caused broad routing failures.',
-        textDe: 'Cloudflare meldete am 18. November 2025 einen schweren Ausfall, bei dem eine ubergrosse Bot-Management-Feature-Datei breite Routing-Fehler ausloeste.',
+        localizedTexts: { de: 'Cloudflare meldete am 18. November 2025 einen schweren Ausfall, bei dem eine ubergrosse Bot-Management-Feature-Datei breite Routing-Fehler ausloeste.' },
         severity: 'moderate',
         date: '2025-11-18',
         sourceUrl: 'https://blog.cloudflare.com/18-november-2025-outage/',
@@ -6478,7 +6533,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-major-outage-2025-12-05',
         text: 'Cloudflare reported another significant outage on December 5, 2025 after WAF body-parsing changes triggered widespread HTTP 500 errors.',
-        textDe: 'Cloudflare meldete am 5. Dezember 2025 einen weiteren signifikanten Ausfall, nachdem WAF-Body-Parsing-Aenderungen verbreitete HTTP-500-Fehler ausloesten.',
+        localizedTexts: { de: 'Cloudflare meldete am 5. Dezember 2025 einen weiteren signifikanten Ausfall, nachdem WAF-Body-Parsing-Aenderungen verbreitete HTTP-500-Fehler ausloesten.' },
         severity: 'moderate',
         date: '2025-12-05',
         sourceUrl: 'https://blog.cloudflare.com/5-december-2025-outage/',
@@ -6486,42 +6541,42 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-dual-class-voting-concentration-2025',
         text: 'Cloudflare\'s 10-Q reports concentrated voting power under its dual-class structure, limiting outside shareholder influence.',
-        textDe: 'Das 10-Q von Cloudflare weist unter der Dual-Class-Struktur eine konzentrierte Stimmrechtsmacht aus, was den Einfluss externer Aktionaere begrenzt.',
+        localizedTexts: { de: 'Das 10-Q von Cloudflare weist unter der Dual-Class-Struktur eine konzentrierte Stimmrechtsmacht aus, was den Einfluss externer Aktionaere begrenzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/Archives/edgar/data/1477333/000147733325000137/cloud-20250630.htm',
       },
       {
         id: 'cloudflare-network-data-ownership-terms',
         text: 'Self-serve terms state Cloudflare retains rights in derived "Network Data" and can use it to provide, maintain, develop, and improve services.',
-        textDe: 'Die Self-Serve-Bedingungen nennen, dass Cloudflare Rechte an abgeleiteten "Network Data" behaelt und diese zur Bereitstellung, Wartung, Entwicklung und Verbesserung von Diensten nutzen kann.',
+        localizedTexts: { de: 'Die Self-Serve-Bedingungen nennen, dass Cloudflare Rechte an abgeleiteten "Network Data" behaelt und diese zur Bereitstellung, Wartung, Entwicklung und Verbesserung von Diensten nutzen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://www.cloudflare.com/terms/',
       },
       {
         id: 'cloudflare-auto-renewal-and-cancellation-window',
         text: 'Paid self-serve subscriptions auto-renew by default unless canceled via dashboard before the next billing date.',
-        textDe: 'Bezahlte Self-Serve-Abos verlaengern sich standardmaessig automatisch, sofern sie nicht vor dem naechsten Abrechnungsdatum im Dashboard gekuendigt werden.',
+        localizedTexts: { de: 'Bezahlte Self-Serve-Abos verlaengern sich standardmaessig automatisch, sofern sie nicht vor dem naechsten Abrechnungsdatum im Dashboard gekuendigt werden.' },
         severity: 'moderate',
         sourceUrl: 'https://www.cloudflare.com/terms/',
       },
       {
         id: 'cloudflare-us-jurisdiction-and-cross-border-transfers',
         text: 'Cloudflare describes itself as a US-based global company and states that personal data may be transferred internationally, including with SCC fallback.',
-        textDe: 'Cloudflare beschreibt sich als US-basiertes globales Unternehmen und nennt internationale Datentransfers personenbezogener Daten einschliesslich SCC-Fallback.',
+        localizedTexts: { de: 'Cloudflare beschreibt sich als US-basiertes globales Unternehmen und nennt internationale Datentransfers personenbezogener Daten einschliesslich SCC-Fallback.' },
         severity: 'moderate',
         sourceUrl: 'https://www.cloudflare.com/privacypolicy/',
       },
       {
         id: 'cloudflare-data-localization-enterprise-only',
         text: 'Data Localization Suite is documented as an Enterprise-only paid add-on, so stronger residency controls are not baseline across plans.',
-        textDe: 'Die Data Localization Suite ist als kostenpflichtiges Enterprise-only Add-on dokumentiert, sodass staerkere Residency-Kontrollen nicht planuebergreifend Standard sind.',
+        localizedTexts: { de: 'Die Data Localization Suite ist als kostenpflichtiges Enterprise-only Add-on dokumentiert, sodass staerkere Residency-Kontrollen nicht planuebergreifend Standard sind.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.cloudflare.com/data-localization/',
       },
       {
         id: 'cloudflare-spain-laliga-blocking-conflict-2026',
         text: 'AP reporting documents an active conflict between LaLiga and Cloudflare over anti-piracy blocking and alleged overblocking of lawful services in Spain.',
-        textDe: 'AP-Berichte dokumentieren einen aktiven Konflikt zwischen LaLiga und Cloudflare zu Anti-Piraterie-Blockierungen und behauptetem Overblocking legaler Dienste in Spanien.',
+        localizedTexts: { de: 'AP-Berichte dokumentieren einen aktiven Konflikt zwischen LaLiga und Cloudflare zu Anti-Piraterie-Blockierungen und behauptetem Overblocking legaler Dienste in Spanien.' },
         severity: 'moderate',
         date: '2026-01-26',
         sourceUrl: 'https://apnews.com/article/ae520f11b6926476e79fbb9954463f05',
@@ -6529,7 +6584,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-pro-business-price-increase-2023',
         text: 'Cloudflare raised Pro and Business list prices in 2023 for new signups, reducing long-term price predictability for budget-sensitive customers.',
-        textDe: 'Cloudflare erhoehte 2023 die Listenpreise fuer Pro- und Business-Tarife bei Neuabschluessen, was die langfristige Preisplanbarkeit fuer kostensensitive Kunden reduziert.',
+        localizedTexts: { de: 'Cloudflare erhoehte 2023 die Listenpreise fuer Pro- und Business-Tarife bei Neuabschluessen, was die langfristige Preisplanbarkeit fuer kostensensitive Kunden reduziert.' },
         severity: 'moderate',
         date: '2023-01-15',
         sourceUrl: 'https://blog.cloudflare.com/adjusting-pricing-introducing-annual-plans-and-accelerating-innovation/',
@@ -6537,7 +6592,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-atlassian-internal-security-incident-2023',
         text: 'Cloudflare disclosed a Thanksgiving 2023 internal security incident where attackers accessed Atlassian systems and limited source code via previously stolen credentials.',
-        textDe: 'Cloudflare legte einen internen Sicherheitsvorfall zu Thanksgiving 2023 offen, bei dem Angreifer ueber zuvor gestohlene Zugangsdaten auf Atlassian-Systeme und begrenzten Source Code zugriffen.',
+        localizedTexts: { de: 'Cloudflare legte einen internen Sicherheitsvorfall zu Thanksgiving 2023 offen, bei dem Angreifer ueber zuvor gestohlene Zugangsdaten auf Atlassian-Systeme und begrenzten Source Code zugriffen.' },
         severity: 'moderate',
         date: '2023-11-14',
         sourceUrl: 'https://blog.cloudflare.com/thanksgiving-2023-security-incident/',
@@ -6545,7 +6600,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-latency-error-incident-2024-06-20',
         text: 'Cloudflare reported a June 20, 2024 incident with 114 minutes of elevated latency/errors and up to 2.1% CDN request error impact at peak.',
-        textDe: 'Cloudflare meldete fuer den 20. Juni 2024 einen Vorfall mit 114 Minuten erhoehter Latenz/Fehler und bis zu 2,1 Prozent CDN-Request-Fehlern in der Spitze.',
+        localizedTexts: { de: 'Cloudflare meldete fuer den 20. Juni 2024 einen Vorfall mit 114 Minuten erhoehter Latenz/Fehler und bis zu 2,1 Prozent CDN-Request-Fehlern in der Spitze.' },
         severity: 'moderate',
         date: '2024-06-20',
         sourceUrl: 'https://blog.cloudflare.com/cloudflare-incident-on-june-20-2024/',
@@ -6553,7 +6608,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-drift-breach-third-party-corroboration-2025',
         text: 'Independent reporting corroborated that Salesloft Drift abuse exposed Cloudflare Salesforce case data and could include credentials shared in support text.',
-        textDe: 'Unabhaengige Berichterstattung bestaetigte, dass der Salesloft-Drift-Missbrauch Cloudflare-Salesforce-Case-Daten exponierte und in Support-Texten geteilte Zugangsdaten enthalten konnte.',
+        localizedTexts: { de: 'Unabhaengige Berichterstattung bestaetigte, dass der Salesloft-Drift-Missbrauch Cloudflare-Salesforce-Case-Daten exponierte und in Support-Texten geteilte Zugangsdaten enthalten konnte.' },
         severity: 'moderate',
         date: '2025-09-03',
         sourceUrl: 'https://www.bleepingcomputer.com/news/security/cloudflare-hit-by-data-breach-in-salesloft-drift-supply-chain-attack/',
@@ -6561,7 +6616,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-overblocking-collateral-impact-vercel-2025',
         text: 'Vercel documented collateral blocking of lawful sites in Spain tied to LaLiga anti-piracy IP blocking orders, reinforcing infrastructure-gatekeeper risk.',
-        textDe: 'Vercel dokumentierte in Spanien Kollateralschaeden durch die Blockierung legaler Websites im Zusammenhang mit LaLiga-IP-Blocking-Anordnungen und verstaerkt damit das Infrastruktur-Gatekeeper-Risiko.',
+        localizedTexts: { de: 'Vercel dokumentierte in Spanien Kollateralschaeden durch die Blockierung legaler Websites im Zusammenhang mit LaLiga-IP-Blocking-Anordnungen und verstaerkt damit das Infrastruktur-Gatekeeper-Risiko.' },
         severity: 'moderate',
         date: '2025-04-15',
         sourceUrl: 'https://vercel.com/blog/update-on-spain-and-laliga-blocks-of-the-internet',
@@ -6569,21 +6624,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cloudflare-billing-downgrade-no-refund-policy',
         text: 'Cloudflare billing docs state downgrades and cancellations do not take immediate effect and generally do not provide refunds for early cancellation/downgrade.',
-        textDe: 'Die Cloudflare-Billing-Dokumentation nennt, dass Downgrades und Kuendigungen nicht sofort wirksam werden und fuer fruehe Kuendigungen/Downgrades grundsaetzlich keine Rueckerstattungen erfolgen.',
+        localizedTexts: { de: 'Die Cloudflare-Billing-Dokumentation nennt, dass Downgrades und Kuendigungen nicht sofort wirksam werden und fuer fruehe Kuendigungen/Downgrades grundsaetzlich keine Rueckerstattungen erfolgen.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.cloudflare.com/billing/cancel-subscription/',
       },
       {
         id: 'cloudflare-downgrade-overage-charge-risk',
         text: 'Cloudflare change-plan documentation warns that downgrading can still incur extra charges (for example excess Page Rules) until limits are cleaned up.',
-        textDe: 'Die Cloudflare-Change-Plan-Dokumentation warnt, dass bei Downgrades weiterhin Zusatzkosten entstehen koennen (z. B. fuer ueberschuessige Page Rules), bis Ueberschreitungen bereinigt sind.',
+        localizedTexts: { de: 'Die Cloudflare-Change-Plan-Dokumentation warnt, dass bei Downgrades weiterhin Zusatzkosten entstehen koennen (z. B. fuer ueberschuessige Page Rules), bis Ueberschreitungen bereinigt sind.' },
         severity: 'moderate',
         sourceUrl: 'https://developers.cloudflare.com/billing/change-plan/',
       },
       {
         id: 'cloudflare-public-performance-termination-controversy-2024',
         text: 'A widely circulated 2024 termination call controversy became a public governance/reputation signal around performance-based workforce reductions.',
-        textDe: 'Eine breit diskutierte Trennungs-Kontroverse aus 2024 wurde zu einem oeffentlichen Governance-/Reputationssignal rund um performancebasierte Personalreduktionen.',
+        localizedTexts: { de: 'Eine breit diskutierte Trennungs-Kontroverse aus 2024 wurde zu einem oeffentlichen Governance-/Reputationssignal rund um performancebasierte Personalreduktionen.' },
         severity: 'minor',
         date: '2024-01-12',
         sourceUrl: 'https://www.businessinsider.com/corporate-employee-recorded-getting-laid-off-viral-tiktok-2024-1',
@@ -6594,13 +6649,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.3,
     description:
         'US-operated payments platform with strong scale and compliance signaling, but trust is materially reduced by a recent cybersecurity settlement, AI training on personal data, cross-border processing exposure, and recurring governance/operations friction.',
-    descriptionDe:
-        'US-Zahlungsplattform mit starker Skalierung und Compliance-Signalen, deren Vertrauen jedoch durch einen jüngsten Cybersecurity-Vergleich, KI-Training mit Personendaten, grenzüberschreitende Verarbeitung sowie wiederkehrende Governance- und Betriebsfriktionen deutlich sinkt.',
+    localizedDescriptions: {
+      de: 'US-Zahlungsplattform mit starker Skalierung und Compliance-Signalen, deren Vertrauen jedoch durch einen jüngsten Cybersecurity-Vergleich, KI-Training mit Personendaten, grenzüberschreitende Verarbeitung sowie wiederkehrende Governance- und Betriebsfriktionen deutlich sinkt.',
+    },
     reservations: [
       {
         id: 'paypal-nydfs-cybersecurity-settlement-2025',
         text: 'New York DFS announced a $2M settlement in January 2025 tied to cybersecurity control failures that exposed sensitive customer tax information.',
-        textDe: 'Das New Yorker DFS meldete im Januar 2025 einen Vergleich über 2 Mio. USD wegen Cybersecurity-Kontrollfehlern, durch die sensible Steuerdaten von Kunden exponiert wurden.',
+        localizedTexts: { de: 'Das New Yorker DFS meldete im Januar 2025 einen Vergleich über 2 Mio. USD wegen Cybersecurity-Kontrollfehlern, durch die sensible Steuerdaten von Kunden exponiert wurden.' },
         severity: 'major',
         date: '2025-01-23',
         sourceUrl: 'https://www.dfs.ny.gov/reports_and_publications/press_releases/pr20250123',
@@ -6608,28 +6664,28 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'paypal-ai-training-personal-information',
         text: 'PayPal privacy terms state that personal information may be used to train AI models that power PayPal services.',
-        textDe: 'Die PayPal-Datenschutzhinweise nennen, dass Personendaten zum Training von KI-Modellen für PayPal-Dienste genutzt werden können.',
+        localizedTexts: { de: 'Die PayPal-Datenschutzhinweise nennen, dass Personendaten zum Training von KI-Modellen für PayPal-Dienste genutzt werden können.' },
         severity: 'major',
         sourceUrl: 'https://www.paypal.com/us/legalhub/paypal/privacy-full',
       },
       {
         id: 'paypal-cross-border-processing-us',
         text: 'PayPal states that personal information may be transferred and processed outside the user country, including in the United States.',
-        textDe: 'PayPal gibt an, dass Personendaten ausserhalb des Nutzerlandes verarbeitet und übertragen werden können, einschliesslich in die USA.',
+        localizedTexts: { de: 'PayPal gibt an, dass Personendaten ausserhalb des Nutzerlandes verarbeitet und übertragen werden können, einschliesslich in die USA.' },
         severity: 'moderate',
         sourceUrl: 'https://www.paypal.com/us/legalhub/paypal/privacy-full',
       },
       {
         id: 'paypal-account-limits-and-security-interest',
         text: 'PayPal User Agreement allows account limits/holds and includes a security-interest framing for funds in the account.',
-        textDe: 'Die PayPal-Nutzungsbedingungen erlauben Kontolimits/Sperren und enthalten eine Security-Interest-Logik für Guthaben auf dem Konto.',
+        localizedTexts: { de: 'Die PayPal-Nutzungsbedingungen erlauben Kontolimits/Sperren und enthalten eine Security-Interest-Logik für Guthaben auf dem Konto.' },
         severity: 'moderate',
         sourceUrl: 'https://www.paypal.com/us/legalhub/paypal/useragreement-full',
       },
       {
         id: 'paypal-bundeskartellamt-antitrust-proceeding',
         text: 'Germany\'s Bundeskartellamt opened proceedings in 2023 over PayPal terms that may restrict merchant price steering and surcharge competition.',
-        textDe: 'Das Bundeskartellamt leitete 2023 ein Verfahren zu PayPal-Klauseln ein, die Preissteuerung von Händlern und Aufschlagswettbewerb einschranken könnten.',
+        localizedTexts: { de: 'Das Bundeskartellamt leitete 2023 ein Verfahren zu PayPal-Klauseln ein, die Preissteuerung von Händlern und Aufschlagswettbewerb einschranken könnten.' },
         severity: 'moderate',
         date: '2023-01-23',
         sourceUrl: 'https://www.bundeskartellamt.de/SharedDocs/Meldung/EN/Pressemitteilungen/2023/23_01_2023_PayPal.html',
@@ -6637,7 +6693,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'paypal-operational-incidents-2026',
         text: 'PayPal\'s public status RSS lists repeated 2026 incident notices across production and sandbox components, including payment tokenization and 3DS impact windows.',
-        textDe: 'Der öffentliche PayPal-Status-RSS-Feed listet 2026 wiederholt Incident-Meldungen über Produktions- und Sandbox-Komponenten, inklusive Payment-Tokenization- und 3DS-Beeinträchtigungen.',
+        localizedTexts: { de: 'Der öffentliche PayPal-Status-RSS-Feed listet 2026 wiederholt Incident-Meldungen über Produktions- und Sandbox-Komponenten, inklusive Payment-Tokenization- und 3DS-Beeinträchtigungen.' },
         severity: 'moderate',
         date: '2026-01-19',
         sourceUrl: 'https://www.paypal-status.com/feed/rss',
@@ -6645,7 +6701,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'paypal-leadership-transition-2026',
         text: 'On February 3, 2026, PayPal announced a CEO transition with interim leadership after a board-led execution review.',
-        textDe: 'Am 3. Februar 2026 veröffentlichte PayPal einen CEO-Wechsel mit Interimsphase nach einer board-getriebenen Überprüfung der Umsetzung.',
+        localizedTexts: { de: 'Am 3. Februar 2026 veröffentlichte PayPal einen CEO-Wechsel mit Interimsphase nach einer board-getriebenen Überprüfung der Umsetzung.' },
         severity: 'moderate',
         date: '2026-02-03',
         sourceUrl: 'https://newsroom.paypal-corp.com/2026-02-03-PayPal-Appoints-Enrique-Lores-as-Chief-Executive-Officer-and-David-W-Dorman-as-Independent-Board-Chair',
@@ -6653,7 +6709,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'paypal-policy-update-cadence-2026',
         text: 'PayPal\'s Legal Hub shows continuing policy and fee update notices with fixed effective dates, requiring active contractual monitoring.',
-        textDe: 'Der Legal Hub von PayPal zeigt fortlaufende Policy- und Gebühren-Updates mit festen Wirksamkeitsdaten, was aktives Vertrags-Monitoring erfordert.',
+        localizedTexts: { de: 'Der Legal Hub von PayPal zeigt fortlaufende Policy- und Gebühren-Updates mit festen Wirksamkeitsdaten, was aktives Vertrags-Monitoring erfordert.' },
         severity: 'minor',
         date: '2026-01-26',
         sourceUrl: 'https://www.paypal.com/us/legalhub/paypal/upcoming-policies-full',
@@ -6664,13 +6720,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 2.1,
     description:
         'US-operated payments ecosystem (Square/Cash App) with strong PCI and engineering maturity, but trust is heavily reduced by major 2025 consumer-protection and AML enforcement actions, AI-training/data-sharing terms, and broad contractual powers over reserves, suspensions, and arbitration.',
-    descriptionDe:
-        'US-Payments-Oekosystem (Square/Cash App) mit starker PCI- und Engineering-Reife; das Vertrauen wird jedoch durch schwere Verbraucherschutz- und AML-Durchsetzungsfaelle 2025, KI-Training/Datenweitergabe in den Bedingungen sowie weitreichende Vertragsrechte zu Reserven, Sperren und Schiedsverfahren deutlich reduziert.',
+    localizedDescriptions: {
+      de: 'US-Payments-Oekosystem (Square/Cash App) mit starker PCI- und Engineering-Reife; das Vertrauen wird jedoch durch schwere Verbraucherschutz- und AML-Durchsetzungsfaelle 2025, KI-Training/Datenweitergabe in den Bedingungen sowie weitreichende Vertragsrechte zu Reserven, Sperren und Schiedsverfahren deutlich reduziert.',
+    },
     reservations: [
       {
         id: 'block-cfpb-enforcement-order-cash-app-2025',
         text: 'The CFPB ordered Block/Cash App in January 2025 to pay up to $120M in consumer redress plus a $55M penalty and to improve fraud/dispute handling controls.',
-        textDe: 'Die CFPB verpflichtete Block/Cash App im Januar 2025 zu bis zu 120 Mio. USD Verbrauchererstattung plus 55 Mio. USD Strafe sowie zu Verbesserungen bei Fraud- und Dispute-Kontrollen.',
+        localizedTexts: { de: 'Die CFPB verpflichtete Block/Cash App im Januar 2025 zu bis zu 120 Mio. USD Verbrauchererstattung plus 55 Mio. USD Strafe sowie zu Verbesserungen bei Fraud- und Dispute-Kontrollen.' },
         severity: 'major',
         date: '2025-01-16',
         sourceUrl: 'https://www.consumerfinance.gov/about-us/newsroom/cfpb-orders-block-and-cash-app-to-address-fraud-and-pay-175-million/',
@@ -6678,7 +6735,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'block-multistate-aml-settlement-2025',
         text: 'US state regulators announced an $80M multistate settlement over Bank Secrecy Act and anti-money-laundering deficiencies tied to Cash App.',
-        textDe: 'US-Bundesstaatliche Aufseher veroeffentlichten einen Vergleich ueber 80 Mio. USD wegen Defiziten bei Bank Secrecy Act und Anti-Money-Laundering im Cash-App-Kontext.',
+        localizedTexts: { de: 'US-Bundesstaatliche Aufseher veroeffentlichten einen Vergleich ueber 80 Mio. USD wegen Defiziten bei Bank Secrecy Act und Anti-Money-Laundering im Cash-App-Kontext.' },
         severity: 'major',
         date: '2025-01-15',
         sourceUrl: 'https://www.csbs.org/newsroom/state-regulators-settle-block-inc-over-bank-secrecy-act-and-anti-money-laundering-deficiencies',
@@ -6686,7 +6743,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'block-nydfs-aml-penalty-monitor-2025',
         text: 'New York DFS announced a $40M AML penalty and required an independent monitor for Block entities after identifying compliance failures.',
-        textDe: 'Das New York DFS veroeffentlichte eine AML-Strafe ueber 40 Mio. USD und ordnete einen unabhaengigen Monitor fuer Block-Einheiten nach festgestellten Compliance-Maengeln an.',
+        localizedTexts: { de: 'Das New York DFS veroeffentlichte eine AML-Strafe ueber 40 Mio. USD und ordnete einen unabhaengigen Monitor fuer Block-Einheiten nach festgestellten Compliance-Maengeln an.' },
         severity: 'major',
         date: '2025-04-10',
         sourceUrl: 'https://www.dfs.ny.gov/reports_and_publications/press_releases/pr20250410',
@@ -6694,7 +6751,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'block-former-employee-data-access-incident-2022',
         text: 'Block disclosed in an SEC filing that a former employee downloaded Cash App Investing customer reports in a 2022 security incident affecting US users.',
-        textDe: 'Block legte in einem SEC-Filing offen, dass ein ehemaliger Mitarbeiter in einem Sicherheitsvorfall 2022 Kundenberichte von Cash App Investing heruntergeladen hat; betroffen waren US-Nutzer.',
+        localizedTexts: { de: 'Block legte in einem SEC-Filing offen, dass ein ehemaliger Mitarbeiter in einem Sicherheitsvorfall 2022 Kundenberichte von Cash App Investing heruntergeladen hat; betroffen waren US-Nutzer.' },
         severity: 'major',
         date: '2022-04-04',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1512673/000119312522096075/d314680d8k.htm',
@@ -6702,49 +6759,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'cash-app-privacy-ai-ml-training-purpose',
         text: 'Cash App privacy terms state customer personal information may be used to personalize and improve services, including training AI and machine-learning models.',
-        textDe: 'Die Cash-App-Privacy-Bedingungen nennen, dass personenbezogene Kundendaten zur Personalisierung und Verbesserung von Diensten genutzt werden koennen, einschliesslich Training von KI- und Machine-Learning-Modellen.',
+        localizedTexts: { de: 'Die Cash-App-Privacy-Bedingungen nennen, dass personenbezogene Kundendaten zur Personalisierung und Verbesserung von Diensten genutzt werden koennen, einschliesslich Training von KI- und Machine-Learning-Modellen.' },
         severity: 'major',
         sourceUrl: 'https://cash.app/legal/us/en-us/privacy',
       },
       {
         id: 'square-generative-ai-third-party-service-improvement',
         text: 'Square generative AI terms state inputs can be shared with third-party providers (including OpenAI) and those providers may use data to improve their services.',
-        textDe: 'Die Square-Generative-AI-Bedingungen nennen, dass Eingaben mit Drittanbietern (einschliesslich OpenAI) geteilt werden koennen und diese Anbieter Daten zur Verbesserung ihrer Dienste nutzen duerfen.',
+        localizedTexts: { de: 'Die Square-Generative-AI-Bedingungen nennen, dass Eingaben mit Drittanbietern (einschliesslich OpenAI) geteilt werden koennen und diese Anbieter Daten zur Verbesserung ihrer Dienste nutzen duerfen.' },
         severity: 'major',
         sourceUrl: 'https://squareup.com/us/en/legal/general/generative-ai-terms',
       },
       {
         id: 'square-generative-ai-broad-content-license',
         text: 'Square generative AI terms grant Block/Square a broad license to use, host, process, and adapt AI content for service operation and improvement.',
-        textDe: 'Die Square-Generative-AI-Bedingungen gewaehren Block/Square eine breite Lizenz zur Nutzung, Speicherung, Verarbeitung und Anpassung von AI-Inhalten fuer Betrieb und Verbesserung der Dienste.',
+        localizedTexts: { de: 'Die Square-Generative-AI-Bedingungen gewaehren Block/Square eine breite Lizenz zur Nutzung, Speicherung, Verarbeitung und Anpassung von AI-Inhalten fuer Betrieb und Verbesserung der Dienste.' },
         severity: 'moderate',
         sourceUrl: 'https://squareup.com/us/en/legal/general/generative-ai-terms',
       },
       {
         id: 'square-reserves-and-holds-security-interest',
         text: 'Square payment terms allow reserves and holds for risk reasons, including security-interest/lien framing and broad debit rights against merchant balances.',
-        textDe: 'Die Square-Payment-Bedingungen erlauben Reserven und Einbehalte aus Risikogruenden, inklusive Security-Interest/Lien-Logik und weitreichender Debitrechte gegen Merchant-Guthaben.',
+        localizedTexts: { de: 'Die Square-Payment-Bedingungen erlauben Reserven und Einbehalte aus Risikogruenden, inklusive Security-Interest/Lien-Logik und weitreichender Debitrechte gegen Merchant-Guthaben.' },
         severity: 'major',
         sourceUrl: 'https://squareup.com/us/en/legal/general/payment',
       },
       {
         id: 'square-termination-suspension-any-reason',
         text: 'Square general terms allow termination or suspension of services at any time for any reason, increasing continuity risk for dependent merchants.',
-        textDe: 'Die allgemeinen Square-Bedingungen erlauben die Beendigung oder Sperrung von Diensten jederzeit aus jedem Grund und erhoehen damit das Kontinuitaetsrisiko fuer abhaengige Haendler.',
+        localizedTexts: { de: 'Die allgemeinen Square-Bedingungen erlauben die Beendigung oder Sperrung von Diensten jederzeit aus jedem Grund und erhoehen damit das Kontinuitaetsrisiko fuer abhaengige Haendler.' },
         severity: 'moderate',
         sourceUrl: 'https://squareup.com/us/en/legal/general/ua',
       },
       {
         id: 'square-binding-arbitration-mass-proceeding',
         text: 'Square terms include binding individual arbitration and mass-proceeding mechanisms that can reduce practical enforcement leverage for users and merchants.',
-        textDe: 'Die Square-Bedingungen enthalten bindende Individualschiedsverfahren und Mass-Proceeding-Mechaniken, die die praktische Durchsetzbarkeit von Anspruechen fuer Nutzer und Haendler reduzieren koennen.',
+        localizedTexts: { de: 'Die Square-Bedingungen enthalten bindende Individualschiedsverfahren und Mass-Proceeding-Mechaniken, die die praktische Durchsetzbarkeit von Anspruechen fuer Nutzer und Haendler reduzieren koennen.' },
         severity: 'moderate',
         sourceUrl: 'https://squareup.com/us/en/legal/general/ua',
       },
       {
         id: 'block-federal-prosecutor-compliance-probe-2024',
         text: 'Reuters reported in 2024 that US federal prosecutors were examining Block over compliance controls and transaction-monitoring issues.',
-        textDe: 'Reuters berichtete 2024, dass US-Bundesstaatsanwaelte Block wegen Compliance-Kontrollen und Transaktionsmonitoring-Problemen prueften.',
+        localizedTexts: { de: 'Reuters berichtete 2024, dass US-Bundesstaatsanwaelte Block wegen Compliance-Kontrollen und Transaktionsmonitoring-Problemen prueften.' },
         severity: 'moderate',
         date: '2024-05-01',
         sourceUrl: 'https://www.reuters.com/world/us/us-prosecutors-probe-block-over-widespread-compliance-lapses-nbc-news-reports-2024-05-01/',
@@ -6752,7 +6809,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'square-systemwide-outage-postmortem-2025',
         text: 'Square published a postmortem for the February 26, 2025 system-wide outage, attributing it to security-certificate validation issues that disrupted payment processing and Cash App services.',
-        textDe: 'Square veroeffentlichte ein Postmortem zum systemweiten Ausfall vom 26. Februar 2025 und fuehrte ihn auf Probleme bei der Security-Certificate-Validierung zurueck, die Zahlungsabwicklung und Cash-App-Dienste beeintraechtigten.',
+        localizedTexts: { de: 'Square veroeffentlichte ein Postmortem zum systemweiten Ausfall vom 26. Februar 2025 und fuehrte ihn auf Probleme bei der Security-Certificate-Validierung zurueck, die Zahlungsabwicklung und Cash-App-Dienste beeintraechtigten.' },
         severity: 'moderate',
         date: '2025-02-26',
         sourceUrl: 'https://developer.squareup.com/blog/an-analysis-of-the-square-and-cash-app-outage/',
@@ -6760,14 +6817,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'square-instant-transfer-fee-increase-policy-update',
         text: 'Square announced policy/pricing updates that raised instant and same-day transfer fees from 1.5% to 1.75%, adding cash-flow friction for merchants needing accelerated payouts.',
-        textDe: 'Square kuendigte Policy-/Pricing-Updates an, die die Gebuehren fuer Instant- und Same-Day-Transfers von 1,5 Prozent auf 1,75 Prozent anhoben und damit Cashflow-Reibung fuer Haendler mit beschleunigten Auszahlungen erhoehten.',
+        localizedTexts: { de: 'Square kuendigte Policy-/Pricing-Updates an, die die Gebuehren fuer Instant- und Same-Day-Transfers von 1,5 Prozent auf 1,75 Prozent anhoben und damit Cashflow-Reibung fuer Haendler mit beschleunigten Auszahlungen erhoehten.' },
         severity: 'moderate',
         sourceUrl: 'https://squareup.com/us/en/press/policy-and-pricing-updates',
       },
       {
         id: 'square-card-present-rate-change-and-plan-gating-2025',
         text: 'Square\'s 2025 extended-rate terms set a new 2.6% + 15c card-present standard rate and tied temporary access to older rates to paid subscription eligibility.',
-        textDe: 'Die Extended-Rate-Bedingungen von Square fuer 2025 setzten 2,6 Prozent + 15c als neuen Standard fuer Card-Present-Transaktionen und koppeln den temporaeren Zugang zu aelteren Saetzen an die Berechtigung ueber kostenpflichtige Abos.',
+        localizedTexts: { de: 'Die Extended-Rate-Bedingungen von Square fuer 2025 setzten 2,6 Prozent + 15c als neuen Standard fuer Card-Present-Transaktionen und koppeln den temporaeren Zugang zu aelteren Saetzen an die Berechtigung ueber kostenpflichtige Abos.' },
         severity: 'moderate',
         date: '2025-03-27',
         sourceUrl: 'https://squareup.com/us/en/legal/general/extended-cp-rate-offer-2025',
@@ -6775,7 +6832,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'block-status-incidents-2026',
         text: 'Cash App\'s public status history lists multiple 2026 incidents and partial disruptions, which is relevant for payment continuity planning.',
-        textDe: 'Die oeffentliche Cash-App-Statushistorie listet mehrere Vorfaelle und Teilausfaelle in 2026, was fuer die Planung von Zahlungs-Kontinuitaet relevant ist.',
+        localizedTexts: { de: 'Die oeffentliche Cash-App-Statushistorie listet mehrere Vorfaelle und Teilausfaelle in 2026, was fuer die Planung von Zahlungs-Kontinuitaet relevant ist.' },
         severity: 'minor',
         date: '2026-02-04',
         sourceUrl: 'https://status.cash.app/history',
@@ -6786,76 +6843,77 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 4.4,
     description:
         'US-operated payments infrastructure with strong security assurance and mature reliability, but trust is reduced by controller-scope data processing, cross-border transfer exposure, and broad contractual powers over reserves, payouts, and dispute economics.',
-    descriptionDe:
-        'US-Payments-Infrastruktur mit starken Security-Signalen und reifem Betrieb, deren Vertrauen jedoch durch Controller-Processing, grenzüberschreitende Datentransfers sowie weitreichende Vertragsrechte zu Reserven, Auszahlungen und Dispute-Kosten sinkt.',
+    localizedDescriptions: {
+      de: 'US-Payments-Infrastruktur mit starken Security-Signalen und reifem Betrieb, deren Vertrauen jedoch durch Controller-Processing, grenzüberschreitende Datentransfers sowie weitreichende Vertragsrechte zu Reserven, Auszahlungen und Dispute-Kosten sinkt.',
+    },
     reservations: [
       {
         id: 'stripe-controller-processing-beyond-processor-role',
         text: 'Stripe\'s DPA states that Stripe can act as a data controller (not only processor) for fraud prevention, loss mitigation, compliance, and product improvement.',
-        textDe: 'Das Stripe-DPA beschreibt, dass Stripe nicht nur als Processor, sondern auch als Data Controller für Betrugsprävention, Verlustminderung, Compliance und Produktverbesserung agieren kann.',
+        localizedTexts: { de: 'Das Stripe-DPA beschreibt, dass Stripe nicht nur als Processor, sondern auch als Data Controller für Betrugsprävention, Verlustminderung, Compliance und Produktverbesserung agieren kann.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/legal/dpa',
       },
       {
         id: 'stripe-cross-border-data-transfer-frameworks',
         text: 'Stripe\'s legal data-transfer framework allows international transfers, including US transfer mechanisms (for example DPF/SCC paths), which adds jurisdictional exposure for strict sovereignty requirements.',
-        textDe: 'Das Data-Transfer-Framework von Stripe erlaubt internationale Übermittlungen inklusive US-Transfermechanismen (z. B. DPF/SCC), was bei strikten Souveränitätsanforderungen zusätzliche Jurisdiktionsrisiken erzeugt.',
+        localizedTexts: { de: 'Das Data-Transfer-Framework von Stripe erlaubt internationale Übermittlungen inklusive US-Transfermechanismen (z. B. DPF/SCC), was bei strikten Souveränitätsanforderungen zusätzliche Jurisdiktionsrisiken erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/gb/legal/dta',
       },
       {
         id: 'stripe-reserve-and-funds-control-terms',
         text: 'Services terms allow Stripe to establish and adjust reserves, and release of reserve funds is tied to Stripe\'s risk assessment.',
-        textDe: 'Die Service-Bedingungen erlauben Stripe, Reserven einzurichten und anzupassen; die Freigabe von Reservegeldern ist an die Stripe-Risikobewertung gebunden.',
+        localizedTexts: { de: 'Die Service-Bedingungen erlauben Stripe, Reserven einzurichten und anzupassen; die Freigabe von Reservegeldern ist an die Stripe-Risikobewertung gebunden.' },
         severity: 'major',
         sourceUrl: 'https://stripe.com/legal/ssa-services-terms',
       },
       {
         id: 'stripe-payout-pauses-verification-and-risk-controls',
         text: 'Stripe support documentation states payout dates can be postponed when verification requirements are outstanding, and temporary reserves can reduce expected payout amounts.',
-        textDe: 'Die Stripe-Support-Dokumentation nennt, dass Auszahlungen bei offenen Verifizierungsanforderungen verschoben werden können und temporäre Reserven erwartete Auszahlungsbeträge reduzieren können.',
+        localizedTexts: { de: 'Die Stripe-Support-Dokumentation nennt, dass Auszahlungen bei offenen Verifizierungsanforderungen verschoben werden können und temporäre Reserven erwartete Auszahlungsbeträge reduzieren können.' },
         severity: 'moderate',
         sourceUrl: 'https://support.stripe.com/embedded-connect/questions/understanding-changes-to-my-payout-delivery-date',
       },
       {
         id: 'stripe-dispute-received-fee-non-refundable',
         text: 'Stripe disputes documentation states that dispute received fees are generally non-refundable and a separate countered fee applies when merchants contest disputes.',
-        textDe: 'Die Stripe-Disputes-Dokumentation nennt, dass die Dispute-Received-Fee in der Regel nicht erstattet wird und beim Anfechten zusätzlich eine Countered-Fee anfällt.',
+        localizedTexts: { de: 'Die Stripe-Disputes-Dokumentation nennt, dass die Dispute-Received-Fee in der Regel nicht erstattet wird und beim Anfechten zusätzlich eine Countered-Fee anfällt.' },
         severity: 'moderate',
         sourceUrl: 'https://docs.stripe.com/disputes/how-disputes-work',
       },
       {
         id: 'stripe-radar-cross-merchant-ml-data-use',
         text: 'Stripe privacy documentation describes Radar and internal risk tooling using personal and transactional data for AI/ML fraud scoring, including aggregated network-level signals.',
-        textDe: 'Die Stripe-Privacy-Dokumentation beschreibt Radar und interne Risk-Tooling-Modelle, die personen- und transaktionsbezogene Daten für KI/ML-Fraud-Scoring inklusive aggregierter Netzwerk-Signale nutzen.',
+        localizedTexts: { de: 'Die Stripe-Privacy-Dokumentation beschreibt Radar und interne Risk-Tooling-Modelle, die personen- und transaktionsbezogene Daten für KI/ML-Fraud-Scoring inklusive aggregierter Netzwerk-Signale nutzen.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/privacy-center/legal',
       },
       {
         id: 'stripe-soc1-soc2-artifacts-upon-request',
         text: 'Stripe\'s DPA states SOC 1 and SOC 2 reports are produced annually but provided upon request, which reduces public verifiability depth compared with fully public assurance artifacts.',
-        textDe: 'Das Stripe-DPA nennt, dass SOC-1- und SOC-2-Berichte jährlich erstellt, aber nur auf Anfrage bereitgestellt werden; dadurch ist die öffentliche Verifizierbarkeit geringer als bei vollständig öffentlichen Assurance-Artefakten.',
+        localizedTexts: { de: 'Das Stripe-DPA nennt, dass SOC-1- und SOC-2-Berichte jährlich erstellt, aber nur auf Anfrage bereitgestellt werden; dadurch ist die öffentliche Verifizierbarkeit geringer als bei vollständig öffentlichen Assurance-Artefakten.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/legal/dpa',
       },
       {
         id: 'stripe-support-not-obligated-to-customers',
         text: 'Stripe\'s Services Agreement states Stripe is not obligated to provide support to merchants\' customers, which can lengthen resolution paths in payout/dispute stress scenarios.',
-        textDe: 'Das Stripe Services Agreement stellt klar, dass Stripe nicht verpflichtet ist, Support für Kunden von Händlern bereitzustellen; das kann Lösungswege in Payout-/Dispute-Stressszenarien verlängern.',
+        localizedTexts: { de: 'Das Stripe Services Agreement stellt klar, dass Stripe nicht verpflichtet ist, Support für Kunden von Händlern bereitzustellen; das kann Lösungswege in Payout-/Dispute-Stressszenarien verlängern.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/legal/ssa',
       },
       {
         id: 'stripe-post-termination-data-retention-limits',
         text: 'Stripe\'s Services Agreement states Stripe is not obligated to retain data after contract end except for legal or post-termination obligations, so off-platform retention planning is required.',
-        textDe: 'Das Stripe Services Agreement nennt, dass Stripe nach Vertragsende grundsätzlich nicht zur Datenaufbewahrung verpflichtet ist, ausser für gesetzliche oder Post-Termination-Pflichten; externe Retention-Planung ist daher nötig.',
+        localizedTexts: { de: 'Das Stripe Services Agreement nennt, dass Stripe nach Vertragsende grundsätzlich nicht zur Datenaufbewahrung verpflichtet ist, ausser für gesetzliche oder Post-Termination-Pflichten; externe Retention-Planung ist daher nötig.' },
         severity: 'moderate',
         sourceUrl: 'https://stripe.com/legal/ssa',
       },
       {
         id: 'stripe-community-holds-closure-escalation-signal',
         text: 'Developer-community reports repeatedly describe account closures and long fund-hold escalation friction; these are OSINT signals rather than adjudicated findings, but remain operationally relevant for merchant cash-flow planning.',
-        textDe: 'Berichte aus der Entwickler-Community beschreiben wiederholt Kontoschliessungen und Reibung bei der Eskalation längerer Funds-Holds; das sind OSINT-Signale und keine gerichtsfesten Befunde, aber operativ für Cashflow-Planung relevant.',
+        localizedTexts: { de: 'Berichte aus der Entwickler-Community beschreiben wiederholt Kontoschliessungen und Reibung bei der Eskalation längerer Funds-Holds; das sind OSINT-Signale und keine gerichtsfesten Befunde, aber operativ für Cashflow-Planung relevant.' },
         severity: 'moderate',
         date: '2023-08-02',
         sourceUrl: 'https://news.ycombinator.com/item?id=36974034',
@@ -6863,7 +6921,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'stripe-public-repo-cicd-pwn-request-incident',
         text: 'A publicly documented 2024 incident in a Stripe public repository showed a GitHub Actions "pwn request" pattern with token-exposure risk in CI/CD workflow configuration.',
-        textDe: 'Ein öffentlich dokumentierter Vorfall von 2024 in einem Stripe-Public-Repository zeigte ein GitHub-Actions-"pwn request"-Muster mit Token-Expositionsrisiko in der CI/CD-Workflow-Konfiguration.',
+        localizedTexts: { de: 'Ein öffentlich dokumentierter Vorfall von 2024 in einem Stripe-Public-Repository zeigte ein GitHub-Actions-"pwn request"-Muster mit Token-Expositionsrisiko in der CI/CD-Workflow-Konfiguration.' },
         severity: 'moderate',
         date: '2024-10-01',
         sourceUrl: 'https://www.stepsecurity.io/incidents',
@@ -6871,7 +6929,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'stripe-cli-path-traversal-cve-2024-45401',
         text: 'A 2024 Stripe CLI security advisory disclosed a path traversal / arbitrary file overwrite issue (CVE-2024-45401), patched in version 1.21.3.',
-        textDe: 'Ein Stripe-CLI-Sicherheitsadvisory von 2024 beschrieb ein Path-Traversal-/Arbitrary-File-Overwrite-Problem (CVE-2024-45401), behoben in Version 1.21.3.',
+        localizedTexts: { de: 'Ein Stripe-CLI-Sicherheitsadvisory von 2024 beschrieb ein Path-Traversal-/Arbitrary-File-Overwrite-Problem (CVE-2024-45401), behoben in Version 1.21.3.' },
         severity: 'moderate',
         date: '2024-09-05',
         sourceUrl: 'https://github.com/stripe/stripe-cli/security/advisories/GHSA-fv4g-gwpj-74gr',
@@ -6882,13 +6940,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.7,
     description:
         'US-operated commerce platform with strong security assurance and mature operations, but trust is reduced by insider incident history, broad contractual rights over merchant materials, and privacy complexity from cross-merchant intelligence and AI subprocessors.',
-    descriptionDe:
-        'US-Commerce-Plattform mit starken Security-Signalen und reifer Betriebsstabilität, deren Vertrauen aber durch Insider-Vorfallshistorie, breite Vertragsrechte an Merchant-Materialien sowie Privacy-Komplexität durch händlerübergreifende Datenintelligenz und KI-Unterauftragsverarbeiter sinkt.',
+    localizedDescriptions: {
+      de: 'US-Commerce-Plattform mit starken Security-Signalen und reifer Betriebsstabilität, deren Vertrauen aber durch Insider-Vorfallshistorie, breite Vertragsrechte an Merchant-Materialien sowie Privacy-Komplexität durch händlerübergreifende Datenintelligenz und KI-Unterauftragsverarbeiter sinkt.',
+    },
     reservations: [
       {
         id: 'shopify-insider-incident-2020',
         text: 'Shopify disclosed in September 2020 that two rogue support staff accessed customer transactional records for fewer than 200 merchants.',
-        textDe: 'Shopify meldete im September 2020, dass zwei rogue Support-Mitarbeiter auf transaktionale Kundendaten von weniger als 200 Händlern zugegriffen haben.',
+        localizedTexts: { de: 'Shopify meldete im September 2020, dass zwei rogue Support-Mitarbeiter auf transaktionale Kundendaten von weniger als 200 Händlern zugegriffen haben.' },
         severity: 'major',
         date: '2020-09-22',
         sourceUrl: 'https://community.shopify.com/c/shopify-discussions/what-happened-in-the-recent-data-incident-involving-less-than/td-p/888971',
@@ -6896,35 +6955,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'shopify-network-intelligence-cross-merchant-processing',
         text: 'When Shopify Network Intelligence is enabled, customer data is used together with data from other merchants for Enhanced Services, increasing consent and opt-out compliance burden.',
-        textDe: 'Wenn Shopify Network Intelligence aktiviert ist, werden Kundendaten zusammen mit Daten anderer Händler für Enhanced Services genutzt, was Consent- und Opt-out-Compliance aufwändiger macht.',
+        localizedTexts: { de: 'Wenn Shopify Network Intelligence aktiviert ist, werden Kundendaten zusammen mit Daten anderer Händler für Enhanced Services genutzt, was Consent- und Opt-out-Compliance aufwändiger macht.' },
         severity: 'moderate',
         sourceUrl: 'https://help.shopify.com/en/manual/privacy-and-security/privacy/shopify-network-intelligence-requirements',
       },
       {
         id: 'shopify-sidekick-us-ai-subprocessors',
         text: 'Shopify lists OpenAI, Anthropic, and Microsoft as subprocessors for Sidekick conversational AI, and personal data may be processed when included in prompts or responses.',
-        textDe: 'Shopify listet OpenAI, Anthropic und Microsoft als Unterauftragsverarbeiter für Sidekick-Conversation-AI; personenbezogene Daten können verarbeitet werden, wenn sie in Prompts oder Antworten enthalten sind.',
+        localizedTexts: { de: 'Shopify listet OpenAI, Anthropic und Microsoft als Unterauftragsverarbeiter für Sidekick-Conversation-AI; personenbezogene Daten können verarbeitet werden, wenn sie in Prompts oder Antworten enthalten sind.' },
         severity: 'moderate',
         sourceUrl: 'https://help.shopify.com/en/manual/privacy-and-security/privacy/subprocessors',
       },
       {
         id: 'shopify-broad-materials-license-and-moral-rights-waiver',
         text: 'Terms grant Shopify a broad sublicensable worldwide license over merchant materials and include an irrevocable waiver of moral rights.',
-        textDe: 'Die Nutzungsbedingungen gewähren Shopify eine breite, unterlizenzierbare weltweite Lizenz an Merchant-Materialien und enthalten einen unwiderruflichen Verzicht auf Urheberpersönlichkeitsrechte.',
+        localizedTexts: { de: 'Die Nutzungsbedingungen gewähren Shopify eine breite, unterlizenzierbare weltweite Lizenz an Merchant-Materialien und enthalten einen unwiderruflichen Verzicht auf Urheberpersönlichkeitsrechte.' },
         severity: 'major',
         sourceUrl: 'https://www.shopify.com/legal/terms',
       },
       {
         id: 'shopify-no-refunds-on-termination',
         text: 'Shopify terms state that, upon termination, merchants are generally not entitled to refunds of fees.',
-        textDe: 'Die Shopify-Bedingungen legen fest, dass bei Vertragsbeendigung grundsätzlich kein Anspruch auf Rückerstattung von Gebühren besteht.',
+        localizedTexts: { de: 'Die Shopify-Bedingungen legen fest, dass bei Vertragsbeendigung grundsätzlich kein Anspruch auf Rückerstattung von Gebühren besteht.' },
         severity: 'moderate',
         sourceUrl: 'https://www.shopify.com/legal/terms',
       },
       {
         id: 'shopify-privacy-litigation-briskin-2025',
         text: 'In April 2025, the Ninth Circuit (en banc) reversed dismissal in Briskin v. Shopify and allowed privacy-related claims to proceed on personal-jurisdiction grounds.',
-        textDe: 'Im April 2025 hob der Ninth Circuit (en banc) die Abweisung in Briskin v. Shopify auf und liess privacy-bezogene Ansprüche auf Basis der persönlichen Zuständigkeit weiterlaufen.',
+        localizedTexts: { de: 'Im April 2025 hob der Ninth Circuit (en banc) die Abweisung in Briskin v. Shopify auf und liess privacy-bezogene Ansprüche auf Basis der persönlichen Zuständigkeit weiterlaufen.' },
         severity: 'moderate',
         date: '2025-04-21',
         sourceUrl: 'https://law.justia.com/cases/federal/appellate-courts/ca9/22-15815/22-15815-2025-04-21.html',
@@ -6932,35 +6991,35 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'shopify-international-transfers-required-for-processing',
         text: 'Shopify states that even where certain merchant and customer personal data is stored at rest in Europe, it still relies on international data transfers for processing.',
-        textDe: 'Shopify gibt an, dass auch bei Speicherung bestimmter Händler- und Kundendaten at rest in Europa weiterhin internationale Datentransfers für die Verarbeitung erforderlich sind.',
+        localizedTexts: { de: 'Shopify gibt an, dass auch bei Speicherung bestimmter Händler- und Kundendaten at rest in Europa weiterhin internationale Datentransfers für die Verarbeitung erforderlich sind.' },
         severity: 'moderate',
         sourceUrl: 'https://help.shopify.com/en/manual/privacy-and-security/privacy/onward-transfers',
       },
       {
         id: 'shopify-us-infrastructure-subprocessor-dependency',
         text: 'Shopify lists core subprocessors such as AWS and Cloudflare in the United States, creating jurisdiction and dependency risk for strict sovereignty requirements.',
-        textDe: 'Shopify listet zentrale Unterauftragsverarbeiter wie AWS und Cloudflare in den USA, was für strikte Souveränitätsanforderungen Jurisdiktions- und Abhängigkeitsrisiken erzeugt.',
+        localizedTexts: { de: 'Shopify listet zentrale Unterauftragsverarbeiter wie AWS und Cloudflare in den USA, was für strikte Souveränitätsanforderungen Jurisdiktions- und Abhängigkeitsrisiken erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://help.shopify.com/en/manual/privacy-and-security/privacy/subprocessors',
       },
       {
         id: 'shopify-third-party-service-data-sharing-liability-shift',
         text: 'Shopify terms state that installing third-party services authorizes data sharing to those providers and Shopify disclaims responsibility for third-party disclosure, modification, or deletion.',
-        textDe: 'Die Shopify-Bedingungen legen fest, dass die Installation von Drittservices die Datenweitergabe an diese Anbieter erlaubt und Shopify Verantwortung für Offenlegung, Änderung oder Löschung durch Dritte ausschliesst.',
+        localizedTexts: { de: 'Die Shopify-Bedingungen legen fest, dass die Installation von Drittservices die Datenweitergabe an diese Anbieter erlaubt und Shopify Verantwortung für Offenlegung, Änderung oder Löschung durch Dritte ausschliesst.' },
         severity: 'moderate',
         sourceUrl: 'https://www.shopify.com/legal/terms',
       },
       {
         id: 'shopify-network-intelligence-opt-out-feature-loss',
         text: 'Shopify documents that disabling Network Intelligence can remove access to some apps and features, creating functional trade-offs for stricter privacy configurations.',
-        textDe: 'Shopify dokumentiert, dass das Deaktivieren von Network Intelligence den Zugriff auf bestimmte Apps und Funktionen entfernen kann, was funktionale Trade-offs für strengere Privacy-Konfigurationen erzeugt.',
+        localizedTexts: { de: 'Shopify dokumentiert, dass das Deaktivieren von Network Intelligence den Zugriff auf bestimmte Apps und Funktionen entfernen kann, was funktionale Trade-offs für strengere Privacy-Konfigurationen erzeugt.' },
         severity: 'minor',
         sourceUrl: 'https://help.shopify.com/en/manual/privacy-and-security/privacy/network-intelligence-services/terms-update-faq',
       },
       {
         id: 'shopify-service-availability-disclaimer',
         text: 'Shopify terms disclaim that services will be uninterrupted, timely, secure, or error-free, requiring merchants to plan for operational resilience.',
-        textDe: 'Die Shopify-Bedingungen schliessen aus, dass die Dienste unterbrechungsfrei, rechtzeitig, sicher oder fehlerfrei bereitgestellt werden, weshalb Händler operative Resilienz einplanen müssen.',
+        localizedTexts: { de: 'Die Shopify-Bedingungen schliessen aus, dass die Dienste unterbrechungsfrei, rechtzeitig, sicher oder fehlerfrei bereitgestellt werden, weshalb Händler operative Resilienz einplanen müssen.' },
         severity: 'minor',
         sourceUrl: 'https://www.shopify.com/legal/terms',
       },
@@ -6970,20 +7029,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 3.1,
     description:
         'US-operated marketplace platform with mature security governance, public transparency artifacts, and strong business stability, but trust is reduced by default AI-training rights over personal data, a recent DOJ cyberstalking-related deferred-prosecution case, broad contractual content licensing, and jurisdictional dependency on US data processing.',
-    descriptionDe:
-        'US-Marktplatzplattform mit reifer Security-Governance, oeffentlichen Transparenzartefakten und hoher Geschaeftsstabilitaet; das Vertrauen sinkt jedoch durch standardmaessige KI-Trainingsrechte fuer Personendaten, einen juengeren DOJ-Fall mit Deferred-Prosecution wegen Cyberstalking-Kontext, weitreichende vertragliche Content-Lizenzen und Jurisdiktionsabhaengigkeit durch US-Datenverarbeitung.',
+    localizedDescriptions: {
+      de: 'US-Marktplatzplattform mit reifer Security-Governance, oeffentlichen Transparenzartefakten und hoher Geschaeftsstabilitaet; das Vertrauen sinkt jedoch durch standardmaessige KI-Trainingsrechte fuer Personendaten, einen juengeren DOJ-Fall mit Deferred-Prosecution wegen Cyberstalking-Kontext, weitreichende vertragliche Content-Lizenzen und Jurisdiktionsabhaengigkeit durch US-Datenverarbeitung.',
+    },
     reservations: [
       {
         id: 'ebay-ai-training-personal-data-legitimate-interest',
         text: 'eBay privacy terms state that, where lawfully permitted, personal data may be used to train, test, validate, and align both eBay and third-party AI models, with objection/opt-out requiring user action.',
-        textDe: 'Die eBay-Datenschutzhinweise nennen, dass Personendaten, soweit rechtlich zulaessig, zum Trainieren, Testen, Validieren und Ausrichten von eBay- sowie Drittanbieter-KI-Modellen genutzt werden koennen; Widerspruch/Opt-out erfordert aktives Nutzerhandeln.',
+        localizedTexts: { de: 'Die eBay-Datenschutzhinweise nennen, dass Personendaten, soweit rechtlich zulaessig, zum Trainieren, Testen, Validieren und Ausrichten von eBay- sowie Drittanbieter-KI-Modellen genutzt werden koennen; Widerspruch/Opt-out erfordert aktives Nutzerhandeln.' },
         severity: 'major',
         sourceUrl: 'https://www.ebay.com/help/policies/member-behaviour-policies/user-privacy-notice-privacy-policy?id=4260',
       },
       {
         id: 'ebay-doj-cyberstalking-dpa-2024',
         text: 'The US Department of Justice announced a deferred prosecution agreement with eBay in January 2024 tied to the cyberstalking campaign targeting Massachusetts residents, including a criminal penalty and compliance obligations.',
-        textDe: 'Das US-Justizministerium veroeffentlichte im Januar 2024 ein Deferred-Prosecution-Agreement mit eBay im Zusammenhang mit der Cyberstalking-Kampagne gegen Einwohner in Massachusetts, inklusive Strafzahlung und Compliance-Auflagen.',
+        localizedTexts: { de: 'Das US-Justizministerium veroeffentlichte im Januar 2024 ein Deferred-Prosecution-Agreement mit eBay im Zusammenhang mit der Cyberstalking-Kampagne gegen Einwohner in Massachusetts, inklusive Strafzahlung und Compliance-Auflagen.' },
         severity: 'major',
         date: '2024-01-11',
         sourceUrl: 'https://www.justice.gov/usao-ma/pr/ebay-inc-enter-deferred-prosecution-agreement-resolve-criminal-charges-related',
@@ -6991,7 +7051,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-cyberstalking-case-ap-corroboration-2024',
         text: 'Associated Press reporting independently corroborated the deferred-prosecution terms, the $3M criminal penalty, and independent-monitor requirements in the cyberstalking case.',
-        textDe: 'Die Berichterstattung der Associated Press bestaetigte unabhaengig die Deferred-Prosecution-Bedingungen, die strafrechtliche Zahlung von 3 Mio. USD sowie die Vorgaben zur unabhaengigen Ueberwachung im Cyberstalking-Fall.',
+        localizedTexts: { de: 'Die Berichterstattung der Associated Press bestaetigte unabhaengig die Deferred-Prosecution-Bedingungen, die strafrechtliche Zahlung von 3 Mio. USD sowie die Vorgaben zur unabhaengigen Ueberwachung im Cyberstalking-Fall.' },
         severity: 'moderate',
         date: '2024-01-11',
         sourceUrl: 'https://apnews.com/article/9ac2c35bcd4c87af181382c71d992343',
@@ -6999,14 +7059,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-broad-user-content-license-irrevocable',
         text: 'eBay\'s User Agreement grants a broad, perpetual, irrevocable, worldwide, sublicensable license over user-provided content, including use for development of new offerings.',
-        textDe: 'Das eBay User Agreement gewaehrt eine breite, dauerhafte, unwiderrufliche, weltweite und unterlizenzierbare Lizenz an nutzerbereitgestellten Inhalten, einschliesslich der Nutzung fuer die Entwicklung neuer Angebote.',
+        localizedTexts: { de: 'Das eBay User Agreement gewaehrt eine breite, dauerhafte, unwiderrufliche, weltweite und unterlizenzierbare Lizenz an nutzerbereitgestellten Inhalten, einschliesslich der Nutzung fuer die Entwicklung neuer Angebote.' },
         severity: 'major',
         sourceUrl: 'https://www.ebay.com/help/policies/member-behaviour-policies/user-agreement?id=4259',
       },
       {
         id: 'ebay-lda-brandenburg-ai-transparency-concerns-2025',
         text: 'In 2025, Brandenburg\'s data-protection authority reported many complaints about eBay\'s announced AI-training data use and criticized insufficient transparency regarding data categories, purposes, recipients, and models.',
-        textDe: 'Im Jahr 2025 berichtete die Brandenburger Datenschutzaufsicht von zahlreichen Beschwerden zur angekuendigten KI-Trainingsdatennutzung durch eBay und kritisierte unzureichende Transparenz zu Datenkategorien, Zwecken, Empfaengern und Modellen.',
+        localizedTexts: { de: 'Im Jahr 2025 berichtete die Brandenburger Datenschutzaufsicht von zahlreichen Beschwerden zur angekuendigten KI-Trainingsdatennutzung durch eBay und kritisierte unzureichende Transparenz zu Datenkategorien, Zwecken, Empfaengern und Modellen.' },
         severity: 'moderate',
         date: '2025-05-28',
         sourceUrl: 'https://www.lda.brandenburg.de/lda/de/aktuelles/presseinformationen/detail/~28-05-2025-ebay',
@@ -7014,49 +7074,49 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-binding-arbitration-and-utah-forum',
         text: 'The User Agreement includes binding arbitration and forum-selection language (including Utah venue constructs for specified disputes), reducing legal flexibility for some users and sellers.',
-        textDe: 'Das User Agreement enthaelt verbindliche Schiedsgerichtsklauseln und Gerichtsstandsregelungen (einschliesslich Utah-Bezug fuer bestimmte Streitfaelle), was die rechtliche Flexibilitaet fuer manche Nutzer und Haendler reduziert.',
+        localizedTexts: { de: 'Das User Agreement enthaelt verbindliche Schiedsgerichtsklauseln und Gerichtsstandsregelungen (einschliesslich Utah-Bezug fuer bestimmte Streitfaelle), was die rechtliche Flexibilitaet fuer manche Nutzer und Haendler reduziert.' },
         severity: 'moderate',
         sourceUrl: 'https://www.ebay.com/help/policies/member-behaviour-policies/user-agreement?id=4259',
       },
       {
         id: 'ebay-non-material-breaches-limited-public-detail',
         text: 'eBay\'s FY2024 SEC filing states it reported data breaches to regulators in the prior two years that were assessed as not material, but without detailed public incident granularity.',
-        textDe: 'Das FY2024-SEC-Filing von eBay nennt in den vorangegangenen zwei Jahren an Aufsichtsbehoerden gemeldete, als nicht wesentlich eingestufte Datenschutzvorfaelle, jedoch ohne detaillierte oeffentliche Incident-Granularitaet.',
+        localizedTexts: { de: 'Das FY2024-SEC-Filing von eBay nennt in den vorangegangenen zwei Jahren an Aufsichtsbehoerden gemeldete, als nicht wesentlich eingestufte Datenschutzvorfaelle, jedoch ohne detaillierte oeffentliche Incident-Granularitaet.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1065088/000106508825000010/ebay-20241231.htm',
       },
       {
         id: 'ebay-us-owned-datacenter-concentration',
         text: 'eBay\'s FY2024 SEC filing describes owned data-center footprint in Utah, reinforcing US-jurisdiction concentration risk for strict EU sovereignty requirements.',
-        textDe: 'Das FY2024-SEC-Filing von eBay beschreibt eigene Rechenzentrumsstandorte in Utah und verstaerkt damit das US-Jurisdiktionsrisiko bei strikten EU-Souveraenitaetsanforderungen.',
+        localizedTexts: { de: 'Das FY2024-SEC-Filing von eBay beschreibt eigene Rechenzentrumsstandorte in Utah und verstaerkt damit das US-Jurisdiktionsrisiko bei strikten EU-Souveraenitaetsanforderungen.' },
         severity: 'moderate',
         sourceUrl: 'https://www.sec.gov/ixviewer/ix.html?doc=/Archives/edgar/data/1065088/000106508825000010/ebay-20241231.htm',
       },
       {
         id: 'ebay-cross-border-transfer-framework-exposure',
         text: 'eBay privacy disclosures describe international transfers using mechanisms such as BCRs, SCCs, and DPF pathways, which still require trust in cross-border legal/process controls.',
-        textDe: 'Die eBay-Datenschutzhinweise beschreiben internationale Datentransfers ueber Mechanismen wie BCRs, SCCs und DPF-Pfade, was weiterhin Vertrauen in grenzueberschreitende Rechts- und Prozesskontrollen voraussetzt.',
+        localizedTexts: { de: 'Die eBay-Datenschutzhinweise beschreiben internationale Datentransfers ueber Mechanismen wie BCRs, SCCs und DPF-Pfade, was weiterhin Vertrauen in grenzueberschreitende Rechts- und Prozesskontrollen voraussetzt.' },
         severity: 'moderate',
         sourceUrl: 'https://www.ebay.com/help/policies/member-behaviour-policies/user-privacy-notice-privacy-policy?id=4260',
       },
       {
         id: 'ebay-premium-developer-support-gating',
         text: 'eBay Developer Support is positioned as a premium service with paid plans and AI-assisted ticketing, creating support-depth asymmetry between default and paid integration paths.',
-        textDe: 'Der eBay Developer Support ist als Premium-Service mit kostenpflichtigen Plaenen und KI-unterstuetztem Ticketing positioniert, was eine Support-Tiefen-Asymmetrie zwischen Standard- und Paid-Integrationspfaden erzeugt.',
+        localizedTexts: { de: 'Der eBay Developer Support ist als Premium-Service mit kostenpflichtigen Plaenen und KI-unterstuetztem Ticketing positioniert, was eine Support-Tiefen-Asymmetrie zwischen Standard- und Paid-Integrationspfaden erzeugt.' },
         severity: 'moderate',
         sourceUrl: 'https://developer.ebay.com/support',
       },
       {
         id: 'ebay-api-limit-tiering-and-access-friction',
         text: 'eBay documents default API call limits and a separate premium access tier with significantly higher limits, which can introduce scaling friction for integration-heavy sellers before paid escalation.',
-        textDe: 'eBay dokumentiert Standard-API-Limits und einen separaten Premium-Access-Tier mit deutlich hoeheren Limits; das kann fuer integrationsstarke Haendler vor kostenpflichtiger Eskalation zu Skalierungsfriktion fuehren.',
+        localizedTexts: { de: 'eBay dokumentiert Standard-API-Limits und einen separaten Premium-Access-Tier mit deutlich hoeheren Limits; das kann fuer integrationsstarke Haendler vor kostenpflichtiger Eskalation zu Skalierungsfriktion fuehren.' },
         severity: 'moderate',
         sourceUrl: 'https://developer.ebay.com/develop/get-started/api-call-limits',
       },
       {
         id: 'ebay-hn-developer-api-instability-signal-2022',
         text: 'Developer-community discussion on Hacker News reports recurring API breakage, documentation contradictions, and support escalation friction; this is an OSINT signal, not an adjudicated finding.',
-        textDe: 'Diskussionen in der Entwickler-Community auf Hacker News berichten wiederkehrende API-Breakages, widerspruechliche Dokumentation und Reibung bei Support-Eskalationen; dies ist ein OSINT-Signal und kein rechtsverbindlicher Befund.',
+        localizedTexts: { de: 'Diskussionen in der Entwickler-Community auf Hacker News berichten wiederkehrende API-Breakages, widerspruechliche Dokumentation und Reibung bei Support-Eskalationen; dies ist ein OSINT-Signal und kein rechtsverbindlicher Befund.' },
         severity: 'moderate',
         date: '2022-05-08',
         sourceUrl: 'https://news.ycombinator.com/item?id=31305341',
@@ -7064,7 +7124,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-api-incident-history-visibility-2025',
         text: 'The public eBay Developer status feed shows resolved incidents (including 500-error windows in trading/API flows), signaling recurring operational incident surface for API-dependent workloads.',
-        textDe: 'Der oeffentliche eBay-Developer-Statusfeed zeigt geloeste Vorfaelle (einschliesslich 500-Fehlerfenstern in Trading/API-Flows) und signalisiert damit eine wiederkehrende operative Incident-Flaeche fuer API-abhaengige Workloads.',
+        localizedTexts: { de: 'Der oeffentliche eBay-Developer-Statusfeed zeigt geloeste Vorfaelle (einschliesslich 500-Fehlerfenstern in Trading/API-Flows) und signalisiert damit eine wiederkehrende operative Incident-Flaeche fuer API-abhaengige Workloads.' },
         severity: 'moderate',
         date: '2025-12-15',
         sourceUrl: 'https://edp-api.ebay.com/static-status',
@@ -7072,7 +7132,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-statusgator-outage-pattern-signal-2026',
         text: 'StatusGator tracking shows recurring marketplace/app disruption entries and mirrors a multi-year incident history from the official eBay status feed, adding independent outage-pattern visibility.',
-        textDe: 'Das StatusGator-Tracking zeigt wiederkehrende Eintraege zu Marktplatz-/App-Stoerungen und spiegelt eine mehrjaehrige Incident-Historie aus dem offiziellen eBay-Statusfeed; das erhoeht die unabhaengige Sichtbarkeit von Ausfallmustern.',
+        localizedTexts: { de: 'Das StatusGator-Tracking zeigt wiederkehrende Eintraege zu Marktplatz-/App-Stoerungen und spiegelt eine mehrjaehrige Incident-Historie aus dem offiziellen eBay-Statusfeed; das erhoeht die unabhaengige Sichtbarkeit von Ausfallmustern.' },
         severity: 'minor',
         date: '2026-02-10',
         sourceUrl: 'https://statusgator.com/services/ebay',
@@ -7080,7 +7140,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-promoted-listings-attribution-update-2026',
         text: 'eBay seller-announcement guidance confirms January 13, 2026 attribution logic where ad fees can apply when any buyer purchases a promoted item within 30 days of any ad click, increasing fee predictability risk for sellers.',
-        textDe: 'Die eBay-Seller-Ankuendigung bestaetigt fuer den 13. Januar 2026 eine Attributionslogik, bei der Werbegebuehren anfallen koennen, wenn ein beliebiger Kaeufer einen beworbenen Artikel innerhalb von 30 Tagen nach einem beliebigen Anzeigenklick kauft; das erhoeht das Risiko bei der Gebuehrenplanbarkeit fuer Haendler.',
+        localizedTexts: { de: 'Die eBay-Seller-Ankuendigung bestaetigt fuer den 13. Januar 2026 eine Attributionslogik, bei der Werbegebuehren anfallen koennen, wenn ein beliebiger Kaeufer einen beworbenen Artikel innerhalb von 30 Tagen nach einem beliebigen Anzeigenklick kauft; das erhoeht das Risiko bei der Gebuehrenplanbarkeit fuer Haendler.' },
         severity: 'moderate',
         date: '2026-01-13',
         sourceUrl: 'https://community.ebay.com/t5/Announcements/Seller-Announcement-Updates-to-eBay-s-Promoted-Listings-are/ba-p/35311118',
@@ -7088,7 +7148,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-workforce-reduction-2024',
         text: 'AP reporting states eBay cut around 1,000 roles (about 9% of workforce) in 2024, which can affect support and delivery continuity during restructuring windows.',
-        textDe: 'Laut AP-Bericht strich eBay 2024 rund 1.000 Stellen (etwa 9 Prozent der Belegschaft), was waehrend Restrukturierungsphasen Support- und Lieferkontinuitaet beeinflussen kann.',
+        localizedTexts: { de: 'Laut AP-Bericht strich eBay 2024 rund 1.000 Stellen (etwa 9 Prozent der Belegschaft), was waehrend Restrukturierungsphasen Support- und Lieferkontinuitaet beeinflussen kann.' },
         severity: 'moderate',
         date: '2024-01-24',
         sourceUrl: 'https://apnews.com/article/655bce285653443ffb00f9ebcaaf7d0d',
@@ -7096,14 +7156,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'ebay-israel-operations-closure-plan-2026',
         text: 'Calcalist reported a planned closure of eBay\'s Israel operations by Q1 2026, which can add transition risk for affected teams and responsibilities.',
-        textDe: 'Calcalist berichtete ueber eine geplante Schliessung der eBay-Operationen in Israel bis Q1 2026, was zusaetzliches Uebergangsrisiko fuer betroffene Teams und Verantwortlichkeiten erzeugen kann.',
+        localizedTexts: { de: 'Calcalist berichtete ueber eine geplante Schliessung der eBay-Operationen in Israel bis Q1 2026, was zusaetzliches Uebergangsrisiko fuer betroffene Teams und Verantwortlichkeiten erzeugen kann.' },
         severity: 'moderate',
         sourceUrl: 'https://www.calcalistech.com/ctechnews/article/hywdt44mxx',
       },
       {
         id: 'ebay-trustpilot-support-sentiment-2026',
         text: 'Trustpilot shows persistently low public customer-service sentiment for eBay; this is a selection-biased OSINT signal but consistent with support-friction complaints in other community sources.',
-        textDe: 'Trustpilot zeigt anhaltend niedriges oeffentliches Customer-Service-Sentiment fuer eBay; dies ist ein selektionsverzerrtes OSINT-Signal, passt jedoch zu Support-Reibungsberichten aus weiteren Community-Quellen.',
+        localizedTexts: { de: 'Trustpilot zeigt anhaltend niedriges oeffentliches Customer-Service-Sentiment fuer eBay; dies ist ein selektionsverzerrtes OSINT-Signal, passt jedoch zu Support-Reibungsberichten aus weiteren Community-Quellen.' },
         severity: 'minor',
         sourceUrl: 'https://www.trustpilot.com/review/ebay.com',
       },
@@ -7113,13 +7173,14 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
     trustScore: 1.3,
     description:
         'US-operated social platform with active vulnerability-reporting channels and significant engineering output, but trust is very low due to repeated privacy enforcement, high-impact identifier exposure history, broad AI-training rights over user content, and unstable governance/API policy changes.',
-    descriptionDe:
-        'US-Social-Plattform mit aktiven Kanälen für Schwachstellenmeldungen und starker Engineering-Leistung, deren Vertrauen jedoch wegen wiederholter Privacy-Durchsetzung, hochrelevanter Identifier-Exposure-Historie, breiter AI-Training-Rechte an Nutzerinhalten und instabiler Governance-/API-Politik sehr niedrig ist.',
+    localizedDescriptions: {
+      de: 'US-Social-Plattform mit aktiven Kanälen für Schwachstellenmeldungen und starker Engineering-Leistung, deren Vertrauen jedoch wegen wiederholter Privacy-Durchsetzung, hochrelevanter Identifier-Exposure-Historie, breiter AI-Training-Rechte an Nutzerinhalten und instabiler Governance-/API-Politik sehr niedrig ist.',
+    },
     reservations: [
       {
         id: 'x-ftc-privacy-penalty-2022',
         text: 'The FTC announced a $150M penalty and order against Twitter/X over allegations that security contact data (emails/phone numbers) was deceptively reused for advertising purposes.',
-        textDe: 'Die FTC veröffentlichte eine Strafe von 150 Mio. USD samt Auflagen gegen Twitter/X wegen Vorwürfen, dass Sicherheits-Kontaktdaten (E-Mails/Telefonnummern) täuschend für Werbung wiederverwendet wurden.',
+        localizedTexts: { de: 'Die FTC veröffentlichte eine Strafe von 150 Mio. USD samt Auflagen gegen Twitter/X wegen Vorwürfen, dass Sicherheits-Kontaktdaten (E-Mails/Telefonnummern) täuschend für Werbung wiederverwendet wurden.' },
         severity: 'major',
         date: '2022-05-25',
         sourceUrl: 'https://www.ftc.gov/news-events/news/press-releases/2022/05/twitter-agrees-pay-150-million-penalty-settling-allegations-it-misused-users-personal-information-targeted',
@@ -7127,7 +7188,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-api-identifier-mapping-incident-2022',
         text: 'X disclosed an API issue that could allow linking email/phone identifiers to account profiles for affected users, creating de-anonymization and phishing risk.',
-        textDe: 'X meldete ein API-Problem, durch das bei betroffenen Nutzern E-Mail-/Telefon-Identifier mit Account-Profilen verknüpft werden konnten, was De-Anonymisierungs- und Phishing-Risiken erzeugt.',
+        localizedTexts: { de: 'X meldete ein API-Problem, durch das bei betroffenen Nutzern E-Mail-/Telefon-Identifier mit Account-Profilen verknüpft werden konnten, was De-Anonymisierungs- und Phishing-Risiken erzeugt.' },
         severity: 'major',
         date: '2022-08-05',
         sourceUrl: 'https://privacy.x.com/en/blog/an-issue-affecting-some-anonymous-accounts',
@@ -7135,7 +7196,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-hibp-large-email-dataset-2023',
         text: 'Have I Been Pwned added a large scraped X/Twitter email-address dataset in 2023, materially increasing credential-stuffing and targeted-phishing exposure.',
-        textDe: 'Have I Been Pwned nahm 2023 einen grossen gescrapten X/Twitter-E-Mail-Datensatz auf, was das Risiko für Credential-Stuffing und gezieltes Phishing deutlich erhöht.',
+        localizedTexts: { de: 'Have I Been Pwned nahm 2023 einen grossen gescrapten X/Twitter-E-Mail-Datensatz auf, was das Risiko für Credential-Stuffing und gezieltes Phishing deutlich erhöht.' },
         severity: 'major',
         date: '2023-01-04',
         sourceUrl: 'https://www.troyhunt.com/200m-scraped-twitter-email-addresses-now-in-have-i-been-pwned/',
@@ -7143,7 +7204,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-dsa-fine-and-transparency-breaches-2025',
         text: 'The European Commission fined X EUR 120M in December 2025 for DSA breaches, including deceptive blue-check design, ad-transparency repository failures, and barriers to researcher access.',
-        textDe: 'Die Europäische Kommission verhängte im Dezember 2025 gegen X eine DSA-Strafe von 120 Mio. EUR, unter anderem wegen täuschendem Blue-Check-Design, Defiziten beim Ad-Transparency-Repository und Barrieren für Forschendenzugang.',
+        localizedTexts: { de: 'Die Europäische Kommission verhängte im Dezember 2025 gegen X eine DSA-Strafe von 120 Mio. EUR, unter anderem wegen täuschendem Blue-Check-Design, Defiziten beim Ad-Transparency-Repository und Barrieren für Forschendenzugang.' },
         severity: 'major',
         date: '2025-12-05',
         sourceUrl: 'https://digital-strategy.ec.europa.eu/en/news/commission-fines-x-eu120-million-breaching-digital-services-act',
@@ -7151,21 +7212,21 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-terms-ai-training-license',
         text: 'X Terms of Service grant broad rights to analyze user-submitted text and content for training machine-learning and artificial-intelligence models.',
-        textDe: 'Die X-Nutzungsbedingungen gewähren breite Rechte, von Nutzern eingereichte Texte und Inhalte für das Training von Machine-Learning- und KI-Modellen zu analysieren.',
+        localizedTexts: { de: 'Die X-Nutzungsbedingungen gewähren breite Rechte, von Nutzern eingereichte Texte und Inhalte für das Training von Machine-Learning- und KI-Modellen zu analysieren.' },
         severity: 'major',
         sourceUrl: 'https://x.com/en/tos',
       },
       {
         id: 'x-privacy-third-party-ai-training-risk',
         text: 'X privacy policy states that collected/public information may be used for AI training and notes some third-party recipients may use shared data for their own model training unless users opt out where available.',
-        textDe: 'Die X-Privacy-Policy nennt, dass erhobene/öffentliche Informationen für KI-Training genutzt werden können, und dass manche Drittparteien geteilte Daten für eigenes Modelltraining verwenden können, sofern kein Opt-out greift.',
+        localizedTexts: { de: 'Die X-Privacy-Policy nennt, dass erhobene/öffentliche Informationen für KI-Training genutzt werden können, und dass manche Drittparteien geteilte Daten für eigenes Modelltraining verwenden können, sofern kein Opt-out greift.' },
         severity: 'major',
         sourceUrl: 'https://x.com/en/privacy',
       },
       {
         id: 'x-trust-safety-staff-reductions-2024',
         text: 'Australia\'s eSafety transparency report documented major reductions in trust-and-safety staffing after takeover, indicating capacity and enforcement-consistency risk.',
-        textDe: 'Der Transparenzbericht der australischen eSafety dokumentierte nach der Übernahme starke Reduktionen im Trust-and-Safety-Personal und signalisiert Kapazitäts- sowie Durchsetzungskonsistenz-Risiken.',
+        localizedTexts: { de: 'Der Transparenzbericht der australischen eSafety dokumentierte nach der Übernahme starke Reduktionen im Trust-and-Safety-Personal und signalisiert Kapazitäts- sowie Durchsetzungskonsistenz-Risiken.' },
         severity: 'moderate',
         date: '2024-01-11',
         sourceUrl: 'https://www.esafety.gov.au/sites/default/files/2024-01/Transparency-report-X-Corp-July-Dec-2023.pdf',
@@ -7173,7 +7234,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-api-pricing-volatility-2024',
         text: 'X repeatedly changed self-serve API pricing and limits, including major 2024 tier increases, reducing long-term integration cost predictability.',
-        textDe: 'X hat Self-Serve-API-Preise und Limits wiederholt verändert, inklusive deutlicher Tier-Erhöhungen im Jahr 2024, was die langfristige Integrations-Kostenplanbarkeit reduziert.',
+        localizedTexts: { de: 'X hat Self-Serve-API-Preise und Limits wiederholt verändert, inklusive deutlicher Tier-Erhöhungen im Jahr 2024, was die langfristige Integrations-Kostenplanbarkeit reduziert.' },
         severity: 'moderate',
         date: '2024-10-25',
         sourceUrl: 'https://techcrunch.com/2024/10/25/x-hikes-api-prices/',
@@ -7181,7 +7242,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-outage-clusters-2025',
         text: 'X experienced repeated outage clusters in 2025, including service disruptions occurring within short intervals, indicating resilience and change-control risk for dependency use cases.',
-        textDe: 'X hatte 2025 wiederholte Ausfall-Cluster, darunter Störungen in kurzen Abständen, was Resilienz- und Change-Control-Risiken für Abhängigkeits-Use-Cases zeigt.',
+        localizedTexts: { de: 'X hatte 2025 wiederholte Ausfall-Cluster, darunter Störungen in kurzen Abständen, was Resilienz- und Change-Control-Risiken für Abhängigkeits-Use-Cases zeigt.' },
         severity: 'moderate',
         date: '2025-05-24',
         sourceUrl: 'https://techcrunch.com/2025/05/24/x-is-down-again/',
@@ -7189,7 +7250,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-xai-acquisition-governance-concentration-2025',
         text: 'The 2025 all-stock xAI acquisition of X further concentrated governance and strategic alignment around AI-data monetization priorities.',
-        textDe: 'Die All-Stock-Übernahme von X durch xAI im Jahr 2025 verstärkte die Governance-Konzentration und die strategische Ausrichtung auf AI-Daten-Monetarisierung.',
+        localizedTexts: { de: 'Die All-Stock-Übernahme von X durch xAI im Jahr 2025 verstärkte die Governance-Konzentration und die strategische Ausrichtung auf AI-Daten-Monetarisierung.' },
         severity: 'moderate',
         date: '2025-03-28',
         sourceUrl: 'https://www.reuters.com/markets/deals/musks-xai-buys-x-social-media-site-45-bln-2025-03-28/',
@@ -7197,7 +7258,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-paris-raid-csam-deepfake-investigation-2026',
         text: 'On February 3, 2026, French prosecutors raided X\'s Paris offices in a preliminary probe that includes allegations of complicity in possessing/disseminating child sexual abuse images and sexually explicit deepfakes linked to platform operation.',
-        textDe: 'Am 3. Februar 2026 durchsuchten französische Staatsanwälte die Pariser X-Büros in einer Voruntersuchung mit Vorwürfen, die unter anderem mutmassliche Komplizenschaft bei Besitz/Verbreitung von Darstellungen sexuellen Kindesmissbrauchs sowie sexuell expliziten Deepfakes im Plattformkontext betreffen.',
+        localizedTexts: { de: 'Am 3. Februar 2026 durchsuchten französische Staatsanwälte die Pariser X-Büros in einer Voruntersuchung mit Vorwürfen, die unter anderem mutmassliche Komplizenschaft bei Besitz/Verbreitung von Darstellungen sexuellen Kindesmissbrauchs sowie sexuell expliziten Deepfakes im Plattformkontext betreffen.' },
         severity: 'major',
         date: '2026-02-03',
         sourceUrl: 'https://apnews.com/article/1116be84d84201011219086ecfd4e0bc',
@@ -7205,7 +7266,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-watchdog-litigation-media-matters-2023',
         text: 'X sued Media Matters in 2023 after reporting about ad placement next to extremist content, signaling a confrontational oversight posture and legal-escalation risk.',
-        textDe: 'X verklagte 2023 Media Matters nach Berichten über Werbeplatzierungen neben extremistischen Inhalten, was auf eine konfrontative Aufsichtshaltung und juristisches Eskalationsrisiko hindeutet.',
+        localizedTexts: { de: 'X verklagte 2023 Media Matters nach Berichten über Werbeplatzierungen neben extremistischen Inhalten, was auf eine konfrontative Aufsichtshaltung und juristisches Eskalationsrisiko hindeutet.' },
         severity: 'moderate',
         date: '2023-11-21',
         sourceUrl: 'https://www.cnbc.com/2023/11/21/x-sues-media-matters-over-report-about-ads-appearing-next-to-nazi-posts.html',
@@ -7213,7 +7274,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-antitrust-suit-against-advertisers-2024',
         text: 'In August 2024, X filed an antitrust lawsuit alleging an illegal advertiser boycott, reinforcing ecosystem-conflict and commercial-predictability risk.',
-        textDe: 'Im August 2024 reichte X eine Antitrust-Klage wegen eines mutmasslich illegalen Werbekunden-Boykotts ein und verstärkte damit Ökosystem-Konflikt- sowie kommerzielle Planbarkeitsrisiken.',
+        localizedTexts: { de: 'Im August 2024 reichte X eine Antitrust-Klage wegen eines mutmasslich illegalen Werbekunden-Boykotts ein und verstärkte damit Ökosystem-Konflikt- sowie kommerzielle Planbarkeitsrisiken.' },
         severity: 'moderate',
         date: '2024-08-06',
         sourceUrl: 'https://www.cnbc.com/2024/08/06/elon-musks-x-sues-advertisers-over-alleged-massive-advertiser-boycott-after-twitter-takeover.html',
@@ -7221,7 +7282,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-premium-plus-price-hike-2024',
         text: 'X raised Premium Plus pricing by roughly 40% in late 2024 across multiple regions, showing meaningful consumer pricing volatility.',
-        textDe: 'X erhöhte Ende 2024 in mehreren Regionen die Premium-Plus-Preise um rund 40 Prozent und zeigt damit erhebliche Preisvolatilität für Nutzer.',
+        localizedTexts: { de: 'X erhöhte Ende 2024 in mehreren Regionen die Premium-Plus-Preise um rund 40 Prozent und zeigt damit erhebliche Preisvolatilität für Nutzer.' },
         severity: 'moderate',
         date: '2024-12-23',
         sourceUrl: 'https://www.theverge.com/2024/12/23/24327918/x-premium-plus-subscription-price-increases',
@@ -7229,7 +7290,7 @@ const US_VENDOR_TRUST_PROFILES: Record<string, USVendorTrustProfile> = {
       {
         id: 'x-passkey-domain-migration-lockout-risk-2025',
         text: 'During the 2025 migration from twitter.com to x.com, X warned that users who did not re-enroll passkeys/security keys could be locked out, highlighting authentication-change rollout risk.',
-        textDe: 'Während der Migration von twitter.com zu x.com im Jahr 2025 warnte X, dass Nutzer ohne erneute Registrierung von Passkeys/Sicherheitsschlüsseln ausgesperrt werden können, was Rollout-Risiken bei Authentifizierungs-Änderungen zeigt.',
+        localizedTexts: { de: 'Während der Migration von twitter.com zu x.com im Jahr 2025 warnte X, dass Nutzer ohne erneute Registrierung von Passkeys/Sicherheitsschlüsseln ausgesperrt werden können, was Rollout-Risiken bei Authentifizierungs-Änderungen zeigt.' },
         severity: 'moderate',
         date: '2025-10-27',
         sourceUrl: 'https://www.theverge.com/news/807011/twitter-com-x-com-login-security-key-passkey-domain',
@@ -7254,6 +7315,7 @@ function slugifyVendorName(value: string): string {
 }
 
 const US_VENDOR_BY_ALIAS = new Map<string, USVendorRecord>();
+const US_VENDOR_BY_ID = new Map<string, USVendorRecord>(US_VENDOR_RECORDS.map((record) => [record.id, record]));
 
 for (const record of US_VENDOR_RECORDS) {
   const normalizedNames = [record.name, ...record.aliases].map(normalizeVendorName);
@@ -7293,7 +7355,7 @@ function toComparison(record: USVendorRecord, sourceName?: string): USVendorComp
     trustScoreStatus: profile ? 'ready' : 'pending',
     trustScore: profile?.trustScore,
     description: profile?.description,
-    descriptionDe: profile?.descriptionDe,
+    localizedDescriptions: profile?.localizedDescriptions,
     reservations: profile?.reservations,
   };
 }
@@ -7309,6 +7371,14 @@ function toFallbackComparison(name: string): USVendorComparison {
   };
 }
 
+export function listUSVendors(): Array<Pick<USVendorRecord, 'id' | 'name'>> {
+  return US_VENDOR_RECORDS.map(({ id, name }) => ({ id, name }));
+}
+
+export function getUSVendorAliases(vendorId: string): string[] {
+  return US_VENDOR_BY_ID.get(vendorId)?.aliases ?? [];
+}
+
 export function resolveUSVendorComparison(name: string): USVendorComparison {
   const normalized = normalizeVendorName(name);
   const record = US_VENDOR_BY_ALIAS.get(normalized);
@@ -0,0 +1,68 @@
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom';
+import { AnimatePresence } from 'framer-motion';
+import App from './components/App';
+import i18n, { defaultLanguage, supportedLanguages } from './i18n';
+import { PrerenderedChangelogContext } from './hooks/useCatalogueChangelog';
+import type { PublishedChangelog } from './hooks/useCatalogueChangelog';
+import { PageMetaCollectorContext } from './hooks/usePageMeta';
+import { getPageHead, renderNotFoundHead, renderPageHead } from './utils/pageHead';
+import { buildSitemap } from './utils/sitemap';
+import { getPrerenderPaths, getSitemapPaths } from './utils/sitePaths';
+import { siteUrl } from './utils/structuredData';
+import type { CatalogueChangelog } from './utils/changelog';
+import type { PageMeta } from './types';
+
+// Server entry used by scripts/prerender.mjs; built with `vite build --ssr`.
+
+export { changelogPath } from './utils/changelog';
+
+export function getPrerenderUrls(): string[] {
+  return supportedLanguages.flatMap((lang) => getPrerenderPaths().map((path) => `/${lang}${path}`));
+}
+
+export function renderSitemap(): string {
+  return buildSitemap(getSitemapPaths());
+}
+
+async function renderApp(url: string, changelog: PublishedChangelog | null): Promise<{ html: string; meta: PageMeta | null; translate: (key: string) => string; lang: string }> {
+  const lang = url.split('/')[1];
+  const collector: { meta: PageMeta | null } = { meta: null };
+  const translate = await i18n.changeLanguage(lang);
+
+  const html = renderToString(
+    <PageMetaCollectorContext.Provider value={collector}>
+      <PrerenderedChangelogContext.Provider value={changelog}>
+        <StaticRouter location={url}>
+          {/* Motion components start in their animated-to state, so the markup is visible without JavaScript. */}
+          <AnimatePresence initial={false}>
+            <App />
+          </AnimatePresence>
+        </StaticRouter>
+      </PrerenderedChangelogContext.Provider>
+    </PageMetaCollectorContext.Provider>,
+  );
+
+  return { html, meta: collector.meta, translate, lang };
+}
+
+// `changelog` is the one export-changelog wrote to the build; without it the changes page renders as loading.
+export async function render(
+  url: string,
+  changelog?: CatalogueChangelog,
+): Promise<{ html: string; head: string; lang: string }> {
+  const published = changelog ? { startedAt: changelog.startedAt, entries: changelog.entries } : null;
+  const { html, meta, translate, lang } = await renderApp(url, published);
+  const head = getPageHead(lang, url, meta, translate, siteUrl);
+
+  return { html, head: renderPageHead(head), lang };
+}
+
+// The not-found page in the default language, written to 404.html.
+export async function renderNotFound(): Promise<{ html: string; head: string; lang: string }> {
+  const { html, meta, translate, lang } = await renderApp(`/${defaultLanguage}/404`, null);
+  const title = meta?.title ?? translate('meta.title');
+  const description = meta?.description ?? translate('meta.description');
+
+  return { html, head: renderNotFoundHead({ title, description }), lang };
+}
@@ -0,0 +1,57 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { changelogPath } from '../utils/changelog';
+import type { CatalogueChangelog } from '../utils/changelog';
+
+// The part of the changelog the changes page shows; the snapshot only matters to the next build.
+export type PublishedChangelog = Pick<CatalogueChangelog, 'startedAt' | 'entries'>;
+
+export type ChangelogState =
+  | { status: 'loading' }
+  | { status: 'unavailable' }
+  | { status: 'ready'; changelog: PublishedChangelog };
+
+// Set while prerendering, with the changelog scripts/export-changelog.cjs wrote earlier in the build.
+export const PrerenderedChangelogContext = createContext<PublishedChangelog | null>(null);
+
+// The changes page embeds the entries it was prerendered with, so hydration starts from the same markup.
+export const embeddedChangelogId = 'catalogue-changelog';
+
+function readEmbeddedChangelog(): PublishedChangelog | null {
+  if (typeof document === 'undefined') return null;
+  const content = document.getElementById(embeddedChangelogId)?.textContent;
+  if (!content) return null;
+  try {
+    return JSON.parse(content) as PublishedChangelog;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The catalogue changelog for the changes page. Prerendered pages start from
+ * the entries built into them and fetch the published changelog.json only as
+ * a refresh; in dev, where no changelog is built, the page reports it as
+ * unavailable.
+ */
+export function useCatalogueChangelog(): ChangelogState {
+  const prerendered = useContext(PrerenderedChangelogContext);
+  const [state, setState] = useState<ChangelogState>(() => {
+    const changelog = prerendered ?? readEmbeddedChangelog();
+    return changelog ? { status: 'ready', changelog } : { status: 'loading' };
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(changelogPath, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(response.statusText))))
+      .then(({ startedAt, entries }: CatalogueChangelog) => setState({ status: 'ready', changelog: { startedAt, entries } }))
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setState((current) => (current.status === 'ready' ? current : { status: 'unavailable' }));
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext, useEffect } from 'react';
+import type { PageMeta } from '../types';
+
+type SetPageMeta = (meta: PageMeta | null) => void;
+
+export const PageMetaContext = createContext<SetPageMeta>(() => {});
+
+// Effects never run while prerendering, so the page meta is recorded during render instead.
+export const PageMetaCollectorContext = createContext<{ meta: PageMeta | null } | null>(null);
+
+// Overrides the default locale title/description/share image that LocaleLayout writes to <head>
+// for as long as the calling page is mounted. Pass null to keep the defaults.
+export function usePageMeta(meta: PageMeta | null): void {
+  const setPageMeta = useContext(PageMetaContext);
+  const collector = useContext(PageMetaCollectorContext);
+  const title = meta?.title;
+  const description = meta?.description;
+  const image = meta?.image;
+
+  if (collector && title != null && description != null) {
+    collector.meta = { title, description, image };
+  }
+
+  useEffect(() => {
+    if (title == null || description == null) return undefined;
+
+    setPageMeta({ title, description, image });
+    return () => setPageMeta(null);
+  }, [setPageMeta, title, description, image]);
+}
@@ -1,56 +1,42 @@
 import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
+import { resources } from './resources';
 
-import commonEN from './locales/en/common.json';
-import landingEN from './locales/en/landing.json';
-import browseEN from './locales/en/browse.json';
-import dataEN from './locales/en/data.json';
+export const defaultLanguage = 'en';
 
-import commonDE from './locales/de/common.json';
-import landingDE from './locales/de/landing.json';
-import browseDE from './locales/de/browse.json';
-import dataDE from './locales/de/data.json';
+// Default language first, then alphabetical; the language switcher and hreflang links use this order.
+export const supportedLanguages: string[] = Object.keys(resources).sort((a, b) => {
+  if (a === defaultLanguage || b === defaultLanguage) return a === defaultLanguage ? -1 : 1;
+  return a.localeCompare(b);
+});
 
-export const supportedLanguages = ['en', 'de'] as const;
-export type SupportedLanguage = (typeof supportedLanguages)[number];
-export const defaultLanguage: SupportedLanguage = 'en';
+export function isSupportedLanguage(lang: string | undefined): lang is string {
+  return lang != null && supportedLanguages.includes(lang);
+}
 
-export const localeMap: Record<SupportedLanguage, string> = {
-  en: 'en_US',
-  de: 'de_DE',
-};
+// og:locale in language_TERRITORY form, e.g. en_US or nl_NL, from the territory most associated with the language.
+export function getOgLocale(lang: string): string {
+  const { language, region } = new Intl.Locale(lang).maximize();
+  return region ? `${language}_${region}` : language;
+}
 
-export const languageEndonyms: Record<SupportedLanguage, string> = {
-  en: 'English',
-  de: 'Deutsch',
-};
+// The language's own name for itself, e.g. "Français".
+export function getLanguageEndonym(lang: string): string {
+  const name = new Intl.DisplayNames([lang], { type: 'language' }).of(lang) ?? lang;
+  return name.charAt(0).toLocaleUpperCase(lang) + name.slice(1);
+}
 
-export function detectBrowserLanguage(): SupportedLanguage {
+export function detectBrowserLanguage(): string {
   const browserLang = navigator.language.split('-')[0];
-  return supportedLanguages.includes(browserLang as SupportedLanguage)
-    ? (browserLang as SupportedLanguage)
-    : defaultLanguage;
+  return isSupportedLanguage(browserLang) ? browserLang : defaultLanguage;
 }
 
 i18n.use(initReactI18next).init({
-  resources: {
-    en: {
-      common: commonEN,
-      landing: landingEN,
-      browse: browseEN,
-      data: dataEN,
-    },
-    de: {
-      common: commonDE,
-      landing: landingDE,
-      browse: browseDE,
-      data: dataDE,
-    },
-  },
+  resources,
   lng: defaultLanguage,
   fallbackLng: defaultLanguage,
   defaultNS: 'common',
-  ns: ['common', 'landing', 'browse', 'data'],
+  ns: Object.keys(resources[defaultLanguage]),
   interpolation: {
     escapeValue: false,
   },
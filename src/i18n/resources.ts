@@ -0,0 +1,12 @@
+import type { Resource } from 'i18next';
+
+// Every folder in ./locales is a site language and each of its JSON files a namespace. Adding a
+// language only takes a new folder; keys it does not translate yet fall back to English.
+// Kept free of i18next itself so the catalogue can read messages in the build scripts too.
+const localeFiles = import.meta.glob<Record<string, unknown>>('./locales/*/*.json', { eager: true, import: 'default' });
+
+export const resources: Resource = {};
+for (const [file, messages] of Object.entries(localeFiles)) {
+  const [, lang, namespace] = /^\.\/locales\/([^/]+)\/([^/]+)\.json$/.exec(file) ?? [];
+  resources[lang] = { ...resources[lang], [namespace]: messages };
+}
@@ -1,16 +1,37 @@
 import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
+import { AnimatePresence } from 'framer-motion';
 import App from './components/App';
-import './i18n';
+import i18n from './i18n';
 import './index.css';
 
 const basename = import.meta.env.BASE_URL;
-
-createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!;
+const prerendered = Boolean(root.dataset.prerendered);
+// Prerendered pages are rendered without entrance animations (see entry-server.tsx); hydration must match.
+const app = (
   <StrictMode>
     <BrowserRouter basename={basename}>
-      <App />
+      <AnimatePresence initial={!prerendered}>
+        <App />
+      </AnimatePresence>
     </BrowserRouter>
-  </StrictMode>,
+  </StrictMode>
 );
+
+// Pages written by scripts/prerender.mjs are rendered in the language they were prerendered in and
+// hydrated when the URL matches the prerendered one. Pages are prerendered without a query string, so
+// filtered browse lists or a compare selection replace the static markup instead of hydrating it.
+// Everything else (the root redirect, 404.html) renders from scratch.
+if (prerendered) {
+  i18n.changeLanguage(document.documentElement.lang).then(() => {
+    if (window.location.search) {
+      createRoot(root).render(app);
+    } else {
+      hydrateRoot(root, app);
+    }
+  });
+} else {
+  createRoot(root).render(app);
+}
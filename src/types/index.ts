@@ -7,6 +7,10 @@ export type PrimaryPrivacyTag = typeof PRIMARY_PRIVACY_TAGS[number];
 export type SecondaryPrivacyTag = typeof SECONDARY_PRIVACY_TAGS[number];
 export type PrivacyTag = PrimaryPrivacyTag | SecondaryPrivacyTag;
 
+// Translations of a catalogue text, keyed by locale code (a folder in src/i18n/locales/). The English
+// text lives in the base field; locales without an entry fall back to it.
+export type LocalizedText = Partial<Record<string, string>>;
+
 export interface AlternativeActionLink {
   label: string;
   url: string;
@@ -16,9 +20,7 @@ export interface Alternative {
   id: string;
   name: string;
   description: string;
-  localizedDescriptions?: {
-    de?: string;
-  };
+  localizedDescriptions?: LocalizedText;
   website: string;
   logo?: string;
   country: CountryCode;
@@ -30,15 +32,22 @@ export interface Alternative {
   openSourceAuditUrl?: string;
   sourceCodeUrl?: string;
   actionLinks?: AlternativeActionLink[];
-  pricing: 'free' | 'freemium' | 'paid';
+  pricing: PricingModel;
   selfHostable?: boolean;
   tags: string[];
   foundedYear?: number;
   headquartersCity?: string;
   license?: string;
+  // Parent entities, from the direct parent up to the ultimate beneficial owner.
+  ownership?: OwnershipLink[];
+  hosting?: HostingInfrastructure;
+  dataPortability?: DataPortability;
   reservations?: Reservation[];
+  gatewayAssessments?: GatewayAssessment[];
   trustScore?: number;
   trustScoreStatus?: TrustScoreStatus;
+  // Formula result from calculateTrustScore; differs from trustScore when a curated override exists.
+  computedTrustScore?: number;
   trustScoreBreakdown?: TrustScoreBreakdown;
 }
 
@@ -48,61 +57,177 @@ export interface USVendorComparison {
   trustScoreStatus: TrustScoreStatus;
   trustScore?: number;
   description?: string;
-  descriptionDe?: string;
+  localizedDescriptions?: LocalizedText;
   reservations?: Reservation[];
 }
 
 export interface Reservation {
   id: string;
   text: string;
-  textDe?: string;
+  localizedTexts?: LocalizedText;
   severity: ReservationSeverity;
   date?: string;
   sourceUrl?: string;
+  // Omitted means ongoing; resolved and remediated reservations lose weight over time.
+  status?: ReservationStatus;
+  resolvedAt?: string;
+  resolution?: string;
+  localizedResolutions?: LocalizedText;
+}
+
+// Pass/fail admission criteria from DECISION_MATRIX.md ("Gateway Criteria").
+export const GATEWAY_CRITERIA = ['G1', 'G2', 'G3', 'G4', 'G5', 'G6', 'G7', 'G8'] as const;
+export type GatewayCriterionId = typeof GATEWAY_CRITERIA[number];
+// 'not-applicable' is only valid for G6, which applies to Tier 2 entries.
+export const GATEWAY_STATUSES = ['pass', 'fail', 'not-applicable'] as const;
+export type GatewayStatus = typeof GATEWAY_STATUSES[number];
+
+export interface GatewayAssessment {
+  criterion: GatewayCriterionId;
+  status: GatewayStatus;
+  rationale: string;
+  localizedRationales?: LocalizedText;
+  sourceUrls: string[];
+  // ISO date (YYYY-MM-DD) of the assessment.
+  assessedAt: string;
+}
+
+// Operational entanglement with a parent entity (DECISION_MATRIX.md "Ownership Structure Clause").
+export const OWNERSHIP_ENTANGLEMENTS = ['passive-financial', 'active-operational', 'data-routing'] as const;
+export type OwnershipEntanglement = typeof OWNERSHIP_ENTANGLEMENTS[number];
+
+// One step of an ownership chain: the entity holding a stake in the previous step (or in the alternative itself).
+export interface OwnershipLink {
+  entity: string;
+  // ISO 3166-1 alpha-2 code of the entity's jurisdiction. Not limited to CountryCode.
+  jurisdiction: string;
+  // Percentage of voting control or beneficial ownership, or 'majority'/'minority' when only that is disclosed.
+  stake: number | 'majority' | 'minority';
+  entanglement: OwnershipEntanglement;
+  // ISO date (YYYY-MM-DD) since when the stake is held.
+  since?: string;
+  sourceUrl?: string;
+  // Id of the curated reservation documenting this link, if any.
+  reservationId?: string;
+}
+
+// How user data is protected from the hosting provider (DECISION_MATRIX.md "Hosting Transparency").
+export const HOSTING_ENCRYPTIONS = ['end-to-end', 'provider-managed-keys', 'none'] as const;
+export type HostingEncryption = typeof HOSTING_ENCRYPTIONS[number];
+
+export interface HostingProvider {
+  // Company operating the infrastructure; the alternative itself when it runs its own data centers.
+  name: string;
+  // ISO 3166-1 alpha-2 code of the provider's jurisdiction. Not limited to CountryCode.
+  jurisdiction: string;
+}
+
+// Primary infrastructure where user data is stored and processed. Incidental CDN or API dependencies are out of scope.
+export interface HostingInfrastructure {
+  providers: HostingProvider[];
+  // ISO 3166-1 alpha-2 codes of the data-center locations; empty when undisclosed.
+  dataCenterCountries: string[];
+  encryption: HostingEncryption;
+  sourceUrl?: string;
+  // Id of the curated reservation documenting the hosting exposure, if any.
+  reservationId?: string;
+}
+
+// Standardized formats and protocols for moving user data in or out (DECISION_MATRIX.md "Data Portability").
+export const DATA_FORMATS = [
+  'mbox', 'eml', 'ics', 'vcard', 'csv', 'json', 'odf', 'ooxml', 'pdf', 'kdbx',
+  'imap', 'caldav', 'carddav', 'webdav',
+] as const;
+export type DataFormat = typeof DATA_FORMATS[number];
+
+export interface DataPortability {
+  // False for local-only tools whose data never leaves the device; the portability trigger does not apply to them.
+  storesUserData: boolean;
+  import: DataFormat[];
+  // An empty list means no standardized export is offered.
+  export: DataFormat[];
+  sourceUrl?: string;
+  // Id of the curated reservation documenting a missing export, if any.
+  reservationId?: string;
+}
+
+export const DENIAL_OUTCOMES = ['denied', 'removed'] as const;
+export type DenialOutcome = typeof DENIAL_OUTCOMES[number];
+
+export interface DenialSource {
+  label: string;
+  url: string;
+}
+
+// A product that was evaluated against the gateway criteria and rejected (or removed after listing).
+export interface DeniedAlternative {
+  id: string;
+  name: string;
+  // Other names people search for: brand variants, domains, successor products.
+  aliases: string[];
+  category: CategoryId;
+  outcome: DenialOutcome;
+  // ISO date (YYYY-MM-DD) of the decision.
+  decidedAt: string;
+  // ISO 3166-1 alpha-2 codes. Not limited to CountryCode: denied entries can come from any jurisdiction.
+  claimedCountry?: string;
+  actualCountry: string;
+  failedCriteria: GatewayCriterionId[];
+  summary: string;
+  localizedSummaries?: LocalizedText;
+  reason: string;
+  localizedReasons?: LocalizedText;
+  sources: DenialSource[];
+  reviewUrl?: string;
 }
 
 // Tier 1: EU member states + European non-EU (CH, NO, GB, IS)
 // Tier 2: Any jurisdiction not in Tier 1 (see DECISION_MATRIX.md)
-// Extend this union when adding alternatives from new jurisdictions.
-export type CountryCode =
+// Extend this list when adding alternatives from new jurisdictions.
+// Runtime lists are the source of truth for the catalogue JSON Schema (src/utils/catalogueSchema.ts).
+export const COUNTRY_CODES = [
   // Tier 1 — EU member states
-  | 'at' | 'be' | 'bg' | 'hr' | 'cy' | 'cz' | 'dk' | 'ee'
-  | 'fi' | 'fr' | 'de' | 'gr' | 'hu' | 'ie' | 'it' | 'lv'
-  | 'lt' | 'lu' | 'mt' | 'nl' | 'pl' | 'pt' | 'ro' | 'sk'
-  | 'si' | 'es' | 'se'
+  'at', 'be', 'bg', 'hr', 'cy', 'cz', 'dk', 'ee',
+  'fi', 'fr', 'de', 'gr', 'hu', 'ie', 'it', 'lv',
+  'lt', 'lu', 'mt', 'nl', 'pl', 'pt', 'ro', 'sk',
+  'si', 'es', 'se',
   // Tier 1 — European non-EU
-  | 'ch' | 'no' | 'gb' | 'is'
+  'ch', 'no', 'gb', 'is',
   // Tier 2 — Non-Tier-1 jurisdictions (extend as needed)
-  | 'ca' | 'us'
+  'ca', 'us',
   // Meta
-  | 'eu';
-
-export type CategoryId =
-  | 'cloud-storage'
-  | 'email'
-  | 'mail-client'
-  | 'search-engine'
-  | 'social-media'
-  | 'messaging'
-  | 'meeting-software'
-  | 'video-hosting'
-  | 'office-suite'
-  | 'maps'
-  | 'browser'
-  | 'desktop-os'
-  | 'mobile-os'
-  | 'vpn'
-  | 'analytics'
-  | 'project-management'
-  | 'password-manager'
-  | '2fa-authenticator'
-  | 'ai-ml'
-  | 'hosting'
-  | 'payments'
-  | 'smart-home'
-  | 'ecommerce'
-  | 'version-control'
-  | 'other';
+  'eu',
+] as const;
+export type CountryCode = typeof COUNTRY_CODES[number];
+
+export const CATEGORY_IDS = [
+  'cloud-storage',
+  'email',
+  'mail-client',
+  'search-engine',
+  'social-media',
+  'messaging',
+  'meeting-software',
+  'video-hosting',
+  'office-suite',
+  'maps',
+  'browser',
+  'desktop-os',
+  'mobile-os',
+  'vpn',
+  'analytics',
+  'project-management',
+  'password-manager',
+  '2fa-authenticator',
+  'ai-ml',
+  'hosting',
+  'payments',
+  'smart-home',
+  'ecommerce',
+  'version-control',
+  'other',
+] as const;
+export type CategoryId = typeof CATEGORY_IDS[number];
 
 export interface Category {
   id: CategoryId;
@@ -112,9 +237,57 @@ export interface Category {
   emoji: string;
 }
 
-export type OpenSourceLevel = 'full' | 'partial' | 'none';
-export type ReservationSeverity = 'minor' | 'moderate' | 'major';
-export type TrustScoreStatus = 'pending' | 'ready';
+export type JurisdictionTier = 1 | 2;
+export const PRICING_MODELS = ['free', 'freemium', 'paid'] as const;
+export type PricingModel = typeof PRICING_MODELS[number];
+export const OPEN_SOURCE_LEVELS = ['full', 'partial', 'none'] as const;
+export type OpenSourceLevel = typeof OPEN_SOURCE_LEVELS[number];
+export const RESERVATION_SEVERITIES = ['minor', 'moderate', 'major'] as const;
+export type ReservationSeverity = typeof RESERVATION_SEVERITIES[number];
+// 'remediated' means mitigated with lasting structural consequences; 'resolved' means fully fixed.
+export const RESERVATION_STATUSES = ['ongoing', 'remediated', 'resolved'] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+export const TRUST_SCORE_STATUSES = ['pending', 'ready'] as const;
+export type TrustScoreStatus = typeof TRUST_SCORE_STATUSES[number];
+
+// One published trust score in src/data/trustScoreHistory.ts. The reason is optional only for an alternative's first entry.
+export interface TrustScoreChange {
+  alternativeId: string;
+  date: string;
+  score: number;
+  reason?: string;
+  localizedReasons?: LocalizedText;
+}
+
+// Catalogue changelog entries, detected by diffing the merged catalogue against the previous published snapshot.
+export const CATALOGUE_CHANGE_TYPES = [
+  'alternative-added',
+  'alternative-removed',
+  'reservation-added',
+  'reservation-removed',
+  'trust-score-changed',
+  'denial-added',
+] as const;
+export type CatalogueChangeType = typeof CATALOGUE_CHANGE_TYPES[number];
+
+export interface CatalogueChange {
+  date: string;
+  type: CatalogueChangeType;
+  // Alternative id, or the denied product's id for 'denial-added'.
+  subjectId: string;
+  name: string;
+  reservationId?: string;
+  severity?: ReservationSeverity;
+  previousScore?: number;
+  score?: number;
+  outcome?: DenialOutcome;
+}
+
+export interface ReservationPenalty {
+  reservationId: string;
+  maxPenalty: number;
+  penalty: number;
+}
 
 export interface TrustScoreBreakdown {
   jurisdiction: number;
@@ -122,10 +295,11 @@ export interface TrustScoreBreakdown {
   privacySignals: number;
   sovereigntyBonus: number;
   reservationPenalty: number;
+  reservationPenalties: ReservationPenalty[];
   usCapApplied: boolean;
 }
 
-export type SortBy = 'trustScore' | 'name' | 'country' | 'category';
+export type SortBy = 'relevance' | 'trustScore' | 'personalScore' | 'name' | 'country' | 'category';
 export type ViewMode = 'grid' | 'list';
 
 export interface SelectedFilters {
@@ -133,4 +307,14 @@ export interface SelectedFilters {
   country: CountryCode[];
   pricing: string[];
   openSourceOnly: boolean;
+  europeanHostingOnly: boolean;
+  importFormats: DataFormat[];
+  exportFormats: DataFormat[];
+}
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Site path of the share image; defaults to the locale's generic image.
+  image?: string;
 }
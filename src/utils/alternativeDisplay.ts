@@ -0,0 +1,69 @@
+import type { Alternative, OpenSourceLevel, USVendorComparison } from '../types';
+
+export const decisionMatrixUrl = 'https://github.com/TheMorpheus407/european-alternatives/blob/main/DECISION_MATRIX.md';
+
+const opennessTagKeys = new Set([
+  'open-source',
+  'open-source-software',
+  'opensource',
+  'partial-open-source',
+  'partly-open-source',
+  'proprietary',
+]);
+
+function normalizeTagKey(tag: string): string {
+  return tag.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+export function getTrustBadgeClass(score: number): string {
+  if (score < 5) return 'alt-card-badge-trust-low';
+  if (score <= 7) return 'alt-card-badge-trust-medium';
+  return 'alt-card-badge-trust-high';
+}
+
+export function getOpenSourceLevel(alternative: Pick<Alternative, 'isOpenSource' | 'openSourceLevel'>): OpenSourceLevel {
+  if (alternative.openSourceLevel === 'full' || alternative.openSourceLevel === 'partial' || alternative.openSourceLevel === 'none') {
+    return alternative.openSourceLevel;
+  }
+
+  return alternative.isOpenSource ? 'full' : 'none';
+}
+
+export function getOpenSourceBadgeConfig(openSourceLevel: OpenSourceLevel): { className: string; labelKey: string } {
+  switch (openSourceLevel) {
+    case 'full':
+      return {
+        className: 'alt-card-badge-openness-full',
+        labelKey: 'common:openSourceFull',
+      };
+    case 'partial':
+      return {
+        className: 'alt-card-badge-openness-partial',
+        labelKey: 'common:openSourcePartial',
+      };
+    case 'none':
+    default:
+      return {
+        className: 'alt-card-badge-openness-none',
+        labelKey: 'common:proprietary',
+      };
+  }
+}
+
+export function getVisibleTags(alternative: Pick<Alternative, 'tags'>): string[] {
+  return alternative.tags.filter((tag) => !opennessTagKeys.has(normalizeTagKey(tag)));
+}
+
+export function getDisplayedUSVendorComparisons(
+  alternative: Pick<Alternative, 'replacesUS' | 'usVendorComparisons'>,
+): USVendorComparison[] {
+  if (alternative.usVendorComparisons?.length) {
+    return alternative.usVendorComparisons;
+  }
+
+  return alternative.replacesUS.map((name) => ({
+    id: `us-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`,
+    name,
+    trustScoreStatus: 'pending' as const,
+  }));
+}
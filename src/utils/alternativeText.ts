@@ -1,8 +1,104 @@
-import type { Alternative } from '../types';
+import type {
+  Alternative,
+  DeniedAlternative,
+  GatewayAssessment,
+  LocalizedText,
+  Reservation,
+  TrustScoreChange,
+  USVendorComparison,
+} from '../types';
+import { resources } from '../i18n/resources';
 
-export function getLocalizedAlternativeDescription(alternative: Alternative, language: string): string {
-  if (language.startsWith('de') && alternative.localizedDescriptions?.de) {
-    return alternative.localizedDescriptions.de;
+// Catalogue text is written in English; other locales show it until a translation is added.
+export const catalogueBaseLanguage = 'en';
+
+function getLanguageCode(language: string): string {
+  return language.split('-')[0];
+}
+
+export function getLocalizedText(text: string, translations: LocalizedText | undefined, language: string): string {
+  return translations?.[getLanguageCode(language)] || text;
+}
+
+export function isMissingTranslation(translations: LocalizedText | undefined, language: string): boolean {
+  const code = getLanguageCode(language);
+  return code !== catalogueBaseLanguage && !translations?.[code];
+}
+
+// Language of the text getLocalizedText returns, for the lang attribute of content shown in English.
+export function getTextLanguage(translations: LocalizedText | undefined, language: string): string {
+  return isMissingTranslation(translations, language) ? catalogueBaseLanguage : getLanguageCode(language);
+}
+
+// Whether the detail page of an alternative falls back to English for its description, reservations or gateway evidence.
+export function hasUntranslatedContent(alternative: Alternative, language: string): boolean {
+  return isMissingTranslation(alternative.localizedDescriptions, language)
+    || (alternative.reservations ?? []).some((reservation) => isMissingTranslation(reservation.localizedTexts, language))
+    || (alternative.gatewayAssessments ?? []).some((assessment) => isMissingTranslation(assessment.localizedRationales, language));
+}
+
+type MessageValues = Record<string, string>;
+
+// A data:derivedReservations message in one language with its {{placeholders}} filled in; undefined when untranslated.
+export function getDerivedReservationMessage(key: string, language: string, values: MessageValues = {}): string | undefined {
+  const messages = resources[language]?.data as { derivedReservations?: Record<string, string> } | undefined;
+  const message = messages?.derivedReservations?.[key];
+  return message?.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Text and translations of a reservation the catalogue derives from structured
+ * data, built from the data:derivedReservations message of every locale.
+ * `getValues` runs per language, so region names and nested phrases are
+ * localized too; locales without the message fall back to English.
+ */
+export function buildDerivedReservationText(
+  key: string,
+  getValues: (language: string) => MessageValues,
+): Pick<Reservation, 'text' | 'localizedTexts'> {
+  const text = getDerivedReservationMessage(key, catalogueBaseLanguage, getValues(catalogueBaseLanguage));
+  if (text == null) {
+    throw new Error(`Missing data:derivedReservations.${key} message in ${catalogueBaseLanguage}.`);
+  }
+
+  const localizedTexts: LocalizedText = {};
+  for (const language of Object.keys(resources)) {
+    if (language === catalogueBaseLanguage) continue;
+    const translation = getDerivedReservationMessage(key, language, getValues(language));
+    if (translation) localizedTexts[language] = translation;
   }
-  return alternative.description;
+
+  return { text, localizedTexts };
+}
+
+export function getLocalizedAlternativeDescription(alternative: Alternative, language: string): string {
+  return getLocalizedText(alternative.description, alternative.localizedDescriptions, language);
+}
+
+export function getLocalizedReservationText(reservation: Reservation, language: string): string {
+  return getLocalizedText(reservation.text, reservation.localizedTexts, language);
+}
+
+export function getLocalizedGatewayRationale(assessment: GatewayAssessment, language: string): string {
+  return getLocalizedText(assessment.rationale, assessment.localizedRationales, language);
+}
+
+export function getLocalizedUSVendorDescription(vendor: USVendorComparison, language: string): string | undefined {
+  return vendor.description && getLocalizedText(vendor.description, vendor.localizedDescriptions, language);
+}
+
+export function getLocalizedDenialSummary(denied: DeniedAlternative, language: string): string {
+  return getLocalizedText(denied.summary, denied.localizedSummaries, language);
+}
+
+export function getLocalizedDenialReason(denied: DeniedAlternative, language: string): string {
+  return getLocalizedText(denied.reason, denied.localizedReasons, language);
+}
+
+export function getLocalizedReservationResolution(reservation: Reservation, language: string): string | undefined {
+  return reservation.resolution && getLocalizedText(reservation.resolution, reservation.localizedResolutions, language);
+}
+
+export function getLocalizedTrustChangeReason(change: TrustScoreChange, language: string): string | undefined {
+  return change.reason && getLocalizedText(change.reason, change.localizedReasons, language);
 }
@@ -0,0 +1,146 @@
+import { listUSVendors, getUSVendorAliases, resolveUSVendorComparison } from '../data/usVendors';
+import { toCsv } from './csv';
+import { buildAlternativeJsonLd, getAlternativeUrl, toAbsoluteUrl } from './structuredData';
+import { getJurisdictionTier } from './trustScore';
+import type { Alternative, Category, JurisdictionTier, USVendorComparison } from '../types';
+
+// Bump on breaking changes to the exported shapes; additive fields keep the version.
+export const catalogueExportSchemaVersion = 2;
+
+export interface CatalogueExportEnvelope<T> {
+  schemaVersion: number;
+  // Content hash of the payload, changes whenever the catalogue data changes.
+  catalogueVersion: string;
+  count: number;
+  items: T[];
+}
+
+// US vendor profiles are exported once in us-vendors.json and referenced by id here.
+export interface AlternativeExport extends Omit<Alternative, 'usVendorComparisons'> {
+  usVendorIds: string[];
+  jurisdictionTier: JurisdictionTier;
+  pageUrl: string;
+}
+
+export interface CategoryExport extends Category {
+  localized: Record<string, { name?: string; description?: string }>;
+  alternativeCount: number;
+}
+
+export interface USVendorExport extends USVendorComparison {
+  aliases: string[];
+  alternativeIds: string[];
+}
+
+export type CategoryTranslations = Record<string, Record<string, { name?: string; description?: string }>>;
+
+export function buildAlternativesExport(alternatives: Alternative[]): AlternativeExport[] {
+  return alternatives.map(({ usVendorComparisons, ...alternative }) => ({
+    ...alternative,
+    ...(alternative.logo && { logo: toAbsoluteUrl(alternative.logo) }),
+    usVendorIds: (usVendorComparisons ?? []).map((vendor) => vendor.id),
+    jurisdictionTier: getJurisdictionTier(alternative.country),
+    pageUrl: getAlternativeUrl(alternative, 'en'),
+  }));
+}
+
+/** `translations` maps a locale code to that locale's `categories` block from data.json. */
+export function buildCategoriesExport(
+  categories: Category[],
+  alternatives: Alternative[],
+  translations: CategoryTranslations,
+): CategoryExport[] {
+  return categories.map((category) => ({
+    ...category,
+    localized: Object.fromEntries(
+      Object.entries(translations)
+        .filter(([, entries]) => entries[category.id])
+        .map(([locale, entries]) => [locale, entries[category.id]]),
+    ),
+    alternativeCount: alternatives.filter((alternative) => alternative.category === category.id).length,
+  }));
+}
+
+// Includes unprofiled vendors that alternatives reference through the fallback resolver.
+export function buildUSVendorsExport(alternatives: Alternative[]): USVendorExport[] {
+  const vendors = new Map<string, USVendorComparison>(
+    listUSVendors().map((vendor) => [vendor.id, resolveUSVendorComparison(vendor.name)]),
+  );
+  for (const alternative of alternatives) {
+    for (const comparison of alternative.usVendorComparisons ?? []) {
+      if (!vendors.has(comparison.id)) vendors.set(comparison.id, comparison);
+    }
+  }
+
+  return Array.from(vendors.values(), (vendor) => ({
+    ...vendor,
+    aliases: getUSVendorAliases(vendor.id),
+    alternativeIds: alternatives
+      .filter((alternative) => (alternative.usVendorComparisons ?? []).some((comparison) => comparison.id === vendor.id))
+      .map((alternative) => alternative.id),
+  }));
+}
+
+const alternativeCsvColumns = [
+  'id', 'name', 'category', 'country', 'jurisdiction_tier', 'headquarters_city', 'founded_year', 'website',
+  'pricing', 'open_source_level', 'self_hostable', 'license', 'trust_score_status', 'trust_score',
+  'computed_trust_score', 'jurisdiction_points', 'openness_points', 'privacy_signal_points',
+  'sovereignty_bonus_points', 'reservation_penalty', 'us_cap_applied', 'reservation_count',
+  'major_reservation_count', 'replaces_us', 'tags', 'page_url',
+];
+
+const formatOptionalNumber = (value: number | undefined) => (value != null ? String(value) : '');
+
+// One row per alternative; list values are joined with "; ".
+export function alternativesToCsv(entries: AlternativeExport[]): string {
+  return toCsv([
+    alternativeCsvColumns,
+    ...entries.map((entry) => {
+      const breakdown = entry.trustScoreBreakdown;
+      const reservations = entry.reservations ?? [];
+      return [
+        entry.id,
+        entry.name,
+        entry.category,
+        entry.country,
+        String(entry.jurisdictionTier),
+        entry.headquartersCity ?? '',
+        formatOptionalNumber(entry.foundedYear),
+        entry.website,
+        entry.pricing,
+        entry.openSourceLevel ?? '',
+        String(entry.selfHostable ?? false),
+        entry.license ?? '',
+        entry.trustScoreStatus ?? '',
+        formatOptionalNumber(entry.trustScore),
+        formatOptionalNumber(entry.computedTrustScore),
+        formatOptionalNumber(breakdown?.jurisdiction),
+        formatOptionalNumber(breakdown?.openness),
+        formatOptionalNumber(breakdown?.privacySignals),
+        formatOptionalNumber(breakdown?.sovereigntyBonus),
+        formatOptionalNumber(breakdown?.reservationPenalty),
+        breakdown ? String(breakdown.usCapApplied) : '',
+        String(reservations.length),
+        String(reservations.filter((reservation) => reservation.severity === 'major').length),
+        entry.replacesUS.join('; '),
+        entry.tags.join('; '),
+        entry.pageUrl,
+      ];
+    }),
+  ]);
+}
+
+export function buildAlternativesJsonLd(alternatives: Alternative[]): Record<string, unknown> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    name: 'European Alternatives catalogue',
+    numberOfItems: alternatives.length,
+    itemListElement: alternatives.map((alternative, index) => {
+      const item = buildAlternativeJsonLd(alternative, 'en', alternative.description);
+      // Nested nodes inherit the list's @context.
+      delete item['@context'];
+      return { '@type': 'ListItem', position: index + 1, item };
+    }),
+  };
+}
@@ -0,0 +1,268 @@
+import {
+  CATEGORY_IDS,
+  COUNTRY_CODES,
+  DATA_FORMATS,
+  DENIAL_OUTCOMES,
+  GATEWAY_CRITERIA,
+  GATEWAY_STATUSES,
+  HOSTING_ENCRYPTIONS,
+  OPEN_SOURCE_LEVELS,
+  OWNERSHIP_ENTANGLEMENTS,
+  PRICING_MODELS,
+  RESERVATION_SEVERITIES,
+  RESERVATION_STATUSES,
+  TRUST_SCORE_STATUSES,
+} from '../types';
+import { siteUrl } from './structuredData';
+
+export const catalogueSchemaUrl = `${siteUrl}/data/v2/alternative.schema.json`;
+
+const slug = { type: 'string', pattern: '^[a-z0-9]+(?:[-.][a-z0-9]+)*$' };
+const text = { type: 'string', minLength: 1, pattern: '\\S' };
+const httpUrl = { type: 'string', format: 'uri', pattern: '^https?://' };
+const countryCode = { type: 'string', pattern: '^[a-z]{2}$' };
+const trustScore = { type: 'number', minimum: 1, maximum: 10 };
+
+/**
+ * JSON Schema (2020-12) for catalogue entries, mirroring the interfaces in
+ * src/types/index.ts. The root validates a source `Alternative`;
+ * `$defs.alternativeExport` validates items of the published alternatives.json.
+ * Enumerations are read from the runtime lists in src/types so the schema
+ * cannot drift from the TypeScript unions.
+ */
+export const alternativeJsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: catalogueSchemaUrl,
+  title: 'European Alternatives catalogue entry',
+  $ref: '#/$defs/alternative',
+  $defs: {
+    localizedText: {
+      type: 'object',
+      propertyNames: { pattern: '^[a-z]{2}$' },
+      additionalProperties: text,
+    },
+    reservation: {
+      type: 'object',
+      required: ['id', 'text', 'severity'],
+      properties: {
+        id: slug,
+        text,
+        localizedTexts: { $ref: '#/$defs/localizedText' },
+        severity: { enum: RESERVATION_SEVERITIES },
+        date: { type: 'string', format: 'date' },
+        sourceUrl: httpUrl,
+        status: { enum: RESERVATION_STATUSES },
+        resolvedAt: { type: 'string', format: 'date' },
+        resolution: text,
+        localizedResolutions: { $ref: '#/$defs/localizedText' },
+      },
+      additionalProperties: false,
+    },
+    usVendorComparison: {
+      type: 'object',
+      required: ['id', 'name', 'trustScoreStatus'],
+      properties: {
+        id: slug,
+        name: text,
+        trustScoreStatus: { enum: TRUST_SCORE_STATUSES },
+        trustScore,
+        description: text,
+        localizedDescriptions: { $ref: '#/$defs/localizedText' },
+        reservations: { type: 'array', items: { $ref: '#/$defs/reservation' } },
+      },
+      additionalProperties: false,
+    },
+    gatewayAssessment: {
+      type: 'object',
+      required: ['criterion', 'status', 'rationale', 'sourceUrls', 'assessedAt'],
+      properties: {
+        criterion: { enum: GATEWAY_CRITERIA },
+        status: { enum: GATEWAY_STATUSES },
+        rationale: text,
+        localizedRationales: { $ref: '#/$defs/localizedText' },
+        sourceUrls: { type: 'array', items: httpUrl, uniqueItems: true },
+        assessedAt: { type: 'string', format: 'date' },
+      },
+      additionalProperties: false,
+    },
+    ownershipLink: {
+      type: 'object',
+      required: ['entity', 'jurisdiction', 'stake', 'entanglement'],
+      properties: {
+        entity: text,
+        jurisdiction: countryCode,
+        stake: {
+          anyOf: [
+            { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+            { enum: ['majority', 'minority'] },
+          ],
+        },
+        entanglement: { enum: OWNERSHIP_ENTANGLEMENTS },
+        since: { type: 'string', format: 'date' },
+        sourceUrl: httpUrl,
+        reservationId: slug,
+      },
+      additionalProperties: false,
+    },
+    hosting: {
+      type: 'object',
+      required: ['providers', 'dataCenterCountries', 'encryption'],
+      properties: {
+        providers: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['name', 'jurisdiction'],
+            properties: { name: text, jurisdiction: countryCode },
+            additionalProperties: false,
+          },
+        },
+        dataCenterCountries: { type: 'array', items: countryCode, uniqueItems: true },
+        encryption: { enum: HOSTING_ENCRYPTIONS },
+        sourceUrl: httpUrl,
+        reservationId: slug,
+      },
+      additionalProperties: false,
+    },
+    dataPortability: {
+      type: 'object',
+      required: ['storesUserData', 'import', 'export'],
+      properties: {
+        storesUserData: { type: 'boolean' },
+        import: { type: 'array', items: { enum: DATA_FORMATS }, uniqueItems: true },
+        export: { type: 'array', items: { enum: DATA_FORMATS }, uniqueItems: true },
+        sourceUrl: httpUrl,
+        reservationId: slug,
+      },
+      additionalProperties: false,
+    },
+    deniedAlternative: {
+      type: 'object',
+      required: ['id', 'name', 'aliases', 'category', 'outcome', 'decidedAt', 'actualCountry', 'failedCriteria', 'summary', 'reason', 'sources'],
+      properties: {
+        id: slug,
+        name: text,
+        aliases: { type: 'array', items: text, uniqueItems: true },
+        category: { enum: CATEGORY_IDS },
+        outcome: { enum: DENIAL_OUTCOMES },
+        decidedAt: { type: 'string', format: 'date' },
+        claimedCountry: countryCode,
+        actualCountry: countryCode,
+        failedCriteria: { type: 'array', minItems: 1, items: { enum: GATEWAY_CRITERIA }, uniqueItems: true },
+        summary: text,
+        localizedSummaries: { $ref: '#/$defs/localizedText' },
+        reason: text,
+        localizedReasons: { $ref: '#/$defs/localizedText' },
+        sources: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['label', 'url'],
+            properties: { label: text, url: httpUrl },
+            additionalProperties: false,
+          },
+        },
+        reviewUrl: httpUrl,
+      },
+      additionalProperties: false,
+    },
+    trustScoreChange: {
+      type: 'object',
+      required: ['alternativeId', 'date', 'score'],
+      properties: {
+        alternativeId: slug,
+        date: { type: 'string', format: 'date' },
+        score: trustScore,
+        reason: text,
+        localizedReasons: { $ref: '#/$defs/localizedText' },
+      },
+      additionalProperties: false,
+    },
+    trustScoreBreakdown: {
+      type: 'object',
+      required: ['jurisdiction', 'openness', 'privacySignals', 'sovereigntyBonus', 'reservationPenalty', 'reservationPenalties', 'usCapApplied'],
+      properties: {
+        jurisdiction: { type: 'number', minimum: 0 },
+        openness: { type: 'number', minimum: 0 },
+        privacySignals: { type: 'number', minimum: 0 },
+        sovereigntyBonus: { type: 'number', minimum: 0 },
+        reservationPenalty: { type: 'number', minimum: 0 },
+        reservationPenalties: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['reservationId', 'maxPenalty', 'penalty'],
+            properties: {
+              reservationId: slug,
+              maxPenalty: { type: 'number', minimum: 0 },
+              penalty: { type: 'number', minimum: 0 },
+            },
+            additionalProperties: false,
+          },
+        },
+        usCapApplied: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    // Shared fields; `alternative` and `alternativeExport` close the object over their own extras.
+    alternativeFields: {
+      type: 'object',
+      required: ['id', 'name', 'description', 'website', 'country', 'category', 'replacesUS', 'isOpenSource', 'pricing', 'tags'],
+      properties: {
+        id: slug,
+        name: text,
+        description: text,
+        localizedDescriptions: { $ref: '#/$defs/localizedText' },
+        website: httpUrl,
+        logo: { type: 'string', format: 'uri-reference', pattern: '^(?:https?://|/)' },
+        country: { enum: COUNTRY_CODES },
+        category: { enum: CATEGORY_IDS },
+        replacesUS: { type: 'array', minItems: 1, items: text, uniqueItems: true },
+        usVendorComparisons: { type: 'array', items: { $ref: '#/$defs/usVendorComparison' } },
+        isOpenSource: { type: 'boolean' },
+        openSourceLevel: { enum: OPEN_SOURCE_LEVELS },
+        openSourceAuditUrl: httpUrl,
+        sourceCodeUrl: httpUrl,
+        actionLinks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['label', 'url'],
+            properties: { label: text, url: httpUrl },
+            additionalProperties: false,
+          },
+        },
+        pricing: { enum: PRICING_MODELS },
+        selfHostable: { type: 'boolean' },
+        tags: { type: 'array', items: text },
+        foundedYear: { type: 'integer', minimum: 1800 },
+        headquartersCity: text,
+        license: text,
+        ownership: { type: 'array', items: { $ref: '#/$defs/ownershipLink' } },
+        hosting: { $ref: '#/$defs/hosting' },
+        dataPortability: { $ref: '#/$defs/dataPortability' },
+        reservations: { type: 'array', items: { $ref: '#/$defs/reservation' } },
+        gatewayAssessments: { type: 'array', items: { $ref: '#/$defs/gatewayAssessment' } },
+        trustScore,
+        trustScoreStatus: { enum: TRUST_SCORE_STATUSES },
+        computedTrustScore: { type: 'number', minimum: 0, maximum: 10 },
+        trustScoreBreakdown: { $ref: '#/$defs/trustScoreBreakdown' },
+      },
+    },
+    alternative: {
+      $ref: '#/$defs/alternativeFields',
+      unevaluatedProperties: false,
+    },
+    alternativeExport: {
+      $ref: '#/$defs/alternativeFields',
+      required: ['usVendorIds', 'jurisdictionTier', 'pageUrl'],
+      properties: {
+        usVendorIds: { type: 'array', items: slug },
+        jurisdictionTier: { enum: [1, 2] },
+        pageUrl: httpUrl,
+      },
+      unevaluatedProperties: false,
+    },
+  },
+};
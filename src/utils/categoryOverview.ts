@@ -0,0 +1,76 @@
+import { alternatives, categories } from '../data';
+import { resolveUSVendorComparison } from '../data/usVendors';
+import { compareByTrust, hasVettedTrustScore } from './trustScore';
+import { DATA_FORMATS } from '../types';
+import type { Alternative, Category, DataFormat, USVendorComparison } from '../types';
+
+export interface CategoryGiant {
+  // Name as curated in categories.ts.
+  name: string;
+  vendor: USVendorComparison;
+  // Ids of the alternatives that list the giant's vendor, best trust score first.
+  alternativeIds: string[];
+}
+
+export interface CategoryStats {
+  alternativeCount: number;
+  vettedCount: number;
+  averageTrustScore?: number;
+  openSourceCount: number;
+  selfHostableCount: number;
+  countryCount: number;
+}
+
+export interface CategoryOverview {
+  category: Category;
+  alternatives: Alternative[];
+  giants: CategoryGiant[];
+  stats: CategoryStats;
+  // Formats at least one alternative in the category can import, in DATA_FORMATS order.
+  importFormats: DataFormat[];
+}
+
+export function listsUSVendor(alternative: Pick<Alternative, 'usVendorComparisons'>, vendorId: string): boolean {
+  return (alternative.usVendorComparisons ?? []).some((comparison) => comparison.id === vendorId);
+}
+
+/**
+ * Collects a category's alternatives and matches them against its US giants.
+ * Giants and `replacesUS` entries are both resolved through the US vendor
+ * alias table, so an alternative listing "Microsoft 365" covers "OneDrive"
+ * when both resolve to the same vendor.
+ */
+export function getCategoryOverview(categoryId: string): CategoryOverview | undefined {
+  const category = categories.find((entry) => entry.id === categoryId);
+  if (!category) return undefined;
+
+  const entries = alternatives.filter((alternative) => alternative.category === category.id).sort(compareByTrust);
+  const vetted = entries.filter(hasVettedTrustScore);
+  const vettedTotal = vetted.reduce((sum, alternative) => sum + (alternative.trustScore ?? 0), 0);
+
+  const giants = category.usGiants.map((name) => {
+    const vendor = resolveUSVendorComparison(name);
+    return {
+      name,
+      vendor,
+      alternativeIds: entries.filter((alternative) => listsUSVendor(alternative, vendor.id)).map((alternative) => alternative.id),
+    };
+  });
+
+  const importable = new Set(entries.flatMap((alternative) => alternative.dataPortability?.import ?? []));
+
+  return {
+    category,
+    alternatives: entries,
+    giants,
+    stats: {
+      alternativeCount: entries.length,
+      vettedCount: vetted.length,
+      averageTrustScore: vetted.length > 0 ? Math.round((vettedTotal / vetted.length) * 10) / 10 : undefined,
+      openSourceCount: entries.filter((alternative) => alternative.isOpenSource).length,
+      selfHostableCount: entries.filter((alternative) => alternative.selfHostable).length,
+      countryCount: new Set(entries.map((alternative) => alternative.country)).size,
+    },
+    importFormats: DATA_FORMATS.filter((format) => importable.has(format)),
+  };
+}
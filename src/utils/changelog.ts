@@ -0,0 +1,258 @@
+import { siteUrl } from './structuredData';
+import type { Alternative, CatalogueChange, DeniedAlternative, DenialOutcome, ReservationSeverity } from '../types';
+
+// Bump on breaking changes to the changelog shape; readers of older files then start a fresh baseline.
+export const changelogSchemaVersion = 1;
+export const changelogPath = '/data/v1/changelog.json';
+export const maxFeedEntries = 50;
+
+export interface CatalogueSnapshot {
+  alternatives: Record<string, { name: string; reservations: Record<string, ReservationSeverity> }>;
+  trustScores: Record<string, number>;
+  denied: Record<string, { name: string; outcome: DenialOutcome }>;
+}
+
+export interface CatalogueChangelog {
+  schemaVersion: number;
+  // Date of the first snapshot; nothing before it is recorded.
+  startedAt: string;
+  // State of the catalogue when the changelog was last published; the next build diffs against it.
+  snapshot: CatalogueSnapshot;
+  // Newest first.
+  entries: CatalogueChange[];
+}
+
+export type ChangeTranslator = (key: string, values?: Record<string, string | number>) => string;
+
+export function buildCatalogueSnapshot(
+  alternatives: Alternative[],
+  trustScoresById: Record<string, number>,
+  deniedAlternatives: DeniedAlternative[],
+): CatalogueSnapshot {
+  const listedIds = new Set(alternatives.map((alternative) => alternative.id));
+
+  return {
+    alternatives: Object.fromEntries(alternatives.map((alternative) => [
+      alternative.id,
+      {
+        name: alternative.name,
+        reservations: Object.fromEntries((alternative.reservations ?? []).map((reservation) => [reservation.id, reservation.severity])),
+      },
+    ])),
+    // Overrides for ids that are not listed are not published anywhere.
+    trustScores: Object.fromEntries(Object.entries(trustScoresById).filter(([id]) => listedIds.has(id))),
+    denied: Object.fromEntries(deniedAlternatives.map((denied) => [denied.id, { name: denied.name, outcome: denied.outcome }])),
+  };
+}
+
+/**
+ * Lists what changed between two snapshots, in a stable order: additions and
+ * removals of alternatives, then reservations, score changes and denials.
+ * Reservations of an added or removed alternative are implied by that entry
+ * and not listed separately.
+ */
+export function diffCatalogueSnapshots(previous: CatalogueSnapshot, current: CatalogueSnapshot, date: string): CatalogueChange[] {
+  const changes: CatalogueChange[] = [];
+  const sortedKeys = (record: object) => Object.keys(record).sort();
+
+  for (const id of sortedKeys(current.alternatives)) {
+    if (!previous.alternatives[id]) {
+      changes.push({ date, type: 'alternative-added', subjectId: id, name: current.alternatives[id].name });
+    }
+  }
+  for (const id of sortedKeys(previous.alternatives)) {
+    if (!current.alternatives[id]) {
+      changes.push({ date, type: 'alternative-removed', subjectId: id, name: previous.alternatives[id].name });
+    }
+  }
+
+  for (const id of sortedKeys(current.alternatives)) {
+    const before = previous.alternatives[id];
+    if (!before) continue;
+    const after = current.alternatives[id];
+    for (const reservationId of sortedKeys(after.reservations)) {
+      if (!(reservationId in before.reservations)) {
+        changes.push({
+          date,
+          type: 'reservation-added',
+          subjectId: id,
+          name: after.name,
+          reservationId,
+          severity: after.reservations[reservationId],
+        });
+      }
+    }
+    for (const reservationId of sortedKeys(before.reservations)) {
+      if (!(reservationId in after.reservations)) {
+        changes.push({
+          date,
+          type: 'reservation-removed',
+          subjectId: id,
+          name: after.name,
+          reservationId,
+          severity: before.reservations[reservationId],
+        });
+      }
+    }
+  }
+
+  for (const id of sortedKeys(current.trustScores)) {
+    const previousScore = previous.trustScores[id];
+    const score = current.trustScores[id];
+    if (previousScore != null && previousScore !== score && previous.alternatives[id]) {
+      changes.push({ date, type: 'trust-score-changed', subjectId: id, name: current.alternatives[id].name, previousScore, score });
+    }
+  }
+
+  for (const id of sortedKeys(current.denied)) {
+    if (!previous.denied[id]) {
+      changes.push({ date, type: 'denial-added', subjectId: id, name: current.denied[id].name, outcome: current.denied[id].outcome });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Extends the previously published changelog with the changes since its
+ * snapshot. Without a usable previous changelog the current state becomes the
+ * baseline, so the first build does not report the whole catalogue as new.
+ */
+export function updateCatalogueChangelog(
+  previous: CatalogueChangelog | undefined,
+  snapshot: CatalogueSnapshot,
+  date: string,
+): CatalogueChangelog {
+  if (!previous || previous.schemaVersion !== changelogSchemaVersion) {
+    return { schemaVersion: changelogSchemaVersion, startedAt: date, snapshot, entries: [] };
+  }
+
+  return {
+    schemaVersion: changelogSchemaVersion,
+    startedAt: previous.startedAt,
+    snapshot,
+    entries: [...diffCatalogueSnapshots(previous.snapshot, snapshot, date), ...previous.entries],
+  };
+}
+
+// Stable per entry, used as page anchor and feed entry id.
+export function getCatalogueChangeId(change: CatalogueChange): string {
+  return [change.date, change.type, change.subjectId, change.reservationId].filter(Boolean).join('-');
+}
+
+export function getCatalogueChangePath(change: CatalogueChange, lang: string): string | undefined {
+  switch (change.type) {
+    case 'denial-added':
+      return `/${lang}/denied#${change.subjectId}`;
+    case 'alternative-removed':
+      return undefined;
+    default:
+      return `/${lang}/alternative/${change.subjectId}`;
+  }
+}
+
+export function describeCatalogueChange(change: CatalogueChange, t: ChangeTranslator): string {
+  return t(`changes.entry.${change.type}`, {
+    name: change.name,
+    severity: change.severity ? t(`severity.${change.severity}`) : '',
+    outcome: change.outcome ? t(`denied.outcome.${change.outcome}`) : '',
+    from: change.previousScore?.toFixed(1) ?? '',
+    to: change.score?.toFixed(1) ?? '',
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export interface FeedOptions {
+  lang: string;
+  title: string;
+  description: string;
+  changelog: CatalogueChangelog;
+  t: ChangeTranslator;
+  // Localized detail for an entry, e.g. the reservation text.
+  getDetail?: (change: CatalogueChange) => string | undefined;
+}
+
+function getFeedLink(change: CatalogueChange, lang: string): string {
+  const path = getCatalogueChangePath(change, lang) ?? `/${lang}/changes#${getCatalogueChangeId(change)}`;
+  return `${siteUrl}${path}`;
+}
+
+export function getFeedPath(lang: string, format: 'atom' | 'rss'): string {
+  return `/feeds/changes.${lang}.${format}`;
+}
+
+// Feeds only change with the data: the newest entry date stands in for the build time.
+export function buildAtomFeed({ lang, title, description, changelog, t, getDetail }: FeedOptions): string {
+  const { entries } = changelog;
+  const pageUrl = `${siteUrl}/${lang}/changes`;
+  const updated = `${entries[0]?.date ?? changelog.startedAt}T00:00:00Z`;
+  const items = entries.slice(0, maxFeedEntries).map((change) => {
+    const detail = getDetail?.(change);
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(`${pageUrl}#${getCatalogueChangeId(change)}`)}</id>`,
+      `    <title>${escapeXml(describeCatalogueChange(change, t))}</title>`,
+      `    <link href="${escapeXml(getFeedLink(change, lang))}"/>`,
+      `    <updated>${change.date}T00:00:00Z</updated>`,
+      ...(detail ? [`    <summary>${escapeXml(detail)}</summary>`] : []),
+      '  </entry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${lang}">`,
+    `  <id>${pageUrl}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <subtitle>${escapeXml(description)}</subtitle>`,
+    `  <link href="${pageUrl}"/>`,
+    `  <link rel="self" href="${siteUrl}${getFeedPath(lang, 'atom')}"/>`,
+    `  <updated>${updated}</updated>`,
+    '  <author><name>European Alternatives</name></author>',
+    ...items,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function buildRssFeed({ lang, title, description, changelog, t, getDetail }: FeedOptions): string {
+  const { entries } = changelog;
+  const pageUrl = `${siteUrl}/${lang}/changes`;
+  const toRfc822 = (date: string) => new Date(`${date}T00:00:00Z`).toUTCString();
+  const items = entries.slice(0, maxFeedEntries).map((change) => {
+    const detail = getDetail?.(change);
+    return [
+      '    <item>',
+      `      <guid isPermaLink="false">${escapeXml(`${pageUrl}#${getCatalogueChangeId(change)}`)}</guid>`,
+      `      <title>${escapeXml(describeCatalogueChange(change, t))}</title>`,
+      `      <link>${escapeXml(getFeedLink(change, lang))}</link>`,
+      `      <pubDate>${toRfc822(change.date)}</pubDate>`,
+      ...(detail ? [`      <description>${escapeXml(detail)}</description>`] : []),
+      '    </item>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${pageUrl}</link>`,
+    `    <description>${escapeXml(description)}</description>`,
+    `    <language>${lang}</language>`,
+    `    <atom:link href="${siteUrl}${getFeedPath(lang, 'rss')}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${toRfc822(entries[0]?.date ?? changelog.startedAt)}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
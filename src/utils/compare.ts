@@ -0,0 +1,12 @@
+import { alternatives } from '../data';
+
+export const maxComparedAlternatives = 4;
+
+const validAlternativeIds = new Set(alternatives.map((alternative) => alternative.id));
+
+// Accepts both repeated params (?compare=a&compare=b) and comma lists (?ids=a,b).
+export function parseComparedIds(values: string[]): string[] {
+  const ids = values.flatMap((value) => value.split(',')).map((value) => value.trim());
+  const unique = Array.from(new Set(ids)).filter((id) => validAlternativeIds.has(id));
+  return unique.slice(0, maxComparedAlternatives);
+}
@@ -0,0 +1,9 @@
+function escapeCsvCell(value: string): string {
+  // Leading formula characters are neutralised so spreadsheets do not evaluate cells.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return `${rows.map((row) => row.map(escapeCsvCell).join(',')).join('\n')}\n`;
+}
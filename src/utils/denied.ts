@@ -0,0 +1,31 @@
+import { deniedAlternatives } from '../data/deniedAlternatives';
+import type { DeniedAlternative } from '../types';
+import { getSearchTerms } from './search';
+
+// Shorter queries ("pro", "off") would flag denials while the user is still typing something else.
+const minQueryKeyLength = 4;
+
+// Folded and with separators removed, so "Start Page", "startpage.com" and "STARTPAGE" share a key.
+function toCompactKey(value: string): string {
+  return getSearchTerms(value).join('');
+}
+
+const deniedKeys = deniedAlternatives.map((denied) => ({
+  denied,
+  keys: [denied.name, ...denied.aliases].map(toCompactKey),
+}));
+
+/**
+ * Returns the denied or removed products a browse query refers to. A query
+ * matches when its compact key and a name or alias key are prefixes of one
+ * another, which covers both partial input ("startp") and queries with extra
+ * words ("onlyoffice docs").
+ */
+export function findDeniedAlternatives(query: string): DeniedAlternative[] {
+  const queryKey = toCompactKey(query);
+  if (queryKey.length < minQueryKeyLength) return [];
+
+  return deniedKeys
+    .filter(({ keys }) => keys.some((key) => key.startsWith(queryKey) || queryKey.startsWith(key)))
+    .map(({ denied }) => denied);
+}
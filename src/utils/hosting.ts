@@ -0,0 +1,47 @@
+import type { Alternative, Reservation } from '../types';
+import { buildDerivedReservationText } from './alternativeText';
+import { isEuropeanJurisdiction } from './trustScore';
+
+type HostingSubject = Pick<Alternative, 'country' | 'selfHostable' | 'hosting'>;
+
+/** True when every disclosed primary hosting provider is European-owned. Undisclosed hosting never qualifies. */
+export function isHostedOnEuropeanInfrastructure(alternative: Pick<Alternative, 'hosting'>): boolean {
+  const providers = alternative.hosting?.providers ?? [];
+  return providers.length > 0 && providers.every((provider) => isEuropeanJurisdiction(provider.jurisdiction));
+}
+
+/**
+ * European hosting as the browse filter sees it. Few entries document their
+ * hosting yet, so an entry without a `hosting` field falls back to the
+ * jurisdiction of the company running it.
+ */
+export function isHostedInEurope(alternative: Pick<Alternative, 'country' | 'hosting'>): boolean {
+  return alternative.hosting ? isHostedOnEuropeanInfrastructure(alternative) : isEuropeanJurisdiction(alternative.country);
+}
+
+/**
+ * Applies the Hosting Transparency trigger: a Tier 1 entry whose primary
+ * infrastructure runs on US-owned cloud platforms needs a reservation unless
+ * user data is end-to-end encrypted or the software is fully self-hostable.
+ * Provider-managed keys only reduce the severity from `moderate` to `minor`.
+ * Returns nothing when the hosting links a curated reservation instead.
+ */
+export function buildHostingReservation(alternative: HostingSubject, existing: Reservation[]): Reservation | undefined {
+  const { hosting } = alternative;
+  if (!hosting || !isEuropeanJurisdiction(alternative.country)) return undefined;
+  if (hosting.encryption === 'end-to-end' || alternative.selfHostable) return undefined;
+  if (hosting.reservationId && existing.some((reservation) => reservation.id === hosting.reservationId)) return undefined;
+
+  const usProviders = hosting.providers.filter((provider) => provider.jurisdiction === 'us').map((provider) => provider.name);
+  if (usProviders.length === 0) return undefined;
+
+  const providerList = usProviders.join(', ');
+  const keysNote = hosting.encryption === 'provider-managed-keys';
+
+  return {
+    id: 'us-cloud-hosting',
+    ...buildDerivedReservationText(keysNote ? 'usCloudHostingProviderKeys' : 'usCloudHosting', () => ({ providers: providerList })),
+    severity: keysNote ? 'minor' : 'moderate',
+    ...(hosting.sourceUrl && { sourceUrl: hosting.sourceUrl }),
+  };
+}
@@ -0,0 +1,103 @@
+import { alternativeJsonSchema } from './catalogueSchema';
+import { siteUrl } from './structuredData';
+import type { AlternativeExport, USVendorExport } from './catalogueExport';
+import type { GatewayAssessment, Reservation } from '../types';
+
+// Version 1 of the export is still published next to the current one until consumers have moved on.
+// It is the current export with each translation map reduced to its German text, as v1 carried it.
+export const legacyCatalogueExportSchemaVersion = 1;
+
+export const legacyCatalogueSchemaUrl = `${siteUrl}/data/v1/alternative.schema.json`;
+
+export type LegacyReservation = Omit<Reservation, 'localizedTexts' | 'localizedResolutions'> & {
+  textDe?: string;
+  resolutionDe?: string;
+};
+
+export type LegacyGatewayAssessment = Omit<GatewayAssessment, 'localizedRationales'> & {
+  rationaleDe?: string;
+};
+
+export type LegacyAlternativeExport = Omit<AlternativeExport, 'reservations' | 'gatewayAssessments'> & {
+  reservations?: LegacyReservation[];
+  gatewayAssessments?: LegacyGatewayAssessment[];
+};
+
+export type LegacyUSVendorExport = Omit<USVendorExport, 'localizedDescriptions' | 'reservations'> & {
+  descriptionDe?: string;
+  reservations?: LegacyReservation[];
+};
+
+function toLegacyReservation({ localizedTexts, localizedResolutions, ...reservation }: Reservation): LegacyReservation {
+  return {
+    ...reservation,
+    ...(localizedTexts?.de && { textDe: localizedTexts.de }),
+    ...(localizedResolutions?.de && { resolutionDe: localizedResolutions.de }),
+  };
+}
+
+function toLegacyGatewayAssessment({ localizedRationales, ...assessment }: GatewayAssessment): LegacyGatewayAssessment {
+  return {
+    ...assessment,
+    ...(localizedRationales?.de && { rationaleDe: localizedRationales.de }),
+  };
+}
+
+// Alternatives already had `localizedDescriptions` in v1; only the nested shapes changed.
+export function toLegacyAlternativesExport(entries: AlternativeExport[]): LegacyAlternativeExport[] {
+  return entries.map(({ reservations, gatewayAssessments, ...entry }) => ({
+    ...entry,
+    ...(reservations && { reservations: reservations.map(toLegacyReservation) }),
+    ...(gatewayAssessments && { gatewayAssessments: gatewayAssessments.map(toLegacyGatewayAssessment) }),
+  }));
+}
+
+export function toLegacyUSVendorsExport(entries: USVendorExport[]): LegacyUSVendorExport[] {
+  return entries.map(({ localizedDescriptions, reservations, ...vendor }) => ({
+    ...vendor,
+    ...(localizedDescriptions?.de && { descriptionDe: localizedDescriptions.de }),
+    ...(reservations && { reservations: reservations.map(toLegacyReservation) }),
+  }));
+}
+
+// The v1 name of each translation map, per schema definition.
+const legacyGermanFields: Record<string, Record<string, string>> = {
+  reservation: { localizedTexts: 'textDe', localizedResolutions: 'resolutionDe' },
+  usVendorComparison: { localizedDescriptions: 'descriptionDe' },
+  gatewayAssessment: { localizedRationales: 'rationaleDe' },
+  deniedAlternative: { localizedSummaries: 'summaryDe', localizedReasons: 'reasonDe' },
+  trustScoreChange: { localizedReasons: 'reasonDe' },
+};
+
+interface SchemaDefinition {
+  [keyword: string]: unknown;
+  properties?: Record<string, unknown>;
+}
+
+function buildLegacyJsonSchema() {
+  const { $defs, ...schema } = alternativeJsonSchema;
+  const { localizedText, ...definitions }: Record<string, SchemaDefinition> = $defs;
+  const isTranslationMap = (property: unknown) =>
+    (property as { $ref?: string }).$ref === '#/$defs/localizedText';
+
+  // Renamed maps become the German string (the map's value schema); the rest keep the map, inlined.
+  const toLegacyProperties = (properties: Record<string, unknown>, renames: Record<string, string>) =>
+    Object.fromEntries(Object.entries(properties).map(([field, property]) => {
+      if (!isTranslationMap(property)) return [field, property];
+      return renames[field] ? [renames[field], localizedText.additionalProperties] : [field, localizedText];
+    }));
+
+  return {
+    ...schema,
+    $id: legacyCatalogueSchemaUrl,
+    $defs: Object.fromEntries(Object.entries(definitions).map(([name, definition]) => [
+      name,
+      definition.properties
+        ? { ...definition, properties: toLegacyProperties(definition.properties, legacyGermanFields[name] ?? {}) }
+        : definition,
+    ])),
+  };
+}
+
+/** The v1 `alternative.schema.json`, derived from the current schema. */
+export const legacyAlternativeJsonSchema = buildLegacyJsonSchema();
@@ -0,0 +1,61 @@
+import { alternatives } from '../data';
+import { listUSVendors, resolveUSVendorComparison } from '../data/usVendors';
+import { compareByTrust } from './trustScore';
+import type { Alternative, CategoryId, USVendorComparison } from '../types';
+
+export interface MigrationCategoryGroup {
+  categoryId: CategoryId;
+  alternatives: Alternative[];
+}
+
+export interface MigrationTarget {
+  input: string;
+  vendor: USVendorComparison;
+  // Canonical vendor name; the resolver echoes the typed alias as context.
+  vendorName: string;
+  groups: MigrationCategoryGroup[];
+}
+
+const usVendorNamesById = new Map(listUSVendors().map((vendor) => [vendor.id, vendor.name]));
+
+/**
+ * Resolves a product name as typed by the user ("gdrive", "drive.google.com")
+ * through the US vendor alias table and collects every alternative that lists
+ * the resolved vendor, grouped by category and ordered by trust score with
+ * vetted alternatives first.
+ * Groups are ordered by their best-scoring alternative.
+ */
+export function findMigrationTarget(input: string): MigrationTarget {
+  const vendor = resolveUSVendorComparison(input);
+  const byCategory = new Map<CategoryId, Alternative[]>();
+
+  for (const alternative of alternatives) {
+    if (!(alternative.usVendorComparisons ?? []).some((comparison) => comparison.id === vendor.id)) continue;
+    const group = byCategory.get(alternative.category) ?? [];
+    group.push(alternative);
+    byCategory.set(alternative.category, group);
+  }
+
+  const groups = Array.from(byCategory, ([categoryId, entries]) => ({
+    categoryId,
+    alternatives: entries.sort(compareByTrust),
+  })).sort((a, b) => compareByTrust(a.alternatives[0], b.alternatives[0]));
+
+  return { input, vendor, vendorName: usVendorNamesById.get(vendor.id) ?? vendor.name, groups };
+}
+
+/** Resolves every input, dropping blanks and inputs that resolve to an already listed vendor. */
+export function findMigrationTargets(inputs: string[]): MigrationTarget[] {
+  const seenVendorIds = new Set<string>();
+  const targets: MigrationTarget[] = [];
+
+  for (const input of inputs) {
+    if (!input.trim()) continue;
+    const target = findMigrationTarget(input);
+    if (seenVendorIds.has(target.vendor.id)) continue;
+    seenVendorIds.add(target.vendor.id);
+    targets.push(target);
+  }
+
+  return targets;
+}
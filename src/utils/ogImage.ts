@@ -0,0 +1,21 @@
+// Share images are rendered by scripts/export-og-images.mjs during the build, one set per locale.
+export const ogImageWidth = 1200;
+export const ogImageHeight = 630;
+
+export interface OgImageSubject {
+  type: 'alternative' | 'category';
+  id: string;
+}
+
+export function getOgImagePath(lang: string, subject?: OgImageSubject): string {
+  return subject ? `/og/${lang}/${subject.type}/${subject.id}.png` : `/og/${lang}/default.png`;
+}
+
+// Category images are only rendered for categories with alternatives; an empty category shares the default image.
+export function hasCategoryOgImage(alternativeCount: number): boolean {
+  return alternativeCount > 0;
+}
+
+export function getCategoryOgImagePath(lang: string, categoryId: string, alternativeCount: number): string {
+  return hasCategoryOgImage(alternativeCount) ? getOgImagePath(lang, { type: 'category', id: categoryId }) : getOgImagePath(lang);
+}
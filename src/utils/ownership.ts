@@ -0,0 +1,82 @@
+import type { Alternative, OwnershipLink, Reservation } from '../types';
+import { buildDerivedReservationText, catalogueBaseLanguage, getDerivedReservationMessage } from './alternativeText';
+import { isEuropeanJurisdiction } from './trustScore';
+
+function getRegionName(code: string, language: string): string {
+  return new Intl.DisplayNames([language], { type: 'region' }).of(code.toUpperCase()) ?? code.toUpperCase();
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function hasMajorityStake(link: OwnershipLink): boolean {
+  return link.stake === 'majority' || (typeof link.stake === 'number' && link.stake > 50);
+}
+
+/**
+ * Follows the ownership chain while each link holds a majority and returns the
+ * first non-European entity reached, i.e. the parent that ultimately controls a
+ * European entry. Minority links break the chain of control.
+ */
+export function getForeignMajorityOwner(alternative: Pick<Alternative, 'country' | 'ownership'>): OwnershipLink | undefined {
+  if (!isEuropeanJurisdiction(alternative.country)) return undefined;
+
+  for (const link of alternative.ownership ?? []) {
+    if (!hasMajorityStake(link)) return undefined;
+    if (!isEuropeanJurisdiction(link.jurisdiction)) return link;
+  }
+  return undefined;
+}
+
+// The stake phrase of the foreign owner message, in English where the language has no translation for it.
+function describeStake(link: OwnershipLink, language: string): string {
+  const key = typeof link.stake === 'number' ? 'stakePercent' : 'majorityStake';
+  const values = { percent: String(link.stake) };
+  return getDerivedReservationMessage(key, language, values)
+    ?? getDerivedReservationMessage(key, catalogueBaseLanguage, values)
+    ?? '';
+}
+
+/**
+ * Reservations the Ownership Structure Clause mandates for a European entry with
+ * a non-European majority owner: a `major` reservation documenting the parent
+ * (skipped when the link references a curated one) and, for active operational
+ * entanglement, an additional `minor` reservation carrying the extra penalty.
+ */
+export function buildOwnershipReservations(
+  alternative: Pick<Alternative, 'name' | 'country' | 'ownership'>,
+  existing: Reservation[],
+): Reservation[] {
+  const owner = getForeignMajorityOwner(alternative);
+  if (!owner) return [];
+
+  const derived: Reservation[] = [];
+  const ownerSlug = slugify(owner.entity);
+
+  if (!owner.reservationId || !existing.some((reservation) => reservation.id === owner.reservationId)) {
+    derived.push({
+      id: `foreign-majority-owner-${ownerSlug}`,
+      ...buildDerivedReservationText('foreignMajorityOwner', (language) => ({
+        owner: owner.entity,
+        jurisdiction: getRegionName(owner.jurisdiction, language),
+        stake: describeStake(owner, language),
+        name: alternative.name,
+      })),
+      severity: 'major',
+      ...(owner.since && { date: owner.since }),
+      ...(owner.sourceUrl && { sourceUrl: owner.sourceUrl }),
+    });
+  }
+
+  if (owner.entanglement === 'active-operational') {
+    derived.push({
+      id: `operational-entanglement-${ownerSlug}`,
+      ...buildDerivedReservationText('operationalEntanglement', () => ({ owner: owner.entity, name: alternative.name })),
+      severity: 'minor',
+      ...(owner.sourceUrl && { sourceUrl: owner.sourceUrl }),
+    });
+  }
+
+  return derived;
+}
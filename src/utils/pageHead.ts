@@ -0,0 +1,80 @@
+import { defaultLanguage, getOgLocale, supportedLanguages } from '../i18n';
+import { getOgImagePath, ogImageHeight, ogImageWidth } from './ogImage';
+import type { PageMeta } from '../types';
+
+export interface PageHead {
+  lang: string;
+  title: string;
+  description: string;
+  ogDescription: string;
+  ogLocale: string;
+  ogImage: string;
+  canonicalUrl: string;
+  alternates: Array<{ hreflang: string; href: string }>;
+}
+
+/**
+ * Resolves the <head> values for a localized page. Pages override the default
+ * title, description and share image through usePageMeta; canonical and
+ * hreflang URLs are built from the path without its language prefix.
+ */
+export function getPageHead(
+  lang: string,
+  pathname: string,
+  pageMeta: PageMeta | null,
+  translate: (key: string) => string,
+  origin: string,
+): PageHead {
+  const pathWithoutLang = pathname.replace(new RegExp(`^/${lang}`), '');
+
+  return {
+    lang,
+    title: pageMeta?.title ?? translate('meta.title'),
+    description: pageMeta?.description ?? translate('meta.description'),
+    ogDescription: pageMeta?.description ?? translate('meta.ogDescription'),
+    ogLocale: getOgLocale(lang),
+    ogImage: `${origin}${pageMeta?.image ?? getOgImagePath(lang)}`,
+    canonicalUrl: `${origin}/${lang}${pathWithoutLang}`,
+    alternates: [
+      ...supportedLanguages.map((hreflang) => ({ hreflang, href: `${origin}/${hreflang}${pathWithoutLang}` })),
+      { hreflang: 'x-default', href: `${origin}/${defaultLanguage}${pathWithoutLang}` },
+    ],
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Markup for prerendered pages; LocaleLayout keeps the same tags up to date after client-side navigation.
+export function renderPageHead(head: PageHead): string {
+  return [
+    `<title>${escapeHtml(head.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(head.description)}" />`,
+    `<meta property="og:title" content="${escapeHtml(head.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(head.ogDescription)}" />`,
+    `<meta property="og:locale" content="${head.ogLocale}" />`,
+    `<meta property="og:url" content="${escapeHtml(head.canonicalUrl)}" />`,
+    `<meta property="og:image" content="${escapeHtml(head.ogImage)}" />`,
+    `<meta property="og:image:width" content="${ogImageWidth}" />`,
+    `<meta property="og:image:height" content="${ogImageHeight}" />`,
+    `<meta name="twitter:title" content="${escapeHtml(head.title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(head.ogDescription)}" />`,
+    `<meta name="twitter:image" content="${escapeHtml(head.ogImage)}" />`,
+    `<link rel="canonical" href="${escapeHtml(head.canonicalUrl)}" />`,
+    ...head.alternates.map(({ hreflang, href }) => `<link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(href)}" />`),
+  ].join('\n    ');
+}
+
+// 404.html answers for any unknown path, so it names no canonical or alternate URL and stays out of search results.
+export function renderNotFoundHead(head: Pick<PageHead, 'title' | 'description'>): string {
+  return [
+    `<title>${escapeHtml(head.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(head.description)}" />`,
+    '<meta name="robots" content="noindex" />',
+  ].join('\n    ');
+}
@@ -0,0 +1,53 @@
+import type { Alternative, DataFormat, Reservation } from '../types';
+import { buildDerivedReservationText } from './alternativeText';
+
+// Format and protocol names are not translated.
+export const dataFormatLabels: Record<DataFormat, string> = {
+  mbox: 'mbox',
+  eml: 'EML',
+  ics: 'ICS (iCalendar)',
+  vcard: 'vCard',
+  csv: 'CSV',
+  json: 'JSON',
+  odf: 'ODF',
+  ooxml: 'OOXML',
+  pdf: 'PDF',
+  kdbx: 'KDBX (KeePass)',
+  imap: 'IMAP',
+  caldav: 'CalDAV',
+  carddav: 'CardDAV',
+  webdav: 'WebDAV',
+};
+
+/** True when the alternative supports every requested format in the given direction. */
+export function supportsDataFormats(
+  alternative: Pick<Alternative, 'dataPortability'>,
+  direction: 'import' | 'export',
+  formats: DataFormat[],
+): boolean {
+  const supported = alternative.dataPortability?.[direction] ?? [];
+  return formats.every((format) => supported.includes(format));
+}
+
+/**
+ * Applies the Data Portability trigger: a service that stores user data but
+ * offers no standardized export gets a `minor` reservation (GDPR Art. 20).
+ * Local-only tools and entries linking a curated reservation are skipped.
+ */
+export function buildPortabilityReservation(
+  alternative: Pick<Alternative, 'dataPortability'>,
+  existing: Reservation[],
+): Reservation | undefined {
+  const portability = alternative.dataPortability;
+  if (!portability?.storesUserData || portability.export.length > 0) return undefined;
+  if (portability.reservationId && existing.some((reservation) => reservation.id === portability.reservationId)) {
+    return undefined;
+  }
+
+  return {
+    id: 'no-standardized-export',
+    ...buildDerivedReservationText('noStandardizedExport', () => ({})),
+    severity: 'minor',
+    ...(portability.sourceUrl && { sourceUrl: portability.sourceUrl }),
+  };
+}
@@ -0,0 +1,116 @@
+import type { Alternative, TrustScoreBreakdown } from '../types';
+import { trustScoreComponentMaximums } from './trustScore';
+
+export const PRIORITY_COMPONENTS = ['jurisdiction', 'openness', 'privacySignals', 'sovereigntyBonus', 'reservationPenalty'] as const;
+export type PriorityComponent = typeof PRIORITY_COMPONENTS[number];
+export type PriorityWeights = Record<PriorityComponent, number>;
+
+export const priorityWeightStep = 0.5;
+export const maxPriorityWeight = 3;
+export const prioritiesParam = 'priorities';
+
+const storageKey = 'european-alternatives:priorities';
+
+export const defaultPriorityWeights: PriorityWeights = {
+  jurisdiction: 1,
+  openness: 1,
+  privacySignals: 1,
+  sovereigntyBonus: 1,
+  reservationPenalty: 1,
+};
+
+const additiveComponents = ['jurisdiction', 'openness', 'privacySignals', 'sovereigntyBonus'] as const;
+const officialMaximum = additiveComponents.reduce((sum, component) => sum + trustScoreComponentMaximums[component], 0);
+
+export function isDefaultPriorityProfile(weights: PriorityWeights): boolean {
+  return PRIORITY_COMPONENTS.every((component) => weights[component] === defaultPriorityWeights[component]);
+}
+
+function normalizeWeight(value: number): number | undefined {
+  if (!Number.isFinite(value)) return undefined;
+  const stepped = Math.round(value / priorityWeightStep) * priorityWeightStep;
+  return Math.min(maxPriorityWeight, Math.max(0, stepped));
+}
+
+/** Parses `jurisdiction:2,openness:0.5`; unknown components and malformed weights are ignored. */
+export function parsePriorityWeights(value: string | null): PriorityWeights | undefined {
+  if (!value) return undefined;
+
+  const weights: PriorityWeights = { ...defaultPriorityWeights };
+  let recognized = false;
+  for (const pair of value.split(',')) {
+    const [component, rawWeight] = pair.split(':');
+    if (!(PRIORITY_COMPONENTS as readonly string[]).includes(component) || !rawWeight?.trim()) continue;
+    const weight = normalizeWeight(Number(rawWeight));
+    if (weight == null) continue;
+    weights[component as PriorityComponent] = weight;
+    recognized = true;
+  }
+  return recognized ? weights : undefined;
+}
+
+// Only weights that differ from the default are written, which keeps shared links short.
+export function serializePriorityWeights(weights: PriorityWeights): string {
+  return PRIORITY_COMPONENTS
+    .filter((component) => weights[component] !== defaultPriorityWeights[component])
+    .map((component) => `${component}:${weights[component]}`)
+    .join(',');
+}
+
+// Storage can be unavailable (prerendering, private modes, blocked cookies); the profile then lives in the URL only.
+export function loadStoredPriorityWeights(): PriorityWeights | undefined {
+  try {
+    return parsePriorityWeights(window.localStorage.getItem(storageKey));
+  } catch {
+    return undefined;
+  }
+}
+
+export function storePriorityWeights(weights: PriorityWeights): void {
+  try {
+    if (isDefaultPriorityProfile(weights)) {
+      window.localStorage.removeItem(storageKey);
+    } else {
+      window.localStorage.setItem(storageKey, serializePriorityWeights(weights));
+    }
+  } catch {
+    // Ignored: see loadStoredPriorityWeights.
+  }
+}
+
+// Formula score before clamping and the US cap, with each component scaled by its weight.
+function getWeightedFormulaScore(breakdown: TrustScoreBreakdown, weights: PriorityWeights): number {
+  const weightedMaximum = additiveComponents.reduce(
+    (sum, component) => sum + weights[component] * trustScoreComponentMaximums[component],
+    0,
+  );
+  const weightedEarned = additiveComponents.reduce((sum, component) => sum + weights[component] * breakdown[component], 0);
+  const earned = weightedMaximum > 0 ? (weightedEarned / weightedMaximum) * officialMaximum : 0;
+  return earned - weights.reservationPenalty * breakdown.reservationPenalty;
+}
+
+/**
+ * Re-weights the formula breakdown with a personal profile. The weighted sum
+ * is rescaled to the official 11-point maximum, so the default profile
+ * reproduces the formula result exactly; the US hard cap still applies unless
+ * jurisdiction is weighted at zero. A curated score is the starting point for
+ * vetted entries: the profile shifts it by the weighted change in the formula.
+ */
+export function calculatePersonalScore(
+  alternative: Pick<Alternative, 'country' | 'selfHostable' | 'trustScore' | 'trustScoreBreakdown'>,
+  weights: PriorityWeights,
+): number | undefined {
+  const breakdown = alternative.trustScoreBreakdown;
+  if (!breakdown) return undefined;
+
+  const { trustScore } = alternative;
+  const weightedScore = getWeightedFormulaScore(breakdown, weights);
+  const raw = trustScore != null
+    ? trustScore + weightedScore - getWeightedFormulaScore(breakdown, defaultPriorityWeights)
+    : weightedScore;
+  const score = Math.min(10, Math.max(1, raw));
+
+  // Curated scores already account for the jurisdiction, so the cap is the formula's alone.
+  const capped = trustScore == null && weights.jurisdiction > 0 && alternative.country === 'us' && !alternative.selfHostable;
+  return Math.round((capped ? Math.min(4, score) : score) * 10) / 10;
+}
@@ -0,0 +1,267 @@
+import { getUSVendorAliases } from '../data/usVendors';
+import type { Alternative } from '../types';
+
+type SearchField = 'name' | 'replacesUS' | 'tags' | 'headquartersCity' | 'description';
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  tokens: string[];
+}
+
+interface SearchIndexEntry {
+  id: string;
+  foldedName: string;
+  fields: IndexedField[];
+}
+
+export type SearchIndex = SearchIndexEntry[];
+
+export type HighlightRange = [start: number, end: number];
+
+const fieldWeights: Record<SearchField, number> = {
+  name: 10,
+  replacesUS: 6,
+  tags: 4,
+  headquartersCity: 3,
+  description: 1,
+};
+
+// Letters that Unicode decomposition does not reduce to a base letter plus marks.
+const specialFolds: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+const tokenPattern = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercases and strips diacritics character by character, so "Zürich" and
+ * "zurich" compare equal. `sourceIndex[i]` is the offset in the original text
+ * that produced folded character `i`, which lets highlights map back.
+ */
+function foldWithSourceIndex(value: string): { folded: string; sourceIndex: number[] } {
+  let folded = '';
+  const sourceIndex: number[] = [];
+  let offset = 0;
+
+  for (const char of value) {
+    const lower = char.toLowerCase();
+    const base = specialFolds[lower] ?? lower.normalize('NFD').replace(/\p{M}/gu, '');
+    for (let i = 0; i < base.length; i += 1) {
+      sourceIndex.push(offset);
+    }
+    folded += base;
+    offset += char.length;
+  }
+
+  return { folded, sourceIndex };
+}
+
+export function foldText(value: string): string {
+  return foldWithSourceIndex(value).folded;
+}
+
+function tokenize(folded: string): string[] {
+  return folded.match(tokenPattern) ?? [];
+}
+
+export function getSearchTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(foldText(query))));
+}
+
+// A query of separators or punctuation alone has no terms, so it neither filters nor ranks.
+export function hasSearchTerms(query: string): boolean {
+  return getSearchTerms(query).length > 0;
+}
+
+function getMaxEdits(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+// Bounded Levenshtein distance; returns maxEdits + 1 as soon as the bound is exceeded.
+function editDistance(a: string, b: string, maxEdits: number): number {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxEdits) return maxEdits + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function isFuzzyTokenMatch(term: string, token: string): boolean {
+  const maxEdits = getMaxEdits(term);
+  return maxEdits > 0 && editDistance(term, token, maxEdits) <= maxEdits;
+}
+
+/**
+ * Scores a single query term against one field: exact token > prefix > substring > typo.
+ * `fuzzyCache` memoises typo checks per token, since most tokens recur across entries.
+ */
+function scoreTerm(term: string, field: IndexedField, fuzzyCache: Map<string, boolean>): number {
+  let best = 0;
+
+  for (const token of field.tokens) {
+    if (token === term) return 1;
+    if (token.startsWith(term)) {
+      best = Math.max(best, 0.75);
+    } else if (best < 0.35) {
+      let isFuzzy = fuzzyCache.get(token);
+      if (isFuzzy === undefined) {
+        isFuzzy = isFuzzyTokenMatch(term, token);
+        fuzzyCache.set(token, isFuzzy);
+      }
+      if (isFuzzy) best = 0.35;
+    }
+  }
+
+  if (best < 0.5 && term.length >= 3 && field.text.includes(term)) {
+    best = 0.5;
+  }
+
+  return best;
+}
+
+function indexField(field: SearchField, values: Array<string | undefined>): IndexedField[] {
+  return values
+    .filter((value): value is string => Boolean(value && value.trim()))
+    .map((value) => {
+      const text = foldText(value);
+      return { field, text, tokens: Array.from(new Set(tokenize(text))) };
+    });
+}
+
+export function buildSearchIndex(entries: Alternative[]): SearchIndex {
+  return entries.map((alternative) => {
+    const vendorNames = (alternative.usVendorComparisons ?? []).flatMap((vendor) => [
+      vendor.name,
+      ...getUSVendorAliases(vendor.id),
+    ]);
+
+    return {
+      id: alternative.id,
+      foldedName: foldText(alternative.name),
+      fields: [
+        ...indexField('name', [alternative.name]),
+        ...indexField('replacesUS', [...alternative.replacesUS, ...vendorNames]),
+        ...indexField('tags', alternative.tags),
+        ...indexField('headquartersCity', [alternative.headquartersCity]),
+        ...indexField('description', [
+          alternative.description,
+          ...Object.values(alternative.localizedDescriptions ?? {}),
+        ]),
+      ],
+    };
+  });
+}
+
+/**
+ * Returns a relevance score per matching alternative id. Every query term has to
+ * match at least one field; a term contributes its best weighted field score.
+ */
+export function rankSearchResults(index: SearchIndex, query: string): Map<string, number> {
+  const terms = getSearchTerms(query);
+  const scores = new Map<string, number>();
+  if (terms.length === 0) return scores;
+
+  const foldedQuery = terms.join(' ');
+  const fuzzyCaches = terms.map(() => new Map<string, boolean>());
+
+  for (const entry of index) {
+    let total = 0;
+    let matchesAllTerms = true;
+
+    for (const [termIndex, term] of terms.entries()) {
+      let termScore = 0;
+      for (const field of entry.fields) {
+        termScore = Math.max(termScore, scoreTerm(term, field, fuzzyCaches[termIndex]) * fieldWeights[field.field]);
+      }
+      if (termScore === 0) {
+        matchesAllTerms = false;
+        break;
+      }
+      total += termScore;
+    }
+
+    if (!matchesAllTerms) continue;
+
+    if (entry.foldedName === foldedQuery) {
+      total += fieldWeights.name;
+    } else if (entry.foldedName.startsWith(foldedQuery)) {
+      total += fieldWeights.name / 2;
+    }
+
+    scores.set(entry.id, total);
+  }
+
+  return scores;
+}
+
+/**
+ * Finds the character ranges of `text` to highlight for the given folded terms.
+ * Substring matches are preferred; terms without one fall back to highlighting
+ * whole words within typo distance.
+ */
+export function getHighlightRanges(text: string, terms: string[]): HighlightRange[] {
+  if (terms.length === 0 || !text) return [];
+
+  const { folded, sourceIndex } = foldWithSourceIndex(text);
+  const foldedRanges: HighlightRange[] = [];
+
+  for (const term of terms) {
+    let found = false;
+    let position = folded.indexOf(term);
+    while (position !== -1) {
+      const atWordStart = position === 0 || !/[\p{L}\p{N}]/u.test(folded[position - 1]);
+      if (term.length >= 3 || atWordStart) {
+        foldedRanges.push([position, position + term.length]);
+        found = true;
+      }
+      position = folded.indexOf(term, position + term.length);
+    }
+
+    if (!found) {
+      for (const match of folded.matchAll(tokenPattern)) {
+        if (isFuzzyTokenMatch(term, match[0])) {
+          foldedRanges.push([match.index, match.index + match[0].length]);
+        }
+      }
+    }
+  }
+
+  foldedRanges.sort((a, b) => a[0] - b[0]);
+
+  const ranges: HighlightRange[] = [];
+  for (const [foldedStart, foldedEnd] of foldedRanges) {
+    const start = sourceIndex[foldedStart];
+    const lastSource = sourceIndex[foldedEnd - 1];
+    const end = lastSource + ((text.codePointAt(lastSource) ?? 0) > 0xffff ? 2 : 1);
+    const previous = ranges[ranges.length - 1];
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  return ranges;
+}
@@ -0,0 +1,31 @@
+import { alternatives, categories } from '../data';
+
+// Paths below /:lang.
+const toolPaths = ['/browse', '/migrate', '/stack-audit', '/denied', '/trust-changes', '/changes'];
+
+function hasAlternatives(categoryId: string): boolean {
+  return alternatives.some((alternative) => alternative.category === categoryId);
+}
+
+export function getSitemapPaths(): string[] {
+  return [
+    '',
+    ...toolPaths,
+    ...categories.filter((category) => hasAlternatives(category.id)).map((category) => `/category/${category.id}`),
+    ...alternatives.map((alternative) => `/alternative/${alternative.id}`),
+  ];
+}
+
+/**
+ * Every routable page is prerendered, including the ones kept out of the
+ * sitemap: the compare page (empty until alternatives are picked), the
+ * unlinked maintainer audit, and categories that have no alternatives yet.
+ */
+export function getPrerenderPaths(): string[] {
+  return [
+    ...getSitemapPaths(),
+    '/compare',
+    '/audit',
+    ...categories.filter((category) => !hasAlternatives(category.id)).map((category) => `/category/${category.id}`),
+  ];
+}
@@ -0,0 +1,31 @@
+import { defaultLanguage, supportedLanguages } from '../i18n';
+import { siteUrl } from './structuredData';
+
+/**
+ * sitemap.xml with one <url> per page and language. Every entry lists all
+ * language versions (and x-default) as hreflang alternates, matching the
+ * links LocaleLayout puts in <head>.
+ */
+export function buildSitemap(paths: string[]): string {
+  const urls = paths.flatMap((path) => {
+    const alternates = [
+      ...supportedLanguages.map((lang) => ({ hreflang: lang, href: `${siteUrl}/${lang}${path}` })),
+      { hreflang: 'x-default', href: `${siteUrl}/${defaultLanguage}${path}` },
+    ].map(({ hreflang, href }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${href}"/>`);
+
+    return supportedLanguages.map((lang) => [
+      '  <url>',
+      `    <loc>${siteUrl}/${lang}${path}</loc>`,
+      ...alternates,
+      '  </url>',
+    ].join('\n'));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,214 @@
+import { alternatives } from '../data';
+import { listUSVendors } from '../data/usVendors';
+import { findMigrationTarget } from './migration';
+import { foldText } from './search';
+import { compareByTrust } from './trustScore';
+import { getLocalizedReservationText } from './alternativeText';
+import { toCsv } from './csv';
+import type { Alternative, USVendorComparison } from '../types';
+
+export type StackAuditStatus = 'us-vendor' | 'european' | 'unknown';
+
+export interface StackAuditEntry {
+  input: string;
+  status: StackAuditStatus;
+  vendor?: USVendorComparison;
+  vendorName?: string;
+  // Set when the input already names a catalogue entry.
+  alternative?: Alternative;
+  replacements: Alternative[];
+}
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+export const maxStackAuditReplacements = 3;
+
+// Header names SaaS management exports commonly use for the product column.
+const productColumnNames = ['product', 'application', 'app', 'name', 'tool', 'service', 'software', 'vendor'];
+
+const knownUSVendorIds = new Set(listUSVendors().map((vendor) => vendor.id));
+const alternativesByFoldedName = new Map(alternatives.map((alternative) => [foldText(alternative.name), alternative]));
+
+function detectDelimiter(line: string): string | null {
+  for (const delimiter of ['\t', ';', ',']) {
+    if (line.includes(delimiter)) return delimiter;
+  }
+  return null;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Accepts either one product per line or a delimited export (comma, semicolon
+ * or tab). For delimited input the first row is treated as a header when it
+ * names a product column; otherwise the first column is used.
+ */
+export function parseInventory(text: string): string[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const delimiter = detectDelimiter(lines[0]);
+  let products = lines;
+
+  if (delimiter) {
+    const rows = lines.map((line) => splitCsvLine(line, delimiter));
+    const header = rows[0].map((cell) => cell.toLowerCase());
+    const columnIndex = productColumnNames
+      .map((name) => header.indexOf(name))
+      .find((index) => index !== -1);
+    products = columnIndex != null
+      ? rows.slice(1).map((row) => row[columnIndex] ?? '')
+      : rows.map((row) => row[0]);
+  }
+
+  const seen = new Set<string>();
+  return products.filter((product) => {
+    const key = foldText(product.trim());
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map((product) => product.trim());
+}
+
+export function auditStackEntry(input: string): StackAuditEntry {
+  const target = findMigrationTarget(input);
+  const replacements = target.groups
+    .flatMap((group) => group.alternatives)
+    .sort(compareByTrust)
+    .slice(0, maxStackAuditReplacements);
+
+  if (knownUSVendorIds.has(target.vendor.id)) {
+    return { input, status: 'us-vendor', vendor: target.vendor, vendorName: target.vendorName, replacements };
+  }
+
+  const alternative = alternativesByFoldedName.get(foldText(input));
+  if (alternative) {
+    return { input, status: 'european', alternative, replacements: [] };
+  }
+
+  return { input, status: 'unknown', replacements };
+}
+
+export function buildStackAudit(text: string): StackAuditEntry[] {
+  return parseInventory(text).map(auditStackEntry);
+}
+
+function formatTrustScore(entry: StackAuditEntry): string {
+  if (entry.status === 'us-vendor') {
+    return entry.vendor?.trustScore != null ? entry.vendor.trustScore.toFixed(1) : '';
+  }
+  if (entry.status === 'european' && entry.alternative?.trustScoreStatus === 'ready') {
+    return entry.alternative.trustScore?.toFixed(1) ?? '';
+  }
+  return '';
+}
+
+function formatReplacements(entry: StackAuditEntry): string {
+  return entry.replacements
+    .map((alternative) => `${alternative.name} (${alternative.country.toUpperCase()}${
+      alternative.trustScoreStatus === 'ready' && alternative.trustScore != null
+        ? `, ${alternative.trustScore.toFixed(1)}`
+        : ''
+    })`)
+    .join('; ');
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function stackAuditToMarkdown(entries: StackAuditEntry[], t: Translate, language: string): string {
+  const lines = [
+    `# ${t('stackAudit.exportTitle')}`,
+    '',
+    t('stackAudit.summary', {
+      total: entries.length,
+      usVendors: entries.filter((entry) => entry.status === 'us-vendor').length,
+      european: entries.filter((entry) => entry.status === 'european').length,
+      unknown: entries.filter((entry) => entry.status === 'unknown').length,
+    }),
+    '',
+    `| ${[
+      t('stackAudit.input'),
+      t('stackAudit.status'),
+      t('stackAudit.trustScore'),
+      t('stackAudit.reservations'),
+      t('stackAudit.replacements'),
+    ].join(' | ')} |`,
+    '| --- | --- | --- | --- | --- |',
+  ];
+
+  for (const entry of entries) {
+    const status = entry.status === 'us-vendor' && entry.vendorName
+      ? `${t('stackAudit.statusUsVendor')}: ${entry.vendorName}`
+      : t(entry.status === 'european' ? 'stackAudit.statusEuropean' : 'stackAudit.statusUnknown');
+    lines.push(`| ${[
+      entry.input,
+      status,
+      formatTrustScore(entry),
+      String(entry.vendor?.reservations?.length ?? 0),
+      formatReplacements(entry),
+    ].map(escapeMarkdownCell).join(' | ')} |`);
+  }
+
+  const withReservations = entries.filter((entry) => (entry.vendor?.reservations?.length ?? 0) > 0);
+  if (withReservations.length > 0) {
+    lines.push('', `## ${t('stackAudit.reservations')}`);
+    for (const entry of withReservations) {
+      lines.push('', `### ${entry.vendorName ?? entry.input}`, '');
+      for (const reservation of entry.vendor?.reservations ?? []) {
+        const text = getLocalizedReservationText(reservation, language);
+        const source = reservation.sourceUrl ? ` ([${t('stackAudit.source')}](${reservation.sourceUrl}))` : '';
+        lines.push(`- **${t(`severity.${reservation.severity}`)}**: ${text}${source}`);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// CSV columns are fixed English identifiers so exports stay machine-readable in every locale.
+export function stackAuditToCsv(entries: StackAuditEntry[]): string {
+  const rows = [
+    ['input', 'status', 'us_vendor', 'trust_score', 'reservations', 'major_reservations', 'replacements'],
+    ...entries.map((entry) => [
+      entry.input,
+      entry.status,
+      entry.vendorName ?? '',
+      formatTrustScore(entry),
+      String(entry.vendor?.reservations?.length ?? 0),
+      String(entry.vendor?.reservations?.filter((reservation) => reservation.severity === 'major').length ?? 0),
+      formatReplacements(entry),
+    ]),
+  ];
+
+  return toCsv(rows);
+}
@@ -0,0 +1,77 @@
+import { categories } from '../data';
+import type { Alternative } from '../types';
+
+export const siteUrl = 'https://european-alternatives.cloud';
+
+type JsonLdNode = Record<string, unknown>;
+
+// JSON for an inline <script type="application/ld+json">; "<" is escaped so catalogue text cannot close the tag.
+export function serializeJsonLd(node: JsonLdNode): string {
+  return JSON.stringify(node).replace(/</g, '\\u003c');
+}
+
+export function toAbsoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${siteUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+export function getAlternativeUrl(alternative: Pick<Alternative, 'id'>, lang: string): string {
+  return `${siteUrl}/${lang}/alternative/${alternative.id}`;
+}
+
+function buildOrganization(alternative: Alternative): JsonLdNode {
+  return {
+    '@type': 'Organization',
+    name: alternative.name,
+    url: alternative.website,
+    ...(alternative.foundedYear != null && { foundingDate: String(alternative.foundedYear) }),
+    address: {
+      '@type': 'PostalAddress',
+      addressCountry: alternative.country.toUpperCase(),
+      ...(alternative.headquartersCity && { addressLocality: alternative.headquartersCity }),
+    },
+  };
+}
+
+/**
+ * schema.org SoftwareApplication description of an alternative. The trust score
+ * is published as a PropertyValue rather than a rating, since it is an editorial
+ * assessment and not aggregated user reviews. `description` and `categoryName`
+ * are in `lang`; the category name defaults to the English one.
+ */
+export function buildAlternativeJsonLd(
+  alternative: Alternative,
+  lang: string,
+  description: string,
+  categoryName = categories.find((entry) => entry.id === alternative.category)?.name,
+): JsonLdNode {
+  const hasPublishedScore = alternative.trustScoreStatus === 'ready' && alternative.trustScore != null;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'SoftwareApplication',
+    '@id': getAlternativeUrl(alternative, lang),
+    name: alternative.name,
+    description,
+    url: getAlternativeUrl(alternative, lang),
+    sameAs: alternative.website,
+    inLanguage: lang,
+    ...(categoryName && { applicationCategory: categoryName }),
+    ...(alternative.logo && { image: toAbsoluteUrl(alternative.logo) }),
+    ...(alternative.license && { license: alternative.license }),
+    isAccessibleForFree: alternative.pricing !== 'paid',
+    ...(alternative.pricing === 'free' && {
+      offers: { '@type': 'Offer', price: '0', priceCurrency: 'EUR' },
+    }),
+    keywords: alternative.tags.join(', '),
+    publisher: buildOrganization(alternative),
+    ...(hasPublishedScore && {
+      additionalProperty: {
+        '@type': 'PropertyValue',
+        name: 'Trust score',
+        value: alternative.trustScore,
+        minValue: 1,
+        maxValue: 10,
+      },
+    }),
+  };
+}
@@ -0,0 +1,165 @@
+import type { Alternative, LocalizedText, USVendorComparison } from '../types';
+import { catalogueBaseLanguage, isMissingTranslation } from './alternativeText';
+
+export interface LocaleMessages {
+  [key: string]: string | LocaleMessages;
+}
+
+// Namespace name to its messages, i.e. the JSON files of one locales/<lang>/ folder.
+export type LocaleNamespaces = Record<string, LocaleMessages>;
+
+export const translationCoverageMetrics = ['messages', 'descriptions', 'reservations', 'usVendors'] as const;
+
+export type TranslationCoverageMetric = typeof translationCoverageMetrics[number];
+
+export interface CoverageCount {
+  translated: number;
+  total: number;
+}
+
+export interface TranslationCoverage extends CoverageCount {
+  // Message keys (namespace:path) or catalogue ids without a translation.
+  missing: string[];
+}
+
+export interface LocaleTranslationReport {
+  locale: string;
+  coverage: Record<TranslationCoverageMetric, TranslationCoverage>;
+  // Keys the base language does not have, usually left behind by a rename.
+  extraKeys: string[];
+}
+
+export type TranslationCoverageBaseline = Record<string, Partial<Record<TranslationCoverageMetric, CoverageCount>>>;
+
+const pluralSuffix = /_(zero|one|two|few|many|other)$/;
+
+function flattenMessageKeys(messages: LocaleMessages, prefix: string): string[] {
+  return Object.entries(messages).flatMap(([key, value]) => {
+    if (typeof value !== 'string') return flattenMessageKeys(value, `${prefix}${key}.`);
+    return value === '' ? [] : [`${prefix}${key}`];
+  });
+}
+
+export function listMessageKeys(namespaces: LocaleNamespaces): string[] {
+  return Object.entries(namespaces).flatMap(([namespace, messages]) => flattenMessageKeys(messages, `${namespace}:`));
+}
+
+/**
+ * The keys a locale needs to cover every base-language key. Plural keys are
+ * expanded to the plural categories of the locale itself, so Polish needs
+ * `_few` and `_many` where English only has `_one` and `_other`.
+ */
+function getRequiredMessageKeys(baseKeys: string[], locale: string): Set<string> {
+  const categories = new Intl.PluralRules(locale).resolvedOptions().pluralCategories;
+  const required = new Set<string>();
+  for (const key of baseKeys) {
+    if (!pluralSuffix.test(key)) {
+      required.add(key);
+      continue;
+    }
+    const stem = key.replace(pluralSuffix, '');
+    for (const category of categories) required.add(`${stem}_${category}`);
+  }
+  return required;
+}
+
+function toCoverage(entries: Array<[string, boolean]>): TranslationCoverage {
+  const missing = entries.filter(([, translated]) => !translated).map(([id]) => id);
+  return { translated: entries.length - missing.length, total: entries.length, missing };
+}
+
+function getCatalogueCoverage(entries: Array<[string, LocalizedText | undefined]>, locale: string): TranslationCoverage {
+  return toCoverage(entries.map(([id, translations]) => [id, !isMissingTranslation(translations, locale)]));
+}
+
+/**
+ * Translation coverage of every locale except the catalogue base language:
+ * UI message keys against the base language, plus the catalogue text
+ * (alternative descriptions, reservation texts, US vendor descriptions)
+ * that falls back to English.
+ */
+export function buildTranslationCoverageReport(
+  localeNamespaces: Record<string, LocaleNamespaces>,
+  alternatives: Alternative[],
+  usVendors: USVendorComparison[],
+): LocaleTranslationReport[] {
+  const baseKeys = listMessageKeys(localeNamespaces[catalogueBaseLanguage] ?? {});
+  const descriptions = alternatives.map((alternative): [string, LocalizedText | undefined] => [
+    alternative.id,
+    alternative.localizedDescriptions,
+  ]);
+  const reservations = alternatives.flatMap((alternative) => (alternative.reservations ?? []).map(
+    (reservation): [string, LocalizedText | undefined] => [`${alternative.id}/${reservation.id}`, reservation.localizedTexts],
+  ));
+  const vendorDescriptions = usVendors
+    .filter((vendor) => vendor.description)
+    .map((vendor): [string, LocalizedText | undefined] => [vendor.id, vendor.localizedDescriptions]);
+
+  return Object.keys(localeNamespaces)
+    .filter((locale) => locale !== catalogueBaseLanguage)
+    .sort()
+    .map((locale) => {
+      const required = getRequiredMessageKeys(baseKeys, locale);
+      const present = new Set(listMessageKeys(localeNamespaces[locale]));
+
+      return {
+        locale,
+        coverage: {
+          messages: toCoverage([...required].map((key) => [key, present.has(key)])),
+          descriptions: getCatalogueCoverage(descriptions, locale),
+          reservations: getCatalogueCoverage(reservations, locale),
+          usVendors: getCatalogueCoverage(vendorDescriptions, locale),
+        },
+        extraKeys: [...present].filter((key) => !required.has(key)),
+      };
+    });
+}
+
+// Share of translated items; a metric with nothing to translate counts as fully covered.
+export function getCoverageRatio({ translated, total }: CoverageCount): number {
+  return total === 0 ? 1 : translated / total;
+}
+
+export function toCoverageBaseline(reports: LocaleTranslationReport[]): TranslationCoverageBaseline {
+  return Object.fromEntries(reports.map(({ locale, coverage }) => [
+    locale,
+    Object.fromEntries(translationCoverageMetrics.map((metric) => {
+      const { translated, total } = coverage[metric];
+      return [metric, { translated, total }];
+    })),
+  ]));
+}
+
+export interface CoverageChange {
+  locale: string;
+  metric: TranslationCoverageMetric;
+  baseline: CoverageCount;
+  current: CoverageCount;
+}
+
+/**
+ * Compares coverage ratios rather than counts, so adding an English-only
+ * entry lowers a fully translated locale but not one that has no catalogue
+ * translations yet. Locales or metrics missing from the baseline are skipped.
+ */
+export function compareWithCoverageBaseline(
+  reports: LocaleTranslationReport[],
+  baseline: TranslationCoverageBaseline,
+): { drops: CoverageChange[]; improvements: CoverageChange[] } {
+  const drops: CoverageChange[] = [];
+  const improvements: CoverageChange[] = [];
+
+  for (const { locale, coverage } of reports) {
+    for (const metric of translationCoverageMetrics) {
+      const previous = baseline[locale]?.[metric];
+      if (!previous) continue;
+
+      const change = { locale, metric, baseline: previous, current: coverage[metric] };
+      const delta = getCoverageRatio(coverage[metric]) - getCoverageRatio(previous);
+      if (delta < 0) drops.push(change);
+      else if (delta > 0) improvements.push(change);
+    }
+  }
+
+  return { drops, improvements };
+}
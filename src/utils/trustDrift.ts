@@ -0,0 +1,99 @@
+import type { Alternative, TrustScoreBreakdown } from '../types';
+import { trustScoreComponentMaximums } from './trustScore';
+
+export type TrustDriftComponent = keyof TrustScoreBreakdown;
+
+export interface TrustDriftExplanation {
+  component: TrustDriftComponent;
+  points: number;
+}
+
+export interface TrustDriftEntry {
+  id: string;
+  name: string;
+  override: number;
+  computed: number;
+  delta: number;
+  flagged: boolean;
+  explainedBy: TrustDriftExplanation[];
+}
+
+// Curated scores within this distance of the formula are treated as consistent.
+export const defaultTrustDriftThreshold = 1.5;
+
+const additiveComponents = ['jurisdiction', 'openness', 'privacySignals', 'sovereigntyBonus'] as const;
+
+function roundPoints(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Lists the formula components that can account for the gap between the
+ * curated override and the computed score. A higher override is explained by
+ * points the formula withheld (unearned maximums, penalties, the US cap); a
+ * lower override by points the formula awarded. Candidates are taken largest
+ * first until they cover the delta.
+ */
+function explainDelta(breakdown: TrustScoreBreakdown, computed: number, delta: number): TrustDriftExplanation[] {
+  const candidates: TrustDriftExplanation[] = [];
+
+  if (delta > 0) {
+    for (const component of additiveComponents) {
+      const withheld = trustScoreComponentMaximums[component] - breakdown[component];
+      if (withheld > 0) candidates.push({ component, points: withheld });
+    }
+    if (breakdown.reservationPenalty > 0) {
+      candidates.push({ component: 'reservationPenalty', points: breakdown.reservationPenalty });
+    }
+    if (breakdown.usCapApplied) {
+      const uncapped = additiveComponents.reduce((sum, component) => sum + breakdown[component], 0)
+        - breakdown.reservationPenalty;
+      candidates.push({ component: 'usCapApplied', points: roundPoints(Math.min(10, uncapped) - computed) });
+    }
+  } else {
+    for (const component of additiveComponents) {
+      if (breakdown[component] > 0) candidates.push({ component, points: breakdown[component] });
+    }
+  }
+
+  candidates.sort((a, b) => b.points - a.points);
+
+  const explanation: TrustDriftExplanation[] = [];
+  let covered = 0;
+  for (const candidate of candidates) {
+    if (covered >= Math.abs(delta)) break;
+    explanation.push(candidate);
+    covered += candidate.points;
+  }
+
+  return explanation;
+}
+
+/**
+ * Compares every curated trust score override with the formula result.
+ * Entries without an override are skipped; results are sorted by absolute delta.
+ */
+export function buildTrustDriftReport(
+  entries: Alternative[],
+  threshold: number = defaultTrustDriftThreshold,
+): TrustDriftEntry[] {
+  const report: TrustDriftEntry[] = [];
+
+  for (const alternative of entries) {
+    const { trustScore: override, computedTrustScore: computed, trustScoreBreakdown: breakdown } = alternative;
+    if (alternative.trustScoreStatus !== 'ready' || override == null || computed == null || !breakdown) continue;
+
+    const delta = roundPoints(override - computed);
+    report.push({
+      id: alternative.id,
+      name: alternative.name,
+      override,
+      computed,
+      delta,
+      flagged: Math.abs(delta) > threshold,
+      explainedBy: delta === 0 ? [] : explainDelta(breakdown, computed, delta),
+    });
+  }
+
+  return report.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,50 @@
+import { trustScoreHistory } from '../data';
+import type { TrustScoreChange } from '../types';
+
+export interface TrustScoreHistoryEntry {
+  change: TrustScoreChange;
+  // Undefined for the first recorded score of an alternative.
+  previousScore?: number;
+}
+
+function buildHistoryById(): Map<string, TrustScoreHistoryEntry[]> {
+  const historyById = new Map<string, TrustScoreHistoryEntry[]>();
+  // A stable sort keeps same-day entries in file order.
+  const chronological = [...trustScoreHistory].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const change of chronological) {
+    const entries = historyById.get(change.alternativeId) ?? [];
+    entries.push({ change, previousScore: entries[entries.length - 1]?.change.score });
+    historyById.set(change.alternativeId, entries);
+  }
+  return historyById;
+}
+
+const historyById = buildHistoryById();
+
+/** Published scores of one alternative, oldest first. */
+export function getTrustScoreHistory(alternativeId: string): TrustScoreHistoryEntry[] {
+  return historyById.get(alternativeId) ?? [];
+}
+
+/** Score changes across the catalogue, newest first. First recorded scores are not changes and are left out. */
+export function getRecentTrustChanges(limit: number): TrustScoreHistoryEntry[] {
+  return Array.from(historyById.values())
+    .flat()
+    .filter((entry) => entry.previousScore != null)
+    .sort((a, b) => b.change.date.localeCompare(a.change.date))
+    .slice(0, limit);
+}
+
+// Undefined for the first entry and for one that only re-dates or re-explains the previous score.
+export function formatScoreDelta(entry: TrustScoreHistoryEntry): { label: string; direction: 'up' | 'down' } | undefined {
+  if (entry.previousScore == null) return undefined;
+  const delta = Math.round((entry.change.score - entry.previousScore) * 10) / 10;
+  if (delta === 0) return undefined;
+  return { label: `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(1)}`, direction: delta > 0 ? 'up' : 'down' };
+}
+
+export const trustScoreHistoryStart = trustScoreHistory.reduce<string | undefined>(
+  (earliest, change) => (earliest == null || change.date < earliest ? change.date : earliest),
+  undefined,
+);
@@ -1,5 +1,6 @@
-import type { Alternative, CountryCode, Reservation } from '../types';
+import type { Alternative, CountryCode, JurisdictionTier, Reservation, ReservationPenalty } from '../types';
 import { PRIMARY_PRIVACY_TAGS, SECONDARY_PRIVACY_TAGS } from '../types';
+import { catalogueDate } from '../data/catalogueDate';
 
 export interface CalculatedTrustScore {
   score: number;
@@ -9,10 +10,19 @@ export interface CalculatedTrustScore {
     privacySignals: number;
     sovereigntyBonus: number;
     reservationPenalty: number;
+    reservationPenalties: ReservationPenalty[];
     usCapApplied: boolean;
   };
 }
 
+// Upper bounds of each additive component, as documented in DECISION_MATRIX.md.
+export const trustScoreComponentMaximums = {
+  jurisdiction: 4,
+  openness: 3,
+  privacySignals: 2,
+  sovereigntyBonus: 2,
+} as const;
+
 const euMemberStates = new Set<CountryCode>([
   'at', 'be', 'bg', 'hr', 'cy', 'cz', 'dk', 'ee', 'fi', 'fr', 'de', 'gr', 'hu', 'ie', 'it',
   'lv', 'lt', 'lu', 'mt', 'nl', 'pl', 'pt', 'ro', 'sk', 'si', 'es', 'se',
@@ -23,6 +33,16 @@ const europeanNonEU = new Set<CountryCode>(['ch', 'no', 'gb', 'is']);
 const privacyTagGroupPrimary = new Set<string>(PRIMARY_PRIVACY_TAGS);
 const privacyTagGroupSecondary = new Set<string>(SECONDARY_PRIVACY_TAGS);
 
+// Tier 1 covers EU member states, European non-EU countries and pan-European entities.
+export function getJurisdictionTier(country: CountryCode): JurisdictionTier {
+  return euMemberStates.has(country) || europeanNonEU.has(country) || country === 'eu' ? 1 : 2;
+}
+
+// For jurisdictions outside the catalogue's CountryCode list, e.g. parent companies or hosting providers.
+export function isEuropeanJurisdiction(code: string): boolean {
+  return getJurisdictionTier(code as CountryCode) === 1;
+}
+
 function getJurisdictionScore(country: CountryCode): number {
   if (euMemberStates.has(country)) return 4;
   if (europeanNonEU.has(country)) return 3;
@@ -58,18 +78,48 @@ function getSovereigntyScore(selfHostable: boolean): number {
   return selfHostable ? 2 : 0;
 }
 
-function getReservationPenalty(reservations: Reservation[]): number {
-  return reservations.reduce((sum, reservation) => {
-    switch (reservation.severity) {
-      case 'major':
-        return sum + 3;
-      case 'moderate':
-        return sum + 2;
-      case 'minor':
-      default:
-        return sum + 1;
-    }
-  }, 0);
+const maxReservationPenalties: Record<Reservation['severity'], number> = {
+  major: 3,
+  moderate: 2,
+  minor: 1,
+};
+
+const msPerYear = 365.25 * 24 * 60 * 60 * 1000;
+
+function getYearsSince(date: string | undefined, asOf: Date): number {
+  if (!date) return 0;
+  return Math.max(0, (asOf.getTime() - new Date(date).getTime()) / msPerYear);
+}
+
+/**
+ * Share of the maximum penalty a reservation still carries. Ongoing concerns
+ * count in full however old they are. Resolved ones halve at once and fade out
+ * after three years; remediated ones keep a quarter because the structural
+ * cause was mitigated rather than removed.
+ */
+export function getReservationWeight(reservation: Reservation, asOf: Date): number {
+  const status = reservation.status ?? 'ongoing';
+  if (status === 'ongoing') return 1;
+
+  const years = getYearsSince(reservation.resolvedAt ?? reservation.date, asOf);
+  if (status === 'remediated') return years < 3 ? 0.5 : 0.25;
+  if (years < 1) return 0.5;
+  return years < 3 ? 0.25 : 0;
+}
+
+function roundPenalty(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getReservationPenalties(reservations: Reservation[], asOf: Date): ReservationPenalty[] {
+  return reservations.map((reservation) => {
+    const maxPenalty = maxReservationPenalties[reservation.severity] ?? 1;
+    return {
+      reservationId: reservation.id,
+      maxPenalty,
+      penalty: roundPenalty(maxPenalty * getReservationWeight(reservation, asOf)),
+    };
+  });
 }
 
 function clampScore(value: number): number {
@@ -81,12 +131,14 @@ export function calculateTrustScore(
     selfHostable?: boolean;
     reservations?: Reservation[];
   },
+  asOf: Date,
 ): CalculatedTrustScore {
   const jurisdiction = getJurisdictionScore(alternative.country);
   const openness = getOpennessScore(alternative);
   const privacySignals = getPrivacySignalScore(alternative.tags);
   const sovereigntyBonus = getSovereigntyScore(alternative.selfHostable ?? false);
-  const reservationPenalty = getReservationPenalty(alternative.reservations ?? []);
+  const reservationPenalties = getReservationPenalties(alternative.reservations ?? [], asOf);
+  const reservationPenalty = roundPenalty(reservationPenalties.reduce((sum, entry) => sum + entry.penalty, 0));
 
   const rawScore = jurisdiction + openness + privacySignals + sovereigntyBonus - reservationPenalty;
   const clampedScore = clampScore(rawScore);
@@ -103,6 +155,7 @@ export function calculateTrustScore(
       privacySignals,
       sovereigntyBonus,
       reservationPenalty,
+      reservationPenalties,
       usCapApplied,
     },
   };
@@ -111,12 +164,15 @@ export function calculateTrustScore(
 export function getEffectiveTrustScore(
   alternative: Pick<
     Alternative,
-    'country' | 'isOpenSource' | 'openSourceLevel' | 'tags' | 'selfHostable' | 'reservations' | 'trustScore'
+    'country' | 'isOpenSource' | 'openSourceLevel' | 'tags' | 'selfHostable' | 'reservations' | 'trustScore' | 'computedTrustScore'
   >,
 ): number {
   if (alternative.trustScore != null) {
     return alternative.trustScore;
   }
+  if (alternative.computedTrustScore != null) {
+    return alternative.computedTrustScore;
+  }
 
   return calculateTrustScore({
     country: alternative.country,
@@ -125,5 +181,16 @@ export function getEffectiveTrustScore(
     tags: alternative.tags,
     selfHostable: alternative.selfHostable,
     reservations: alternative.reservations,
-  }).score;
+  }, new Date(catalogueDate)).score;
+}
+
+export function hasVettedTrustScore(alternative: Pick<Alternative, 'trustScoreStatus' | 'trustScore'>): boolean {
+  return alternative.trustScoreStatus === 'ready' && alternative.trustScore != null;
+}
+
+// Vetted alternatives come first so that a pending formula score never becomes the recommended pick.
+export function compareByTrust(a: Alternative, b: Alternative): number {
+  return Number(hasVettedTrustScore(b)) - Number(hasVettedTrustScore(a))
+    || getEffectiveTrustScore(b) - getEffectiveTrustScore(a)
+    || a.name.localeCompare(b.name);
 }